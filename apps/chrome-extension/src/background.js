@@ -235,6 +235,13 @@ const getTargetUrl = (info) => {
   return '';
 };
 
+// The frame that embeds the media is what sends it as the HTTP referrer.
+const getSource = (info, url) => ({
+  pageUrl: info.pageUrl,
+  mediaUrl: url,
+  referrer: info.frameUrl || info.pageUrl,
+});
+
 const getMediaType = (info) => (info.mediaType === 'video' ? 'video' : 'image');
 
 const summarizeUrlImport = (result, datasetName) => {
@@ -301,9 +308,9 @@ const getStackThumbnailUrl = ({ apiBaseUrl, mediaType, sourceUrl, stack }) => {
   });
 };
 
-const uploadByUrl = async ({ datasetId, url, mediaType }) => {
+const uploadByUrl = async ({ datasetId, url, mediaType, source }) => {
   const { blob, fileName } = await fetchTargetBlob({ url, mediaType });
-  return uploadBlob({ blob, fileName, datasetId, mediaType });
+  return uploadBlob({ blob, fileName, datasetId, mediaType, source });
 };
 
 const addToDataset = async ({ datasetId, info, tabId }) => {
@@ -333,7 +340,12 @@ const addToDataset = async ({ datasetId, info, tabId }) => {
     accentColor,
   });
   try {
-    const stack = await uploadByUrl({ datasetId, url, mediaType });
+    const stack = await uploadByUrl({
+      datasetId,
+      url,
+      mediaType,
+      source: getSource(info, url),
+    });
     const stackId = getStackIdFromStack(stack);
     await showToast({
       tabId,
@@ -359,7 +371,7 @@ const addToDataset = async ({ datasetId, info, tabId }) => {
   }
 
   try {
-    const result = await importUrl({ url, datasetId, mediaType });
+    const result = await importUrl({ url, datasetId, mediaType, source: getSource(info, url) });
     const stackId = getStackIdFromImportResult(result);
     await showToast({
       tabId,
@@ -387,8 +399,6 @@ chrome.runtime.onStartup.addListener(() => {
   void refreshDatasets().then(rebuildMenus);
 });
 
-chrome.action.onClicked.addListener(openOptions);
-
 chrome.storage.onChanged.addListener((changes, areaName) => {
   if (areaName !== 'local') return;
   if (changes.datasets || changes.apiBaseUrl) {
@@ -0,0 +1,390 @@
+import {
+  getCollections,
+  getImportedUrls,
+  getSettings,
+  importUrls,
+  isHttpUrl,
+  saveSettings,
+  t,
+} from './shared.js';
+
+// import-from-urls が 1 回で受け付ける件数
+const MAX_BATCH_SIZE = 100;
+
+const batchForm = document.querySelector('#batchForm');
+const optionsButton = document.querySelector('#optionsButton');
+const datasetSelect = document.querySelector('#datasetSelect');
+const collectionSelect = document.querySelector('#collectionSelect');
+const tagsInput = document.querySelector('#tagsInput');
+const authorInput = document.querySelector('#authorInput');
+const minSizeInput = document.querySelector('#minSizeInput');
+const selectionCount = document.querySelector('#selectionCount');
+const selectAllButton = document.querySelector('#selectAllButton');
+const selectNoneButton = document.querySelector('#selectNoneButton');
+const rescanButton = document.querySelector('#rescanButton');
+const mediaGrid = document.querySelector('#mediaGrid');
+const sendButton = document.querySelector('#sendButton');
+const statusText = document.querySelector('#status');
+
+const state = {
+  tab: null,
+  media: [],
+  selected: new Set(),
+  imported: new Map(),
+};
+
+const applyLocalization = () => {
+  document.documentElement.lang =
+    globalThis.chrome?.i18n?.getUILanguage?.() || navigator.language || 'ja';
+  document.title = t('popupPageTitle');
+
+  for (const element of document.querySelectorAll('[data-i18n]')) {
+    const key = element.getAttribute('data-i18n');
+    if (key) element.textContent = t(key);
+  }
+
+  for (const element of document.querySelectorAll('[data-i18n-placeholder]')) {
+    const key = element.getAttribute('data-i18n-placeholder');
+    if (key) element.setAttribute('placeholder', t(key));
+  }
+};
+
+const setStatus = (message) => {
+  statusText.textContent = message;
+};
+
+const setBusy = (busy) => {
+  for (const control of batchForm.querySelectorAll('input, select, button')) {
+    control.disabled = busy;
+  }
+  if (!busy) updateSelection();
+};
+
+// ページ側で実行される。外側の変数は参照できないので自己完結させる
+const collectPageMedia = () => {
+  const items = [];
+  const toAbsolute = (value) => {
+    try {
+      return value ? new URL(value, document.baseURI).href : '';
+    } catch {
+      return '';
+    }
+  };
+
+  for (const image of document.images) {
+    const url = toAbsolute(image.currentSrc || image.src);
+    if (!url) continue;
+    items.push({
+      url,
+      mediaType: 'image',
+      width: image.naturalWidth,
+      height: image.naturalHeight,
+      thumbnailUrl: url,
+    });
+  }
+
+  for (const video of document.querySelectorAll('video')) {
+    const source = video.querySelector('source[src]');
+    const url = toAbsolute(video.currentSrc || video.src || source?.getAttribute('src'));
+    if (!url) continue;
+    items.push({
+      url,
+      mediaType: 'video',
+      width: video.videoWidth || video.clientWidth,
+      height: video.videoHeight || video.clientHeight,
+      thumbnailUrl: toAbsolute(video.poster),
+    });
+  }
+
+  return items;
+};
+
+const isStreamUrl = (url) => {
+  const pathname = new URL(url).pathname.toLowerCase();
+  return ['.m3u8', '.mpd'].some((extension) => pathname.endsWith(extension));
+};
+
+const scanTab = async (tabId) => {
+  const frames = await chrome.scripting.executeScript({
+    target: { tabId, allFrames: true },
+    func: collectPageMedia,
+  });
+  return frames.flatMap((frame) => (Array.isArray(frame.result) ? frame.result : []));
+};
+
+const filterMedia = (items, minSize) => {
+  const seen = new Set();
+  const media = [];
+  for (const item of items) {
+    if (!isHttpUrl(item.url) || isStreamUrl(item.url) || seen.has(item.url)) continue;
+    if (Math.max(item.width, item.height) < minSize) continue;
+    seen.add(item.url);
+    media.push(item);
+  }
+  return media;
+};
+
+const readMinSize = () => Math.max(0, Number(minSizeInput.value) || 0);
+
+const readTags = () =>
+  tagsInput.value
+    .split(/[,、]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+const updateSelection = () => {
+  selectionCount.textContent = String(state.selected.size);
+  sendButton.disabled = state.selected.size === 0 || !datasetSelect.value;
+  for (const item of mediaGrid.querySelectorAll('.media-item')) {
+    const input = item.querySelector('input');
+    item.classList.toggle('is-selected', input.checked);
+  }
+};
+
+const renderMedia = () => {
+  mediaGrid.replaceChildren();
+
+  if (state.media.length === 0) {
+    const empty = document.createElement('p');
+    empty.className = 'empty';
+    empty.textContent = t('popupNoMedia');
+    mediaGrid.append(empty);
+    updateSelection();
+    return;
+  }
+
+  for (const item of state.media) {
+    const imported = state.imported.has(item.url);
+    const label = document.createElement('label');
+    label.className = imported ? 'media-item is-imported' : 'media-item';
+    label.title = item.url;
+
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.value = item.url;
+    input.checked = state.selected.has(item.url);
+    label.append(input);
+
+    const thumbnail = document.createElement('img');
+    thumbnail.src = item.thumbnailUrl || 'data:,';
+    thumbnail.alt = '';
+    thumbnail.loading = 'lazy';
+    label.append(thumbnail);
+
+    const size = document.createElement('span');
+    size.className = 'media-size';
+    size.textContent = `${item.width}×${item.height}`;
+    label.append(size);
+
+    if (item.mediaType === 'video') {
+      const badge = document.createElement('span');
+      badge.className = 'media-badge is-video';
+      badge.textContent = t('popupVideoBadge');
+      label.append(badge);
+    }
+
+    if (imported) {
+      const badge = document.createElement('span');
+      badge.className = 'media-badge';
+      badge.textContent = t('popupImportedBadge');
+      label.append(badge);
+    }
+
+    mediaGrid.append(label);
+  }
+
+  updateSelection();
+};
+
+// 取り込み済みのメディアは印を付けて選択から外す
+const refreshImported = async () => {
+  state.imported = new Map();
+  const datasetId = Number(datasetSelect.value);
+  if (datasetId && state.media.length > 0) {
+    try {
+      state.imported = await getImportedUrls({
+        datasetId,
+        urls: state.media.map((item) => item.url),
+      });
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : t('popupDuplicateCheckFailure'));
+    }
+  }
+  state.selected = new Set(
+    state.media.map((item) => item.url).filter((url) => !state.imported.has(url))
+  );
+  renderMedia();
+};
+
+const renderCollections = async (collectionId) => {
+  const datasetId = Number(datasetSelect.value);
+  const collections = datasetId ? await getCollections(datasetId).catch(() => []) : [];
+  const none = collectionSelect.querySelector('option[value=""]');
+  collectionSelect.replaceChildren(none);
+  for (const collection of collections) {
+    const option = document.createElement('option');
+    option.value = String(collection.id);
+    option.textContent = collection.icon
+      ? `${collection.icon} ${collection.name}`
+      : collection.name;
+    collectionSelect.append(option);
+  }
+  collectionSelect.value = collections.some((collection) => collection.id === collectionId)
+    ? String(collectionId)
+    : '';
+};
+
+const renderDatasets = (datasets, datasetId) => {
+  datasetSelect.replaceChildren();
+  const usable = datasets.filter((dataset) => dataset.authorized);
+  for (const dataset of usable) {
+    const option = document.createElement('option');
+    option.value = String(dataset.id);
+    option.textContent = dataset.icon ? `${dataset.icon} ${dataset.name}` : dataset.name;
+    datasetSelect.append(option);
+  }
+  if (usable.some((dataset) => dataset.id === datasetId)) {
+    datasetSelect.value = String(datasetId);
+  }
+  if (usable.length === 0) setStatus(t('emptyLibraries'));
+};
+
+const collectDefaults = () => ({
+  datasetId: Number(datasetSelect.value) || null,
+  collectionId: Number(collectionSelect.value) || null,
+  tags: tagsInput.value,
+  author: authorInput.value,
+  singleStack: batchForm.elements.mode.value === 'single',
+  minSize: readMinSize(),
+});
+
+const saveDefaults = () => saveSettings({ batchDefaults: collectDefaults() });
+
+const scan = async () => {
+  if (!state.tab?.id || !isHttpUrl(state.tab.url)) {
+    state.media = [];
+    setStatus(t('popupUnsupportedPage'));
+    renderMedia();
+    return;
+  }
+  try {
+    const items = await scanTab(state.tab.id);
+    state.media = filterMedia(items, readMinSize()).slice(0, MAX_BATCH_SIZE);
+    setStatus('');
+  } catch (error) {
+    state.media = [];
+    setStatus(error instanceof Error ? error.message : t('popupScanFailure'));
+  }
+  await refreshImported();
+};
+
+const summarize = (results) => {
+  const count = (...statuses) =>
+    results.filter((result) => statuses.includes(result.status)).length;
+  return t('popupSendSummary', {
+    added: count('created', 'added'),
+    skipped: count('skipped'),
+    failed: count('error'),
+  });
+};
+
+const init = async () => {
+  applyLocalization();
+  const [settings, [tab]] = await Promise.all([
+    getSettings(),
+    chrome.tabs.query({ active: true, currentWindow: true }),
+  ]);
+  const defaults = settings.batchDefaults;
+  state.tab = tab || null;
+
+  renderDatasets(settings.datasets, defaults.datasetId);
+  await renderCollections(defaults.collectionId);
+  tagsInput.value = defaults.tags;
+  authorInput.value = defaults.author;
+  batchForm.elements.mode.value = defaults.singleStack ? 'single' : 'each';
+  minSizeInput.value = String(defaults.minSize);
+
+  await scan();
+};
+
+optionsButton.addEventListener('click', () => {
+  chrome.runtime.openOptionsPage();
+});
+
+datasetSelect.addEventListener('change', async () => {
+  setBusy(true);
+  try {
+    await renderCollections(null);
+    await saveDefaults();
+    await refreshImported();
+  } finally {
+    setBusy(false);
+  }
+});
+
+minSizeInput.addEventListener('change', async () => {
+  setBusy(true);
+  try {
+    await saveDefaults();
+    await scan();
+  } finally {
+    setBusy(false);
+  }
+});
+
+rescanButton.addEventListener('click', async () => {
+  setBusy(true);
+  try {
+    await scan();
+  } finally {
+    setBusy(false);
+  }
+});
+
+selectAllButton.addEventListener('click', () => {
+  state.selected = new Set(state.media.map((item) => item.url));
+  renderMedia();
+});
+
+selectNoneButton.addEventListener('click', () => {
+  state.selected = new Set();
+  renderMedia();
+});
+
+mediaGrid.addEventListener('change', (event) => {
+  const input = event.target;
+  if (!(input instanceof HTMLInputElement)) return;
+  if (input.checked) state.selected.add(input.value);
+  else state.selected.delete(input.value);
+  updateSelection();
+});
+
+batchForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const defaults = collectDefaults();
+  const urls = state.media.map((item) => item.url).filter((url) => state.selected.has(url));
+  if (!defaults.datasetId || urls.length === 0) return;
+
+  setBusy(true);
+  setStatus(t('popupSending', { count: urls.length }));
+  try {
+    await saveDefaults();
+    const result = await importUrls({
+      urls,
+      datasetId: defaults.datasetId,
+      tags: readTags(),
+      author: defaults.author.trim(),
+      collectionId: defaults.collectionId,
+      singleStack: defaults.singleStack,
+      source: { pageUrl: state.tab.url, referrer: state.tab.url },
+    });
+    setStatus(summarize(Array.isArray(result?.results) ? result.results : []));
+    await refreshImported();
+  } catch (error) {
+    setStatus(error instanceof Error ? error.message : t('addFailure'));
+  } finally {
+    setBusy(false);
+  }
+});
+
+void init();
@@ -21,6 +21,14 @@ export const DEFAULT_SETTINGS = {
   basicAuthUsername: '',
   basicAuthPassword: '',
   datasets: [],
+  batchDefaults: {
+    datasetId: null,
+    collectionId: null,
+    tags: '',
+    author: '',
+    singleStack: false,
+    minSize: 200,
+  },
 };
 
 export const t = (key, substitutions = {}) => {
@@ -43,6 +51,7 @@ export const getSettings = async () => {
     ...settings,
     apiBaseUrl: normalizeApiBaseUrl(settings.apiBaseUrl),
     datasets: Array.isArray(settings.datasets) ? settings.datasets : [],
+    batchDefaults: { ...DEFAULT_SETTINGS.batchDefaults, ...settings.batchDefaults },
   };
 };
 
@@ -246,12 +255,22 @@ export const inferFileName = (url, contentType, contentDisposition, mediaType) =
   return name;
 };
 
-export const uploadBlob = async ({ blob, datasetId, mediaType, fileName }) => {
+// Provenance sent with every clip; the server skips media URLs it has already imported.
+const sourceFields = (source) =>
+  Object.entries({
+    sourcePageUrl: source?.pageUrl,
+    sourceMediaUrl: source?.mediaUrl,
+    sourceReferrer: source?.referrer,
+  }).filter(([, value]) => isHttpUrl(value));
+
+export const uploadBlob = async ({ blob, datasetId, mediaType, fileName, source }) => {
   const formData = new FormData();
   formData.append('file', blob, fileName);
   formData.append('name', fileName);
   formData.append('dataSetId', String(datasetId));
   formData.append('mediaType', mediaType);
+  formData.append('importChannel', 'clipper');
+  for (const [key, value] of sourceFields(source)) formData.append(key, value);
 
   const response = await apiRequest('/api/v1/stacks', {
     method: 'POST',
@@ -260,12 +279,72 @@ export const uploadBlob = async ({ blob, datasetId, mediaType, fileName }) => {
   return response.json();
 };
 
-export const importUrl = async ({ url, datasetId, mediaType }) => {
-  return apiJson('/api/v1/stacks/import-from-urls', {
-    urls: [url],
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+// URL import runs as a server-side job; poll until it finishes and return its result.
+const waitForJob = async (jobId) => {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const job = await apiJson(`/api/v1/jobs/${jobId}`);
+    if (job.status === 'succeeded') return job.result;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `Job ${job.status}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+  throw new Error('Timed out waiting for the import job');
+};
+
+export const importUrls = async ({
+  urls,
+  datasetId,
+  mediaType,
+  source,
+  tags,
+  author,
+  collectionId,
+  singleStack,
+}) => {
+  const fields = Object.fromEntries(sourceFields(source));
+  const response = await apiJson('/api/v1/stacks/import-from-urls', {
+    urls,
     dataSetId: Number(datasetId),
     mediaType,
+    pageUrl: fields.sourcePageUrl,
+    referrer: fields.sourceReferrer,
+    channel: 'clipper',
+    tags: tags?.length ? tags : undefined,
+    author: author || undefined,
+    collectionId: collectionId || undefined,
+    singleStack: singleStack || undefined,
+  });
+  return response.job ? waitForJob(response.job.id) : response;
+};
+
+export const importUrl = ({ url, ...options }) => importUrls({ ...options, urls: [url] });
+
+// Returns the subset of urls the library already imported, keyed by URL.
+export const getImportedUrls = async ({ datasetId, urls }) => {
+  if (urls.length === 0) return new Map();
+  const response = await apiJson('/api/v1/stacks/imported-urls', {
+    dataSetId: Number(datasetId),
+    urls,
   });
+  const imported = Array.isArray(response?.imported) ? response.imported : [];
+  return new Map(imported.map((item) => [item.url, item]));
+};
+
+export const getCollections = async (datasetId) => {
+  const response = await apiJson(
+    `/api/v1/collections?dataSetId=${Number(datasetId)}&type=MANUAL&limit=200`
+  );
+  const collections = Array.isArray(response?.collections) ? response.collections : [];
+  return collections.map((collection) => ({
+    id: Number(collection.id),
+    name: String(collection.name || ''),
+    icon: collection.icon ? String(collection.icon) : '',
+  }));
 };
 
 export const isHttpUrl = (url) => {
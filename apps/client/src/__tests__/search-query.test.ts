@@ -0,0 +1,46 @@
+import { compileSearchQuery } from '@caramelboard/search-query';
+import { describe, expect, it } from 'vitest';
+import { formatSearchFilters, formatSearchQuery } from '../lib/search-query';
+
+describe('search query', () => {
+  it('round-trips source: and via: conditions', () => {
+    const filters = compileSearchQuery(
+      'source:https://www.pixiv.net/artworks/1 (via:clipper OR via:url)'
+    ).filters;
+    expect(filters).toEqual({
+      source: {
+        urls: ['https://www.pixiv.net/artworks/1'],
+        channels: ['clipper', 'url-import'],
+      },
+    });
+    expect(formatSearchFilters(filters)).toBe(
+      'source:https://www.pixiv.net/artworks/1 (via:clipper OR via:url)'
+    );
+  });
+
+  it('formats panel filters as a query that compiles back to the same filters', () => {
+    const query = formatSearchQuery({
+      datasetId: '1',
+      mediaCategory: 'image',
+      tags: ['sky', 'work in progress'],
+      authors: ['Jane Doe'],
+      isFavorite: false,
+      reading: 'in-progress',
+      mediaTypes: ['image', 'multipleImages'],
+      colorFilter: { customColor: '#ff0000' },
+      search: 'sunset OR dusk',
+    });
+
+    expect(query).toBe(
+      '(tag:sky OR tag:"work in progress") author:"Jane Doe" -is:fav is:reading (type:image OR type:multiple) color:#ff0000 (sunset OR dusk)'
+    );
+    expect(compileSearchQuery(query).filters).toEqual({
+      tags: { includeAny: ['sky', 'work in progress'] },
+      author: { include: ['Jane Doe'] },
+      favorites: 'not-fav',
+      reading: 'in-progress',
+      mediaTypes: ['image', 'multipleImages'],
+      color: { hex: '#ff0000' },
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { compileSearchQuery } from '@caramelboard/search-query';
+import { describe, expect, it } from 'vitest';
+import { fromSmartCollectionConfig, toSmartCollectionConfig } from '../lib/smart-collection';
+
+describe('smart collection config', () => {
+  it('round-trips the filter panel state and sort', () => {
+    const filter = {
+      datasetId: '1',
+      tags: ['sky'],
+      hasNoAuthor: true,
+      isFavorite: true,
+      mediaCategory: 'image' as const,
+      search: 'sunset',
+    };
+    const config = toSmartCollectionConfig(filter, { field: 'name', order: 'asc' });
+
+    expect(config).toEqual({
+      query: 'sunset',
+      filters: {
+        tags: { includeAny: ['sky'] },
+        author: { includeNotSet: true },
+        favorites: 'is-fav',
+        mediaCategory: 'image',
+      },
+      sort: { by: 'name', order: 'asc' },
+    });
+    expect(fromSmartCollectionConfig(config, '1')).toEqual({
+      filter,
+      sort: { field: 'name', order: 'asc' },
+    });
+  });
+
+  it('keeps conditions the panel cannot show as query terms', () => {
+    const { filter, sort } = fromSmartCollectionConfig(
+      {
+        query: 'cat OR dog',
+        filters: {
+          tags: { exclude: ['draft'] },
+          autoTags: { include: ['sea'] },
+          assetCount: { min: 2 },
+        },
+      },
+      '1'
+    );
+
+    expect(sort).toEqual({ field: 'recommended', order: 'desc' });
+    expect(compileSearchQuery(filter.search ?? '').filters).toMatchObject({
+      tags: { exclude: ['draft'] },
+      autoTags: { include: ['sea'] },
+      assetCount: { min: 2 },
+    });
+  });
+});
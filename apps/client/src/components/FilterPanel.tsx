@@ -1,10 +1,13 @@
+import { getSearchQueryError } from '@caramelboard/search-query';
 import { useQueryClient } from '@tanstack/react-query';
-import { useParams } from '@tanstack/react-router';
-import { useAtom } from 'jotai';
+import { useNavigate, useParams } from '@tanstack/react-router';
+import { useAtom, useSetAtom } from 'jotai';
 import {
   ArrowDown,
   ArrowUpDown,
+  BookOpen,
   Calendar,
+  Copy,
   Heart,
   Images,
   Monitor,
@@ -39,10 +42,15 @@ import {
 import { SuggestInput } from '@/components/ui/suggest-input';
 import { useSwipeClose } from '@/hooks/features/useSwipeClose';
 import { apiClient } from '@/lib/api-client';
+import { copyText } from '@/lib/clipboard';
 import { useT } from '@/lib/i18n';
+import { formatSearchQuery } from '@/lib/search-query';
+import { fromSmartCollectionConfig, toSmartCollectionConfig } from '@/lib/smart-collection';
+import { areStackFiltersEqual } from '@/lib/stack-filter';
 import { cn } from '@/lib/utils';
 import { customColorAtom, filterOpenAtom, selectionModeAtom } from '@/stores/ui';
-import type { HueCategory, MediaCategory, MediaType, StackFilter } from '@/types';
+import { addUploadNotificationAtom } from '@/stores/upload';
+import type { HueCategory, MediaCategory, MediaType, ReadingState, StackFilter } from '@/types';
 
 // 色味カテゴリの定義（7色、ブライト-ライト間のトーン）
 const HUE_CATEGORIES: { id: HueCategory; name: string; color: string }[] = [
@@ -62,10 +70,6 @@ function isMediaCategory(value: unknown): value is MediaCategory {
   return value === 'image' || value === 'comic' || value === 'video';
 }
 
-function isMediaType(value: unknown): value is MediaType {
-  return value === 'image' || value === 'video' || value === 'multipleImages';
-}
-
 const MEDIA_TYPE_OPTIONS: Array<{
   value: MediaType;
   labelKey: 'images' | 'videos' | 'multipleImages';
@@ -82,11 +86,6 @@ function normalizeMediaTypes(values: MediaType[]): MediaType[] | undefined {
   return selected.length === 0 ? undefined : selected;
 }
 
-function readMediaTypes(value: unknown): MediaType[] | undefined {
-  if (!Array.isArray(value)) return undefined;
-  return normalizeMediaTypes(value.filter(isMediaType));
-}
-
 interface FilterPanelProps {
   currentFilter: StackFilter;
   currentSort?: { field: string; order: 'asc' | 'desc' };
@@ -112,6 +111,7 @@ function FilterPanel({
   const [isOpen, setIsOpen] = useAtom(filterOpenAtom);
   const [selectionMode] = useAtom(selectionModeAtom);
   const [customColor, setCustomColor] = useAtom(customColorAtom);
+  const addNotification = useSetAtom(addUploadNotificationAtom);
   const [localFilter, setLocalFilter] = useState<StackFilter>(currentFilter);
   const [tagInput, setTagInput] = useState('');
   const [authorInput, setAuthorInput] = useState('');
@@ -129,6 +129,7 @@ function FilterPanel({
     ? routeParams.mediaType
     : undefined;
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
 
   // Smart collection dialog state
   const [isSmartCollectionDialogOpen, setIsSmartCollectionDialogOpen] = useState(false);
@@ -158,32 +159,28 @@ function FilterPanel({
     setLocalFilter(currentFilter);
   }, [currentFilter]);
 
-  // Convert filter to config format
-  const convertFilterToConfig = useCallback((filter: StackFilter): Record<string, any> => {
-    const config: any = {};
-
-    if (filter.search) config.search = filter.search;
-    if (filter.isFavorite !== undefined) config.favorited = filter.isFavorite;
-    if (filter.isLiked !== undefined) config.liked = filter.isLiked;
-    if (filter.tags) config.tagIds = filter.tags;
-    if (filter.authors) config.authorNames = filter.authors;
-    if (filter.hasNoTags) config.hasNoTags = filter.hasNoTags;
-    if (filter.hasNoAuthor) config.hasNoAuthor = filter.hasNoAuthor;
-    if (filter.mediaCategory) config.mediaCategory = filter.mediaCategory;
-    if (filter.mediaTypes?.length) config.mediaTypes = filter.mediaTypes;
-    if (filter.colorFilter) config.colorFilter = filter.colorFilter;
+  const sortField = currentSort?.field ?? 'recommended';
+  const sortOrder = currentSort?.order ?? 'desc';
 
-    return config;
-  }, []);
+  // Filter and sort saved in the smart collection
+  const originalSmartState = useMemo(
+    () =>
+      isSmartCollection && originalFilterConfig
+        ? fromSmartCollectionConfig(originalFilterConfig, currentFilter.datasetId)
+        : null,
+    [isSmartCollection, originalFilterConfig, currentFilter.datasetId]
+  );
 
-  // Check for filter changes in smart collection
+  // Check for filter or sort changes in smart collection
   useEffect(() => {
-    if (isSmartCollection && originalFilterConfig) {
-      const currentConfig = convertFilterToConfig(localFilter);
-      const hasChanges = JSON.stringify(currentConfig) !== JSON.stringify(originalFilterConfig);
-      setHasFilterChanges(hasChanges);
+    if (originalSmartState) {
+      setHasFilterChanges(
+        !areStackFiltersEqual(localFilter, originalSmartState.filter) ||
+          sortField !== originalSmartState.sort.field ||
+          sortOrder !== originalSmartState.sort.order
+      );
     }
-  }, [localFilter, isSmartCollection, originalFilterConfig, convertFilterToConfig]);
+  }, [localFilter, originalSmartState, sortField, sortOrder]);
 
   // Close filter panel when selection mode is enabled
   useEffect(() => {
@@ -260,6 +257,38 @@ function FilterPanel({
     [localFilter.colorFilter, updateFilter]
   );
 
+  const searchQueryError = useMemo(
+    () => getSearchQueryError(localFilter.search),
+    [localFilter.search]
+  );
+
+  const updateSearch = useCallback(
+    (value: string) => {
+      const search = value || undefined;
+      // 構文エラーの間は入力だけ保持し、一覧の再取得はしない
+      if (getSearchQueryError(search)) {
+        if (filterCommitTimerRef.current) {
+          window.clearTimeout(filterCommitTimerRef.current);
+          filterCommitTimerRef.current = null;
+        }
+        setLocalFilter({ ...localFilter, search });
+        return;
+      }
+      updateFilter({ search });
+    },
+    [localFilter, updateFilter]
+  );
+
+  const copyFilterAsQuery = useCallback(async () => {
+    const query = formatSearchQuery(localFilter);
+    const ok = query.length > 0 && (await copyText(query));
+    addNotification(
+      ok
+        ? { type: 'success', message: t.filter.queryCopied }
+        : { type: 'error', message: t.filter.queryCopyFailed }
+    );
+  }, [localFilter, addNotification, t.filter.queryCopied, t.filter.queryCopyFailed]);
+
   const colorSimilarityThreshold = localFilter.colorFilter?.similarityThreshold ?? 0;
   const hasHueSelection = Boolean(localFilter.colorFilter?.hueCategories?.length);
   const selectedMediaTypes = localFilter.mediaTypes ?? [];
@@ -289,9 +318,6 @@ function FilterPanel({
     updateFilter({ mediaTypes: undefined }, true);
   }, [updateFilter]);
 
-  const sortField = currentSort?.field ?? 'recommended';
-  const sortOrder = currentSort?.order ?? 'desc';
-
   const updateSortField = useCallback(
     (field: string) => {
       onSortChange?.({ field, order: sortOrder });
@@ -310,31 +336,20 @@ function FilterPanel({
     return sortOrder === 'desc' ? t.filter.descending : t.filter.ascending;
   }, [sortOrder, t.filter.ascending, t.filter.descending]);
   const clearFilter = () => {
-    if (isSmartCollection && originalFilterConfig) {
-      // For smart collections, restore to original filter config
+    if (originalSmartState) {
+      // For smart collections, restore to the saved filter and sort order
       const restoredFilter: StackFilter = {
+        ...originalSmartState.filter,
         datasetId: currentFilter.datasetId,
       };
-
-      if (originalFilterConfig.search) restoredFilter.search = originalFilterConfig.search;
-      if (originalFilterConfig.favorited !== undefined)
-        restoredFilter.isFavorite = originalFilterConfig.favorited;
-      if (originalFilterConfig.liked !== undefined)
-        restoredFilter.isLiked = originalFilterConfig.liked;
-      if (originalFilterConfig.tagIds) restoredFilter.tags = originalFilterConfig.tagIds;
-      if (originalFilterConfig.authorNames)
-        restoredFilter.authors = originalFilterConfig.authorNames;
-      if (originalFilterConfig.hasNoTags) restoredFilter.hasNoTags = originalFilterConfig.hasNoTags;
-      if (originalFilterConfig.hasNoAuthor)
-        restoredFilter.hasNoAuthor = originalFilterConfig.hasNoAuthor;
-      if (originalFilterConfig.mediaCategory)
-        restoredFilter.mediaCategory = originalFilterConfig.mediaCategory as MediaCategory;
-      restoredFilter.mediaTypes = readMediaTypes(originalFilterConfig.mediaTypes);
-      if (originalFilterConfig.colorFilter)
-        restoredFilter.colorFilter = originalFilterConfig.colorFilter;
-
       setLocalFilter(restoredFilter);
       commitFilterChange(restoredFilter, 0);
+      if (
+        sortField !== originalSmartState.sort.field ||
+        sortOrder !== originalSmartState.sort.order
+      ) {
+        onSortChange?.(originalSmartState.sort);
+      }
     } else {
       // For regular views and manual collections, clear all filters
       const clearedFilter: StackFilter = {
@@ -359,20 +374,32 @@ function FilterPanel({
           return Boolean(localFilter[key as keyof StackFilter]);
         });
 
+  const handleSmartCollectionDialogChange = useCallback(
+    (open: boolean) => {
+      setIsSmartCollectionDialogOpen(open);
+      // Suggest a name from the active filters so the collection can be created right away
+      if (open)
+        setSmartCollectionName((name) => name || formatSearchQuery(localFilter).slice(0, 60));
+    },
+    [localFilter]
+  );
+
   // Handle smart collection update
   const handleUpdateSmartCollection = async () => {
     if (!collectionId) return;
 
     setIsUpdatingSmartCollection(true);
     try {
-      const filterConfig = convertFilterToConfig(localFilter);
-
-      await apiClient.updateCollection(collectionId, {
-        filterConfig,
+      const filterConfig = toSmartCollectionConfig(localFilter, {
+        field: sortField,
+        order: sortOrder,
       });
 
-      // Refresh collection data
-      queryClient.invalidateQueries({ queryKey: ['collection', collectionId] });
+      await apiClient.updateCollection(collectionId, { filterConfig });
+
+      // Refresh collection data and the live count in the sidebar
+      queryClient.invalidateQueries({ queryKey: ['collection', String(collectionId)] });
+      queryClient.invalidateQueries({ queryKey: ['collection-folders'] });
       setHasFilterChanges(false);
     } catch (error) {
       console.error('Error updating smart collection:', error);
@@ -436,15 +463,26 @@ function FilterPanel({
           <div className="flex-1 overflow-auto p-4 space-y-6 bg-gray-50">
             {/* Search */}
             <div className="space-y-2">
-              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                <Search size={16} />
-                {t.filter.search}
-              </label>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <Search size={16} />
+                  {t.filter.search}
+                </label>
+                <button
+                  type="button"
+                  onClick={() => void copyFilterAsQuery()}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                  title={t.filter.copyAsQueryHint}
+                >
+                  <Copy size={12} />
+                  {t.filter.copyAsQuery}
+                </button>
+              </div>
               <input
                 type="text"
                 ref={searchInputRef}
                 value={localFilter.search || ''}
-                onChange={(e) => updateFilter({ search: e.target.value || undefined })}
+                onChange={(e) => updateSearch(e.target.value)}
                 onKeyDown={(e) => {
                   if (e.key === 'Escape') {
                     if (
@@ -468,8 +506,22 @@ function FilterPanel({
                   }, 0);
                 }}
                 placeholder={t.filter.searchByName}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900 placeholder-gray-400 focus:border-primary focus:ring-1 focus:ring-primary"
+                aria-invalid={searchQueryError ? true : undefined}
+                className={cn(
+                  'w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900 placeholder-gray-400 focus:border-primary focus:ring-1 focus:ring-primary',
+                  searchQueryError && 'border-red-400 focus:border-red-500 focus:ring-red-500'
+                )}
               />
+              {searchQueryError ? (
+                <p className="text-xs text-red-600">
+                  {t.filter.querySyntaxError(
+                    searchQueryError.message,
+                    searchQueryError.position + 1
+                  )}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-400">{t.filter.querySyntaxHint}</p>
+              )}
             </div>
 
             {/* Favorites */}
@@ -564,6 +616,40 @@ function FilterPanel({
               </div>
             </div>
 
+            {/* Reading status (comics) */}
+            {localFilter.mediaCategory === 'comic' && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <BookOpen size={16} />
+                  {t.filter.readingStatus}
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {(
+                    [
+                      [undefined, t.filter.all],
+                      ['unread', t.filter.unread],
+                      ['in-progress', t.filter.inProgress],
+                      ['read', t.filter.read],
+                    ] as Array<[ReadingState | undefined, string]>
+                  ).map(([value, label]) => (
+                    <button
+                      key={value ?? 'all'}
+                      type="button"
+                      onClick={() => updateFilter({ reading: value }, true)}
+                      className={cn(
+                        FILTER_CHOICE_BUTTON_CLASS,
+                        localFilter.reading === value
+                          ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Tags */}
             <div className="space-y-2">
               <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
@@ -953,6 +1039,7 @@ function FilterPanel({
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="recommended">{t.filter.recommended}</SelectItem>
+                      <SelectItem value="relevance">{t.filter.relevance}</SelectItem>
                       <SelectItem value="dateAdded">{t.filter.dateAdded}</SelectItem>
                       <SelectItem value="name">{t.filter.name}</SelectItem>
                       <SelectItem value="likes">{t.filter.mostLiked}</SelectItem>
@@ -1008,7 +1095,7 @@ function FilterPanel({
                 {hasActiveFilters && datasetId && !isSmartCollection && (
                   <Dialog
                     open={isSmartCollectionDialogOpen}
-                    onOpenChange={setIsSmartCollectionDialogOpen}
+                    onOpenChange={handleSmartCollectionDialogChange}
                   >
                     <DialogTrigger asChild>
                       <Button size="sm" className="flex items-center gap-1">
@@ -1050,11 +1137,14 @@ function FilterPanel({
 
                             setIsCreatingSmartCollection(true);
                             try {
-                              // Convert UI filter to API filter format
-                              const filterConfig = convertFilterToConfig(localFilter);
+                              // Save the current filters and sort order as they are
+                              const filterConfig = toSmartCollectionConfig(localFilter, {
+                                field: sortField,
+                                order: sortOrder,
+                              });
 
-                              await apiClient.createCollection({
-                                name: smartCollectionName,
+                              const created = await apiClient.createCollection({
+                                name: smartCollectionName.trim(),
                                 type: 'SMART',
                                 dataSetId: Number(datasetId),
                                 filterConfig,
@@ -1065,9 +1155,13 @@ function FilterPanel({
                               setSmartCollectionName('');
                               // Invalidate collections query to refresh sidebar
                               queryClient.invalidateQueries({ queryKey: ['collection-folders'] });
+                              navigate({
+                                to: '/library/$datasetId/collections/$collectionId',
+                                params: { datasetId, collectionId: String(created.id) },
+                              });
                             } catch (error) {
                               console.error('Error creating smart collection:', error);
-                              // TODO: Show error toast instead of alert
+                              alert(t.filter.createSmartCollectionFailed);
                             } finally {
                               setIsCreatingSmartCollection(false);
                             }
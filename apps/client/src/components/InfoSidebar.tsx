@@ -20,6 +20,7 @@ import {
   PanelLeftOpen,
   PanelRightOpen,
   RefreshCw,
+  Share2,
   Square,
   Star,
   Tag,
@@ -30,6 +31,23 @@ import {
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { AuthorLinkQuickAdd } from '@/components/authors/AuthorLinkQuickAdd';
 import { authorLinkStyles } from '@/components/authors/authorLinkStyles';
+import {
+  AssetSourceSection,
+  type AssetSourceSectionCopy,
+} from '@/components/info/AssetSourceSection';
+import {
+  ComicExportSection,
+  type ComicExportSectionCopy,
+} from '@/components/info/ComicExportSection';
+import {
+  EmbeddedMetadataSection,
+  type EmbeddedMetadataSectionCopy,
+} from '@/components/info/EmbeddedMetadataSection';
+import {
+  SceneDetectionSection,
+  type SceneDetectionSectionCopy,
+} from '@/components/info/SceneDetectionSection';
+import { ShareLinkDialog } from '@/components/modals/ShareLinkDialog';
 import { AutoTagDisplay } from '@/components/ui/autotag-display';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -44,13 +62,15 @@ import {
 } from '@/components/ui/select';
 import { SuggestInput } from '@/components/ui/suggest-input';
 import { useSwipeClose } from '@/hooks/features/useSwipeClose';
+import { useDataset } from '@/hooks/useDatasets';
 import { useScratch } from '@/hooks/useScratch';
 import { apiClient } from '@/lib/api-client';
 import { getAuthorLinkLabel, MAX_AUTHOR_LINKS } from '@/lib/author-links';
 import { copyText } from '@/lib/clipboard';
 import { normalizeComicReadingSettings } from '@/lib/comic-reading';
-import { downloadStackOriginals } from '@/lib/download-originals';
+import { downloadComicExport, downloadStackOriginals } from '@/lib/download-originals';
 import { getMediaTypeLabel, useT } from '@/lib/i18n';
+import { isVideoAsset } from '@/lib/media';
 import { removeStackFromCache } from '@/lib/stack-cache';
 import { cn, hexForCopy } from '@/lib/utils';
 import {
@@ -148,6 +168,124 @@ export default function InfoSidebar({ hideThumbnails = true }: InfoSidebarProps)
     return selectedItem.assets.find((asset) => isSameEntityId(asset.id, selectedInfoAssetId))?.id;
   }, [selectedInfoAssetId, selectedItem?.assets]);
 
+  // アセット未選択ならスタックの先頭アセットのメタデータを表示する
+  const metadataAssetId = selectedAssetIdForLike ?? selectedItem?.assets?.[0]?.id;
+  const { data: embeddedMetadata } = useQuery({
+    queryKey: ['asset-metadata', metadataAssetId],
+    queryFn: async () => {
+      if (metadataAssetId === undefined) return null;
+      return (await apiClient.getAssetEmbeddedMetadata(metadataAssetId)).metadata;
+    },
+    enabled: metadataAssetId !== undefined && isOpen,
+  });
+  const embeddedMetadataCopy = useMemo<EmbeddedMetadataSectionCopy>(
+    () => ({
+      title: t.info.embeddedMetadata,
+      capturedAt: t.info.capturedAt,
+      camera: t.info.camera,
+      lens: t.info.lens,
+      exposure: t.info.exposure,
+      software: t.info.software,
+      artist: t.info.artist,
+      imageTitle: t.info.imageTitle,
+      imageDescription: t.info.imageDescription,
+      location: t.info.location,
+      keywords: t.info.keywords,
+      addKeywordAsTag: t.info.addKeywordAsTag,
+      prompt: t.info.prompt,
+      copyPrompt: t.info.copyPrompt,
+      textChunks: t.info.textChunks,
+    }),
+    [t]
+  );
+
+  const sourceAsset = selectedItem?.assets?.find((asset) =>
+    isSameEntityId(asset.id, metadataAssetId ?? null)
+  );
+  const assetSourceCopy = useMemo<AssetSourceSectionCopy>(
+    () => ({
+      title: t.info.source,
+      channel: t.info.importChannel,
+      channels: {
+        upload: t.info.importChannelUpload,
+        clipper: t.info.importChannelClipper,
+        'url-import': t.info.importChannelUrl,
+        'watched-folder': t.info.importChannelWatchedFolder,
+      },
+      importedAt: t.info.importedAt,
+      pageUrl: t.info.sourcePageUrl,
+      mediaUrl: t.info.sourceMediaUrl,
+      referrer: t.info.sourceReferrer,
+      findSameSource: t.info.findSameSource,
+    }),
+    [t]
+  );
+
+  const { data: dataset } = useDataset(datasetId);
+  const sceneAsset = useMemo(() => {
+    const asset = selectedItem?.assets?.find((candidate) =>
+      isSameEntityId(candidate.id, metadataAssetId ?? null)
+    );
+    return isVideoAsset(asset) ? asset : undefined;
+  }, [metadataAssetId, selectedItem?.assets]);
+  const [sceneSensitivity, setSceneSensitivity] = useState<number | null>(null);
+  useEffect(() => {
+    if (sceneAsset?.id === undefined) return;
+    setSceneSensitivity(null);
+  }, [sceneAsset?.id]);
+  const resolvedSceneSensitivity =
+    sceneSensitivity ??
+    sceneAsset?.meta?.scenes?.sensitivity ??
+    dataset?.settings?.sceneSensitivity ??
+    0.5;
+  const sceneDetectionMutation = useMutation({
+    mutationFn: async () => {
+      if (!sceneAsset || !selectedItem) return null;
+      return apiClient.detectAssetScenes({
+        datasetId,
+        stackId: selectedItem.id,
+        assetId: sceneAsset.id,
+        sensitivity: resolvedSceneSensitivity,
+      });
+    },
+    onSuccess: (result) => {
+      if (!result) return;
+      const count = result.meta.scenes?.times.length ?? 0;
+      addNotification({ type: 'success', message: t.info.scenesDetected(count) });
+      queryClient.invalidateQueries({ queryKey: ['stack', datasetId] });
+    },
+    onError: (error) => {
+      console.error('Failed to detect scenes:', error);
+      addNotification({ type: 'error', message: t.info.sceneDetectionFailed });
+    },
+  });
+  const comicExportCopy = useMemo<ComicExportSectionCopy>(
+    () => ({
+      title: t.info.comicExport,
+      size: t.info.comicExportSize,
+      originalSize: t.info.comicExportOriginalSize,
+      longEdge: t.info.comicExportLongEdge,
+      exportCbz: t.info.exportCbz,
+      exportPdf: t.info.exportPdf,
+    }),
+    [t]
+  );
+  const [comicExportMaxSize, setComicExportMaxSize] = useState<number | null>(null);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const sceneDetectionCopy = useMemo<SceneDetectionSectionCopy>(
+    () => ({
+      title: t.info.scenes,
+      sensitivity: t.info.sceneSensitivity,
+      fewerScenes: t.info.fewerScenes,
+      moreScenes: t.info.moreScenes,
+      detect: t.info.detectScenes,
+      detecting: t.info.detectingScenes,
+      sceneCount: t.info.sceneCount,
+      notDetected: t.info.scenesNotDetected,
+    }),
+    [t]
+  );
+
   const selectedItemAssetCount =
     selectedItem?.assetsCount ?? selectedItem?.assetCount ?? selectedItem?.assets?.length ?? 0;
   const canEditReadingSettings =
@@ -474,6 +612,15 @@ export default function InfoSidebar({ hideThumbnails = true }: InfoSidebarProps)
     [addTagMutation, currentTagNames, selectedItem]
   );
 
+  const handleCopyPrompt = async (prompt: string) => {
+    const ok = await copyText(prompt);
+    addNotification(
+      ok
+        ? { type: 'success', message: t.common.copiedToClipboard(t.info.prompt) }
+        : { type: 'error', message: t.info.failedToCopyWithHint }
+    );
+  };
+
   const _handleCopyTag = async (tag: string) => {
     const ok = await copyText(tag);
     if (ok) {
@@ -707,7 +854,7 @@ export default function InfoSidebar({ hideThumbnails = true }: InfoSidebarProps)
     },
   });
 
-  // Refresh (thumbnail + preview + colors + auto-tags) in sequence (embeddings removed)
+  // Refresh (thumbnail + preview + colors + auto-tags + embeddings) in sequence
   const refreshAllMutation = useMutation({
     mutationFn: async ({ stackId }: { stackId: number }) => {
       const thumbnailResult = await apiClient.refreshThumbnail(stackId);
@@ -1384,8 +1531,50 @@ export default function InfoSidebar({ hideThumbnails = true }: InfoSidebarProps)
                 </div>
               </div>
 
+              {sourceAsset?.source && (
+                <AssetSourceSection
+                  source={sourceAsset.source}
+                  copy={assetSourceCopy}
+                  onFindSameSource={(host) =>
+                    setCurrentFilter({ ...currentFilter, search: `source:${host}` })
+                  }
+                />
+              )}
+
+              {embeddedMetadata && (
+                <EmbeddedMetadataSection
+                  metadata={embeddedMetadata}
+                  copy={embeddedMetadataCopy}
+                  existingTags={currentTagNames}
+                  onKeywordClick={handleAddTag}
+                  onCopyPrompt={handleCopyPrompt}
+                />
+              )}
+
+              {sceneAsset && (
+                <SceneDetectionSection
+                  copy={sceneDetectionCopy}
+                  sensitivity={resolvedSceneSensitivity}
+                  sceneCount={sceneAsset.meta?.scenes?.times.length ?? null}
+                  isDetecting={sceneDetectionMutation.isPending}
+                  onSensitivityChange={setSceneSensitivity}
+                  onDetect={() => sceneDetectionMutation.mutate()}
+                />
+              )}
+
               {pageSettingsSection}
 
+              {selectedItem.mediaType === 'comic' && selectedItemAssetCount > 0 && (
+                <ComicExportSection
+                  copy={comicExportCopy}
+                  maxSize={comicExportMaxSize}
+                  onMaxSizeChange={setComicExportMaxSize}
+                  onExport={(format) =>
+                    downloadComicExport(selectedItem.id, format, comicExportMaxSize)
+                  }
+                />
+              )}
+
               {/* Stats */}
               <div className="space-y-2">
                 <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
@@ -1442,6 +1631,16 @@ export default function InfoSidebar({ hideThumbnails = true }: InfoSidebarProps)
                     >
                       <Download size={16} />
                     </button>
+                    <button
+                      type="button"
+                      className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-md border border-gray-300 bg-white text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+                      onClick={() => setShareDialogOpen(true)}
+                      disabled={!selectedItem}
+                      title={t.share.share}
+                      aria-label={t.share.share}
+                    >
+                      <Share2 size={16} />
+                    </button>
                     <button
                       type="button"
                       className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-md border border-gray-300 bg-white text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
@@ -1540,6 +1739,16 @@ export default function InfoSidebar({ hideThumbnails = true }: InfoSidebarProps)
           </div>
         ) : null}
       </div>
+
+      {selectedItem && shareDialogOpen ? (
+        <ShareLinkDialog
+          open={shareDialogOpen}
+          onOpenChange={setShareDialogOpen}
+          targetType="stack"
+          targetId={Number(selectedItem.id)}
+          targetName={selectedItem.name}
+        />
+      ) : null}
     </>
   );
 }
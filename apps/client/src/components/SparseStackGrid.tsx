@@ -30,6 +30,7 @@ import { applyScrollbarCompensation, removeScrollbarCompensation } from '@/lib/s
 import { createStackSelectionActions } from '@/lib/stack-selection-actions';
 import { cn } from '@/lib/utils';
 import { selectionModeAtom } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 import {
   addFilesToQueueAtom,
   addUploadNotificationAtom,
@@ -77,6 +78,7 @@ export default function SparseStackGrid({
   const setSelectionMode = useSetAtom(selectionModeAtom);
   const addFilesToQueue = useSetAtom(addFilesToQueueAtom);
   const addNotification = useSetAtom(addUploadNotificationAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const uploadNotifications = useAtomValue(uploadNotificationsAtom);
   const { ensureScratch } = useScratch(datasetId);
   const {
@@ -408,9 +410,14 @@ export default function SparseStackGrid({
     const [targetId, ...sourceIds] = selectedStackIdsInOrder;
 
     try {
-      await apiClient.mergeStacks(targetId, sourceIds);
+      const result = await apiClient.mergeStacks(targetId, sourceIds);
       handleDeselectAll();
       exitSelectionMode();
+      showUndoToast({
+        operationId: result.operationId,
+        operation: 'stacks.merge',
+        itemCount: sourceIds.length,
+      });
       addNotification({
         type: 'success',
         message: t.grid.mergeSelectedSuccess(targetId, sourceIds.length),
@@ -435,6 +442,7 @@ export default function SparseStackGrid({
     queryClient,
     refreshAll,
     selectedStackIdsInOrder,
+    showUndoToast,
     t,
   ]);
 
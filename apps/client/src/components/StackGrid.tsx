@@ -30,6 +30,7 @@ import { applyScrollbarCompensation, removeScrollbarCompensation } from '@/lib/s
 import { createStackSelectionActions } from '@/lib/stack-selection-actions';
 import { cn } from '@/lib/utils';
 import { currentFilterAtom, reorderModeAtom, selectionModeAtom } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 import {
   addFilesToQueueAtom,
   addUploadNotificationAtom,
@@ -114,6 +115,7 @@ export default function StackGrid({
   const reorderMode = useAtomValue(reorderModeAtom);
   const addFilesToQueue = useSetAtom(addFilesToQueueAtom);
   const addNotification = useSetAtom(addUploadNotificationAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const uploadNotifications = useAtomValue(uploadNotificationsAtom);
 
   // Legacy mode normalization for downstream hooks/utilities
@@ -589,10 +591,15 @@ export default function StackGrid({
     const [targetId, ...sourceIds] = selectedStackIdsInOrder;
 
     try {
-      await apiClient.mergeStacks(targetId, sourceIds);
+      const result = await apiClient.mergeStacks(targetId, sourceIds);
 
       clearSelection();
       exitSelectionMode();
+      showUndoToast({
+        operationId: result.operationId,
+        operation: 'stacks.merge',
+        itemCount: sourceIds.length,
+      });
 
       addNotification({
         type: 'success',
@@ -619,6 +626,7 @@ export default function StackGrid({
     exitSelectionMode,
     queryClient,
     selectedStackIdsInOrder,
+    showUndoToast,
     t,
   ]);
 
@@ -637,9 +645,19 @@ export default function StackGrid({
           if (result.errors && result.errors.length > 0) {
             console.error('❌ Some deletions failed:', result.errors);
           }
+          showUndoToast({
+            operationId: result.operationId,
+            operation: 'stacks.remove',
+            itemCount: itemIds.length,
+          });
         } else {
-          await apiClient.removeStack(itemIds[0]);
+          const result = await apiClient.removeStack(itemIds[0]);
           console.log('✅ Stack deleted successfully');
+          showUndoToast({
+            operationId: result.operationId,
+            operation: 'stacks.remove',
+            itemCount: 1,
+          });
         }
 
         // Clear selection and exit selection mode after successful deletion
@@ -676,6 +694,7 @@ export default function StackGrid({
       onRefreshAll,
       queryClient,
       rangeStart,
+      showUndoToast,
       t,
     ]
   );
@@ -0,0 +1,28 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { LoginForm } from './LoginForm';
+
+const meta: Meta<typeof LoginForm> = {
+  title: 'Auth/LoginForm',
+  component: LoginForm,
+  args: {
+    copy: {
+      title: 'Sign in',
+      description: 'Sign in to CaramelBoard to continue.',
+      userName: 'User name',
+      password: 'Password',
+      submit: 'Sign in',
+    },
+    onSubmit: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof LoginForm>;
+
+export const Default: Story = {};
+
+export const WithError: Story = {
+  args: {
+    error: 'Invalid user name or password',
+  },
+};
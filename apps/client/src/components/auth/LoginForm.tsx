@@ -0,0 +1,70 @@
+import { LogIn } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+export interface LoginFormCopy {
+  title: string;
+  description: string;
+  userName: string;
+  password: string;
+  submit: string;
+}
+
+export interface LoginFormProps {
+  copy: LoginFormCopy;
+  error?: string | null;
+  submitting?: boolean;
+  onSubmit: (name: string, password: string) => void;
+}
+
+export function LoginForm({ copy, error = null, submitting = false, onSubmit }: LoginFormProps) {
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !password) return;
+    onSubmit(name.trim(), password);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="grid w-full max-w-sm gap-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm"
+      >
+        <div>
+          <h1 className="text-lg font-semibold text-gray-900">{copy.title}</h1>
+          <p className="mt-1 text-sm text-gray-500">{copy.description}</p>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="login-name">{copy.userName}</Label>
+          <Input
+            id="login-name"
+            autoComplete="username"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            autoFocus
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="login-password">{copy.password}</Label>
+          <Input
+            id="login-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </div>
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+        <Button type="submit" disabled={submitting || !name.trim() || !password}>
+          <LogIn className="mr-2 h-4 w-4" />
+          {copy.submit}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import type { AuthorInboxWork } from '@/types';
+import { AuthorInboxSection } from './AuthorInboxSection';
+
+const copy = {
+  title: 'New Works',
+  description: 'Works found through author links that are not in the library yet.',
+  empty: 'No new works',
+  notConfigured: 'Set CARAMEL_AUTHOR_PROVIDER_URL on the server to fetch profiles and works.',
+  refresh: 'Check for new works',
+  refreshing: 'Checking...',
+  importWork: 'Import',
+  importing: 'Importing...',
+  dismiss: 'Hide',
+  openWork: 'Open original page',
+  untitled: 'Untitled',
+  newWorkCount: (count: number) => `${count} new`,
+  loadMore: 'Load more',
+};
+
+const works: AuthorInboxWork[] = Array.from({ length: 6 }, (_, index) => ({
+  id: index + 1,
+  authorId: index % 2 === 0 ? 1 : 3,
+  authorName: index % 2 === 0 ? 'Sample Artist' : 'Video Channel',
+  dataSetId: 1,
+  provider: index % 2 === 0 ? 'pixiv' : 'youtube',
+  externalId: String(1000 + index),
+  title: index === 2 ? null : `Sample work ${index + 1}`,
+  url: `https://www.pixiv.net/artworks/${1000 + index}`,
+  thumbnailUrl: index === 4 ? null : `https://picsum.photos/seed/inbox-${index}/320/320`,
+  mediaUrls: [],
+  publishedAt: new Date(Date.UTC(2026, 5, 20 - index)).toISOString(),
+  status: 'new',
+  firstSeenAt: '2026-06-20T00:00:00.000Z',
+  updatedAt: '2026-06-20T00:00:00.000Z',
+}));
+
+const meta: Meta<typeof AuthorInboxSection> = {
+  title: 'Authors/AuthorInboxSection',
+  component: AuthorInboxSection,
+  args: {
+    works,
+    total: works.length,
+    copy,
+    showAuthor: true,
+    busyWorkIds: new Set([2]),
+    onRefresh: () => {},
+    onImport: () => {},
+    onDismiss: () => {},
+  },
+  decorators: [
+    (Story) => (
+      <div className="max-w-5xl bg-gray-50 p-4">
+        <Story />
+      </div>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof AuthorInboxSection>;
+
+export const Default: Story = {};
+
+export const Empty: Story = {
+  args: {
+    works: [],
+    total: 0,
+  },
+};
+
+export const NotConfigured: Story = {
+  args: {
+    works: [],
+    total: 0,
+    providerConfigured: false,
+  },
+};
@@ -0,0 +1,195 @@
+import { Download, ExternalLink, EyeOff, ImageOff, Inbox, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { AuthorInboxWork } from '@/types';
+
+export interface AuthorInboxCopy {
+  title: string;
+  description: string;
+  empty: string;
+  notConfigured: string;
+  refresh: string;
+  refreshing: string;
+  importWork: string;
+  importing: string;
+  dismiss: string;
+  openWork: string;
+  untitled: string;
+  newWorkCount: (count: number) => string;
+  loadMore: string;
+}
+
+export interface AuthorInboxSectionProps {
+  works: AuthorInboxWork[];
+  total: number;
+  copy: AuthorInboxCopy;
+  loading?: boolean;
+  providerConfigured?: boolean;
+  refreshing?: boolean;
+  hasMore?: boolean;
+  /** 複数の作者の作品を並べるときは作者名も出す */
+  showAuthor?: boolean;
+  busyWorkIds?: ReadonlySet<number>;
+  onRefresh: () => void;
+  onImport: (work: AuthorInboxWork) => void;
+  onDismiss: (work: AuthorInboxWork) => void;
+  onLoadMore?: () => void;
+}
+
+const EMPTY_BUSY_WORK_IDS = new Set<number>();
+
+export function AuthorInboxSection({
+  works,
+  total,
+  copy,
+  loading = false,
+  providerConfigured = true,
+  refreshing = false,
+  hasMore = false,
+  showAuthor = false,
+  busyWorkIds = EMPTY_BUSY_WORK_IDS,
+  onRefresh,
+  onImport,
+  onDismiss,
+  onLoadMore,
+}: AuthorInboxSectionProps) {
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white">
+      <div className="flex items-start justify-between gap-3 border-b border-gray-100 p-4">
+        <div className="min-w-0">
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <Inbox size={18} className="shrink-0 text-muted-foreground" />
+            {copy.title}
+            {total > 0 ? (
+              <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">
+                {copy.newWorkCount(total)}
+              </span>
+            ) : null}
+          </h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {providerConfigured ? copy.description : copy.notConfigured}
+          </p>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={onRefresh}
+          disabled={!providerConfigured || refreshing}
+          className="h-7 shrink-0 gap-1.5 px-2 text-xs"
+        >
+          {refreshing ? (
+            <Loader2 size={13} className="shrink-0 animate-spin" />
+          ) : (
+            <RefreshCw size={13} className="shrink-0" />
+          )}
+          {refreshing ? copy.refreshing : copy.refresh}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : works.length === 0 ? (
+        <p className="px-4 py-6 text-center text-sm text-muted-foreground">{copy.empty}</p>
+      ) : (
+        <>
+          <ul className="grid grid-cols-2 gap-3 p-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+            {works.map((work) => {
+              const busy = busyWorkIds.has(work.id);
+              const title = work.title || copy.untitled;
+              return (
+                <li
+                  key={work.id}
+                  className="flex min-w-0 flex-col overflow-hidden rounded border border-gray-200"
+                >
+                  <a
+                    href={work.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    title={copy.openWork}
+                    className="relative block aspect-square bg-gray-100"
+                  >
+                    {work.thumbnailUrl ? (
+                      <img
+                        src={work.thumbnailUrl}
+                        alt={title}
+                        loading="lazy"
+                        referrerPolicy="no-referrer"
+                        className="h-full w-full object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-full w-full items-center justify-center text-gray-400">
+                        <ImageOff size={24} />
+                      </div>
+                    )}
+                    <ExternalLink
+                      size={14}
+                      className="absolute right-1.5 top-1.5 rounded bg-white/80 p-0.5 text-gray-700"
+                    />
+                  </a>
+                  <div className="min-w-0 space-y-2 p-2">
+                    <div className="min-w-0">
+                      <div className="truncate text-sm font-medium" title={title}>
+                        {title}
+                      </div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {[
+                          showAuthor ? work.authorName : null,
+                          work.publishedAt ? new Date(work.publishedAt).toLocaleDateString() : null,
+                        ]
+                          .filter(Boolean)
+                          .join(' / ') || work.provider}
+                      </div>
+                    </div>
+                    <div className="flex gap-1.5">
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => onImport(work)}
+                        disabled={busy}
+                        className="h-7 min-w-0 flex-1 gap-1 px-2 text-xs"
+                      >
+                        {busy ? (
+                          <Loader2 size={12} className="shrink-0 animate-spin" />
+                        ) : (
+                          <Download size={12} className="shrink-0" />
+                        )}
+                        <span className="truncate">{busy ? copy.importing : copy.importWork}</span>
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onDismiss(work)}
+                        disabled={busy}
+                        className="h-7 w-7 shrink-0 p-0"
+                        title={copy.dismiss}
+                        aria-label={copy.dismiss}
+                      >
+                        <EyeOff size={12} />
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {hasMore && onLoadMore ? (
+            <div className="flex justify-center pb-4">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={onLoadMore}
+                className="h-8 px-3 text-xs"
+              >
+                {copy.loadMore}
+              </Button>
+            </div>
+          ) : null}
+        </>
+      )}
+    </section>
+  );
+}
@@ -11,6 +11,13 @@ const authors: Author[] = [
     id: 1,
     name: 'Sample Artist',
     stackCount: 128,
+    profile: {
+      name: 'サンプル作家',
+      avatarUrl: 'https://picsum.photos/seed/author-avatar/96/96',
+      description: 'Illustrations and comics. Commissions open in spring.',
+      url: 'https://www.pixiv.net/users/123456',
+      fetchedAt: '2026-06-20T00:00:00.000Z',
+    },
     links: [
       {
         id: 1,
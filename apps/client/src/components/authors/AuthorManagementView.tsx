@@ -8,7 +8,7 @@ import {
   Trash2,
   UserRound,
 } from 'lucide-react';
-import type { ChangeEvent, ReactElement } from 'react';
+import type { ChangeEvent, ReactElement, ReactNode } from 'react';
 import { useCallback, useState } from 'react';
 import { AuthorLinkQuickAdd } from '@/components/authors/AuthorLinkQuickAdd';
 import { authorLinkStyles } from '@/components/authors/authorLinkStyles';
@@ -72,6 +72,8 @@ interface AuthorManagementViewProps {
   merging: boolean;
   linkSubmitting: boolean;
   copy: AuthorManagementCopy;
+  /** 新着作品の受信箱。作者を選んでいないときは全作者分として表示する */
+  inbox?: ReactNode;
   onSearchChange: (value: string) => void;
   onSelectAuthor: (authorId: number) => void;
   onToggleMergeAuthor: (authorId: number) => void;
@@ -122,6 +124,7 @@ export function AuthorManagementView({
   merging,
   linkSubmitting,
   copy,
+  inbox,
   onSearchChange,
   onSelectAuthor,
   onToggleMergeAuthor,
@@ -272,12 +275,29 @@ export function AuthorManagementView({
         <div className="h-full min-w-0 flex-1 overflow-y-auto bg-gray-50">
           <div className="space-y-6 p-4">
             <div className="mb-4">
-              <div className="flex items-start justify-between gap-3">
+              <div className="flex items-start gap-3">
+                {selectedAuthor.profile?.avatarUrl ? (
+                  <img
+                    src={selectedAuthor.profile.avatarUrl}
+                    alt={selectedAuthor.profile.name ?? selectedAuthor.name}
+                    referrerPolicy="no-referrer"
+                    className="h-14 w-14 flex-shrink-0 rounded-full border border-gray-200 bg-white object-cover"
+                  />
+                ) : null}
                 <div className="min-w-0">
                   <h2 className="truncate text-2xl font-bold">{selectedAuthor.name}</h2>
                   <p className="mt-1 text-muted-foreground">
                     {copy.stackCount(selectedAuthorStackCount)}
+                    {selectedAuthor.profile?.name &&
+                    selectedAuthor.profile.name !== selectedAuthor.name
+                      ? ` / ${selectedAuthor.profile.name}`
+                      : ''}
                   </p>
+                  {selectedAuthor.profile?.description ? (
+                    <p className="mt-2 line-clamp-3 max-w-2xl whitespace-pre-line text-sm text-gray-600">
+                      {selectedAuthor.profile.description}
+                    </p>
+                  ) : null}
                 </div>
               </div>
             </div>
@@ -383,6 +403,8 @@ export function AuthorManagementView({
               </div>
             </section>
 
+            {inbox}
+
             <section className="space-y-4">
               <div>
                 <h3 className="text-lg font-semibold">{copy.assignedStacks}</h3>
@@ -439,6 +461,16 @@ export function AuthorManagementView({
             </section>
           </div>
         </div>
+      ) : inbox ? (
+        <div className="h-full min-w-0 flex-1 overflow-y-auto bg-gray-50">
+          <div className="space-y-6 p-4">
+            {inbox}
+            <div className="py-8 text-center">
+              <UserRound className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+              <p className="text-lg text-muted-foreground">{copy.noAuthorSelected}</p>
+            </div>
+          </div>
+        </div>
       ) : (
         <div className="flex h-full min-w-0 flex-1 items-center justify-center bg-gray-50">
           <div className="text-center">
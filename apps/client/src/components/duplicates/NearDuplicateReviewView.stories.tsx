@@ -0,0 +1,80 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import type { Stack } from '@/types';
+import { NearDuplicateReviewView } from './NearDuplicateReviewView';
+
+const copy = {
+  title: 'Near duplicates',
+  description: 'Stacks whose images look almost the same. Merge, keep or delete them.',
+  threshold: 'Sensitivity',
+  thresholdOption: (distance: number) => `Distance ≤ ${distance}`,
+  scan: 'Scan',
+  scanning: 'Scanning…',
+  unhashedAssets: (count: number) => `${count} item(s) have not been scanned yet.`,
+  loading: 'Loading…',
+  empty: 'No near duplicates found.',
+  groupCount: (count: number) => `${count} group(s)`,
+  distance: (distance: number) => (distance === 0 ? 'Identical' : `Distance ${distance}`),
+  assetCount: (count: number) => `${count} item(s)`,
+  mergeTarget: 'Merge target',
+  mergeIntoTarget: 'Merge into target',
+  keepAll: 'Keep all',
+  deleteStack: 'Delete stack',
+  previous: 'Previous',
+  next: 'Next',
+};
+
+const stack = (id: number, name: string, assetCount: number): Stack => ({
+  id,
+  datasetId: '1',
+  name,
+  mediaType: 'image',
+  thumbnail: '/no-image.png',
+  assetCount,
+  createdAt: '2026-06-20T00:00:00.000Z',
+  updatedAt: '2026-06-20T00:00:00.000Z',
+  assets: [],
+});
+
+const meta: Meta<typeof NearDuplicateReviewView> = {
+  title: 'Duplicates/NearDuplicateReviewView',
+  component: NearDuplicateReviewView,
+  args: {
+    groups: [
+      { distance: 0, stacks: [stack(12, 'sketch.png', 1), stack(48, 'sketch (1).jpg', 1)] },
+      {
+        distance: 4,
+        stacks: [
+          stack(3, 'pose reference', 6),
+          stack(19, 'pose reference small', 2),
+          stack(77, 'IMG_0042.jpg', 1),
+        ],
+      },
+    ],
+    total: 2,
+    limit: 20,
+    offset: 0,
+    threshold: 6,
+    unhashedAssets: 0,
+    copy,
+    onThresholdChange: () => {},
+    onScan: () => {},
+    onOpenStack: () => {},
+    onMerge: () => {},
+    onKeep: () => {},
+    onDelete: () => {},
+    onPageChange: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof NearDuplicateReviewView>;
+
+export const Default: Story = {};
+
+export const NeedsScan: Story = {
+  args: { unhashedAssets: 128 },
+};
+
+export const Empty: Story = {
+  args: { groups: [], total: 0 },
+};
@@ -0,0 +1,281 @@
+import { Check, Copy, GitMerge, Loader2, ScanSearch, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { SmallSelect } from '@/components/ui/Controls';
+import { SelectItem } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { NearDuplicateGroup, Stack } from '@/types';
+
+export interface NearDuplicateReviewCopy {
+  title: string;
+  description: string;
+  threshold: string;
+  thresholdOption: (distance: number) => string;
+  scan: string;
+  scanning: string;
+  unhashedAssets: (count: number) => string;
+  loading: string;
+  empty: string;
+  groupCount: (count: number) => string;
+  distance: (distance: number) => string;
+  assetCount: (count: number) => string;
+  mergeTarget: string;
+  mergeIntoTarget: string;
+  keepAll: string;
+  deleteStack: string;
+  previous: string;
+  next: string;
+}
+
+export interface NearDuplicateReviewViewProps {
+  groups: NearDuplicateGroup[];
+  total: number;
+  limit: number;
+  offset: number;
+  threshold: number;
+  unhashedAssets: number;
+  copy: NearDuplicateReviewCopy;
+  loading?: boolean;
+  scanning?: boolean;
+  busyGroupKey?: string | null;
+  onThresholdChange: (threshold: number) => void;
+  onScan: () => void;
+  onOpenStack: (stackId: number) => void;
+  onMerge: (targetId: number, sourceIds: number[]) => void;
+  onKeep: (stackIds: number[]) => void;
+  onDelete: (stackId: number) => void;
+  onPageChange: (offset: number) => void;
+}
+
+export const NEAR_DUPLICATE_THRESHOLDS = [2, 4, 6, 8, 10, 12];
+
+export const getNearDuplicateGroupKey = (group: NearDuplicateGroup) =>
+  group.stacks.map((stack) => stack.id).join('-');
+
+const getThumbnail = (stack: Stack) => stack.thumbnail || stack.thumbnailUrl || '/no-image.png';
+
+const getAssetCount = (stack: Stack) => stack.assetCount ?? stack.assetsCount ?? 0;
+
+// 既定の統合先はアセット数が一番多いスタック
+const getDefaultTargetId = (group: NearDuplicateGroup) =>
+  Number(
+    group.stacks.reduce((best, stack) =>
+      getAssetCount(stack) > getAssetCount(best) ? stack : best
+    ).id
+  );
+
+export function NearDuplicateReviewView({
+  groups,
+  total,
+  limit,
+  offset,
+  threshold,
+  unhashedAssets,
+  copy,
+  loading = false,
+  scanning = false,
+  busyGroupKey = null,
+  onThresholdChange,
+  onScan,
+  onOpenStack,
+  onMerge,
+  onKeep,
+  onDelete,
+  onPageChange,
+}: NearDuplicateReviewViewProps) {
+  const [targetIds, setTargetIds] = useState<Record<string, number>>({});
+
+  return (
+    <div className="mx-auto w-full max-w-5xl px-4 py-6">
+      <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+        <div className="border-b border-gray-100 px-6 py-5">
+          <div className="flex min-w-0 items-center gap-3">
+            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-violet-100 text-violet-700">
+              <Copy size={20} />
+            </div>
+            <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+            <div className="w-36 shrink-0">
+              <SmallSelect
+                value={String(threshold)}
+                onValueChange={(value) => onThresholdChange(Number(value))}
+                placeholder={copy.threshold}
+              >
+                {NEAR_DUPLICATE_THRESHOLDS.map((distance) => (
+                  <SelectItem key={distance} value={String(distance)}>
+                    {copy.thresholdOption(distance)}
+                  </SelectItem>
+                ))}
+              </SmallSelect>
+            </div>
+          </div>
+          <p className="mt-3 text-sm text-gray-500">{copy.description}</p>
+          {unhashedAssets > 0 ? (
+            <div className="mt-3 flex items-center justify-between gap-3 rounded-md bg-amber-50 px-3 py-2">
+              <span className="text-xs text-amber-800">{copy.unhashedAssets(unhashedAssets)}</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={onScan}
+                disabled={scanning}
+                className="h-7 shrink-0 px-2 text-xs"
+              >
+                {scanning ? (
+                  <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <ScanSearch className="mr-1.5 h-3.5 w-3.5" />
+                )}
+                {scanning ? copy.scanning : copy.scan}
+              </Button>
+            </div>
+          ) : null}
+        </div>
+
+        {loading ? (
+          <p className="px-6 py-5 text-sm text-gray-500">{copy.loading}</p>
+        ) : groups.length === 0 ? (
+          <p className="px-6 py-5 text-sm text-gray-500">{copy.empty}</p>
+        ) : (
+          <>
+            <div className="px-6 pt-4 text-xs text-gray-500">{copy.groupCount(total)}</div>
+            <ul className="divide-y divide-gray-100">
+              {groups.map((group) => {
+                const groupKey = getNearDuplicateGroupKey(group);
+                const busy = busyGroupKey === groupKey;
+                const targetId = targetIds[groupKey] ?? getDefaultTargetId(group);
+                const stackIds = group.stacks.map((stack) => Number(stack.id));
+
+                return (
+                  <li key={groupKey} className="px-6 py-4">
+                    <div className="mb-3 flex items-center gap-2">
+                      <span className="rounded-full bg-gray-100 px-3 py-1 text-xs font-semibold text-gray-600">
+                        {copy.distance(group.distance)}
+                      </span>
+                      <div className="flex-1" />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onKeep(stackIds)}
+                        disabled={busy}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <Check className="mr-1.5 h-3.5 w-3.5" />
+                        {copy.keepAll}
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() =>
+                          onMerge(
+                            targetId,
+                            stackIds.filter((id) => id !== targetId)
+                          )
+                        }
+                        disabled={busy}
+                        className="h-7 px-2 text-xs"
+                      >
+                        {busy ? (
+                          <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <GitMerge className="mr-1.5 h-3.5 w-3.5" />
+                        )}
+                        {copy.mergeIntoTarget}
+                      </Button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4">
+                      {group.stacks.map((stack) => {
+                        const stackId = Number(stack.id);
+                        const isTarget = stackId === targetId;
+                        return (
+                          <div
+                            key={stackId}
+                            className={cn(
+                              'overflow-hidden rounded-md border bg-white',
+                              isTarget
+                                ? 'border-violet-400 ring-1 ring-violet-400'
+                                : 'border-gray-200'
+                            )}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => onOpenStack(stackId)}
+                              className="block aspect-square w-full bg-gray-50"
+                            >
+                              <img
+                                src={getThumbnail(stack)}
+                                alt={stack.name}
+                                loading="lazy"
+                                className="h-full w-full object-contain"
+                              />
+                            </button>
+                            <div className="space-y-1.5 p-2">
+                              <div className="truncate text-xs font-medium text-gray-900">
+                                #{stackId} {stack.name}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {copy.assetCount(getAssetCount(stack))}
+                              </div>
+                              <div className="flex items-center justify-between gap-2">
+                                <label className="flex cursor-pointer items-center gap-1.5 text-xs text-gray-600">
+                                  <input
+                                    type="radio"
+                                    name={`near-duplicate-target-${groupKey}`}
+                                    checked={isTarget}
+                                    onChange={() =>
+                                      setTargetIds((prev) => ({ ...prev, [groupKey]: stackId }))
+                                    }
+                                  />
+                                  {copy.mergeTarget}
+                                </label>
+                                <button
+                                  type="button"
+                                  onClick={() => onDelete(stackId)}
+                                  disabled={busy}
+                                  title={copy.deleteStack}
+                                  aria-label={copy.deleteStack}
+                                  className="inline-flex h-6 w-6 items-center justify-center rounded text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                                >
+                                  <Trash2 className="h-3.5 w-3.5" />
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+            {total > limit ? (
+              <div className="flex items-center justify-end gap-2 border-t border-gray-100 px-6 py-3">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onPageChange(Math.max(0, offset - limit))}
+                  disabled={offset === 0}
+                  className="h-7 px-2 text-xs"
+                >
+                  {copy.previous}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onPageChange(offset + limit)}
+                  disabled={offset + limit >= total}
+                  className="h-7 px-2 text-xs"
+                >
+                  {copy.next}
+                </Button>
+              </div>
+            ) : null}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
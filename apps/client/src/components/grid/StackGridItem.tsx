@@ -26,6 +26,7 @@ import { THUMBNAIL_BLUR_TARGET_CLASS } from '@/lib/thumbnail-blur';
 import { cn } from '@/lib/utils';
 import { navigationStateAtom } from '@/stores/navigation';
 import { infoSidebarOpenAtom, selectedItemIdAtom } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 import type { MediaGridItem } from '@/types';
 
 const getCurrentReturnTo = () => {
@@ -133,6 +134,7 @@ function StackGridItemComponent({
   const setInfoOpen = useSetAtom(infoSidebarOpenAtom);
   const setSelectedItemId = useSetAtom(selectedItemIdAtom);
   const setNavigationState = useSetAtom(navigationStateAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const selectedInfoId = useAtomValue(selectedItemIdAtom);
   const queryClient = useQueryClient();
   const isSelectionContext =
@@ -322,8 +324,9 @@ function StackGridItemComponent({
     }
 
     try {
-      await apiClient.removeStack(numericId);
+      const result = await apiClient.removeStack(numericId);
       removeStackFromCache(queryClient, numericId);
+      showUndoToast({ operationId: result.operationId, operation: 'stacks.remove', itemCount: 1 });
 
       if (selectedInfoId && String(selectedInfoId) === String(item.id)) {
         setSelectedItemId(null);
@@ -343,6 +346,7 @@ function StackGridItemComponent({
     selectedInfoId,
     setInfoOpen,
     setSelectedItemId,
+    showUndoToast,
     t,
     toNumber,
   ]);
@@ -492,6 +496,11 @@ function StackGridItemComponent({
                 .mergeStacks(targetId, sourceIds)
                 .then((resp) => {
                   console.log('✅ Merge completed', { targetId, sourceIds });
+                  showUndoToast({
+                    operationId: resp?.operationId,
+                    operation: 'stacks.merge',
+                    itemCount: sourceIds.length,
+                  });
                   // Optimistically update any loaded pages to remove sources and update target
                   const pages = queryClient.getQueriesData<{ stacks?: MediaGridItem[] }>({
                     queryKey: ['stacks', 'page'],
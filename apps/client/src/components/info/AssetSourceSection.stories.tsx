@@ -0,0 +1,61 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { AssetSourceSection } from './AssetSourceSection';
+
+const copy = {
+  title: 'Source',
+  channel: 'Imported via',
+  channels: {
+    upload: 'Upload',
+    clipper: 'Browser extension',
+    'url-import': 'URL import',
+    'watched-folder': 'Watched folder',
+  },
+  importedAt: 'Imported',
+  pageUrl: 'Page',
+  mediaUrl: 'Media',
+  referrer: 'Referrer',
+  findSameSource: (host: string) => `Find items from ${host}`,
+};
+
+const meta: Meta<typeof AssetSourceSection> = {
+  title: 'Info/AssetSourceSection',
+  component: AssetSourceSection,
+  decorators: [
+    (Story) => (
+      <div className="w-80 p-4">
+        <Story />
+      </div>
+    ),
+  ],
+  args: {
+    copy,
+    onFindSameSource: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof AssetSourceSection>;
+
+export const Clipper: Story = {
+  args: {
+    source: {
+      channel: 'clipper',
+      pageUrl: 'https://www.pixiv.net/artworks/123456',
+      mediaUrl: 'https://i.pximg.net/img-original/img/2026/06/20/00/00/00/123456_p0.png',
+      referrer: 'https://www.pixiv.net/',
+      importedAt: '2026-06-20T03:34:56.000Z',
+    },
+  },
+};
+
+export const WatchedFolder: Story = {
+  args: {
+    source: {
+      channel: 'watched-folder',
+      pageUrl: null,
+      mediaUrl: null,
+      referrer: null,
+      importedAt: '2026-06-20T03:34:56.000Z',
+    },
+  },
+};
@@ -0,0 +1,98 @@
+import { ExternalLink, Link2, Search } from 'lucide-react';
+import type { AssetImportChannel, AssetSource } from '@/types';
+
+export interface AssetSourceSectionCopy {
+  title: string;
+  channel: string;
+  channels: Record<AssetImportChannel, string>;
+  importedAt: string;
+  pageUrl: string;
+  mediaUrl: string;
+  referrer: string;
+  findSameSource: (host: string) => string;
+}
+
+export interface AssetSourceSectionProps {
+  source: AssetSource;
+  copy: AssetSourceSectionCopy;
+  /** 同じサイトから取り込んだスタックを探す */
+  onFindSameSource?: (host: string) => void;
+}
+
+const toHost = (url: string | null) => {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname || null;
+  } catch {
+    return null;
+  }
+};
+
+export function AssetSourceSection({ source, copy, onFindSameSource }: AssetSourceSectionProps) {
+  const rows = [
+    { label: copy.channel, value: source.channel ? copy.channels[source.channel] : '' },
+    {
+      label: copy.importedAt,
+      value: source.importedAt ? new Date(source.importedAt).toLocaleString() : '',
+    },
+  ].filter((row) => row.value);
+  const links = [
+    { label: copy.pageUrl, url: source.pageUrl },
+    { label: copy.mediaUrl, url: source.mediaUrl },
+    { label: copy.referrer, url: source.referrer },
+  ].filter((link): link is { label: string; url: string } => Boolean(link.url));
+  const host = toHost(source.pageUrl) ?? toHost(source.mediaUrl);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Link2 size={16} />
+        {copy.title}
+      </div>
+
+      {rows.length > 0 && (
+        <dl className="space-y-1 text-sm text-gray-600">
+          {rows.map((row) => (
+            <div key={row.label} className="flex justify-between gap-3">
+              <dt className="shrink-0">{row.label}</dt>
+              <dd className="min-w-0 break-words text-right font-medium">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {links.length > 0 && (
+        <dl className="space-y-1 text-xs">
+          {links.map((link) => (
+            <div key={link.label} className="min-w-0">
+              <dt className="text-gray-500">{link.label}</dt>
+              <dd className="min-w-0">
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  title={link.url}
+                  className="flex min-w-0 items-center gap-1 text-gray-700 hover:text-primary"
+                >
+                  <span className="truncate">{link.url}</span>
+                  <ExternalLink size={12} className="shrink-0" />
+                </a>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {host && onFindSameSource && (
+        <button
+          type="button"
+          onClick={() => onFindSameSource(host)}
+          className="flex items-center gap-1 text-xs text-gray-500 transition-colors hover:text-gray-700"
+        >
+          <Search size={12} />
+          {copy.findSameSource(host)}
+        </button>
+      )}
+    </div>
+  );
+}
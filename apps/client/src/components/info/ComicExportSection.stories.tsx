@@ -0,0 +1,40 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { ComicExportSection } from './ComicExportSection';
+
+const copy = {
+  title: 'Export',
+  size: 'Page size',
+  originalSize: 'Original size',
+  longEdge: (px: number) => `Long edge ${px}px`,
+  exportCbz: 'Export CBZ',
+  exportPdf: 'Export PDF',
+};
+
+const meta: Meta<typeof ComicExportSection> = {
+  title: 'Info/ComicExportSection',
+  component: ComicExportSection,
+  decorators: [
+    (Story) => (
+      <div className="w-80 p-4">
+        <Story />
+      </div>
+    ),
+  ],
+  args: {
+    copy,
+    maxSize: null,
+    onMaxSizeChange: () => {},
+    onExport: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof ComicExportSection>;
+
+export const OriginalSize: Story = {};
+
+export const Downscaled: Story = {
+  args: {
+    maxSize: 1600,
+  },
+};
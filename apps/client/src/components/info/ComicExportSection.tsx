@@ -0,0 +1,68 @@
+import { FileDown } from 'lucide-react';
+import type { ComicExportFormat } from '@/types';
+
+export interface ComicExportSectionCopy {
+  title: string;
+  size: string;
+  originalSize: string;
+  longEdge: (px: number) => string;
+  exportCbz: string;
+  exportPdf: string;
+}
+
+export interface ComicExportSectionProps {
+  copy: ComicExportSectionCopy;
+  /** 長辺の上限 (px)。null なら元の大きさ */
+  maxSize: number | null;
+  onMaxSizeChange: (value: number | null) => void;
+  onExport: (format: ComicExportFormat) => void;
+}
+
+const SIZE_OPTIONS = [2400, 1600, 1200];
+
+export function ComicExportSection({
+  copy,
+  maxSize,
+  onMaxSizeChange,
+  onExport,
+}: ComicExportSectionProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <FileDown size={16} />
+        {copy.title}
+      </div>
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-500">{copy.size}</span>
+        <select
+          value={maxSize ?? ''}
+          onChange={(e) => onMaxSizeChange(e.target.value ? Number(e.target.value) : null)}
+          className="w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-xs"
+        >
+          <option value="">{copy.originalSize}</option>
+          {SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>
+              {copy.longEdge(size)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={() => onExport('cbz')}
+          className="rounded-md border px-3 py-1.5 text-xs hover:bg-gray-100"
+        >
+          {copy.exportCbz}
+        </button>
+        <button
+          type="button"
+          onClick={() => onExport('pdf')}
+          className="rounded-md border px-3 py-1.5 text-xs hover:bg-gray-100"
+        >
+          {copy.exportPdf}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { EmbeddedMetadataSection } from './EmbeddedMetadataSection';
+
+const copy = {
+  title: 'Embedded Metadata',
+  capturedAt: 'Captured',
+  camera: 'Camera',
+  lens: 'Lens',
+  exposure: 'Exposure',
+  software: 'Software',
+  artist: 'Artist',
+  imageTitle: 'Title',
+  imageDescription: 'Description',
+  location: 'Location',
+  keywords: 'Keywords',
+  addKeywordAsTag: (keyword: string) => `Add "${keyword}" as a tag`,
+  prompt: 'Prompt',
+  copyPrompt: 'Copy prompt',
+  textChunks: 'Text chunks',
+};
+
+const emptyMetadata = {
+  capturedAt: null,
+  cameraMake: null,
+  cameraModel: null,
+  lensModel: null,
+  software: null,
+  artist: null,
+  title: null,
+  description: null,
+  exposureTime: null,
+  fNumber: null,
+  iso: null,
+  focalLength: null,
+  gps: null,
+  keywords: [],
+  prompt: null,
+  textChunks: {},
+};
+
+const meta: Meta<typeof EmbeddedMetadataSection> = {
+  title: 'Info/EmbeddedMetadataSection',
+  component: EmbeddedMetadataSection,
+  decorators: [
+    (Story) => (
+      <div className="w-80 p-4">
+        <Story />
+      </div>
+    ),
+  ],
+  args: {
+    copy,
+    existingTags: new Set(['street']),
+    onKeywordClick: () => {},
+    onCopyPrompt: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof EmbeddedMetadataSection>;
+
+export const Photo: Story = {
+  args: {
+    metadata: {
+      ...emptyMetadata,
+      capturedAt: '2024-05-01T03:34:56.000Z',
+      cameraMake: 'FUJIFILM',
+      cameraModel: 'X100V',
+      lensModel: 'FUJINON 23mm F2',
+      software: 'Lightroom Classic 13.2',
+      exposureTime: '1/250',
+      fNumber: 5.6,
+      iso: 160,
+      focalLength: 23,
+      gps: { latitude: 35.658581, longitude: 139.745433, altitude: 12 },
+      keywords: ['street', 'tokyo', 'evening'],
+    },
+  },
+};
+
+export const GeneratedImage: Story = {
+  args: {
+    metadata: {
+      ...emptyMetadata,
+      prompt:
+        'a cat sitting on a sofa, soft light\nNegative prompt: blurry\nSteps: 28, Sampler: Euler a, CFG scale: 7',
+      textChunks: {
+        parameters:
+          'a cat sitting on a sofa, soft light\nNegative prompt: blurry\nSteps: 28, Sampler: Euler a, CFG scale: 7',
+      },
+    },
+  },
+};
@@ -0,0 +1,172 @@
+import { Camera, ChevronDown, ChevronUp, Copy } from 'lucide-react';
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { EmbeddedImageMetadata } from '@/types';
+
+export interface EmbeddedMetadataSectionCopy {
+  title: string;
+  capturedAt: string;
+  camera: string;
+  lens: string;
+  exposure: string;
+  software: string;
+  artist: string;
+  imageTitle: string;
+  imageDescription: string;
+  location: string;
+  keywords: string;
+  addKeywordAsTag: (keyword: string) => string;
+  prompt: string;
+  copyPrompt: string;
+  textChunks: string;
+}
+
+export interface EmbeddedMetadataSectionProps {
+  metadata: EmbeddedImageMetadata;
+  copy: EmbeddedMetadataSectionCopy;
+  /** 既にスタックに付いているキーワードは押せないようにする */
+  existingTags?: Set<string>;
+  onKeywordClick?: (keyword: string) => void;
+  onCopyPrompt?: (prompt: string) => void;
+}
+
+const formatExposure = (metadata: EmbeddedImageMetadata) =>
+  [
+    metadata.exposureTime ? `${metadata.exposureTime}s` : null,
+    metadata.fNumber ? `f/${metadata.fNumber}` : null,
+    metadata.iso ? `ISO ${metadata.iso}` : null,
+    metadata.focalLength ? `${metadata.focalLength}mm` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const formatCamera = (metadata: EmbeddedImageMetadata) => {
+  const make = metadata.cameraMake ?? '';
+  const model = metadata.cameraModel ?? '';
+  // 機種名にメーカー名が含まれることが多いので重複させない
+  if (make && model.toLowerCase().startsWith(make.toLowerCase())) return model;
+  return [make, model].filter(Boolean).join(' ');
+};
+
+export function EmbeddedMetadataSection({
+  metadata,
+  copy,
+  existingTags,
+  onKeywordClick,
+  onCopyPrompt,
+}: EmbeddedMetadataSectionProps) {
+  const [showTextChunks, setShowTextChunks] = useState(false);
+  const textChunks = Object.entries(metadata.textChunks ?? {});
+  const rows = [
+    {
+      label: copy.capturedAt,
+      value: metadata.capturedAt ? new Date(metadata.capturedAt).toLocaleString() : '',
+    },
+    { label: copy.camera, value: formatCamera(metadata) },
+    { label: copy.lens, value: metadata.lensModel ?? '' },
+    { label: copy.exposure, value: formatExposure(metadata) },
+    { label: copy.software, value: metadata.software ?? '' },
+    { label: copy.artist, value: metadata.artist ?? '' },
+    { label: copy.imageTitle, value: metadata.title ?? '' },
+    { label: copy.imageDescription, value: metadata.description ?? '' },
+    {
+      label: copy.location,
+      value: metadata.gps ? `${metadata.gps.latitude}, ${metadata.gps.longitude}` : '',
+    },
+  ].filter((row) => row.value);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Camera size={16} />
+        {copy.title}
+      </div>
+
+      {rows.length > 0 && (
+        <dl className="space-y-1 text-sm text-gray-600">
+          {rows.map((row) => (
+            <div key={row.label} className="flex justify-between gap-3">
+              <dt className="shrink-0">{row.label}</dt>
+              <dd className="min-w-0 break-words text-right font-medium">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {metadata.keywords.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">{copy.keywords}</p>
+          <div className="flex flex-wrap gap-1">
+            {metadata.keywords.map((keyword) => {
+              const added = existingTags?.has(keyword) ?? false;
+              return (
+                <button
+                  key={keyword}
+                  type="button"
+                  disabled={added || !onKeywordClick}
+                  onClick={() => onKeywordClick?.(keyword)}
+                  title={added ? undefined : copy.addKeywordAsTag(keyword)}
+                  className={cn(
+                    'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                    added
+                      ? 'border-gray-200 bg-gray-100 text-gray-500'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  )}
+                >
+                  {keyword}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {metadata.prompt && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">{copy.prompt}</p>
+            {onCopyPrompt && (
+              <button
+                type="button"
+                onClick={() => onCopyPrompt(metadata.prompt ?? '')}
+                title={copy.copyPrompt}
+                aria-label={copy.copyPrompt}
+                className="inline-flex h-6 w-6 items-center justify-center rounded text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+              >
+                <Copy size={12} />
+              </button>
+            )}
+          </div>
+          <p className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words rounded-md bg-gray-50 p-2 text-xs text-gray-700">
+            {metadata.prompt}
+          </p>
+        </div>
+      )}
+
+      {textChunks.length > 0 && (
+        <div className="space-y-1">
+          <button
+            type="button"
+            onClick={() => setShowTextChunks(!showTextChunks)}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            {copy.textChunks} ({textChunks.length})
+            {showTextChunks ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          </button>
+          {showTextChunks && (
+            <dl className="space-y-2 text-xs">
+              {textChunks.map(([keyword, text]) => (
+                <div key={keyword}>
+                  <dt className="font-medium text-gray-600">{keyword}</dt>
+                  <dd className="max-h-32 overflow-y-auto whitespace-pre-wrap break-all text-gray-500">
+                    {text}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
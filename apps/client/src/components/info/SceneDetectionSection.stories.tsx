@@ -0,0 +1,49 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { SceneDetectionSection } from './SceneDetectionSection';
+
+const copy = {
+  title: 'Scenes',
+  sensitivity: 'Sensitivity',
+  fewerScenes: 'Fewer',
+  moreScenes: 'More',
+  detect: 'Detect scenes',
+  detecting: 'Detecting…',
+  sceneCount: (count: number) => `${count} scenes`,
+  notDetected: 'Not detected yet',
+};
+
+const meta: Meta<typeof SceneDetectionSection> = {
+  title: 'Info/SceneDetectionSection',
+  component: SceneDetectionSection,
+  decorators: [
+    (Story) => (
+      <div className="w-80 p-4">
+        <Story />
+      </div>
+    ),
+  ],
+  args: {
+    copy,
+    sensitivity: 0.5,
+    onSensitivityChange: () => {},
+    onDetect: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof SceneDetectionSection>;
+
+export const NotDetected: Story = {};
+
+export const Detected: Story = {
+  args: {
+    sceneCount: 14,
+  },
+};
+
+export const Detecting: Story = {
+  args: {
+    sceneCount: 14,
+    isDetecting: true,
+  },
+};
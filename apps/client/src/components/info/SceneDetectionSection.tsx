@@ -0,0 +1,69 @@
+import { Clapperboard, Loader2 } from 'lucide-react';
+
+export interface SceneDetectionSectionCopy {
+  title: string;
+  sensitivity: string;
+  fewerScenes: string;
+  moreScenes: string;
+  detect: string;
+  detecting: string;
+  sceneCount: (count: number) => string;
+  notDetected: string;
+}
+
+export interface SceneDetectionSectionProps {
+  copy: SceneDetectionSectionCopy;
+  sensitivity: number;
+  /** 検出済みならシーン数（先頭シーンを含む） */
+  sceneCount?: number | null;
+  isDetecting?: boolean;
+  onSensitivityChange: (value: number) => void;
+  onDetect: () => void;
+}
+
+export function SceneDetectionSection({
+  copy,
+  sensitivity,
+  sceneCount,
+  isDetecting = false,
+  onSensitivityChange,
+  onDetect,
+}: SceneDetectionSectionProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Clapperboard size={16} />
+        {copy.title}
+      </div>
+      <p className="text-xs text-gray-500">
+        {typeof sceneCount === 'number' ? copy.sceneCount(sceneCount) : copy.notDetected}
+      </p>
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-500">{copy.sensitivity}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={sensitivity}
+          onChange={(e) => onSensitivityChange(Number(e.target.value))}
+          className="w-full accent-primary"
+          disabled={isDetecting}
+        />
+        <span className="flex justify-between text-[10px] text-gray-400">
+          <span>{copy.fewerScenes}</span>
+          <span>{copy.moreScenes}</span>
+        </span>
+      </label>
+      <button
+        type="button"
+        onClick={onDetect}
+        disabled={isDetecting}
+        className="flex w-full items-center justify-center gap-1.5 rounded-md border px-3 py-1.5 text-xs hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isDetecting && <Loader2 size={12} className="animate-spin" />}
+        {isDetecting ? copy.detecting : copy.detect}
+      </button>
+    </div>
+  );
+}
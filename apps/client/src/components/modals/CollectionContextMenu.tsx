@@ -1,8 +1,9 @@
 import type { LucideIcon } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
-import { Pencil, Pin, PinOff, Search, Trash2 } from 'lucide-react';
+import { Pencil, Pin, PinOff, Search, Share2, Trash2 } from 'lucide-react';
 import type { FormEvent, ReactNode } from 'react';
 import { memo, useCallback, useEffect, useState } from 'react';
+import { ShareLinkDialog } from '@/components/modals/ShareLinkDialog';
 import { Button } from '@/components/ui/button';
 import {
   ContextMenu,
@@ -61,6 +62,7 @@ function CollectionContextMenuComponent({
   const [showRenameDialog, setShowRenameDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showPinDialog, setShowPinDialog] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -71,10 +73,10 @@ function CollectionContextMenuComponent({
   }, []);
 
   useEffect(() => {
-    if (!showRenameDialog && !showDeleteDialog && !showPinDialog) {
+    if (!showRenameDialog && !showDeleteDialog && !showPinDialog && !showShareDialog) {
       restoreBodyPointerEvents();
     }
-  }, [showDeleteDialog, showPinDialog, showRenameDialog]);
+  }, [showDeleteDialog, showPinDialog, showRenameDialog, showShareDialog]);
 
   // Rename dialog state
   const [name, setName] = useState(collection.name);
@@ -205,6 +207,11 @@ function CollectionContextMenuComponent({
     setShowPinDialog(true);
   }, [closeMenu]);
 
+  const openShareDialog = useCallback(() => {
+    closeMenu();
+    setShowShareDialog(true);
+  }, [closeMenu]);
+
   const handleFindSimilar = useCallback(() => {
     closeMenu();
     onFindSimilar?.();
@@ -238,6 +245,10 @@ function CollectionContextMenuComponent({
               <Pencil className="w-4 h-4 mr-2" />
               {t.common.edit}
             </ContextMenuItem>
+            <ContextMenuItem onSelect={openShareDialog}>
+              <Share2 className="w-4 h-4 mr-2" />
+              {t.share.share}
+            </ContextMenuItem>
             <ContextMenuSeparator />
             {isPinned ? (
               <ContextMenuItem onSelect={onUnpin}>
@@ -415,6 +426,16 @@ function CollectionContextMenuComponent({
           </DialogContent>
         </Dialog>
       ) : null}
+
+      {showShareDialog ? (
+        <ShareLinkDialog
+          open={showShareDialog}
+          onOpenChange={setShowShareDialog}
+          targetType="collection"
+          targetId={collection.id}
+          targetName={collection.name}
+        />
+      ) : null}
     </>
   );
 }
@@ -0,0 +1,198 @@
+import { Check, Copy } from 'lucide-react';
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { SmallSelect } from '@/components/ui/Controls';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SelectItem } from '@/components/ui/select';
+import { apiClient } from '@/lib/api-client';
+import { copyText } from '@/lib/clipboard';
+import { useT } from '@/lib/i18n';
+import type { ShareLink, ShareLinkTargetType } from '@/types';
+
+const EXPIRY_OPTIONS = ['never', '1', '7', '30'] as const;
+type ExpiryOption = (typeof EXPIRY_OPTIONS)[number];
+
+export const getShareLinkUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+interface ShareLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ShareLinkTargetType;
+  targetId: number;
+  targetName: string;
+  onCreated?: (link: ShareLink) => void;
+}
+
+export function ShareLinkDialog({
+  open,
+  onOpenChange,
+  targetType,
+  targetId,
+  targetName,
+  onCreated,
+}: ShareLinkDialogProps) {
+  const t = useT();
+  const [label, setLabel] = useState('');
+  const [password, setPassword] = useState('');
+  const [expiry, setExpiry] = useState<ExpiryOption>('7');
+  const [allowOriginals, setAllowOriginals] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [createdLink, setCreatedLink] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setLabel('');
+      setPassword('');
+      setExpiry('7');
+      setAllowOriginals(false);
+      setCreatedLink(null);
+      setCopied(false);
+    }
+    onOpenChange(next);
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setLoading(true);
+    try {
+      const link = await apiClient.createShareLink({
+        targetType,
+        targetId,
+        label: label.trim() || undefined,
+        password: password || undefined,
+        expiresInDays: expiry === 'never' ? null : Number(expiry),
+        allowOriginals,
+      });
+      setCreatedLink(link);
+      onCreated?.(link);
+    } catch (error) {
+      console.error('共有リンク作成エラー:', error);
+      alert(t.share.createFailed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdLink) return;
+    setCopied(await copyText(getShareLinkUrl(createdLink.token)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader className="border-b border-gray-200 pb-4">
+          <DialogTitle className="text-lg font-semibold text-gray-900">
+            {t.share.shareTitle(targetName)}
+          </DialogTitle>
+          <DialogDescription className="text-gray-600 mt-2">
+            {createdLink ? t.share.linkReady : t.share.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdLink ? (
+          <div className="space-y-6 pt-2">
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={getShareLinkUrl(createdLink.token)}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button type="button" variant="outline" onClick={handleCopy}>
+                {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+                {copied ? t.share.copied : t.share.copy}
+              </Button>
+            </div>
+            <div className="flex justify-end pt-6 border-t border-gray-200">
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                {t.share.done}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form className="space-y-5 pt-2" onSubmit={handleCreate}>
+            <div className="space-y-2">
+              <Label htmlFor="share-label" className="text-gray-700">
+                {t.share.label}
+              </Label>
+              <Input
+                id="share-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder={t.share.labelPlaceholder}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-700">{t.share.expires}</Label>
+              <SmallSelect<ExpiryOption>
+                value={expiry}
+                onValueChange={setExpiry}
+                placeholder={t.share.expires}
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option === 'never'
+                      ? t.share.expiresNever
+                      : t.share.expiresInDays(Number(option))}
+                  </SelectItem>
+                ))}
+              </SmallSelect>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="share-password" className="text-gray-700">
+                {t.share.password}
+              </Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={t.share.passwordPlaceholder}
+                minLength={4}
+                disabled={loading}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox
+                checked={allowOriginals}
+                onCheckedChange={(checked) => setAllowOriginals(checked === true)}
+                disabled={loading}
+              />
+              <span>{t.share.allowOriginals}</span>
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={loading}
+              >
+                {t.common.cancel}
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? t.share.creating : t.share.create}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { AccountSection } from './AccountSection';
+
+const user = {
+  id: 1,
+  name: 'owner',
+  email: null,
+  role: 'super' as const,
+  hasPassword: true,
+  disabled: false,
+  lastLoginAt: '2026-07-01T09:30:00.000Z',
+  createdAt: '2026-06-20T00:00:00.000Z',
+  updatedAt: '2026-06-20T00:00:00.000Z',
+};
+
+const meta: Meta<typeof AccountSection> = {
+  title: 'Settings/AccountSection',
+  component: AccountSection,
+  args: {
+    session: { accountsEnabled: true, user },
+    copy: {
+      title: 'Account',
+      setupDescription:
+        'Create an administrator account to require sign-in. Until then, CaramelBoard stays open to anyone who can reach it.',
+      userName: 'User name',
+      password: 'Password',
+      passwordHint: 'At least 8 characters',
+      setup: 'Create administrator',
+      signedInAs: (name: string) => `Signed in as ${name}`,
+      roles: { super: 'Administrator', user: 'Member', viewer: 'Viewer' },
+      currentPassword: 'Current password',
+      newPassword: 'New password',
+      changePassword: 'Change password',
+      logout: 'Sign out',
+    },
+    onSetup: async () => true,
+    onChangePassword: async () => true,
+    onLogout: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof AccountSection>;
+
+export const SignedIn: Story = {};
+
+export const Setup: Story = {
+  args: {
+    session: { accountsEnabled: false, user: null },
+  },
+};
@@ -0,0 +1,156 @@
+import { KeyRound, LogOut, UserRound } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { AuthSession, UserRole } from '@/types';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface AccountCopy {
+  title: string;
+  setupDescription: string;
+  userName: string;
+  password: string;
+  passwordHint: string;
+  setup: string;
+  signedInAs: (name: string) => string;
+  roles: Record<UserRole, string>;
+  currentPassword: string;
+  newPassword: string;
+  changePassword: string;
+  logout: string;
+}
+
+export interface AccountSectionProps {
+  session: AuthSession | null;
+  copy: AccountCopy;
+  busy?: boolean;
+  onSetup: (name: string, password: string) => Promise<boolean>;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  onLogout: () => void;
+}
+
+export function AccountSection({
+  session,
+  copy,
+  busy = false,
+  onSetup,
+  onChangePassword,
+  onLogout,
+}: AccountSectionProps) {
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const user = session?.user ?? null;
+  const passwordValid = password.length >= MIN_PASSWORD_LENGTH;
+
+  const handleSetup = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !passwordValid) return;
+    if (await onSetup(name.trim(), password)) {
+      setName('');
+      setPassword('');
+    }
+  };
+
+  const handleChangePassword = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!currentPassword || !passwordValid) return;
+    if (await onChangePassword(currentPassword, password)) {
+      setCurrentPassword('');
+      setPassword('');
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-100 px-6 py-5">
+        <div className="flex min-w-0 items-center gap-3">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-sky-100 text-sky-700">
+            <UserRound size={20} />
+          </div>
+          <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+          {user ? (
+            <Button type="button" size="sm" variant="outline" onClick={onLogout} disabled={busy}>
+              <LogOut className="mr-1.5 h-3.5 w-3.5" />
+              {copy.logout}
+            </Button>
+          ) : null}
+        </div>
+        {user ? (
+          <p className="mt-3 text-sm text-gray-500">
+            {copy.signedInAs(user.name)} · {copy.roles[user.role]}
+          </p>
+        ) : (
+          <p className="mt-3 text-sm text-gray-500">{copy.setupDescription}</p>
+        )}
+      </div>
+
+      {user ? (
+        <form onSubmit={handleChangePassword} className="grid gap-4 px-6 py-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="account-current-password">{copy.currentPassword}</Label>
+              <Input
+                id="account-current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(event) => setCurrentPassword(event.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="account-new-password">{copy.newPassword}</Label>
+              <Input
+                id="account-new-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+              <p className="text-xs text-gray-500">{copy.passwordHint}</p>
+            </div>
+          </div>
+          <div>
+            <Button type="submit" disabled={busy || !currentPassword || !passwordValid}>
+              <KeyRound className="mr-2 h-4 w-4" />
+              {copy.changePassword}
+            </Button>
+          </div>
+        </form>
+      ) : session && !session.accountsEnabled ? (
+        <form onSubmit={handleSetup} className="grid gap-4 px-6 py-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="account-setup-name">{copy.userName}</Label>
+              <Input
+                id="account-setup-name"
+                autoComplete="username"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="account-setup-password">{copy.password}</Label>
+              <Input
+                id="account-setup-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+              <p className="text-xs text-gray-500">{copy.passwordHint}</p>
+            </div>
+          </div>
+          <div>
+            <Button type="submit" disabled={busy || !name.trim() || !passwordValid}>
+              <KeyRound className="mr-2 h-4 w-4" />
+              {copy.setup}
+            </Button>
+          </div>
+        </form>
+      ) : null}
+    </section>
+  );
+}
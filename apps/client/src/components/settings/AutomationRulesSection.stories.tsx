@@ -0,0 +1,142 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import type { AutomationRule } from '@/types';
+import { AutomationRulesSection } from './AutomationRulesSection';
+
+const copy = {
+  title: 'Automation Rules',
+  description: 'Run actions on new stacks that match the conditions.',
+  empty: 'No automation rules yet.',
+  addRule: 'Add rule',
+  library: 'Library',
+  name: 'Rule name',
+  namePlaceholder: 'e.g. Tag comic pages',
+  matchMode: 'Match',
+  matchModes: { all: 'All conditions', any: 'Any condition' },
+  conditions: 'Conditions',
+  addCondition: 'Add condition',
+  conditionTypes: {
+    autoTagScore: 'Auto-tag score',
+    filename: 'File name',
+    sourceUrl: 'Source URL',
+    author: 'Author',
+    mediaType: 'Media type',
+    dominantColor: 'Dominant color',
+  },
+  actions: 'Actions',
+  addAction: 'Add action',
+  actionTypes: {
+    addTag: 'Add tag',
+    setAuthor: 'Set author',
+    setMediaType: 'Set media type',
+    addToCollection: 'Add to collection',
+    favorite: 'Favorite',
+  },
+  patternModes: { contains: 'Contains', glob: 'Wildcard (* ?)', regex: 'Regular expression' },
+  authorOperators: { is: 'Is', isNot: 'Is not', isEmpty: 'Is empty' },
+  mediaTypes: { image: 'Image', comic: 'Comic', video: 'Video' },
+  hueCategories: {
+    red: 'Red',
+    orange: 'Orange',
+    yellow: 'Yellow',
+    green: 'Green',
+    cyan: 'Cyan',
+    blue: 'Blue',
+    violet: 'Violet',
+  },
+  tag: 'Tag',
+  pattern: 'Pattern',
+  minScore: 'Minimum score (0–1)',
+  minPercentage: 'Minimum coverage (%)',
+  author: 'Author',
+  authorPlaceholder: 'Author name, {domain} for the source site',
+  collection: 'Collection',
+  preview: 'Preview',
+  previewResult: (total: number, scanned: number) => `${total} of ${scanned} stacks match`,
+  previewAlreadyApplied: (count: number) => `${count} already applied`,
+  create: 'Add',
+  paused: 'Paused',
+  pause: 'Pause',
+  resume: 'Resume',
+  applyNow: 'Apply to existing',
+  remove: 'Remove',
+};
+
+const rule: AutomationRule = {
+  id: 1,
+  dataSetId: 1,
+  name: 'Comic pages',
+  matchMode: 'all',
+  conditions: [{ type: 'filename', pattern: 'ch??_p*.jpg', mode: 'glob' }],
+  actions: [
+    { type: 'setMediaType', mediaType: 'comic' },
+    { type: 'addToCollection', collectionId: 10 },
+  ],
+  sortOrder: 0,
+  enabled: true,
+  createdBy: 1,
+  createdAt: '2026-07-01T00:00:00.000Z',
+  updatedAt: '2026-07-01T00:00:00.000Z',
+};
+
+const meta: Meta<typeof AutomationRulesSection> = {
+  title: 'Settings/AutomationRulesSection',
+  component: AutomationRulesSection,
+  args: {
+    rules: [
+      rule,
+      {
+        ...rule,
+        id: 2,
+        name: 'Sunsets',
+        matchMode: 'any',
+        conditions: [
+          { type: 'dominantColor', hueCategory: 'orange', minPercentage: 30 },
+          { type: 'autoTagScore', tag: 'sunset', minScore: 0.8 },
+        ],
+        actions: [{ type: 'addTag', tag: 'sunset' }, { type: 'favorite' }],
+        enabled: false,
+      },
+    ],
+    datasets: [
+      { id: 1, name: 'Library' },
+      { id: 2, name: 'Comics' },
+    ],
+    collections: [{ id: 10, name: 'Manga' }],
+    copy,
+    onCreate: async () => true,
+    onPreviewDraft: () => {},
+    onPreviewRule: () => {},
+    onApply: () => {},
+    onToggleEnabled: () => {},
+    onDelete: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof AutomationRulesSection>;
+
+export const Default: Story = {};
+
+export const WithPreview: Story = {
+  args: {
+    preview: {
+      ruleId: 1,
+      result: {
+        scanned: 240,
+        total: 3,
+        alreadyApplied: 1,
+        stacks: [
+          { id: 12, name: 'Chapter 1', applied: true },
+          { id: 13, name: 'Chapter 2', applied: false },
+          { id: 14, name: 'Chapter 3', applied: false },
+        ],
+      },
+    },
+  },
+};
+
+export const Empty: Story = {
+  args: {
+    rules: [],
+  },
+};
@@ -0,0 +1,767 @@
+import { Eye, Pause, Play, Plus, Trash2, Workflow, X, Zap } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationHueCategory,
+  AutomationPatternMode,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRulePreview,
+  MediaCategory,
+} from '@/types';
+
+type ConditionType = AutomationCondition['type'];
+type ActionType = AutomationAction['type'];
+type AuthorOperator = Extract<AutomationCondition, { type: 'author' }>['operator'];
+type PreviewInput = Pick<AutomationRuleInput, 'dataSetId' | 'matchMode' | 'conditions'>;
+
+export interface AutomationRulesCopy {
+  title: string;
+  description: string;
+  empty: string;
+  addRule: string;
+  library: string;
+  name: string;
+  namePlaceholder: string;
+  matchMode: string;
+  matchModes: Record<AutomationRule['matchMode'], string>;
+  conditions: string;
+  addCondition: string;
+  conditionTypes: Record<ConditionType, string>;
+  actions: string;
+  addAction: string;
+  actionTypes: Record<ActionType, string>;
+  patternModes: Record<AutomationPatternMode, string>;
+  authorOperators: Record<AuthorOperator, string>;
+  mediaTypes: Record<MediaCategory, string>;
+  hueCategories: Record<AutomationHueCategory, string>;
+  tag: string;
+  pattern: string;
+  minScore: string;
+  minPercentage: string;
+  author: string;
+  authorPlaceholder: string;
+  collection: string;
+  preview: string;
+  previewResult: (total: number, scanned: number) => string;
+  previewAlreadyApplied: (count: number) => string;
+  create: string;
+  paused: string;
+  pause: string;
+  resume: string;
+  applyNow: string;
+  remove: string;
+}
+
+export interface AutomationRulesSectionProps {
+  rules: AutomationRule[];
+  datasets: Array<{ id: number; name: string }>;
+  /** フォームで選択中のライブラリの手動コレクション */
+  collections: Array<{ id: number; name: string }>;
+  copy: AutomationRulesCopy;
+  loading?: boolean;
+  creating?: boolean;
+  busyRuleId?: number | null;
+  /** ruleId が null のときはフォームの内容で試した結果 */
+  preview?: { ruleId: number | null; result: AutomationRulePreview } | null;
+  onDatasetChange?: (dataSetId: number) => void;
+  onCreate: (input: AutomationRuleInput) => Promise<boolean>;
+  onPreviewDraft: (input: PreviewInput) => void;
+  onPreviewRule: (rule: AutomationRule) => void;
+  onApply: (rule: AutomationRule) => void;
+  onToggleEnabled: (rule: AutomationRule) => void;
+  onDelete: (rule: AutomationRule) => void;
+}
+
+const CONDITION_TYPES: ConditionType[] = [
+  'autoTagScore',
+  'filename',
+  'sourceUrl',
+  'author',
+  'mediaType',
+  'dominantColor',
+];
+const ACTION_TYPES: ActionType[] = [
+  'addTag',
+  'setAuthor',
+  'setMediaType',
+  'addToCollection',
+  'favorite',
+];
+const PATTERN_MODES: AutomationPatternMode[] = ['contains', 'glob', 'regex'];
+const AUTHOR_OPERATORS: AuthorOperator[] = ['is', 'isNot', 'isEmpty'];
+const MEDIA_TYPES: MediaCategory[] = ['image', 'comic', 'video'];
+const HUE_CATEGORIES: AutomationHueCategory[] = [
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'cyan',
+  'blue',
+  'violet',
+];
+
+const createCondition = (type: ConditionType): AutomationCondition => {
+  switch (type) {
+    case 'autoTagScore':
+      return { type, tag: '', minScore: 0.8 };
+    case 'filename':
+    case 'sourceUrl':
+      return { type, pattern: '', mode: 'contains' };
+    case 'author':
+      return { type, operator: 'isEmpty' };
+    case 'mediaType':
+      return { type, mediaType: 'image' };
+    case 'dominantColor':
+      return { type, hueCategory: 'red', minPercentage: 20 };
+  }
+};
+
+const createAction = (type: ActionType, collectionId?: number): AutomationAction => {
+  switch (type) {
+    case 'addTag':
+      return { type, tag: '' };
+    case 'setAuthor':
+      return { type, author: '' };
+    case 'setMediaType':
+      return { type, mediaType: 'comic' };
+    case 'addToCollection':
+      return { type, collectionId: collectionId ?? 0 };
+    case 'favorite':
+      return { type };
+  }
+};
+
+const isConditionComplete = (condition: AutomationCondition) => {
+  switch (condition.type) {
+    case 'autoTagScore':
+      return condition.tag.trim() !== '';
+    case 'filename':
+    case 'sourceUrl':
+      return condition.pattern.trim() !== '';
+    case 'author':
+      return condition.operator === 'isEmpty' || Boolean(condition.value?.trim());
+    default:
+      return true;
+  }
+};
+
+const isActionComplete = (action: AutomationAction) => {
+  switch (action.type) {
+    case 'addTag':
+      return action.tag.trim() !== '';
+    case 'setAuthor':
+      return action.author.trim() !== '';
+    case 'addToCollection':
+      return action.collectionId > 0;
+    default:
+      return true;
+  }
+};
+
+// 行の並べ替えや削除で入力中の値がずれないよう、各行に key を持たせる
+let lastRowKey = 0;
+const withKey = <T,>(value: T) => ({ key: ++lastRowKey, value });
+
+interface Draft {
+  dataSetId: number | null;
+  name: string;
+  matchMode: AutomationRule['matchMode'];
+  conditions: Array<{ key: number; value: AutomationCondition }>;
+  actions: Array<{ key: number; value: AutomationAction }>;
+}
+
+const createDraft = (dataSetId: number | null): Draft => ({
+  dataSetId,
+  name: '',
+  matchMode: 'all',
+  conditions: [withKey(createCondition('filename'))],
+  actions: [withKey(createAction('addTag'))],
+});
+
+function OptionSelect<T extends string>({
+  value,
+  options,
+  labels,
+  onChange,
+  className = 'w-40',
+}: {
+  value: T;
+  options: T[];
+  labels: Record<T, string>;
+  onChange: (value: T) => void;
+  className?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as T)}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {labels[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function PreviewBox({
+  preview,
+  copy,
+}: {
+  preview: AutomationRulePreview;
+  copy: AutomationRulesCopy;
+}) {
+  return (
+    <div className="mt-3 rounded-md bg-gray-50 px-3 py-2 text-xs text-gray-600">
+      <div className="font-medium text-gray-800">
+        {copy.previewResult(preview.total, preview.scanned)}
+        {preview.alreadyApplied > 0
+          ? ` · ${copy.previewAlreadyApplied(preview.alreadyApplied)}`
+          : ''}
+      </div>
+      {preview.stacks.length > 0 ? (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {preview.stacks.map((stack) => (
+            <span
+              key={stack.id}
+              className={
+                stack.applied
+                  ? 'rounded-full border px-2 py-0.5 text-gray-400'
+                  : 'rounded-full border bg-white px-2 py-0.5'
+              }
+            >
+              {stack.name}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export function AutomationRulesSection({
+  rules,
+  datasets,
+  collections,
+  copy,
+  loading = false,
+  creating = false,
+  busyRuleId = null,
+  preview = null,
+  onDatasetChange,
+  onCreate,
+  onPreviewDraft,
+  onPreviewRule,
+  onApply,
+  onToggleEnabled,
+  onDelete,
+}: AutomationRulesSectionProps) {
+  const [draft, setDraft] = useState<Draft>(() => createDraft(datasets[0]?.id ?? null));
+  const dataSetId = draft.dataSetId ?? datasets[0]?.id ?? null;
+  const datasetNames = Object.fromEntries(datasets.map((dataset) => [dataset.id, dataset.name]));
+  const collectionNames = Object.fromEntries(
+    collections.map((collection) => [collection.id, collection.name])
+  );
+  const conditions = draft.conditions.map((row) => row.value);
+  const actions = draft.actions.map((row) => row.value);
+  const conditionsComplete = conditions.length > 0 && conditions.every(isConditionComplete);
+  const complete =
+    Boolean(dataSetId) &&
+    draft.name.trim() !== '' &&
+    conditionsComplete &&
+    actions.length > 0 &&
+    actions.every(isActionComplete);
+
+  const update = (patch: Partial<Draft>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const updateCondition = (key: number, condition: AutomationCondition) =>
+    update({
+      conditions: draft.conditions.map((row) =>
+        row.key === key ? { key, value: condition } : row
+      ),
+    });
+
+  const updateAction = (key: number, action: AutomationAction) =>
+    update({
+      actions: draft.actions.map((row) => (row.key === key ? { key, value: action } : row)),
+    });
+
+  const handleDatasetChange = (value: string) => {
+    // コレクションはライブラリごとなので、追加先の指定は選び直してもらう
+    update({
+      dataSetId: Number(value),
+      actions: draft.actions.filter((row) => row.value.type !== 'addToCollection'),
+    });
+    onDatasetChange?.(Number(value));
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!dataSetId || !complete) return;
+    const created = await onCreate({
+      dataSetId,
+      name: draft.name.trim(),
+      matchMode: draft.matchMode,
+      conditions,
+      actions,
+      sortOrder: rules.filter((rule) => rule.dataSetId === dataSetId).length,
+      enabled: true,
+    });
+    if (created) setDraft(createDraft(dataSetId));
+  };
+
+  const describeCondition = (condition: AutomationCondition) => {
+    const label = copy.conditionTypes[condition.type];
+    switch (condition.type) {
+      case 'autoTagScore':
+        return `${label}: ${condition.tag} ≥ ${condition.minScore}`;
+      case 'filename':
+      case 'sourceUrl':
+        return `${label}: ${condition.pattern}`;
+      case 'author':
+        return `${label}: ${copy.authorOperators[condition.operator]} ${condition.value ?? ''}`.trim();
+      case 'mediaType':
+        return `${label}: ${copy.mediaTypes[condition.mediaType]}`;
+      case 'dominantColor':
+        return `${label}: ${copy.hueCategories[condition.hueCategory]} ≥ ${condition.minPercentage}%`;
+    }
+  };
+
+  const describeAction = (action: AutomationAction) => {
+    const label = copy.actionTypes[action.type];
+    switch (action.type) {
+      case 'addTag':
+        return `${label}: ${action.tag}`;
+      case 'setAuthor':
+        return `${label}: ${action.author}`;
+      case 'setMediaType':
+        return `${label}: ${copy.mediaTypes[action.mediaType]}`;
+      case 'addToCollection':
+        return `${label}: ${collectionNames[action.collectionId] ?? `#${action.collectionId}`}`;
+      case 'favorite':
+        return label;
+    }
+  };
+
+  const renderConditionFields = (condition: AutomationCondition, key: number) => {
+    switch (condition.type) {
+      case 'autoTagScore':
+        return (
+          <>
+            <Input
+              value={condition.tag}
+              placeholder={copy.tag}
+              aria-label={copy.tag}
+              onChange={(event) => updateCondition(key, { ...condition, tag: event.target.value })}
+              className="min-w-0 flex-1"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={condition.minScore}
+              aria-label={copy.minScore}
+              title={copy.minScore}
+              onChange={(event) =>
+                updateCondition(key, { ...condition, minScore: Number(event.target.value) || 0 })
+              }
+              className="w-24"
+            />
+          </>
+        );
+      case 'filename':
+      case 'sourceUrl':
+        return (
+          <>
+            <OptionSelect
+              value={condition.mode}
+              options={PATTERN_MODES}
+              labels={copy.patternModes}
+              onChange={(mode) => updateCondition(key, { ...condition, mode })}
+              className="w-36"
+            />
+            <Input
+              value={condition.pattern}
+              placeholder={copy.pattern}
+              aria-label={copy.pattern}
+              onChange={(event) =>
+                updateCondition(key, { ...condition, pattern: event.target.value })
+              }
+              className="min-w-0 flex-1 font-mono"
+            />
+          </>
+        );
+      case 'author':
+        return (
+          <>
+            <OptionSelect
+              value={condition.operator}
+              options={AUTHOR_OPERATORS}
+              labels={copy.authorOperators}
+              onChange={(operator) => updateCondition(key, { ...condition, operator })}
+              className="w-36"
+            />
+            {condition.operator !== 'isEmpty' ? (
+              <Input
+                value={condition.value ?? ''}
+                placeholder={copy.author}
+                aria-label={copy.author}
+                onChange={(event) =>
+                  updateCondition(key, { ...condition, value: event.target.value })
+                }
+                className="min-w-0 flex-1"
+              />
+            ) : null}
+          </>
+        );
+      case 'mediaType':
+        return (
+          <OptionSelect
+            value={condition.mediaType}
+            options={MEDIA_TYPES}
+            labels={copy.mediaTypes}
+            onChange={(mediaType) => updateCondition(key, { ...condition, mediaType })}
+          />
+        );
+      case 'dominantColor':
+        return (
+          <>
+            <OptionSelect
+              value={condition.hueCategory}
+              options={HUE_CATEGORIES}
+              labels={copy.hueCategories}
+              onChange={(hueCategory) => updateCondition(key, { ...condition, hueCategory })}
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={condition.minPercentage}
+              aria-label={copy.minPercentage}
+              title={copy.minPercentage}
+              onChange={(event) =>
+                updateCondition(key, {
+                  ...condition,
+                  minPercentage: Number(event.target.value) || 0,
+                })
+              }
+              className="w-24"
+            />
+          </>
+        );
+    }
+  };
+
+  const renderActionFields = (action: AutomationAction, key: number) => {
+    switch (action.type) {
+      case 'addTag':
+        return (
+          <Input
+            value={action.tag}
+            placeholder={copy.tag}
+            aria-label={copy.tag}
+            onChange={(event) => updateAction(key, { ...action, tag: event.target.value })}
+            className="min-w-0 flex-1"
+          />
+        );
+      case 'setAuthor':
+        return (
+          <Input
+            value={action.author}
+            placeholder={copy.authorPlaceholder}
+            aria-label={copy.author}
+            onChange={(event) => updateAction(key, { ...action, author: event.target.value })}
+            className="min-w-0 flex-1"
+          />
+        );
+      case 'setMediaType':
+        return (
+          <OptionSelect
+            value={action.mediaType}
+            options={MEDIA_TYPES}
+            labels={copy.mediaTypes}
+            onChange={(mediaType) => updateAction(key, { ...action, mediaType })}
+          />
+        );
+      case 'addToCollection':
+        return (
+          <Select
+            value={action.collectionId ? String(action.collectionId) : undefined}
+            onValueChange={(value) => updateAction(key, { ...action, collectionId: Number(value) })}
+          >
+            <SelectTrigger className="min-w-0 flex-1" aria-label={copy.collection}>
+              <SelectValue placeholder={copy.collection} />
+            </SelectTrigger>
+            <SelectContent>
+              {collections.map((collection) => (
+                <SelectItem key={collection.id} value={String(collection.id)}>
+                  {collection.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'favorite':
+        return null;
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-100 px-6 py-5">
+        <div className="flex min-w-0 items-center gap-3">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-amber-100 text-amber-700">
+            <Workflow size={20} />
+          </div>
+          <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+        </div>
+        {copy.description ? <p className="mt-3 text-sm text-gray-500">{copy.description}</p> : null}
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="px-6 py-5 text-sm text-gray-500">{loading ? '…' : copy.empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {rules.map((rule) => {
+            const busy = busyRuleId === rule.id;
+            return (
+              <li key={rule.id} className="px-6 py-4">
+                <div className="flex min-w-0 items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-medium text-gray-900">{rule.name}</div>
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+                      <span>{datasetNames[rule.dataSetId] ?? rule.dataSetId}</span>
+                      <span>{copy.matchModes[rule.matchMode]}</span>
+                      <span>{rule.conditions.map(describeCondition).join(' · ')}</span>
+                      <span>→ {rule.actions.map(describeAction).join(', ')}</span>
+                    </div>
+                  </div>
+                  {!rule.enabled ? (
+                    <span className="shrink-0 rounded-full bg-gray-100 px-3 py-1 text-xs font-semibold text-gray-600">
+                      {copy.paused}
+                    </span>
+                  ) : null}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onPreviewRule(rule)}
+                    disabled={busy}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <Eye className="mr-1.5 h-3.5 w-3.5" />
+                    {copy.preview}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onApply(rule)}
+                    disabled={busy}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <Zap className="mr-1.5 h-3.5 w-3.5" />
+                    {copy.applyNow}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onToggleEnabled(rule)}
+                    disabled={busy}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {rule.enabled ? (
+                      <Pause className="mr-1.5 h-3.5 w-3.5" />
+                    ) : (
+                      <Play className="mr-1.5 h-3.5 w-3.5" />
+                    )}
+                    {rule.enabled ? copy.pause : copy.resume}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onDelete(rule)}
+                    disabled={busy}
+                    className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                    aria-label={copy.remove}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                {preview?.ruleId === rule.id ? (
+                  <PreviewBox preview={preview.result} copy={copy} />
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid gap-4 border-t border-gray-100 px-6 py-5">
+        <div className="text-sm font-semibold text-gray-900">{copy.addRule}</div>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="grid gap-2">
+            <Label>{copy.library}</Label>
+            <Select
+              value={dataSetId ? String(dataSetId) : undefined}
+              onValueChange={handleDatasetChange}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {datasets.map((dataset) => (
+                  <SelectItem key={dataset.id} value={String(dataset.id)}>
+                    {dataset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="automation-rule-name">{copy.name}</Label>
+            <Input
+              id="automation-rule-name"
+              value={draft.name}
+              onChange={(event) => update({ name: event.target.value })}
+              placeholder={copy.namePlaceholder}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>{copy.matchMode}</Label>
+            <OptionSelect
+              value={draft.matchMode}
+              options={['all', 'any']}
+              labels={copy.matchModes}
+              onChange={(matchMode) => update({ matchMode })}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-2">
+          <Label>{copy.conditions}</Label>
+          {draft.conditions.map(({ key, value: condition }) => (
+            <div key={key} className="flex flex-wrap items-center gap-2">
+              <OptionSelect
+                value={condition.type}
+                options={CONDITION_TYPES}
+                labels={copy.conditionTypes}
+                onChange={(type) => updateCondition(key, createCondition(type))}
+                className="w-44"
+              />
+              {renderConditionFields(condition, key)}
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                aria-label={copy.remove}
+                onClick={() =>
+                  update({ conditions: draft.conditions.filter((row) => row.key !== key) })
+                }
+                className="h-8 w-8 p-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                update({
+                  conditions: [...draft.conditions, withKey(createCondition('autoTagScore'))],
+                })
+              }
+              className="h-7 px-2 text-xs"
+            >
+              <Plus className="mr-1.5 h-3.5 w-3.5" />
+              {copy.addCondition}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-2">
+          <Label>{copy.actions}</Label>
+          {draft.actions.map(({ key, value: action }) => (
+            <div key={key} className="flex flex-wrap items-center gap-2">
+              <OptionSelect
+                value={action.type}
+                options={ACTION_TYPES}
+                labels={copy.actionTypes}
+                onChange={(type) => updateAction(key, createAction(type, collections[0]?.id))}
+                className="w-44"
+              />
+              {renderActionFields(action, key)}
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                aria-label={copy.remove}
+                onClick={() => update({ actions: draft.actions.filter((row) => row.key !== key) })}
+                className="h-8 w-8 p-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                update({ actions: [...draft.actions, withKey(createAction('addTag'))] })
+              }
+              className="h-7 px-2 text-xs"
+            >
+              <Plus className="mr-1.5 h-3.5 w-3.5" />
+              {copy.addAction}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!dataSetId || !conditionsComplete}
+            onClick={() =>
+              dataSetId && onPreviewDraft({ dataSetId, matchMode: draft.matchMode, conditions })
+            }
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            {copy.preview}
+          </Button>
+          <Button type="submit" disabled={creating || !complete}>
+            <Plus className="mr-2 h-4 w-4" />
+            {copy.create}
+          </Button>
+        </div>
+        {preview && preview.ruleId === null ? (
+          <PreviewBox preview={preview.result} copy={copy} />
+        ) : null}
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,109 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import type { Job } from '@/types';
+import { BackgroundJobsSection } from './BackgroundJobsSection';
+
+const copy = {
+  title: 'Background Jobs',
+  description: 'Long-running maintenance tasks continue in the background.',
+  empty: 'No jobs yet.',
+  statuses: {
+    queued: 'Queued',
+    running: 'Running',
+    succeeded: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+  },
+  types: {
+    'dataset.refresh-all': 'Full refresh',
+    'stacks.refresh-thumbnails': 'Refresh thumbnails',
+    'stacks.refresh-autotags': 'Refresh AutoTags',
+    'stacks.import-urls': 'Import from URLs',
+    'dataset.compute-phashes': 'Scan for near duplicates',
+  },
+  progress: (done: number, total: number) => `${done} / ${total}`,
+  failedItems: (count: number) => `${count} failed`,
+  cancel: 'Cancel',
+  retry: 'Run again',
+  retryFailed: 'Retry failed items',
+  failureLog: 'Failure log',
+  noFailures: 'No failures.',
+};
+
+const baseJob: Job = {
+  id: 1,
+  type: 'dataset.refresh-all',
+  dataSetId: 1,
+  status: 'running',
+  payload: { dataSetId: 1 },
+  result: null,
+  error: null,
+  progress: { total: 240, done: 96, failed: 0 },
+  attempts: 1,
+  cancelRequested: false,
+  retryOfJobId: null,
+  createdAt: '2026-06-20T00:00:00.000Z',
+  startedAt: '2026-06-20T00:00:01.000Z',
+  finishedAt: null,
+  updatedAt: '2026-06-20T00:01:00.000Z',
+};
+
+const meta: Meta<typeof BackgroundJobsSection> = {
+  title: 'Settings/BackgroundJobsSection',
+  component: BackgroundJobsSection,
+  args: {
+    jobs: [
+      baseJob,
+      {
+        ...baseJob,
+        id: 2,
+        type: 'stacks.import-urls',
+        status: 'succeeded',
+        progress: { total: 5, done: 5, failed: 2 },
+        finishedAt: '2026-06-19T12:00:00.000Z',
+      },
+      {
+        ...baseJob,
+        id: 3,
+        type: 'stacks.refresh-thumbnails',
+        status: 'queued',
+        progress: { total: 0, done: 0, failed: 0 },
+      },
+    ],
+    copy,
+    datasetNames: { 1: 'Library' },
+    onToggleJob: () => {},
+    onCancel: () => {},
+    onRetry: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof BackgroundJobsSection>;
+
+export const Default: Story = {};
+
+export const WithFailureLog: Story = {
+  args: {
+    expandedJobId: 2,
+    failures: [
+      {
+        id: 1,
+        jobId: 2,
+        itemKey: 'https://example.com/a.png',
+        message: 'Failed to fetch URL (404)',
+        createdAt: '2026-06-19T12:00:00.000Z',
+      },
+      {
+        id: 2,
+        jobId: 2,
+        itemKey: 'https://example.com/b.png',
+        message: 'Unsupported file type',
+        createdAt: '2026-06-19T12:00:00.000Z',
+      },
+    ],
+  },
+};
+
+export const Empty: Story = {
+  args: { jobs: [] },
+};
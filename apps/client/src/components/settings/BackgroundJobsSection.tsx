@@ -0,0 +1,193 @@
+import { ChevronDown, ChevronRight, ListTodo, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { Job, JobFailure, JobStatus } from '@/types';
+
+export interface BackgroundJobsCopy {
+  title: string;
+  description: string;
+  empty: string;
+  statuses: Record<JobStatus, string>;
+  types: Record<string, string>;
+  progress: (done: number, total: number) => string;
+  failedItems: (count: number) => string;
+  cancel: string;
+  retry: string;
+  retryFailed: string;
+  failureLog: string;
+  noFailures: string;
+}
+
+export interface BackgroundJobsSectionProps {
+  jobs: Job[];
+  copy: BackgroundJobsCopy;
+  loading?: boolean;
+  expandedJobId?: number | null;
+  failures?: JobFailure[];
+  datasetNames?: Record<number, string>;
+  onToggleJob: (id: number) => void;
+  onCancel: (id: number) => void;
+  onRetry: (id: number, failedOnly: boolean) => void;
+}
+
+const STATUS_CLASS_NAMES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  running: 'bg-sky-50 text-sky-700',
+  succeeded: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-700',
+  cancelled: 'bg-amber-50 text-amber-700',
+};
+
+export function BackgroundJobsSection({
+  jobs,
+  copy,
+  loading = false,
+  expandedJobId = null,
+  failures = [],
+  datasetNames = {},
+  onToggleJob,
+  onCancel,
+  onRetry,
+}: BackgroundJobsSectionProps) {
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-100 px-6 py-5">
+        <div className="flex min-w-0 items-center gap-3">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-sky-100 text-sky-700">
+            <ListTodo size={20} />
+          </div>
+          <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+        </div>
+        {copy.description ? <p className="mt-3 text-sm text-gray-500">{copy.description}</p> : null}
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="px-6 py-5 text-sm text-gray-500">{loading ? '…' : copy.empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {jobs.map((job) => {
+            const active = job.status === 'queued' || job.status === 'running';
+            const expanded = expandedJobId === job.id;
+            const percent =
+              job.progress.total > 0
+                ? Math.min(100, Math.round((job.progress.done / job.progress.total) * 100))
+                : 0;
+            const datasetName = job.dataSetId ? datasetNames[job.dataSetId] : undefined;
+
+            return (
+              <li key={job.id} className="px-6 py-4">
+                <div className="flex min-w-0 items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => onToggleJob(job.id)}
+                    className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                    aria-expanded={expanded}
+                  >
+                    {expanded ? (
+                      <ChevronDown className="h-4 w-4 shrink-0 text-gray-400" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 shrink-0 text-gray-400" />
+                    )}
+                    <span className="truncate text-sm font-medium text-gray-900">
+                      {copy.types[job.type] ?? job.type}
+                    </span>
+                    {datasetName ? (
+                      <span className="truncate text-xs text-gray-500">{datasetName}</span>
+                    ) : null}
+                  </button>
+                  <span
+                    className={cn(
+                      'shrink-0 rounded-full px-3 py-1 text-xs font-semibold',
+                      STATUS_CLASS_NAMES[job.status]
+                    )}
+                  >
+                    {copy.statuses[job.status]}
+                  </span>
+                  {active ? (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onCancel(job.id)}
+                      disabled={job.cancelRequested}
+                      className="h-7 px-2 text-xs"
+                    >
+                      <X className="mr-1.5 h-3.5 w-3.5" />
+                      {copy.cancel}
+                    </Button>
+                  ) : (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onRetry(job.id, false)}
+                      className="h-7 px-2 text-xs"
+                    >
+                      <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+                      {copy.retry}
+                    </Button>
+                  )}
+                </div>
+
+                <div className="mt-2 flex items-center gap-3 pl-6">
+                  <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-gray-100">
+                    <div
+                      className={cn(
+                        'h-full rounded-full transition-all',
+                        job.status === 'failed' ? 'bg-red-400' : 'bg-sky-500'
+                      )}
+                      style={{ width: `${job.status === 'succeeded' ? 100 : percent}%` }}
+                    />
+                  </div>
+                  <span className="shrink-0 text-xs tabular-nums text-gray-500">
+                    {copy.progress(job.progress.done, job.progress.total)}
+                  </span>
+                  {job.progress.failed > 0 ? (
+                    <span className="shrink-0 text-xs font-medium text-red-600">
+                      {copy.failedItems(job.progress.failed)}
+                    </span>
+                  ) : null}
+                </div>
+
+                {job.error ? <p className="mt-2 pl-6 text-xs text-red-600">{job.error}</p> : null}
+
+                {expanded ? (
+                  <div className="mt-3 pl-6">
+                    <div className="mb-2 flex items-center justify-between gap-2">
+                      <span className="text-xs font-semibold text-gray-700">{copy.failureLog}</span>
+                      {!active && job.progress.failed > 0 ? (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onRetry(job.id, true)}
+                          className="h-7 px-2 text-xs"
+                        >
+                          <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+                          {copy.retryFailed}
+                        </Button>
+                      ) : null}
+                    </div>
+                    {failures.length === 0 ? (
+                      <p className="text-xs text-gray-500">{copy.noFailures}</p>
+                    ) : (
+                      <ul className="max-h-48 space-y-1 overflow-y-auto rounded-md bg-gray-50 p-2">
+                        {failures.map((failure) => (
+                          <li key={failure.id} className="text-xs text-gray-600">
+                            <span className="font-mono text-gray-800">{failure.itemKey}</span>
+                            {': '}
+                            {failure.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
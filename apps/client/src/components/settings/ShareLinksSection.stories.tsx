@@ -0,0 +1,87 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { ShareLinksSection } from './ShareLinksSection';
+
+const copy = {
+  title: 'Share Links',
+  description: 'Read-only links for people without an account. Revoke a link to stop access.',
+  empty: 'No share links yet.',
+  collectionTarget: 'Collection',
+  stackTarget: 'Stack',
+  deletedTarget: 'Deleted',
+  statuses: { active: 'Active', expired: 'Expired', revoked: 'Revoked' },
+  views: (count: number) => `${count} ${count === 1 ? 'view' : 'views'}`,
+  lastViewed: (date: string) => `Last viewed ${date}`,
+  expiresAt: (date: string) => `Expires ${date}`,
+  passwordProtected: 'Password protected',
+  originalsAllowed: 'Originals allowed',
+  copy: 'Copy link',
+  copied: 'Copied',
+  revoke: 'Revoke',
+  remove: 'Remove',
+};
+
+const link = {
+  id: 1,
+  dataSetId: 1,
+  targetType: 'collection' as const,
+  targetId: 10,
+  targetName: 'Client picks',
+  token: 'token',
+  label: 'For the July review',
+  hasPassword: true,
+  allowOriginals: false,
+  expiresAt: '2026-07-08T00:00:00.000Z',
+  revokedAt: null,
+  status: 'active' as const,
+  viewCount: 12,
+  lastViewedAt: '2026-07-02T10:15:00.000Z',
+  createdAt: '2026-07-01T00:00:00.000Z',
+  updatedAt: '2026-07-01T00:00:00.000Z',
+};
+
+const meta: Meta<typeof ShareLinksSection> = {
+  title: 'Settings/ShareLinksSection',
+  component: ShareLinksSection,
+  args: {
+    links: [
+      link,
+      {
+        ...link,
+        id: 2,
+        targetType: 'stack',
+        targetName: 'Cover draft',
+        label: null,
+        hasPassword: false,
+        allowOriginals: true,
+        status: 'expired',
+        viewCount: 1,
+      },
+      {
+        ...link,
+        id: 3,
+        targetName: null,
+        label: null,
+        revokedAt: '2026-07-03T00:00:00.000Z',
+        status: 'revoked',
+        viewCount: 0,
+        lastViewedAt: null,
+      },
+    ],
+    datasets: [{ id: 1, name: 'Library' }],
+    copy,
+    onCopy: () => {},
+    onRevoke: () => {},
+    onDelete: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof ShareLinksSection>;
+
+export const Default: Story = {};
+
+export const Empty: Story = {
+  args: {
+    links: [],
+  },
+};
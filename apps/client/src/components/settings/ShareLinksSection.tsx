@@ -0,0 +1,167 @@
+import { Ban, Copy, Download, KeyRound, Share2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ShareLink, ShareLinkStatus } from '@/types';
+
+export interface ShareLinksCopy {
+  title: string;
+  description: string;
+  empty: string;
+  collectionTarget: string;
+  stackTarget: string;
+  deletedTarget: string;
+  statuses: Record<ShareLinkStatus, string>;
+  views: (count: number) => string;
+  lastViewed: (date: string) => string;
+  expiresAt: (date: string) => string;
+  passwordProtected: string;
+  originalsAllowed: string;
+  copy: string;
+  copied: string;
+  revoke: string;
+  remove: string;
+}
+
+export interface ShareLinksSectionProps {
+  links: ShareLink[];
+  datasets: Array<{ id: number; name: string }>;
+  copy: ShareLinksCopy;
+  loading?: boolean;
+  busyLinkId?: number | null;
+  copiedLinkId?: number | null;
+  onCopy: (link: ShareLink) => void;
+  onRevoke: (link: ShareLink) => void;
+  onDelete: (link: ShareLink) => void;
+}
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-700',
+  expired: 'bg-amber-100 text-amber-700',
+  revoked: 'bg-gray-100 text-gray-600',
+};
+
+export function ShareLinksSection({
+  links,
+  datasets,
+  copy,
+  loading = false,
+  busyLinkId = null,
+  copiedLinkId = null,
+  onCopy,
+  onRevoke,
+  onDelete,
+}: ShareLinksSectionProps) {
+  const datasetNames = Object.fromEntries(datasets.map((dataset) => [dataset.id, dataset.name]));
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-100 px-6 py-5">
+        <div className="flex min-w-0 items-center gap-3">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-sky-100 text-sky-700">
+            <Share2 size={20} />
+          </div>
+          <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+        </div>
+        {copy.description ? <p className="mt-3 text-sm text-gray-500">{copy.description}</p> : null}
+      </div>
+
+      {links.length === 0 ? (
+        <p className="px-6 py-5 text-sm text-gray-500">{loading ? '…' : copy.empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {links.map((link) => {
+            const busy = busyLinkId === link.id;
+            const active = link.status === 'active';
+            const name = link.targetName ?? copy.deletedTarget;
+            return (
+              <li key={link.id} className="px-6 py-4">
+                <div className="flex min-w-0 items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-medium text-gray-900" title={name}>
+                      {name}
+                      {link.label ? (
+                        <span className="ml-2 font-normal text-gray-500">{link.label}</span>
+                      ) : null}
+                    </div>
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+                      <span>{datasetNames[link.dataSetId] ?? link.dataSetId}</span>
+                      <span>
+                        {link.targetType === 'collection'
+                          ? copy.collectionTarget
+                          : copy.stackTarget}
+                      </span>
+                      <span>{copy.views(link.viewCount)}</span>
+                      {link.lastViewedAt ? (
+                        <span>{copy.lastViewed(new Date(link.lastViewedAt).toLocaleString())}</span>
+                      ) : null}
+                      {link.expiresAt && link.status !== 'revoked' ? (
+                        <span>{copy.expiresAt(new Date(link.expiresAt).toLocaleString())}</span>
+                      ) : null}
+                      {link.hasPassword ? (
+                        <span className="inline-flex items-center gap-1">
+                          <KeyRound className="h-3 w-3" />
+                          {copy.passwordProtected}
+                        </span>
+                      ) : null}
+                      {link.allowOriginals ? (
+                        <span className="inline-flex items-center gap-1">
+                          <Download className="h-3 w-3" />
+                          {copy.originalsAllowed}
+                        </span>
+                      ) : null}
+                    </div>
+                  </div>
+                  <span
+                    className={cn(
+                      'shrink-0 rounded-full px-3 py-1 text-xs font-semibold',
+                      STATUS_STYLES[link.status]
+                    )}
+                  >
+                    {copy.statuses[link.status]}
+                  </span>
+                  {active ? (
+                    <>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onCopy(link)}
+                        disabled={busy}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <Copy className="mr-1.5 h-3.5 w-3.5" />
+                        {copiedLinkId === link.id ? copy.copied : copy.copy}
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onRevoke(link)}
+                        disabled={busy}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <Ban className="mr-1.5 h-3.5 w-3.5" />
+                        {copy.revoke}
+                      </Button>
+                    </>
+                  ) : null}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onDelete(link)}
+                    disabled={busy}
+                    className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                    aria-label={copy.remove}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,59 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { UsersSection } from './UsersSection';
+
+const user = {
+  id: 1,
+  name: 'owner',
+  email: 'owner@example.com',
+  role: 'super' as const,
+  hasPassword: true,
+  disabled: false,
+  lastLoginAt: '2026-07-01T09:30:00.000Z',
+  createdAt: '2026-06-20T00:00:00.000Z',
+  updatedAt: '2026-06-20T00:00:00.000Z',
+};
+
+const meta: Meta<typeof UsersSection> = {
+  title: 'Settings/UsersSection',
+  component: UsersSection,
+  args: {
+    users: [
+      user,
+      { ...user, id: 2, name: 'alice', email: null, role: 'user', lastLoginAt: null },
+      { ...user, id: 3, name: 'guest', email: null, role: 'viewer', disabled: true },
+    ],
+    currentUserId: 1,
+    copy: {
+      title: 'Users',
+      description: 'Favorites, likes and pins are kept separately for each user.',
+      addUser: 'Add user',
+      userName: 'User name',
+      email: 'Email (optional)',
+      role: 'Role',
+      roles: { super: 'Administrator', user: 'Member', viewer: 'Viewer' },
+      password: 'Password',
+      passwordHint: 'At least 8 characters',
+      create: 'Add',
+      you: 'you',
+      disabled: 'Disabled',
+      disable: 'Disable',
+      enable: 'Enable',
+      resetPassword: 'Reset password',
+      newPassword: 'New password',
+      save: 'Save',
+      cancel: 'Cancel',
+      remove: 'Delete',
+      lastLogin: (date: string) => `Last sign-in ${date}`,
+    },
+    onCreate: async () => true,
+    onRoleChange: () => {},
+    onToggleDisabled: () => {},
+    onResetPassword: async () => true,
+    onDelete: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof UsersSection>;
+
+export const Default: Story = {};
@@ -0,0 +1,284 @@
+import { KeyRound, Plus, Trash2, UserCheck, UserCog, UserX } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { User, UserInput, UserRole } from '@/types';
+
+const MIN_PASSWORD_LENGTH = 8;
+const ROLES: UserRole[] = ['super', 'user', 'viewer'];
+
+export interface UsersCopy {
+  title: string;
+  description: string;
+  addUser: string;
+  userName: string;
+  email: string;
+  role: string;
+  roles: Record<UserRole, string>;
+  password: string;
+  passwordHint: string;
+  create: string;
+  you: string;
+  disabled: string;
+  disable: string;
+  enable: string;
+  resetPassword: string;
+  newPassword: string;
+  save: string;
+  cancel: string;
+  remove: string;
+  lastLogin: (date: string) => string;
+}
+
+export interface UsersSectionProps {
+  users: User[];
+  currentUserId: number | null;
+  copy: UsersCopy;
+  creating?: boolean;
+  busyUserId?: number | null;
+  onCreate: (input: UserInput) => Promise<boolean>;
+  onRoleChange: (user: User, role: UserRole) => void;
+  onToggleDisabled: (user: User) => void;
+  onResetPassword: (user: User, password: string) => Promise<boolean>;
+  onDelete: (user: User) => void;
+}
+
+const createDraft = (): UserInput => ({ name: '', email: null, role: 'user', password: '' });
+
+export function UsersSection({
+  users,
+  currentUserId,
+  copy,
+  creating = false,
+  busyUserId = null,
+  onCreate,
+  onRoleChange,
+  onToggleDisabled,
+  onResetPassword,
+  onDelete,
+}: UsersSectionProps) {
+  const [draft, setDraft] = useState<UserInput>(createDraft);
+  const [resettingUserId, setResettingUserId] = useState<number | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+
+  const update = (patch: Partial<UserInput>) => setDraft((current) => ({ ...current, ...patch }));
+  const draftValid = Boolean(draft.name.trim()) && draft.password.length >= MIN_PASSWORD_LENGTH;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!draftValid) return;
+    const created = await onCreate({
+      ...draft,
+      name: draft.name.trim(),
+      email: draft.email?.trim() || null,
+    });
+    if (created) setDraft(createDraft());
+  };
+
+  const handleResetPassword = async (event: FormEvent, user: User) => {
+    event.preventDefault();
+    if (resetPassword.length < MIN_PASSWORD_LENGTH) return;
+    if (await onResetPassword(user, resetPassword)) {
+      setResettingUserId(null);
+      setResetPassword('');
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-100 px-6 py-5">
+        <div className="flex min-w-0 items-center gap-3">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-amber-100 text-amber-700">
+            <UserCog size={20} />
+          </div>
+          <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+        </div>
+        {copy.description ? <p className="mt-3 text-sm text-gray-500">{copy.description}</p> : null}
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {users.map((user) => {
+          const busy = busyUserId === user.id;
+          const isSelf = user.id === currentUserId;
+          return (
+            <li key={user.id} className="px-6 py-4">
+              <div className="flex min-w-0 items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 truncate text-sm font-medium text-gray-900">
+                    {user.name}
+                    {isSelf ? <span className="text-xs text-gray-500">({copy.you})</span> : null}
+                  </div>
+                  <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+                    {user.email ? <span>{user.email}</span> : null}
+                    {user.lastLoginAt ? (
+                      <span>{copy.lastLogin(new Date(user.lastLoginAt).toLocaleString())}</span>
+                    ) : null}
+                  </div>
+                </div>
+                {user.disabled ? (
+                  <span className="shrink-0 rounded-full bg-gray-100 px-3 py-1 text-xs font-semibold text-gray-600">
+                    {copy.disabled}
+                  </span>
+                ) : null}
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => onRoleChange(user, value as UserRole)}
+                  disabled={busy || isSelf}
+                >
+                  <SelectTrigger className="h-7 w-32 text-xs" aria-label={copy.role}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {copy.roles[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setResettingUserId(resettingUserId === user.id ? null : user.id);
+                    setResetPassword('');
+                  }}
+                  disabled={busy}
+                  className="h-7 px-2 text-xs"
+                >
+                  <KeyRound className="mr-1.5 h-3.5 w-3.5" />
+                  {copy.resetPassword}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onToggleDisabled(user)}
+                  disabled={busy || isSelf}
+                  className="h-7 px-2 text-xs"
+                >
+                  {user.disabled ? (
+                    <UserCheck className="mr-1.5 h-3.5 w-3.5" />
+                  ) : (
+                    <UserX className="mr-1.5 h-3.5 w-3.5" />
+                  )}
+                  {user.disabled ? copy.enable : copy.disable}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onDelete(user)}
+                  disabled={busy || isSelf}
+                  className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                  aria-label={copy.remove}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              {resettingUserId === user.id ? (
+                <form
+                  onSubmit={(event) => handleResetPassword(event, user)}
+                  className="mt-3 flex items-center gap-2"
+                >
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    value={resetPassword}
+                    onChange={(event) => setResetPassword(event.target.value)}
+                    placeholder={copy.newPassword}
+                    className="h-8 max-w-xs"
+                  />
+                  <Button
+                    type="submit"
+                    size="sm"
+                    disabled={busy || resetPassword.length < MIN_PASSWORD_LENGTH}
+                  >
+                    {copy.save}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setResettingUserId(null)}
+                  >
+                    {copy.cancel}
+                  </Button>
+                </form>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="grid gap-4 border-t border-gray-100 px-6 py-5">
+        <div className="text-sm font-semibold text-gray-900">{copy.addUser}</div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="user-name">{copy.userName}</Label>
+            <Input
+              id="user-name"
+              autoComplete="off"
+              value={draft.name}
+              onChange={(event) => update({ name: event.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="user-email">{copy.email}</Label>
+            <Input
+              id="user-email"
+              type="email"
+              autoComplete="off"
+              value={draft.email ?? ''}
+              onChange={(event) => update({ email: event.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>{copy.role}</Label>
+            <Select
+              value={draft.role}
+              onValueChange={(value) => update({ role: value as UserRole })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {copy.roles[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="user-password">{copy.password}</Label>
+            <Input
+              id="user-password"
+              type="password"
+              autoComplete="new-password"
+              value={draft.password}
+              onChange={(event) => update({ password: event.target.value })}
+            />
+            <p className="text-xs text-gray-500">{copy.passwordHint}</p>
+          </div>
+        </div>
+        <div>
+          <Button type="submit" disabled={creating || !draftValid}>
+            <Plus className="mr-2 h-4 w-4" />
+            {copy.create}
+          </Button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,97 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { WatchedFoldersSection } from './WatchedFoldersSection';
+
+const copy = {
+  title: 'Watched Folders',
+  description: 'New files in these server folders are imported automatically.',
+  empty: 'No watched folders yet.',
+  addFolder: 'Add watched folder',
+  library: 'Library',
+  path: 'Folder path on the server',
+  pathPlaceholder: '/srv/inbox',
+  groupingMode: 'Subfolders',
+  groupingModes: {
+    'single-stack': 'Merge each subfolder into one stack',
+    'create-collection': 'Create a collection per subfolder',
+    'flat-upload': 'Import every file as its own stack',
+  },
+  mediaType: 'Media type',
+  mediaTypeAuto: 'Detect automatically',
+  mediaTypes: { image: 'Image', comic: 'Comic', video: 'Video' },
+  tags: 'Tags',
+  tagsPlaceholder: 'Comma separated',
+  author: 'Author',
+  collection: 'Add to collection',
+  noCollection: 'None',
+  afterImport: 'After import',
+  afterImportModes: { move: 'Move to processed folder', keep: 'Keep in place' },
+  processedPath: 'Processed folder',
+  processedPathPlaceholder: '_imported inside the watched folder',
+  settleSeconds: 'Wait after last write (seconds)',
+  create: 'Add',
+  paused: 'Paused',
+  pause: 'Pause',
+  resume: 'Resume',
+  scanNow: 'Scan now',
+  remove: 'Remove',
+  lastScan: (date: string) => `Last scan ${date}`,
+};
+
+const folder = {
+  id: 1,
+  dataSetId: 1,
+  path: '/srv/inbox/comics',
+  groupingMode: 'single-stack' as const,
+  mediaType: 'comic' as const,
+  tags: ['inbox'],
+  author: null,
+  collectionId: null,
+  afterImport: 'move' as const,
+  processedPath: null,
+  settleSeconds: 5,
+  enabled: true,
+  lastScanAt: '2026-07-01T09:30:00.000Z',
+  lastError: null,
+  createdAt: '2026-06-20T00:00:00.000Z',
+  updatedAt: '2026-06-20T00:00:00.000Z',
+};
+
+const meta: Meta<typeof WatchedFoldersSection> = {
+  title: 'Settings/WatchedFoldersSection',
+  component: WatchedFoldersSection,
+  args: {
+    folders: [
+      folder,
+      {
+        ...folder,
+        id: 2,
+        path: '/mnt/downloads',
+        groupingMode: 'flat-upload',
+        afterImport: 'keep',
+        enabled: false,
+        lastError: 'Folder not found: /mnt/downloads',
+      },
+    ],
+    datasets: [
+      { id: 1, name: 'Library' },
+      { id: 2, name: 'Comics' },
+    ],
+    collections: [{ id: 10, name: 'Inbox' }],
+    copy,
+    onCreate: async () => true,
+    onToggleEnabled: () => {},
+    onScan: () => {},
+    onDelete: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof WatchedFoldersSection>;
+
+export const Default: Story = {};
+
+export const Empty: Story = {
+  args: {
+    folders: [],
+  },
+};
@@ -0,0 +1,396 @@
+import { FolderSync, Pause, Play, Plus, ScanSearch, Trash2 } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type {
+  WatchedFolder,
+  WatchedFolderAfterImport,
+  WatchedFolderGroupingMode,
+  WatchedFolderInput,
+} from '@/types';
+
+type WatchedFolderMediaType = NonNullable<WatchedFolder['mediaType']>;
+
+export interface WatchedFoldersCopy {
+  title: string;
+  description: string;
+  empty: string;
+  addFolder: string;
+  library: string;
+  path: string;
+  pathPlaceholder: string;
+  groupingMode: string;
+  groupingModes: Record<WatchedFolderGroupingMode, string>;
+  mediaType: string;
+  mediaTypeAuto: string;
+  mediaTypes: Record<WatchedFolderMediaType, string>;
+  tags: string;
+  tagsPlaceholder: string;
+  author: string;
+  collection: string;
+  noCollection: string;
+  afterImport: string;
+  afterImportModes: Record<WatchedFolderAfterImport, string>;
+  processedPath: string;
+  processedPathPlaceholder: string;
+  settleSeconds: string;
+  create: string;
+  paused: string;
+  pause: string;
+  resume: string;
+  scanNow: string;
+  remove: string;
+  lastScan: (date: string) => string;
+}
+
+export interface WatchedFoldersSectionProps {
+  folders: WatchedFolder[];
+  datasets: Array<{ id: number; name: string }>;
+  /** フォームで選択中のライブラリのコレクション */
+  collections: Array<{ id: number; name: string }>;
+  copy: WatchedFoldersCopy;
+  loading?: boolean;
+  creating?: boolean;
+  busyFolderId?: number | null;
+  onDatasetChange?: (dataSetId: number) => void;
+  onCreate: (input: WatchedFolderInput) => Promise<boolean>;
+  onToggleEnabled: (folder: WatchedFolder) => void;
+  onScan: (folder: WatchedFolder) => void;
+  onDelete: (folder: WatchedFolder) => void;
+}
+
+const GROUPING_MODES: WatchedFolderGroupingMode[] = [
+  'single-stack',
+  'create-collection',
+  'flat-upload',
+];
+const MEDIA_TYPES: WatchedFolderMediaType[] = ['image', 'comic', 'video'];
+const AFTER_IMPORT_MODES: WatchedFolderAfterImport[] = ['move', 'keep'];
+// Select の値は空文字を使えないため、未指定を表す値
+const NONE = 'none';
+
+interface Draft {
+  dataSetId: number | null;
+  path: string;
+  groupingMode: WatchedFolderGroupingMode;
+  mediaType: string;
+  tags: string;
+  author: string;
+  collectionId: string;
+  afterImport: WatchedFolderAfterImport;
+  processedPath: string;
+  settleSeconds: string;
+}
+
+const createDraft = (dataSetId: number | null): Draft => ({
+  dataSetId,
+  path: '',
+  groupingMode: 'single-stack',
+  mediaType: NONE,
+  tags: '',
+  author: '',
+  collectionId: NONE,
+  afterImport: 'move',
+  processedPath: '',
+  settleSeconds: '5',
+});
+
+const toInput = (draft: Draft): WatchedFolderInput => ({
+  dataSetId: draft.dataSetId ?? 0,
+  path: draft.path.trim(),
+  groupingMode: draft.groupingMode,
+  mediaType: draft.mediaType === NONE ? null : (draft.mediaType as WatchedFolderMediaType),
+  tags: draft.tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean),
+  author: draft.author.trim() || null,
+  collectionId: draft.collectionId === NONE ? null : Number(draft.collectionId),
+  afterImport: draft.afterImport,
+  processedPath: draft.afterImport === 'move' ? draft.processedPath.trim() || null : null,
+  settleSeconds: Math.min(3600, Math.max(1, Math.round(Number(draft.settleSeconds) || 5))),
+  enabled: true,
+});
+
+export function WatchedFoldersSection({
+  folders,
+  datasets,
+  collections,
+  copy,
+  loading = false,
+  creating = false,
+  busyFolderId = null,
+  onDatasetChange,
+  onCreate,
+  onToggleEnabled,
+  onScan,
+  onDelete,
+}: WatchedFoldersSectionProps) {
+  const [draft, setDraft] = useState<Draft>(() => createDraft(datasets[0]?.id ?? null));
+  const dataSetId = draft.dataSetId ?? datasets[0]?.id ?? null;
+  const datasetNames = Object.fromEntries(datasets.map((dataset) => [dataset.id, dataset.name]));
+
+  const update = (patch: Partial<Draft>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const handleDatasetChange = (value: string) => {
+    update({ dataSetId: Number(value), collectionId: NONE });
+    onDatasetChange?.(Number(value));
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!dataSetId || !draft.path.trim()) return;
+    const created = await onCreate(toInput({ ...draft, dataSetId }));
+    if (created) setDraft(createDraft(dataSetId));
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-100 px-6 py-5">
+        <div className="flex min-w-0 items-center gap-3">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-violet-100 text-violet-700">
+            <FolderSync size={20} />
+          </div>
+          <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+        </div>
+        {copy.description ? <p className="mt-3 text-sm text-gray-500">{copy.description}</p> : null}
+      </div>
+
+      {folders.length === 0 ? (
+        <p className="px-6 py-5 text-sm text-gray-500">{loading ? '…' : copy.empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {folders.map((folder) => {
+            const busy = busyFolderId === folder.id;
+            return (
+              <li key={folder.id} className="px-6 py-4">
+                <div className="flex min-w-0 items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-mono text-sm text-gray-900" title={folder.path}>
+                      {folder.path}
+                    </div>
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+                      <span>{datasetNames[folder.dataSetId] ?? folder.dataSetId}</span>
+                      <span>{copy.groupingModes[folder.groupingMode]}</span>
+                      <span>{copy.afterImportModes[folder.afterImport]}</span>
+                      {folder.lastScanAt ? (
+                        <span>{copy.lastScan(new Date(folder.lastScanAt).toLocaleString())}</span>
+                      ) : null}
+                    </div>
+                  </div>
+                  {!folder.enabled ? (
+                    <span className="shrink-0 rounded-full bg-gray-100 px-3 py-1 text-xs font-semibold text-gray-600">
+                      {copy.paused}
+                    </span>
+                  ) : null}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onScan(folder)}
+                    disabled={busy || !folder.enabled}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <ScanSearch className="mr-1.5 h-3.5 w-3.5" />
+                    {copy.scanNow}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onToggleEnabled(folder)}
+                    disabled={busy}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {folder.enabled ? (
+                      <Pause className="mr-1.5 h-3.5 w-3.5" />
+                    ) : (
+                      <Play className="mr-1.5 h-3.5 w-3.5" />
+                    )}
+                    {folder.enabled ? copy.pause : copy.resume}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onDelete(folder)}
+                    disabled={busy}
+                    className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                    aria-label={copy.remove}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                {folder.lastError ? (
+                  <p className="mt-2 break-all text-xs text-red-600">{folder.lastError}</p>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid gap-4 border-t border-gray-100 px-6 py-5">
+        <div className="text-sm font-semibold text-gray-900">{copy.addFolder}</div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label>{copy.library}</Label>
+            <Select
+              value={dataSetId ? String(dataSetId) : undefined}
+              onValueChange={handleDatasetChange}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {datasets.map((dataset) => (
+                  <SelectItem key={dataset.id} value={String(dataset.id)}>
+                    {dataset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="watched-folder-path">{copy.path}</Label>
+            <Input
+              id="watched-folder-path"
+              value={draft.path}
+              onChange={(event) => update({ path: event.target.value })}
+              placeholder={copy.pathPlaceholder}
+              className="font-mono"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>{copy.groupingMode}</Label>
+            <Select
+              value={draft.groupingMode}
+              onValueChange={(value) =>
+                update({ groupingMode: value as WatchedFolderGroupingMode })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUPING_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {copy.groupingModes[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>{copy.mediaType}</Label>
+            <Select value={draft.mediaType} onValueChange={(value) => update({ mediaType: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>{copy.mediaTypeAuto}</SelectItem>
+                {MEDIA_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {copy.mediaTypes[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="watched-folder-tags">{copy.tags}</Label>
+            <Input
+              id="watched-folder-tags"
+              value={draft.tags}
+              onChange={(event) => update({ tags: event.target.value })}
+              placeholder={copy.tagsPlaceholder}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="watched-folder-author">{copy.author}</Label>
+            <Input
+              id="watched-folder-author"
+              value={draft.author}
+              onChange={(event) => update({ author: event.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>{copy.collection}</Label>
+            <Select
+              value={draft.collectionId}
+              onValueChange={(value) => update({ collectionId: value })}
+              disabled={draft.groupingMode === 'create-collection'}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>{copy.noCollection}</SelectItem>
+                {collections.map((collection) => (
+                  <SelectItem key={collection.id} value={String(collection.id)}>
+                    {collection.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>{copy.afterImport}</Label>
+            <Select
+              value={draft.afterImport}
+              onValueChange={(value) => update({ afterImport: value as WatchedFolderAfterImport })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AFTER_IMPORT_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {copy.afterImportModes[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className={cn('grid gap-2', draft.afterImport !== 'move' && 'opacity-50')}>
+            <Label htmlFor="watched-folder-processed">{copy.processedPath}</Label>
+            <Input
+              id="watched-folder-processed"
+              value={draft.processedPath}
+              onChange={(event) => update({ processedPath: event.target.value })}
+              placeholder={copy.processedPathPlaceholder}
+              disabled={draft.afterImport !== 'move'}
+              className="font-mono"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="watched-folder-settle">{copy.settleSeconds}</Label>
+            <Input
+              id="watched-folder-settle"
+              type="number"
+              min={1}
+              max={3600}
+              value={draft.settleSeconds}
+              onChange={(event) => update({ settleSeconds: event.target.value })}
+            />
+          </div>
+        </div>
+        <div>
+          <Button type="submit" disabled={creating || !dataSetId || !draft.path.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            {copy.create}
+          </Button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -222,7 +222,11 @@ function CollectionDropItemComponent({
         {collection.type === 'SMART' ? <Settings size={15} /> : <BookText size={15} />}
         <span className="truncate flex-1">{collection.name}</span>
         <CountBadge
-          count={collection.type === 'MANUAL' ? collection._count?.collectionStacks : undefined}
+          count={
+            collection.type === 'MANUAL' || collection.type === 'SMART'
+              ? collection._count?.collectionStacks
+              : undefined
+          }
         />
       </div>
     </CollectionContextMenu>
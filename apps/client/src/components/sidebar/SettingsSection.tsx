@@ -1,5 +1,15 @@
 import { Link } from '@tanstack/react-router';
-import { Database, Pin as PinIcon, Settings2, Tag, UsersRound, Wand2 } from 'lucide-react';
+import {
+  Copy,
+  Database,
+  Pin as PinIcon,
+  Settings2,
+  Tag,
+  Trash2,
+  UserCog,
+  UsersRound,
+  Wand2,
+} from 'lucide-react';
 import type { SettingsSectionProps } from '@/components/sidebar/types';
 import { SideMenuGroup, SideMenuListItem } from '@/components/ui/SideMenu';
 import { useT } from '@/lib/i18n';
@@ -20,6 +30,9 @@ export function SettingsSection({
         <SideMenuListItem asChild icon={Database} label={t.sidebar.libraries}>
           <Link to="/settings/libraries" activeProps={{ className: 'bg-gray-100 font-medium' }} />
         </SideMenuListItem>
+        <SideMenuListItem asChild icon={UserCog} label={t.sidebar.users}>
+          <Link to="/settings/users" activeProps={{ className: 'bg-gray-100 font-medium' }} />
+        </SideMenuListItem>
         <SideMenuListItem asChild icon={Tag} label={t.sidebar.tags}>
           <Link
             to="/library/$datasetId/tags"
@@ -41,6 +54,20 @@ export function SettingsSection({
             activeProps={{ className: 'bg-gray-100 font-medium' }}
           />
         </SideMenuListItem>
+        <SideMenuListItem asChild icon={Copy} label={t.sidebar.nearDuplicates}>
+          <Link
+            to="/library/$datasetId/duplicates"
+            params={() => ({ datasetId })}
+            activeProps={{ className: 'bg-gray-100 font-medium' }}
+          />
+        </SideMenuListItem>
+        <SideMenuListItem asChild icon={Trash2} label={t.sidebar.trash}>
+          <Link
+            to="/library/$datasetId/trash"
+            params={() => ({ datasetId })}
+            activeProps={{ className: 'bg-gray-100 font-medium' }}
+          />
+        </SideMenuListItem>
         <SideMenuListItem asChild icon={PinIcon} label={t.header.pins}>
           <Link
             to="/library/$datasetId/pins"
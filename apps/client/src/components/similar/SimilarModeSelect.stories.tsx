@@ -0,0 +1,28 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { SimilarModeSelect } from './SimilarModeSelect';
+
+const meta: Meta<typeof SimilarModeSelect> = {
+  title: 'Similar/SimilarModeSelect',
+  component: SimilarModeSelect,
+  args: {
+    value: 'hybrid',
+    copy: {
+      label: 'Match by',
+      modes: {
+        hybrid: 'Look + tags',
+        visual: 'Look',
+        tags: 'Tags',
+      },
+    },
+    onChange: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof SimilarModeSelect>;
+
+export const Default: Story = {};
+
+export const TagsOnly: Story = {
+  args: { value: 'tags' },
+};
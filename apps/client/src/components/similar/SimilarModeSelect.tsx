@@ -0,0 +1,33 @@
+import { SmallSelect } from '@/components/ui/Controls';
+import { SelectItem } from '@/components/ui/select';
+import type { SimilarMode } from '@/types';
+
+export interface SimilarModeSelectCopy {
+  label: string;
+  modes: Record<SimilarMode, string>;
+}
+
+export interface SimilarModeSelectProps {
+  value: SimilarMode;
+  copy: SimilarModeSelectCopy;
+  onChange: (mode: SimilarMode) => void;
+}
+
+export const SIMILAR_MODES: SimilarMode[] = ['hybrid', 'visual', 'tags'];
+
+export function SimilarModeSelect({ value, copy, onChange }: SimilarModeSelectProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="shrink-0 text-xs text-gray-500">{copy.label}</span>
+      <div className="w-40">
+        <SmallSelect<SimilarMode> value={value} onValueChange={onChange} placeholder={copy.label}>
+          {SIMILAR_MODES.map((mode) => (
+            <SelectItem key={mode} value={mode}>
+              {copy.modes[mode]}
+            </SelectItem>
+          ))}
+        </SmallSelect>
+      </div>
+    </div>
+  );
+}
@@ -59,3 +59,16 @@ export const ShortStack: Story = {
     visible: true,
   },
 };
+
+export const WithResumePosition: Story = {
+  render: (args) => <SeekBarStory {...args} />,
+  args: {
+    currentIndex: 3,
+    total: 24,
+    openingDirection: 'right-opening',
+    bookmarkIndexes: [4, 18],
+    resumeIndex: 12,
+    resumeLabel: 'Left off at page 13',
+    visible: true,
+  },
+};
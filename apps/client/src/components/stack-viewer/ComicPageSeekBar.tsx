@@ -1,4 +1,4 @@
-import { Bookmark } from 'lucide-react';
+import { Bookmark, BookOpen } from 'lucide-react';
 import { useCallback, useMemo } from 'react';
 import SeekTrack, { type SeekTrackMarker } from '@/components/ui/SeekBar/SeekTrack';
 import TimeBadge from '@/components/ui/TimeBadge/TimeBadge';
@@ -9,12 +9,17 @@ interface ComicPageSeekBarProps {
   total: number;
   openingDirection: 'right-opening' | 'left-opening';
   bookmarkIndexes?: number[];
+  /** 前回読んでいた位置（読書単位の添字） */
+  resumeIndex?: number;
+  resumeLabel?: string;
   visible: boolean;
   onHoverStart?: () => void;
   onHoverEnd?: () => void;
   onSeek: (index: number) => void;
 }
 
+type PageMarker = { index: number; kind: 'bookmark' | 'resume' };
+
 const clampIndex = (value: number, total: number) =>
   Math.min(Math.max(Math.round(value), 0), Math.max(0, total - 1));
 
@@ -23,6 +28,8 @@ export default function ComicPageSeekBar({
   total,
   openingDirection,
   bookmarkIndexes = [],
+  resumeIndex,
+  resumeLabel,
   visible,
   onHoverStart,
   onHoverEnd,
@@ -32,15 +39,22 @@ export default function ComicPageSeekBar({
   const denominator = Math.max(1, total - 1);
   const visualValue = isRightOpening ? denominator - currentIndex : currentIndex;
   const pageCountText = `${currentIndex + 1} / ${total}`;
-  const bookmarkMarkers = useMemo<Array<SeekTrackMarker<number>>>(
-    () =>
-      bookmarkIndexes.map((index) => ({
-        key: index,
-        value: isRightOpening ? denominator - index : index,
-        data: index,
-      })),
-    [bookmarkIndexes, denominator, isRightOpening]
-  );
+  const pageMarkers = useMemo<Array<SeekTrackMarker<PageMarker>>>(() => {
+    const toValue = (index: number) => (isRightOpening ? denominator - index : index);
+    const markers: Array<SeekTrackMarker<PageMarker>> = bookmarkIndexes.map((index) => ({
+      key: index,
+      value: toValue(index),
+      data: { index, kind: 'bookmark' },
+    }));
+    if (resumeIndex !== undefined) {
+      markers.push({
+        key: `resume-${resumeIndex}`,
+        value: toValue(resumeIndex),
+        data: { index: resumeIndex, kind: 'resume' },
+      });
+    }
+    return markers;
+  }, [bookmarkIndexes, denominator, isRightOpening, resumeIndex]);
 
   const handleSeek = useCallback(
     (nextVisualValue: number) => {
@@ -57,6 +71,22 @@ export default function ComicPageSeekBar({
       <div className="px-4 py-2">
         <div className="flex items-center gap-3">
           <TimeBadge text={pageCountText} className="shrink-0" />
+          {visible && resumeLabel && resumeIndex !== undefined && resumeIndex !== currentIndex && (
+            <button
+              type="button"
+              className="pointer-events-auto flex shrink-0 items-center gap-1 rounded-full bg-black/60 px-2 py-1 text-[11px] text-amber-200 hover:bg-black/80"
+              onClick={() => onSeek(resumeIndex)}
+              onPointerEnter={(event) => {
+                if (event.pointerType === 'mouse') onHoverStart?.();
+              }}
+              onPointerLeave={(event) => {
+                if (event.pointerType === 'mouse') onHoverEnd?.();
+              }}
+            >
+              <BookOpen className="h-3 w-3" />
+              {resumeLabel}
+            </button>
+          )}
           <div
             className={cn(
               'min-w-0 flex-1 transition-opacity duration-150',
@@ -73,21 +103,30 @@ export default function ComicPageSeekBar({
               value={visualValue}
               max={denominator}
               step={1}
-              markers={bookmarkMarkers}
+              markers={pageMarkers}
               className="flex-1"
               markerLayerClassName="top-2.5"
               rangeOrigin={isRightOpening ? 'end' : 'start'}
               nudgePx={0}
               seekOnPointerDown
               onSeek={handleSeek}
-              renderMarker={({ iconTop }) => (
-                <div
-                  className="pointer-events-none absolute -translate-x-1/2 rounded-sm text-primary drop-shadow-[0_0_6px_rgba(255,255,255,0.45)]"
-                  style={{ top: iconTop }}
-                >
-                  <Bookmark className="h-3 w-3 fill-current" />
-                </div>
-              )}
+              renderMarker={({ marker, iconTop }) =>
+                marker.kind === 'resume' ? (
+                  <div
+                    className="pointer-events-none absolute -translate-x-1/2 rounded-sm text-amber-300 drop-shadow-[0_0_6px_rgba(0,0,0,0.6)]"
+                    style={{ top: iconTop }}
+                  >
+                    <BookOpen className="h-3 w-3" />
+                  </div>
+                ) : (
+                  <div
+                    className="pointer-events-none absolute -translate-x-1/2 rounded-sm text-primary drop-shadow-[0_0_6px_rgba(255,255,255,0.45)]"
+                    style={{ top: iconTop }}
+                  >
+                    <Bookmark className="h-3 w-3 fill-current" />
+                  </div>
+                )
+              }
             />
           </div>
         </div>
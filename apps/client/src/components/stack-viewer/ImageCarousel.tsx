@@ -66,6 +66,8 @@ interface ImageCarouselProps {
   onDeleteMarkerRequest?: (index: number) => void;
   /** マーカー色変更リクエスト */
   onChangeMarkerColorRequest?: (index: number, color: string) => void;
+  /** マーカーからの範囲書き出しリクエスト */
+  onExportRangeRequest?: (index: number) => void;
 }
 
 export interface ImageCarouselRef {
@@ -226,6 +228,7 @@ const ImageCarousel = forwardRef<ImageCarouselRef, ImageCarouselProps>(
       onMoveMarkerRequest,
       onDeleteMarkerRequest,
       onChangeMarkerColorRequest,
+      onExportRangeRequest,
     },
     ref
   ) => {
@@ -1767,6 +1770,8 @@ const ImageCarousel = forwardRef<ImageCarouselRef, ImageCarouselProps>(
                 onMoveMarkerRequest={onMoveMarkerRequest}
                 onDeleteMarkerRequest={onDeleteMarkerRequest}
                 onChangeMarkerColorRequest={onChangeMarkerColorRequest}
+                onExportRangeRequest={onExportRangeRequest}
+                scenes={currentAsset?.meta?.scenes}
               />
             </div>,
             document.body
@@ -1,9 +1,12 @@
+import { useSetAtom } from 'jotai';
 import {
+  Download,
   Eraser,
   Eye,
   EyeOff,
   Layers,
   PenTool,
+  Plus,
   Redo2,
   SlidersHorizontal,
   Sun,
@@ -13,8 +16,18 @@ import {
 } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Slider } from '@/components/ui/slider';
+import { useAssetAnnotations, useSaveAssetAnnotations } from '@/hooks/useAnnotations';
+import {
+  type AnnotationFrame,
+  drawAnnotationStroke,
+  exportAnnotatedImage,
+  getContainedImageRect,
+  renderAnnotationLayers,
+} from '@/lib/annotations';
 import { useT } from '@/lib/i18n';
 import { cn } from '@/lib/utils'; // Stateless presentational helpers (no hooks)
+import { addUploadNotificationAtom } from '@/stores/upload';
+import type { AnnotationStroke } from '@/types';
 
 // Stateless presentational helpers (no hooks)
 function ToolButton({
@@ -85,19 +98,26 @@ function ColorSwatch({
   );
 }
 
-type Stroke = {
-  points: { x: number; y: number }[];
-  color: string;
-  size: number;
-  opacity: number; // 0..1
-  mode: 'draw' | 'erase';
+type Stroke = AnnotationStroke;
+
+type DraftLayer = {
+  key: string;
+  id?: number;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  strokes: Stroke[];
 };
 
+type HistoryEntry = { layerKey: string; stroke: Stroke };
+
 interface PenOverlayProps {
   leftInset: number;
   rightInset: number;
   topInset?: number;
-  docKey: string; // page identity; change -> clear
+  assetId: number | null; // annotations are stored per asset
+  readOnly?: boolean; // show saved layers only (pen mode off)
+  exportFileName?: string;
   onExit: () => void;
   getImageEl?: () => HTMLImageElement | null;
 }
@@ -116,112 +136,214 @@ const DEFAULT_COLORS = [
   '#FFFFFF', // white
 ];
 
+const AUTOSAVE_DELAY_MS = 800;
+const MAX_LAYERS = 20;
+
+let layerKeySeed = 0;
+const nextLayerKey = () => `layer-${++layerKeySeed}`;
+
+const roundRatio = (value: number) => Math.round(value * 10000) / 10000;
+
+const sameFrame = (a: AnnotationFrame | null, b: AnnotationFrame | null) =>
+  a === b ||
+  (!!a &&
+    !!b &&
+    a.left === b.left &&
+    a.top === b.top &&
+    a.width === b.width &&
+    a.height === b.height);
+
 export default function PenOverlay({
   leftInset,
   rightInset,
   topInset = 56,
+  assetId,
+  readOnly = false,
+  exportFileName,
   onExit,
   getImageEl,
 }: PenOverlayProps) {
   const t = useT();
   const viewerControls = t.viewerControls;
+  const addNotification = useSetAtom(addUploadNotificationAtom);
   const containerRef = useRef<HTMLDivElement | null>(null);
   // base canvas: committed strokes
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
+  // scratch canvas: per-layer compositing (eraser only affects its own layer)
+  const scratchCanvasRef = useRef<HTMLCanvasElement | null>(null);
   // preview canvas: in-progress stroke, cleared each frame
   const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const previewCtxRef = useRef<CanvasRenderingContext2D | null>(null);
   const dprRef = useRef<number>(typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1);
+  // image frame relative to the container (strokes are stored as ratios of it)
+  const frameRef = useRef<AnnotationFrame | null>(null);
 
   const [color, setColor] = useState<string>('#FF3B30');
   const [size, setSize] = useState<number>(4); // default 4px
   const [opacity, setOpacity] = useState<number>(1);
   const [eraser, setEraser] = useState<boolean>(false);
-  const [strokes, setStrokes] = useState<Stroke[]>([]);
-  const [redoStack, setRedoStack] = useState<Stroke[]>([]);
+  const [layers, setLayers] = useState<DraftLayer[]>([]);
+  const [activeLayerKey, setActiveLayerKey] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
   const [openPanel, setOpenPanel] = useState<'none' | 'size' | 'opacity' | 'color'>('none');
-  const [layerOpacity, setLayerOpacity] = useState<number>(1);
-  const [layerVisible, setLayerVisible] = useState<boolean>(true);
   const [bgFade, setBgFade] = useState<number>(0);
   const [openAuxPanel, setOpenAuxPanel] = useState<'none' | 'layer' | 'bg'>('none');
   const [isAdjusting, setIsAdjusting] = useState<boolean>(false); // 操作中のみにミニプレビュー表示
-  const [bgRect, setBgRect] = useState<{
-    left: number;
-    top: number;
-    width: number;
-    height: number;
-  } | null>(null);
-
-  // Track image rect for background fade (image-only overlay)
+  const [bgRect, setBgRect] = useState<AnnotationFrame | null>(null);
+
+  const activeLayer = layers.find((layer) => layer.key === activeLayerKey) ?? null;
+
+  // Load saved layers once per asset (the overlay is keyed by asset in StackViewer)
+  const annotationsQuery = useAssetAnnotations(assetId);
+  const saveAnnotations = useSaveAssetAnnotations();
+  const hydratedRef = useRef(false);
   useEffect(() => {
-    const updateRect = () => {
-      if (!getImageEl) {
-        setBgRect(null);
-        return;
+    if (hydratedRef.current || !annotationsQuery.isFetched) return;
+    hydratedRef.current = true;
+    const saved = annotationsQuery.data?.layers ?? [];
+    const next: DraftLayer[] =
+      saved.length > 0
+        ? saved.map((layer) => ({
+            key: nextLayerKey(),
+            id: layer.id,
+            name: layer.name,
+            visible: layer.visible,
+            opacity: layer.opacity,
+            strokes: layer.strokes,
+          }))
+        : [
+            {
+              key: nextLayerKey(),
+              name: viewerControls.layerName(1),
+              visible: true,
+              opacity: 1,
+              strokes: [],
+            },
+          ];
+    setLayers(next);
+    setActiveLayerKey(next[next.length - 1].key);
+  }, [annotationsQuery.isFetched, annotationsQuery.data, viewerControls]);
+
+  // Autosave: 編集後しばらくしてからレイヤー一覧をまとめて保存する
+  const dirtyRef = useRef(false);
+  const layersRef = useRef<DraftLayer[]>(layers);
+  layersRef.current = layers;
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flushSave = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    if (!dirtyRef.current || assetId === null) return;
+    dirtyRef.current = false;
+    const snapshot = layersRef.current;
+    saveAnnotations.mutate(
+      {
+        assetId,
+        layers: snapshot.map(({ id, name, visible, opacity: layerOpacity, strokes }) => ({
+          id,
+          name,
+          visible,
+          opacity: layerOpacity,
+          strokes,
+        })),
+      },
+      {
+        onSuccess: (response) => {
+          // 新規レイヤーにサーバー側の id を割り当てる（送信時の順序で対応付け）
+          const idsByKey = new Map(
+            snapshot.map((layer, index) => [layer.key, response.layers[index]?.id])
+          );
+          setLayers((prev) =>
+            prev.map((layer) =>
+              layer.id === undefined && idsByKey.get(layer.key) !== undefined
+                ? { ...layer, id: idsByKey.get(layer.key) }
+                : layer
+            )
+          );
+        },
+        onError: () => {
+          dirtyRef.current = true;
+          addNotification({ type: 'error', message: viewerControls.annotationsSaveFailed });
+        },
       }
-      const img = getImageEl();
+    );
+  }, [assetId, saveAnnotations, addNotification, viewerControls]);
+
+  const flushSaveRef = useRef(flushSave);
+  flushSaveRef.current = flushSave;
+
+  const updateLayers = useCallback((updater: (prev: DraftLayer[]) => DraftLayer[]) => {
+    dirtyRef.current = true;
+    setLayers(updater);
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => flushSaveRef.current(), AUTOSAVE_DELAY_MS);
+  }, []);
+
+  // Flush pending edits when leaving the asset or closing the viewer
+  useEffect(() => () => flushSaveRef.current(), []);
+
+  const repaint = useCallback((all: DraftLayer[] = layersRef.current) => {
+    const ctx = ctxRef.current;
+    const frame = frameRef.current;
+    if (!ctx) return;
+    if (!scratchCanvasRef.current) scratchCanvasRef.current = document.createElement('canvas');
+    renderAnnotationLayers(
+      ctx,
+      frame ? all : [],
+      frame ?? { left: 0, top: 0, width: 1, height: 1 },
+      scratchCanvasRef.current
+    );
+  }, []);
+
+  // Track the image frame (zoom, resize, layout shifts) and repaint when it moves
+  useEffect(() => {
+    let raf = 0;
+    const update = () => {
       const container = containerRef.current;
-      if (!img || !container) {
-        setBgRect(null);
-        return;
+      const img = getImageEl?.() ?? null;
+      let next: AnnotationFrame | null = null;
+      if (container) {
+        const cr = container.getBoundingClientRect();
+        const ir = img ? getContainedImageRect(img) : null;
+        next = ir
+          ? { left: ir.left - cr.left, top: ir.top - cr.top, width: ir.width, height: ir.height }
+          : null;
       }
-      const ir = img.getBoundingClientRect();
-      const cr = container.getBoundingClientRect();
-      setBgRect({
-        left: Math.max(0, ir.left - cr.left),
-        top: Math.max(0, ir.top - cr.top),
-        width: ir.width,
-        height: ir.height,
-      });
-    };
-    updateRect();
-    const onScroll = () => updateRect();
-    window.addEventListener('resize', updateRect);
-    window.addEventListener('scroll', onScroll, { capture: true, passive: true } as any);
-    const iv = setInterval(updateRect, 250); // guard for subtle layout shifts
-    return () => {
-      window.removeEventListener('resize', updateRect);
-      window.removeEventListener('scroll', onScroll, { capture: true } as any);
-      clearInterval(iv);
+      if (!sameFrame(frameRef.current, next)) {
+        frameRef.current = next;
+        setBgRect(next);
+        repaint();
+      }
+      raf = requestAnimationFrame(update);
     };
-  }, [getImageEl]);
-
-  const drawStrokePath = useCallback(
-    (ctx: CanvasRenderingContext2D, s: Stroke, alphaFactor = 1) => {
-      const n = s.points.length;
-      if (n < 2) return;
-      ctx.save();
-      ctx.globalAlpha = Math.max(0, Math.min(1, s.opacity * alphaFactor));
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.lineWidth = s.size;
-      ctx.globalCompositeOperation = s.mode === 'erase' ? 'destination-out' : 'source-over';
-      ctx.strokeStyle = s.mode === 'erase' ? 'rgba(0,0,0,1)' : s.color;
-      ctx.beginPath();
-      ctx.moveTo(s.points[0].x, s.points[0].y);
-      for (let i = 1; i < n; i++) ctx.lineTo(s.points[i].x, s.points[i].y);
-      ctx.stroke();
-      ctx.restore();
-    },
-    []
-  );
+    raf = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(raf);
+  }, [getImageEl, repaint]);
 
   const [activeStroke, setActiveStroke] = useState<Stroke | null>(null);
   const activePointerRef = useRef<number | null>(null);
 
-  const toLocal = useCallback((e: PointerEvent | React.PointerEvent) => {
+  const toNormalized = useCallback((e: PointerEvent | React.PointerEvent) => {
     const rect = canvasRef.current!.getBoundingClientRect();
-    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const frame = frameRef.current!;
+    return {
+      x: roundRatio((e.clientX - rect.left - frame.left) / frame.width),
+      y: roundRatio((e.clientY - rect.top - frame.top) / frame.height),
+    };
   }, []);
 
-  const redrawAll = useCallback(
-    (ctx: CanvasRenderingContext2D, all: Stroke[], w: number, h: number, alphaFactor = 1) => {
-      ctx.clearRect(0, 0, w, h);
-      for (const s of all) drawStrokePath(ctx, s, alphaFactor);
-    },
-    [drawStrokePath]
-  );
+  const drawPreview = useCallback((stroke: Stroke | null) => {
+    const pctx = previewCtxRef.current;
+    const canvas = canvasRef.current;
+    if (!pctx || !canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    pctx.clearRect(0, 0, Math.floor(rect.width), Math.floor(rect.height));
+    if (stroke && frameRef.current) drawAnnotationStroke(pctx, stroke, frameRef.current);
+  }, []);
 
   const ensureCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -241,9 +363,8 @@ export default function PenOverlay({
       ctxRef.current = ctx;
       if (ctx) {
         ctx.setTransform(dpr, 0, 0, dpr, 0, 0); // HiDPI
-        ctx.clearRect(0, 0, cssW, cssH);
         // redraw existing strokes (e.g., on resize)
-        redrawAll(ctx, strokes, cssW, cssH, layerVisible ? layerOpacity : 0);
+        repaint();
       }
     }
     // preview canvas resize as well
@@ -262,12 +383,7 @@ export default function PenOverlay({
         pctx.clearRect(0, 0, cssW, cssH);
       }
     }
-  }, [
-    strokes,
-    layerOpacity,
-    layerVisible, // redraw existing strokes (e.g., on resize)
-    redrawAll,
-  ]);
+  }, [repaint]);
 
   useEffect(() => {
     ensureCanvas();
@@ -281,46 +397,41 @@ export default function PenOverlay({
     };
   }, [ensureCanvas]);
 
+  // layers / opacity / visibility changes ⇒ repaint
+  useEffect(() => {
+    repaint(layers);
+  }, [layers, repaint]);
+
   const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (e.button !== 0) return; // primary only
+    if (!frameRef.current || !activeLayer) return;
     e.preventDefault();
     e.stopPropagation();
     (e.currentTarget as HTMLCanvasElement).setPointerCapture(e.pointerId);
     activePointerRef.current = e.pointerId;
     // New stroke begins → redo ヒストリを破棄
     if (redoStack.length) setRedoStack([]);
-    const p = toLocal(e);
+    const p = toNormalized(e);
     const s: Stroke = {
       points: [p, p],
       color,
-      size,
+      size: roundRatio(size / frameRef.current.width),
       opacity,
       mode: eraser ? 'erase' : 'draw',
     };
     setActiveStroke(s);
-    // render preview stroke as whole path
-    const pctx = previewCtxRef.current;
-    const rect = canvasRef.current!.getBoundingClientRect();
-    if (pctx) {
-      pctx.clearRect(0, 0, Math.floor(rect.width), Math.floor(rect.height));
-      drawStrokePath(pctx, s, 1);
-    }
+    drawPreview(s);
   };
 
   const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (activePointerRef.current !== e.pointerId || !activeStroke) return;
     e.preventDefault();
     e.stopPropagation();
-    const p = toLocal(e);
-    setActiveStroke((prev) => (prev ? { ...prev, points: [...prev.points, p] } : prev));
+    const p = toNormalized(e);
+    const s = { ...activeStroke, points: [...activeStroke.points, p] };
+    setActiveStroke(s);
     // live preview
-    const pctx = previewCtxRef.current;
-    const rect = canvasRef.current!.getBoundingClientRect();
-    if (pctx) {
-      pctx.clearRect(0, 0, Math.floor(rect.width), Math.floor(rect.height));
-      const s = { ...activeStroke, points: [...activeStroke.points, p] };
-      drawStrokePath(pctx, s, 1);
-    }
+    drawPreview(s);
   };
 
   const onPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
@@ -331,99 +442,118 @@ export default function PenOverlay({
       (e.currentTarget as HTMLCanvasElement).releasePointerCapture(e.pointerId);
     } catch {}
     activePointerRef.current = null;
-    if (activeStroke) {
-      // clear preview then push and repaint base with layer opacity
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const pctx = previewCtxRef.current;
-      if (pctx) pctx.clearRect(0, 0, Math.floor(rect.width), Math.floor(rect.height));
-      setStrokes((prev) => {
-        const next = [...prev, activeStroke];
-        const ctx = ctxRef.current;
-        if (ctx)
-          redrawAll(
-            ctx,
-            next,
-            Math.floor(rect.width),
-            Math.floor(rect.height),
-            layerVisible ? layerOpacity : 0
-          );
-        return next;
-      });
+    if (activeStroke && activeLayerKey) {
+      // clear preview then push into the active layer
+      drawPreview(null);
+      const layerKey = activeLayerKey;
+      updateLayers((prev) =>
+        prev.map((layer) =>
+          layer.key === layerKey ? { ...layer, strokes: [...layer.strokes, activeStroke] } : layer
+        )
+      );
+      setHistory((prev) => [...prev, { layerKey, stroke: activeStroke }]);
       setActiveStroke(null);
     }
   };
 
   const undo = useCallback(() => {
-    const canvas = canvasRef.current;
-    const ctx = ctxRef.current;
-    if (!canvas || !ctx) return;
-    const rect = canvas.getBoundingClientRect();
-    const w = Math.floor(rect.width);
-    const h = Math.floor(rect.height);
-    if (strokes.length === 0) return;
-    const next = strokes.slice();
-    const popped = next.pop()!;
-    setStrokes(next);
-    setRedoStack((r) => [...r, popped]);
-    redrawAll(ctx, next, w, h, layerVisible ? layerOpacity : 0);
-  }, [layerOpacity, layerVisible, redrawAll, strokes.length, strokes.slice]);
+    const entry = history[history.length - 1];
+    if (!entry) return;
+    setHistory(history.slice(0, -1));
+    setRedoStack((r) => [...r, entry]);
+    updateLayers((prev) =>
+      prev.map((layer) =>
+        layer.key === entry.layerKey
+          ? { ...layer, strokes: layer.strokes.filter((stroke) => stroke !== entry.stroke) }
+          : layer
+      )
+    );
+  }, [history, updateLayers]);
 
   const redo = useCallback(() => {
-    const canvas = canvasRef.current;
-    const ctx = ctxRef.current;
-    if (!canvas || !ctx) return;
-    if (redoStack.length === 0) return;
-    const rect = canvas.getBoundingClientRect();
-    const w = Math.floor(rect.width);
-    const h = Math.floor(rect.height);
-    const nextRedo = redoStack.slice();
-    const restored = nextRedo.pop()!;
-    const nextStrokes = [...strokes, restored];
-    setRedoStack(nextRedo);
-    setStrokes(nextStrokes);
-    redrawAll(ctx, nextStrokes, w, h, layerVisible ? layerOpacity : 0);
-  }, [layerOpacity, layerVisible, redoStack.length, redoStack.slice, redrawAll, strokes]);
-
-  const clearAll = useCallback(() => {
-    const canvas = canvasRef.current;
-    const ctx = ctxRef.current;
-    if (!canvas || !ctx) {
-      setStrokes([]);
-      return;
-    }
-    const rect = canvas.getBoundingClientRect();
-    const w = Math.floor(rect.width);
-    const h = Math.floor(rect.height);
-    ctx.clearRect(0, 0, w, h);
-    const pctx = previewCtxRef.current;
-    if (pctx) pctx.clearRect(0, 0, w, h);
-    setStrokes([]);
-    setRedoStack([]);
-  }, []);
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    setRedoStack(redoStack.slice(0, -1));
+    setHistory((h) => [...h, entry]);
+    updateLayers((prev) =>
+      prev.map((layer) =>
+        layer.key === entry.layerKey
+          ? { ...layer, strokes: [...layer.strokes, entry.stroke] }
+          : layer
+      )
+    );
+  }, [redoStack, updateLayers]);
 
-  // Clear strokes when page key changes
-  useEffect(() => {
-    clearAll();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [clearAll]);
+  const forgetHistory = useCallback((layerKey: string) => {
+    setHistory((h) => h.filter((entry) => entry.layerKey !== layerKey));
+    setRedoStack((r) => r.filter((entry) => entry.layerKey !== layerKey));
+  }, []);
 
-  // layer opacity / visibility changes ⇒ repaint
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    const ctx = ctxRef.current;
-    if (!canvas || !ctx) return;
-    const rect = canvas.getBoundingClientRect();
-    redrawAll(
-      ctx,
-      strokes,
-      Math.floor(rect.width),
-      Math.floor(rect.height),
-      layerVisible ? layerOpacity : 0
+  // Clear the active layer (other layers stay as they are)
+  const clearLayer = useCallback(() => {
+    if (!activeLayerKey) return;
+    drawPreview(null);
+    updateLayers((prev) =>
+      prev.map((layer) => (layer.key === activeLayerKey ? { ...layer, strokes: [] } : layer))
     );
-  }, [layerOpacity, layerVisible, strokes, redrawAll]);
+    forgetHistory(activeLayerKey);
+  }, [activeLayerKey, drawPreview, updateLayers, forgetHistory]);
+
+  const patchActiveLayer = useCallback(
+    (patch: Partial<Pick<DraftLayer, 'name' | 'visible' | 'opacity'>>) => {
+      if (!activeLayerKey) return;
+      updateLayers((prev) =>
+        prev.map((layer) => (layer.key === activeLayerKey ? { ...layer, ...patch } : layer))
+      );
+    },
+    [activeLayerKey, updateLayers]
+  );
+
+  const addLayer = useCallback(() => {
+    if (layers.length >= MAX_LAYERS) return;
+    const layer: DraftLayer = {
+      key: nextLayerKey(),
+      name: viewerControls.layerName(layers.length + 1),
+      visible: true,
+      opacity: 1,
+      strokes: [],
+    };
+    updateLayers((prev) => [...prev, layer]);
+    setActiveLayerKey(layer.key);
+  }, [layers.length, updateLayers, viewerControls]);
+
+  const deleteActiveLayer = useCallback(() => {
+    if (!activeLayerKey || layers.length <= 1) return;
+    const index = layers.findIndex((layer) => layer.key === activeLayerKey);
+    const remaining = layers.filter((layer) => layer.key !== activeLayerKey);
+    updateLayers(() => remaining);
+    forgetHistory(activeLayerKey);
+    setActiveLayerKey(remaining[Math.max(0, index - 1)]?.key ?? null);
+  }, [activeLayerKey, layers, updateLayers, forgetHistory]);
+
+  const exportImage = useCallback(async () => {
+    const img = getImageEl?.();
+    if (!img) return;
+    try {
+      const blob = await exportAnnotatedImage(img, layers);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      const baseName = (exportFileName || `asset-${assetId ?? ''}`).replace(/\.[^.]+$/, '');
+      link.href = url;
+      link.download = `${baseName}-annotated.png`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Failed to export annotated image:', error);
+      addNotification({ type: 'error', message: viewerControls.exportAnnotatedFailed });
+    }
+  }, [getImageEl, layers, exportFileName, assetId, addNotification, viewerControls]);
 
   // ESC to exit
   useEffect(() => {
+    if (readOnly) return;
     const onKey = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         e.stopPropagation();
@@ -433,10 +563,11 @@ export default function PenOverlay({
     };
     window.addEventListener('keydown', onKey, { capture: true });
     return () => window.removeEventListener('keydown', onKey, { capture: true } as any);
-  }, [onExit]);
+  }, [onExit, readOnly]);
 
   // Cmd/Ctrl + Z/Y ショートカット（Undo/Redo）
   useEffect(() => {
+    if (readOnly) return;
     const onKeyDown = (e: KeyboardEvent) => {
       const target = e.target as HTMLElement | null;
       const tag = target?.tagName;
@@ -463,7 +594,7 @@ export default function PenOverlay({
     };
     window.addEventListener('keydown', onKeyDown, { capture: true });
     return () => window.removeEventListener('keydown', onKeyDown, { capture: true } as any);
-  }, [undo, redo]);
+  }, [undo, redo, readOnly]);
 
   const ToolPalette = useMemo(() => {
     const SizeGlyph = () => (
@@ -667,7 +798,7 @@ export default function PenOverlay({
           {/* Undo/Redo */}
           <ToolButton
             aria={viewerControls.undo}
-            disabled={strokes.length === 0}
+            disabled={history.length === 0}
             onClick={undo}
             title={viewerControls.undo}
           >
@@ -682,16 +813,17 @@ export default function PenOverlay({
             <Redo2 size={16} />
           </ToolButton>
 
-          {/* Layer opacity / visibility */}
+          {/* Active layer visibility / layer list */}
           <ToolButton
-            aria={layerVisible ? viewerControls.hidePenLayer : viewerControls.showPenLayer}
-            onClick={() => setLayerVisible((v) => !v)}
+            aria={activeLayer?.visible ? viewerControls.hidePenLayer : viewerControls.showPenLayer}
+            disabled={!activeLayer}
+            onClick={() => patchActiveLayer({ visible: !activeLayer?.visible })}
           >
-            {layerVisible ? <Eye size={16} /> : <EyeOff size={16} />}
+            {activeLayer?.visible === false ? <EyeOff size={16} /> : <Eye size={16} />}
           </ToolButton>
           <div className="relative">
             <ToolButton
-              aria={viewerControls.layerOpacity(Math.round(layerOpacity * 100))}
+              aria={viewerControls.layers}
               active={openAuxPanel === 'layer'}
               onClick={() => setOpenAuxPanel((p) => (p === 'layer' ? 'none' : 'layer'))}
             >
@@ -699,22 +831,103 @@ export default function PenOverlay({
             </ToolButton>
             {openAuxPanel === 'layer' && (
               <PopCard>
-                <div className="text-xs text-gray-600 mb-2">
-                  {viewerControls.layerOpacity(Math.round(layerOpacity * 100))}
-                </div>
-                <div
-                  onPointerDown={() => setIsAdjusting(true)}
-                  onPointerUp={() => setIsAdjusting(false)}
-                  onPointerCancel={() => setIsAdjusting(false)}
-                >
-                  <Slider
-                    min={0}
-                    max={1}
-                    step={0.05}
-                    value={[layerOpacity]}
-                    onValueChange={(v) => setLayerOpacity(v[0] ?? 1)}
-                  />
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs text-gray-600">{viewerControls.layers}</span>
+                  <button
+                    type="button"
+                    className="w-6 h-6 rounded-sm flex items-center justify-center text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    onClick={addLayer}
+                    disabled={layers.length >= MAX_LAYERS}
+                    aria-label={viewerControls.addLayer}
+                    title={viewerControls.addLayer}
+                  >
+                    <Plus size={14} />
+                  </button>
                 </div>
+                <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                  {layers
+                    .slice()
+                    .reverse()
+                    .map((layer) => (
+                      <li
+                        key={layer.key}
+                        className={cn(
+                          'flex items-center gap-1 rounded-sm px-1',
+                          layer.key === activeLayerKey ? 'bg-blue-50' : 'hover:bg-gray-50'
+                        )}
+                      >
+                        <button
+                          type="button"
+                          className="w-6 h-6 shrink-0 flex items-center justify-center text-gray-600"
+                          onClick={() =>
+                            updateLayers((prev) =>
+                              prev.map((item) =>
+                                item.key === layer.key ? { ...item, visible: !item.visible } : item
+                              )
+                            )
+                          }
+                          aria-label={
+                            layer.visible
+                              ? viewerControls.hidePenLayer
+                              : viewerControls.showPenLayer
+                          }
+                        >
+                          {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                        </button>
+                        <button
+                          type="button"
+                          className="min-w-0 flex-1 truncate py-1 text-left text-xs text-gray-800"
+                          onClick={() => setActiveLayerKey(layer.key)}
+                        >
+                          {layer.name}
+                        </button>
+                      </li>
+                    ))}
+                </ul>
+                {activeLayer && (
+                  <div className="mt-3 border-t border-gray-200 pt-2">
+                    <input
+                      type="text"
+                      value={activeLayer.name}
+                      maxLength={100}
+                      onChange={(e) => patchActiveLayer({ name: e.target.value })}
+                      onBlur={(e) => {
+                        if (!e.target.value.trim()) {
+                          patchActiveLayer({
+                            name: viewerControls.layerName(layers.indexOf(activeLayer) + 1),
+                          });
+                        }
+                      }}
+                      className="w-full rounded-sm border border-gray-300 px-2 py-1 text-xs"
+                      aria-label={viewerControls.layerNameLabel}
+                    />
+                    <div className="text-xs text-gray-600 mt-2 mb-2">
+                      {viewerControls.layerOpacity(Math.round(activeLayer.opacity * 100))}
+                    </div>
+                    <div
+                      onPointerDown={() => setIsAdjusting(true)}
+                      onPointerUp={() => setIsAdjusting(false)}
+                      onPointerCancel={() => setIsAdjusting(false)}
+                    >
+                      <Slider
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={[activeLayer.opacity]}
+                        onValueChange={(v) => patchActiveLayer({ opacity: v[0] ?? 1 })}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      className="mt-3 flex items-center gap-1 text-xs text-red-600 hover:underline disabled:opacity-50 disabled:no-underline"
+                      onClick={deleteActiveLayer}
+                      disabled={layers.length <= 1}
+                    >
+                      <Trash2 size={12} />
+                      {viewerControls.deleteLayer}
+                    </button>
+                  </div>
+                )}
               </PopCard>
             )}
           </div>
@@ -750,11 +963,16 @@ export default function PenOverlay({
             )}
           </div>
 
-          {/* Clear */}
-          <ToolButton aria={viewerControls.clearAll} onClick={clearAll}>
+          {/* Clear active layer */}
+          <ToolButton aria={viewerControls.clearLayer} onClick={clearLayer}>
             <Trash2 size={16} />
           </ToolButton>
 
+          {/* Export with annotations */}
+          <ToolButton aria={viewerControls.exportAnnotated} onClick={exportImage}>
+            <Download size={16} />
+          </ToolButton>
+
           {/* Exit */}
           <ToolButton aria={viewerControls.exitPenMode} onClick={onExit}>
             <X size={16} />
@@ -769,13 +987,19 @@ export default function PenOverlay({
     size,
     opacity,
     color,
-    strokes.length,
+    history.length,
     redoStack.length,
-    layerOpacity,
-    layerVisible,
+    layers,
+    activeLayer,
+    activeLayerKey,
     bgFade,
     onExit,
-    clearAll,
+    clearLayer,
+    addLayer,
+    deleteActiveLayer,
+    patchActiveLayer,
+    updateLayers,
+    exportImage,
     isAdjusting,
     redo,
     undo,
@@ -791,11 +1015,11 @@ export default function PenOverlay({
         right: `${rightInset}px`,
         top: `${topInset}px`,
         bottom: 0,
-        pointerEvents: 'auto',
+        pointerEvents: readOnly ? 'none' : 'auto',
       }}
     >
       {/* Background fade overlay (image region only) */}
-      {bgRect && bgFade > 0 && (
+      {!readOnly && bgRect && bgFade > 0 && (
         <div
           className="absolute"
           style={{
@@ -814,7 +1038,9 @@ export default function PenOverlay({
         className="absolute inset-0"
         style={{
           pointerEvents:
-            isAdjusting || openPanel !== 'none' || openAuxPanel !== 'none' ? 'none' : 'auto',
+            readOnly || isAdjusting || openPanel !== 'none' || openAuxPanel !== 'none'
+              ? 'none'
+              : 'auto',
           touchAction: 'none',
           cursor: eraser ? 'crosshair' : 'crosshair',
         }}
@@ -830,7 +1056,7 @@ export default function PenOverlay({
         style={{ pointerEvents: 'none' }}
       />
       {/* Minimal tool palette (vertical) */}
-      {ToolPalette}
+      {!readOnly && ToolPalette}
     </div>
   );
 }
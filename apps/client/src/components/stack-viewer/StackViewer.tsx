@@ -18,7 +18,9 @@ import { createPortal } from 'react-dom';
 import { FullPageDropZone } from '@/components/ui/DropZone';
 import { FloatingUploadAction } from '@/components/ui/FloatingUploadAction';
 import { HeaderIconButton } from '@/components/ui/Header/HeaderIconButton';
+import ClipExportDialog, { type ClipExportValues } from '@/components/ui/SeekBar/ClipExportDialog';
 import MarkerEditorDialog from '@/components/ui/SeekBar/MarkerEditorDialog';
+import { useReadingProgress } from '@/hooks/features/useReadingProgress';
 import { useStackNavigation } from '@/hooks/features/useStackNavigation';
 import { useStackViewer } from '@/hooks/features/useStackViewer';
 import {
@@ -28,6 +30,7 @@ import {
 } from '@/hooks/features/useStackViewerInteractions';
 import { useStackViewerZoom } from '@/hooks/features/useStackViewerZoom';
 import { useViewerContextMenu } from '@/hooks/features/useViewerContextMenu';
+import { useAssetAnnotations } from '@/hooks/useAnnotations';
 import { useHeaderActions } from '@/hooks/useHeaderActions';
 import { useScratch } from '@/hooks/useScratch';
 import { useRightPanelPushesContent, useSidebarPushesContent } from '@/hooks/useSidebarLayoutMode';
@@ -46,6 +49,7 @@ import {
   selectionModeAtom,
   sidebarOpenAtom,
 } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 import {
   addFilesToQueueAtom,
   addUploadNotificationAtom,
@@ -181,7 +185,7 @@ function ViewerShell({
     <FullPageDropZone
       onDrop={onDrop}
       onUrlDrop={onUrlDrop}
-      accept="image/*,video/*,application/pdf,.pdf,.ai,.svg,.svgz"
+      accept="image/*,video/*,application/pdf,.pdf,.ai,.svg,.svgz,.cbz,.cbr,.cb7,.epub"
       multiple
       disabled={isPenMode || isNativeInteractionMode}
     >
@@ -216,6 +220,7 @@ export default function StackViewer({
   const addFilesToQueue = useSetAtom(addFilesToQueueAtom);
   const uploadNotifications = useAtomValue(uploadNotificationsAtom);
   const addNotification = useSetAtom(addUploadNotificationAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const { ensureScratch } = useScratch(datasetId);
   const queryClient = useQueryClient();
 
@@ -441,6 +446,44 @@ export default function StackViewer({
       stack.assets.findIndex((asset) => asset.id === currentAsset.id)
     );
   }, [currentAsset, stack]);
+  const isComicStack = stack?.mediaType === 'comic';
+  const { progress: readingProgress, isLoaded: isReadingProgressLoaded } = useReadingProgress({
+    datasetId,
+    stackId,
+    enabled: isComicStack,
+    assetIndex: stack && currentAsset ? currentAssetIndex : null,
+    isLastUnit: readingUnits.length > 0 && currentPage >= readingUnits.length - 1,
+  });
+  const [resumePoint, setResumePoint] = useState<{ stackId: string; page: number } | null>(null);
+  const resumedStackRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isComicStack || !isReadingProgressLoaded || readingUnits.length === 0) return;
+    if (resumedStackRef.current === stackId) return;
+    resumedStackRef.current = stackId;
+    if (!readingProgress || readingProgress.completed) {
+      setResumePoint(null);
+      return;
+    }
+    setResumePoint({ stackId, page: readingProgress.page });
+    // ページ指定付きで開いたときはそちらを優先する
+    if ((Number(routeSearch.page) || 0) > 0 || readingProgress.page <= 0) return;
+    setEdgeBoundaryArmedSide(null);
+    setCurrentPage(readingModel.assetIndexToUnitIndex.get(readingProgress.page) ?? 0);
+  }, [
+    isComicStack,
+    isReadingProgressLoaded,
+    readingModel.assetIndexToUnitIndex,
+    readingProgress,
+    readingUnits.length,
+    routeSearch.page,
+    setCurrentPage,
+    stackId,
+  ]);
+  const resumeUnitIndex =
+    resumePoint?.stackId === stackId
+      ? readingModel.assetIndexToUnitIndex.get(resumePoint.page)
+      : undefined;
+
   const bookmarkUnitIndexes = useMemo(() => {
     if (!stack) return [];
     const indexes = new Set<number>();
@@ -604,6 +647,12 @@ export default function StackViewer({
   const [isMetaNativeMode, setIsMetaNativeMode] = useState(false);
   const canUseImageTools =
     !!currentAsset && !isCurrentVideoAsset && !isListMode && isSingleFullImageUnit;
+  const annotationsQuery = useAssetAnnotations(
+    currentAsset && !isCurrentVideoAsset ? Number(currentAsset.id) : null
+  );
+  const hasVisibleAnnotations = !!annotationsQuery.data?.layers.some(
+    (layer) => layer.visible && layer.strokes.length > 0
+  );
   const canUseNativeInteraction = canUseImageTools && !isColorPicker && !isPenMode;
   const isNativeInteractionMode = canUseNativeInteraction && isMetaNativeMode;
   const markerDialogPlaybackRef = useRef<{ time: number; wasPlaying: boolean } | null>(null);
@@ -797,7 +846,12 @@ export default function StackViewer({
   const handleSeparateAsset = useCallback(
     async (assetId: string | number) => {
       try {
-        await apiClient.separateAsset(assetId);
+        const result = await apiClient.separateAsset(assetId);
+        showUndoToast({
+          operationId: result.operationId,
+          operation: 'assets.separate',
+          itemCount: 1,
+        });
         await refetch();
         await queryClient.invalidateQueries({ queryKey: ['stacks'] });
         await queryClient.invalidateQueries({ queryKey: ['library-counts', datasetId] });
@@ -805,7 +859,7 @@ export default function StackViewer({
         console.error('Failed to separate asset:', error);
       }
     },
-    [datasetId, queryClient, refetch]
+    [datasetId, queryClient, refetch, showUndoToast]
   );
 
   const handleDeleteCurrentStack = useCallback(async () => {
@@ -817,7 +871,8 @@ export default function StackViewer({
     if (!confirmed) return;
 
     try {
-      await apiClient.removeStack(stackIdValue);
+      const result = await apiClient.removeStack(stackIdValue);
+      showUndoToast({ operationId: result.operationId, operation: 'stacks.remove', itemCount: 1 });
       setIsInfoSidebarOpen(false);
       setSelectedItemId(null);
       await queryClient.invalidateQueries({ queryKey: ['stacks'] });
@@ -845,6 +900,7 @@ export default function StackViewer({
     queryClient,
     setIsInfoSidebarOpen,
     setSelectedItemId,
+    showUndoToast,
     stack,
     t,
   ]);
@@ -1069,6 +1125,49 @@ export default function StackViewer({
     () => setMarkerEditor((p) => (p ? { ...p, open: false } : p)),
     []
   );
+  const [clipExport, setClipExport] = useState<{ open: boolean; start: number; end?: number }>({
+    open: false,
+    start: 0,
+  });
+  const [isExportingClip, setIsExportingClip] = useState(false);
+  // 右クリックしたマーカーから次のマーカーまで（無ければ最後まで）を初期範囲にする
+  const openClipExport = useCallback(
+    (index: number) => {
+      const markers = getMarkersFor(currentAsset);
+      const marker = markers[index];
+      if (!marker) return;
+      const next = markers
+        .filter((candidate) => candidate.time > marker.time)
+        .sort((left, right) => left.time - right.time)[0];
+      setClipExport({ open: true, start: marker.time, end: next?.time });
+    },
+    [currentAsset, getMarkersFor]
+  );
+  const handleExportClip = useCallback(
+    async (values: ClipExportValues) => {
+      const asset = currentAsset;
+      if (!asset) return;
+      setIsExportingClip(true);
+      try {
+        await apiClient.exportAssetClip({ datasetId, stackId, assetId: asset.id, ...values });
+        addNotification({ type: 'success', message: t.viewerControls.clipExported });
+        setClipExport((prev) => ({ ...prev, open: false }));
+        await refetch();
+        if (values.destination === 'new-stack') {
+          await queryClient.invalidateQueries({ queryKey: ['stacks'] });
+        }
+      } catch (error) {
+        console.error('Failed to export clip:', error);
+        addNotification({
+          type: 'error',
+          message: error instanceof Error ? error.message : t.viewerControls.clipExportFailed,
+        });
+      } finally {
+        setIsExportingClip(false);
+      }
+    },
+    [addNotification, currentAsset, datasetId, queryClient, refetch, stackId, t]
+  );
 
   // Always enable gesture mode when stack changes
   useEffect(() => {
@@ -1513,6 +1612,12 @@ export default function StackViewer({
                     total={readingUnits.length}
                     openingDirection={readingSettings.openingDirection}
                     bookmarkIndexes={bookmarkUnitIndexes}
+                    resumeIndex={resumeUnitIndex}
+                    resumeLabel={
+                      resumePoint
+                        ? t.viewerControls.resumePosition(resumePoint.page + 1)
+                        : undefined
+                    }
                     visible={isPageSeekBarVisible}
                     onHoverStart={showPageSeekBar}
                     onHoverEnd={scheduleHidePageSeekBar}
@@ -1536,6 +1641,7 @@ export default function StackViewer({
                 onMoveMarkerRequest={handleMoveMarker}
                 onDeleteMarkerRequest={handleDeleteMarker}
                 onChangeMarkerColorRequest={handleChangeMarkerColor}
+                onExportRangeRequest={openClipExport}
                 gestureTransform={gestureState}
                 nativeDragEnabled={isNativeInteractionMode}
                 zoomTransform={zoomTransform}
@@ -1720,7 +1826,12 @@ export default function StackViewer({
                 !isReorderMode
                   ? async (assetId) => {
                       try {
-                        await apiClient.removeAsset(assetId);
+                        const result = await apiClient.removeAsset(assetId);
+                        showUndoToast({
+                          operationId: result.operationId,
+                          operation: 'assets.remove',
+                          itemCount: 1,
+                        });
                         await refetch();
                       } catch (error) {
                         console.error('Failed to remove asset:', error);
@@ -1890,13 +2001,16 @@ export default function StackViewer({
         </div>
       </div>
 
-      {/* Pen overlay (draws above content, below header) */}
-      {isPenMode && (
+      {/* Pen overlay (draws above content, below header). Saved layers stay visible outside pen mode */}
+      {(isPenMode || (canUseImageTools && hasVisibleAnnotations)) && (
         <PenOverlay
+          key={`${datasetId}:${stackId}:${currentAsset?.id ?? 'na'}`}
           leftInset={sidebarLeftInset}
           rightInset={infoSidebarRightInset}
           topInset={56}
-          docKey={`${datasetId}:${stackId}:${currentAsset?.id ?? 'na'}`}
+          assetId={currentAsset ? Number(currentAsset.id) : null}
+          readOnly={!isPenMode}
+          exportFileName={currentAsset?.originalName}
           getImageEl={() => imageCarouselRef.current?.getCurrentImageElement() || null}
           onExit={() => setIsPenMode(false)}
         />
@@ -1953,6 +2067,15 @@ export default function StackViewer({
         />
       )}
 
+      <ClipExportDialog
+        open={clipExport.open}
+        start={clipExport.start}
+        end={clipExport.end}
+        isExporting={isExportingClip}
+        onOpenChange={(open) => setClipExport((prev) => ({ ...prev, open }))}
+        onExport={handleExportClip}
+      />
+
       {/* Marker Editor Dialog */}
       {markerEditor && (
         <MarkerEditorDialog
@@ -0,0 +1,73 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { TagRulesPanel } from './TagRulesPanel';
+
+const copy = {
+  category: 'Category',
+  noCategory: 'No category',
+  newCategory: 'New category',
+  categoryName: 'Category name',
+  addCategory: 'Add category',
+  deleteCategory: 'Delete category',
+  aliases: 'Aliases',
+  aliasesDescription: 'Typing an alias adds this tag instead.',
+  addAlias: 'Add alias',
+  aliasPlaceholder: 'e.g. bw',
+  noAliases: 'No aliases',
+  implies: 'Implies',
+  impliesDescription: 'Stacks with this tag also get these tags, including existing ones.',
+  addImplication: 'Add parent tag',
+  implicationPlaceholder: 'Parent tag name',
+  noImplications: 'No parent tags',
+  impliedBy: 'Implied by',
+  remove: 'Remove',
+};
+
+const categories = [
+  { id: 1, name: 'Subject', color: '#f97316' },
+  { id: 2, name: 'Style', color: '#6366f1' },
+];
+
+const meta: Meta<typeof TagRulesPanel> = {
+  title: 'Tags/TagRulesPanel',
+  component: TagRulesPanel,
+  decorators: [
+    (Story) => (
+      <div className="bg-gray-50 p-6">
+        <Story />
+      </div>
+    ),
+  ],
+  args: {
+    copy,
+    categories,
+    tagTitles: ['animal', 'mammal', 'monochrome', 'sketch'],
+    rules: {
+      category: categories[0],
+      aliases: [{ id: 1, alias: 'kitty' }],
+      implies: [
+        { id: 10, title: 'animal' },
+        { id: 11, title: 'mammal' },
+      ],
+      impliedBy: [{ id: 20, title: 'kitten' }],
+    },
+    onSetCategory: () => {},
+    onCreateCategory: () => {},
+    onDeleteCategory: () => {},
+    onAddAlias: () => {},
+    onRemoveAlias: () => {},
+    onAddImplication: () => {},
+    onRemoveImplication: () => {},
+    onSelectTag: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof TagRulesPanel>;
+
+export const WithRules: Story = {};
+
+export const Empty: Story = {
+  args: {
+    rules: { category: null, aliases: [], implies: [], impliedBy: [] },
+  },
+};
@@ -0,0 +1,273 @@
+import { ArrowUp, Plus, Tags, Trash2, X } from 'lucide-react';
+import { type FormEvent, useState } from 'react';
+import type { TagCategory, TagRules } from '@/types';
+
+export interface TagRulesPanelCopy {
+  category: string;
+  noCategory: string;
+  newCategory: string;
+  categoryName: string;
+  addCategory: string;
+  deleteCategory: string;
+  aliases: string;
+  aliasesDescription: string;
+  addAlias: string;
+  aliasPlaceholder: string;
+  noAliases: string;
+  implies: string;
+  impliesDescription: string;
+  addImplication: string;
+  implicationPlaceholder: string;
+  noImplications: string;
+  impliedBy: string;
+  remove: string;
+}
+
+export interface TagRulesPanelProps {
+  copy: TagRulesPanelCopy;
+  rules: TagRules;
+  categories: TagCategory[];
+  /** 親タグ入力の候補 */
+  tagTitles: string[];
+  disabled?: boolean;
+  onSetCategory: (categoryId: number | null) => void;
+  onCreateCategory: (input: { name: string; color: string }) => void;
+  onDeleteCategory: (categoryId: number) => void;
+  onAddAlias: (alias: string) => void;
+  onRemoveAlias: (aliasId: number) => void;
+  onAddImplication: (title: string) => void;
+  onRemoveImplication: (impliedTagId: number) => void;
+  onSelectTag: (tagId: number) => void;
+}
+
+const DEFAULT_CATEGORY_COLOR = '#6366f1';
+
+const chipClassName =
+  'inline-flex items-center gap-1 rounded-full border bg-white px-2 py-0.5 text-xs text-gray-700';
+const inputClassName =
+  'min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs';
+const iconButtonClassName =
+  'inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs hover:bg-gray-100 disabled:opacity-50';
+
+export function TagRulesPanel({
+  copy,
+  rules,
+  categories,
+  tagTitles,
+  disabled,
+  onSetCategory,
+  onCreateCategory,
+  onDeleteCategory,
+  onAddAlias,
+  onRemoveAlias,
+  onAddImplication,
+  onRemoveImplication,
+  onSelectTag,
+}: TagRulesPanelProps) {
+  const [alias, setAlias] = useState('');
+  const [parentTitle, setParentTitle] = useState('');
+  const [categoryName, setCategoryName] = useState('');
+  const [categoryColor, setCategoryColor] = useState(DEFAULT_CATEGORY_COLOR);
+
+  const submitAlias = (event: FormEvent) => {
+    event.preventDefault();
+    if (!alias.trim()) return;
+    onAddAlias(alias.trim());
+    setAlias('');
+  };
+
+  const submitImplication = (event: FormEvent) => {
+    event.preventDefault();
+    if (!parentTitle.trim()) return;
+    onAddImplication(parentTitle.trim());
+    setParentTitle('');
+  };
+
+  const submitCategory = (event: FormEvent) => {
+    event.preventDefault();
+    if (!categoryName.trim()) return;
+    onCreateCategory({ name: categoryName.trim(), color: categoryColor });
+    setCategoryName('');
+  };
+
+  return (
+    <div className="grid gap-4 rounded-lg border bg-white p-4 md:grid-cols-3">
+      <section className="space-y-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          <span
+            className="h-2.5 w-2.5 rounded-full border"
+            style={{ backgroundColor: rules.category?.color ?? 'transparent' }}
+          />
+          {copy.category}
+        </h3>
+        <div className="flex gap-1.5">
+          <select
+            value={rules.category?.id ?? ''}
+            disabled={disabled}
+            onChange={(e) => onSetCategory(e.target.value ? Number(e.target.value) : null)}
+            className={inputClassName}
+          >
+            <option value="">{copy.noCategory}</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          {rules.category && (
+            <button
+              type="button"
+              title={copy.deleteCategory}
+              aria-label={copy.deleteCategory}
+              disabled={disabled}
+              onClick={() => rules.category && onDeleteCategory(rules.category.id)}
+              className={iconButtonClassName}
+            >
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+        <form onSubmit={submitCategory} className="flex gap-1.5">
+          <input
+            type="color"
+            value={categoryColor}
+            aria-label={copy.categoryName}
+            onChange={(e) => setCategoryColor(e.target.value)}
+            className="h-7 w-8 shrink-0 cursor-pointer rounded border border-gray-300 bg-white p-0.5"
+          />
+          <input
+            value={categoryName}
+            placeholder={copy.newCategory}
+            aria-label={copy.categoryName}
+            onChange={(e) => setCategoryName(e.target.value)}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            title={copy.addCategory}
+            aria-label={copy.addCategory}
+            disabled={disabled || !categoryName.trim()}
+            className={iconButtonClassName}
+          >
+            <Plus size={12} />
+          </button>
+        </form>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          <Tags size={14} />
+          {copy.aliases}
+        </h3>
+        <p className="text-xs text-gray-500">{copy.aliasesDescription}</p>
+        <div className="flex flex-wrap gap-1">
+          {rules.aliases.length === 0 ? (
+            <span className="text-xs text-gray-400">{copy.noAliases}</span>
+          ) : (
+            rules.aliases.map((entry) => (
+              <span key={entry.id} className={chipClassName}>
+                {entry.alias}
+                <button
+                  type="button"
+                  aria-label={copy.remove}
+                  disabled={disabled}
+                  onClick={() => onRemoveAlias(entry.id)}
+                  className="text-gray-400 hover:text-gray-700"
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))
+          )}
+        </div>
+        <form onSubmit={submitAlias} className="flex gap-1.5">
+          <input
+            value={alias}
+            placeholder={copy.aliasPlaceholder}
+            aria-label={copy.addAlias}
+            onChange={(e) => setAlias(e.target.value)}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={disabled || !alias.trim()}
+            className={iconButtonClassName}
+          >
+            <Plus size={12} />
+            {copy.addAlias}
+          </button>
+        </form>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          <ArrowUp size={14} />
+          {copy.implies}
+        </h3>
+        <p className="text-xs text-gray-500">{copy.impliesDescription}</p>
+        <div className="flex flex-wrap gap-1">
+          {rules.implies.length === 0 ? (
+            <span className="text-xs text-gray-400">{copy.noImplications}</span>
+          ) : (
+            rules.implies.map((parent) => (
+              <span key={parent.id} className={chipClassName}>
+                <button type="button" onClick={() => onSelectTag(parent.id)}>
+                  {parent.title}
+                </button>
+                <button
+                  type="button"
+                  aria-label={copy.remove}
+                  disabled={disabled}
+                  onClick={() => onRemoveImplication(parent.id)}
+                  className="text-gray-400 hover:text-gray-700"
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))
+          )}
+        </div>
+        <form onSubmit={submitImplication} className="flex gap-1.5">
+          <input
+            value={parentTitle}
+            list="tag-rules-parent-options"
+            placeholder={copy.implicationPlaceholder}
+            aria-label={copy.addImplication}
+            onChange={(e) => setParentTitle(e.target.value)}
+            className={inputClassName}
+          />
+          <datalist id="tag-rules-parent-options">
+            {tagTitles.map((title) => (
+              <option key={title} value={title} />
+            ))}
+          </datalist>
+          <button
+            type="submit"
+            disabled={disabled || !parentTitle.trim()}
+            className={iconButtonClassName}
+          >
+            <Plus size={12} />
+            {copy.addImplication}
+          </button>
+        </form>
+        {rules.impliedBy.length > 0 && (
+          <div className="space-y-1 pt-1">
+            <div className="text-xs text-gray-500">{copy.impliedBy}</div>
+            <div className="flex flex-wrap gap-1">
+              {rules.impliedBy.map((child) => (
+                <button
+                  key={child.id}
+                  type="button"
+                  onClick={() => onSelectTag(child.id)}
+                  className={`${chipClassName} hover:bg-gray-100`}
+                >
+                  {child.title}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import type { OperationType } from '@/types';
+import { TrashView } from './TrashView';
+
+const operationLabels: Record<OperationType, string> = {
+  'stacks.remove': 'Moved stack(s) to the trash',
+  'assets.remove': 'Moved item(s) to the trash',
+  'stacks.merge': 'Merged stack(s)',
+  'assets.separate': 'Separated an item into a new stack',
+  'tags.merge': 'Merged tag(s)',
+  'authors.merge': 'Merged author(s)',
+  'stacks.bulk-tags': 'Added tags to stack(s)',
+  'stacks.bulk-author': 'Set the author of stack(s)',
+  'stacks.bulk-media-type': 'Changed the media type of stack(s)',
+};
+
+const copy = {
+  title: 'Trash',
+  description: (days: number) =>
+    `Deleted stacks and items are kept here for ${days} day(s), then removed permanently.`,
+  loading: 'Loading…',
+  empty: 'The trash is empty.',
+  emptyTrash: 'Empty trash',
+  restore: 'Restore',
+  deletePermanently: 'Delete permanently',
+  stackItem: (count: number) => `Stack · ${count} item(s)`,
+  assetItem: (stackId: number | null) => (stackId ? `Item in stack #${stackId}` : 'Item'),
+  deletedAt: (date: string) => `Deleted ${date}`,
+  expiresAt: (date: string) => `Removed on ${date}`,
+  history: 'Recent operations',
+  historyDescription: (limit: number) => `The last ${limit} operations can be undone.`,
+  noHistory: 'No operations yet.',
+  undo: 'Undo',
+  undone: 'Undone',
+  operationLabel: (operation: OperationType, count: number) =>
+    `${operationLabels[operation]} (${count})`,
+};
+
+const meta: Meta<typeof TrashView> = {
+  title: 'Trash/TrashView',
+  component: TrashView,
+  args: {
+    items: [
+      {
+        id: 3,
+        dataSetId: 1,
+        itemType: 'stack',
+        itemId: 42,
+        stackId: null,
+        name: 'pose reference',
+        thumbnail: '/no-image.png',
+        assetCount: 6,
+        deletedAt: '2026-06-20T10:15:00.000Z',
+        expiresAt: '2026-07-20T10:15:00.000Z',
+      },
+      {
+        id: 2,
+        dataSetId: 1,
+        itemType: 'asset',
+        itemId: 310,
+        stackId: 17,
+        name: 'IMG_0042.jpg',
+        thumbnail: '/no-image.png',
+        assetCount: 1,
+        deletedAt: '2026-06-19T08:00:00.000Z',
+        expiresAt: '2026-07-19T08:00:00.000Z',
+      },
+    ],
+    retentionDays: 30,
+    operations: [
+      {
+        id: 9,
+        dataSetId: 1,
+        userId: 1,
+        operation: 'stacks.merge',
+        itemCount: 3,
+        createdAt: '2026-06-20T10:20:00.000Z',
+        undoneAt: null,
+      },
+      {
+        id: 8,
+        dataSetId: 1,
+        userId: 1,
+        operation: 'stacks.bulk-tags',
+        itemCount: 24,
+        createdAt: '2026-06-20T09:00:00.000Z',
+        undoneAt: '2026-06-20T09:01:00.000Z',
+      },
+    ],
+    operationLimit: 20,
+    copy,
+    onRestore: () => {},
+    onDelete: () => {},
+    onEmpty: () => {},
+    onUndo: () => {},
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof TrashView>;
+
+export const Default: Story = {};
+
+export const Empty: Story = {
+  args: { items: [], operations: [] },
+};
@@ -0,0 +1,199 @@
+import { History, Loader2, RotateCcw, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { OperationLogEntry, OperationType, TrashItem } from '@/types';
+
+export interface TrashViewCopy {
+  title: string;
+  description: (days: number) => string;
+  loading: string;
+  empty: string;
+  emptyTrash: string;
+  restore: string;
+  deletePermanently: string;
+  stackItem: (count: number) => string;
+  assetItem: (stackId: number | null) => string;
+  deletedAt: (date: string) => string;
+  expiresAt: (date: string) => string;
+  history: string;
+  historyDescription: (limit: number) => string;
+  noHistory: string;
+  undo: string;
+  undone: string;
+  operationLabel: (operation: OperationType, count: number) => string;
+}
+
+export interface TrashViewProps {
+  items: TrashItem[];
+  retentionDays: number;
+  operations: OperationLogEntry[];
+  operationLimit: number;
+  copy: TrashViewCopy;
+  loading?: boolean;
+  /** 処理中の行（`trash-<id>` / `operation-<id>` / `empty`） */
+  busyKey?: string | null;
+  onRestore: (item: TrashItem) => void;
+  onDelete: (item: TrashItem) => void;
+  onEmpty: () => void;
+  onUndo: (operation: OperationLogEntry) => void;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export function TrashView({
+  items,
+  retentionDays,
+  operations,
+  operationLimit,
+  copy,
+  loading = false,
+  busyKey = null,
+  onRestore,
+  onDelete,
+  onEmpty,
+  onUndo,
+}: TrashViewProps) {
+  return (
+    <div className="mx-auto w-full max-w-5xl space-y-6 px-4 py-6">
+      <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+        <div className="border-b border-gray-100 px-6 py-5">
+          <div className="flex min-w-0 items-center gap-3">
+            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-red-100 text-red-700">
+              <Trash2 size={20} />
+            </div>
+            <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.title}</h2>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={onEmpty}
+              disabled={items.length === 0 || busyKey === 'empty'}
+              className="h-7 shrink-0 px-2 text-xs text-red-600 hover:text-red-700"
+            >
+              {busyKey === 'empty' ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              {copy.emptyTrash}
+            </Button>
+          </div>
+          <p className="mt-3 text-sm text-gray-500">{copy.description(retentionDays)}</p>
+        </div>
+
+        {loading ? (
+          <p className="px-6 py-5 text-sm text-gray-500">{copy.loading}</p>
+        ) : items.length === 0 ? (
+          <p className="px-6 py-5 text-sm text-gray-500">{copy.empty}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {items.map((item) => {
+              const busy = busyKey === `trash-${item.id}`;
+              return (
+                <li key={item.id} className="flex items-center gap-3 px-6 py-3">
+                  <div className="h-14 w-14 shrink-0 overflow-hidden rounded-md bg-gray-50">
+                    <img
+                      src={item.thumbnail || '/no-image.png'}
+                      alt={item.name}
+                      loading="lazy"
+                      className="h-full w-full object-contain"
+                    />
+                  </div>
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <div className="truncate text-sm font-medium text-gray-900">{item.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {item.itemType === 'stack'
+                        ? copy.stackItem(item.assetCount)
+                        : copy.assetItem(item.stackId)}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {copy.deletedAt(formatDate(item.deletedAt))} ·{' '}
+                      {copy.expiresAt(formatDate(item.expiresAt))}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRestore(item)}
+                    disabled={busy}
+                    className="h-7 shrink-0 px-2 text-xs"
+                  >
+                    {busy ? (
+                      <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+                    )}
+                    {copy.restore}
+                  </Button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(item)}
+                    disabled={busy}
+                    title={copy.deletePermanently}
+                    aria-label={copy.deletePermanently}
+                    className="inline-flex h-7 w-7 shrink-0 items-center justify-center rounded text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+        <div className="border-b border-gray-100 px-6 py-5">
+          <div className="flex min-w-0 items-center gap-3">
+            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-gray-100 text-gray-700">
+              <History size={20} />
+            </div>
+            <h2 className="min-w-0 flex-1 text-base font-semibold text-gray-900">{copy.history}</h2>
+          </div>
+          <p className="mt-3 text-sm text-gray-500">{copy.historyDescription(operationLimit)}</p>
+        </div>
+
+        {operations.length === 0 ? (
+          <p className="px-6 py-5 text-sm text-gray-500">{copy.noHistory}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {operations.map((entry) => {
+              const busy = busyKey === `operation-${entry.id}`;
+              return (
+                <li key={entry.id} className="flex items-center gap-3 px-6 py-3">
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <div className="truncate text-sm text-gray-900">
+                      {copy.operationLabel(entry.operation, entry.itemCount)}
+                    </div>
+                    <div className="text-xs text-gray-400">{formatDate(entry.createdAt)}</div>
+                  </div>
+                  {entry.undoneAt ? (
+                    <span className="shrink-0 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-500">
+                      {copy.undone}
+                    </span>
+                  ) : (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onUndo(entry)}
+                      disabled={busy}
+                      className="h-7 shrink-0 px-2 text-xs"
+                    >
+                      {busy ? (
+                        <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Undo2 className="mr-1.5 h-3.5 w-3.5" />
+                      )}
+                      {copy.undo}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -52,7 +52,8 @@ interface DropZoneProps {
   disabled?: boolean;
 }
 
-export const DEFAULT_ACCEPT = 'image/*,video/*,application/pdf,.pdf,.ai,.svg,.svgz,.dng';
+export const DEFAULT_ACCEPT =
+  'image/*,video/*,application/pdf,.pdf,.ai,.svg,.svgz,.dng,.cbz,.cbr,.cb7,.epub,application/epub+zip';
 const ACCEPT_EXTENSION_GROUPS: Record<string, Set<string>> = {
   image: new Set([
     '.3fr',
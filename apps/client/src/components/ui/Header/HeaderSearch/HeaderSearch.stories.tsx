@@ -0,0 +1,15 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { HeaderSearch } from './HeaderSearch';
+
+const meta: Meta<typeof HeaderSearch> = {
+  title: 'Header/HeaderSearch',
+  component: HeaderSearch,
+  args: { placeholder: 'Search library', onSubmit: () => {} },
+};
+
+export default meta;
+type Story = StoryObj<typeof HeaderSearch>;
+
+export const Default: Story = {};
+export const WithQuery: Story = { args: { value: 'tag:sky -tag:draft is:fav' } };
+export const SyntaxError: Story = { args: { value: 'tag:sky (a OR' } };
@@ -0,0 +1,74 @@
+import { getSearchQueryError } from '@caramelboard/search-query';
+import { Search } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+export interface HeaderSearchProps {
+  value?: string;
+  onSubmit: (value: string | undefined) => void;
+  placeholder?: string;
+  'aria-label'?: string;
+  className?: string;
+}
+
+export function HeaderSearch({
+  value,
+  onSubmit,
+  placeholder,
+  'aria-label': ariaLabel,
+  className,
+}: HeaderSearchProps) {
+  const [draft, setDraft] = useState(value ?? '');
+  const isComposingRef = useRef(false);
+
+  // Keep the field in sync when the filter panel or URL changes the search
+  useEffect(() => {
+    setDraft(value ?? '');
+  }, [value]);
+
+  const error = getSearchQueryError(draft);
+
+  return (
+    <form
+      role="search"
+      className={cn('relative', className)}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (error) return;
+        const next = draft.trim() || undefined;
+        if (next !== (value || undefined)) onSubmit(next);
+      }}
+    >
+      <Search
+        size={14}
+        className="absolute left-2.5 top-1/2 -translate-y-1/2 text-white/70 pointer-events-none"
+      />
+      <input
+        type="search"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key !== 'Escape' || isComposingRef.current || e.nativeEvent.isComposing) return;
+          setDraft(value ?? '');
+          e.currentTarget.blur();
+        }}
+        onCompositionStart={() => {
+          isComposingRef.current = true;
+        }}
+        onCompositionEnd={() => {
+          setTimeout(() => {
+            isComposingRef.current = false;
+          }, 0);
+        }}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        aria-invalid={error ? true : undefined}
+        title={error ? `${error.message} (${error.position + 1})` : undefined}
+        className={cn(
+          'w-full h-9 pl-8 pr-2 rounded-md text-sm text-white placeholder-white/60 bg-white/10 border border-white/30 outline-none focus:bg-white/20 focus:border-white/60',
+          error && 'border-red-300 focus:border-red-300'
+        )}
+      />
+    </form>
+  );
+}
@@ -0,0 +1 @@
+export { HeaderSearch } from './HeaderSearch';
@@ -25,7 +25,10 @@ const baseCallbacks = {
   onDelete: () => {},
   onSetDefault: () => {},
   onStartRefresh: () => {},
+  onExport: () => {},
+  onImport: () => {},
   onProtectionClick: () => {},
+  onEncryptionClick: () => {},
 };
 
 export const Unlocked: Story = {
@@ -69,3 +72,26 @@ export const Locked: Story = {
     ...baseCallbacks,
   },
 };
+
+export const Encrypted: Story = {
+  args: {
+    dataset: {
+      id: 'library-encrypted',
+      name: 'Encrypted Library',
+      icon: '🔐',
+      itemCount: 64,
+      createdAt: '2024-03-01T00:00:00.000Z',
+      updatedAt: '2024-03-10T00:00:00.000Z',
+      themeColor: '#374151',
+      isDefault: false,
+      isProtected: true,
+      isEncrypted: true,
+      hasEncryptionKey: true,
+      authorized: true,
+    },
+    stats: { stackCount: 8, assetCount: 64 },
+    isRefreshing: false,
+    disableSetDefault: false,
+    ...baseCallbacks,
+  },
+};
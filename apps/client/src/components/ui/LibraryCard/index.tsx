@@ -1,9 +1,22 @@
 import EmojiPicker, { type EmojiClickData } from 'emoji-picker-react';
-import { Check, Edit2, Lock, Palette, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  Archive,
+  Check,
+  Clapperboard,
+  Download,
+  Edit2,
+  FileLock,
+  Lock,
+  Palette,
+  RefreshCw,
+  Tags,
+  Trash2,
+  Upload,
+} from 'lucide-react';
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { type Translations, useT } from '@/lib/i18n';
-import type { Dataset } from '@/types';
+import type { Dataset, DatasetSettings } from '@/types';
 
 export interface LibraryStats {
   stackCount: number;
@@ -20,11 +33,21 @@ interface LibraryCardProps {
   };
   stats?: LibraryStats | null;
   isRefreshing: boolean;
-  onUpdate: (updates: { name?: string; icon?: string; themeColor?: string }) => void;
+  isImporting?: boolean;
+  onUpdate: (updates: {
+    name?: string;
+    icon?: string;
+    themeColor?: string;
+    settings?: DatasetSettings;
+  }) => void;
   onDelete: () => void;
   onSetDefault: () => void;
   onStartRefresh: () => void;
+  onExport: () => void;
+  onImport: () => void;
+  onDetectScenes: () => void;
   onProtectionClick: () => void;
+  onEncryptionClick: () => void;
   disableSetDefault: boolean;
 }
 
@@ -56,6 +79,12 @@ export const PRESET_COLOR_GROUPS: Array<{ label: string; colors: string[] }> = [
   },
 ];
 
+const SCENE_SENSITIVITY_OPTIONS = [
+  { value: 0.25, labelKey: 'sceneSensitivityLow' },
+  { value: 0.5, labelKey: 'sceneSensitivityNormal' },
+  { value: 0.75, labelKey: 'sceneSensitivityHigh' },
+] as const;
+
 export const DEFAULT_CARAMEL_COLOR = PRESET_COLOR_GROUPS[0].colors[0];
 
 export const getColorGroupLabel = (t: Translations, label: string) => {
@@ -77,11 +106,16 @@ export function LibraryCard({
   dataset,
   stats,
   isRefreshing,
+  isImporting = false,
   onUpdate,
   onDelete,
   onSetDefault,
   onStartRefresh,
+  onExport,
+  onImport,
+  onDetectScenes,
   onProtectionClick,
+  onEncryptionClick,
   disableSetDefault,
 }: LibraryCardProps) {
   const t = useT();
@@ -92,6 +126,8 @@ export function LibraryCard({
   const [emojiOpen, setEmojiOpen] = useState(false);
   const [colorOpen, setColorOpen] = useState(false);
   const nameInputRef = useRef<HTMLInputElement | null>(null);
+  const keywordTagsEnabled = dataset.settings?.importKeywordsAsTags === true;
+  const sceneSensitivity = dataset.settings?.sceneSensitivity ?? 0.5;
 
   useEffect(() => {
     setNameValue(dataset.name ?? '');
@@ -324,8 +360,12 @@ export function LibraryCard({
             </span>
             <button
               type="button"
-              className="px-3 py-1.5 text-xs rounded-md border hover:bg-gray-100"
+              className="px-3 py-1.5 text-xs rounded-md border hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent"
               onClick={onProtectionClick}
+              disabled={dataset.hasEncryptionKey}
+              title={
+                dataset.hasEncryptionKey ? t.library.decryptBeforeDisablingProtection : undefined
+              }
             >
               {(dataset as any).isProtected ? t.library.disable : t.library.enable}
             </button>
@@ -333,6 +373,100 @@ export function LibraryCard({
         </div>
       </div>
 
+      {dataset.isProtected ? (
+        <div className="border-t px-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <FileLock size={18} className="shrink-0 text-gray-500" />
+              <div className="min-w-0">
+                <span className="text-sm font-medium">{t.library.fileEncryption}</span>
+                <p className="text-xs text-gray-500">{t.library.fileEncryptionHint}</p>
+              </div>
+            </div>
+            <div className="flex shrink-0 items-center gap-3">
+              <span className="text-sm text-gray-600">
+                {dataset.isEncrypted
+                  ? t.library.enabled
+                  : dataset.hasEncryptionKey
+                    ? t.library.encryptionDecrypting
+                    : t.library.disabled}
+              </span>
+              <button
+                type="button"
+                className="px-3 py-1.5 text-xs rounded-md border hover:bg-gray-100"
+                onClick={onEncryptionClick}
+              >
+                {dataset.isEncrypted ? t.library.decryptFiles : t.library.encryptFiles}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="border-t px-6 py-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Tags size={18} className="shrink-0 text-gray-500" />
+            <div className="min-w-0">
+              <span className="text-sm font-medium">{t.library.keywordTags}</span>
+              <p className="text-xs text-gray-500">{t.library.keywordTagsHint}</p>
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-3">
+            <span className="text-sm text-gray-600">
+              {keywordTagsEnabled ? t.library.enabled : t.library.disabled}
+            </span>
+            <button
+              type="button"
+              className="px-3 py-1.5 text-xs rounded-md border hover:bg-gray-100"
+              onClick={() =>
+                onUpdate({
+                  settings: { ...dataset.settings, importKeywordsAsTags: !keywordTagsEnabled },
+                })
+              }
+            >
+              {keywordTagsEnabled ? t.library.disable : t.library.enable}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="border-t px-6 py-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Clapperboard size={18} className="shrink-0 text-gray-500" />
+            <div className="min-w-0">
+              <span className="text-sm font-medium">{t.library.sceneDetection}</span>
+              <p className="text-xs text-gray-500">{t.library.sceneDetectionHint}</p>
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <select
+              className="rounded-md border px-2 py-1.5 text-xs"
+              value={String(sceneSensitivity)}
+              onChange={(e) =>
+                onUpdate({
+                  settings: { ...dataset.settings, sceneSensitivity: Number(e.target.value) },
+                })
+              }
+            >
+              {SCENE_SENSITIVITY_OPTIONS.map((option) => (
+                <option key={option.value} value={String(option.value)}>
+                  {t.library[option.labelKey]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="px-3 py-1.5 text-xs rounded-md border hover:bg-gray-100"
+              onClick={onDetectScenes}
+            >
+              {t.library.detectScenes}
+            </button>
+          </div>
+        </div>
+      </div>
+
       <div className="border-t px-6 py-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
@@ -351,6 +485,37 @@ export function LibraryCard({
           </button>
         </div>
       </div>
+
+      <div className="border-t px-6 py-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Archive size={18} className="shrink-0 text-gray-500" />
+            <div className="min-w-0">
+              <span className="text-sm font-medium">{t.library.archive}</span>
+              <p className="text-xs text-gray-500">{t.library.archiveHint}</p>
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <button
+              type="button"
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md border hover:bg-gray-100"
+              onClick={onExport}
+            >
+              <Download size={14} />
+              {t.library.exportLibrary}
+            </button>
+            <button
+              type="button"
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md border hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={onImport}
+              disabled={isImporting}
+            >
+              <Upload size={14} />
+              {isImporting ? t.library.importing : t.library.importIntoLibrary}
+            </button>
+          </div>
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,220 @@
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useT } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import type { ClipExportDestination, ClipExportFormat } from '@/types';
+
+export interface ClipExportValues {
+  start: number;
+  /** undefined なら動画の終わりまで */
+  end?: number;
+  format: ClipExportFormat;
+  fps?: number;
+  width?: number;
+  destination: ClipExportDestination;
+}
+
+export interface ClipExportDialogProps {
+  open: boolean;
+  start: number;
+  end?: number;
+  isExporting?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (values: ClipExportValues) => void;
+}
+
+const FORMATS: ClipExportFormat[] = ['mp4', 'webp', 'gif'];
+const INPUT_CLASS =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+const parseOptionalNumber = (value: string) => {
+  const trimmed = value.trim().replace(/,/g, '.');
+  if (!trimmed) return undefined;
+  const parsed = Number.parseFloat(trimmed);
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+};
+
+export default function ClipExportDialog({
+  open,
+  start,
+  end,
+  isExporting = false,
+  onOpenChange,
+  onExport,
+}: ClipExportDialogProps) {
+  const t = useT();
+  const [startStr, setStartStr] = React.useState(String(start));
+  const [endStr, setEndStr] = React.useState(end === undefined ? '' : String(end));
+  const [format, setFormat] = React.useState<ClipExportFormat>('mp4');
+  const [fpsStr, setFpsStr] = React.useState('');
+  const [widthStr, setWidthStr] = React.useState('');
+  const [destination, setDestination] = React.useState<ClipExportDestination>('stack');
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setStartStr(String(start));
+    setEndStr(end === undefined ? '' : String(end));
+    setError(null);
+  }, [end, open, start]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const startValue = parseOptionalNumber(startStr) ?? 0;
+    const endValue = parseOptionalNumber(endStr);
+    const fps = parseOptionalNumber(fpsStr);
+    const width = parseOptionalNumber(widthStr);
+    if (
+      !Number.isFinite(startValue) ||
+      startValue < 0 ||
+      Number.isNaN(endValue) ||
+      (endValue !== undefined && endValue <= startValue)
+    ) {
+      setError(t.viewerControls.invalidClipRange);
+      return;
+    }
+    if (Number.isNaN(fps) || Number.isNaN(width)) {
+      setError(t.viewerControls.invalidClipSize);
+      return;
+    }
+    onExport({
+      start: startValue,
+      end: endValue,
+      format,
+      fps: fps === undefined ? undefined : Math.round(fps),
+      width: width === undefined ? undefined : Math.round(width),
+      destination,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm" onOpenAutoFocus={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle>{t.viewerControls.exportRange}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="mt-2 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1 text-sm text-gray-700">
+              <span>{t.viewerControls.clipStart}</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={startStr}
+                onChange={(e) => {
+                  setStartStr(e.target.value);
+                  setError(null);
+                }}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="space-y-1 text-sm text-gray-700">
+              <span>{t.viewerControls.clipEnd}</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={endStr}
+                onChange={(e) => {
+                  setEndStr(e.target.value);
+                  setError(null);
+                }}
+                className={INPUT_CLASS}
+                placeholder={t.viewerControls.clipEndPlaceholder}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm text-gray-700">{t.viewerControls.clipFormat}</span>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFormat(value)}
+                  className={cn(
+                    'rounded-md border px-3 py-2 text-xs font-medium uppercase transition-colors',
+                    format === value
+                      ? 'border-primary bg-primary/10 text-primary'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  )}
+                  aria-pressed={format === value}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1 text-sm text-gray-700">
+              <span>{t.viewerControls.clipFps}</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={fpsStr}
+                onChange={(e) => {
+                  setFpsStr(e.target.value);
+                  setError(null);
+                }}
+                className={INPUT_CLASS}
+                placeholder={format === 'mp4' ? t.viewerControls.clipOriginal : '15'}
+              />
+            </label>
+            <label className="space-y-1 text-sm text-gray-700">
+              <span>{t.viewerControls.clipWidth}</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={widthStr}
+                onChange={(e) => {
+                  setWidthStr(e.target.value);
+                  setError(null);
+                }}
+                className={INPUT_CLASS}
+                placeholder={t.viewerControls.clipOriginal}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm text-gray-700">{t.viewerControls.clipDestination}</span>
+            <div className="grid grid-cols-2 gap-2">
+              {(['stack', 'new-stack'] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setDestination(value)}
+                  className={cn(
+                    'rounded-md border px-3 py-2 text-xs font-medium transition-colors',
+                    destination === value
+                      ? 'border-primary bg-primary/10 text-primary'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  )}
+                  aria-pressed={destination === value}
+                >
+                  {value === 'stack'
+                    ? t.viewerControls.clipToSameStack
+                    : t.viewerControls.clipToNewStack}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t.common.cancel}
+            </Button>
+            <Button type="submit" disabled={isExporting}>
+              {isExporting ? t.viewerControls.exportingClip : t.viewerControls.exportClip}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
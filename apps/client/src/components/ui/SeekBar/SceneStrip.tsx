@@ -0,0 +1,127 @@
+import type { PointerEvent } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import type { VideoSceneStrip } from '@/types';
+
+const FRAME_WIDTH_PX = 64;
+
+interface SceneStripProps {
+  strip: VideoSceneStrip;
+  /** キャッシュ対策に URL へ付けるバージョン（検出日時など） */
+  version?: string;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  getFrameLabel?: (time: number) => string;
+  className?: string;
+}
+
+/** 現在位置を含むシーン（開始秒が currentTime 以下で最も後ろのコマ） */
+export const findSceneIndex = (times: number[], currentTime: number) => {
+  let found = 0;
+  for (const [index, time] of times.entries()) {
+    if (time <= currentTime) found = index;
+    else break;
+  }
+  return found;
+};
+
+export default function SceneStrip({
+  strip,
+  version,
+  currentTime,
+  onSeek,
+  getFrameLabel,
+  className,
+}: SceneStripProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrubPointerRef = useRef<number | null>(null);
+  const frameHeight = Math.round((FRAME_WIDTH_PX * strip.frameHeight) / strip.frameWidth);
+  const activeIndex = findSceneIndex(strip.times, currentTime);
+  // 保護されたライブラリでは URL に署名のクエリが付いている
+  const imageUrl = version
+    ? `${strip.url}${strip.url.includes('?') ? '&' : '?'}v=${encodeURIComponent(version)}`
+    : strip.url;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const frame = container?.children[activeIndex] as HTMLElement | undefined;
+    frame?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeIndex]);
+
+  // 押したまま左右になぞると、触れたコマのシーンへ順に移動する
+  const seekToFrameAt = useCallback(
+    (clientX: number) => {
+      const container = containerRef.current;
+      if (!container) return;
+      const rect = container.getBoundingClientRect();
+      const offset = clientX - rect.left + container.scrollLeft;
+      const index = Math.min(
+        strip.times.length - 1,
+        Math.max(0, Math.floor(offset / FRAME_WIDTH_PX))
+      );
+      onSeek(strip.times[index]);
+    },
+    [onSeek, strip.times]
+  );
+
+  const handlePointerDown = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (e.pointerType === 'mouse' && e.button !== 0) return;
+      e.stopPropagation();
+      scrubPointerRef.current = e.pointerId;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      seekToFrameAt(e.clientX);
+    },
+    [seekToFrameAt]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (scrubPointerRef.current !== e.pointerId) return;
+      e.stopPropagation();
+      seekToFrameAt(e.clientX);
+    },
+    [seekToFrameAt]
+  );
+
+  const handlePointerEnd = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    if (scrubPointerRef.current !== e.pointerId) return;
+    scrubPointerRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  }, []);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('flex overflow-x-auto rounded-md bg-black/40 select-none', className)}
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {strip.times.map((time, index) => (
+        <div
+          key={time}
+          role="img"
+          aria-label={getFrameLabel?.(time)}
+          title={getFrameLabel?.(time)}
+          className={cn(
+            'shrink-0 bg-no-repeat opacity-70 transition-opacity',
+            index === activeIndex && 'opacity-100 outline outline-2 -outline-offset-2 outline-white'
+          )}
+          style={{
+            width: FRAME_WIDTH_PX,
+            height: frameHeight,
+            backgroundImage: `url(${imageUrl})`,
+            backgroundSize: `${FRAME_WIDTH_PX * strip.times.length}px ${frameHeight}px`,
+            backgroundPosition: `-${index * FRAME_WIDTH_PX}px 0`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
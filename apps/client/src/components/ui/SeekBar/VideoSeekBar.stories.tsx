@@ -73,3 +73,34 @@ export const WithMarkerActions: Story = {
     );
   },
 };
+
+export const WithScenes: Story = {
+  render: (args) => {
+    const [currentTime, setCurrentTime] = useState(args.currentTime ?? 42);
+    const times = [0, 18.4, 42, 77.5, 121, 150.2];
+
+    return (
+      <div className="w-[720px] bg-neutral-900 p-6">
+        <VideoSeekBar
+          {...args}
+          currentTime={currentTime}
+          onSeek={setCurrentTime}
+          markers={times
+            .filter((time) => time > 0)
+            .map((time) => ({ time, color: 'light-gray', label: '', type: 'scene' as const }))}
+          scenes={{
+            sensitivity: 0.5,
+            detectedAt: '2024-05-01T00:00:00.000Z',
+            times,
+            strip: {
+              url: 'https://placehold.co/960x90/png',
+              frameWidth: 160,
+              frameHeight: 90,
+              times,
+            },
+          }}
+        />
+      </div>
+    );
+  },
+};
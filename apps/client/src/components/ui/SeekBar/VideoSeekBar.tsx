@@ -1,4 +1,4 @@
-import { SquareStack, Volume2, VolumeX } from 'lucide-react';
+import { Film, SquareStack, Volume2, VolumeX } from 'lucide-react';
 import type { MouseEvent, PointerEvent, KeyboardEvent as ReactKeyboardEvent } from 'react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
@@ -15,7 +15,8 @@ import { Marker } from '@/components/ui/Marker';
 import TimeBadge from '@/components/ui/TimeBadge/TimeBadge';
 import { type Translations, useT } from '@/lib/i18n';
 import { cn } from '@/lib/utils';
-import type { VideoMarker } from '@/types';
+import type { VideoMarker, VideoScenes } from '@/types';
+import SceneStrip from './SceneStrip';
 import SeekTrack, { type SeekTrackMarker, type SeekTrackRenderMarkerParams } from './SeekTrack';
 
 const MARKER_COLOR_OPTIONS = [
@@ -89,6 +90,10 @@ interface VideoSeekBarProps {
   onDeleteMarkerRequest?: (index: number) => void;
   /** 右クリックメニューからマーカー色変更 */
   onChangeMarkerColorRequest?: (index: number, color: string) => void;
+  /** 右クリックメニューからマーカー位置以降の範囲を書き出す */
+  onExportRangeRequest?: (index: number) => void;
+  /** シーン検出の結果（ストリップがあれば切り替えボタンを出す） */
+  scenes?: VideoScenes | null;
 }
 
 export default function VideoSeekBar({
@@ -109,8 +114,11 @@ export default function VideoSeekBar({
   onMoveMarkerRequest,
   onDeleteMarkerRequest,
   onChangeMarkerColorRequest,
+  onExportRangeRequest,
+  scenes,
 }: VideoSeekBarProps) {
   const t = useT();
+  const [isSceneStripOpen, setIsSceneStripOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [dragTime, setDragTime] = useState(0);
   const [draggingMarker, setDraggingMarker] = useState<{ index: number; time: number } | null>(
@@ -298,6 +306,11 @@ export default function VideoSeekBar({
             <ContextMenuItem onSelect={() => onEditMarkerRequest?.(marker, index)}>
               {t.viewerControls.editMarker}
             </ContextMenuItem>
+            {onExportRangeRequest && (
+              <ContextMenuItem onSelect={() => onExportRangeRequest(index)}>
+                {t.viewerControls.exportRange}
+              </ContextMenuItem>
+            )}
             <ContextMenuSub>
               <ContextMenuSubTrigger>{t.viewerControls.color}</ContextMenuSubTrigger>
               <ContextMenuSubContent
@@ -352,6 +365,7 @@ export default function VideoSeekBar({
       onChangeMarkerColorRequest,
       onDeleteMarkerRequest,
       onEditMarkerRequest,
+      onExportRangeRequest,
       onMoveMarkerRequest,
       t,
     ]
@@ -658,6 +672,25 @@ export default function VideoSeekBar({
         {/* Duration */}
         <TimeBadge seconds={duration} />
 
+        {scenes?.strip && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsSceneStripOpen((open) => !open);
+            }}
+            className={cn(
+              'shrink-0 inline-flex items-center justify-center',
+              'w-7 h-7 rounded-full bg-black/40 hover:bg-black/60 transition-colors',
+              isSceneStripOpen ? 'text-primary' : 'text-white hover:text-primary'
+            )}
+            aria-pressed={isSceneStripOpen}
+            title={isSceneStripOpen ? t.viewerControls.hideScenes : t.viewerControls.showScenes}
+          >
+            <Film className="w-4 h-4" />
+          </button>
+        )}
+
         {/* FPS toggle at right end */}
         <button
           type="button"
@@ -676,6 +709,16 @@ export default function VideoSeekBar({
           <span className="tabular-nums">{fps ?? 30}</span>
         </button>
       </div>
+      {scenes?.strip && isSceneStripOpen && (
+        <SceneStrip
+          strip={scenes.strip}
+          version={scenes.detectedAt}
+          currentTime={isDragging ? dragTime : currentTime}
+          onSeek={onSeek}
+          getFrameLabel={(time) => t.viewerControls.sceneAt(time.toFixed(2))}
+          className="mt-2"
+        />
+      )}
     </div>
   );
 }
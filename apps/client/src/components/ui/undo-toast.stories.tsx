@@ -0,0 +1,52 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createStore, Provider as JotaiProvider } from 'jotai';
+import { useMemo } from 'react';
+import { type UndoToast as UndoToastState, undoToastAtom } from '@/stores/undo';
+import { UndoToast } from './undo-toast';
+
+const meta: Meta<typeof UndoToast> = {
+  title: 'UI/UndoToast',
+  component: UndoToast,
+  parameters: {
+    layout: 'fullscreen',
+  },
+};
+
+export default meta;
+
+type Story = StoryObj<typeof UndoToast>;
+
+function UndoToastStory({ toast }: { toast: UndoToastState }) {
+  const queryClient = useMemo(() => new QueryClient(), []);
+  const store = useMemo(() => {
+    const storyStore = createStore();
+    storyStore.set(undoToastAtom, toast);
+    return storyStore;
+  }, [toast]);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <JotaiProvider store={store}>
+        <div className="min-h-screen bg-gray-100" />
+        <UndoToast />
+      </JotaiProvider>
+    </QueryClientProvider>
+  );
+}
+
+export const StacksMerged: Story = {
+  render: () => (
+    <UndoToastStory
+      toast={{ id: 'merge', operationId: 1, operation: 'stacks.merge', itemCount: 3 }}
+    />
+  ),
+};
+
+export const StacksRemoved: Story = {
+  render: () => (
+    <UndoToastStory
+      toast={{ id: 'remove', operationId: 2, operation: 'stacks.remove', itemCount: 128 }}
+    />
+  ),
+};
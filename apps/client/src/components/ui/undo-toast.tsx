@@ -0,0 +1,67 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useAtom, useSetAtom } from 'jotai';
+import { Loader2, Undo2, X } from 'lucide-react';
+import { useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { useT } from '@/lib/i18n';
+import { undoToastAtom } from '@/stores/undo';
+import { addUploadNotificationAtom } from '@/stores/upload';
+
+export function UndoToast() {
+  const t = useT();
+  const queryClient = useQueryClient();
+  const [toast, setToast] = useAtom(undoToastAtom);
+  const addNotification = useSetAtom(addUploadNotificationAtom);
+  const [undoing, setUndoing] = useState(false);
+
+  if (!toast) return null;
+
+  const handleUndo = async () => {
+    setUndoing(true);
+    try {
+      await apiClient.undoOperation(toast.operationId);
+      setToast(null);
+      addNotification({ type: 'success', message: t.trash.undoSucceeded });
+      await queryClient.invalidateQueries();
+    } catch (error) {
+      setToast(null);
+      addNotification({
+        type: 'error',
+        message: error instanceof Error ? error.message : t.trash.undoFailed,
+      });
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-x-3 bottom-[calc(env(safe-area-inset-bottom)+0.75rem)] z-[120] flex justify-center sm:inset-x-auto sm:left-4 lg:bottom-4">
+      <div className="flex w-full items-center gap-3 rounded-lg bg-gray-900 py-2.5 pl-4 pr-2 text-white shadow-lg sm:w-auto sm:min-w-80">
+        <span className="min-w-0 flex-1 text-xs font-medium leading-snug lg:text-sm">
+          {t.trash.operations[toast.operation](toast.itemCount)}
+        </span>
+        <button
+          type="button"
+          onClick={() => void handleUndo()}
+          disabled={undoing}
+          className="inline-flex shrink-0 items-center gap-1.5 rounded px-2 py-1 text-xs font-semibold text-amber-300 transition-colors hover:bg-white/10 disabled:opacity-60 lg:text-sm"
+        >
+          {undoing ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Undo2 className="h-3.5 w-3.5" />
+          )}
+          {t.trash.undo}
+        </button>
+        <button
+          type="button"
+          onClick={() => setToast(null)}
+          aria-label={t.common.close}
+          className="inline-flex h-7 w-7 shrink-0 items-center justify-center rounded text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { AppHeader } from '@/components/ui/Header/AppHeader';
 import { HeaderIconButton } from '@/components/ui/Header/HeaderIconButton';
+import { HeaderSearch } from '@/components/ui/Header/HeaderSearch';
 import { useDatasets } from '@/hooks/useDatasets';
 import { isScratchCollection } from '@/hooks/useScratch';
 import { useSidebarPushesContent } from '@/hooks/useSidebarLayoutMode';
@@ -21,6 +22,7 @@ import { getDefaultPinDisplayName, useT } from '@/lib/i18n';
 import { cn } from '@/lib/utils';
 import {
   currentDatasetAtom,
+  currentFilterAtom,
   filterOpenAtom,
   hasActiveFiltersAtom,
   headerActionsAtom,
@@ -40,6 +42,7 @@ export default function HeaderContainer() {
   const [selectionMode, setSelectionMode] = useAtom(selectionModeAtom);
   const [reorderMode, setReorderMode] = useAtom(reorderModeAtom);
   const [headerActions] = useAtom(headerActionsAtom);
+  const [currentFilter, setCurrentFilter] = useAtom(currentFilterAtom);
   const [hasActiveFilters] = useAtom(hasActiveFiltersAtom);
   const [infoSidebarOpen, setInfoSidebarOpen] = useAtom(infoSidebarOpenAtom);
   const { data: datasets = [] } = useDatasets();
@@ -145,6 +148,17 @@ export default function HeaderContainer() {
     return () => window.removeEventListener('resize', checkCompactMode);
   }, [navigationPins.length, sidebarPushesContent]);
 
+  const handleHeaderSearch = useCallback(
+    (search: string | undefined) => {
+      if (headerActions.onSearch) {
+        headerActions.onSearch(search);
+        return;
+      }
+      setCurrentFilter((previous) => ({ ...previous, search }));
+    },
+    [headerActions, setCurrentFilter]
+  );
+
   const left = (
     <>
       <HeaderIconButton
@@ -217,6 +231,16 @@ export default function HeaderContainer() {
 
   const right = (
     <>
+      {headerActions.showFilter && !selectionMode && (
+        <HeaderSearch
+          value={currentFilter.search}
+          onSubmit={handleHeaderSearch}
+          placeholder={t.header.search}
+          aria-label={t.header.search}
+          className="hidden md:block w-56"
+        />
+      )}
+
       {headerActions.showFilter && (
         <HeaderIconButton
           onClick={() => !selectionMode && setFilterOpen(!filterOpen)}
@@ -0,0 +1,92 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { apiClient } from '@/lib/api-client';
+
+const SAVE_DELAY_MS = 800;
+
+interface UseReadingProgressOptions {
+  datasetId: string;
+  stackId: string;
+  enabled: boolean;
+  /** 表示中のアセット位置（0 始まり）。null の間は保存しない */
+  assetIndex: number | null;
+  isLastUnit: boolean;
+}
+
+type PendingSave = {
+  stackId: string;
+  page: number;
+  completed: boolean;
+};
+
+/** コミックの読書位置を読み込み、ページ送りに合わせてサーバーへ保存する */
+export function useReadingProgress({
+  datasetId,
+  stackId,
+  enabled,
+  assetIndex,
+  isLastUnit,
+}: UseReadingProgressOptions) {
+  const queryClient = useQueryClient();
+  const { data, isFetchedAfterMount: isFetched } = useQuery({
+    queryKey: ['reading-progress', datasetId, stackId],
+    queryFn: ({ signal }) => apiClient.getReadingProgress(datasetId, stackId, { signal }),
+    enabled,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+  const progress = data?.progress ?? null;
+  const pendingRef = useRef<PendingSave | null>(null);
+  const lastSavedRef = useRef<string | null>(null);
+  const openedRef = useRef<{ stackId: string; assetIndex: number; moved: boolean } | null>(null);
+
+  const flushRef = useRef(() => {});
+  flushRef.current = () => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending) return;
+    lastSavedRef.current = `${pending.stackId}:${pending.page}:${pending.completed}`;
+    void apiClient
+      .saveReadingProgress(datasetId, pending.stackId, {
+        page: pending.page,
+        completed: pending.completed,
+      })
+      .then(() => queryClient.invalidateQueries({ queryKey: ['dataset-overview', datasetId] }))
+      .catch((error) => {
+        lastSavedRef.current = null;
+        console.error('Failed to save reading progress:', error);
+      });
+  };
+
+  useEffect(() => {
+    if (!isFetched) return;
+    lastSavedRef.current = progress ? `${stackId}:${progress.page}:${progress.completed}` : null;
+  }, [isFetched, progress, stackId]);
+
+  useEffect(() => {
+    if (!enabled || !isFetched || assetIndex === null) return;
+    if (openedRef.current?.stackId !== stackId) {
+      openedRef.current = { stackId, assetIndex, moved: false };
+    }
+    // 開いた位置から動くまでは保存しない（読了済みを開き直しただけで読みかけに戻さない）
+    if (openedRef.current.assetIndex !== assetIndex) openedRef.current.moved = true;
+    if (!openedRef.current.moved) return;
+    const key = `${stackId}:${assetIndex}:${isLastUnit}`;
+    if (lastSavedRef.current === key) {
+      pendingRef.current = null;
+      return;
+    }
+
+    pendingRef.current = { stackId, page: assetIndex, completed: isLastUnit };
+    const timer = setTimeout(() => flushRef.current(), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [assetIndex, enabled, isFetched, isLastUnit, stackId]);
+
+  // スタックを離れるときは待たずに保存する
+  useEffect(() => {
+    void stackId;
+    return () => flushRef.current();
+  }, [stackId]);
+
+  return { progress, isLoaded: !enabled || isFetched };
+}
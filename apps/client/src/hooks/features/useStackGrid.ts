@@ -1,5 +1,5 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAtom } from 'jotai';
+import { useAtom, useSetAtom } from 'jotai';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { apiClient } from '@/lib/api-client';
 import {
@@ -14,6 +14,7 @@ import {
   selectionModeAtom,
   sidebarOpenAtom,
 } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 import type { MediaGridItem } from '@/types';
 import { useThrottle } from '../utils/useThrottle';
 import { useAnimationState } from './useAnimationState';
@@ -70,6 +71,7 @@ export function useStackGrid({
   const [sidebarOpen] = useAtom(sidebarOpenAtom);
   const [infoSidebarOpen, setInfoSidebarOpen] = useAtom(infoSidebarOpenAtom);
   const [selectedItemId, setSelectedItemId] = useAtom(selectedItemIdAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   // const [minColumns] = useAtom(minColumnsAtom);
   // const [minItemSize] = useAtom(minItemSizeAtom);
   const queryClient = useQueryClient();
@@ -515,17 +517,32 @@ export function useStackGrid({
 
       try {
         if (updates.addTags && updates.addTags.length > 0) {
-          await apiClient.bulkAddTags(stackIds, updates.addTags);
+          const result = await apiClient.bulkAddTags(stackIds, updates.addTags);
+          showUndoToast({
+            operationId: result.operationId,
+            operation: 'stacks.bulk-tags',
+            itemCount: stackIds.length,
+          });
           hasMutation = true;
         }
 
         if (updates.setAuthor) {
-          await apiClient.bulkSetAuthor(stackIds, updates.setAuthor);
+          const result = await apiClient.bulkSetAuthor(stackIds, updates.setAuthor);
+          showUndoToast({
+            operationId: result.operationId,
+            operation: 'stacks.bulk-author',
+            itemCount: stackIds.length,
+          });
           hasMutation = true;
         }
 
         if (updates.setMediaType) {
-          await apiClient.bulkSetMediaType(stackIds, updates.setMediaType);
+          const result = await apiClient.bulkSetMediaType(stackIds, updates.setMediaType);
+          showUndoToast({
+            operationId: result.operationId,
+            operation: 'stacks.bulk-media-type',
+            itemCount: stackIds.length,
+          });
           hasMutation = true;
         }
 
@@ -550,6 +567,7 @@ export function useStackGrid({
       exitSelectionMode,
       onRefreshAll,
       queryClient,
+      showUndoToast,
     ]
   );
 
@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api-client';
+import type { AnnotationLayerInput, AssetAnnotationsResponse } from '@/types';
+
+// Query keys
+export const annotationKeys = {
+  all: ['annotations'] as const,
+  asset: (assetId: number) => ['annotations', assetId] as const,
+};
+
+export function useAssetAnnotations(assetId: number | null) {
+  return useQuery({
+    queryKey: annotationKeys.asset(assetId ?? 0),
+    queryFn: () => apiClient.getAssetAnnotations(assetId ?? 0),
+    enabled: assetId !== null,
+  });
+}
+
+export function useSaveAssetAnnotations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ assetId, layers }: { assetId: number; layers: AnnotationLayerInput[] }) =>
+      apiClient.saveAssetAnnotations(assetId, layers),
+    onSuccess: (response) => {
+      queryClient.setQueryData<AssetAnnotationsResponse>(
+        annotationKeys.asset(response.assetId),
+        response
+      );
+    },
+  });
+}
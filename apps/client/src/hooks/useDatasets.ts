@@ -1,6 +1,6 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
-import type { Dataset } from '@/types';
+import type { Dataset, DatasetSettings } from '@/types';
 
 // Query keys
 export const datasetKeys = {
@@ -53,6 +53,7 @@ export function useUpdateDataset() {
       icon?: string;
       themeColor?: string;
       description?: string;
+      settings?: DatasetSettings;
     }) => apiClient.updateDataset(id, data),
     onMutate: async ({ id, ...updates }) => {
       await Promise.all([
@@ -67,7 +68,8 @@ export function useUpdateDataset() {
         'name' in updates ||
         'icon' in updates ||
         'themeColor' in updates ||
-        'description' in updates
+        'description' in updates ||
+        'settings' in updates
       ) {
         queryClient.setQueryData(datasetKeys.all, (old: Dataset[] | undefined) => {
           if (!old) return old;
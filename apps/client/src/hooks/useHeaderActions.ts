@@ -8,6 +8,8 @@ export interface HeaderActionsConfig {
   showSelection: boolean;
   showReorder?: boolean;
   onShuffle?: (() => void) | null;
+  /** ヘッダー検索の確定時。未指定なら currentFilterAtom の search を直接更新する */
+  onSearch?: ((search: string | undefined) => void) | null;
 }
 
 export function useHeaderActions(config: HeaderActionsConfig) {
@@ -20,6 +22,7 @@ export function useHeaderActions(config: HeaderActionsConfig) {
       showSelection: config.showSelection,
       showReorder: config.showReorder,
       onShuffle: config.onShuffle ?? null,
+      onSearch: config.onSearch ?? null,
     });
   }, [
     setHeaderActions,
@@ -28,6 +31,7 @@ export function useHeaderActions(config: HeaderActionsConfig) {
     config.showSelection,
     config.showReorder,
     config.onShuffle,
+    config.onSearch,
   ]);
 
   // Clean up only when component actually unmounts
@@ -39,6 +43,7 @@ export function useHeaderActions(config: HeaderActionsConfig) {
         showSelection: false,
         showReorder: false,
         onShuffle: null,
+        onSearch: null,
       });
     };
   }, [setHeaderActions]);
@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { apiClient } from '@/lib/api-client';
+import type { Job, JobListResponse } from '@/types';
+
+const JOB_LIST_LIMIT = 20;
+
+// Query keys
+export const jobKeys = {
+  all: ['jobs'] as const,
+  list: () => ['jobs', 'list'] as const,
+  detail: (id: number) => ['jobs', id] as const,
+};
+
+export const isJobActive = (job: Pick<Job, 'status'>) =>
+  job.status === 'queued' || job.status === 'running';
+
+const mergeJob = (current: JobListResponse | undefined, job: Job): JobListResponse | undefined => {
+  if (!current) return current;
+  const index = current.jobs.findIndex((item) => item.id === job.id);
+  if (index === -1) {
+    return { ...current, jobs: [job, ...current.jobs], total: current.total + 1 };
+  }
+  const jobs = [...current.jobs];
+  jobs[index] = job;
+  return { ...current, jobs };
+};
+
+// 最近のジョブ一覧。SSE で受け取った進捗をキャッシュに反映する
+export function useJobs(options?: { onJobFinished?: (job: Job) => void }) {
+  const queryClient = useQueryClient();
+  const onJobFinished = options?.onJobFinished;
+  const query = useQuery({
+    queryKey: jobKeys.list(),
+    queryFn: () => apiClient.getJobs({ limit: JOB_LIST_LIMIT }),
+  });
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+    const source = new EventSource(apiClient.getJobEventsUrl());
+    source.addEventListener('job', (event) => {
+      const job = JSON.parse((event as MessageEvent<string>).data) as Job;
+      queryClient.setQueryData<JobListResponse>(jobKeys.list(), (current) =>
+        mergeJob(current, job)
+      );
+      if (!isJobActive(job)) {
+        queryClient.invalidateQueries({ queryKey: jobKeys.detail(job.id) });
+        onJobFinished?.(job);
+      }
+    });
+    return () => source.close();
+  }, [queryClient, onJobFinished]);
+
+  return query;
+}
+
+export function useJobDetail(id: number | null) {
+  return useQuery({
+    queryKey: jobKeys.detail(id ?? 0),
+    queryFn: () => apiClient.getJob(id ?? 0),
+    enabled: id !== null,
+  });
+}
+
+export function useCancelJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => apiClient.cancelJob(id),
+    onSuccess: (job) => {
+      queryClient.setQueryData<JobListResponse>(jobKeys.list(), (current) =>
+        mergeJob(current, job)
+      );
+    },
+  });
+}
+
+export function useRetryJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, failedOnly }: { id: number; failedOnly?: boolean }) =>
+      apiClient.retryJob(id, { failedOnly }),
+    onSuccess: (job) => {
+      queryClient.setQueryData<JobListResponse>(jobKeys.list(), (current) =>
+        mergeJob(current, job)
+      );
+    },
+  });
+}
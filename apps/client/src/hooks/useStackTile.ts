@@ -15,6 +15,7 @@ import {
 } from '@/lib/stack-drag-data';
 import { navigationStateAtom } from '@/stores/navigation';
 import { infoSidebarOpenAtom, selectedItemIdAtom } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 
 export function useStackTile(datasetId: string) {
   const t = useT();
@@ -25,6 +26,7 @@ export function useStackTile(datasetId: string) {
   const setInfoOpen = useSetAtom(infoSidebarOpenAtom);
   const setSelectedItemId = useSetAtom(selectedItemIdAtom);
   const setNavigationState = useSetAtom(navigationStateAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const selectedInfoId = useAtomValue(selectedItemIdAtom);
 
   const invalidateAfterRemoval = useCallback(() => {
@@ -201,8 +203,9 @@ export function useStackTile(datasetId: string) {
         return;
       }
 
-      await apiClient.removeStack(numericId);
+      const result = await apiClient.removeStack(numericId);
       removeStackFromCache(queryClient, numericId);
+      showUndoToast({ operationId: result.operationId, operation: 'stacks.remove', itemCount: 1 });
 
       if (selectedInfoId && String(selectedInfoId) === String(stackId)) {
         setSelectedItemId(null);
@@ -212,7 +215,15 @@ export function useStackTile(datasetId: string) {
       invalidateAfterRemoval();
       console.log('✅ Stack removed via tile context menu');
     },
-    [invalidateAfterRemoval, queryClient, selectedInfoId, setInfoOpen, setSelectedItemId, t]
+    [
+      invalidateAfterRemoval,
+      queryClient,
+      selectedInfoId,
+      setInfoOpen,
+      setSelectedItemId,
+      showUndoToast,
+      t,
+    ]
   );
 
   const dragProps = (
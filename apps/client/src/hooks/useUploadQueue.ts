@@ -1,5 +1,6 @@
 import { useAtomValue, useSetAtom } from 'jotai';
 import { useEffect, useRef } from 'react';
+import { useT } from '@/lib/i18n';
 import { UploadService } from '@/lib/upload-service';
 import {
   addUploadNotificationAtom,
@@ -17,6 +18,7 @@ export function useUploadQueue() {
   const updateFileProgress = useSetAtom(updateFileProgressAtom);
   const completeBatch = useSetAtom(completeBatchAtom);
   const addNotification = useSetAtom(addUploadNotificationAtom);
+  const t = useT();
 
   const uploadServiceRef = useRef(new UploadService());
   const processingRef = useRef(false);
@@ -40,7 +42,17 @@ export function useUploadQueue() {
             (fileId, progress, status, error) => {
               updateFileProgress({ fileId, progress, status, error });
             },
-            addNotification
+            addNotification,
+            // 見た目がほぼ同じ既存スタックがあれば警告だけ出す（アップロード自体は完了済み）
+            (fileName, matches) => {
+              addNotification({
+                type: 'info',
+                message: t.upload.nearDuplicatesFound(
+                  fileName,
+                  matches.map((match) => match.stackId)
+                ),
+              });
+            }
           );
         } finally {
           processingRef.current = false;
@@ -55,7 +67,7 @@ export function useUploadQueue() {
     if (!currentBatch) {
       processingRef.current = false;
     }
-  }, [currentBatch, updateFileProgress, addNotification, completeBatch]);
+  }, [currentBatch, updateFileProgress, addNotification, completeBatch, t]);
 
   return {
     isUploading: !!currentBatch,
@@ -0,0 +1,137 @@
+import type { AnnotationStroke } from '@/types';
+
+export interface AnnotationFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderableAnnotationLayer {
+  visible: boolean;
+  opacity: number;
+  strokes: AnnotationStroke[];
+}
+
+/**
+ * object-contain で表示されている画像の実際の描画領域（ビューポート座標）。
+ * img 要素の矩形は余白を含むため、natural サイズから縦横比を合わせて求める。
+ */
+export function getContainedImageRect(img: HTMLImageElement): AnnotationFrame | null {
+  const rect = img.getBoundingClientRect();
+  if (rect.width <= 0 || rect.height <= 0) return null;
+  const naturalWidth = img.naturalWidth || rect.width;
+  const naturalHeight = img.naturalHeight || rect.height;
+  const scale = Math.min(rect.width / naturalWidth, rect.height / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return {
+    left: rect.left + (rect.width - width) / 2,
+    top: rect.top + (rect.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+export function drawAnnotationStroke(
+  ctx: CanvasRenderingContext2D,
+  stroke: AnnotationStroke,
+  frame: AnnotationFrame
+) {
+  const n = stroke.points.length;
+  if (n < 2) return;
+  ctx.save();
+  ctx.globalAlpha = Math.max(0, Math.min(1, stroke.opacity));
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = Math.max(0.5, stroke.size * frame.width);
+  ctx.globalCompositeOperation = stroke.mode === 'erase' ? 'destination-out' : 'source-over';
+  ctx.strokeStyle = stroke.mode === 'erase' ? 'rgba(0,0,0,1)' : stroke.color;
+  ctx.beginPath();
+  ctx.moveTo(
+    frame.left + stroke.points[0].x * frame.width,
+    frame.top + stroke.points[0].y * frame.height
+  );
+  for (let i = 1; i < n; i++) {
+    ctx.lineTo(
+      frame.left + stroke.points[i].x * frame.width,
+      frame.top + stroke.points[i].y * frame.height
+    );
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * レイヤーごとに作業用キャンバスへ描いてから合成する。
+ * 消しゴムは同じレイヤーの線だけを消し、不透明度はレイヤー単位で掛かる。
+ */
+export function renderAnnotationLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: RenderableAnnotationLayer[],
+  frame: AnnotationFrame,
+  scratch: HTMLCanvasElement
+) {
+  const { canvas } = ctx;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.restore();
+
+  if (scratch.width !== canvas.width || scratch.height !== canvas.height) {
+    scratch.width = canvas.width;
+    scratch.height = canvas.height;
+  }
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx) return;
+
+  for (const layer of layers) {
+    if (!layer.visible || layer.opacity <= 0 || layer.strokes.length === 0) continue;
+    scratchCtx.setTransform(1, 0, 0, 1, 0, 0);
+    scratchCtx.clearRect(0, 0, scratch.width, scratch.height);
+    scratchCtx.setTransform(ctx.getTransform());
+    for (const stroke of layer.strokes) drawAnnotationStroke(scratchCtx, stroke, frame);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = Math.max(0, Math.min(1, layer.opacity));
+    ctx.drawImage(scratch, 0, 0);
+    ctx.restore();
+  }
+}
+
+// 画像の原寸で表示中のレイヤーを焼き込んだ PNG を作る
+export async function exportAnnotatedImage(
+  img: HTMLImageElement,
+  layers: RenderableAnnotationLayer[]
+): Promise<Blob> {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const annotations = document.createElement('canvas');
+  annotations.width = width;
+  annotations.height = height;
+  const annotationsCtx = annotations.getContext('2d');
+  if (!annotationsCtx) throw new Error('Canvas is not available');
+  renderAnnotationLayers(
+    annotationsCtx,
+    layers,
+    { left: 0, top: 0, width, height },
+    document.createElement('canvas')
+  );
+
+  ctx.drawImage(img, 0, 0, width, height);
+  ctx.drawImage(annotations, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to export image'));
+    }, 'image/png');
+  });
+}
@@ -1,25 +1,66 @@
 import type {
+  AnnotationLayerInput,
   Asset,
+  AssetAnnotationsResponse,
+  AssetEmbeddedMetadataResponse,
   Author,
+  AuthorInboxWork,
   AuthorLink,
+  AuthorWorkStatus,
+  AuthSession,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRulePreview,
+  ClipExportDestination,
+  ClipExportFormat,
+  ClipExportResponse,
   Collection,
   CollectionFolder,
   Dataset,
+  DatasetSettings,
   ImportUrlResult,
+  Job,
+  JobFailure,
+  JobListResponse,
+  JobStatus,
   JoyTagHealthResponse,
+  LibraryArchiveImportResult,
   MediaGridItem,
+  NearDuplicateGroupsResponse,
+  NearDuplicateMatch,
+  OperationLogEntry,
   Pin,
+  ReadingProgress,
+  ShareLink,
+  ShareLinkInput,
+  SimilarMode,
   SortOption,
   Stack,
   StackFilter,
   StackPaginatedResponse,
+  TrashItem,
+  User,
+  UserInput,
+  WatchedFolder,
+  WatchedFolderInput,
 } from '@/types';
 
 const API_BASE_URL = '';
 const READ_REQUEST_TIMEOUT_MS = 45 * 1000;
 const UPLOAD_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
-
-const API_SORT_FIELDS = ['recommended', 'dateAdded', 'name', 'likes', 'updated'] as const;
+const JOB_POLL_INTERVAL_MS = 1000;
+const FINISHED_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+// セッション切れなどでログインが必要になったときに window へ通知するイベント
+export const AUTH_REQUIRED_EVENT = 'caramel:auth-required';
+
+const API_SORT_FIELDS = [
+  'recommended',
+  'relevance',
+  'dateAdded',
+  'name',
+  'likes',
+  'updated',
+] as const;
 type ApiSortField = (typeof API_SORT_FIELDS)[number];
 type ApiSortOrder = 'asc' | 'desc';
 type StackWire = Stack & {
@@ -170,7 +211,13 @@ class ApiClient {
 
   async updateDataset(
     id: string,
-    data: { name?: string; icon?: string; themeColor?: string; description?: string }
+    data: {
+      name?: string;
+      icon?: string;
+      themeColor?: string;
+      description?: string;
+      settings?: DatasetSettings;
+    }
   ): Promise<Dataset> {
     return this.fetch<Dataset>(`/api/v1/datasets/${id}`, {
       method: 'PUT',
@@ -184,6 +231,172 @@ class ApiClient {
     });
   }
 
+  // エクスポートしたアーカイブを取り込む。datasetId が無ければ新しいライブラリとして復元する
+  async importLibraryArchive(
+    file: File,
+    options?: { datasetId?: string; onProgress?: (progress: number) => void }
+  ): Promise<LibraryArchiveImportResult> {
+    const query = options?.datasetId
+      ? `?${new URLSearchParams({ datasetId: options.datasetId }).toString()}`
+      : '';
+    const { job } = await this.uploadFile<{ job: Job }>(
+      `/api/v1/datasets/import${query}`,
+      file,
+      options?.onProgress
+    );
+    return this.waitForJob<LibraryArchiveImportResult>(job.id);
+  }
+
+  // Watched folders
+  async getWatchedFolders(dataSetId?: number): Promise<WatchedFolder[]> {
+    const query = dataSetId ? `?dataSetId=${dataSetId}` : '';
+    return this.fetch<WatchedFolder[]>(`/api/v1/watched-folders${query}`);
+  }
+
+  async createWatchedFolder(data: WatchedFolderInput): Promise<WatchedFolder> {
+    return this.fetch<WatchedFolder>('/api/v1/watched-folders', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateWatchedFolder(
+    id: number,
+    data: Partial<Omit<WatchedFolderInput, 'dataSetId'>>
+  ): Promise<WatchedFolder> {
+    return this.fetch<WatchedFolder>(`/api/v1/watched-folders/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteWatchedFolder(id: number): Promise<void> {
+    await this.fetch(`/api/v1/watched-folders/${id}`, { method: 'DELETE' });
+  }
+
+  async scanWatchedFolder(id: number): Promise<WatchedFolder> {
+    return this.fetch<WatchedFolder>(`/api/v1/watched-folders/${id}/scan`, { method: 'POST' });
+  }
+
+  // Automation rules
+  async getAutomationRules(dataSetId?: number): Promise<AutomationRule[]> {
+    const query = dataSetId ? `?dataSetId=${dataSetId}` : '';
+    return this.fetch<AutomationRule[]>(`/api/v1/automation-rules${query}`);
+  }
+
+  async createAutomationRule(data: AutomationRuleInput): Promise<AutomationRule> {
+    return this.fetch<AutomationRule>('/api/v1/automation-rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateAutomationRule(
+    id: number,
+    data: Partial<Omit<AutomationRuleInput, 'dataSetId'>>
+  ): Promise<AutomationRule> {
+    return this.fetch<AutomationRule>(`/api/v1/automation-rules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteAutomationRule(id: number): Promise<void> {
+    await this.fetch(`/api/v1/automation-rules/${id}`, { method: 'DELETE' });
+  }
+
+  // 保存前のルールを既存スタックに試し当てする（何も変更しない）
+  async previewAutomationRule(
+    data: Pick<AutomationRuleInput, 'dataSetId' | 'matchMode' | 'conditions'>
+  ): Promise<AutomationRulePreview> {
+    return this.fetch<AutomationRulePreview>('/api/v1/automation-rules/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async previewSavedAutomationRule(id: number): Promise<AutomationRulePreview> {
+    return this.fetch<AutomationRulePreview>(`/api/v1/automation-rules/${id}/preview`);
+  }
+
+  async applyAutomationRule(id: number): Promise<{ applied: number; stackIds: number[] }> {
+    return this.fetch(`/api/v1/automation-rules/${id}/apply`, { method: 'POST' });
+  }
+
+  // Share links
+  async getShareLinks(dataSetId?: number): Promise<ShareLink[]> {
+    const query = dataSetId ? `?dataSetId=${dataSetId}` : '';
+    return this.fetch<ShareLink[]>(`/api/v1/share-links${query}`);
+  }
+
+  async createShareLink(data: ShareLinkInput): Promise<ShareLink> {
+    return this.fetch<ShareLink>('/api/v1/share-links', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async revokeShareLink(id: number): Promise<ShareLink> {
+    return this.fetch<ShareLink>(`/api/v1/share-links/${id}/revoke`, { method: 'POST' });
+  }
+
+  async deleteShareLink(id: number): Promise<void> {
+    await this.fetch(`/api/v1/share-links/${id}`, { method: 'DELETE' });
+  }
+
+  // Accounts
+  async getAuthSession(): Promise<AuthSession> {
+    return this.fetch<AuthSession>('/api/v1/auth/session');
+  }
+
+  async login(name: string, password: string): Promise<{ user: User }> {
+    return this.fetch('/api/v1/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ name, password }),
+    });
+  }
+
+  async logout(): Promise<void> {
+    await this.fetch('/api/v1/auth/logout', { method: 'POST' });
+  }
+
+  async setupAccount(name: string, password: string): Promise<{ user: User }> {
+    return this.fetch('/api/v1/auth/setup', {
+      method: 'POST',
+      body: JSON.stringify({ name, password }),
+    });
+  }
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<{ user: User }> {
+    return this.fetch('/api/v1/auth/password', {
+      method: 'PUT',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    const { users } = await this.fetch<{ users: User[] }>('/api/v1/users');
+    return users;
+  }
+
+  async createUser(data: UserInput): Promise<User> {
+    return this.fetch<User>('/api/v1/users', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateUser(id: number, data: Partial<UserInput> & { disabled?: boolean }): Promise<User> {
+    return this.fetch<User>(`/api/v1/users/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    await this.fetch(`/api/v1/users/${id}`, { method: 'DELETE' });
+  }
+
   async getDatasetOverview(id: string): Promise<{
     mediaTypes: Array<{ mediaType: string; count: number; thumbnail: string | null }>;
     collections: Array<{
@@ -206,6 +419,19 @@ class ApiClient {
       likeCount: number;
       mediaType: string;
     }>;
+    continueReading: Array<{
+      id: string | number;
+      name: string;
+      thumbnail: string | null;
+      assets?: Array<{
+        id?: string | number;
+        file?: string | null;
+        thumbnail?: string | null;
+      }>;
+      likeCount: number;
+      mediaType: string;
+      readingProgress: { page: number; pageCount: number; updatedAt: string };
+    }>;
   }> {
     return this.fetch(`/api/v1/datasets/${id}/overview`);
   }
@@ -221,6 +447,16 @@ class ApiClient {
     });
   }
 
+  async setDatasetEncryption(
+    id: string | number,
+    params: { mode: 'encrypt' | 'decrypt'; password: string }
+  ): Promise<{ job: Job; dataset: Dataset }> {
+    return this.fetch(`/api/v1/datasets/${id}/encryption`, {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
   async authDataset(id: string | number, password: string): Promise<{ success: boolean }> {
     return this.fetch(`/api/v1/datasets/${id}/auth`, {
       method: 'POST',
@@ -440,19 +676,21 @@ class ApiClient {
     });
   }
 
-  // Similar stacks (embedding-based)
+  // Similar stacks (tags and/or image embeddings)
   async getSimilarStacks(params: {
     datasetId: string | number;
     stackId: string | number;
     limit?: number;
     offset?: number;
     threshold?: number; // 0-1
+    mode?: SimilarMode;
   }): Promise<StackPaginatedResponse> {
-    const { datasetId, stackId, limit, offset, threshold } = params;
+    const { datasetId, stackId, limit, offset, threshold, mode } = params;
     const query = new URLSearchParams();
     if (limit !== undefined) query.append('limit', String(limit));
     if (offset !== undefined) query.append('offset', String(offset));
     if (threshold !== undefined) query.append('threshold', String(threshold));
+    if (mode) query.append('mode', mode);
     const response = await this.fetch<StackPaginatedResponse>(
       `/api/v1/datasets/${datasetId}/stacks/${stackId}/similar${
         query.toString() ? `?${query}` : ''
@@ -467,12 +705,14 @@ class ApiClient {
     limit?: number;
     offset?: number;
     threshold?: number;
+    mode?: SimilarMode;
   }): Promise<StackPaginatedResponse> {
-    const { datasetId, collectionId, limit, offset, threshold } = params;
+    const { datasetId, collectionId, limit, offset, threshold, mode } = params;
     const query = new URLSearchParams();
     if (limit !== undefined) query.append('limit', String(limit));
     if (offset !== undefined) query.append('offset', String(offset));
     if (threshold !== undefined) query.append('threshold', String(threshold));
+    if (mode) query.append('mode', mode);
     const response = await this.fetch<StackPaginatedResponse>(
       `/api/v1/datasets/${datasetId}/collections/${collectionId}/similar${
         query.toString() ? `?${query}` : ''
@@ -551,16 +791,21 @@ class ApiClient {
     return this.fetch<Asset[]>(`/api/v1/datasets/${datasetId}/stacks/${stackId}/assets`);
   }
 
-  async removeAsset(assetId: string | number): Promise<{ success: boolean }> {
-    return this.fetch<{ success: boolean }>(`/api/v1/assets/${assetId}`, {
-      method: 'DELETE',
-    });
+  async removeAsset(
+    assetId: string | number
+  ): Promise<{ success: boolean; operationId: number | null }> {
+    return this.fetch<{ success: boolean; operationId: number | null }>(
+      `/api/v1/assets/${assetId}`,
+      {
+        method: 'DELETE',
+      }
+    );
   }
 
   async separateAsset(
     assetId: string | number
-  ): Promise<{ success: boolean; stack: Stack | null }> {
-    return this.fetch<{ success: boolean; stack: Stack | null }>(
+  ): Promise<{ success: boolean; stack: Stack | null; operationId: number | null }> {
+    return this.fetch<{ success: boolean; stack: Stack | null; operationId: number | null }>(
       `/api/v1/assets/${assetId}/separate`,
       {
         method: 'POST',
@@ -589,6 +834,73 @@ class ApiClient {
     });
   }
 
+  // Export a time range (or a pair of markers) as a new clip asset
+  async exportAssetClip(params: {
+    datasetId: string | number;
+    stackId: string | number;
+    assetId: string | number;
+    start?: number;
+    end?: number;
+    startMarker?: number;
+    endMarker?: number;
+    format: ClipExportFormat;
+    fps?: number;
+    width?: number;
+    destination: ClipExportDestination;
+    name?: string;
+  }): Promise<ClipExportResponse> {
+    const { datasetId, stackId, assetId, ...body } = params;
+    return this.fetch(`/api/v1/datasets/${datasetId}/stacks/${stackId}/assets/${assetId}/clips`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  // Detect scene changes of a video asset (replaces its scene markers)
+  async detectAssetScenes(params: {
+    datasetId: string | number;
+    stackId: string | number;
+    assetId: string | number;
+    sensitivity?: number;
+  }): Promise<{ assetId: number; meta: NonNullable<Asset['meta']> }> {
+    const { datasetId, stackId, assetId, sensitivity } = params;
+    return this.fetch(`/api/v1/datasets/${datasetId}/stacks/${stackId}/assets/${assetId}/scenes`, {
+      method: 'POST',
+      body: JSON.stringify({ sensitivity }),
+    });
+  }
+
+  // Reading progress of a comic stack for the current user
+  async getReadingProgress(
+    datasetId: string | number,
+    stackId: string | number,
+    options: ApiRequestOptions = {}
+  ): Promise<{ progress: ReadingProgress | null }> {
+    return this.fetch(`/api/v1/datasets/${datasetId}/stacks/${stackId}/reading-progress`, {
+      signal: options.signal,
+    });
+  }
+
+  async saveReadingProgress(
+    datasetId: string | number,
+    stackId: string | number,
+    params: { page: number; completed?: boolean }
+  ): Promise<{ progress: ReadingProgress | null }> {
+    return this.fetch(`/api/v1/datasets/${datasetId}/stacks/${stackId}/reading-progress`, {
+      method: 'PUT',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async clearReadingProgress(
+    datasetId: string | number,
+    stackId: string | number
+  ): Promise<{ success: boolean }> {
+    return this.fetch(`/api/v1/datasets/${datasetId}/stacks/${stackId}/reading-progress`, {
+      method: 'DELETE',
+    });
+  }
+
   // Collection APIs
   async getCollections(params?: {
     dataSetId?: number;
@@ -793,7 +1105,7 @@ class ApiClient {
     datasetId: string | number;
     targetAuthorId: string | number;
     sourceAuthorIds: Array<string | number>;
-  }): Promise<AuthorRecord> {
+  }): Promise<AuthorRecord & { operationId?: number | null }> {
     return this.fetch('/api/v1/authors/merge', {
       method: 'POST',
       body: JSON.stringify({
@@ -804,35 +1116,87 @@ class ApiClient {
     });
   }
 
+  async getAuthorInbox(params: {
+    datasetId: string | number;
+    authorId?: string | number;
+    status?: AuthorWorkStatus;
+    limit?: number;
+    offset?: number;
+  }): Promise<{
+    works: AuthorInboxWork[];
+    total: number;
+    limit: number;
+    offset: number;
+    providerConfigured: boolean;
+  }> {
+    const query = new URLSearchParams({ dataSetId: String(params.datasetId) });
+    if (params.authorId !== undefined) query.append('authorId', String(params.authorId));
+    if (params.status) query.append('status', params.status);
+    if (params.limit !== undefined) query.append('limit', String(params.limit));
+    if (params.offset !== undefined) query.append('offset', String(params.offset));
+    return this.fetch(`/api/v1/authors/inbox?${query.toString()}`);
+  }
+
+  /** 作者リンクから新着作品を取得する。authorIds を省くとリンクを持つ全作者が対象 */
+  async refreshAuthorInbox(params: {
+    datasetId: string | number;
+    authorIds?: Array<string | number>;
+  }): Promise<{ authors: number; newWorks: number }> {
+    const { job } = await this.fetch<{ job: Job }>('/api/v1/authors/inbox/refresh', {
+      method: 'POST',
+      body: JSON.stringify({
+        dataSetId: Number(params.datasetId),
+        authorIds: params.authorIds?.map((id) => Number(id)),
+      }),
+    });
+    return this.waitForJob(job.id);
+  }
+
+  async updateAuthorWork(workId: number, status: AuthorWorkStatus): Promise<AuthorInboxWork> {
+    return this.fetch(`/api/v1/authors/works/${workId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    });
+  }
+
   // Bulk operations
   async bulkAddTags(
     stackIds: number[],
     tags: string[]
-  ): Promise<{ success: boolean; updated: number }> {
-    return this.fetch<{ success: boolean; updated: number }>('/api/v1/stacks/bulk/tags', {
-      method: 'POST',
-      body: JSON.stringify({ stackIds, tags }),
-    });
+  ): Promise<{ success: boolean; updated: number; operationId: number | null }> {
+    return this.fetch<{ success: boolean; updated: number; operationId: number | null }>(
+      '/api/v1/stacks/bulk/tags',
+      {
+        method: 'POST',
+        body: JSON.stringify({ stackIds, tags }),
+      }
+    );
   }
 
   async bulkSetAuthor(
     stackIds: number[],
     author: string
-  ): Promise<{ success: boolean; updated: number }> {
-    return this.fetch<{ success: boolean; updated: number }>('/api/v1/stacks/bulk/author', {
-      method: 'PUT',
-      body: JSON.stringify({ stackIds, author }),
-    });
+  ): Promise<{ success: boolean; updated: number; operationId: number | null }> {
+    return this.fetch<{ success: boolean; updated: number; operationId: number | null }>(
+      '/api/v1/stacks/bulk/author',
+      {
+        method: 'PUT',
+        body: JSON.stringify({ stackIds, author }),
+      }
+    );
   }
 
   async bulkSetMediaType(
     stackIds: number[],
     mediaType: 'image' | 'comic' | 'video'
-  ): Promise<{ success: boolean; updated: number }> {
-    return this.fetch<{ success: boolean; updated: number }>('/api/v1/stacks/bulk/media-type', {
-      method: 'PUT',
-      body: JSON.stringify({ stackIds, mediaType }),
-    });
+  ): Promise<{ success: boolean; updated: number; operationId: number | null }> {
+    return this.fetch<{ success: boolean; updated: number; operationId: number | null }>(
+      '/api/v1/stacks/bulk/media-type',
+      {
+        method: 'PUT',
+        body: JSON.stringify({ stackIds, mediaType }),
+      }
+    );
   }
 
   async bulkSetFavorite(
@@ -1067,26 +1431,32 @@ class ApiClient {
       skippedAssets?: number;
     };
   }> {
-    return this.fetch<{
-      stackId: number;
-      candidateAssets: number;
-      predictedAssets: number;
-      skippedAssets: number;
-      failedAssets: number;
-      aggregate: {
-        stackId: number;
-        aggregatedTags: Record<string, number>;
-        topTags: Array<{ tag: string; score: number }>;
-        assetCount: number;
-        skippedAssets?: number;
-      };
-    }>(`/api/v1/stacks/${stackId}/refresh-autotags`, {
+    const { job } = await this.fetch<{ job: Job }>(`/api/v1/stacks/${stackId}/refresh-autotags`, {
       method: 'POST',
       body: JSON.stringify({
         threshold: options?.threshold || 0.4,
         forceRegenerate: options?.forceRegenerate ?? true,
       }),
     });
+    const result = await this.waitForJob<{
+      stacks: Array<{
+        stackId: number;
+        candidateAssets: number;
+        predictedAssets: number;
+        skippedAssets: number;
+        failedAssets: number;
+        aggregate: {
+          stackId: number;
+          aggregatedTags: Record<string, number>;
+          topTags: Array<{ tag: string; score: number }>;
+          assetCount: number;
+          skippedAssets?: number;
+        };
+      }>;
+    }>(job.id);
+    const [stackResult] = result.stacks;
+    if (!stackResult) throw new Error('Failed to refresh AutoTags');
+    return stackResult;
   }
 
   async getDatasetStats(
@@ -1145,7 +1515,11 @@ class ApiClient {
     const numericIds = stackIds.map((id) =>
       typeof id === 'string' ? Number.parseInt(id, 10) : id
     );
-    return this.fetch<{
+    const { job } = await this.fetch<{ job: Job }>('/api/v1/stacks/bulk/refresh-thumbnails', {
+      method: 'POST',
+      body: JSON.stringify({ stackIds: numericIds }),
+    });
+    return this.waitForJob<{
       success: boolean;
       updated: {
         success: boolean;
@@ -1154,37 +1528,50 @@ class ApiClient {
         thumbnails?: { eligible: number; regenerated: number; skipped: number; failures: number };
       };
       previews?: { eligible: number; regenerated: number; failures: number };
-    }>('/api/v1/stacks/bulk/refresh-thumbnails', {
-      method: 'POST',
-      body: JSON.stringify({ stackIds: numericIds }),
-    });
+    }>(job.id);
   }
 
-  async removeStack(stackId: string | number): Promise<{ success: boolean; message: string }> {
-    return this.fetch<{ success: boolean; message: string }>(`/api/v1/stacks/${stackId}`, {
-      method: 'DELETE',
-    });
+  async removeStack(
+    stackId: string | number
+  ): Promise<{ success: boolean; message: string; operationId: number | null }> {
+    return this.fetch<{ success: boolean; message: string; operationId: number | null }>(
+      `/api/v1/stacks/${stackId}`,
+      {
+        method: 'DELETE',
+      }
+    );
   }
 
-  async bulkRemoveStacks(
-    stackIds: (string | number)[]
-  ): Promise<{ success: boolean; removed: number; errors?: string[] }> {
+  async bulkRemoveStacks(stackIds: (string | number)[]): Promise<{
+    success: boolean;
+    removed: number;
+    errors?: string[];
+    operationId?: number | null;
+  }> {
     const numericIds = stackIds.map((id) =>
       typeof id === 'string' ? Number.parseInt(id, 10) : id
     );
-    return this.fetch<{ success: boolean; removed: number; errors?: string[] }>(
-      '/api/v1/stacks/bulk/remove',
-      {
-        method: 'DELETE',
-        body: JSON.stringify({ stackIds: numericIds }),
-      }
-    );
+    return this.fetch<{
+      success: boolean;
+      removed: number;
+      errors?: string[];
+      operationId?: number | null;
+    }>('/api/v1/stacks/bulk/remove', {
+      method: 'DELETE',
+      body: JSON.stringify({ stackIds: numericIds }),
+    });
   }
 
   async mergeStacks(
     targetId: number,
     sourceIds: (string | number)[]
-  ): Promise<{ success: boolean; targetId: number; merged: number; stack?: any }> {
+  ): Promise<{
+    success: boolean;
+    targetId: number;
+    merged: number;
+    stack?: any;
+    operationId?: number | null;
+  }> {
     const numericSources = sourceIds.map((id) =>
       typeof id === 'string' ? Number.parseInt(id, 10) : id
     );
@@ -1193,6 +1580,7 @@ class ApiClient {
       targetId: number;
       merged: number;
       stack?: any;
+      operationId?: number | null;
     }>('/api/v1/stacks/merge', {
       method: 'POST',
       body: JSON.stringify({ targetId, sourceIds: numericSources }),
@@ -1200,6 +1588,37 @@ class ApiClient {
     return res;
   }
 
+  // Trash and operation log APIs
+  async getTrash(
+    dataSetId: string | number
+  ): Promise<{ items: TrashItem[]; retentionDays: number }> {
+    return this.fetch(`/api/v1/trash?dataSetId=${dataSetId}`);
+  }
+
+  async restoreTrashItem(id: number): Promise<{ success: boolean; stackId: number | null }> {
+    return this.fetch(`/api/v1/trash/${id}/restore`, { method: 'POST' });
+  }
+
+  async purgeTrashItem(id: number): Promise<void> {
+    await this.fetch(`/api/v1/trash/${id}`, { method: 'DELETE' });
+  }
+
+  async emptyTrash(dataSetId: string | number): Promise<{ success: boolean; purged: number }> {
+    return this.fetch(`/api/v1/trash?dataSetId=${dataSetId}`, { method: 'DELETE' });
+  }
+
+  async getOperations(
+    dataSetId: string | number
+  ): Promise<{ operations: OperationLogEntry[]; limit: number }> {
+    return this.fetch(`/api/v1/operations?dataSetId=${dataSetId}`);
+  }
+
+  async undoOperation(
+    id: number
+  ): Promise<{ success: boolean; operation: OperationLogEntry; stackIds: number[] }> {
+    return this.fetch(`/api/v1/operations/${id}/undo`, { method: 'POST' });
+  }
+
   // Navigation Pin APIs
   async getNavigationPinsByDataset(datasetId: string | number): Promise<Pin[]> {
     console.log('Fetching navigation pins for dataset:', datasetId);
@@ -1397,7 +1816,7 @@ class ApiClient {
       collectionId?: number;
       onProgress?: (progress: number) => void;
     }
-  ): Promise<Stack> {
+  ): Promise<Stack & { nearDuplicates?: NearDuplicateMatch[] }> {
     const formData = new FormData();
     formData.append('file', file);
     if (options?.name) formData.append('name', options.name);
@@ -1420,13 +1839,19 @@ class ApiClient {
         : ['mp4', 'mov', 'avi', 'mkv', 'webm', 'mpeg', 'mpg', 'm4v', 'wmv'].includes(extension) ||
             mimeType.startsWith('video/')
           ? 'video'
-          : extension === 'pdf' || mimeType === 'application/pdf'
+          : ['pdf', 'cbz', 'cbr', 'cb7', 'epub'].includes(extension) ||
+              mimeType === 'application/pdf' ||
+              mimeType === 'application/epub+zip'
             ? 'comic'
             : 'image';
       formData.append('mediaType', inferredMediaType);
     }
 
-    return this.uploadFile<Stack>('/api/v1/stacks', formData, options?.onProgress);
+    return this.uploadFile<Stack & { nearDuplicates?: NearDuplicateMatch[] }>(
+      '/api/v1/stacks',
+      formData,
+      options?.onProgress
+    );
   }
 
   async addAssetToStack(
@@ -1435,11 +1860,11 @@ class ApiClient {
     options?: {
       onProgress?: (progress: number) => void;
     }
-  ): Promise<Asset> {
+  ): Promise<Asset & { nearDuplicates?: NearDuplicateMatch[] }> {
     const formData = new FormData();
     formData.append('file', file);
 
-    return this.uploadFile<Asset>(
+    return this.uploadFile<Asset & { nearDuplicates?: NearDuplicateMatch[] }>(
       `/api/v1/stacks/${stackId}/assets`,
       formData,
       options?.onProgress
@@ -1454,12 +1879,12 @@ class ApiClient {
     collectionId?: number;
     author?: string;
     tags?: string[];
+    /** 取り込み元のページ。urls はメディアの URL として記録される */
+    pageUrl?: string;
+    referrer?: string;
   }): Promise<{ results: ImportUrlResult[] }> {
-    const response = await this.post<{ results: ImportUrlResult[] }>(
-      '/api/v1/stacks/import-from-urls',
-      params
-    );
-    return response.data;
+    const response = await this.post<{ job: Job }>('/api/v1/stacks/import-from-urls', params);
+    return this.waitForJob<{ results: ImportUrlResult[] }>(response.data.job.id);
   }
 
   async setUploadDefaults(defaults: {
@@ -1584,33 +2009,11 @@ class ApiClient {
     datasetId: string,
     params: {
       forceRegenerate?: boolean;
-      batchSize?: number;
     }
-  ): Promise<{
-    message: string;
-    datasetId: number;
-    totalStacks: number;
-    scheduled: {
-      thumbnails: number;
-      previews?: number;
-      colors: number;
-      actualMediaTypes?: number;
-      autotags: number;
-      embeddings: number;
-    };
-    totals: {
-      thumbnailCandidates?: number;
-      thumbnailFailures?: number;
-      previewCandidates?: number;
-      previewFailures?: number;
-      actualMediaTypeCandidates?: number;
-      embeddings: number;
-    };
-  }> {
+  ): Promise<{ message: string; datasetId: number; job: Job }> {
     const queryParams = new URLSearchParams();
     if (params.forceRegenerate)
       queryParams.append('forceRegenerate', String(params.forceRegenerate));
-    if (params.batchSize) queryParams.append('batchSize', String(params.batchSize));
 
     const query = queryParams.toString();
     return this.fetch(`/api/v1/datasets/${datasetId}/refresh-all${query ? `?${query}` : ''}`, {
@@ -1618,6 +2021,118 @@ class ApiClient {
     });
   }
 
+  // Annotation layer APIs
+  async getAssetAnnotations(assetId: string | number): Promise<AssetAnnotationsResponse> {
+    return this.fetch<AssetAnnotationsResponse>(`/api/v1/assets/${assetId}/annotations`);
+  }
+
+  async saveAssetAnnotations(
+    assetId: string | number,
+    layers: AnnotationLayerInput[]
+  ): Promise<AssetAnnotationsResponse> {
+    return this.fetch<AssetAnnotationsResponse>(`/api/v1/assets/${assetId}/annotations`, {
+      method: 'PUT',
+      body: JSON.stringify({ layers }),
+    });
+  }
+
+  async getAssetEmbeddedMetadata(assetId: string | number): Promise<AssetEmbeddedMetadataResponse> {
+    return this.fetch<AssetEmbeddedMetadataResponse>(`/api/v1/assets/${assetId}/metadata`);
+  }
+
+  // Near-duplicate APIs
+  async getNearDuplicates(
+    datasetId: string | number,
+    params?: { threshold?: number; limit?: number; offset?: number }
+  ): Promise<NearDuplicateGroupsResponse> {
+    const queryParams = new URLSearchParams();
+    if (params?.threshold !== undefined) queryParams.append('threshold', String(params.threshold));
+    if (params?.limit) queryParams.append('limit', String(params.limit));
+    if (params?.offset) queryParams.append('offset', String(params.offset));
+
+    const query = queryParams.toString();
+    return this.fetch<NearDuplicateGroupsResponse>(
+      `/api/v1/datasets/${datasetId}/near-duplicates${query ? `?${query}` : ''}`
+    );
+  }
+
+  async dismissNearDuplicates(
+    datasetId: string | number,
+    stackIds: number[]
+  ): Promise<{ success: boolean; dismissed: number }> {
+    return this.fetch(`/api/v1/datasets/${datasetId}/near-duplicates/dismiss`, {
+      method: 'POST',
+      body: JSON.stringify({ stackIds }),
+    });
+  }
+
+  async scanNearDuplicates(datasetId: string | number): Promise<{ job: Job }> {
+    return this.fetch(`/api/v1/datasets/${datasetId}/near-duplicates/scan`, {
+      method: 'POST',
+    });
+  }
+
+  async detectDatasetScenes(
+    datasetId: string | number,
+    options: { stackIds?: number[]; sensitivity?: number } = {}
+  ): Promise<{ job: Job }> {
+    return this.fetch(`/api/v1/datasets/${datasetId}/scenes/detect`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  // Background job APIs
+  async getJobs(params?: {
+    dataSetId?: number;
+    status?: JobStatus[];
+    type?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<JobListResponse> {
+    const queryParams = new URLSearchParams();
+    if (params?.dataSetId) queryParams.append('dataSetId', String(params.dataSetId));
+    if (params?.status?.length) queryParams.append('status', params.status.join(','));
+    if (params?.type) queryParams.append('type', params.type);
+    if (params?.limit) queryParams.append('limit', String(params.limit));
+    if (params?.offset) queryParams.append('offset', String(params.offset));
+
+    const query = queryParams.toString();
+    return this.fetch<JobListResponse>(`/api/v1/jobs${query ? `?${query}` : ''}`);
+  }
+
+  async getJob(id: number): Promise<Job & { failures: JobFailure[] }> {
+    return this.fetch<Job & { failures: JobFailure[] }>(`/api/v1/jobs/${id}`);
+  }
+
+  async cancelJob(id: number): Promise<Job> {
+    return this.fetch<Job>(`/api/v1/jobs/${id}/cancel`, { method: 'POST' });
+  }
+
+  async retryJob(id: number, options?: { failedOnly?: boolean }): Promise<Job> {
+    return this.fetch<Job>(`/api/v1/jobs/${id}/retry`, {
+      method: 'POST',
+      body: JSON.stringify({ failedOnly: options?.failedOnly ?? false }),
+    });
+  }
+
+  getJobEventsUrl(params?: { dataSetId?: number }) {
+    const query = params?.dataSetId ? `?dataSetId=${params.dataSetId}` : '';
+    return `${this.baseUrl}/api/v1/jobs/events${query}`;
+  }
+
+  /** ジョブの終了まで待機して結果を返す。失敗・取消時は例外を投げる */
+  async waitForJob<TResult>(id: number, options?: ApiRequestOptions): Promise<TResult> {
+    for (;;) {
+      const job = await this.fetch<Job>(`/api/v1/jobs/${id}`, { signal: options?.signal });
+      if (FINISHED_JOB_STATUSES.includes(job.status)) {
+        if (job.status === 'succeeded') return job.result as TResult;
+        throw new Error(job.error || (job.status === 'cancelled' ? 'Job cancelled' : 'Job failed'));
+      }
+      await new Promise((resolve) => globalThis.setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  }
+
   private normalizeStackResponse(response: StackPaginatedResponse): StackPaginatedResponse {
     return {
       ...response,
@@ -1658,7 +2173,7 @@ class ApiClient {
 
   private async uploadFile<T>(
     path: string,
-    formData: FormData,
+    body: FormData | Blob,
     onProgress?: (progress: number) => void
   ): Promise<T> {
     return new Promise((resolve, reject) => {
@@ -1709,7 +2224,7 @@ class ApiClient {
 
       xhr.open('POST', `${this.baseUrl}${path}`);
       xhr.timeout = UPLOAD_REQUEST_TIMEOUT_MS;
-      xhr.send(formData);
+      xhr.send(body);
     });
   }
 
@@ -1749,6 +2264,9 @@ class ApiClient {
         if (errorData.error) {
           errorMessage = errorData.error;
         }
+        if (response.status === 401 && errorData.authRequired) {
+          window.dispatchEvent(new Event(AUTH_REQUIRED_EVENT));
+        }
       } catch {
         // Ignore JSON parse errors
       }
@@ -1,3 +1,5 @@
+import type { ComicExportFormat } from '@/types';
+
 export const getStackOriginalsDownloadUrl = (
   datasetId: string | number,
   stackIds: Array<string | number>
@@ -51,3 +53,38 @@ export const downloadAssetOriginals = (
   link.click();
   link.remove();
 };
+
+export const getComicExportUrl = (
+  stackId: string | number,
+  format: ComicExportFormat,
+  maxSize?: number | null
+) => {
+  const params = new URLSearchParams({ format });
+  if (maxSize) params.set('maxSize', String(maxSize));
+  return `/api/v1/stacks/${stackId}/export?${params.toString()}`;
+};
+
+export const downloadComicExport = (
+  stackId: string | number,
+  format: ComicExportFormat,
+  maxSize?: number | null
+) => {
+  const link = document.createElement('a');
+  link.href = getComicExportUrl(stackId, format, maxSize);
+  link.download = '';
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+// ライブラリのアーカイブは POST で書き出すため、フォーム送信でダウンロードさせる
+export const downloadLibraryArchive = (datasetId: string | number) => {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = `/api/v1/datasets/${datasetId}/export`;
+  form.style.display = 'none';
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
+};
@@ -107,6 +107,44 @@ const en = {
     password: 'Password',
     invalidPassword: 'Invalid password',
     unlock: 'Unlock',
+    signIn: 'Sign in',
+    signInDescription: 'Sign in to CaramelBoard to continue.',
+    userName: 'User name',
+    invalidCredentials: 'Invalid user name or password',
+  },
+  account: {
+    pageTitle: 'Users',
+    title: 'Account',
+    setupDescription:
+      'Create an administrator account to require sign-in. Until then, CaramelBoard stays open to anyone who can reach it.',
+    passwordHint: 'At least 8 characters',
+    setup: 'Create administrator',
+    signedInAs: (name: string) => `Signed in as ${name}`,
+    roles: { super: 'Administrator', user: 'Member', viewer: 'Viewer' },
+    currentPassword: 'Current password',
+    newPassword: 'New password',
+    changePassword: 'Change password',
+    passwordChanged: 'Password changed',
+    logout: 'Sign out',
+    usersTitle: 'Users',
+    usersDescription:
+      'Favorites, likes and pins are kept separately for each user. Viewers can browse but not edit.',
+    addUser: 'Add user',
+    email: 'Email (optional)',
+    role: 'Role',
+    create: 'Add',
+    you: 'you',
+    disabled: 'Disabled',
+    disable: 'Disable',
+    enable: 'Enable',
+    resetPassword: 'Reset password',
+    save: 'Save',
+    cancel: 'Cancel',
+    remove: 'Delete',
+    removeConfirm: (name: string) =>
+      `Delete user "${name}"? Their favorites and pins will also be deleted.`,
+    lastLogin: (date: string) => `Last sign-in ${date}`,
+    operationFailed: (message: string) => `Operation failed: ${message}`,
   },
   sidebar: {
     library: 'Library',
@@ -119,6 +157,8 @@ const en = {
     autoTags: 'AutoTags',
     autoTagsNav: 'AutoTags',
     authors: 'Authors',
+    nearDuplicates: 'Near duplicates',
+    trash: 'Trash',
     collections: 'Collections',
     noCollectionsOrFolders: 'No Collections or Folders',
     createCollection: 'Create Collection',
@@ -140,6 +180,7 @@ const en = {
     settings: 'Settings',
     general: 'General',
     libraries: 'Libraries',
+    users: 'Users',
     autoTag: 'Auto-Tag',
     loadingAuthors: 'Loading authors...',
     loadingTags: 'Loading tags...',
@@ -154,6 +195,7 @@ const en = {
     shuffle: 'Shuffle',
     filter: 'Filter',
     openFilter: 'Open filter',
+    search: 'Search library',
     closeFilter: 'Close filter',
     selectionMode: 'Selection mode',
     reorderMode: 'Reorder mode',
@@ -178,6 +220,23 @@ const en = {
     items: 'Items',
     themeColor: 'Theme Color',
     passwordProtection: 'Password Protection',
+    fileEncryption: 'File encryption',
+    fileEncryptionHint:
+      'Encrypt originals, thumbnails and previews on disk with the library password.',
+    encryptionDecrypting: 'Decrypting',
+    encryptFiles: 'Encrypt',
+    decryptFiles: 'Decrypt',
+    decryptBeforeDisablingProtection: 'Decrypt the files before turning protection off.',
+    keywordTags: 'Keywords as tags',
+    keywordTagsHint: 'Add embedded IPTC / XMP keywords as tags when importing images.',
+    sceneDetection: 'Scene detection',
+    sceneDetectionHint: 'Add scene markers and a keyframe strip to every video.',
+    sceneSensitivityLow: 'Low sensitivity',
+    sceneSensitivityNormal: 'Normal sensitivity',
+    sceneSensitivityHigh: 'High sensitivity',
+    detectScenes: 'Detect',
+    sceneDetectionStarted: 'Scene detection has started. Progress is shown under background jobs.',
+    sceneDetectionFailed: 'Failed to start scene detection.',
     enabled: 'Enabled',
     disabled: 'Disabled',
     enable: 'Enable',
@@ -213,11 +272,133 @@ const en = {
     fullRefreshFailed: 'Failed to start the full refresh.',
     fullRefreshStarted: 'Full refresh has started successfully.',
     fullRefreshProcessing: 'Processing continues in the background.',
-    scheduledThumbnails: (count: number) => `Thumbnails: ${count.toLocaleString()}`,
-    scheduledPreviews: (count: number) => `Previews: ${count.toLocaleString()}`,
-    scheduledColors: (count: number) => `Color analysis: ${count.toLocaleString()}`,
-    scheduledMediaTypes: (count: number) => `Media types: ${count.toLocaleString()}`,
-    scheduledAutoTags: (count: number) => `Auto-tagging: ${count.toLocaleString()}`,
+    archive: 'Archive',
+    archiveHint: 'Originals, tags, authors, collections, and favorites in one file.',
+    exportLibrary: 'Export',
+    importIntoLibrary: 'Import',
+    importLibrary: 'Import Library',
+    importing: 'Importing...',
+    importCompleted: (stacks: number, duplicates: number) =>
+      `Imported ${stacks.toLocaleString()} stacks. ${duplicates.toLocaleString()} duplicate files were skipped.`,
+    importFailed: 'Failed to import the library archive.',
+    jobsTitle: 'Background Jobs',
+    jobsDescription: 'Full refreshes, bulk regeneration, and URL imports run here one at a time.',
+    jobsEmpty: 'No jobs yet.',
+    jobStatusQueued: 'Queued',
+    jobStatusRunning: 'Running',
+    jobStatusSucceeded: 'Done',
+    jobStatusFailed: 'Failed',
+    jobStatusCancelled: 'Cancelled',
+    jobTypeRefreshAll: 'Full refresh',
+    jobTypeRefreshThumbnails: 'Refresh thumbnails',
+    jobTypeRefreshAutoTags: 'Refresh AutoTags',
+    jobTypeImportUrls: 'Import from URLs',
+    jobTypeComputePerceptualHashes: 'Scan for near duplicates',
+    jobTypeImportArchive: 'Import library archive',
+    jobTypeIngestWatchedFolder: 'Import from watched folder',
+    jobTypeDetectScenes: 'Detect video scenes',
+    jobProgress: (done: number, total: number) =>
+      `${done.toLocaleString()} / ${total.toLocaleString()}`,
+    jobFailedItems: (count: number) => `${count.toLocaleString()} failed`,
+    jobCancel: 'Cancel',
+    jobRetry: 'Run again',
+    jobRetryFailed: 'Retry failed items',
+    jobFailureLog: 'Failure log',
+    jobNoFailures: 'No failures.',
+    jobActionFailed: 'Failed to update the job.',
+    watchedFoldersTitle: 'Watched Folders',
+    watchedFoldersDescription:
+      'New files in these server folders are imported automatically once they stop changing.',
+    watchedFoldersEmpty: 'No watched folders yet.',
+    watchedFolderAdd: 'Add watched folder',
+    watchedFolderLibrary: 'Library',
+    watchedFolderPath: 'Folder path on the server',
+    watchedFolderPathPlaceholder: '/srv/inbox',
+    watchedFolderGroupingMode: 'Subfolders',
+    watchedFolderGroupingSingleStack: 'Merge each subfolder into one stack',
+    watchedFolderGroupingCreateCollection: 'Create a collection per subfolder',
+    watchedFolderGroupingFlat: 'Import every file as its own stack',
+    watchedFolderMediaType: 'Media type',
+    watchedFolderMediaTypeAuto: 'Detect automatically',
+    watchedFolderTags: 'Tags',
+    watchedFolderTagsPlaceholder: 'Comma separated',
+    watchedFolderAuthor: 'Author',
+    watchedFolderCollection: 'Add to collection',
+    watchedFolderNoCollection: 'None',
+    watchedFolderAfterImport: 'After import',
+    watchedFolderAfterImportMove: 'Move to processed folder',
+    watchedFolderAfterImportKeep: 'Keep in place',
+    watchedFolderProcessedPath: 'Processed folder',
+    watchedFolderProcessedPathPlaceholder: '_imported inside the watched folder',
+    watchedFolderSettleSeconds: 'Wait after last write (seconds)',
+    watchedFolderCreate: 'Add',
+    watchedFolderPaused: 'Paused',
+    watchedFolderPause: 'Pause',
+    watchedFolderResume: 'Resume',
+    watchedFolderScanNow: 'Scan now',
+    watchedFolderRemove: 'Remove',
+    watchedFolderLastScan: (date: string) => `Last scan ${date}`,
+    watchedFolderRemoveConfirm: (path: string) =>
+      `Stop watching "${path}"? Files already imported stay in the library.`,
+    watchedFolderActionFailed: 'Failed to update the watched folder.',
+    automationRulesTitle: 'Automation Rules',
+    automationRulesDescription:
+      'Run actions on new stacks that match the conditions. Each rule runs once per stack, after import and again once auto-tags are ready.',
+    automationRulesEmpty: 'No automation rules yet.',
+    automationRuleAdd: 'Add rule',
+    automationRuleName: 'Rule name',
+    automationRuleNamePlaceholder: 'e.g. Tag comic pages',
+    automationRuleMatchMode: 'Match',
+    automationRuleMatchAll: 'All conditions',
+    automationRuleMatchAny: 'Any condition',
+    automationRuleConditions: 'Conditions',
+    automationRuleAddCondition: 'Add condition',
+    automationRuleConditionAutoTagScore: 'Auto-tag score',
+    automationRuleConditionFilename: 'File name',
+    automationRuleConditionSourceUrl: 'Source URL',
+    automationRuleConditionAuthor: 'Author',
+    automationRuleConditionMediaType: 'Media type',
+    automationRuleConditionDominantColor: 'Dominant color',
+    automationRuleActions: 'Actions',
+    automationRuleAddAction: 'Add action',
+    automationRuleActionAddTag: 'Add tag',
+    automationRuleActionSetAuthor: 'Set author',
+    automationRuleActionSetMediaType: 'Set media type',
+    automationRuleActionAddToCollection: 'Add to collection',
+    automationRuleActionFavorite: 'Favorite',
+    automationRulePatternContains: 'Contains',
+    automationRulePatternGlob: 'Wildcard (* ?)',
+    automationRulePatternRegex: 'Regular expression',
+    automationRuleAuthorIs: 'Is',
+    automationRuleAuthorIsNot: 'Is not',
+    automationRuleAuthorIsEmpty: 'Is empty',
+    automationRuleHueRed: 'Red',
+    automationRuleHueOrange: 'Orange',
+    automationRuleHueYellow: 'Yellow',
+    automationRuleHueGreen: 'Green',
+    automationRuleHueCyan: 'Cyan',
+    automationRuleHueBlue: 'Blue',
+    automationRuleHueViolet: 'Violet',
+    automationRuleTag: 'Tag',
+    automationRulePattern: 'Pattern',
+    automationRuleMinScore: 'Minimum score (0–1)',
+    automationRuleMinPercentage: 'Minimum coverage (%)',
+    automationRuleAuthor: 'Author',
+    automationRuleAuthorPlaceholder: 'Author name, {domain} for the source site',
+    automationRuleCollection: 'Collection',
+    automationRulePreview: 'Preview',
+    automationRulePreviewResult: (total: number, scanned: number) =>
+      `${total.toLocaleString()} of ${scanned.toLocaleString()} stacks match`,
+    automationRulePreviewAlreadyApplied: (count: number) =>
+      `${count.toLocaleString()} already applied`,
+    automationRuleCreate: 'Add',
+    automationRuleApplyNow: 'Apply to existing',
+    automationRuleApplyConfirm: (name: string) =>
+      `Run "${name}" on every existing stack that matches and has not run it yet?`,
+    automationRuleApplied: (count: number) => `Applied to ${count.toLocaleString()} stacks.`,
+    automationRuleRemoveConfirm: (name: string) =>
+      `Delete the rule "${name}"? Changes it already made stay.`,
+    automationRuleActionFailed: 'Failed to update the automation rule.',
     setDefaultFailed: 'Failed to set the default library.',
     protectionUpdateFailed: 'Failed to update protection settings.',
     selectLibraryIcon: 'Select library icon',
@@ -231,12 +412,20 @@ const en = {
     stepThumbnails: 'Thumbnails - regenerate the lead asset thumbnail for every stack.',
     stepColors: 'Color analysis - extract key colors for better search and filtering.',
     stepAutoTagging: 'Auto-tagging - local AI updates descriptive tags.',
+    stepEmbeddedMetadata: 'Embedded metadata - reads EXIF, XMP, IPTC and PNG text again.',
     forceRegenerateWarning:
       'Force regenerate revisits every item and may take a long time for large libraries.',
     setPassword: 'Set password',
     currentPassword: 'Current password',
     enableProtection: 'Enable Protection',
     disableProtection: 'Disable Protection',
+    encryptLibraryFiles: 'Encrypt Library Files',
+    decryptLibraryFiles: 'Decrypt Library Files',
+    encryptLibraryFilesDescription:
+      'Existing files are encrypted in a background job. Files cannot be recovered without the library password.',
+    decryptLibraryFilesDescription:
+      'Files are written back as plain files in a background job. New files stay unencrypted.',
+    encryptionUpdateFailed: 'Failed to change file encryption.',
   },
   settings: {
     generalTitle: 'General Settings',
@@ -263,6 +452,68 @@ const en = {
     extensionKeyCopied: 'Copied the Clipper key.',
     extensionKeyCopyFailed: 'Failed to copy the Clipper key.',
   },
+  nearDuplicates: {
+    title: 'Near duplicates',
+    description:
+      'Stacks whose images look almost the same, such as resized or re-encoded copies. Merge them, keep them all, or delete the extras.',
+    threshold: 'Sensitivity',
+    thresholdOption: (distance: number) => `Distance ≤ ${distance}`,
+    scan: 'Scan',
+    scanning: 'Scanning…',
+    scanFailed: 'Failed to scan for near duplicates',
+    actionFailed: 'Failed to update near duplicates',
+    unhashedAssets: (count: number) =>
+      `${count.toLocaleString()} item(s) have not been scanned yet.`,
+    empty: 'No near duplicates found.',
+    groupCount: (count: number) => `${count.toLocaleString()} group(s)`,
+    distance: (distance: number) => (distance === 0 ? 'Identical' : `Distance ${distance}`),
+    assetCount: (count: number) => `${count.toLocaleString()} item(s)`,
+    mergeTarget: 'Merge target',
+    mergeIntoTarget: 'Merge into target',
+    keepAll: 'Keep all',
+    deleteStack: 'Delete stack',
+    previous: 'Previous',
+    next: 'Next',
+  },
+  trash: {
+    title: 'Trash',
+    description: (days: number) =>
+      `Deleted stacks and items are kept here for ${days} day(s), then removed permanently.`,
+    empty: 'The trash is empty.',
+    emptyTrash: 'Empty trash',
+    emptyTrashConfirm: (count: number) =>
+      `Permanently delete ${count.toLocaleString()} item(s) in the trash? This cannot be undone.`,
+    restore: 'Restore',
+    deletePermanently: 'Delete permanently',
+    deletePermanentlyConfirm: (name: string) =>
+      `Permanently delete "${name}"? This cannot be undone.`,
+    stackItem: (count: number) => `Stack · ${count.toLocaleString()} item(s)`,
+    assetItem: (stackId: number | null) => (stackId ? `Item in stack #${stackId}` : 'Item'),
+    deletedAt: (date: string) => `Deleted ${date}`,
+    expiresAt: (date: string) => `Removed on ${date}`,
+    restored: (name: string) => `Restored "${name}".`,
+    actionFailed: 'Failed to update the trash',
+    history: 'Recent operations',
+    historyDescription: (limit: number) => `The last ${limit} operations can be undone.`,
+    noHistory: 'No operations yet.',
+    undo: 'Undo',
+    undone: 'Undone',
+    undoSucceeded: 'The operation was undone.',
+    undoFailed: 'Failed to undo the operation',
+    operations: {
+      'stacks.remove': (count: number) => `Moved ${count.toLocaleString()} stack(s) to the trash`,
+      'assets.remove': (count: number) => `Moved ${count.toLocaleString()} item(s) to the trash`,
+      'stacks.merge': (count: number) => `Merged ${count.toLocaleString()} stack(s)`,
+      'assets.separate': (_count: number) => 'Separated an item into a new stack',
+      'tags.merge': (count: number) => `Merged ${count.toLocaleString()} tag(s)`,
+      'authors.merge': (count: number) => `Merged ${count.toLocaleString()} author(s)`,
+      'stacks.bulk-tags': (count: number) => `Added tags to ${count.toLocaleString()} stack(s)`,
+      'stacks.bulk-author': (count: number) =>
+        `Set the author of ${count.toLocaleString()} stack(s)`,
+      'stacks.bulk-media-type': (count: number) =>
+        `Changed the media type of ${count.toLocaleString()} stack(s)`,
+    },
+  },
   authorManagement: {
     title: 'Authors',
     searchPlaceholder: 'Search authors, IDs, or links...',
@@ -292,6 +543,21 @@ const en = {
     merging: 'Merging...',
     mergeConfirm: (count: number, targetName: string) =>
       `Merge ${count.toLocaleString()} author(s) into "${targetName}"?`,
+    inboxTitle: 'New Works',
+    inboxDescription: 'Works found through author links that are not in the library yet.',
+    inboxEmpty: 'No new works',
+    inboxNotConfigured:
+      'Set CARAMEL_AUTHOR_PROVIDER_URL on the server to fetch author profiles and works.',
+    refreshInbox: 'Check for new works',
+    refreshingInbox: 'Checking...',
+    refreshInboxFailed: 'Could not fetch new works.',
+    importWork: 'Import',
+    importingWork: 'Importing...',
+    importWorkFailed: 'Could not import this work.',
+    dismissWork: 'Hide',
+    openWork: 'Open original page',
+    untitledWork: 'Untitled',
+    newWorkCount: (count: number) => `${count.toLocaleString()} new`,
   },
   viewer: {
     info: 'Information',
@@ -317,6 +583,13 @@ const en = {
     title: 'Filter',
     closeFilter: 'Close filter panel',
     searchByName: 'Search tags, authors, auto tags, and more',
+    querySyntaxHint:
+      'e.g. tag:sky -tag:draft author:"Name" is:fav auto:sea assets:>1 added:>2025-01-01 (a OR b)',
+    querySyntaxError: (message: string, column: number) => `${message} (at character ${column})`,
+    copyAsQuery: 'Copy as query',
+    copyAsQueryHint: 'Copy the current filters as a search query',
+    queryCopied: 'Copied the filters as a search query',
+    queryCopyFailed: 'Failed to copy the query',
     tags: 'Tags',
     typeTagEnter: 'Type tag and press Enter',
     authors: 'Authors',
@@ -335,6 +608,7 @@ const en = {
     multipleImages: 'Multiple Images',
     sortBy: 'Sort by',
     recommended: 'Recommended',
+    relevance: 'Relevance',
     dateAdded: 'Date Added',
     name: 'Name',
     mostLiked: 'Most Liked',
@@ -355,6 +629,10 @@ const en = {
     favs: 'Favs',
     notFavs: 'Not Favs',
     notLiked: 'Not Liked',
+    readingStatus: 'Reading',
+    unread: 'Unread',
+    inProgress: 'In progress',
+    read: 'Read',
     showOnlyWithoutTags: 'No tags only',
     showOnlyWithoutAuthor: 'No author only',
     tagHint: 'Type tag and press Enter to add',
@@ -379,7 +657,9 @@ const en = {
     filtersActive: 'Filters active',
     create: 'Create',
     createSmartCollectionTitle: 'Create Smart Collection',
-    createSmartCollectionDesc: 'Save the current filter conditions to create a smart collection.',
+    createSmartCollectionDesc:
+      'Save the current filters and sort order as a smart collection. Its contents update automatically.',
+    createSmartCollectionFailed: 'Failed to create the smart collection.',
     collectionName: 'Collection Name',
     createSmartCollectionError: 'Error creating smart collection:',
   },
@@ -593,6 +873,48 @@ const en = {
     addTag: 'Add tag',
     autoTags: 'AutoTags',
     dominantColors: 'Dominant Colors',
+    embeddedMetadata: 'Embedded Metadata',
+    capturedAt: 'Captured',
+    camera: 'Camera',
+    lens: 'Lens',
+    exposure: 'Exposure',
+    software: 'Software',
+    artist: 'Artist',
+    imageTitle: 'Title',
+    imageDescription: 'Description',
+    location: 'Location',
+    keywords: 'Keywords',
+    addKeywordAsTag: (keyword: string) => `Add "${keyword}" as a tag`,
+    prompt: 'Prompt',
+    copyPrompt: 'Copy prompt',
+    textChunks: 'Text chunks',
+    source: 'Source',
+    importChannel: 'Imported via',
+    importChannelUpload: 'Upload',
+    importChannelClipper: 'Browser extension',
+    importChannelUrl: 'URL import',
+    importChannelWatchedFolder: 'Watched folder',
+    importedAt: 'Imported',
+    sourcePageUrl: 'Page',
+    sourceMediaUrl: 'Media',
+    sourceReferrer: 'Referrer',
+    findSameSource: (host: string) => `Find items from ${host}`,
+    scenes: 'Scenes',
+    sceneSensitivity: 'Sensitivity',
+    fewerScenes: 'Fewer',
+    moreScenes: 'More',
+    detectScenes: 'Detect scenes',
+    detectingScenes: 'Detecting…',
+    sceneCount: (count: number) => `${count} ${count === 1 ? 'scene' : 'scenes'}`,
+    scenesNotDetected: 'Scenes have not been detected yet',
+    scenesDetected: (count: number) => `Detected ${count} ${count === 1 ? 'scene' : 'scenes'}`,
+    sceneDetectionFailed: 'Failed to detect scenes',
+    comicExport: 'Export',
+    comicExportSize: 'Page size',
+    comicExportOriginalSize: 'Original size',
+    comicExportLongEdge: (px: number) => `Long edge ${px}px`,
+    exportCbz: 'Export CBZ',
+    exportPdf: 'Export PDF',
     copyHex: 'Copy hex',
     stats: 'Stats',
     assets: 'Assets',
@@ -662,6 +984,25 @@ const en = {
       `Are you sure you want to delete ${count.toLocaleString()} tag${
         count > 1 ? 's' : ''
       }? This action cannot be undone.`,
+    category: 'Category',
+    noCategory: 'No category',
+    newCategory: 'New category',
+    categoryName: 'Category name',
+    addCategory: 'Add category',
+    deleteCategory: 'Delete category',
+    aliases: 'Aliases',
+    aliasesDescription: 'Typing an alias adds this tag instead.',
+    addAlias: 'Add alias',
+    aliasPlaceholder: 'e.g. bw',
+    noAliases: 'No aliases',
+    implies: 'Implies',
+    impliesDescription: 'Stacks with this tag also get these tags, including existing ones.',
+    addImplication: 'Add parent tag',
+    implicationPlaceholder: 'Parent tag name',
+    noImplications: 'No parent tags',
+    impliedBy: 'Implied by',
+    remove: 'Remove',
+    tagRuleFailed: 'Failed to update tag rules',
   },
   autoTagPage: {
     statistics: 'AutoTag Statistics',
@@ -726,6 +1067,7 @@ const en = {
     popularTags: 'Popular Tags',
     recentlyLiked: 'Recently Liked',
     recentlyScratch: 'Recently Scratch',
+    continueReading: 'Continue Reading',
   },
   similar: {
     similarTo: (id: string | number) => `Similar to #${id}`,
@@ -734,7 +1076,51 @@ const en = {
     failed: 'Failed to load similar items',
     emptyAutoTags: 'No similar items yet (try updating AutoTags)',
     emptyTagsOrAutoTags: 'No similar items yet (try updating tags or AutoTags)',
+    emptyVisual: 'No visually similar items yet (refresh the library to compute image embeddings)',
     ariaLabel: 'Similar stacks',
+    modeLabel: 'Match by',
+    modeHybrid: 'Look + tags',
+    modeVisual: 'Look',
+    modeTags: 'Tags',
+  },
+  share: {
+    share: 'Share',
+    shareTitle: (name: string) => `Share "${name}"`,
+    description: 'Anyone with the link can view it without an account. They cannot make changes.',
+    label: 'Note (optional)',
+    labelPlaceholder: 'e.g. For the client review',
+    expires: 'Expires',
+    expiresNever: 'Never',
+    expiresInDays: (days: number) => (days === 1 ? 'In 1 day' : `In ${days} days`),
+    password: 'Password (optional)',
+    passwordPlaceholder: 'At least 4 characters',
+    allowOriginals: 'Allow viewing and downloading originals',
+    create: 'Create link',
+    creating: 'Creating...',
+    createFailed: 'Failed to create the share link.',
+    copy: 'Copy link',
+    copied: 'Copied',
+    linkReady: 'Share this link with the viewer.',
+    done: 'Done',
+    title: 'Share Links',
+    sectionDescription:
+      'Read-only links for people without an account. Revoke a link to stop access.',
+    empty:
+      'No share links yet. Share a collection from its context menu or a stack from its info panel.',
+    deletedTarget: 'Deleted',
+    collectionTarget: 'Collection',
+    stackTarget: 'Stack',
+    statuses: { active: 'Active', expired: 'Expired', revoked: 'Revoked' },
+    views: (count: number) => `${count.toLocaleString()} ${count === 1 ? 'view' : 'views'}`,
+    lastViewed: (date: string) => `Last viewed ${date}`,
+    expiresAt: (date: string) => `Expires ${date}`,
+    passwordProtected: 'Password protected',
+    originalsAllowed: 'Originals allowed',
+    revoke: 'Revoke',
+    revokeConfirm: (name: string) => `Revoke the share link for "${name}"? It will stop working.`,
+    remove: 'Remove',
+    removeConfirm: (name: string) => `Remove the share link for "${name}"?`,
+    actionFailed: 'Failed to update the share link.',
   },
   upload: {
     addMedia: 'Add media',
@@ -762,6 +1148,8 @@ const en = {
     ) =>
       `Collection "${collection}" (ID: ${collectionId}) now contains ${count.toLocaleString()} created stack(s).`,
     cancelledFolderImport: (name: string) => `Cancelled import for "${name}".`,
+    nearDuplicatesFound: (name: string, stackIds: number[]) =>
+      `"${name}" looks similar to existing stack(s) ${stackIds.map((id) => `#${id}`).join(', ')}.`,
   },
   viewerControls: {
     sortAssets: 'Sort assets',
@@ -790,6 +1178,9 @@ const en = {
     enterListMode: 'Enter list mode',
     volume: 'Volume',
     jumpTo: (seconds: string) => `Jump to ${seconds}s`,
+    showScenes: 'Show scenes',
+    hideScenes: 'Hide scenes',
+    sceneAt: (seconds: string) => `Scene at ${seconds}s`,
     changeStepFps: 'Change step FPS',
     markerSettings: 'Marker Settings',
     timeSeconds: 'Time (sec)',
@@ -814,6 +1205,24 @@ const en = {
     like: 'Like',
     unlike: 'Unlike',
     editMarker: 'Edit',
+    exportRange: 'Export range',
+    clipStart: 'Start (sec)',
+    clipEnd: 'End (sec)',
+    clipEndPlaceholder: 'To the end',
+    clipFormat: 'Format',
+    clipFps: 'FPS',
+    clipWidth: 'Width (px)',
+    clipOriginal: 'Original',
+    clipDestination: 'Save to',
+    clipToSameStack: 'This stack',
+    clipToNewStack: 'New stack',
+    exportClip: 'Export',
+    exportingClip: 'Exporting…',
+    invalidClipRange: 'The end must be after the start.',
+    invalidClipSize: 'FPS and width must be numbers.',
+    clipExported: 'Exported the clip',
+    clipExportFailed: 'Failed to export the clip',
+    resumePosition: (page: number) => `Left off at page ${page}`,
     deleteMarker: 'Delete',
     hidePenLayer: 'Hide pen layer',
     showPenLayer: 'Show pen layer',
@@ -823,7 +1232,15 @@ const en = {
     opacityValue: (value: number) => `Opacity ${value}%`,
     layerOpacity: (value: number) => `Layer opacity ${value}%`,
     backgroundFadeValue: (value: number) => `Background fade ${value}%`,
-    clearAll: 'Clear all',
+    clearLayer: 'Clear layer',
+    layers: 'Layers',
+    addLayer: 'Add layer',
+    deleteLayer: 'Delete layer',
+    layerName: (index: number) => `Layer ${index}`,
+    layerNameLabel: 'Layer name',
+    exportAnnotated: 'Export image with annotations',
+    exportAnnotatedFailed: 'Failed to export the annotated image',
+    annotationsSaveFailed: 'Failed to save annotations',
     exitPenMode: 'Exit pen mode',
     lightGray: 'Light Gray',
     brightRed: 'Bright Red',
@@ -898,6 +1315,44 @@ const ja: Translations = {
     password: 'パスワード',
     invalidPassword: 'パスワードが正しくありません',
     unlock: 'ロック解除',
+    signIn: 'ログイン',
+    signInDescription: 'CaramelBoard を使うにはログインしてください。',
+    userName: 'ユーザー名',
+    invalidCredentials: 'ユーザー名またはパスワードが正しくありません',
+  },
+  account: {
+    pageTitle: 'ユーザー',
+    title: 'アカウント',
+    setupDescription:
+      '管理者アカウントを作成するとログインが必須になります。作成するまでは、アクセスできる人なら誰でも利用できます。',
+    passwordHint: '8 文字以上',
+    setup: '管理者を作成',
+    signedInAs: (name: string) => `${name} としてログイン中`,
+    roles: { super: '管理者', user: 'メンバー', viewer: '閲覧のみ' },
+    currentPassword: '現在のパスワード',
+    newPassword: '新しいパスワード',
+    changePassword: 'パスワードを変更',
+    passwordChanged: 'パスワードを変更しました',
+    logout: 'ログアウト',
+    usersTitle: 'ユーザー',
+    usersDescription:
+      'お気に入り・Like・ピンはユーザーごとに保存されます。閲覧のみのユーザーは編集できません。',
+    addUser: 'ユーザーを追加',
+    email: 'メールアドレス（任意）',
+    role: '権限',
+    create: '追加',
+    you: 'あなた',
+    disabled: '無効',
+    disable: '無効にする',
+    enable: '有効にする',
+    resetPassword: 'パスワードを再設定',
+    save: '保存',
+    cancel: 'キャンセル',
+    remove: '削除',
+    removeConfirm: (name: string) =>
+      `ユーザー「${name}」を削除しますか？このユーザーのお気に入りとピンも削除されます。`,
+    lastLogin: (date: string) => `最終ログイン ${date}`,
+    operationFailed: (message: string) => `操作に失敗しました: ${message}`,
   },
   sidebar: {
     library: 'ライブラリ一覧',
@@ -910,6 +1365,8 @@ const ja: Translations = {
     autoTags: '自動タグ割り当て',
     autoTagsNav: '自動タグ',
     authors: '作者',
+    nearDuplicates: '類似画像',
+    trash: 'ゴミ箱',
     collections: 'コレクション',
     noCollectionsOrFolders: 'コレクション・フォルダがありません',
     createCollection: 'コレクションを作成',
@@ -931,6 +1388,7 @@ const ja: Translations = {
     settings: '設定',
     general: '一般',
     libraries: 'ライブラリ一覧',
+    users: 'ユーザー',
     autoTag: '自動タグ割り当て',
     loadingAuthors: '作者を読み込み中...',
     loadingTags: 'タグを読み込み中...',
@@ -945,6 +1403,7 @@ const ja: Translations = {
     shuffle: 'シャッフル',
     filter: 'フィルター',
     openFilter: 'フィルターを開く',
+    search: 'ライブラリを検索',
     closeFilter: 'フィルターを閉じる',
     selectionMode: '選択モード',
     reorderMode: '並び替えモード',
@@ -969,6 +1428,23 @@ const ja: Translations = {
     items: 'アイテム',
     themeColor: 'テーマカラー',
     passwordProtection: 'パスワード保護',
+    fileEncryption: 'ファイルの暗号化',
+    fileEncryptionHint:
+      'オリジナル・サムネイル・プレビューをライブラリのパスワードで暗号化して保存します。',
+    encryptionDecrypting: '復号中',
+    encryptFiles: '暗号化',
+    decryptFiles: '復号',
+    decryptBeforeDisablingProtection: '保護を無効にする前にファイルを復号してください。',
+    keywordTags: 'キーワードをタグにする',
+    keywordTagsHint: '画像の取り込み時に、埋め込まれた IPTC / XMP キーワードをタグとして付けます。',
+    sceneDetection: 'シーン検出',
+    sceneDetectionHint: 'すべての動画にシーンマーカーとキーフレームのストリップを付けます。',
+    sceneSensitivityLow: '感度: 低',
+    sceneSensitivityNormal: '感度: 標準',
+    sceneSensitivityHigh: '感度: 高',
+    detectScenes: '検出',
+    sceneDetectionStarted: 'シーン検出を開始しました。進捗はバックグラウンドジョブに表示されます。',
+    sceneDetectionFailed: 'シーン検出を開始できませんでした。',
     enabled: '有効',
     disabled: '無効',
     enable: '有効にする',
@@ -1004,11 +1480,134 @@ const ja: Translations = {
     fullRefreshFailed: '再構築を開始できませんでした。',
     fullRefreshStarted: '再構築を開始しました。',
     fullRefreshProcessing: '処理はバックグラウンドで続行されます。',
-    scheduledThumbnails: (count: number) => `サムネイル: ${count.toLocaleString()} 件`,
-    scheduledPreviews: (count: number) => `プレビュー: ${count.toLocaleString()} 件`,
-    scheduledColors: (count: number) => `色解析: ${count.toLocaleString()} 件`,
-    scheduledMediaTypes: (count: number) => `メディアタイプ: ${count.toLocaleString()} 件`,
-    scheduledAutoTags: (count: number) => `自動タグ付け: ${count.toLocaleString()} 件`,
+    archive: 'アーカイブ',
+    archiveHint: 'オリジナル・タグ・作者・コレクション・お気に入りを 1 つのファイルにまとめます。',
+    exportLibrary: '書き出す',
+    importIntoLibrary: '取り込む',
+    importLibrary: 'ライブラリを取り込む',
+    importing: '取り込み中...',
+    importCompleted: (stacks: number, duplicates: number) =>
+      `${stacks.toLocaleString()} 件のスタックを取り込みました。重複した ${duplicates.toLocaleString()} 件のファイルはスキップしました。`,
+    importFailed: 'ライブラリのアーカイブを取り込めませんでした。',
+    jobsTitle: 'バックグラウンドジョブ',
+    jobsDescription: '再構築・一括再生成・URL 取り込みはここで 1 件ずつ実行されます。',
+    jobsEmpty: 'ジョブはまだありません。',
+    jobStatusQueued: '待機中',
+    jobStatusRunning: '実行中',
+    jobStatusSucceeded: '完了',
+    jobStatusFailed: '失敗',
+    jobStatusCancelled: '取消',
+    jobTypeRefreshAll: '再構築',
+    jobTypeRefreshThumbnails: 'サムネイル再生成',
+    jobTypeRefreshAutoTags: '自動タグ再生成',
+    jobTypeImportUrls: 'URL から取り込み',
+    jobTypeComputePerceptualHashes: '類似画像のスキャン',
+    jobTypeImportArchive: 'ライブラリのアーカイブを取り込み',
+    jobTypeIngestWatchedFolder: '監視フォルダから取り込み',
+    jobTypeDetectScenes: '動画のシーン検出',
+    jobProgress: (done: number, total: number) =>
+      `${done.toLocaleString()} / ${total.toLocaleString()}`,
+    jobFailedItems: (count: number) => `失敗 ${count.toLocaleString()} 件`,
+    jobCancel: '中止',
+    jobRetry: '再実行',
+    jobRetryFailed: '失敗分を再実行',
+    jobFailureLog: '失敗ログ',
+    jobNoFailures: '失敗はありません。',
+    jobActionFailed: 'ジョブを更新できませんでした。',
+    watchedFoldersTitle: '監視フォルダ',
+    watchedFoldersDescription:
+      'サーバー上のフォルダに追加されたファイルを、書き込みが落ち着いた後に自動で取り込みます。',
+    watchedFoldersEmpty: '監視フォルダはまだありません。',
+    watchedFolderAdd: '監視フォルダを追加',
+    watchedFolderLibrary: 'ライブラリ',
+    watchedFolderPath: 'サーバー上のフォルダのパス',
+    watchedFolderPathPlaceholder: '/srv/inbox',
+    watchedFolderGroupingMode: 'サブフォルダ',
+    watchedFolderGroupingSingleStack: 'サブフォルダごとに 1 つのスタックにまとめる',
+    watchedFolderGroupingCreateCollection: 'サブフォルダごとにコレクションを作成',
+    watchedFolderGroupingFlat: 'すべてのファイルを個別のスタックとして取り込む',
+    watchedFolderMediaType: 'メディアタイプ',
+    watchedFolderMediaTypeAuto: '自動判定',
+    watchedFolderTags: 'タグ',
+    watchedFolderTagsPlaceholder: 'カンマ区切り',
+    watchedFolderAuthor: '作者',
+    watchedFolderCollection: '追加先コレクション',
+    watchedFolderNoCollection: 'なし',
+    watchedFolderAfterImport: '取り込み後',
+    watchedFolderAfterImportMove: '処理済みフォルダへ移動',
+    watchedFolderAfterImportKeep: 'そのまま残す',
+    watchedFolderProcessedPath: '処理済みフォルダ',
+    watchedFolderProcessedPathPlaceholder: '監視フォルダ内の _imported',
+    watchedFolderSettleSeconds: '最後の書き込みからの待ち時間（秒）',
+    watchedFolderCreate: '追加',
+    watchedFolderPaused: '停止中',
+    watchedFolderPause: '停止',
+    watchedFolderResume: '再開',
+    watchedFolderScanNow: '今すぐ走査',
+    watchedFolderRemove: '削除',
+    watchedFolderLastScan: (date: string) => `最終走査 ${date}`,
+    watchedFolderRemoveConfirm: (path: string) =>
+      `「${path}」の監視をやめますか？取り込み済みのファイルはライブラリに残ります。`,
+    watchedFolderActionFailed: '監視フォルダを更新できませんでした。',
+    automationRulesTitle: '自動化ルール',
+    automationRulesDescription:
+      '条件に合う新しいスタックに動作を実行します。各ルールはスタックごとに 1 回だけ、取り込み時と自動タグの推論後に評価されます。',
+    automationRulesEmpty: '自動化ルールはまだありません。',
+    automationRuleAdd: 'ルールを追加',
+    automationRuleName: 'ルール名',
+    automationRuleNamePlaceholder: '例: 漫画のページにタグを付ける',
+    automationRuleMatchMode: '一致条件',
+    automationRuleMatchAll: 'すべての条件',
+    automationRuleMatchAny: 'いずれかの条件',
+    automationRuleConditions: '条件',
+    automationRuleAddCondition: '条件を追加',
+    automationRuleConditionAutoTagScore: '自動タグのスコア',
+    automationRuleConditionFilename: 'ファイル名',
+    automationRuleConditionSourceUrl: '取り込み元 URL',
+    automationRuleConditionAuthor: '作者',
+    automationRuleConditionMediaType: 'メディアタイプ',
+    automationRuleConditionDominantColor: '代表色',
+    automationRuleActions: '動作',
+    automationRuleAddAction: '動作を追加',
+    automationRuleActionAddTag: 'タグを付ける',
+    automationRuleActionSetAuthor: '作者を設定',
+    automationRuleActionSetMediaType: 'メディアタイプを設定',
+    automationRuleActionAddToCollection: 'コレクションに追加',
+    automationRuleActionFavorite: 'お気に入りにする',
+    automationRulePatternContains: '含む',
+    automationRulePatternGlob: 'ワイルドカード (* ?)',
+    automationRulePatternRegex: '正規表現',
+    automationRuleAuthorIs: '一致する',
+    automationRuleAuthorIsNot: '一致しない',
+    automationRuleAuthorIsEmpty: '未設定',
+    automationRuleHueRed: '赤',
+    automationRuleHueOrange: 'オレンジ',
+    automationRuleHueYellow: '黄',
+    automationRuleHueGreen: '緑',
+    automationRuleHueCyan: 'シアン',
+    automationRuleHueBlue: '青',
+    automationRuleHueViolet: '紫',
+    automationRuleTag: 'タグ',
+    automationRulePattern: 'パターン',
+    automationRuleMinScore: '最小スコア (0〜1)',
+    automationRuleMinPercentage: '最小の割合 (%)',
+    automationRuleAuthor: '作者',
+    automationRuleAuthorPlaceholder: '作者名（{domain} で取り込み元のサイト名）',
+    automationRuleCollection: 'コレクション',
+    automationRulePreview: '試し当て',
+    automationRulePreviewResult: (total: number, scanned: number) =>
+      `${scanned.toLocaleString()} 件中 ${total.toLocaleString()} 件のスタックが該当`,
+    automationRulePreviewAlreadyApplied: (count: number) =>
+      `${count.toLocaleString()} 件は実行済み`,
+    automationRuleCreate: '追加',
+    automationRuleApplyNow: '既存のスタックに実行',
+    automationRuleApplyConfirm: (name: string) =>
+      `「${name}」を、該当する既存のスタックのうち未実行のものすべてに実行しますか？`,
+    automationRuleApplied: (count: number) =>
+      `${count.toLocaleString()} 件のスタックに実行しました。`,
+    automationRuleRemoveConfirm: (name: string) =>
+      `ルール「${name}」を削除しますか？実行済みの変更はそのまま残ります。`,
+    automationRuleActionFailed: '自動化ルールを更新できませんでした。',
     setDefaultFailed: '既定ライブラリの設定に失敗しました。',
     protectionUpdateFailed: '保護設定の更新に失敗しました。',
     selectLibraryIcon: 'ライブラリアイコンを選択',
@@ -1022,12 +1621,20 @@ const ja: Translations = {
     stepThumbnails: 'サムネイル - 各スタックの代表アセットのサムネイルを再生成します。',
     stepColors: '色解析 - 検索と絞り込みのために代表色を抽出します。',
     stepAutoTagging: '自動タグ付け - ローカル AI が説明タグを更新します。',
+    stepEmbeddedMetadata: '埋め込みメタデータ - EXIF・XMP・IPTC・PNG テキストを読み直します。',
     forceRegenerateWarning:
       '強制再生成はすべてのアイテムを再処理するため、大きなライブラリでは時間がかかります。',
     setPassword: 'パスワードを設定',
     currentPassword: '現在のパスワード',
     enableProtection: '保護を有効にする',
     disableProtection: '保護を無効にする',
+    encryptLibraryFiles: 'ライブラリのファイルを暗号化',
+    decryptLibraryFiles: 'ライブラリのファイルを復号',
+    encryptLibraryFilesDescription:
+      '既存のファイルはバックグラウンドジョブで暗号化します。ライブラリのパスワードを忘れるとファイルを取り出せなくなります。',
+    decryptLibraryFilesDescription:
+      'バックグラウンドジョブでファイルを平文に戻します。新しいファイルも暗号化されなくなります。',
+    encryptionUpdateFailed: 'ファイルの暗号化を切り替えられませんでした。',
   },
   settings: {
     generalTitle: '一般設定',
@@ -1054,6 +1661,71 @@ const ja: Translations = {
     extensionKeyCopied: 'Clipper連携キーをコピーしました。',
     extensionKeyCopyFailed: 'Clipper連携キーをコピーできませんでした。',
   },
+  nearDuplicates: {
+    title: '類似画像',
+    description:
+      '縮小や再エンコードされたコピーなど、見た目がほぼ同じスタックの候補です。統合・すべて残す・不要なものの削除を選べます。',
+    threshold: '判定の厳しさ',
+    thresholdOption: (distance: number) => `距離 ${distance} 以下`,
+    scan: 'スキャン',
+    scanning: 'スキャン中…',
+    scanFailed: '類似画像のスキャンに失敗しました',
+    actionFailed: '類似画像の更新に失敗しました',
+    unhashedAssets: (count: number) =>
+      `${count.toLocaleString()} 件のアイテムがまだスキャンされていません。`,
+    empty: '類似画像は見つかりませんでした。',
+    groupCount: (count: number) => `${count.toLocaleString()} グループ`,
+    distance: (distance: number) => (distance === 0 ? '同一' : `距離 ${distance}`),
+    assetCount: (count: number) => `${count.toLocaleString()} アイテム`,
+    mergeTarget: '統合先',
+    mergeIntoTarget: '統合先にまとめる',
+    keepAll: 'すべて残す',
+    deleteStack: 'スタックを削除',
+    previous: '前へ',
+    next: '次へ',
+  },
+  trash: {
+    title: 'ゴミ箱',
+    description: (days: number) =>
+      `削除したスタックやアイテムは ${days} 日間ここに残り、その後完全に削除されます。`,
+    empty: 'ゴミ箱は空です。',
+    emptyTrash: 'ゴミ箱を空にする',
+    emptyTrashConfirm: (count: number) =>
+      `ゴミ箱の ${count.toLocaleString()} 件を完全に削除しますか？元に戻せません。`,
+    restore: '元に戻す',
+    deletePermanently: '完全に削除',
+    deletePermanentlyConfirm: (name: string) => `「${name}」を完全に削除しますか？元に戻せません。`,
+    stackItem: (count: number) => `スタック・${count.toLocaleString()} 件`,
+    assetItem: (stackId: number | null) =>
+      stackId ? `スタック #${stackId} のアイテム` : 'アイテム',
+    deletedAt: (date: string) => `${date} に削除`,
+    expiresAt: (date: string) => `${date} に完全削除`,
+    restored: (name: string) => `「${name}」を元に戻しました。`,
+    actionFailed: 'ゴミ箱の更新に失敗しました',
+    history: '最近の操作',
+    historyDescription: (limit: number) => `直近 ${limit} 件の操作を取り消せます。`,
+    noHistory: 'まだ操作はありません。',
+    undo: '取り消す',
+    undone: '取り消し済み',
+    undoSucceeded: '操作を取り消しました。',
+    undoFailed: '操作を取り消せませんでした',
+    operations: {
+      'stacks.remove': (count: number) =>
+        `${count.toLocaleString()} 件のスタックをゴミ箱に移しました`,
+      'assets.remove': (count: number) =>
+        `${count.toLocaleString()} 件のアイテムをゴミ箱に移しました`,
+      'stacks.merge': (count: number) => `${count.toLocaleString()} 件のスタックを統合しました`,
+      'assets.separate': (_count: number) => 'アイテムを新しいスタックに分離しました',
+      'tags.merge': (count: number) => `${count.toLocaleString()} 件のタグを統合しました`,
+      'authors.merge': (count: number) => `${count.toLocaleString()} 件の作者を統合しました`,
+      'stacks.bulk-tags': (count: number) =>
+        `${count.toLocaleString()} 件のスタックにタグを追加しました`,
+      'stacks.bulk-author': (count: number) =>
+        `${count.toLocaleString()} 件のスタックの作者を変更しました`,
+      'stacks.bulk-media-type': (count: number) =>
+        `${count.toLocaleString()} 件のスタックのメディアタイプを変更しました`,
+    },
+  },
   authorManagement: {
     title: '作者一覧',
     searchPlaceholder: '作者名・ID・リンクを検索...',
@@ -1083,6 +1755,21 @@ const ja: Translations = {
     merging: '結合中...',
     mergeConfirm: (count: number, targetName: string) =>
       `${count.toLocaleString()} 件の作者を「${targetName}」に結合しますか?`,
+    inboxTitle: '新着作品',
+    inboxDescription: '作者リンクから見つかった、まだライブラリにない作品です。',
+    inboxNotConfigured:
+      '作者のプロフィールと作品を取得するには、サーバーに CARAMEL_AUTHOR_PROVIDER_URL を設定してください。',
+    inboxEmpty: '新着作品はありません',
+    refreshInbox: '新着を確認',
+    refreshingInbox: '確認中...',
+    refreshInboxFailed: '新着作品を取得できませんでした。',
+    importWork: '取り込む',
+    importingWork: '取り込み中...',
+    importWorkFailed: 'この作品を取り込めませんでした。',
+    dismissWork: '非表示',
+    openWork: '元のページを開く',
+    untitledWork: '無題',
+    newWorkCount: (count: number) => `${count.toLocaleString()} 件`,
   },
   viewer: {
     info: '情報',
@@ -1108,6 +1795,13 @@ const ja: Translations = {
     title: 'フィルター',
     closeFilter: 'フィルターパネルを閉じる',
     searchByName: 'タグ・作者・自動タグなどから検索',
+    querySyntaxHint:
+      '例: tag:空 -tag:下書き author:"名前" is:fav auto:sea assets:>1 added:>2025-01-01 (a OR b)',
+    querySyntaxError: (message: string, column: number) => `${message}（${column} 文字目）`,
+    copyAsQuery: 'クエリとしてコピー',
+    copyAsQueryHint: '現在のフィルター条件を検索クエリとしてコピー',
+    queryCopied: 'フィルター条件を検索クエリとしてコピーしました',
+    queryCopyFailed: 'クエリのコピーに失敗しました',
     tags: 'タグ',
     typeTagEnter: 'タグを入力して Enter',
     authors: '作者',
@@ -1126,6 +1820,7 @@ const ja: Translations = {
     multipleImages: '複数画像',
     sortBy: '並び順',
     recommended: 'おすすめ',
+    relevance: '関連度',
     dateAdded: '追加日',
     name: '名前',
     mostLiked: 'Like が多い順',
@@ -1146,6 +1841,10 @@ const ja: Translations = {
     favs: 'お気に入りのみ',
     notFavs: 'お気に入り以外',
     notLiked: 'Like 以外',
+    readingStatus: '読書状況',
+    unread: '未読',
+    inProgress: '読みかけ',
+    read: '読了',
     showOnlyWithoutTags: 'タグなしのみ',
     showOnlyWithoutAuthor: '作者未設定のみ',
     tagHint: 'タグを入力して Enter で追加',
@@ -1170,7 +1869,9 @@ const ja: Translations = {
     filtersActive: 'フィルター適用中',
     create: '作成',
     createSmartCollectionTitle: 'スマートコレクションを作成',
-    createSmartCollectionDesc: '現在のフィルタ条件を保存して、スマートコレクションを作成します。',
+    createSmartCollectionDesc:
+      '現在のフィルタ条件と並び順をスマートコレクションとして保存します。中身は自動で更新されます。',
+    createSmartCollectionFailed: 'スマートコレクションの作成に失敗しました。',
     collectionName: 'コレクション名',
     createSmartCollectionError: 'スマートコレクションの作成エラー:',
   },
@@ -1384,6 +2085,48 @@ const ja: Translations = {
     addTag: 'タグを追加',
     autoTags: '自動タグ',
     dominantColors: '代表色',
+    embeddedMetadata: '埋め込みメタデータ',
+    capturedAt: '撮影日時',
+    camera: 'カメラ',
+    lens: 'レンズ',
+    exposure: '露出',
+    software: 'ソフトウェア',
+    artist: '作成者',
+    imageTitle: 'タイトル',
+    imageDescription: '説明',
+    location: '位置情報',
+    keywords: 'キーワード',
+    addKeywordAsTag: (keyword: string) => `「${keyword}」をタグに追加`,
+    prompt: 'プロンプト',
+    copyPrompt: 'プロンプトをコピー',
+    textChunks: 'テキストチャンク',
+    source: '取り込み元',
+    importChannel: '取り込み経路',
+    importChannelUpload: 'アップロード',
+    importChannelClipper: 'ブラウザ拡張',
+    importChannelUrl: 'URL 取り込み',
+    importChannelWatchedFolder: '監視フォルダ',
+    importedAt: '取り込み日時',
+    sourcePageUrl: 'ページ',
+    sourceMediaUrl: 'メディア',
+    sourceReferrer: 'リファラー',
+    findSameSource: (host: string) => `${host} から取り込んだものを探す`,
+    scenes: 'シーン',
+    sceneSensitivity: '感度',
+    fewerScenes: '少なめ',
+    moreScenes: '多め',
+    detectScenes: 'シーンを検出',
+    detectingScenes: '検出中…',
+    sceneCount: (count: number) => `${count} シーン`,
+    scenesNotDetected: 'シーンはまだ検出されていません',
+    scenesDetected: (count: number) => `${count} シーンを検出しました`,
+    sceneDetectionFailed: 'シーンの検出に失敗しました',
+    comicExport: '書き出し',
+    comicExportSize: 'ページサイズ',
+    comicExportOriginalSize: '元のサイズ',
+    comicExportLongEdge: (px: number) => `長辺 ${px}px`,
+    exportCbz: 'CBZ で書き出す',
+    exportPdf: 'PDF で書き出す',
     copyHex: 'HEX をコピー',
     stats: '統計',
     assets: 'アセット',
@@ -1451,6 +2194,25 @@ const ja: Translations = {
     stackCount: (count: number) => `${count.toLocaleString()} スタック`,
     deleteTagsConfirm: (count: number) =>
       `${count.toLocaleString()} 件のタグを削除しますか? この操作は取り消せません。`,
+    category: 'カテゴリ',
+    noCategory: 'カテゴリなし',
+    newCategory: '新しいカテゴリ',
+    categoryName: 'カテゴリ名',
+    addCategory: 'カテゴリを追加',
+    deleteCategory: 'カテゴリを削除',
+    aliases: '別名',
+    aliasesDescription: '別名を入力すると、このタグが付きます。',
+    addAlias: '別名を追加',
+    aliasPlaceholder: '例: bw',
+    noAliases: '別名はありません',
+    implies: '親タグ',
+    impliesDescription: 'このタグが付いたスタックには親タグも付きます（既存のスタックにも反映）。',
+    addImplication: '親タグを追加',
+    implicationPlaceholder: '親タグの名前',
+    noImplications: '親タグはありません',
+    impliedBy: '子タグ',
+    remove: '削除',
+    tagRuleFailed: 'タグの設定を更新できませんでした',
   },
   autoTagPage: {
     statistics: '自動タグ統計',
@@ -1514,6 +2276,7 @@ const ja: Translations = {
     popularTags: '人気のタグ',
     recentlyLiked: '最近の Like',
     recentlyScratch: '最近のスクラッチ',
+    continueReading: '続きを読む',
   },
   similar: {
     similarTo: (id: string | number) => `#${id} に類似`,
@@ -1522,7 +2285,53 @@ const ja: Translations = {
     failed: '類似アイテムの読み込みに失敗しました',
     emptyAutoTags: '類似アイテムはまだありません(自動タグを更新してください)',
     emptyTagsOrAutoTags: '類似アイテムはまだありません(タグまたは自動タグを更新してください)',
+    emptyVisual:
+      '見た目が似ているアイテムはまだありません(ライブラリを更新して画像の特徴量を計算してください)',
     ariaLabel: '類似スタック',
+    modeLabel: '比較方法',
+    modeHybrid: '見た目+タグ',
+    modeVisual: '見た目',
+    modeTags: 'タグ',
+  },
+  share: {
+    share: '共有',
+    shareTitle: (name: string) => `「${name}」を共有`,
+    description: 'リンクを知っている人はアカウントなしで閲覧できます。変更はできません。',
+    label: 'メモ（任意）',
+    labelPlaceholder: '例: クライアント確認用',
+    expires: '有効期限',
+    expiresNever: '無期限',
+    expiresInDays: (days: number) => `${days} 日後`,
+    password: 'パスワード（任意）',
+    passwordPlaceholder: '4文字以上',
+    allowOriginals: 'オリジナルの閲覧とダウンロードを許可する',
+    create: 'リンクを作成',
+    creating: '作成中...',
+    createFailed: '共有リンクの作成に失敗しました。',
+    copy: 'リンクをコピー',
+    copied: 'コピーしました',
+    linkReady: 'このリンクを閲覧する人に伝えてください。',
+    done: '完了',
+    title: '共有リンク',
+    sectionDescription:
+      'アカウントを持たない人向けの閲覧専用リンクです。失効させると閲覧できなくなります。',
+    empty:
+      '共有リンクはまだありません。コレクションは右クリックメニューから、スタックは情報パネルから共有できます。',
+    deletedTarget: '削除済み',
+    collectionTarget: 'コレクション',
+    stackTarget: 'スタック',
+    statuses: { active: '有効', expired: '期限切れ', revoked: '失効' },
+    views: (count: number) => `閲覧 ${count.toLocaleString()} 回`,
+    lastViewed: (date: string) => `最終閲覧 ${date}`,
+    expiresAt: (date: string) => `${date} まで`,
+    passwordProtected: 'パスワードあり',
+    originalsAllowed: 'オリジナル許可',
+    revoke: '失効',
+    revokeConfirm: (name: string) =>
+      `「${name}」の共有リンクを失効させますか？リンクは使えなくなります。`,
+    remove: '削除',
+    removeConfirm: (name: string) => `「${name}」の共有リンクを削除しますか？`,
+    actionFailed: '共有リンクの更新に失敗しました。',
   },
   upload: {
     addMedia: 'メディアを追加',
@@ -1550,6 +2359,8 @@ const ja: Translations = {
     ) =>
       `コレクション「${collection}」(ID: ${collectionId}) に ${count.toLocaleString()} 件のスタックを作成しました。`,
     cancelledFolderImport: (name: string) => `「${name}」の取り込みをキャンセルしました。`,
+    nearDuplicatesFound: (name: string, stackIds: number[]) =>
+      `「${name}」は既存のスタック ${stackIds.map((id) => `#${id}`).join('、')} とよく似ています。`,
   },
   viewerControls: {
     sortAssets: 'アセットを並び替え',
@@ -1578,6 +2389,9 @@ const ja: Translations = {
     enterListMode: 'リストモードに入る',
     volume: '音量',
     jumpTo: (seconds: string) => `${seconds} 秒へ移動`,
+    showScenes: 'シーンを表示',
+    hideScenes: 'シーンを隠す',
+    sceneAt: (seconds: string) => `${seconds} 秒からのシーン`,
     changeStepFps: 'ステップ FPS を変更',
     markerSettings: 'マーカー設定',
     timeSeconds: '時間(秒)',
@@ -1602,6 +2416,24 @@ const ja: Translations = {
     like: 'Like',
     unlike: 'Like を外す',
     editMarker: '編集',
+    exportRange: '範囲を書き出し',
+    clipStart: '開始(秒)',
+    clipEnd: '終了(秒)',
+    clipEndPlaceholder: '最後まで',
+    clipFormat: '形式',
+    clipFps: 'FPS',
+    clipWidth: '幅(px)',
+    clipOriginal: '元のまま',
+    clipDestination: '保存先',
+    clipToSameStack: 'このスタック',
+    clipToNewStack: '新しいスタック',
+    exportClip: '書き出す',
+    exportingClip: '書き出し中…',
+    invalidClipRange: '終了は開始より後にしてください。',
+    invalidClipSize: 'FPS と幅は数値で入力してください。',
+    clipExported: 'クリップを書き出しました',
+    clipExportFailed: 'クリップを書き出せませんでした',
+    resumePosition: (page: number) => `${page} ページまで読みました`,
     deleteMarker: '削除',
     hidePenLayer: 'ペンレイヤーを非表示',
     showPenLayer: 'ペンレイヤーを表示',
@@ -1611,7 +2443,15 @@ const ja: Translations = {
     opacityValue: (value: number) => `不透明度 ${value}%`,
     layerOpacity: (value: number) => `レイヤー不透明度 ${value}%`,
     backgroundFadeValue: (value: number) => `背景フェード ${value}%`,
-    clearAll: 'すべてクリア',
+    clearLayer: 'レイヤーをクリア',
+    layers: 'レイヤー',
+    addLayer: 'レイヤーを追加',
+    deleteLayer: 'レイヤーを削除',
+    layerName: (index: number) => `レイヤー ${index}`,
+    layerNameLabel: 'レイヤー名',
+    exportAnnotated: '書き込みごと画像を書き出す',
+    exportAnnotatedFailed: '書き込み付き画像の書き出しに失敗しました',
+    annotationsSaveFailed: '書き込みの保存に失敗しました',
     exitPenMode: 'ペンモードを終了',
     lightGray: 'ライトグレー',
     brightRed: '明るい赤',
@@ -0,0 +1,117 @@
+import {
+  groupSearchQuery,
+  type SearchQueryField,
+  type SearchQueryFilters,
+} from '@caramelboard/search-query';
+import type { AssetImportChannel, MediaType, ReadingState, StackFilter } from '@/types';
+
+// クエリの構文解析は @caramelboard/search-query にあり、ここでは画面の条件をクエリ文字列にするだけ
+
+const formatValue = (value: string) =>
+  /^[^\s()"|:-][^\s()"|]*$/.test(value) ? value : `"${value.replaceAll('"', '')}"`;
+
+const formatAlternatives = (field: SearchQueryField, values: string[]) => {
+  const terms = values.map((value) => `${field}:${formatValue(value)}`);
+  return terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0];
+};
+
+const MEDIA_TYPE_QUERY_VALUES: Record<MediaType, string> = {
+  image: 'image',
+  video: 'video',
+  multipleImages: 'multiple',
+};
+
+const IMPORT_CHANNEL_QUERY_VALUES: Record<AssetImportChannel, string> = {
+  upload: 'upload',
+  clipper: 'clipper',
+  'url-import': 'url',
+  'watched-folder': 'folder',
+};
+
+const READING_QUERY_VALUES: Record<ReadingState, string> = {
+  unread: 'is:unread',
+  'in-progress': 'is:reading',
+  read: 'is:read',
+};
+
+/**
+ * フィルターパネルの条件をクエリ文字列にする。
+ * メディアカテゴリはページ側で決まるため含めない。色はカスタムカラーのみ表現できる。
+ */
+export const formatSearchQuery = (filter: StackFilter) => {
+  const parts: string[] = [];
+  if (filter.tags?.length) parts.push(formatAlternatives('tag', filter.tags));
+  if (filter.authors?.length) parts.push(formatAlternatives('author', filter.authors));
+  if (filter.isFavorite !== undefined) parts.push(filter.isFavorite ? 'is:fav' : '-is:fav');
+  if (filter.isLiked !== undefined) parts.push(filter.isLiked ? 'is:liked' : '-is:liked');
+  if (filter.reading) parts.push(READING_QUERY_VALUES[filter.reading]);
+  if (filter.hasNoTags) parts.push('is:untagged');
+  if (filter.hasNoAuthor) parts.push('is:unauthored');
+  if (filter.mediaTypes?.length) {
+    parts.push(
+      formatAlternatives(
+        'type',
+        filter.mediaTypes.map((mediaType) => MEDIA_TYPE_QUERY_VALUES[mediaType])
+      )
+    );
+  }
+  if (filter.colorFilter?.customColor) parts.push(`color:${filter.colorFilter.customColor}`);
+
+  const search = filter.search?.trim();
+  if (search) parts.push(groupSearchQuery(search));
+  return parts.join(' ');
+};
+
+const formatDateRange = (field: 'added' | 'taken', range: { from?: string; to?: string }) => [
+  ...(range.from ? [`${field}:>=${range.from.slice(0, 10)}`] : []),
+  ...(range.to ? [`${field}:<${range.to.slice(0, 10)}`] : []),
+];
+
+/**
+ * SearchFilters をクエリ文字列にする。日付は日単位に丸め、自動タグの minScore は表せない。
+ */
+export const formatSearchFilters = (filters: SearchQueryFilters) => {
+  const parts: string[] = [];
+  const { tags, author, autoTags, metadata } = filters;
+  for (const tag of tags?.include ?? []) parts.push(`tag:${formatValue(tag)}`);
+  if (tags?.includeAny?.length) parts.push(formatAlternatives('tag', tags.includeAny));
+  for (const tag of tags?.exclude ?? []) parts.push(`-tag:${formatValue(tag)}`);
+  if (tags?.includeNotSet) parts.push('is:untagged');
+  for (const name of author?.include ?? []) parts.push(`author:${formatValue(name)}`);
+  if (author?.includeAny?.length) parts.push(formatAlternatives('author', author.includeAny));
+  for (const name of author?.exclude ?? []) parts.push(`-author:${formatValue(name)}`);
+  if (author?.includeNotSet) parts.push('is:unauthored');
+  for (const tag of autoTags?.include ?? []) parts.push(`auto:${formatValue(tag)}`);
+  if (autoTags?.includeAny?.length) parts.push(formatAlternatives('auto', autoTags.includeAny));
+  for (const tag of autoTags?.exclude ?? []) parts.push(`-auto:${formatValue(tag)}`);
+  if (filters.favorites) parts.push(filters.favorites === 'is-fav' ? 'is:fav' : '-is:fav');
+  if (filters.likes) parts.push(filters.likes === 'is-liked' ? 'is:liked' : '-is:liked');
+  if (filters.reading) parts.push(READING_QUERY_VALUES[filters.reading]);
+  if (filters.mediaCategory) parts.push(`media:${filters.mediaCategory}`);
+  if (filters.mediaTypes?.length) {
+    parts.push(
+      formatAlternatives(
+        'type',
+        filters.mediaTypes.map((mediaType) => MEDIA_TYPE_QUERY_VALUES[mediaType])
+      )
+    );
+  }
+  if (filters.color?.hex) parts.push(`color:${filters.color.hex}`);
+  if (filters.assetCount?.min !== undefined) parts.push(`assets:>=${filters.assetCount.min}`);
+  if (filters.assetCount?.max !== undefined) parts.push(`assets:<=${filters.assetCount.max}`);
+  if (filters.addedAt) parts.push(...formatDateRange('added', filters.addedAt));
+  if (metadata?.capturedAt) parts.push(...formatDateRange('taken', metadata.capturedAt));
+  for (const camera of metadata?.camera ?? []) parts.push(`camera:${formatValue(camera)}`);
+  for (const keyword of metadata?.keywords ?? []) parts.push(`keyword:${formatValue(keyword)}`);
+  for (const prompt of metadata?.prompt ?? []) parts.push(`prompt:${formatValue(prompt)}`);
+  for (const url of filters.source?.urls ?? []) parts.push(`source:${formatValue(url)}`);
+  if (filters.source?.channels?.length) {
+    parts.push(
+      formatAlternatives(
+        'via',
+        filters.source.channels.map((channel) => IMPORT_CHANNEL_QUERY_VALUES[channel])
+      )
+    );
+  }
+  return parts.join(' ');
+};
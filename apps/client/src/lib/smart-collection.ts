@@ -0,0 +1,127 @@
+import { groupSearchQuery, type SearchQueryFilters } from '@caramelboard/search-query';
+import { formatSearchFilters } from '@/lib/search-query';
+import type { ColorFilter, MediaCategory, SortOrder, StackFilter } from '@/types';
+
+// apps/server/src/models/CollectionModel.ts の SmartCollectionConfigSchema と同じ形
+export type SmartCollectionSortField =
+  | 'recommended'
+  | 'relevance'
+  | 'dateAdded'
+  | 'name'
+  | 'likes'
+  | 'updated';
+
+export type SmartCollectionConfig = {
+  query?: string;
+  filters: SearchQueryFilters;
+  colorFilter?: ColorFilter;
+  sort?: { by: SmartCollectionSortField; order: SortOrder };
+};
+
+export interface SmartCollectionSort {
+  field: string;
+  order: SortOrder;
+}
+
+const SORT_FIELDS: SmartCollectionSortField[] = [
+  'recommended',
+  'relevance',
+  'dateAdded',
+  'name',
+  'likes',
+  'updated',
+];
+
+const DEFAULT_SORT: SmartCollectionSort = { field: 'recommended', order: 'desc' };
+
+const isSortField = (value: string): value is SmartCollectionSortField =>
+  (SORT_FIELDS as string[]).includes(value);
+
+const isMediaCategory = (value: unknown): value is MediaCategory =>
+  value === 'image' || value === 'comic' || value === 'video';
+
+// 構文エラーのあるクエリはそのまま検索欄に戻す
+const groupQuery = (query: string) => {
+  try {
+    return groupSearchQuery(query);
+  } catch {
+    return query;
+  }
+};
+
+const nonEmpty = <T>(values: T[] | undefined) => (values && values.length > 0 ? values : undefined);
+
+/** フィルターパネルの状態と並び順をスマートコレクションの条件にする。 */
+export function toSmartCollectionConfig(
+  filter: StackFilter,
+  sort?: SmartCollectionSort
+): SmartCollectionConfig {
+  const filters: SearchQueryFilters = {};
+  if (filter.tags?.length || filter.hasNoTags) {
+    filters.tags = {
+      includeAny: nonEmpty(filter.tags),
+      includeNotSet: filter.hasNoTags || undefined,
+    };
+  }
+  if (filter.authors?.length || filter.hasNoAuthor) {
+    filters.author = {
+      includeAny: nonEmpty(filter.authors),
+      includeNotSet: filter.hasNoAuthor || undefined,
+    };
+  }
+  if (filter.isFavorite !== undefined) filters.favorites = filter.isFavorite ? 'is-fav' : 'not-fav';
+  if (filter.isLiked !== undefined) filters.likes = filter.isLiked ? 'is-liked' : 'not-liked';
+  if (filter.reading) filters.reading = filter.reading;
+  if (filter.mediaCategory) filters.mediaCategory = filter.mediaCategory;
+  if (filter.mediaTypes?.length) filters.mediaTypes = filter.mediaTypes;
+
+  const config: SmartCollectionConfig = { filters };
+  const query = filter.search?.trim();
+  if (query) config.query = query;
+  if (filter.colorFilter) config.colorFilter = filter.colorFilter;
+  if (sort && isSortField(sort.field)) config.sort = { by: sort.field, order: sort.order };
+  return config;
+}
+
+/**
+ * 保存された条件をフィルターパネルの状態と並び順に戻す。
+ * パネルに項目の無い条件（除外、日付、自動タグ、アセット数など）は検索クエリとして残す。
+ */
+export function fromSmartCollectionConfig(
+  raw: Record<string, unknown> | undefined,
+  datasetId?: string
+): { filter: StackFilter; sort: SmartCollectionSort } {
+  const config = (raw ?? {}) as Partial<SmartCollectionConfig>;
+  const { tags, author, favorites, likes, reading, mediaCategory, mediaTypes, ...rest } =
+    config.filters ?? {};
+  const filter: StackFilter = { datasetId };
+
+  if (tags?.includeAny?.length) filter.tags = tags.includeAny;
+  if (tags?.includeNotSet) filter.hasNoTags = true;
+  if (author?.includeAny?.length) filter.authors = author.includeAny;
+  if (author?.includeNotSet) filter.hasNoAuthor = true;
+  if (favorites) filter.isFavorite = favorites === 'is-fav';
+  if (likes) filter.isLiked = likes === 'is-liked';
+  if (reading) filter.reading = reading;
+  if (isMediaCategory(mediaCategory)) filter.mediaCategory = mediaCategory;
+  if (mediaTypes?.length) filter.mediaTypes = mediaTypes;
+  if (config.colorFilter) filter.colorFilter = config.colorFilter;
+
+  const search = [
+    formatSearchFilters({
+      ...rest,
+      tags: { include: tags?.include, exclude: tags?.exclude },
+      author: { include: author?.include, exclude: author?.exclude },
+    }),
+    config.query?.trim() ? groupQuery(config.query.trim()) : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+  if (search) filter.search = search;
+
+  const sort = config.sort && isSortField(config.sort.by) ? config.sort : undefined;
+  return {
+    filter,
+    sort: sort ? { field: sort.by, order: sort.order === 'asc' ? 'asc' : 'desc' } : DEFAULT_SORT,
+  };
+}
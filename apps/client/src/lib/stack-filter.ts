@@ -34,6 +34,7 @@ export function getStackFilterKey(filter: StackFilter | null | undefined): strin
     authors: sortedValues(current.authors),
     isFavorite: current.isFavorite ?? undefined,
     isLiked: current.isLiked ?? undefined,
+    reading: current.reading ?? undefined,
     search: current.search ?? undefined,
     colorFilter: normalizeColorFilter(current.colorFilter),
     hasNoTags: current.hasNoTags ?? undefined,
@@ -1,4 +1,5 @@
 import type { UploadBatch, UploadFile } from '@/stores/upload';
+import type { NearDuplicateMatch } from '@/types';
 import { apiClient } from './api-client';
 
 export class UploadService {
@@ -12,16 +13,20 @@ export class UploadService {
       status: UploadFile['status'],
       error?: string
     ) => void,
-    addNotification: (notification: { type: 'success' | 'error' | 'info'; message: string }) => void
+    addNotification: (notification: {
+      type: 'success' | 'error' | 'info';
+      message: string;
+    }) => void,
+    onNearDuplicates?: (fileName: string, matches: NearDuplicateMatch[]) => void
   ) {
     if (this.isProcessing) return;
     this.isProcessing = true;
 
     try {
       if (batch.type === 'new-stack') {
-        await this.processNewStackBatch(batch, updateProgress, addNotification);
+        await this.processNewStackBatch(batch, updateProgress, addNotification, onNearDuplicates);
       } else if (batch.type === 'add-to-stack') {
-        await this.processAddToStackBatch(batch, updateProgress, addNotification);
+        await this.processAddToStackBatch(batch, updateProgress, addNotification, onNearDuplicates);
       }
     } catch (error) {
       // ここに来るのは想定外の例外のみ（個別ファイルはそれぞれで捕捉済み）
@@ -39,7 +44,11 @@ export class UploadService {
       status: UploadFile['status'],
       error?: string
     ) => void,
-    addNotification: (notification: { type: 'success' | 'error' | 'info'; message: string }) => void
+    addNotification: (notification: {
+      type: 'success' | 'error' | 'info';
+      message: string;
+    }) => void,
+    onNearDuplicates?: (fileName: string, matches: NearDuplicateMatch[]) => void
   ) {
     // Process files in parallel (up to 3 at a time to avoid overloading)
     const concurrentLimit = 3;
@@ -73,6 +82,9 @@ export class UploadService {
               stackId: Number(stack.id),
               assetId: Number(stack.assets?.[0]?.id) || 0,
             };
+            if (stack.nearDuplicates?.length) {
+              onNearDuplicates?.(file.file.name, stack.nearDuplicates);
+            }
           } catch (error) {
             console.error(`Upload failed for ${file.file.name}:`, error);
             const msg = error instanceof Error ? error.message : 'アップロードに失敗しました';
@@ -93,7 +105,11 @@ export class UploadService {
       status: UploadFile['status'],
       error?: string
     ) => void,
-    addNotification: (notification: { type: 'success' | 'error' | 'info'; message: string }) => void
+    addNotification: (notification: {
+      type: 'success' | 'error' | 'info';
+      message: string;
+    }) => void,
+    onNearDuplicates?: (fileName: string, matches: NearDuplicateMatch[]) => void
   ) {
     if (!batch.stackId) return;
 
@@ -113,6 +129,9 @@ export class UploadService {
           stackId: Number(batch.stackId),
           assetId: Number(asset.id),
         };
+        if (asset.nearDuplicates?.length) {
+          onNearDuplicates?.(file.file.name, asset.nearDuplicates);
+        }
       } catch (error) {
         console.error(`Upload failed for ${file.file.name}:`, error);
         const msg = error instanceof Error ? error.message : 'アップロードに失敗しました';
@@ -11,14 +11,17 @@
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as SetupRouteImport } from './routes/setup'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as SettingsUsersRouteImport } from './routes/settings.users'
 import { Route as SettingsLibrariesRouteImport } from './routes/settings.libraries'
 import { Route as SettingsGeneralRouteImport } from './routes/settings.general'
 import { Route as LibraryDatasetIdRouteImport } from './routes/library.$datasetId'
 import { Route as LibraryDatasetIdIndexRouteImport } from './routes/library.$datasetId.index'
+import { Route as LibraryDatasetIdTrashRouteImport } from './routes/library.$datasetId.trash'
 import { Route as LibraryDatasetIdTagsRouteImport } from './routes/library.$datasetId.tags'
 import { Route as LibraryDatasetIdPinsRouteImport } from './routes/library.$datasetId.pins'
 import { Route as LibraryDatasetIdLikesRouteImport } from './routes/library.$datasetId.likes'
 import { Route as LibraryDatasetIdFavoritesRouteImport } from './routes/library.$datasetId.favorites'
+import { Route as LibraryDatasetIdDuplicatesRouteImport } from './routes/library.$datasetId.duplicates'
 import { Route as LibraryDatasetIdAutotagConfigRouteImport } from './routes/library.$datasetId.autotag-config'
 import { Route as LibraryDatasetIdAuthorsRouteImport } from './routes/library.$datasetId.authors'
 import { Route as LibraryDatasetIdTagTagNameRouteImport } from './routes/library.$datasetId.tag.$tagName'
@@ -41,6 +44,11 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SettingsUsersRoute = SettingsUsersRouteImport.update({
+  id: '/settings/users',
+  path: '/settings/users',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SettingsLibrariesRoute = SettingsLibrariesRouteImport.update({
   id: '/settings/libraries',
   path: '/settings/libraries',
@@ -61,6 +69,11 @@ const LibraryDatasetIdIndexRoute = LibraryDatasetIdIndexRouteImport.update({
   path: '/',
   getParentRoute: () => LibraryDatasetIdRoute,
 } as any)
+const LibraryDatasetIdTrashRoute = LibraryDatasetIdTrashRouteImport.update({
+  id: '/trash',
+  path: '/trash',
+  getParentRoute: () => LibraryDatasetIdRoute,
+} as any)
 const LibraryDatasetIdTagsRoute = LibraryDatasetIdTagsRouteImport.update({
   id: '/tags',
   path: '/tags',
@@ -82,6 +95,12 @@ const LibraryDatasetIdFavoritesRoute =
     path: '/favorites',
     getParentRoute: () => LibraryDatasetIdRoute,
   } as any)
+const LibraryDatasetIdDuplicatesRoute =
+  LibraryDatasetIdDuplicatesRouteImport.update({
+    id: '/duplicates',
+    path: '/duplicates',
+    getParentRoute: () => LibraryDatasetIdRoute,
+  } as any)
 const LibraryDatasetIdAutotagConfigRoute =
   LibraryDatasetIdAutotagConfigRouteImport.update({
     id: '/autotag-config',
@@ -154,12 +173,15 @@ export interface FileRoutesByFullPath {
   '/library/$datasetId': typeof LibraryDatasetIdRouteWithChildren
   '/settings/general': typeof SettingsGeneralRoute
   '/settings/libraries': typeof SettingsLibrariesRoute
+  '/settings/users': typeof SettingsUsersRoute
   '/library/$datasetId/authors': typeof LibraryDatasetIdAuthorsRoute
   '/library/$datasetId/autotag-config': typeof LibraryDatasetIdAutotagConfigRoute
+  '/library/$datasetId/duplicates': typeof LibraryDatasetIdDuplicatesRoute
   '/library/$datasetId/favorites': typeof LibraryDatasetIdFavoritesRoute
   '/library/$datasetId/likes': typeof LibraryDatasetIdLikesRoute
   '/library/$datasetId/pins': typeof LibraryDatasetIdPinsRoute
   '/library/$datasetId/tags': typeof LibraryDatasetIdTagsRoute
+  '/library/$datasetId/trash': typeof LibraryDatasetIdTrashRoute
   '/library/$datasetId/': typeof LibraryDatasetIdIndexRoute
   '/library/$datasetId/author/$authorName': typeof LibraryDatasetIdAuthorAuthorNameRoute
   '/library/$datasetId/autotag/$autoTagKey': typeof LibraryDatasetIdAutotagAutoTagKeyRoute
@@ -176,12 +198,15 @@ export interface FileRoutesByTo {
   '/setup': typeof SetupRoute
   '/settings/general': typeof SettingsGeneralRoute
   '/settings/libraries': typeof SettingsLibrariesRoute
+  '/settings/users': typeof SettingsUsersRoute
   '/library/$datasetId/authors': typeof LibraryDatasetIdAuthorsRoute
   '/library/$datasetId/autotag-config': typeof LibraryDatasetIdAutotagConfigRoute
+  '/library/$datasetId/duplicates': typeof LibraryDatasetIdDuplicatesRoute
   '/library/$datasetId/favorites': typeof LibraryDatasetIdFavoritesRoute
   '/library/$datasetId/likes': typeof LibraryDatasetIdLikesRoute
   '/library/$datasetId/pins': typeof LibraryDatasetIdPinsRoute
   '/library/$datasetId/tags': typeof LibraryDatasetIdTagsRoute
+  '/library/$datasetId/trash': typeof LibraryDatasetIdTrashRoute
   '/library/$datasetId': typeof LibraryDatasetIdIndexRoute
   '/library/$datasetId/author/$authorName': typeof LibraryDatasetIdAuthorAuthorNameRoute
   '/library/$datasetId/autotag/$autoTagKey': typeof LibraryDatasetIdAutotagAutoTagKeyRoute
@@ -200,12 +225,15 @@ export interface FileRoutesById {
   '/library/$datasetId': typeof LibraryDatasetIdRouteWithChildren
   '/settings/general': typeof SettingsGeneralRoute
   '/settings/libraries': typeof SettingsLibrariesRoute
+  '/settings/users': typeof SettingsUsersRoute
   '/library/$datasetId/authors': typeof LibraryDatasetIdAuthorsRoute
   '/library/$datasetId/autotag-config': typeof LibraryDatasetIdAutotagConfigRoute
+  '/library/$datasetId/duplicates': typeof LibraryDatasetIdDuplicatesRoute
   '/library/$datasetId/favorites': typeof LibraryDatasetIdFavoritesRoute
   '/library/$datasetId/likes': typeof LibraryDatasetIdLikesRoute
   '/library/$datasetId/pins': typeof LibraryDatasetIdPinsRoute
   '/library/$datasetId/tags': typeof LibraryDatasetIdTagsRoute
+  '/library/$datasetId/trash': typeof LibraryDatasetIdTrashRoute
   '/library/$datasetId/': typeof LibraryDatasetIdIndexRoute
   '/library/$datasetId/author/$authorName': typeof LibraryDatasetIdAuthorAuthorNameRoute
   '/library/$datasetId/autotag/$autoTagKey': typeof LibraryDatasetIdAutotagAutoTagKeyRoute
@@ -225,12 +253,15 @@ export interface FileRouteTypes {
     | '/library/$datasetId'
     | '/settings/general'
     | '/settings/libraries'
+    | '/settings/users'
     | '/library/$datasetId/authors'
     | '/library/$datasetId/autotag-config'
+    | '/library/$datasetId/duplicates'
     | '/library/$datasetId/favorites'
     | '/library/$datasetId/likes'
     | '/library/$datasetId/pins'
     | '/library/$datasetId/tags'
+    | '/library/$datasetId/trash'
     | '/library/$datasetId/'
     | '/library/$datasetId/author/$authorName'
     | '/library/$datasetId/autotag/$autoTagKey'
@@ -247,12 +278,15 @@ export interface FileRouteTypes {
     | '/setup'
     | '/settings/general'
     | '/settings/libraries'
+    | '/settings/users'
     | '/library/$datasetId/authors'
     | '/library/$datasetId/autotag-config'
+    | '/library/$datasetId/duplicates'
     | '/library/$datasetId/favorites'
     | '/library/$datasetId/likes'
     | '/library/$datasetId/pins'
     | '/library/$datasetId/tags'
+    | '/library/$datasetId/trash'
     | '/library/$datasetId'
     | '/library/$datasetId/author/$authorName'
     | '/library/$datasetId/autotag/$autoTagKey'
@@ -270,12 +304,15 @@ export interface FileRouteTypes {
     | '/library/$datasetId'
     | '/settings/general'
     | '/settings/libraries'
+    | '/settings/users'
     | '/library/$datasetId/authors'
     | '/library/$datasetId/autotag-config'
+    | '/library/$datasetId/duplicates'
     | '/library/$datasetId/favorites'
     | '/library/$datasetId/likes'
     | '/library/$datasetId/pins'
     | '/library/$datasetId/tags'
+    | '/library/$datasetId/trash'
     | '/library/$datasetId/'
     | '/library/$datasetId/author/$authorName'
     | '/library/$datasetId/autotag/$autoTagKey'
@@ -294,6 +331,7 @@ export interface RootRouteChildren {
   LibraryDatasetIdRoute: typeof LibraryDatasetIdRouteWithChildren
   SettingsGeneralRoute: typeof SettingsGeneralRoute
   SettingsLibrariesRoute: typeof SettingsLibrariesRoute
+  SettingsUsersRoute: typeof SettingsUsersRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -312,6 +350,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/settings/users': {
+      id: '/settings/users'
+      path: '/settings/users'
+      fullPath: '/settings/users'
+      preLoaderRoute: typeof SettingsUsersRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/settings/libraries': {
       id: '/settings/libraries'
       path: '/settings/libraries'
@@ -340,6 +385,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LibraryDatasetIdIndexRouteImport
       parentRoute: typeof LibraryDatasetIdRoute
     }
+    '/library/$datasetId/trash': {
+      id: '/library/$datasetId/trash'
+      path: '/trash'
+      fullPath: '/library/$datasetId/trash'
+      preLoaderRoute: typeof LibraryDatasetIdTrashRouteImport
+      parentRoute: typeof LibraryDatasetIdRoute
+    }
     '/library/$datasetId/tags': {
       id: '/library/$datasetId/tags'
       path: '/tags'
@@ -368,6 +420,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LibraryDatasetIdFavoritesRouteImport
       parentRoute: typeof LibraryDatasetIdRoute
     }
+    '/library/$datasetId/duplicates': {
+      id: '/library/$datasetId/duplicates'
+      path: '/duplicates'
+      fullPath: '/library/$datasetId/duplicates'
+      preLoaderRoute: typeof LibraryDatasetIdDuplicatesRouteImport
+      parentRoute: typeof LibraryDatasetIdRoute
+    }
     '/library/$datasetId/autotag-config': {
       id: '/library/$datasetId/autotag-config'
       path: '/autotag-config'
@@ -481,10 +540,12 @@ const LibraryDatasetIdStacksStackIdRouteWithChildren =
 interface LibraryDatasetIdRouteChildren {
   LibraryDatasetIdAuthorsRoute: typeof LibraryDatasetIdAuthorsRoute
   LibraryDatasetIdAutotagConfigRoute: typeof LibraryDatasetIdAutotagConfigRoute
+  LibraryDatasetIdDuplicatesRoute: typeof LibraryDatasetIdDuplicatesRoute
   LibraryDatasetIdFavoritesRoute: typeof LibraryDatasetIdFavoritesRoute
   LibraryDatasetIdLikesRoute: typeof LibraryDatasetIdLikesRoute
   LibraryDatasetIdPinsRoute: typeof LibraryDatasetIdPinsRoute
   LibraryDatasetIdTagsRoute: typeof LibraryDatasetIdTagsRoute
+  LibraryDatasetIdTrashRoute: typeof LibraryDatasetIdTrashRoute
   LibraryDatasetIdIndexRoute: typeof LibraryDatasetIdIndexRoute
   LibraryDatasetIdAuthorAuthorNameRoute: typeof LibraryDatasetIdAuthorAuthorNameRoute
   LibraryDatasetIdAutotagAutoTagKeyRoute: typeof LibraryDatasetIdAutotagAutoTagKeyRoute
@@ -498,10 +559,12 @@ interface LibraryDatasetIdRouteChildren {
 const LibraryDatasetIdRouteChildren: LibraryDatasetIdRouteChildren = {
   LibraryDatasetIdAuthorsRoute: LibraryDatasetIdAuthorsRoute,
   LibraryDatasetIdAutotagConfigRoute: LibraryDatasetIdAutotagConfigRoute,
+  LibraryDatasetIdDuplicatesRoute: LibraryDatasetIdDuplicatesRoute,
   LibraryDatasetIdFavoritesRoute: LibraryDatasetIdFavoritesRoute,
   LibraryDatasetIdLikesRoute: LibraryDatasetIdLikesRoute,
   LibraryDatasetIdPinsRoute: LibraryDatasetIdPinsRoute,
   LibraryDatasetIdTagsRoute: LibraryDatasetIdTagsRoute,
+  LibraryDatasetIdTrashRoute: LibraryDatasetIdTrashRoute,
   LibraryDatasetIdIndexRoute: LibraryDatasetIdIndexRoute,
   LibraryDatasetIdAuthorAuthorNameRoute: LibraryDatasetIdAuthorAuthorNameRoute,
   LibraryDatasetIdAutotagAutoTagKeyRoute:
@@ -525,6 +588,7 @@ const rootRouteChildren: RootRouteChildren = {
   LibraryDatasetIdRoute: LibraryDatasetIdRouteWithChildren,
   SettingsGeneralRoute: SettingsGeneralRoute,
   SettingsLibrariesRoute: SettingsLibrariesRoute,
+  SettingsUsersRoute: SettingsUsersRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -9,9 +9,11 @@ import {
 import { TanStackRouterDevtools } from '@tanstack/react-router-devtools';
 import { useAtom } from 'jotai';
 import { useEffect, useMemo, useRef, useState } from 'react';
+import { LoginForm } from '@/components/auth/LoginForm';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { UndoToast } from '@/components/ui/undo-toast';
 import { UploadProgress } from '@/components/ui/upload-progress';
 import Header from '@/containers/header-container';
 import Sidebar from '@/containers/sidebar-container';
@@ -21,7 +23,7 @@ import { useSidebarPushesContent } from '@/hooks/useSidebarLayoutMode';
 import { useThemeColor } from '@/hooks/useThemeColor';
 import { useUploadQueue } from '@/hooks/useUploadQueue';
 import { useKeyboardShortcuts as useGenericKeyboardShortcuts } from '@/hooks/utils/useKeyboardShortcut';
-import { apiClient } from '@/lib/api-client';
+import { AUTH_REQUIRED_EVENT, apiClient } from '@/lib/api-client';
 import { useT } from '@/lib/i18n';
 import { cn } from '@/lib/utils';
 import { currentDatasetAtom, selectionModeAtom, sidebarOpenAtom } from '@/stores/ui';
@@ -75,6 +77,47 @@ function RootLayout() {
   const queryClient = useQueryClient();
   const navigate = useNavigate();
 
+  // アカウントが設定されていれば、ログインするまでアプリ全体をログイン画面にする
+  const { data: authSession } = useQuery({
+    queryKey: ['auth-session'],
+    queryFn: () => apiClient.getAuthSession(),
+  });
+  const loginRequired = Boolean(authSession?.accountsEnabled && !authSession.user);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [loggingIn, setLoggingIn] = useState(false);
+  const loginCopy = useMemo(
+    () => ({
+      title: t.auth.signIn,
+      description: t.auth.signInDescription,
+      userName: t.auth.userName,
+      password: t.auth.password,
+      submit: t.auth.signIn,
+    }),
+    [t]
+  );
+
+  useEffect(() => {
+    const handleAuthRequired = () => {
+      void queryClient.invalidateQueries({ queryKey: ['auth-session'] });
+    };
+    window.addEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+    return () => window.removeEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+  }, [queryClient]);
+
+  const handleLogin = async (name: string, password: string) => {
+    setLoggingIn(true);
+    try {
+      await apiClient.login(name, password);
+      setLoginError(null);
+      // ログイン前に失敗したクエリも含めて取り直す
+      await queryClient.invalidateQueries();
+    } catch {
+      setLoginError(t.auth.invalidCredentials);
+    } finally {
+      setLoggingIn(false);
+    }
+  };
+
   // Apply theme color
   useThemeColor(selectedDataset?.themeColor);
 
@@ -107,6 +150,17 @@ function RootLayout() {
     }
   }, [location.pathname, setSelectionMode]);
 
+  if (loginRequired) {
+    return (
+      <LoginForm
+        copy={loginCopy}
+        error={loginError}
+        submitting={loggingIn}
+        onSubmit={handleLogin}
+      />
+    );
+  }
+
   return (
     <DragProvider>
       {!isSetupRoute && <Header />}
@@ -128,6 +182,7 @@ function RootLayout() {
         </main>
       </div>
       {!isSetupRoute && <UploadProgress />}
+      {!isSetupRoute && <UndoToast />}
       {/* Keep InfoSidebar mounted globally; open/close via classes for smooth transitions.
           setup ルートでもチュートリアル内の埋め込みビューワーから利用する */}
       <InfoSidebar />
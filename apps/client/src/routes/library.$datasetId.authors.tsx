@@ -1,8 +1,9 @@
 import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router';
-import { useAtom } from 'jotai';
+import { useAtom, useSetAtom } from 'jotai';
 import { useCallback, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
+import { AuthorInboxSection } from '@/components/authors/AuthorInboxSection';
 import { AuthorManagementView } from '@/components/authors/AuthorManagementView';
 import BulkEditPanel, { type EditUpdates } from '@/components/BulkEditPanel';
 import { SelectionActionBar } from '@/components/ui/selection-action-bar';
@@ -14,7 +15,8 @@ import { useT } from '@/lib/i18n';
 import { getSelectedMediaGridStackIds } from '@/lib/media-grid-selection';
 import { createStackSelectionActions } from '@/lib/stack-selection-actions';
 import { selectionModeAtom } from '@/stores/ui';
-import type { Author, AuthorLink, MediaGridItem, Stack } from '@/types';
+import { showUndoToastAtom } from '@/stores/undo';
+import type { Author, AuthorInboxWork, AuthorLink, MediaGridItem, Stack } from '@/types';
 
 interface AuthorsSearch {
   authorId?: string;
@@ -45,6 +47,8 @@ const toAuthorLinkPayload = (links: AuthorLink[]) =>
     }))
     .filter((link) => link.url.length > 0);
 
+const AUTHOR_INBOX_PAGE_SIZE = 30;
+
 const toMediaGridItem = (stack: Stack, datasetId: string): MediaGridItem => ({
   ...stack,
   dataSetId: datasetId,
@@ -69,6 +73,7 @@ function AuthorsPage() {
   );
   useHeaderActions(headerActionsConfig);
   const [selectionMode, setSelectionMode] = useAtom(selectionModeAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const {
     selectedItems,
     setSelectedItems,
@@ -160,6 +165,28 @@ function AuthorsPage() {
     [authorStacks, selectedItems]
   );
 
+  const authorInboxQuery = useInfiniteQuery({
+    queryKey: ['author-inbox', datasetId, selectedAuthorId],
+    queryFn: ({ pageParam = 0 }) =>
+      apiClient.getAuthorInbox({
+        datasetId,
+        authorId: selectedAuthorId ?? undefined,
+        limit: AUTHOR_INBOX_PAGE_SIZE,
+        offset: pageParam,
+      }),
+    getNextPageParam: (lastPage) => {
+      const nextOffset = lastPage.offset + lastPage.limit;
+      return nextOffset < lastPage.total ? nextOffset : undefined;
+    },
+    initialPageParam: 0,
+  });
+  const inboxWorks = useMemo(
+    () => (authorInboxQuery.data?.pages ?? []).flatMap((page) => page.works),
+    [authorInboxQuery.data?.pages]
+  );
+  const inboxFirstPage = authorInboxQuery.data?.pages[0];
+  const [busyWorkIds, setBusyWorkIds] = useState<Set<number>>(new Set());
+
   const invalidateAuthors = useCallback(async () => {
     await Promise.allSettled([
       queryClient.invalidateQueries({ queryKey: ['authors', datasetId] }),
@@ -214,6 +241,24 @@ function AuthorsPage() {
     },
   });
 
+  const refreshInboxMutation = useMutation({
+    mutationFn: () =>
+      apiClient.refreshAuthorInbox({
+        datasetId,
+        authorIds: selectedAuthorId ? [selectedAuthorId] : undefined,
+      }),
+    onSuccess: async () => {
+      await Promise.allSettled([
+        queryClient.invalidateQueries({ queryKey: ['author-inbox', datasetId] }),
+        invalidateAuthors(),
+      ]);
+    },
+    onError: (error) => {
+      console.error('Failed to refresh author inbox:', error);
+      alert(t.authorManagement.refreshInboxFailed);
+    },
+  });
+
   const mergeAuthorsMutation = useMutation({
     mutationFn: async () => {
       if (!selectedAuthorId) throw new Error('Author is not selected');
@@ -224,6 +269,11 @@ function AuthorsPage() {
       });
     },
     onSuccess: async (author) => {
+      showUndoToast({
+        operationId: author.operationId,
+        operation: 'authors.merge',
+        itemCount: selectedMergeIds.size,
+      });
       setDraft(null);
       setSelectedMergeIds(new Set());
       await invalidateAuthors();
@@ -349,6 +399,77 @@ function AuthorsPage() {
     t,
   ]);
 
+  const setWorkBusy = useCallback((workId: number, busy: boolean) => {
+    setBusyWorkIds((current) => {
+      const next = new Set(current);
+      if (busy) {
+        next.add(workId);
+      } else {
+        next.delete(workId);
+      }
+      return next;
+    });
+  }, []);
+
+  // メディア URL があればそれを 1 つのスタックにまとめ、無ければ作品ページから取り込む
+  const handleImportWork = useCallback(
+    async (work: AuthorInboxWork) => {
+      const [firstUrl, ...restUrls] = work.mediaUrls.length > 0 ? work.mediaUrls : [work.url];
+      setWorkBusy(work.id, true);
+      try {
+        const { results } = await apiClient.importAssetsFromUrls({
+          urls: [firstUrl],
+          dataSetId: Number(datasetId),
+          author: work.authorName,
+          pageUrl: work.url,
+        });
+        const created = results.find((result) => result.stackId);
+        if (!created?.stackId) throw new Error(results[0]?.message || 'Import failed');
+        if (restUrls.length > 0) {
+          await apiClient.importAssetsFromUrls({
+            urls: restUrls,
+            dataSetId: Number(datasetId),
+            stackId: created.stackId,
+            pageUrl: work.url,
+          });
+        }
+        await apiClient.updateAuthorWork(work.id, 'imported');
+        await Promise.allSettled([
+          queryClient.invalidateQueries({ queryKey: ['author-inbox', datasetId] }),
+          queryClient.invalidateQueries({ queryKey: ['author-stacks', datasetId] }),
+          queryClient.invalidateQueries({ queryKey: ['library-counts', datasetId] }),
+          invalidateAuthors(),
+        ]);
+      } catch (error) {
+        console.error('Failed to import author work:', error);
+        alert(t.authorManagement.importWorkFailed);
+      } finally {
+        setWorkBusy(work.id, false);
+      }
+    },
+    [datasetId, invalidateAuthors, queryClient, setWorkBusy, t]
+  );
+
+  const handleDismissWork = useCallback(
+    async (work: AuthorInboxWork) => {
+      setWorkBusy(work.id, true);
+      try {
+        await apiClient.updateAuthorWork(work.id, 'dismissed');
+        await queryClient.invalidateQueries({ queryKey: ['author-inbox', datasetId] });
+      } catch (error) {
+        console.error('Failed to dismiss author work:', error);
+      } finally {
+        setWorkBusy(work.id, false);
+      }
+    },
+    [datasetId, queryClient, setWorkBusy]
+  );
+
+  const handleLoadMoreInbox = useCallback(() => {
+    if (!authorInboxQuery.hasNextPage || authorInboxQuery.isFetchingNextPage) return;
+    void authorInboxQuery.fetchNextPage();
+  }, [authorInboxQuery]);
+
   const handleToggleMergeAuthor = useCallback((authorId: number) => {
     setSelectedMergeIds((current) => {
       const next = new Set(current ?? []);
@@ -524,6 +645,37 @@ function AuthorsPage() {
         onLoadMoreAuthorStacks={handleLoadMoreAuthorStacks}
         onSave={handleSave}
         onMerge={handleMerge}
+        inbox={
+          <AuthorInboxSection
+            works={inboxWorks}
+            total={inboxFirstPage?.total ?? 0}
+            loading={authorInboxQuery.isLoading}
+            providerConfigured={inboxFirstPage?.providerConfigured ?? true}
+            refreshing={refreshInboxMutation.isPending}
+            hasMore={Boolean(authorInboxQuery.hasNextPage)}
+            showAuthor={!selectedAuthor}
+            busyWorkIds={busyWorkIds}
+            onRefresh={() => refreshInboxMutation.mutate()}
+            onImport={handleImportWork}
+            onDismiss={handleDismissWork}
+            onLoadMore={handleLoadMoreInbox}
+            copy={{
+              title: t.authorManagement.inboxTitle,
+              description: t.authorManagement.inboxDescription,
+              empty: t.authorManagement.inboxEmpty,
+              notConfigured: t.authorManagement.inboxNotConfigured,
+              refresh: t.authorManagement.refreshInbox,
+              refreshing: t.authorManagement.refreshingInbox,
+              importWork: t.authorManagement.importWork,
+              importing: t.authorManagement.importingWork,
+              dismiss: t.authorManagement.dismissWork,
+              openWork: t.authorManagement.openWork,
+              untitled: t.authorManagement.untitledWork,
+              newWorkCount: t.authorManagement.newWorkCount,
+              loadMore: t.common.loadMore,
+            }}
+          />
+        }
         copy={{
           title: t.authorManagement.title,
           searchPlaceholder: t.authorManagement.searchPlaceholder,
@@ -21,6 +21,8 @@ import { useHeaderActions } from '@/hooks/useHeaderActions';
 import { isScratchCollection, useScratch } from '@/hooks/useScratch';
 import { apiClient } from '@/lib/api-client';
 import { useT } from '@/lib/i18n';
+import { fromSmartCollectionConfig } from '@/lib/smart-collection';
+import { areStackFiltersEqual } from '@/lib/stack-filter';
 import { navigationStateAtom } from '@/stores/navigation';
 import { currentFilterAtom } from '@/stores/ui';
 import { genListToken, saveViewContext } from '@/stores/view-context';
@@ -175,26 +177,10 @@ function CollectionViewContent() {
   useEffect(() => {
     if (collection) {
       if (collection.type === 'SMART' && collection.filterConfig) {
-        // Restore filter config for smart collection
-        const filterConfig = collection.filterConfig as any;
-        const restoredFilter: StackFilter = {
-          datasetId,
-        };
-
-        if (filterConfig.search) restoredFilter.search = filterConfig.search;
-        if (filterConfig.favorited !== undefined)
-          restoredFilter.isFavorite = filterConfig.favorited;
-        if (filterConfig.liked !== undefined) restoredFilter.isLiked = filterConfig.liked;
-        if (filterConfig.tagIds) restoredFilter.tags = filterConfig.tagIds;
-        if (filterConfig.authorNames) restoredFilter.authors = filterConfig.authorNames;
-        if (filterConfig.hasNoTags) restoredFilter.hasNoTags = filterConfig.hasNoTags;
-        if (filterConfig.hasNoAuthor) restoredFilter.hasNoAuthor = filterConfig.hasNoAuthor;
-        if (filterConfig.mediaCategory) restoredFilter.mediaCategory = filterConfig.mediaCategory;
-        if (Array.isArray(filterConfig.mediaTypes))
-          restoredFilter.mediaTypes = filterConfig.mediaTypes;
-        if (filterConfig.colorFilter) restoredFilter.colorFilter = filterConfig.colorFilter;
-
-        setCurrentFilter(restoredFilter);
+        // Restore filter config and sort order for smart collection
+        const restored = fromSmartCollectionConfig(collection.filterConfig, datasetId);
+        setCurrentFilter(restored.filter);
+        setCurrentSort(restored.sort);
       } else {
         // Clear filters for manual collection
         setCurrentFilter({
@@ -212,22 +198,13 @@ function CollectionViewContent() {
   const isFilterModified = useMemo(() => {
     if (!collection || collection.type !== 'SMART' || !collection.filterConfig) return false;
 
-    const originalConfig = collection.filterConfig as any;
-
-    // Compare current filter with original config
+    const original = fromSmartCollectionConfig(collection.filterConfig, datasetId);
     return (
-      currentFilter.search !== originalConfig.search ||
-      currentFilter.isFavorite !== originalConfig.favorited ||
-      currentFilter.isLiked !== originalConfig.liked ||
-      JSON.stringify(currentFilter.tags) !== JSON.stringify(originalConfig.tagIds) ||
-      JSON.stringify(currentFilter.authors) !== JSON.stringify(originalConfig.authorNames) ||
-      currentFilter.hasNoTags !== originalConfig.hasNoTags ||
-      currentFilter.hasNoAuthor !== originalConfig.hasNoAuthor ||
-      currentFilter.mediaCategory !== originalConfig.mediaCategory ||
-      JSON.stringify(currentFilter.mediaTypes) !== JSON.stringify(originalConfig.mediaTypes) ||
-      JSON.stringify(currentFilter.colorFilter) !== JSON.stringify(originalConfig.colorFilter)
+      !areStackFiltersEqual(currentFilter, original.filter) ||
+      currentSort.field !== original.sort.field ||
+      currentSort.order !== original.sort.order
     );
-  }, [collection, currentFilter]);
+  }, [collection, currentFilter, currentSort, datasetId]);
 
   const isSmartUnmodified = collection?.type === 'SMART' && !isFilterModified;
   const smartResetKey = useMemo(
@@ -0,0 +1,176 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
+import { useSetAtom } from 'jotai';
+import { useCallback, useMemo, useState } from 'react';
+import { NearDuplicateReviewView } from '@/components/duplicates/NearDuplicateReviewView';
+import { useHeaderActions } from '@/hooks/useHeaderActions';
+import { apiClient } from '@/lib/api-client';
+import { useT } from '@/lib/i18n';
+import { addUploadNotificationAtom } from '@/stores/upload';
+
+const PAGE_SIZE = 20;
+const DEFAULT_THRESHOLD = 6;
+
+export const Route = createFileRoute('/library/$datasetId/duplicates')({
+  component: NearDuplicatesPage,
+});
+
+function NearDuplicatesPage() {
+  const t = useT();
+  const { datasetId } = Route.useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const addNotification = useSetAtom(addUploadNotificationAtom);
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [offset, setOffset] = useState(0);
+  const [busyGroupKey, setBusyGroupKey] = useState<string | null>(null);
+
+  const headerActionsConfig = useMemo(
+    () => ({
+      showShuffle: false,
+      showFilter: false,
+      showSelection: false,
+    }),
+    []
+  );
+  useHeaderActions(headerActionsConfig);
+
+  const nearDuplicatesQuery = useQuery({
+    queryKey: ['near-duplicates', datasetId, threshold, offset],
+    queryFn: () => apiClient.getNearDuplicates(datasetId, { threshold, limit: PAGE_SIZE, offset }),
+    placeholderData: keepPreviousData,
+  });
+
+  const refreshGroups = useCallback(
+    () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['near-duplicates', datasetId] }),
+        queryClient.invalidateQueries({ queryKey: ['stacks'] }),
+        queryClient.invalidateQueries({ queryKey: ['stack'] }),
+      ]),
+    [queryClient, datasetId]
+  );
+
+  // ハッシュ計算はジョブで行い、完了まで待ってから一覧を更新する
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const { job } = await apiClient.scanNearDuplicates(datasetId);
+      return apiClient.waitForJob<{ hashed: number; skipped: number }>(job.id);
+    },
+    onSuccess: () => refreshGroups(),
+    onError: (error) => {
+      addNotification({
+        type: 'error',
+        message: error instanceof Error ? error.message : t.nearDuplicates.scanFailed,
+      });
+    },
+  });
+
+  const runGroupAction = useCallback(
+    async (groupKey: string, action: () => Promise<unknown>) => {
+      setBusyGroupKey(groupKey);
+      try {
+        await action();
+        await refreshGroups();
+      } catch (error) {
+        addNotification({
+          type: 'error',
+          message: error instanceof Error ? error.message : t.nearDuplicates.actionFailed,
+        });
+      } finally {
+        setBusyGroupKey(null);
+      }
+    },
+    [refreshGroups, addNotification, t]
+  );
+
+  const handleMerge = useCallback(
+    (targetId: number, sourceIds: number[]) => {
+      if (sourceIds.length === 0) return;
+      if (!window.confirm(t.grid.mergeSelectedConfirm(targetId, sourceIds.length))) return;
+      void runGroupAction([targetId, ...sourceIds].sort((a, b) => a - b).join('-'), () =>
+        apiClient.mergeStacks(targetId, sourceIds)
+      );
+    },
+    [runGroupAction, t]
+  );
+
+  const handleKeep = useCallback(
+    (stackIds: number[]) => {
+      void runGroupAction(stackIds.join('-'), () =>
+        apiClient.dismissNearDuplicates(datasetId, stackIds)
+      );
+    },
+    [runGroupAction, datasetId]
+  );
+
+  const handleDelete = useCallback(
+    (stackId: number) => {
+      if (!window.confirm(t.grid.deleteStacksConfirm(1))) return;
+      const group = nearDuplicatesQuery.data?.groups.find((item) =>
+        item.stacks.some((stack) => Number(stack.id) === stackId)
+      );
+      const groupKey = group ? group.stacks.map((stack) => stack.id).join('-') : String(stackId);
+      void runGroupAction(groupKey, () => apiClient.removeStack(stackId));
+    },
+    [runGroupAction, nearDuplicatesQuery.data, t]
+  );
+
+  const handleOpenStack = useCallback(
+    (stackId: number) => {
+      void navigate({
+        to: '/library/$datasetId/stacks/$stackId',
+        params: { datasetId, stackId: String(stackId) },
+      });
+    },
+    [navigate, datasetId]
+  );
+
+  const handleThresholdChange = useCallback((value: number) => {
+    setThreshold(value);
+    setOffset(0);
+  }, []);
+
+  const data = nearDuplicatesQuery.data;
+
+  return (
+    <NearDuplicateReviewView
+      groups={data?.groups ?? []}
+      total={data?.total ?? 0}
+      limit={data?.limit ?? PAGE_SIZE}
+      offset={data?.offset ?? offset}
+      threshold={threshold}
+      unhashedAssets={data?.unhashedAssets ?? 0}
+      loading={nearDuplicatesQuery.isLoading}
+      scanning={scanMutation.isPending}
+      busyGroupKey={busyGroupKey}
+      onThresholdChange={handleThresholdChange}
+      onScan={() => scanMutation.mutate()}
+      onOpenStack={handleOpenStack}
+      onMerge={handleMerge}
+      onKeep={handleKeep}
+      onDelete={handleDelete}
+      onPageChange={setOffset}
+      copy={{
+        title: t.nearDuplicates.title,
+        description: t.nearDuplicates.description,
+        threshold: t.nearDuplicates.threshold,
+        thresholdOption: t.nearDuplicates.thresholdOption,
+        scan: t.nearDuplicates.scan,
+        scanning: t.nearDuplicates.scanning,
+        unhashedAssets: t.nearDuplicates.unhashedAssets,
+        loading: t.common.loading,
+        empty: t.nearDuplicates.empty,
+        groupCount: t.nearDuplicates.groupCount,
+        distance: t.nearDuplicates.distance,
+        assetCount: t.nearDuplicates.assetCount,
+        mergeTarget: t.nearDuplicates.mergeTarget,
+        mergeIntoTarget: t.nearDuplicates.mergeIntoTarget,
+        keepAll: t.nearDuplicates.keepAll,
+        deleteStack: t.nearDuplicates.deleteStack,
+        previous: t.nearDuplicates.previous,
+        next: t.nearDuplicates.next,
+      }}
+    />
+  );
+}
@@ -101,6 +101,10 @@ function DatasetHome() {
     video: { label: getMediaTypeLabel(t, 'video'), Icon: Film },
   };
 
+  const continueReadingItems = useMemo<StackCardItem[]>(
+    () => overview?.continueReading ?? [],
+    [overview?.continueReading]
+  );
   const recentLikeItems = useMemo<StackCardItem[]>(
     () => overview?.recentLikes ?? [],
     [overview?.recentLikes]
@@ -294,6 +298,38 @@ function DatasetHome() {
             {dataset?.name || t.sidebar.library} {t.overview.title}
           </h1>
 
+          {/* Continue Reading Section */}
+          {continueReadingItems.length > 0 && (
+            <SectionBlock
+              title={t.overview.continueReading}
+              action={
+                <Link
+                  to="/library/$datasetId/media-type/$mediaType"
+                  params={{ datasetId, mediaType: 'comic' }}
+                  search={{ reading: 'in-progress' }}
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  {t.overview.continueReading} ›
+                </Link>
+              }
+            >
+              <StackTileGrid
+                items={continueReadingItems}
+                datasetId={datasetId}
+                gridClassName="grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4"
+                cornerRadius="rounded"
+                getLinkElement={getStackLinkElement}
+                onOpenItem={handleOpenStack}
+                onFindSimilarItem={handleFindSimilarStack}
+                onAddToScratchItem={handleAddToScratchStack}
+                onDownloadItem={handleDownloadStack}
+                onToggleFavoriteItem={handleToggleFavoriteStack}
+                onLikeItem={handleLikeStack}
+                getDragHandlers={getStackDragHandlers}
+              />
+            </SectionBlock>
+          )}
+
           {/* Media Types Section */}
           <section>
             <SectionHeader title={t.overview.mediaTypes} />
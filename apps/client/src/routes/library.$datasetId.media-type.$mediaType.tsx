@@ -12,7 +12,7 @@ import { areStackFiltersEqual } from '@/lib/stack-filter';
 import { navigationStateAtom } from '@/stores/navigation';
 import { currentFilterAtom } from '@/stores/ui';
 import { genListToken, saveViewContext } from '@/stores/view-context';
-import type { MediaCategory, MediaGridItem, StackFilter } from '@/types';
+import type { MediaCategory, MediaGridItem, ReadingState, StackFilter } from '@/types';
 
 export const Route = createFileRoute('/library/$datasetId/media-type/$mediaType')({
   component: MediaTypeList,
@@ -27,6 +27,7 @@ function MediaTypeList() {
     search?: string;
     isFavorite?: boolean;
     isLiked?: boolean;
+    reading?: ReadingState;
     authors?: string[];
     hasNoTags?: boolean;
     hasNoAuthor?: boolean;
@@ -83,6 +84,7 @@ function MediaTypeList() {
       search: search.search ?? undefined,
       isFavorite: search.isFavorite ?? undefined,
       isLiked: search.isLiked ?? undefined,
+      reading: search.reading ?? undefined,
       authors: search.authors ?? undefined,
       hasNoTags: search.hasNoTags ?? undefined,
       hasNoAuthor: search.hasNoAuthor ?? undefined,
@@ -98,6 +100,7 @@ function MediaTypeList() {
     search.search,
     search.isFavorite,
     search.isLiked,
+    search.reading,
     search.authors,
     search.hasNoTags,
     search.hasNoAuthor,
@@ -172,6 +175,7 @@ function MediaTypeList() {
       if (search.search) searchParams.search = search.search;
       if (search.isFavorite !== undefined) searchParams.isFavorite = search.isFavorite;
       if (search.isLiked !== undefined) searchParams.isLiked = search.isLiked;
+      if (search.reading) searchParams.reading = search.reading;
       if (search.authors) searchParams.authors = search.authors;
       if (search.hasNoTags !== undefined) searchParams.hasNoTags = search.hasNoTags;
       if (search.hasNoAuthor !== undefined) searchParams.hasNoAuthor = search.hasNoAuthor;
@@ -198,13 +202,6 @@ function MediaTypeList() {
     loadPage,
   ]);
 
-  useHeaderActions({
-    showShuffle: true,
-    showFilter: true,
-    showSelection: true,
-    onShuffle: handleShuffle,
-  });
-
   // Restore navigation state if coming back from stack viewer
   useEffect(() => {
     // We treat presence of navigationState for this path as "returning"
@@ -306,6 +303,9 @@ function MediaTypeList() {
       if (newFilter.isLiked !== undefined) {
         searchParams.isLiked = newFilter.isLiked;
       }
+      if (newFilter.reading) {
+        searchParams.reading = newFilter.reading;
+      }
       if (newFilter.authors && newFilter.authors.length > 0) {
         searchParams.authors = newFilter.authors;
       }
@@ -332,6 +332,21 @@ function MediaTypeList() {
     [setCurrentFilter, setNavigationState, navigate, datasetId, mediaType]
   );
 
+  const handleHeaderSearch = useCallback(
+    (value: string | undefined) => {
+      handleFilterChange({ ...currentFilter, search: value });
+    },
+    [handleFilterChange, currentFilter]
+  );
+
+  useHeaderActions({
+    showShuffle: true,
+    showFilter: true,
+    showSelection: true,
+    onShuffle: handleShuffle,
+    onSearch: handleHeaderSearch,
+  });
+
   // Handle sort changes
   const handleSortChange = useCallback(
     (newSort: { field: string; order: 'asc' | 'desc' }) => {
@@ -403,6 +418,7 @@ function MediaTypeList() {
       if (search.search) searchParams.search = search.search;
       if (search.isFavorite !== undefined) searchParams.isFavorite = search.isFavorite;
       if (search.isLiked !== undefined) searchParams.isLiked = search.isLiked;
+      if (search.reading) searchParams.reading = search.reading;
       if (search.authors) searchParams.authors = search.authors;
       if (search.hasNoTags !== undefined) searchParams.hasNoTags = search.hasNoTags;
       if (search.hasNoAuthor !== undefined) searchParams.hasNoAuthor = search.hasNoAuthor;
@@ -421,6 +437,9 @@ function MediaTypeList() {
       if (currentFilter.isLiked !== undefined) {
         searchParams.isLiked = currentFilter.isLiked;
       }
+      if (currentFilter.reading) {
+        searchParams.reading = currentFilter.reading;
+      }
       if (currentFilter.authors && currentFilter.authors.length > 0) {
         searchParams.authors = currentFilter.authors;
       }
@@ -1,6 +1,6 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router';
-import { useAtom } from 'jotai';
+import { useAtom, useSetAtom } from 'jotai';
 import { Info } from 'lucide-react';
 import MersenneTwister from 'mersenne-twister';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -8,6 +8,7 @@ import { createPortal } from 'react-dom';
 import BulkEditPanel, { type EditUpdates } from '@/components/BulkEditPanel';
 import InfoSidebar from '@/components/InfoSidebar';
 import { StackTileGrid } from '@/components/StackTileGrid';
+import { SimilarModeSelect } from '@/components/similar/SimilarModeSelect';
 import { HeaderIconButton } from '@/components/ui/Header/HeaderIconButton';
 import { SelectionActionBar } from '@/components/ui/selection-action-bar';
 import { useSelectionMode } from '@/hooks/features/useSelectionMode';
@@ -25,8 +26,9 @@ import {
   selectedItemIdAtom,
   selectionModeAtom,
 } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 import { genListToken, saveViewContext } from '@/stores/view-context';
-import type { MediaGridItem, StackFilter, StackPaginatedResponse } from '@/types';
+import type { MediaGridItem, SimilarMode, StackFilter, StackPaginatedResponse } from '@/types';
 
 export const Route = createFileRoute('/library/$datasetId/stacks/$stackId/similar')({
   component: SimilarStacksRoute,
@@ -57,11 +59,13 @@ function SimilarStacksRoute() {
   const { onOpen, onInfo, onFindSimilar, onAddToScratch, onDownload, onLike, dragProps } =
     useStackTile(datasetId);
   const [limit] = useState(50);
+  const [mode, setMode] = useState<SimilarMode>('hybrid');
   const [selectionMode, setSelectionMode] = useAtom(selectionModeAtom);
   const [_currentFilter, setCurrentFilter] = useAtom(currentFilterAtom);
   const [infoSidebarOpen, setInfoSidebarOpen] = useAtom(infoSidebarOpenAtom);
   const infoSidebarPushesContent = useRightPanelPushesContent(!selectionMode && infoSidebarOpen);
   const [selectedItemId, setSelectedItemId] = useAtom(selectedItemIdAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const mtRef = useRef<MersenneTwister | null>(null);
   if (!mtRef.current) mtRef.current = new MersenneTwister();
   const {
@@ -76,8 +80,8 @@ function SimilarStacksRoute() {
   } = useSelectionMode(selectionMode);
 
   const { data, isLoading, isError, refetch } = useQuery({
-    queryKey: ['similar-stacks', datasetId, stackId, limit],
-    queryFn: () => apiClient.getSimilarStacks({ datasetId, stackId, limit, offset: 0 }),
+    queryKey: ['similar-stacks', datasetId, stackId, limit, mode],
+    queryFn: () => apiClient.getSimilarStacks({ datasetId, stackId, limit, offset: 0, mode }),
     staleTime: 30_000,
   });
 
@@ -201,8 +205,8 @@ function SimilarStacksRoute() {
 
   // Favorite toggle
   const similarQueryKey = useMemo(
-    () => ['similar-stacks', datasetId, stackId, limit] as const,
-    [datasetId, stackId, limit]
+    () => ['similar-stacks', datasetId, stackId, limit, mode] as const,
+    [datasetId, stackId, limit, mode]
   );
 
   const patchSimilarFavorite = useCallback(
@@ -317,8 +321,13 @@ function SimilarStacksRoute() {
     const [targetId, ...sourceIds] = selectedStackIdsInOrder;
 
     try {
-      await apiClient.mergeStacks(targetId, sourceIds);
+      const result = await apiClient.mergeStacks(targetId, sourceIds);
       exitSelectionMode();
+      showUndoToast({
+        operationId: result.operationId,
+        operation: 'stacks.merge',
+        itemCount: sourceIds.length,
+      });
       await Promise.allSettled([
         queryClient.invalidateQueries({ queryKey: ['stack'] }),
         queryClient.invalidateQueries({ queryKey: ['stacks'] }),
@@ -331,7 +340,15 @@ function SimilarStacksRoute() {
       console.error('Error merging stacks:', error);
       alert(t.grid.mergeStacksFailed);
     }
-  }, [datasetId, exitSelectionMode, queryClient, refetch, selectedStackIdsInOrder, t]);
+  }, [
+    datasetId,
+    exitSelectionMode,
+    queryClient,
+    refetch,
+    selectedStackIdsInOrder,
+    showUndoToast,
+    t,
+  ]);
 
   const handleDownloadSelectedStacks = useCallback(() => {
     if (selectedStackIdsInOrder.length === 0) return;
@@ -451,13 +468,27 @@ function SimilarStacksRoute() {
     ]
   );
 
+  const similarModeCopy = {
+    label: t.similar.modeLabel,
+    modes: {
+      hybrid: t.similar.modeHybrid,
+      visual: t.similar.modeVisual,
+      tags: t.similar.modeTags,
+    },
+  };
+
   return (
     <div className="p-4">
-      <div className="mb-3 text-sm text-gray-600">{t.similar.similarTo(stackId)}</div>
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-600">{t.similar.similarTo(stackId)}</div>
+        <SimilarModeSelect value={mode} onChange={setMode} copy={similarModeCopy} />
+      </div>
       {isLoading && <div className="text-gray-500">{t.similar.loading}</div>}
       {isError && <div className="text-red-600">{t.similar.failed}</div>}
       {!isLoading && items.length === 0 && (
-        <div className="text-gray-500">{t.similar.emptyAutoTags}</div>
+        <div className="text-gray-500">
+          {mode === 'visual' ? t.similar.emptyVisual : t.similar.emptyAutoTags}
+        </div>
       )}
       {items.length > 0 ? (
         <StackTileGrid
@@ -1,6 +1,6 @@
 import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createFileRoute, Link, useLocation, useNavigate } from '@tanstack/react-router';
-import { useAtom } from 'jotai';
+import { useAtom, useSetAtom } from 'jotai';
 import { Edit2, GitMerge, Info, Loader2, Tag, Trash2, X } from 'lucide-react';
 import MersenneTwister from 'mersenne-twister';
 import {
@@ -19,6 +19,7 @@ import BulkEditPanel from '@/components/BulkEditPanel';
 import FilterPanel from '@/components/FilterPanel';
 import InfoSidebar from '@/components/InfoSidebar';
 import { StackTileGrid } from '@/components/StackTileGrid';
+import { TagRulesPanel, type TagRulesPanelCopy } from '@/components/tags/TagRulesPanel';
 import { Button } from '@/components/ui/button';
 import { SmallSearchField, SmallSelect } from '@/components/ui/Controls';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -55,8 +56,16 @@ import {
   selectedItemIdAtom,
   selectionModeAtom,
 } from '@/stores/ui';
+import { showUndoToastAtom } from '@/stores/undo';
 import { genListToken, saveViewContext } from '@/stores/view-context';
-import type { ColorFilter, MediaCategory, MediaType, StackFilter } from '@/types';
+import type {
+  ColorFilter,
+  MediaCategory,
+  MediaType,
+  StackFilter,
+  TagCategory,
+  TagRules,
+} from '@/types';
 
 interface TagsSearch {
   tagId?: string;
@@ -69,7 +78,7 @@ export const Route = createFileRoute('/library/$datasetId/tags')({
   component: TagsPage,
 });
 
-interface TagItem {
+interface TagItem extends TagRules {
   id: number;
   title: string;
   stackCount: number;
@@ -232,6 +241,7 @@ function TagsPage() {
   const [selectedItemId, setSelectedItemId] = useAtom(selectedItemIdAtom);
   const [selectionMode, setSelectionMode] = useAtom(selectionModeAtom);
   const [currentFilter, setCurrentFilter] = useAtom(currentFilterAtom);
+  const showUndoToast = useSetAtom(showUndoToastAtom);
   const routeFilterScopeKey = useMemo(() => `tags:${datasetId}`, [datasetId]);
   const [filterScopeKey, setFilterScopeKey] = useState<string | null>(null);
   const tagsPageFilter = useMemo<StackFilter>(() => ({ datasetId }), [datasetId]);
@@ -530,14 +540,22 @@ function TagsPage() {
 
   const mergeMutation = useMutation({
     mutationFn: async ({ sourceIds, targetId }: { sourceIds: number[]; targetId: number }) => {
-      const response = await apiClient.post(`/api/v1/tags/merge?${tagDataSetQuery}`, {
-        sourceTagIds: sourceIds,
-        targetTagId: targetId,
-      });
+      const response = await apiClient.post<{ operationId?: number | null }>(
+        `/api/v1/tags/merge?${tagDataSetQuery}`,
+        {
+          sourceTagIds: sourceIds,
+          targetTagId: targetId,
+        }
+      );
       return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (result, { sourceIds }) => {
       queryClient.invalidateQueries({ queryKey: ['tags', datasetId] });
+      showUndoToast({
+        operationId: result?.operationId,
+        operation: 'tags.merge',
+        itemCount: sourceIds.length,
+      });
       setMergeDialogOpen(false);
       setSelectedTags(new Set());
       if (selectedTag && selectedTags.has(selectedTag.id)) {
@@ -546,6 +564,54 @@ function TagsPage() {
     },
   });
 
+  const { data: categoriesData } = useQuery<{ categories: TagCategory[] }>({
+    queryKey: ['tag-categories', datasetId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/v1/tags/categories?${tagDataSetQuery}`);
+      return response.data;
+    },
+  });
+
+  // 別名・親タグ・カテゴリの変更。親タグは既存のスタックにも付くので一覧も取り直す
+  const tagRuleMutation = useMutation({
+    mutationFn: (request: () => Promise<unknown>) => request(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags', datasetId] });
+      queryClient.invalidateQueries({ queryKey: ['tag-categories', datasetId] });
+      queryClient.invalidateQueries({ queryKey: ['tag-stacks'] });
+    },
+  });
+
+  const tagRulesCopy = useMemo<TagRulesPanelCopy>(
+    () => ({
+      category: t.tagPage.category,
+      noCategory: t.tagPage.noCategory,
+      newCategory: t.tagPage.newCategory,
+      categoryName: t.tagPage.categoryName,
+      addCategory: t.tagPage.addCategory,
+      deleteCategory: t.tagPage.deleteCategory,
+      aliases: t.tagPage.aliases,
+      aliasesDescription: t.tagPage.aliasesDescription,
+      addAlias: t.tagPage.addAlias,
+      aliasPlaceholder: t.tagPage.aliasPlaceholder,
+      noAliases: t.tagPage.noAliases,
+      implies: t.tagPage.implies,
+      impliesDescription: t.tagPage.impliesDescription,
+      addImplication: t.tagPage.addImplication,
+      implicationPlaceholder: t.tagPage.implicationPlaceholder,
+      noImplications: t.tagPage.noImplications,
+      impliedBy: t.tagPage.impliedBy,
+      remove: t.tagPage.remove,
+    }),
+    [t]
+  );
+
+  const selectedTagRules = useMemo(
+    () => tagsData?.tags.find((tag) => tag.id === selectedTag?.id) ?? selectedTag,
+    [selectedTag, tagsData]
+  );
+  const tagTitles = useMemo(() => (tagsData?.tags ?? []).map((tag) => tag.title), [tagsData]);
+
   const handleTagClick = useCallback(
     (tag: TagItem) => {
       if (filterScopeKey !== routeFilterScopeKey) {
@@ -1103,6 +1169,13 @@ function TagsPage() {
                           onClick={(e) => e.stopPropagation()}
                           className="h-3 w-3"
                         />
+                        {tag.category && (
+                          <span
+                            className="h-2 w-2 flex-shrink-0 rounded-full"
+                            style={{ backgroundColor: tag.category.color }}
+                            title={tag.category.name}
+                          />
+                        )}
                         <span className="text-sm truncate font-medium">{tag.title}</span>
                       </div>
                       <span className="text-xs text-muted-foreground ml-2 flex-shrink-0">
@@ -1152,6 +1225,87 @@ function TagsPage() {
               </p>
             </div>
 
+            {selectedTagRules && (
+              <div className="space-y-1">
+                <TagRulesPanel
+                  copy={tagRulesCopy}
+                  rules={{
+                    category: selectedTagRules.category ?? null,
+                    aliases: selectedTagRules.aliases ?? [],
+                    implies: selectedTagRules.implies ?? [],
+                    impliedBy: selectedTagRules.impliedBy ?? [],
+                  }}
+                  categories={categoriesData?.categories ?? []}
+                  tagTitles={tagTitles}
+                  disabled={tagRuleMutation.isPending}
+                  onSetCategory={(categoryId) =>
+                    tagRuleMutation.mutate(() =>
+                      apiClient.put(
+                        `/api/v1/tags/${selectedTagRules.id}/category?${tagDataSetQuery}`,
+                        { categoryId }
+                      )
+                    )
+                  }
+                  onCreateCategory={(input) =>
+                    tagRuleMutation.mutate(async () => {
+                      const response = await apiClient.post<TagCategory>(
+                        `/api/v1/tags/categories?${tagDataSetQuery}`,
+                        input
+                      );
+                      await apiClient.put(
+                        `/api/v1/tags/${selectedTagRules.id}/category?${tagDataSetQuery}`,
+                        { categoryId: response.data.id }
+                      );
+                    })
+                  }
+                  onDeleteCategory={(categoryId) =>
+                    tagRuleMutation.mutate(() =>
+                      apiClient.delete(`/api/v1/tags/categories/${categoryId}?${tagDataSetQuery}`)
+                    )
+                  }
+                  onAddAlias={(alias) =>
+                    tagRuleMutation.mutate(() =>
+                      apiClient.post(
+                        `/api/v1/tags/${selectedTagRules.id}/aliases?${tagDataSetQuery}`,
+                        { alias }
+                      )
+                    )
+                  }
+                  onRemoveAlias={(aliasId) =>
+                    tagRuleMutation.mutate(() =>
+                      apiClient.delete(
+                        `/api/v1/tags/${selectedTagRules.id}/aliases/${aliasId}?${tagDataSetQuery}`
+                      )
+                    )
+                  }
+                  onAddImplication={(title) =>
+                    tagRuleMutation.mutate(() =>
+                      apiClient.post(
+                        `/api/v1/tags/${selectedTagRules.id}/implications?${tagDataSetQuery}`,
+                        { title }
+                      )
+                    )
+                  }
+                  onRemoveImplication={(impliedTagId) =>
+                    tagRuleMutation.mutate(() =>
+                      apiClient.delete(
+                        `/api/v1/tags/${selectedTagRules.id}/implications/${impliedTagId}?${tagDataSetQuery}`
+                      )
+                    )
+                  }
+                  onSelectTag={(tagId) => {
+                    const tag = tagsData?.tags.find((item) => item.id === tagId);
+                    if (tag) handleTagClick(tag);
+                  }}
+                />
+                {tagRuleMutation.error && (
+                  <p className="text-xs text-red-600">
+                    {t.tagPage.tagRuleFailed}: {(tagRuleMutation.error as Error).message}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Stacks with this tag */}
             <div className="mt-6">
               <h3 className="text-lg font-semibold mb-4">{t.tagPage.stacksWithThisTag}</h3>
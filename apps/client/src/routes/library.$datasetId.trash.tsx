@@ -0,0 +1,134 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { useSetAtom } from 'jotai';
+import { useCallback, useMemo, useState } from 'react';
+import { TrashView, type TrashViewCopy } from '@/components/trash/TrashView';
+import { useHeaderActions } from '@/hooks/useHeaderActions';
+import { apiClient } from '@/lib/api-client';
+import { useT } from '@/lib/i18n';
+import { addUploadNotificationAtom } from '@/stores/upload';
+import type { OperationLogEntry, TrashItem } from '@/types';
+
+export const Route = createFileRoute('/library/$datasetId/trash')({
+  component: TrashPage,
+});
+
+function TrashPage() {
+  const t = useT();
+  const { datasetId } = Route.useParams();
+  const queryClient = useQueryClient();
+  const addNotification = useSetAtom(addUploadNotificationAtom);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const headerActionsConfig = useMemo(
+    () => ({
+      showShuffle: false,
+      showFilter: false,
+      showSelection: false,
+    }),
+    []
+  );
+  useHeaderActions(headerActionsConfig);
+
+  const trashQuery = useQuery({
+    queryKey: ['trash', datasetId],
+    queryFn: () => apiClient.getTrash(datasetId),
+  });
+  const operationsQuery = useQuery({
+    queryKey: ['operations', datasetId],
+    queryFn: () => apiClient.getOperations(datasetId),
+  });
+
+  // 復元や取り消しはスタック一覧全体に影響するので、まとめて再取得する
+  const runAction = useCallback(
+    async (key: string, action: () => Promise<unknown>) => {
+      setBusyKey(key);
+      try {
+        await action();
+        await queryClient.invalidateQueries();
+      } catch (error) {
+        addNotification({
+          type: 'error',
+          message: error instanceof Error ? error.message : t.trash.actionFailed,
+        });
+      } finally {
+        setBusyKey(null);
+      }
+    },
+    [queryClient, addNotification, t]
+  );
+
+  const handleRestore = useCallback(
+    (item: TrashItem) => {
+      void runAction(`trash-${item.id}`, async () => {
+        await apiClient.restoreTrashItem(item.id);
+        addNotification({ type: 'success', message: t.trash.restored(item.name) });
+      });
+    },
+    [runAction, addNotification, t]
+  );
+
+  const handleDelete = useCallback(
+    (item: TrashItem) => {
+      if (!window.confirm(t.trash.deletePermanentlyConfirm(item.name))) return;
+      void runAction(`trash-${item.id}`, () => apiClient.purgeTrashItem(item.id));
+    },
+    [runAction, t]
+  );
+
+  const itemCount = trashQuery.data?.items.length ?? 0;
+  const handleEmpty = useCallback(() => {
+    if (itemCount === 0) return;
+    if (!window.confirm(t.trash.emptyTrashConfirm(itemCount))) return;
+    void runAction('empty', () => apiClient.emptyTrash(datasetId));
+  }, [runAction, itemCount, datasetId, t]);
+
+  const handleUndo = useCallback(
+    (entry: OperationLogEntry) => {
+      void runAction(`operation-${entry.id}`, async () => {
+        await apiClient.undoOperation(entry.id);
+        addNotification({ type: 'success', message: t.trash.undoSucceeded });
+      });
+    },
+    [runAction, addNotification, t]
+  );
+
+  const copy = useMemo<TrashViewCopy>(
+    () => ({
+      title: t.trash.title,
+      description: t.trash.description,
+      loading: t.common.loading,
+      empty: t.trash.empty,
+      emptyTrash: t.trash.emptyTrash,
+      restore: t.trash.restore,
+      deletePermanently: t.trash.deletePermanently,
+      stackItem: t.trash.stackItem,
+      assetItem: t.trash.assetItem,
+      deletedAt: t.trash.deletedAt,
+      expiresAt: t.trash.expiresAt,
+      history: t.trash.history,
+      historyDescription: t.trash.historyDescription,
+      noHistory: t.trash.noHistory,
+      undo: t.trash.undo,
+      undone: t.trash.undone,
+      operationLabel: (operation, count) => t.trash.operations[operation](count),
+    }),
+    [t]
+  );
+
+  return (
+    <TrashView
+      items={trashQuery.data?.items ?? []}
+      retentionDays={trashQuery.data?.retentionDays ?? 30}
+      operations={operationsQuery.data?.operations ?? []}
+      operationLimit={operationsQuery.data?.limit ?? 20}
+      loading={trashQuery.isLoading}
+      busyKey={busyKey}
+      copy={copy}
+      onRestore={handleRestore}
+      onDelete={handleDelete}
+      onEmpty={handleEmpty}
+      onUndo={handleUndo}
+    />
+  );
+}
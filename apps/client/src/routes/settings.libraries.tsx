@@ -1,9 +1,14 @@
-import { useMutation, useQueries, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createFileRoute } from '@tanstack/react-router';
 import EmojiPicker, { type EmojiClickData } from 'emoji-picker-react';
 import { useAtom } from 'jotai';
-import { Check, Loader2, Palette, Plus, RefreshCw, Wand2, X } from 'lucide-react';
-import { useMemo, useState } from 'react';
+import { Camera, Check, Loader2, Palette, Plus, RefreshCw, Upload, Wand2, X } from 'lucide-react';
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { getShareLinkUrl } from '@/components/modals/ShareLinkDialog';
+import { AutomationRulesSection } from '@/components/settings/AutomationRulesSection';
+import { BackgroundJobsSection } from '@/components/settings/BackgroundJobsSection';
+import { ShareLinksSection } from '@/components/settings/ShareLinksSection';
+import { WatchedFoldersSection } from '@/components/settings/WatchedFoldersSection';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -35,10 +40,23 @@ import {
   useUpdateDataset,
 } from '@/hooks/useDatasets';
 import { useHeaderActions } from '@/hooks/useHeaderActions';
+import { isJobActive, useCancelJob, useJobDetail, useJobs, useRetryJob } from '@/hooks/useJobs';
 import { apiClient } from '@/lib/api-client';
+import { copyText } from '@/lib/clipboard';
+import { downloadLibraryArchive } from '@/lib/download-originals';
 import { useT } from '@/lib/i18n';
 import { sidebarOpenAtom } from '@/stores/ui';
-import type { Dataset } from '@/types';
+import type {
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRulePreview,
+  Dataset,
+  DatasetSettings,
+  Job,
+  ShareLink,
+  WatchedFolder,
+  WatchedFolderInput,
+} from '@/types';
 
 export const Route = createFileRoute('/settings/libraries')({
   component: DatasetManagement,
@@ -75,7 +93,7 @@ function DatasetManagement() {
   const [regenerateMode, setRegenerateMode] = useState<'incremental' | 'force'>('incremental');
   const [protectionDialog, setProtectionDialog] = useState<{
     open: boolean;
-    mode: 'enable' | 'disable';
+    mode: 'enable' | 'disable' | 'encrypt' | 'decrypt';
     datasetId: string | null;
   }>({
     open: false,
@@ -83,6 +101,18 @@ function DatasetManagement() {
     datasetId: null,
   });
   const [protectionPassword, setProtectionPassword] = useState('');
+  const protectionDialogTitle = {
+    enable: t.library.enableProtection,
+    disable: t.library.disableProtection,
+    encrypt: t.library.encryptLibraryFiles,
+    decrypt: t.library.decryptLibraryFiles,
+  }[protectionDialog.mode];
+  const protectionDialogAction = {
+    enable: t.library.enable,
+    disable: t.library.disable,
+    encrypt: t.library.encryptFiles,
+    decrypt: t.library.decryptFiles,
+  }[protectionDialog.mode];
   const [defaultSettingId, setDefaultSettingId] = useState<string | null>(null);
 
   const [newName, setNewName] = useState('');
@@ -90,6 +120,387 @@ function DatasetManagement() {
   const [newColor, setNewColor] = useState(DEFAULT_CARAMEL_COLOR);
   const [createColorOpen, setCreateColorOpen] = useState(false);
   const [createEmojiOpen, setCreateEmojiOpen] = useState(false);
+  const [expandedJobId, setExpandedJobId] = useState<number | null>(null);
+  // 取り込み先（'new' は新しいライブラリとして復元）
+  const [importingTarget, setImportingTarget] = useState<string | null>(null);
+  const importTargetRef = useRef<string>('new');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [watchedDatasetId, setWatchedDatasetId] = useState<number | null>(null);
+  const [busyWatchedFolderId, setBusyWatchedFolderId] = useState<number | null>(null);
+  const [automationDatasetId, setAutomationDatasetId] = useState<number | null>(null);
+  const [busyAutomationRuleId, setBusyAutomationRuleId] = useState<number | null>(null);
+  const [busyShareLinkId, setBusyShareLinkId] = useState<number | null>(null);
+  const [copiedShareLinkId, setCopiedShareLinkId] = useState<number | null>(null);
+  const [automationPreview, setAutomationPreview] = useState<{
+    ruleId: number | null;
+    result: AutomationRulePreview;
+  } | null>(null);
+
+  const handleJobFinished = useCallback(
+    (job: Job) => {
+      if (job.dataSetId) {
+        queryClient.invalidateQueries({ queryKey: ['library-stats', String(job.dataSetId)] });
+      }
+    },
+    [queryClient]
+  );
+  const jobsQuery = useJobs({ onJobFinished: handleJobFinished });
+  const jobDetailQuery = useJobDetail(expandedJobId);
+  const cancelJob = useCancelJob();
+  const retryJob = useRetryJob();
+  const jobs = jobsQuery.data?.jobs ?? [];
+  const refreshingDatasetIds = useMemo(
+    () =>
+      new Set(
+        jobs
+          .filter((job) => job.type === 'dataset.refresh-all' && isJobActive(job))
+          .map((job) => String(job.dataSetId))
+      ),
+    [jobs]
+  );
+  const jobsCopy = useMemo(
+    () => ({
+      title: t.library.jobsTitle,
+      description: t.library.jobsDescription,
+      empty: t.library.jobsEmpty,
+      statuses: {
+        queued: t.library.jobStatusQueued,
+        running: t.library.jobStatusRunning,
+        succeeded: t.library.jobStatusSucceeded,
+        failed: t.library.jobStatusFailed,
+        cancelled: t.library.jobStatusCancelled,
+      },
+      types: {
+        'dataset.refresh-all': t.library.jobTypeRefreshAll,
+        'stacks.refresh-thumbnails': t.library.jobTypeRefreshThumbnails,
+        'stacks.refresh-autotags': t.library.jobTypeRefreshAutoTags,
+        'stacks.import-urls': t.library.jobTypeImportUrls,
+        'dataset.compute-phashes': t.library.jobTypeComputePerceptualHashes,
+        'dataset.import-archive': t.library.jobTypeImportArchive,
+        'watched-folders.ingest': t.library.jobTypeIngestWatchedFolder,
+        'dataset.detect-scenes': t.library.jobTypeDetectScenes,
+      },
+      progress: t.library.jobProgress,
+      failedItems: t.library.jobFailedItems,
+      cancel: t.library.jobCancel,
+      retry: t.library.jobRetry,
+      retryFailed: t.library.jobRetryFailed,
+      failureLog: t.library.jobFailureLog,
+      noFailures: t.library.jobNoFailures,
+    }),
+    [t]
+  );
+  const watchedFoldersCopy = useMemo(
+    () => ({
+      title: t.library.watchedFoldersTitle,
+      description: t.library.watchedFoldersDescription,
+      empty: t.library.watchedFoldersEmpty,
+      addFolder: t.library.watchedFolderAdd,
+      library: t.library.watchedFolderLibrary,
+      path: t.library.watchedFolderPath,
+      pathPlaceholder: t.library.watchedFolderPathPlaceholder,
+      groupingMode: t.library.watchedFolderGroupingMode,
+      groupingModes: {
+        'single-stack': t.library.watchedFolderGroupingSingleStack,
+        'create-collection': t.library.watchedFolderGroupingCreateCollection,
+        'flat-upload': t.library.watchedFolderGroupingFlat,
+      },
+      mediaType: t.library.watchedFolderMediaType,
+      mediaTypeAuto: t.library.watchedFolderMediaTypeAuto,
+      mediaTypes: {
+        image: t.bulkEdit.image,
+        comic: t.bulkEdit.comic,
+        video: t.bulkEdit.video,
+      },
+      tags: t.library.watchedFolderTags,
+      tagsPlaceholder: t.library.watchedFolderTagsPlaceholder,
+      author: t.library.watchedFolderAuthor,
+      collection: t.library.watchedFolderCollection,
+      noCollection: t.library.watchedFolderNoCollection,
+      afterImport: t.library.watchedFolderAfterImport,
+      afterImportModes: {
+        move: t.library.watchedFolderAfterImportMove,
+        keep: t.library.watchedFolderAfterImportKeep,
+      },
+      processedPath: t.library.watchedFolderProcessedPath,
+      processedPathPlaceholder: t.library.watchedFolderProcessedPathPlaceholder,
+      settleSeconds: t.library.watchedFolderSettleSeconds,
+      create: t.library.watchedFolderCreate,
+      paused: t.library.watchedFolderPaused,
+      pause: t.library.watchedFolderPause,
+      resume: t.library.watchedFolderResume,
+      scanNow: t.library.watchedFolderScanNow,
+      remove: t.library.watchedFolderRemove,
+      lastScan: t.library.watchedFolderLastScan,
+    }),
+    [t]
+  );
+  const automationRulesCopy = useMemo(
+    () => ({
+      title: t.library.automationRulesTitle,
+      description: t.library.automationRulesDescription,
+      empty: t.library.automationRulesEmpty,
+      addRule: t.library.automationRuleAdd,
+      library: t.library.watchedFolderLibrary,
+      name: t.library.automationRuleName,
+      namePlaceholder: t.library.automationRuleNamePlaceholder,
+      matchMode: t.library.automationRuleMatchMode,
+      matchModes: {
+        all: t.library.automationRuleMatchAll,
+        any: t.library.automationRuleMatchAny,
+      },
+      conditions: t.library.automationRuleConditions,
+      addCondition: t.library.automationRuleAddCondition,
+      conditionTypes: {
+        autoTagScore: t.library.automationRuleConditionAutoTagScore,
+        filename: t.library.automationRuleConditionFilename,
+        sourceUrl: t.library.automationRuleConditionSourceUrl,
+        author: t.library.automationRuleConditionAuthor,
+        mediaType: t.library.automationRuleConditionMediaType,
+        dominantColor: t.library.automationRuleConditionDominantColor,
+      },
+      actions: t.library.automationRuleActions,
+      addAction: t.library.automationRuleAddAction,
+      actionTypes: {
+        addTag: t.library.automationRuleActionAddTag,
+        setAuthor: t.library.automationRuleActionSetAuthor,
+        setMediaType: t.library.automationRuleActionSetMediaType,
+        addToCollection: t.library.automationRuleActionAddToCollection,
+        favorite: t.library.automationRuleActionFavorite,
+      },
+      patternModes: {
+        contains: t.library.automationRulePatternContains,
+        glob: t.library.automationRulePatternGlob,
+        regex: t.library.automationRulePatternRegex,
+      },
+      authorOperators: {
+        is: t.library.automationRuleAuthorIs,
+        isNot: t.library.automationRuleAuthorIsNot,
+        isEmpty: t.library.automationRuleAuthorIsEmpty,
+      },
+      mediaTypes: {
+        image: t.bulkEdit.image,
+        comic: t.bulkEdit.comic,
+        video: t.bulkEdit.video,
+      },
+      hueCategories: {
+        red: t.library.automationRuleHueRed,
+        orange: t.library.automationRuleHueOrange,
+        yellow: t.library.automationRuleHueYellow,
+        green: t.library.automationRuleHueGreen,
+        cyan: t.library.automationRuleHueCyan,
+        blue: t.library.automationRuleHueBlue,
+        violet: t.library.automationRuleHueViolet,
+      },
+      tag: t.library.automationRuleTag,
+      pattern: t.library.automationRulePattern,
+      minScore: t.library.automationRuleMinScore,
+      minPercentage: t.library.automationRuleMinPercentage,
+      author: t.library.automationRuleAuthor,
+      authorPlaceholder: t.library.automationRuleAuthorPlaceholder,
+      collection: t.library.automationRuleCollection,
+      preview: t.library.automationRulePreview,
+      previewResult: t.library.automationRulePreviewResult,
+      previewAlreadyApplied: t.library.automationRulePreviewAlreadyApplied,
+      create: t.library.automationRuleCreate,
+      paused: t.library.watchedFolderPaused,
+      pause: t.library.watchedFolderPause,
+      resume: t.library.watchedFolderResume,
+      applyNow: t.library.automationRuleApplyNow,
+      remove: t.library.watchedFolderRemove,
+    }),
+    [t]
+  );
+  const shareLinksCopy = useMemo(
+    () => ({
+      title: t.share.title,
+      description: t.share.sectionDescription,
+      empty: t.share.empty,
+      collectionTarget: t.share.collectionTarget,
+      stackTarget: t.share.stackTarget,
+      deletedTarget: t.share.deletedTarget,
+      statuses: t.share.statuses,
+      views: t.share.views,
+      lastViewed: t.share.lastViewed,
+      expiresAt: t.share.expiresAt,
+      passwordProtected: t.share.passwordProtected,
+      originalsAllowed: t.share.originalsAllowed,
+      copy: t.share.copy,
+      copied: t.share.copied,
+      revoke: t.share.revoke,
+      remove: t.share.remove,
+    }),
+    [t]
+  );
+  const datasetNames = useMemo(
+    () => Object.fromEntries(datasets.map((dataset) => [Number(dataset.id), dataset.name])),
+    [datasets]
+  );
+
+  const watchedFoldersQuery = useQuery({
+    queryKey: ['watched-folders'],
+    queryFn: () => apiClient.getWatchedFolders(),
+  });
+  const watchedFormDatasetId = watchedDatasetId ?? (datasets[0] ? Number(datasets[0].id) : null);
+  const watchedCollectionsQuery = useQuery({
+    queryKey: ['collections', 'manual', watchedFormDatasetId],
+    queryFn: () => apiClient.getCollections({ dataSetId: watchedFormDatasetId!, type: 'MANUAL' }),
+    enabled: Boolean(watchedFormDatasetId),
+  });
+
+  const runWatchedFolderAction = async (folder: WatchedFolder, action: () => Promise<unknown>) => {
+    setBusyWatchedFolderId(folder.id);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['watched-folders'] });
+    } catch (error) {
+      console.error('Failed to update watched folder:', error);
+      alert(t.library.watchedFolderActionFailed);
+    } finally {
+      setBusyWatchedFolderId(null);
+    }
+  };
+
+  const createWatchedFolder = useMutation({
+    mutationFn: (input: WatchedFolderInput) => apiClient.createWatchedFolder(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['watched-folders'] });
+    },
+  });
+
+  const handleCreateWatchedFolder = async (input: WatchedFolderInput) => {
+    try {
+      await createWatchedFolder.mutateAsync(input);
+      return true;
+    } catch (error) {
+      console.error('Failed to create watched folder:', error);
+      alert(t.library.watchedFolderActionFailed);
+      return false;
+    }
+  };
+
+  const handleDeleteWatchedFolder = (folder: WatchedFolder) => {
+    if (!confirm(t.library.watchedFolderRemoveConfirm(folder.path))) return;
+    void runWatchedFolderAction(folder, () => apiClient.deleteWatchedFolder(folder.id));
+  };
+
+  const automationRulesQuery = useQuery({
+    queryKey: ['automation-rules'],
+    queryFn: () => apiClient.getAutomationRules(),
+  });
+  const automationFormDatasetId =
+    automationDatasetId ?? (datasets[0] ? Number(datasets[0].id) : null);
+  const automationCollectionsQuery = useQuery({
+    queryKey: ['collections', 'manual', automationFormDatasetId],
+    queryFn: () =>
+      apiClient.getCollections({ dataSetId: automationFormDatasetId!, type: 'MANUAL' }),
+    enabled: Boolean(automationFormDatasetId),
+  });
+
+  const runAutomationRuleAction = async (rule: AutomationRule, action: () => Promise<unknown>) => {
+    setBusyAutomationRuleId(rule.id);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['automation-rules'] });
+    } catch (error) {
+      console.error('Failed to update automation rule:', error);
+      alert(t.library.automationRuleActionFailed);
+    } finally {
+      setBusyAutomationRuleId(null);
+    }
+  };
+
+  const createAutomationRule = useMutation({
+    mutationFn: (input: AutomationRuleInput) => apiClient.createAutomationRule(input),
+    onSuccess: () => {
+      setAutomationPreview(null);
+      queryClient.invalidateQueries({ queryKey: ['automation-rules'] });
+    },
+  });
+
+  const handleCreateAutomationRule = async (input: AutomationRuleInput) => {
+    try {
+      await createAutomationRule.mutateAsync(input);
+      return true;
+    } catch (error) {
+      console.error('Failed to create automation rule:', error);
+      alert(t.library.automationRuleActionFailed);
+      return false;
+    }
+  };
+
+  const handlePreviewAutomationRule = (rule: AutomationRule) =>
+    runAutomationRuleAction(rule, async () => {
+      const result = await apiClient.previewSavedAutomationRule(rule.id);
+      setAutomationPreview({ ruleId: rule.id, result });
+    });
+
+  const handleApplyAutomationRule = (rule: AutomationRule) => {
+    if (!confirm(t.library.automationRuleApplyConfirm(rule.name))) return;
+    void runAutomationRuleAction(rule, async () => {
+      const result = await apiClient.applyAutomationRule(rule.id);
+      setAutomationPreview(null);
+      alert(t.library.automationRuleApplied(result.applied));
+    });
+  };
+
+  const handleDeleteAutomationRule = (rule: AutomationRule) => {
+    if (!confirm(t.library.automationRuleRemoveConfirm(rule.name))) return;
+    void runAutomationRuleAction(rule, () => apiClient.deleteAutomationRule(rule.id));
+  };
+
+  const shareLinksQuery = useQuery({
+    queryKey: ['share-links'],
+    queryFn: () => apiClient.getShareLinks(),
+  });
+
+  const runShareLinkAction = async (link: ShareLink, action: () => Promise<unknown>) => {
+    setBusyShareLinkId(link.id);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['share-links'] });
+    } catch (error) {
+      console.error('Failed to update share link:', error);
+      alert(t.share.actionFailed);
+    } finally {
+      setBusyShareLinkId(null);
+    }
+  };
+
+  const handleCopyShareLink = async (link: ShareLink) => {
+    if (await copyText(getShareLinkUrl(link.token))) setCopiedShareLinkId(link.id);
+  };
+
+  const handleRevokeShareLink = (link: ShareLink) => {
+    if (!confirm(t.share.revokeConfirm(link.targetName ?? t.share.deletedTarget))) return;
+    void runShareLinkAction(link, () => apiClient.revokeShareLink(link.id));
+  };
+
+  const handleDeleteShareLink = (link: ShareLink) => {
+    if (!confirm(t.share.removeConfirm(link.targetName ?? t.share.deletedTarget))) return;
+    void runShareLinkAction(link, () => apiClient.deleteShareLink(link.id));
+  };
+
+  const handleCancelJob = (id: number) => {
+    cancelJob.mutate(id, {
+      onError: (error) => {
+        console.error('Failed to cancel job:', error);
+        alert(t.library.jobActionFailed);
+      },
+    });
+  };
+
+  const handleRetryJob = (id: number, failedOnly: boolean) => {
+    retryJob.mutate(
+      { id, failedOnly },
+      {
+        onError: (error) => {
+          console.error('Failed to retry job:', error);
+          alert(t.library.jobActionFailed);
+        },
+      }
+    );
+  };
 
   const statsQueries = useQueries({
     queries: datasets.map((dataset) => ({
@@ -102,7 +513,7 @@ function DatasetManagement() {
 
   const handleUpdateLibrary = (
     id: string,
-    updates: { name?: string; icon?: string; themeColor?: string }
+    updates: { name?: string; icon?: string; themeColor?: string; settings?: DatasetSettings }
   ) => {
     updateDataset.mutate(
       { id, ...updates },
@@ -115,6 +526,18 @@ function DatasetManagement() {
     );
   };
 
+  // 感度は省略し、サーバー側でライブラリ設定の値を使わせる
+  const handleDetectScenes = async (id: string) => {
+    try {
+      await apiClient.detectDatasetScenes(id);
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      alert(t.library.sceneDetectionStarted);
+    } catch (error) {
+      console.error('Failed to start scene detection:', error);
+      alert(t.library.sceneDetectionFailed);
+    }
+  };
+
   const handleDelete = async (dataset: Dataset & { itemCount?: number }) => {
     const rawItemCount = dataset.itemCount;
     const itemCount =
@@ -185,25 +608,13 @@ function DatasetManagement() {
     }) =>
       apiClient.runDatasetRefreshAll(datasetId, {
         forceRegenerate,
-        batchSize: 20,
       }),
-    onSuccess: (result, variables) => {
+    onSuccess: (_result, variables) => {
       setUpdatingColors((prev) => ({ ...prev, [variables.datasetId]: false }));
       setUpdatingAutoTags((prev) => ({ ...prev, [variables.datasetId]: false }));
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
 
-      alert(
-        [
-          t.library.fullRefreshStarted,
-          '',
-          `- ${t.library.scheduledThumbnails(result.scheduled?.thumbnails ?? 0)}`,
-          `- ${t.library.scheduledPreviews(result.scheduled?.previews ?? 0)}`,
-          `- ${t.library.scheduledMediaTypes(result.scheduled?.actualMediaTypes ?? 0)}`,
-          `- ${t.library.scheduledColors(result.scheduled?.colors ?? 0)}`,
-          `- ${t.library.scheduledAutoTags(result.scheduled?.autotags ?? 0)}`,
-          '',
-          t.library.fullRefreshProcessing,
-        ].join('\n')
-      );
+      alert([t.library.fullRefreshStarted, '', t.library.fullRefreshProcessing].join('\n'));
     },
     onError: (error, variables) => {
       console.error('Failed to start full refresh:', error);
@@ -230,6 +641,30 @@ function DatasetManagement() {
     }
   };
 
+  const handleOpenImport = (target: string) => {
+    importTargetRef.current = target;
+    importInputRef.current?.click();
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    const target = importTargetRef.current;
+    setImportingTarget(target);
+    try {
+      const result = await apiClient.importLibraryArchive(file, {
+        datasetId: target === 'new' ? undefined : target,
+      });
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
+      queryClient.invalidateQueries({ queryKey: ['library-stats', String(result.dataSetId)] });
+      alert(t.library.importCompleted(result.stacks, result.duplicateAssets));
+    } catch (error) {
+      console.error('Failed to import library archive:', error);
+      alert(t.library.importFailed);
+    } finally {
+      setImportingTarget(null);
+    }
+  };
+
   const handleSetDefault = async (id: string) => {
     setDefaultSettingId(id);
     try {
@@ -255,14 +690,42 @@ function DatasetManagement() {
                 : t.library.multipleLibrariesHint}
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => setShowCreateModal(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors shadow-sm"
-          >
-            <Plus size={20} />
-            <span>{t.library.createLibrary}</span>
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => handleOpenImport('new')}
+              disabled={importingTarget !== null}
+              className="flex items-center gap-2 px-4 py-2 border bg-white rounded-md hover:bg-gray-100 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importingTarget === 'new' ? (
+                <Loader2 size={20} className="animate-spin" />
+              ) : (
+                <Upload size={20} />
+              )}
+              <span>
+                {importingTarget === 'new' ? t.library.importing : t.library.importLibrary}
+              </span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors shadow-sm"
+            >
+              <Plus size={20} />
+              <span>{t.library.createLibrary}</span>
+            </button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".tar,application/x-tar"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              void handleImportFile(file);
+            }}
+          />
         </div>
 
         {isLoading ? (
@@ -274,7 +737,9 @@ function DatasetManagement() {
             {datasets.map((dataset, index) => {
               const stats = (statsQueries[index]?.data ?? null) as LibraryStats | null;
               const isUpdating = Boolean(
-                updatingAutoTags[dataset.id] || updatingColors[dataset.id]
+                updatingAutoTags[dataset.id] ||
+                  updatingColors[dataset.id] ||
+                  refreshingDatasetIds.has(String(dataset.id))
               );
               const itemCount = stats?.assetCount ?? dataset.itemCount ?? 0;
               const libraryDataset = {
@@ -299,6 +764,10 @@ function DatasetManagement() {
                   onDelete={() => handleDelete(libraryDataset)}
                   onSetDefault={() => handleSetDefault(dataset.id)}
                   onStartRefresh={() => handleOpenRefreshDialog(dataset.id)}
+                  isImporting={importingTarget === dataset.id}
+                  onExport={() => downloadLibraryArchive(dataset.id)}
+                  onDetectScenes={() => handleDetectScenes(dataset.id)}
+                  onImport={() => handleOpenImport(dataset.id)}
                   onProtectionClick={() => {
                     const currently = Boolean((dataset as any).isProtected);
                     setProtectionDialog({
@@ -307,6 +776,13 @@ function DatasetManagement() {
                       datasetId: dataset.id,
                     });
                   }}
+                  onEncryptionClick={() => {
+                    setProtectionDialog({
+                      open: true,
+                      mode: dataset.isEncrypted ? 'decrypt' : 'encrypt',
+                      datasetId: dataset.id,
+                    });
+                  }}
                 />
               );
             })}
@@ -327,6 +803,95 @@ function DatasetManagement() {
           </div>
         )}
 
+        <div className="mt-8">
+          <WatchedFoldersSection
+            folders={watchedFoldersQuery.data ?? []}
+            datasets={datasets.map((dataset) => ({ id: Number(dataset.id), name: dataset.name }))}
+            collections={(watchedCollectionsQuery.data?.collections ?? []).map((collection) => ({
+              id: Number(collection.id),
+              name: collection.name,
+            }))}
+            copy={watchedFoldersCopy}
+            loading={watchedFoldersQuery.isLoading}
+            creating={createWatchedFolder.isPending}
+            busyFolderId={busyWatchedFolderId}
+            onDatasetChange={setWatchedDatasetId}
+            onCreate={handleCreateWatchedFolder}
+            onToggleEnabled={(folder) =>
+              runWatchedFolderAction(folder, () =>
+                apiClient.updateWatchedFolder(folder.id, { enabled: !folder.enabled })
+              )
+            }
+            onScan={(folder) =>
+              runWatchedFolderAction(folder, () => apiClient.scanWatchedFolder(folder.id))
+            }
+            onDelete={handleDeleteWatchedFolder}
+          />
+        </div>
+
+        <div className="mt-8">
+          <AutomationRulesSection
+            rules={automationRulesQuery.data ?? []}
+            datasets={datasets.map((dataset) => ({ id: Number(dataset.id), name: dataset.name }))}
+            collections={(automationCollectionsQuery.data?.collections ?? []).map((collection) => ({
+              id: Number(collection.id),
+              name: collection.name,
+            }))}
+            copy={automationRulesCopy}
+            loading={automationRulesQuery.isLoading}
+            creating={createAutomationRule.isPending}
+            busyRuleId={busyAutomationRuleId}
+            preview={automationPreview}
+            onDatasetChange={setAutomationDatasetId}
+            onCreate={handleCreateAutomationRule}
+            onPreviewDraft={(input) =>
+              apiClient
+                .previewAutomationRule(input)
+                .then((result) => setAutomationPreview({ ruleId: null, result }))
+                .catch((error) => {
+                  console.error('Failed to preview automation rule:', error);
+                  alert(t.library.automationRuleActionFailed);
+                })
+            }
+            onPreviewRule={handlePreviewAutomationRule}
+            onApply={handleApplyAutomationRule}
+            onToggleEnabled={(rule) =>
+              runAutomationRuleAction(rule, () =>
+                apiClient.updateAutomationRule(rule.id, { enabled: !rule.enabled })
+              )
+            }
+            onDelete={handleDeleteAutomationRule}
+          />
+        </div>
+
+        <div className="mt-8">
+          <ShareLinksSection
+            links={shareLinksQuery.data ?? []}
+            datasets={datasets.map((dataset) => ({ id: Number(dataset.id), name: dataset.name }))}
+            copy={shareLinksCopy}
+            loading={shareLinksQuery.isLoading}
+            busyLinkId={busyShareLinkId}
+            copiedLinkId={copiedShareLinkId}
+            onCopy={handleCopyShareLink}
+            onRevoke={handleRevokeShareLink}
+            onDelete={handleDeleteShareLink}
+          />
+        </div>
+
+        <div className="mt-8">
+          <BackgroundJobsSection
+            jobs={jobs}
+            copy={jobsCopy}
+            loading={jobsQuery.isLoading}
+            expandedJobId={expandedJobId}
+            failures={jobDetailQuery.data?.failures ?? []}
+            datasetNames={datasetNames}
+            onToggleJob={(id) => setExpandedJobId((current) => (current === id ? null : id))}
+            onCancel={handleCancelJob}
+            onRetry={handleRetryJob}
+          />
+        </div>
+
         {showCreateModal && (
           <>
             <div
@@ -522,6 +1087,10 @@ function DatasetManagement() {
                     <Wand2 size={14} />
                     <span>{t.library.stepAutoTagging}</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <Camera size={14} />
+                    <span>{t.library.stepEmbeddedMetadata}</span>
+                  </div>
                 </div>
               </div>
 
@@ -568,11 +1137,14 @@ function DatasetManagement() {
         >
           <UIDialogContent className="sm:max-w-sm">
             <UIDialogHeader>
-              <UIDialogTitle>
-                {protectionDialog.mode === 'enable'
-                  ? t.library.enableProtection
-                  : t.library.disableProtection}
-              </UIDialogTitle>
+              <UIDialogTitle>{protectionDialogTitle}</UIDialogTitle>
+              {protectionDialog.mode === 'encrypt' || protectionDialog.mode === 'decrypt' ? (
+                <DialogDescription>
+                  {protectionDialog.mode === 'encrypt'
+                    ? t.library.encryptLibraryFilesDescription
+                    : t.library.decryptLibraryFilesDescription}
+                </DialogDescription>
+              ) : null}
             </UIDialogHeader>
             <div className="space-y-3">
               <Input
@@ -588,8 +1160,18 @@ function DatasetManagement() {
               <Button
                 onClick={async () => {
                   if (!protectionDialog.datasetId) return;
+                  const encryptionMode =
+                    protectionDialog.mode === 'encrypt' || protectionDialog.mode === 'decrypt'
+                      ? protectionDialog.mode
+                      : null;
                   try {
-                    if (protectionDialog.mode === 'enable') {
+                    if (encryptionMode) {
+                      await apiClient.setDatasetEncryption(protectionDialog.datasetId, {
+                        mode: encryptionMode,
+                        password: protectionPassword,
+                      });
+                      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+                    } else if (protectionDialog.mode === 'enable') {
                       await apiClient.setDatasetProtection(protectionDialog.datasetId, {
                         enable: true,
                         password: protectionPassword,
@@ -605,12 +1187,16 @@ function DatasetManagement() {
                     queryClient.invalidateQueries({ queryKey: ['datasets'] });
                   } catch (error) {
                     console.error('Failed to update protection:', error);
-                    alert(t.library.protectionUpdateFailed);
+                    alert(
+                      encryptionMode
+                        ? t.library.encryptionUpdateFailed
+                        : t.library.protectionUpdateFailed
+                    );
                   }
                 }}
                 disabled={!protectionPassword}
               >
-                {protectionDialog.mode === 'enable' ? t.library.enable : t.library.disable}
+                {protectionDialogAction}
               </Button>
             </div>
           </UIDialogContent>
@@ -0,0 +1,200 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { useMemo, useState } from 'react';
+import { AccountSection } from '@/components/settings/AccountSection';
+import { UsersSection } from '@/components/settings/UsersSection';
+import { useHeaderActions } from '@/hooks/useHeaderActions';
+import { apiClient } from '@/lib/api-client';
+import { useT } from '@/lib/i18n';
+import type { User, UserInput } from '@/types';
+
+export const Route = createFileRoute('/settings/users')({
+  component: UsersSettings,
+});
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function UsersSettings() {
+  const t = useT();
+  const queryClient = useQueryClient();
+  const [accountBusy, setAccountBusy] = useState(false);
+  const [creatingUser, setCreatingUser] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<number | null>(null);
+
+  const headerActionsConfig = useMemo(
+    () => ({
+      showShuffle: false,
+      showFilter: false,
+      showSelection: false,
+    }),
+    []
+  );
+
+  useHeaderActions(headerActionsConfig);
+
+  const { data: session = null } = useQuery({
+    queryKey: ['auth-session'],
+    queryFn: () => apiClient.getAuthSession(),
+  });
+  const isAdmin = session?.user?.role === 'super';
+
+  const usersQuery = useQuery({
+    queryKey: ['users'],
+    queryFn: () => apiClient.getUsers(),
+    enabled: isAdmin,
+  });
+
+  const accountCopy = useMemo(
+    () => ({
+      title: t.account.title,
+      setupDescription: t.account.setupDescription,
+      userName: t.auth.userName,
+      password: t.auth.password,
+      passwordHint: t.account.passwordHint,
+      setup: t.account.setup,
+      signedInAs: t.account.signedInAs,
+      roles: t.account.roles,
+      currentPassword: t.account.currentPassword,
+      newPassword: t.account.newPassword,
+      changePassword: t.account.changePassword,
+      logout: t.account.logout,
+    }),
+    [t]
+  );
+
+  const usersCopy = useMemo(
+    () => ({
+      title: t.account.usersTitle,
+      description: t.account.usersDescription,
+      addUser: t.account.addUser,
+      userName: t.auth.userName,
+      email: t.account.email,
+      role: t.account.role,
+      roles: t.account.roles,
+      password: t.auth.password,
+      passwordHint: t.account.passwordHint,
+      create: t.account.create,
+      you: t.account.you,
+      disabled: t.account.disabled,
+      disable: t.account.disable,
+      enable: t.account.enable,
+      resetPassword: t.account.resetPassword,
+      newPassword: t.account.newPassword,
+      save: t.account.save,
+      cancel: t.account.cancel,
+      remove: t.account.remove,
+      lastLogin: t.account.lastLogin,
+    }),
+    [t]
+  );
+
+  const runAccountAction = async (action: () => Promise<unknown>) => {
+    setAccountBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error('Account action failed:', error);
+      alert(t.account.operationFailed(errorMessage(error)));
+      return false;
+    } finally {
+      setAccountBusy(false);
+    }
+  };
+
+  const handleSetup = async (name: string, password: string) => {
+    const done = await runAccountAction(() => apiClient.setupAccount(name, password));
+    if (done) await queryClient.invalidateQueries();
+    return done;
+  };
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string) => {
+    const done = await runAccountAction(() =>
+      apiClient.changePassword(currentPassword, newPassword)
+    );
+    if (done) alert(t.account.passwordChanged);
+    return done;
+  };
+
+  const handleLogout = async () => {
+    if (await runAccountAction(() => apiClient.logout())) {
+      // ユーザーごとのデータ（お気に入り等）が残らないようキャッシュを捨てて取り直す
+      await queryClient.resetQueries();
+    }
+  };
+
+  const runUserAction = async (user: User, action: () => Promise<unknown>) => {
+    setBusyUserId(user.id);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['users'] });
+      return true;
+    } catch (error) {
+      console.error('Failed to update user:', error);
+      alert(t.account.operationFailed(errorMessage(error)));
+      return false;
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleCreateUser = async (input: UserInput) => {
+    setCreatingUser(true);
+    try {
+      await apiClient.createUser(input);
+      await queryClient.invalidateQueries({ queryKey: ['users'] });
+      return true;
+    } catch (error) {
+      console.error('Failed to create user:', error);
+      alert(t.account.operationFailed(errorMessage(error)));
+      return false;
+    } finally {
+      setCreatingUser(false);
+    }
+  };
+
+  const handleDeleteUser = (user: User) => {
+    if (!confirm(t.account.removeConfirm(user.name))) return;
+    void runUserAction(user, () => apiClient.deleteUser(user.id));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto max-w-3xl space-y-6 px-4 py-8 pt-24">
+        <h1 className="text-3xl font-bold tracking-tight">{t.account.pageTitle}</h1>
+
+        <AccountSection
+          session={session}
+          copy={accountCopy}
+          busy={accountBusy}
+          onSetup={handleSetup}
+          onChangePassword={handleChangePassword}
+          onLogout={handleLogout}
+        />
+
+        {isAdmin ? (
+          <UsersSection
+            users={usersQuery.data ?? []}
+            currentUserId={session?.user?.id ?? null}
+            copy={usersCopy}
+            creating={creatingUser}
+            busyUserId={busyUserId}
+            onCreate={handleCreateUser}
+            onRoleChange={(user, role) =>
+              void runUserAction(user, () => apiClient.updateUser(user.id, { role }))
+            }
+            onToggleDisabled={(user) =>
+              void runUserAction(user, () =>
+                apiClient.updateUser(user.id, { disabled: !user.disabled })
+              )
+            }
+            onResetPassword={(user, password) =>
+              runUserAction(user, () => apiClient.updateUser(user.id, { password }))
+            }
+            onDelete={handleDeleteUser}
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+}
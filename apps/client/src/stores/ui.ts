@@ -64,12 +64,14 @@ export const headerActionsAtom = atom<{
   showSelection: boolean;
   showReorder?: boolean;
   onShuffle?: (() => void) | null;
+  onSearch?: ((search: string | undefined) => void) | null;
 }>({
   showShuffle: false,
   showFilter: false,
   showSelection: false,
   showReorder: false,
   onShuffle: null,
+  onSearch: null,
 });
 
 // Info sidebar state
@@ -0,0 +1,36 @@
+import { atom } from 'jotai';
+import type { OperationType } from '@/types';
+
+export interface UndoToast {
+  id: string;
+  operationId: number;
+  operation: OperationType;
+  itemCount: number;
+}
+
+const UNDO_TOAST_DURATION_MS = 8000;
+
+// 直近の取り消せる操作（新しい操作が来たら置き換える）
+export const undoToastAtom = atom<UndoToast | null>(null);
+
+// サーバーが操作ログを返さなかった場合（operationId が無い）は何もしない
+export const showUndoToastAtom = atom(
+  null,
+  (
+    _get,
+    set,
+    toast: { operationId?: number | null; operation: OperationType; itemCount: number }
+  ) => {
+    if (!toast.operationId) return;
+    const next: UndoToast = {
+      id: Math.random().toString(36).slice(2, 11),
+      operationId: toast.operationId,
+      operation: toast.operation,
+      itemCount: toast.itemCount,
+    };
+    set(undoToastAtom, next);
+    setTimeout(() => {
+      set(undoToastAtom, (current) => (current?.id === next.id ? null : current));
+    }, UNDO_TOAST_DURATION_MS);
+  }
+);
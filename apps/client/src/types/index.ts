@@ -9,8 +9,20 @@ export interface Dataset {
   updatedAt: string;
   themeColor?: string;
   isProtected?: boolean;
+  // 保存ファイルを暗号化しているか。復号ジョブが終わるまでは hasEncryptionKey が残る
+  isEncrypted?: boolean;
+  hasEncryptionKey?: boolean;
   authorized?: boolean;
   isDefault?: boolean;
+  settings?: DatasetSettings;
+}
+
+export interface DatasetSettings {
+  // 取り込み時に埋め込みキーワード（IPTC / XMP）をタグとして付ける
+  importKeywordsAsTags?: boolean;
+  // 動画のシーン検出の既定の感度 (0〜1)
+  sceneSensitivity?: number;
+  [key: string]: unknown;
 }
 
 // Media categories are user-facing stack buckets. They do not necessarily
@@ -24,6 +36,9 @@ export type ComicOpeningDirection = 'right-opening' | 'left-opening';
 export type ComicDisplayMode = 'single' | 'spread';
 export type ComicSourceMode = 'single-pages' | 'mixed-spreads';
 
+// 類似検索のスコアリング方式（タグ / 画像埋め込み / 両方）
+export type SimilarMode = 'tags' | 'visual' | 'hybrid';
+
 export interface ComicReadingSettings {
   openingDirection?: ComicOpeningDirection;
   spreadDisplayEnabled?: boolean;
@@ -33,6 +48,18 @@ export interface ComicReadingSettings {
   wideAspectRatioThreshold?: number;
 }
 
+// 読書位置（page は stack 内のアセット順、0 始まり）
+export interface ReadingProgress {
+  stackId: number;
+  page: number;
+  pageCount: number;
+  completed: boolean;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+export type ReadingState = 'unread' | 'in-progress' | 'read';
+
 export interface StackMeta {
   reading?: ComicReadingSettings;
   thumbnailSource?: Record<string, unknown>;
@@ -152,11 +179,24 @@ export interface Asset {
   orderInStack?: number;
   meta?: {
     markers?: VideoMarker[];
+    scenes?: VideoScenes;
   };
+  source?: AssetSource | null;
   createdAt?: string;
   updatedAt?: string;
 }
 
+export type AssetImportChannel = 'upload' | 'clipper' | 'url-import' | 'watched-folder';
+
+// 取り込み元。経路を記録する前のアセットでは channel が null
+export interface AssetSource {
+  channel: AssetImportChannel | null;
+  pageUrl: string | null;
+  mediaUrl: string | null;
+  referrer: string | null;
+  importedAt: string | null;
+}
+
 // Video marker types
 export interface VideoMarker {
   time: number;
@@ -165,6 +205,33 @@ export interface VideoMarker {
   type?: 'ghost' | 'scene' | 'finish';
 }
 
+// シーン検出の結果（サーバーがアセットの meta に書き込む）
+export interface VideoSceneStrip {
+  url: string;
+  frameWidth: number;
+  frameHeight: number;
+  /** ストリップの各コマに対応する秒数 */
+  times: number[];
+}
+
+// 範囲書き出し（クリップ）
+export type ClipExportFormat = 'mp4' | 'webp' | 'gif';
+export type ComicExportFormat = 'cbz' | 'pdf';
+export type ClipExportDestination = 'stack' | 'new-stack';
+
+export interface ClipExportResponse {
+  stackId: number | null;
+  asset: Asset | null;
+  stack: Stack | null;
+}
+
+export interface VideoScenes {
+  sensitivity: number;
+  detectedAt: string;
+  times: number[];
+  strip: VideoSceneStrip | null;
+}
+
 // Author types
 export interface AuthorLink {
   id: number;
@@ -178,12 +245,42 @@ export interface AuthorLink {
   updatedAt?: string;
 }
 
+/** 作者リンクのプロバイダーから取得した公開プロフィール */
+export interface AuthorProfile {
+  name: string | null;
+  avatarUrl: string | null;
+  description: string | null;
+  url: string | null;
+  fetchedAt: string | null;
+}
+
 export interface Author {
   id: string | number;
   name: string;
   count?: number;
   stackCount?: number;
   links?: AuthorLink[];
+  profile?: AuthorProfile | null;
+}
+
+export type AuthorWorkStatus = 'new' | 'imported' | 'dismissed';
+
+/** 作者リンクから見つかった作品（作者の受信箱） */
+export interface AuthorInboxWork {
+  id: number;
+  authorId: number;
+  authorName: string;
+  dataSetId: number;
+  provider: string;
+  externalId: string;
+  title: string | null;
+  url: string;
+  thumbnailUrl: string | null;
+  mediaUrls: string[];
+  publishedAt: string | null;
+  status: AuthorWorkStatus;
+  firstSeenAt: string;
+  updatedAt: string;
 }
 
 // Tag types
@@ -195,6 +292,22 @@ export interface Tag {
   isAutoTag?: boolean;
 }
 
+export interface TagCategory {
+  id: number;
+  name: string;
+  color: string;
+  sortOrder?: number;
+  tagCount?: number;
+}
+
+/** タグ管理画面で扱う別名・包含関係・カテゴリ */
+export interface TagRules {
+  category: Pick<TagCategory, 'id' | 'name' | 'color'> | null;
+  aliases: Array<{ id: number; alias: string }>;
+  implies: Array<{ id: number; title: string }>;
+  impliedBy: Array<{ id: number; title: string }>;
+}
+
 // Collection types
 // コレクションのタイプ
 // 互換性のため 'SCRATCH' を追加（サーバが未対応でもクライアント側は受理可能）
@@ -282,6 +395,305 @@ export interface ImportUrlResult {
   message?: string;
 }
 
+// Background job types
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<TResult = Record<string, unknown>> {
+  id: number;
+  type: string;
+  dataSetId: number | null;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  result: TResult | null;
+  error: string | null;
+  progress: { total: number; done: number; failed: number };
+  attempts: number;
+  cancelRequested: boolean;
+  retryOfJobId: number | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
+
+export interface JobFailure {
+  id: number;
+  jobId: number;
+  itemKey: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface JobListResponse {
+  jobs: Job[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// ライブラリのアーカイブ取り込みジョブの結果
+export interface LibraryArchiveImportResult {
+  dataSetId: number;
+  createdDataset: boolean;
+  stacks: number;
+  mergedStacks: number;
+  skippedStacks: number;
+  assets: number;
+  duplicateAssets: number;
+  collectionStacks: number;
+  likes: number;
+}
+
+// サーバー側の監視フォルダ（新しいファイルを自動で取り込む）
+export type WatchedFolderGroupingMode = 'single-stack' | 'create-collection' | 'flat-upload';
+export type WatchedFolderAfterImport = 'move' | 'keep';
+
+export interface WatchedFolder {
+  id: number;
+  dataSetId: number;
+  path: string;
+  groupingMode: WatchedFolderGroupingMode;
+  mediaType: 'image' | 'comic' | 'video' | null;
+  tags: string[];
+  author: string | null;
+  collectionId: number | null;
+  afterImport: WatchedFolderAfterImport;
+  processedPath: string | null;
+  settleSeconds: number;
+  enabled: boolean;
+  lastScanAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WatchedFolderInput = Omit<
+  WatchedFolder,
+  'id' | 'lastScanAt' | 'lastError' | 'createdAt' | 'updatedAt'
+>;
+
+// アカウントを持たない相手向けの閲覧専用の共有リンク
+export type ShareLinkTargetType = 'collection' | 'stack';
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface ShareLink {
+  id: number;
+  dataSetId: number;
+  targetType: ShareLinkTargetType;
+  targetId: number;
+  /** 共有対象が削除済みの場合は null */
+  targetName: string | null;
+  token: string;
+  label: string | null;
+  hasPassword: boolean;
+  allowOriginals: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  status: ShareLinkStatus;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShareLinkInput {
+  targetType: ShareLinkTargetType;
+  targetId: number;
+  label?: string | null;
+  password?: string;
+  expiresInDays?: number | null;
+  allowOriginals: boolean;
+}
+
+// 新しく入ってきたスタックに当てる自動化ルール
+export type AutomationPatternMode = 'contains' | 'glob' | 'regex';
+export type AutomationHueCategory = Exclude<HueCategory, 'gray'>;
+
+export type AutomationCondition =
+  | { type: 'autoTagScore'; tag: string; minScore: number }
+  | { type: 'filename'; pattern: string; mode: AutomationPatternMode }
+  | { type: 'sourceUrl'; pattern: string; mode: AutomationPatternMode }
+  | { type: 'author'; operator: 'is' | 'isNot' | 'isEmpty'; value?: string }
+  | { type: 'mediaType'; mediaType: MediaCategory }
+  | { type: 'dominantColor'; hueCategory: AutomationHueCategory; minPercentage: number };
+
+export type AutomationAction =
+  | { type: 'addTag'; tag: string }
+  | { type: 'setAuthor'; author: string }
+  | { type: 'setMediaType'; mediaType: MediaCategory }
+  | { type: 'addToCollection'; collectionId: number }
+  | { type: 'favorite' };
+
+export interface AutomationRule {
+  id: number;
+  dataSetId: number;
+  name: string;
+  matchMode: 'all' | 'any';
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  sortOrder: number;
+  enabled: boolean;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AutomationRuleInput = Omit<
+  AutomationRule,
+  'id' | 'createdBy' | 'createdAt' | 'updatedAt'
+>;
+
+export interface AutomationRulePreview {
+  scanned: number;
+  total: number;
+  alreadyApplied: number;
+  stacks: Array<{ id: number; name: string; applied: boolean }>;
+}
+
+// ユーザーアカウント（super: 管理者, user: 一般, viewer: 閲覧のみ）
+export type UserRole = 'super' | 'user' | 'viewer';
+
+export interface User {
+  id: number;
+  name: string;
+  email: string | null;
+  role: UserRole;
+  hasPassword: boolean;
+  disabled: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserInput {
+  name: string;
+  email: string | null;
+  role: UserRole;
+  password: string;
+}
+
+// アカウントが未設定（accountsEnabled: false）の間はログイン不要
+export interface AuthSession {
+  accountsEnabled: boolean;
+  user: User | null;
+}
+
+// Trash and undoable operation log
+export interface TrashItem {
+  id: number;
+  dataSetId: number;
+  itemType: 'stack' | 'asset';
+  itemId: number;
+  stackId: number | null;
+  name: string;
+  thumbnail: string | null;
+  assetCount: number;
+  deletedAt: string;
+  expiresAt: string;
+}
+
+export type OperationType =
+  | 'stacks.remove'
+  | 'assets.remove'
+  | 'stacks.merge'
+  | 'assets.separate'
+  | 'tags.merge'
+  | 'authors.merge'
+  | 'stacks.bulk-tags'
+  | 'stacks.bulk-author'
+  | 'stacks.bulk-media-type';
+
+export interface OperationLogEntry {
+  id: number;
+  dataSetId: number;
+  userId: number | null;
+  operation: OperationType;
+  itemCount: number;
+  createdAt: string;
+  undoneAt: string | null;
+}
+
+// Annotation layer types (pen overlay)
+// 座標と線幅は画像サイズに対する比率（0..1）
+export interface AnnotationStroke {
+  points: { x: number; y: number }[];
+  color: string;
+  size: number;
+  opacity: number;
+  mode: 'draw' | 'erase';
+}
+
+export interface AnnotationLayer {
+  id: number;
+  assetId: number;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  order: number;
+  strokes: AnnotationStroke[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnnotationLayerInput {
+  id?: number;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  strokes: AnnotationStroke[];
+}
+
+export interface AssetAnnotationsResponse {
+  assetId: number;
+  layers: AnnotationLayer[];
+}
+
+// 取り込み時に抽出した EXIF / XMP / IPTC / PNG テキストチャンク
+export interface EmbeddedImageMetadata {
+  capturedAt: string | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  lensModel: string | null;
+  software: string | null;
+  artist: string | null;
+  title: string | null;
+  description: string | null;
+  exposureTime: string | null;
+  fNumber: number | null;
+  iso: number | null;
+  focalLength: number | null;
+  gps: { latitude: number; longitude: number; altitude: number | null } | null;
+  keywords: string[];
+  prompt: string | null;
+  textChunks: Record<string, string>;
+}
+
+export interface AssetEmbeddedMetadataResponse {
+  assetId: number;
+  metadata: EmbeddedImageMetadata | null;
+}
+
+// Near-duplicate (perceptual hash) types
+export interface NearDuplicateMatch {
+  assetId: number;
+  stackId: number;
+  distance: number;
+}
+
+export interface NearDuplicateGroup {
+  distance: number;
+  stacks: Stack[];
+}
+
+export interface NearDuplicateGroupsResponse {
+  groups: NearDuplicateGroup[];
+  total: number;
+  limit: number;
+  offset: number;
+  threshold: number;
+  unhashedAssets: number;
+}
+
 export interface Pin {
   id: number;
   type: PinType;
@@ -379,6 +791,7 @@ export interface StackFilter {
   authors?: string[];
   isFavorite?: boolean;
   isLiked?: boolean;
+  reading?: ReadingState;
   search?: string;
   colorFilter?: ColorFilter;
   hasNoTags?: boolean;
@@ -387,6 +800,7 @@ export interface StackFilter {
 
 export type SortField =
   | 'recommended'
+  | 'relevance'
   | 'dateAdded'
   | 'likes'
   | 'updated'
@@ -68,6 +68,10 @@ export default defineConfig(({ mode }) => {
           target: apiUrl,
           changeOrigin: true,
         },
+        '^/share/': {
+          target: apiUrl,
+          changeOrigin: true,
+        },
       },
     },
   };
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { compileSearchQuery, getSearchQueryError, SearchQuerySyntaxError } from './search-query';
+
+const syntaxError = (input: string) => {
+  try {
+    compileSearchQuery(input);
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected a syntax error for ${input}`);
+};
+
+describe('compileSearchQuery', () => {
+  it('splits field terms from free text', () => {
+    const compiled = compileSearchQuery(
+      'sunset tag:sky -tag:"work in progress" author:"Jane Doe" is:fav type:multiple'
+    );
+
+    expect(compiled.filters).toEqual({
+      tags: { include: ['sky'], exclude: ['work in progress'] },
+      author: { include: ['Jane Doe'] },
+      favorites: 'is-fav',
+      mediaTypes: ['multipleImages'],
+    });
+    expect(compiled.text).toEqual({ type: 'text', value: 'sunset', phrase: false });
+    expect(compiled.excludedText).toEqual([]);
+  });
+
+  it('keeps OR groups of words and folds OR groups of tags into includeAny', () => {
+    const compiled = compileSearchQuery('(cat | dog) "red panda" (tag:a OR tag:b) -draft');
+
+    expect(compiled.text).toEqual({
+      type: 'and',
+      operands: [
+        {
+          type: 'or',
+          operands: [
+            { type: 'text', value: 'cat', phrase: false },
+            { type: 'text', value: 'dog', phrase: false },
+          ],
+        },
+        { type: 'text', value: 'red panda', phrase: true },
+      ],
+    });
+    expect(compiled.filters.tags).toEqual({ includeAny: ['a', 'b'] });
+    expect(compiled.excludedText).toEqual([{ type: 'text', value: 'draft', phrase: false }]);
+  });
+
+  it('parses added: dates as UTC ranges', () => {
+    expect(compileSearchQuery('added:2025-02').filters.addedAt).toEqual({
+      from: '2025-02-01T00:00:00.000Z',
+      to: '2025-03-01T00:00:00.000Z',
+    });
+    expect(compileSearchQuery('added:>=2025-01-10 added:<2025').filters.addedAt).toEqual({
+      from: '2025-01-10T00:00:00.000Z',
+      to: '2025-01-01T00:00:00.000Z',
+    });
+    expect(compileSearchQuery('added:2024..2025-06').filters.addedAt).toEqual({
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2025-07-01T00:00:00.000Z',
+    });
+  });
+
+  it('collects embedded metadata conditions', () => {
+    const compiled = compileSearchQuery(
+      'taken:2024 camera:"X100V" keyword:sunset keyword:beach prompt:1girl'
+    );
+
+    expect(compiled.filters.metadata).toEqual({
+      capturedAt: { from: '2024-01-01T00:00:00.000Z', to: '2025-01-01T00:00:00.000Z' },
+      camera: ['X100V'],
+      keywords: ['sunset', 'beach'],
+      prompt: ['1girl'],
+    });
+    expect(syntaxError('-keyword:sunset').message).toBe("keyword: can't be excluded");
+  });
+
+  it('reads is:read, is:unread and is:reading as a reading state', () => {
+    expect(compileSearchQuery('is:reading').filters).toEqual({ reading: 'in-progress' });
+    expect(syntaxError('is:read is:unread').message).toBe(
+      'Only one reading state can be specified'
+    );
+  });
+
+  it('reads auto: tags and assets: count ranges', () => {
+    expect(compileSearchQuery('auto:sky -auto:people (auto:cat OR auto:dog)').filters).toEqual({
+      autoTags: { include: ['sky'], exclude: ['people'], includeAny: ['cat', 'dog'] },
+    });
+    expect(compileSearchQuery('assets:>2 assets:<=10').filters).toEqual({
+      assetCount: { min: 3, max: 10 },
+    });
+    expect(compileSearchQuery('assets:2..5').filters).toEqual({ assetCount: { min: 2, max: 5 } });
+    expect(syntaxError('assets:many').message).toMatch(/^assets:/);
+    expect(syntaxError('-assets:3').message).toBe("assets: can't be excluded; use < or > instead");
+  });
+
+  it('reads source: URLs and via: import channels', () => {
+    const compiled = compileSearchQuery(
+      'source:https://www.pixiv.net/artworks/1 (via:clipper OR via:url) via:url'
+    );
+
+    expect(compiled.filters).toEqual({
+      source: { urls: ['https://www.pixiv.net/artworks/1'], channels: ['url-import'] },
+    });
+    expect(syntaxError('via:clipper via:folder').message).toBe(
+      'via: conditions exclude every import channel'
+    );
+    expect(syntaxError('-source:pixiv.net').message).toBe("source: can't be excluded");
+  });
+
+  it('treats unknown prefixes such as URLs as text', () => {
+    const compiled = compileSearchQuery('https://example.com/a');
+    expect(compiled.filters).toEqual({});
+    expect(compiled.text).toEqual({ type: 'text', value: 'https://example.com/a', phrase: false });
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(syntaxError('tag:a (b').details).toEqual({ position: 6, length: 1 });
+    expect(syntaxError('a ) b').details).toEqual({ position: 2, length: 1 });
+    expect(syntaxError('"open phrase').details).toEqual({ position: 0, length: 12 });
+    expect(syntaxError('a OR').message).toBe('Expected a term after OR');
+    expect(syntaxError('tag: cat').details.position).toBe(0);
+    expect(syntaxError('added:yesterday').message).toMatch(/^added:/);
+    expect(syntaxError('tag:a OR is:fav').details).toEqual({ position: 6, length: 2 });
+  });
+});
+
+describe('getSearchQueryError', () => {
+  it('returns syntax errors for display', () => {
+    expect(getSearchQueryError('tag:sky (a OR b')).toEqual({
+      message: 'Missing closing parenthesis',
+      position: 8,
+      length: 1,
+    });
+    expect(getSearchQueryError('tag:sky -tag:draft "a b"')).toBeNull();
+  });
+
+  it('reports errors of field terms', () => {
+    expect(getSearchQueryError('-camera:x100v')?.message).toBe("camera: can't be excluded");
+  });
+});
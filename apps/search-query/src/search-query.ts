@@ -0,0 +1,858 @@
+/**
+ * ライブラリ検索ボックスのクエリ言語。
+ *
+ *   tag:foo -tag:bar author:"x y" is:fav media:video type:multiple color:#ff0000
+ *   added:>2025-01-01 added:2025-01..2025-03 (a OR b) "exact phrase"
+ *   taken:2024 camera:x100v keyword:sunset prompt:"1girl" is:reading
+ *   auto:sky -auto:people assets:>10 assets:2..5
+ *   source:pixiv.net via:clipper
+ *
+ * 語の並びは AND、`OR` / `|` は OR、`-` / `NOT` は除外。括弧でグループ化できる。
+ * 未知の `xxx:` は URL などを壊さないよう通常の語として扱う。
+ * クライアントの検索ボックスとサーバーの検索の両方がこのモジュールを使う。
+ */
+
+type MediaCategory = 'image' | 'comic' | 'video';
+type MediaType = 'image' | 'video' | 'multipleImages';
+type ReadingState = 'unread' | 'in-progress' | 'read';
+type AssetImportChannel = 'upload' | 'clipper' | 'url-import' | 'watched-folder';
+
+export class SearchQuerySyntaxError extends Error {
+  code = 'SEARCH_QUERY_SYNTAX' as const;
+  position: number;
+  length: number;
+
+  constructor(message: string, position: number, length = 1) {
+    super(message);
+    this.name = 'SearchQuerySyntaxError';
+    this.position = position;
+    this.length = Math.max(1, length);
+  }
+
+  get details() {
+    return { position: this.position, length: this.length };
+  }
+}
+
+/** クエリから組み立てるフィルタ。サーバーの SearchFiltersSchema のうちクエリで表せる部分 */
+export interface SearchQueryFilters {
+  tags?: { include?: string[]; includeAny?: string[]; exclude?: string[]; includeNotSet?: boolean };
+  author?: {
+    include?: string[];
+    includeAny?: string[];
+    exclude?: string[];
+    includeNotSet?: boolean;
+  };
+  favorites?: 'is-fav' | 'not-fav';
+  likes?: 'is-liked' | 'not-liked';
+  reading?: ReadingState;
+  mediaCategory?: MediaCategory;
+  mediaTypes?: MediaType[];
+  color?: { hex?: string };
+  autoTags?: { include?: string[]; includeAny?: string[]; exclude?: string[]; minScore?: number };
+  assetCount?: { min?: number; max?: number };
+  addedAt?: { from?: string; to?: string };
+  metadata?: {
+    capturedAt?: { from?: string; to?: string };
+    camera?: string[];
+    keywords?: string[];
+    prompt?: string[];
+  };
+  source?: { urls?: string[]; channels?: AssetImportChannel[] };
+}
+
+export const SEARCH_QUERY_FIELDS = [
+  'tag',
+  'author',
+  'is',
+  'media',
+  'type',
+  'color',
+  'added',
+  'taken',
+  'camera',
+  'keyword',
+  'prompt',
+  'auto',
+  'assets',
+  'source',
+  'via',
+] as const;
+export type SearchQueryField = (typeof SEARCH_QUERY_FIELDS)[number];
+
+const SEARCH_QUERY_FIELD_SET = new Set<string>(SEARCH_QUERY_FIELDS);
+
+export type SearchQueryNode =
+  | {
+      type: 'term';
+      field: SearchQueryField | null;
+      value: string;
+      quoted: boolean;
+      position: number;
+      length: number;
+    }
+  | { type: 'not'; operand: SearchQueryNode; position: number }
+  | { type: 'and'; operands: SearchQueryNode[] }
+  | { type: 'or'; operands: SearchQueryNode[]; position: number };
+
+type SearchQueryTerm = Extract<SearchQueryNode, { type: 'term' }>;
+
+export type SearchTextNode =
+  | { type: 'text'; value: string; phrase: boolean }
+  | { type: 'and' | 'or'; operands: SearchTextNode[] };
+
+export interface CompiledSearchQuery {
+  filters: SearchQueryFilters;
+  text: SearchTextNode | null;
+  excludedText: SearchTextNode[];
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; position: number; length: number }
+  | ({ kind: 'term' } & Omit<SearchQueryTerm, 'type'>);
+
+const isSpace = (char: string) => /\s/.test(char);
+const isWordBoundary = (char: string) => isSpace(char) || char === '(' || char === ')';
+
+const readQuoted = (input: string, start: number) => {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) {
+    throw new SearchQuerySyntaxError('Unterminated quote', start, input.length - start);
+  }
+  return { value: input.slice(start + 1, end), end: end + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (isSpace(char)) {
+      index++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: index, length: 1 });
+      index++;
+      continue;
+    }
+    if (char === '|') {
+      tokens.push({ kind: 'or', position: index, length: 1 });
+      index++;
+      continue;
+    }
+    if (char === '-') {
+      const next = input[index + 1];
+      if (next === undefined || isSpace(next) || next === ')') {
+        throw new SearchQuerySyntaxError("Nothing to exclude after '-'", index);
+      }
+      tokens.push({ kind: 'not', position: index, length: 1 });
+      index++;
+      continue;
+    }
+    if (char === '"') {
+      const quoted = readQuoted(input, index);
+      tokens.push({
+        kind: 'term',
+        field: null,
+        value: quoted.value,
+        quoted: true,
+        position: index,
+        length: quoted.end - index,
+      });
+      index = quoted.end;
+      continue;
+    }
+
+    const start = index;
+    while (index < input.length && !isWordBoundary(input[index]) && input[index] !== '"') {
+      index++;
+    }
+    const word = input.slice(start, index);
+
+    if (word === 'OR' || word === 'AND' || word === 'NOT') {
+      tokens.push({
+        kind: word === 'OR' ? 'or' : word === 'AND' ? 'and' : 'not',
+        position: start,
+        length: word.length,
+      });
+      continue;
+    }
+
+    const colon = word.indexOf(':');
+    const fieldName = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+    if (!SEARCH_QUERY_FIELD_SET.has(fieldName)) {
+      // foo"bar" のような語は引用符の手前で区切る
+      tokens.push({
+        kind: 'term',
+        field: null,
+        value: word,
+        quoted: false,
+        position: start,
+        length: word.length,
+      });
+      continue;
+    }
+
+    const field = fieldName as SearchQueryField;
+    let value = word.slice(colon + 1);
+    let quoted = false;
+    if (value.length === 0 && input[index] === '"') {
+      const quotedValue = readQuoted(input, index);
+      value = quotedValue.value;
+      quoted = true;
+      index = quotedValue.end;
+    }
+    if (value.trim().length === 0) {
+      throw new SearchQuerySyntaxError(`Missing value for ${field}:`, start, index - start);
+    }
+    tokens.push({ kind: 'term', field, value, quoted, position: start, length: index - start });
+  }
+
+  return tokens;
+};
+
+class SearchQueryParser {
+  private index = 0;
+
+  constructor(
+    private tokens: Token[],
+    private inputLength: number
+  ) {}
+
+  parse() {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseOr();
+    const rest = this.peek();
+    if (rest) {
+      throw new SearchQuerySyntaxError(
+        rest.kind === 'rparen' ? "Unexpected ')'" : 'Unexpected token',
+        rest.position,
+        rest.length
+      );
+    }
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): SearchQueryNode {
+    const first = this.parseAnd();
+    const operands = [first];
+    let position = -1;
+    while (this.peek()?.kind === 'or') {
+      const orToken = this.tokens[this.index++];
+      if (position === -1) position = orToken.position;
+      const next = this.peek();
+      if (!next || next.kind === 'rparen' || next.kind === 'or') {
+        throw new SearchQuerySyntaxError(
+          'Expected a term after OR',
+          orToken.position,
+          orToken.length
+        );
+      }
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? first : { type: 'or', operands, position };
+  }
+
+  private parseAnd(): SearchQueryNode {
+    const operands: SearchQueryNode[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.kind === 'rparen' || token.kind === 'or') break;
+      if (token.kind === 'and') {
+        this.index++;
+        const next = this.peek();
+        if (operands.length === 0 || !next || next.kind === 'rparen' || next.kind === 'or') {
+          throw new SearchQuerySyntaxError(
+            'Expected a term around AND',
+            token.position,
+            token.length
+          );
+        }
+        continue;
+      }
+      operands.push(this.parseUnary());
+    }
+
+    if (operands.length === 0) {
+      const token = this.peek();
+      if (token?.kind === 'or') {
+        throw new SearchQuerySyntaxError('Expected a term before OR', token.position, token.length);
+      }
+      throw new SearchQuerySyntaxError(
+        'Expected a search term',
+        token?.position ?? this.inputLength,
+        token?.length ?? 1
+      );
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseUnary(): SearchQueryNode {
+    const token = this.peek();
+    if (token?.kind === 'not') {
+      this.index++;
+      const next = this.peek();
+      if (!next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+        throw new SearchQuerySyntaxError(
+          'Expected a term to exclude',
+          token.position,
+          token.length
+        );
+      }
+      return { type: 'not', operand: this.parseUnary(), position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SearchQueryNode {
+    const token = this.tokens[this.index++];
+    if (token.kind === 'term') {
+      const { kind: _kind, ...term } = token;
+      return { type: 'term', ...term };
+    }
+    if (token.kind === 'lparen') {
+      if (this.peek()?.kind === 'rparen') {
+        throw new SearchQuerySyntaxError('Empty group', token.position, 2);
+      }
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') {
+        throw new SearchQuerySyntaxError('Missing closing parenthesis', token.position);
+      }
+      this.index++;
+      return node;
+    }
+    throw new SearchQuerySyntaxError("Unexpected ')'", token.position, token.length);
+  }
+}
+
+/** クエリ文字列を構文木にする。空のクエリは null。構文エラーは SearchQuerySyntaxError。 */
+export const parseSearchQuery = (input: string | undefined | null): SearchQueryNode | null => {
+  if (!input?.trim()) return null;
+  return new SearchQueryParser(tokenize(input), input.length).parse();
+};
+
+const MEDIA_CATEGORY_VALUES: Record<string, MediaCategory> = {
+  image: 'image',
+  images: 'image',
+  comic: 'comic',
+  comics: 'comic',
+  video: 'video',
+  videos: 'video',
+};
+
+const MEDIA_TYPE_VALUES: Record<string, MediaType> = {
+  image: 'image',
+  single: 'image',
+  video: 'video',
+  multiple: 'multipleImages',
+  multi: 'multipleImages',
+  multipleimages: 'multipleImages',
+};
+
+const ALL_MEDIA_TYPES: MediaType[] = ['image', 'video', 'multipleImages'];
+
+const READING_STATE_VALUES: Record<string, ReadingState> = {
+  read: 'read',
+  unread: 'unread',
+  reading: 'in-progress',
+};
+
+const IMPORT_CHANNEL_VALUES: Record<string, AssetImportChannel> = {
+  upload: 'upload',
+  uploaded: 'upload',
+  clipper: 'clipper',
+  clip: 'clipper',
+  extension: 'clipper',
+  url: 'url-import',
+  'url-import': 'url-import',
+  folder: 'watched-folder',
+  watched: 'watched-folder',
+  'watched-folder': 'watched-folder',
+};
+
+const fail = (message: string, term: { position: number; length?: number }): never => {
+  throw new SearchQuerySyntaxError(message, term.position, term.length ?? 1);
+};
+
+const parseDateRange = (value: string) => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 1 || month > 12)) return null;
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1));
+  if (day !== null && start.getUTCDate() !== day) return null;
+  const end = new Date(start);
+  if (day !== null) end.setUTCDate(end.getUTCDate() + 1);
+  else if (month !== null) end.setUTCMonth(end.getUTCMonth() + 1);
+  else end.setUTCFullYear(end.getUTCFullYear() + 1);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+const parseDateRangeValue = (term: SearchQueryTerm) => {
+  const value = term.value.trim();
+  const invalid = () =>
+    fail(
+      `${term.field}: expects a date like 2025-01-01, >2025-01, <=2025 or 2025-01..2025-03`,
+      term
+    );
+
+  const rangeIndex = value.indexOf('..');
+  if (rangeIndex !== -1) {
+    const fromText = value.slice(0, rangeIndex);
+    const toText = value.slice(rangeIndex + 2);
+    const from = fromText ? parseDateRange(fromText) : null;
+    const to = toText ? parseDateRange(toText) : null;
+    if ((fromText && !from) || (toText && !to) || (!from && !to)) return invalid();
+    return { from: from?.start, to: to?.end };
+  }
+
+  const operator = /^(>=|<=|>|<|=)?(.*)$/.exec(value);
+  const range = parseDateRange(operator?.[2] ?? '');
+  if (!range) return invalid();
+  switch (operator?.[1]) {
+    case '>':
+      return { from: range.end };
+    case '>=':
+      return { from: range.start };
+    case '<':
+      return { to: range.start };
+    case '<=':
+      return { to: range.end };
+    default:
+      return { from: range.start, to: range.end };
+  }
+};
+
+const intersectDateRanges = (
+  current: { from?: string; to?: string } | undefined,
+  range: { from?: string; to?: string }
+) => {
+  const from =
+    current?.from && range.from
+      ? [current.from, range.from].sort().at(-1)
+      : (range.from ?? current?.from);
+  const to = current?.to && range.to ? [current.to, range.to].sort()[0] : (range.to ?? current?.to);
+  return { from, to };
+};
+
+const parseCount = (value: string) => (/^\d+$/.test(value) ? Number(value) : null);
+
+// assets: の値。範囲は両端を含む
+const parseCountRangeValue = (term: SearchQueryTerm) => {
+  const value = term.value.trim();
+  const invalid = () => fail('assets: expects a count like 3, >3, <=10 or 2..5', term);
+
+  const rangeIndex = value.indexOf('..');
+  if (rangeIndex !== -1) {
+    const fromText = value.slice(0, rangeIndex);
+    const toText = value.slice(rangeIndex + 2);
+    const min = fromText ? parseCount(fromText) : null;
+    const max = toText ? parseCount(toText) : null;
+    if ((fromText && min === null) || (toText && max === null) || (min === null && max === null)) {
+      return invalid();
+    }
+    return { min: min ?? undefined, max: max ?? undefined };
+  }
+
+  const operator = /^(>=|<=|>|<|=)?(.*)$/.exec(value);
+  const count = parseCount(operator?.[2] ?? '');
+  if (count === null) return invalid();
+  switch (operator?.[1]) {
+    case '>':
+      return { min: count + 1 };
+    case '>=':
+      return { min: count };
+    case '<':
+      return count === 0 ? invalid() : { max: count - 1 };
+    case '<=':
+      return { max: count };
+    default:
+      return { min: count, max: count };
+  }
+};
+
+const intersectCountRanges = (
+  current: { min?: number; max?: number } | undefined,
+  range: { min?: number; max?: number }
+) => ({
+  min:
+    current?.min !== undefined && range.min !== undefined
+      ? Math.max(current.min, range.min)
+      : (range.min ?? current?.min),
+  max:
+    current?.max !== undefined && range.max !== undefined
+      ? Math.min(current.max, range.max)
+      : (range.max ?? current?.max),
+});
+
+const METADATA_FILTER_KEYS = {
+  camera: 'camera',
+  keyword: 'keywords',
+  prompt: 'prompt',
+} as const;
+
+const parseColorValue = (term: SearchQueryTerm) => {
+  const value = term.value.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{6}$/i.test(value)) return `#${value.toLowerCase()}`;
+  if (/^[0-9a-f]{3}$/i.test(value)) {
+    return `#${[...value.toLowerCase()].map((char) => char + char).join('')}`;
+  }
+  return fail('color: expects a hex color like #ff0000', term);
+};
+
+const isTextOnly = (node: SearchQueryNode): boolean => {
+  if (node.type === 'term') return node.field === null;
+  if (node.type === 'not') return false;
+  return node.operands.every(isTextOnly);
+};
+
+const toTextNode = (node: SearchQueryNode): SearchTextNode => {
+  if (node.type === 'term') return { type: 'text', value: node.value, phrase: node.quoted };
+  if (node.type === 'not') throw new Error('Negated nodes are not text');
+  return { type: node.type, operands: node.operands.map(toTextNode) };
+};
+
+const flatten = (node: SearchQueryNode, type: 'and' | 'or'): SearchQueryNode[] =>
+  node.type === type ? node.operands.flatMap((operand) => flatten(operand, type)) : [node];
+
+class SearchQueryCompiler {
+  private filters: SearchQueryFilters = {};
+  private textOperands: SearchTextNode[] = [];
+  private excludedText: SearchTextNode[] = [];
+  private mediaTypes: MediaType[] | null = null;
+  private importChannels: AssetImportChannel[] | null = null;
+
+  compile(root: SearchQueryNode): CompiledSearchQuery {
+    for (const clause of flatten(root, 'and')) {
+      this.compileClause(clause);
+    }
+    if (this.mediaTypes) this.filters.mediaTypes = this.mediaTypes;
+    if (this.importChannels) {
+      this.filters.source = { ...this.filters.source, channels: this.importChannels };
+    }
+
+    return {
+      filters: this.filters,
+      text:
+        this.textOperands.length === 0
+          ? null
+          : this.textOperands.length === 1
+            ? this.textOperands[0]
+            : { type: 'and', operands: this.textOperands },
+      excludedText: this.excludedText,
+    };
+  }
+
+  private compileClause(node: SearchQueryNode) {
+    if (node.type === 'term') {
+      if (node.field === null) this.textOperands.push(toTextNode(node));
+      else this.applyTerm(node, false);
+      return;
+    }
+    if (node.type === 'not') {
+      this.compileNegation(node);
+      return;
+    }
+    if (node.type === 'and') {
+      for (const clause of flatten(node, 'and')) this.compileClause(clause);
+      return;
+    }
+    this.compileOr(node);
+  }
+
+  private compileNegation(node: Extract<SearchQueryNode, { type: 'not' }>) {
+    const operand = node.operand;
+    if (isTextOnly(operand)) {
+      this.excludedText.push(toTextNode(operand));
+      return;
+    }
+    // -(tag:a OR tag:b) は -tag:a -tag:b と同じ
+    for (const alternative of flatten(operand, 'or')) {
+      if (alternative.type !== 'term') {
+        fail('Only words and single conditions can be excluded', { position: node.position });
+        return;
+      }
+      if (alternative.field === null) {
+        this.excludedText.push(toTextNode(alternative));
+      } else {
+        this.applyTerm(alternative, true);
+      }
+    }
+  }
+
+  private compileOr(node: Extract<SearchQueryNode, { type: 'or' }>) {
+    const alternatives = flatten(node, 'or');
+    if (alternatives.every(isTextOnly)) {
+      this.textOperands.push({ type: 'or', operands: alternatives.map(toTextNode) });
+      return;
+    }
+
+    const fields = new Set(
+      alternatives.map((alternative) => (alternative.type === 'term' ? alternative.field : null))
+    );
+    const [field] = [...fields];
+    if (fields.size !== 1 || field === null || field === undefined) {
+      fail('OR can only combine words, or conditions on the same field', {
+        position: node.position,
+        length: 2,
+      });
+      return;
+    }
+    const terms = alternatives as SearchQueryTerm[];
+
+    switch (field) {
+      case 'tag': {
+        if (this.filters.tags?.includeAny) {
+          fail('Only one OR group of tags is supported', terms[0]);
+        }
+        this.filters.tags = {
+          ...this.filters.tags,
+          includeAny: terms.map((term) => term.value.trim()),
+        };
+        return;
+      }
+      case 'author': {
+        if (this.filters.author?.includeAny) {
+          fail('Only one OR group of authors is supported', terms[0]);
+        }
+        this.filters.author = {
+          ...this.filters.author,
+          includeAny: terms.map((term) => term.value.trim()),
+        };
+        return;
+      }
+      case 'auto': {
+        if (this.filters.autoTags?.includeAny) {
+          fail('Only one OR group of auto tags is supported', terms[0]);
+        }
+        this.filters.autoTags = {
+          ...this.filters.autoTags,
+          includeAny: terms.map((term) => term.value.trim()),
+        };
+        return;
+      }
+      case 'type': {
+        const values = terms.map((term) => this.readMediaType(term));
+        this.narrowMediaTypes(values, terms[0]);
+        return;
+      }
+      case 'via': {
+        const values = terms.map((term) => this.readImportChannel(term));
+        this.narrowImportChannels(values, terms[0]);
+        return;
+      }
+      default:
+        fail(`${field}: can't be combined with OR`, { position: node.position, length: 2 });
+    }
+  }
+
+  private applyTerm(term: SearchQueryTerm, negated: boolean) {
+    const value = term.value.trim();
+    switch (term.field) {
+      case 'tag': {
+        const tags = { ...this.filters.tags };
+        const key = negated ? 'exclude' : 'include';
+        tags[key] = [...(tags[key] ?? []), value];
+        this.filters.tags = tags;
+        return;
+      }
+      case 'auto': {
+        const autoTags = { ...this.filters.autoTags };
+        const key = negated ? 'exclude' : 'include';
+        autoTags[key] = [...(autoTags[key] ?? []), value];
+        this.filters.autoTags = autoTags;
+        return;
+      }
+      case 'assets': {
+        if (negated) fail("assets: can't be excluded; use < or > instead", term);
+        this.filters.assetCount = intersectCountRanges(
+          this.filters.assetCount,
+          parseCountRangeValue(term)
+        );
+        return;
+      }
+      case 'author': {
+        const author = { ...this.filters.author };
+        if (negated) {
+          author.exclude = [...(author.exclude ?? []), value];
+        } else {
+          if (author.include?.length && !author.include.includes(value)) {
+            fail('A stack has only one author; combine authors with OR', term);
+          }
+          author.include = [value];
+        }
+        this.filters.author = author;
+        return;
+      }
+      case 'is':
+        this.applyIs(term, negated);
+        return;
+      case 'media': {
+        if (negated) fail("media: can't be excluded; use -type: instead", term);
+        const category = MEDIA_CATEGORY_VALUES[value.toLowerCase()];
+        if (!category) fail('media: expects image, comic or video', term);
+        if (this.filters.mediaCategory && this.filters.mediaCategory !== category) {
+          fail('Only one media: condition is supported', term);
+        }
+        this.filters.mediaCategory = category;
+        return;
+      }
+      case 'type': {
+        const mediaType = this.readMediaType(term);
+        this.narrowMediaTypes(
+          negated ? ALL_MEDIA_TYPES.filter((type) => type !== mediaType) : [mediaType],
+          term
+        );
+        return;
+      }
+      case 'color': {
+        if (negated) fail("color: can't be excluded", term);
+        const hex = parseColorValue(term);
+        if (this.filters.color?.hex && this.filters.color.hex !== hex) {
+          fail('Only one color: condition is supported', term);
+        }
+        this.filters.color = { ...this.filters.color, hex };
+        return;
+      }
+      case 'added': {
+        if (negated) fail("added: can't be excluded; use < or > instead", term);
+        this.filters.addedAt = intersectDateRanges(this.filters.addedAt, parseDateRangeValue(term));
+        return;
+      }
+      case 'taken': {
+        if (negated) fail("taken: can't be excluded; use < or > instead", term);
+        const metadata = this.filters.metadata ?? {};
+        this.filters.metadata = {
+          ...metadata,
+          capturedAt: intersectDateRanges(metadata.capturedAt, parseDateRangeValue(term)),
+        };
+        return;
+      }
+      case 'camera':
+      case 'keyword':
+      case 'prompt': {
+        if (negated) fail(`${term.field}: can't be excluded`, term);
+        const key = METADATA_FILTER_KEYS[term.field];
+        const metadata = { ...this.filters.metadata };
+        metadata[key] = [...(metadata[key] ?? []), value];
+        this.filters.metadata = metadata;
+        return;
+      }
+      case 'source': {
+        if (negated) fail("source: can't be excluded", term);
+        const source = { ...this.filters.source };
+        source.urls = [...(source.urls ?? []), value];
+        this.filters.source = source;
+        return;
+      }
+      case 'via': {
+        if (negated) fail("via: can't be excluded", term);
+        this.narrowImportChannels([this.readImportChannel(term)], term);
+        return;
+      }
+    }
+  }
+
+  private applyIs(term: SearchQueryTerm, negated: boolean) {
+    switch (term.value.trim().toLowerCase()) {
+      case 'fav':
+      case 'favs':
+      case 'favorite':
+      case 'favorites':
+      case 'favorited':
+        this.filters.favorites = negated ? 'not-fav' : 'is-fav';
+        return;
+      case 'liked':
+      case 'like':
+        this.filters.likes = negated ? 'not-liked' : 'is-liked';
+        return;
+      case 'read':
+      case 'unread':
+      case 'reading': {
+        const reading = READING_STATE_VALUES[term.value.trim().toLowerCase()];
+        if (negated) fail("is:read, is:unread and is:reading can't be excluded", term);
+        if (this.filters.reading && this.filters.reading !== reading) {
+          fail('Only one reading state can be specified', term);
+        }
+        this.filters.reading = reading;
+        return;
+      }
+      case 'untagged':
+        if (negated) fail("is:untagged can't be excluded", term);
+        this.filters.tags = { ...this.filters.tags, includeNotSet: true };
+        return;
+      case 'unauthored':
+      case 'noauthor':
+        if (negated) fail("is:unauthored can't be excluded", term);
+        this.filters.author = { ...this.filters.author, includeNotSet: true };
+        return;
+      default:
+        fail('is: expects fav, liked, read, unread, reading, untagged or unauthored', term);
+    }
+  }
+
+  private readMediaType(term: SearchQueryTerm) {
+    const mediaType = MEDIA_TYPE_VALUES[term.value.trim().toLowerCase()];
+    if (!mediaType) fail('type: expects image, video or multiple', term);
+    return mediaType;
+  }
+
+  private readImportChannel(term: SearchQueryTerm) {
+    const channel = IMPORT_CHANNEL_VALUES[term.value.trim().toLowerCase()];
+    if (!channel) fail('via: expects upload, clipper, url or folder', term);
+    return channel;
+  }
+
+  private narrowImportChannels(
+    values: AssetImportChannel[],
+    term: { position: number; length?: number }
+  ) {
+    const next = this.importChannels
+      ? this.importChannels.filter((channel) => values.includes(channel))
+      : values;
+    if (next.length === 0) fail('via: conditions exclude every import channel', term);
+    this.importChannels = next;
+  }
+
+  private narrowMediaTypes(values: MediaType[], term: { position: number; length?: number }) {
+    const current = this.mediaTypes ?? ALL_MEDIA_TYPES;
+    const next = ALL_MEDIA_TYPES.filter((type) => current.includes(type) && values.includes(type));
+    if (next.length === 0) fail('type: conditions exclude every media type', term);
+    this.mediaTypes = next;
+  }
+}
+
+/** クエリ文字列を SearchFiltersSchema 相当のフィルタと全文検索の語に分解する。 */
+export const compileSearchQuery = (input: string | undefined | null): CompiledSearchQuery => {
+  const root = parseSearchQuery(input);
+  if (!root) return { filters: {}, text: null, excludedText: [] };
+  return new SearchQueryCompiler().compile(root);
+};
+
+/** 構文エラーを画面表示用に返す。正しいクエリなら null。 */
+export const getSearchQueryError = (input: string | undefined | null) => {
+  try {
+    compileSearchQuery(input);
+    return null;
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) {
+      return { message: error.message, position: error.position, length: error.length };
+    }
+    throw error;
+  }
+};
+
+/** 他の条件と並べても意味が変わらないよう、トップレベルの OR を括弧で囲む。 */
+export const groupSearchQuery = (search: string) => {
+  const root = parseSearchQuery(search);
+  return root?.type === 'or' ? `(${search})` : search;
+};
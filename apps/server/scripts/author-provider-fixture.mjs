@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+
+// 作者プロフィール取得を手元で試すための固定データサーバー。
+// CARAMEL_AUTHOR_PROVIDER_URL=http://127.0.0.1:5055 を指定してサーバーを起動する。
+//   node scripts/author-provider-fixture.mjs [--port=5055] [--fixtures=path/to/fixtures.json]
+// fixtures.json は { "<provider>:<id>": { "profile": {...}, "works": [...] } } の形式
+
+import fs from 'node:fs';
+import http from 'node:http';
+
+const args = process.argv.slice(2);
+const getArgValue = (name) => {
+  const prefix = `--${name}=`;
+  const match = args.find((arg) => arg.startsWith(prefix));
+  return match ? match.slice(prefix.length) : undefined;
+};
+
+const port = Number(getArgValue('port') ?? 5055);
+const fixturesPath = getArgValue('fixtures');
+const fixtures = fixturesPath ? JSON.parse(fs.readFileSync(fixturesPath, 'utf8')) : null;
+
+// 固定データが無いアカウントには、ID から作ったサンプルを返す
+const sampleEntry = (provider, id) => ({
+  profile: {
+    name: `${id} (${provider})`,
+    avatarUrl: null,
+    description: `Sample profile for ${provider}:${id}`,
+  },
+  works: [1, 2, 3].map((n) => ({
+    id: `${id}-${n}`,
+    title: `Sample work ${n}`,
+    thumbnailUrl: `https://picsum.photos/seed/${encodeURIComponent(`${id}-${n}`)}/320/320`,
+    mediaUrls: [`https://picsum.photos/seed/${encodeURIComponent(`${id}-${n}`)}/1200/1200`],
+    publishedAt: new Date(Date.UTC(2026, 0, n)).toISOString(),
+  })),
+});
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const [provider, resource] = url.pathname.split('/').filter(Boolean);
+  const id = url.searchParams.get('id');
+  if (!provider || !id || (resource !== 'profile' && resource !== 'works')) {
+    res.writeHead(404, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+  const entry = fixtures ? fixtures[`${provider}:${id}`] : sampleEntry(provider, id);
+  if (!entry) {
+    res.writeHead(404, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Unknown account' }));
+    return;
+  }
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(resource === 'profile' ? entry.profile : { works: entry.works ?? [] }));
+});
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`[author-provider-fixture] listening on http://127.0.0.1:${port}`);
+});
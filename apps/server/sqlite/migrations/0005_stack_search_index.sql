@@ -0,0 +1,57 @@
+-- title: Add stack full-text search index
+
+CREATE VIRTUAL TABLE IF NOT EXISTS stack_search USING fts5(
+  dataset_id UNINDEXED,
+  name,
+  author,
+  author_links,
+  tags,
+  auto_tags,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER IF NOT EXISTS trg_stacks_search_delete
+AFTER DELETE ON stacks
+BEGIN
+  DELETE FROM stack_search WHERE rowid = old.id;
+END;
+
+INSERT INTO stack_search (rowid, dataset_id, name, author, author_links, tags, auto_tags)
+SELECT
+  s.id,
+  s.dataset_id,
+  s.name,
+  COALESCE(a.name, ''),
+  COALESCE(
+    (
+      SELECT group_concat(COALESCE(al.external_id, '') || ' ' || al.url, ' ')
+      FROM author_links al
+      WHERE al.author_id = s.author_id
+    ),
+    ''
+  ),
+  COALESCE(
+    (
+      SELECT group_concat(t.title, ' ')
+      FROM stack_tags st
+      JOIN tags t ON t.id = st.tag_id
+      WHERE st.stack_id = s.id
+    ),
+    ''
+  ),
+  COALESCE(
+    (
+      SELECT group_concat(scores.tag_key || ' ' || COALESCE(m.display_name, ''), ' ')
+      FROM stack_auto_tag_scores scores
+      LEFT JOIN auto_tag_mappings m
+        ON m.dataset_id = s.dataset_id
+       AND m.is_active = 1
+       AND m.auto_tag_key = scores.tag_key COLLATE NOCASE
+      WHERE scores.stack_id = s.id
+        AND scores.score >= 0.4
+    ),
+    ''
+  )
+FROM stacks s
+LEFT JOIN authors a ON a.id = s.author_id;
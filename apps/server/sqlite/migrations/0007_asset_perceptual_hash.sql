@@ -0,0 +1,20 @@
+-- title: Add asset perceptual hashes
+
+ALTER TABLE assets ADD COLUMN phash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_assets_phash ON assets(phash);
+
+CREATE TABLE IF NOT EXISTS near_duplicate_dismissals (
+  dataset_id INTEGER NOT NULL,
+  stack_id_a INTEGER NOT NULL,
+  stack_id_b INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (stack_id_a, stack_id_b),
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id_a) REFERENCES stacks(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id_b) REFERENCES stacks(id) ON DELETE CASCADE,
+  CHECK (stack_id_a < stack_id_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_near_duplicate_dismissals_dataset
+  ON near_duplicate_dismissals(dataset_id);
@@ -0,0 +1,17 @@
+-- title: Add asset annotation layers
+
+CREATE TABLE IF NOT EXISTS asset_annotation_layers (
+  id INTEGER PRIMARY KEY,
+  asset_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  visible INTEGER NOT NULL DEFAULT 1 CHECK (visible IN (0, 1)),
+  opacity REAL NOT NULL DEFAULT 1 CHECK (opacity >= 0 AND opacity <= 1),
+  order_index INTEGER NOT NULL DEFAULT 0,
+  strokes_json TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_annotation_layers_asset
+  ON asset_annotation_layers(asset_id, order_index, id);
@@ -0,0 +1,22 @@
+-- title: Add image embeddings for visual similarity
+
+CREATE TABLE IF NOT EXISTS asset_embeddings (
+  asset_id INTEGER PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS stack_embeddings (
+  stack_id INTEGER PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  asset_count INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (stack_id) REFERENCES stacks(id) ON DELETE CASCADE
+);
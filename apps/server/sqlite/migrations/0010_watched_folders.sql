@@ -0,0 +1,37 @@
+-- title: Add watched folders for automatic ingest
+
+CREATE TABLE IF NOT EXISTS watched_folders (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  path TEXT NOT NULL,
+  grouping_mode TEXT NOT NULL DEFAULT 'single-stack'
+    CHECK (grouping_mode IN ('single-stack', 'create-collection', 'flat-upload')),
+  media_type TEXT CHECK (media_type IN ('image', 'comic', 'video')),
+  tags_json TEXT NOT NULL DEFAULT '[]',
+  author TEXT,
+  collection_id INTEGER,
+  after_import TEXT NOT NULL DEFAULT 'move' CHECK (after_import IN ('move', 'keep')),
+  processed_path TEXT,
+  settle_seconds INTEGER NOT NULL DEFAULT 5,
+  is_enabled INTEGER NOT NULL DEFAULT 1 CHECK (is_enabled IN (0, 1)),
+  last_scan_at TEXT,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE SET NULL,
+  UNIQUE (path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watched_folders_dataset ON watched_folders(dataset_id);
+
+-- 取り込み後もファイルを残す設定のときに、取り込み済みのファイルを覚えておく
+CREATE TABLE IF NOT EXISTS watched_folder_files (
+  watched_folder_id INTEGER NOT NULL,
+  relative_path TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  mtime_ms INTEGER NOT NULL,
+  imported_at TEXT NOT NULL,
+  PRIMARY KEY (watched_folder_id, relative_path),
+  FOREIGN KEY (watched_folder_id) REFERENCES watched_folders(id) ON DELETE CASCADE
+);
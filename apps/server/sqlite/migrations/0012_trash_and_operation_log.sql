@@ -0,0 +1,38 @@
+-- title: Add trash and operation log
+
+-- 削除したスタック・アセットは行のスナップショットとして保持期間まで残す
+CREATE TABLE IF NOT EXISTS trash_items (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN ('stack', 'asset')),
+  item_id INTEGER NOT NULL,
+  stack_id INTEGER,
+  name TEXT NOT NULL,
+  thumbnail TEXT,
+  asset_count INTEGER NOT NULL DEFAULT 0,
+  snapshot_json TEXT NOT NULL,
+  deleted_by INTEGER,
+  deleted_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (deleted_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trash_items_dataset ON trash_items(dataset_id, deleted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trash_items_expires ON trash_items(expires_at);
+
+-- 取り消し可能な操作の履歴（undo_json に元に戻すためのデータを持つ）
+CREATE TABLE IF NOT EXISTS operation_logs (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  user_id INTEGER,
+  operation TEXT NOT NULL,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  undo_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  undone_at TEXT,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_logs_dataset ON operation_logs(dataset_id, id DESC);
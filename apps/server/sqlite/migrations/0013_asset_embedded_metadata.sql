@@ -0,0 +1,17 @@
+-- title: Add embedded image metadata
+
+-- EXIF / XMP / IPTC / PNG テキストチャンクから取り込み時に抽出した値。検索に使う列だけ分けて持つ
+CREATE TABLE IF NOT EXISTS asset_metadata (
+  asset_id INTEGER PRIMARY KEY,
+  captured_at TEXT,
+  camera_make TEXT,
+  camera_model TEXT,
+  keywords_json TEXT NOT NULL DEFAULT '[]',
+  prompt TEXT,
+  metadata_json TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_metadata_captured_at ON asset_metadata(captured_at);
@@ -0,0 +1,18 @@
+-- title: Add reading progress
+
+-- ユーザーごとのスタックの読書位置。page は stack 内のアセット順（0 始まり）
+CREATE TABLE IF NOT EXISTS reading_progress (
+  id INTEGER PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  stack_id INTEGER NOT NULL,
+  page INTEGER NOT NULL DEFAULT 0,
+  page_count INTEGER NOT NULL DEFAULT 0,
+  completed_at TEXT,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id) REFERENCES stacks(id) ON DELETE CASCADE,
+  UNIQUE (user_id, stack_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reading_progress_user_updated ON reading_progress(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reading_progress_stack ON reading_progress(stack_id);
@@ -0,0 +1,48 @@
+-- title: Add tag categories, aliases and implications
+
+CREATE TABLE IF NOT EXISTS tag_categories (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  name TEXT NOT NULL COLLATE NOCASE,
+  color TEXT NOT NULL DEFAULT '#94a3b8',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  UNIQUE (dataset_id, name)
+);
+
+ALTER TABLE tags
+  ADD COLUMN category_id INTEGER REFERENCES tag_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tags_category ON tags(category_id);
+
+-- 入力された別名を正規のタグに読み替える
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  alias TEXT NOT NULL COLLATE NOCASE,
+  tag_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE,
+  UNIQUE (dataset_id, alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_aliases_tag ON tag_aliases(tag_id);
+
+-- tag_id が付いたスタックには implied_tag_id も付ける（子 → 親）
+CREATE TABLE IF NOT EXISTS tag_implications (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  tag_id INTEGER NOT NULL,
+  implied_tag_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE,
+  FOREIGN KEY (implied_tag_id) REFERENCES tags(id) ON DELETE CASCADE,
+  UNIQUE (tag_id, implied_tag_id),
+  CHECK (tag_id <> implied_tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_implications_implied ON tag_implications(implied_tag_id);
@@ -0,0 +1,30 @@
+-- title: Add automation rules for incoming stacks
+
+-- 条件と動作は JSON で持つ（形は AutomationRuleModel の zod スキーマで検証する）
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  match_mode TEXT NOT NULL DEFAULT 'all' CHECK (match_mode IN ('all', 'any')),
+  conditions_json TEXT NOT NULL DEFAULT '[]',
+  actions_json TEXT NOT NULL DEFAULT '[]',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_enabled INTEGER NOT NULL DEFAULT 1 CHECK (is_enabled IN (0, 1)),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_dataset ON automation_rules(dataset_id, sort_order);
+
+-- 自動実行は 1 スタックにつき 1 回だけ。手で外したタグを付け直さないようにする
+CREATE TABLE IF NOT EXISTS automation_rule_runs (
+  rule_id INTEGER NOT NULL,
+  stack_id INTEGER NOT NULL,
+  applied_at TEXT NOT NULL,
+  PRIMARY KEY (rule_id, stack_id),
+  FOREIGN KEY (rule_id) REFERENCES automation_rules(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id) REFERENCES stacks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rule_runs_stack ON automation_rule_runs(stack_id);
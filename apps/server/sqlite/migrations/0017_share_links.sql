@@ -0,0 +1,25 @@
+-- title: Add read-only share links for collections and stacks
+
+-- トークンは設定画面から再びコピーできるよう、そのまま保存する
+CREATE TABLE IF NOT EXISTS share_links (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('collection', 'stack')),
+  target_id INTEGER NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  label TEXT,
+  password_hash TEXT,
+  allow_originals INTEGER NOT NULL DEFAULT 0 CHECK (allow_originals IN (0, 1)),
+  expires_at TEXT,
+  revoked_at TEXT,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TEXT,
+  created_by INTEGER,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_dataset ON share_links(dataset_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_share_links_target ON share_links(target_type, target_id);
@@ -0,0 +1,7 @@
+-- title: Add opt-in encryption at rest for protected libraries
+
+-- encryption_key はライブラリのパスワードから導出した鍵で包んだファイル暗号鍵。
+-- 復号が終わるまでは encryption_enabled = 0 でも鍵を残しておく
+ALTER TABLE datasets ADD COLUMN encryption_enabled INTEGER NOT NULL DEFAULT 0 CHECK (encryption_enabled IN (0, 1));
+ALTER TABLE datasets ADD COLUMN encryption_salt TEXT;
+ALTER TABLE datasets ADD COLUMN encryption_key TEXT;
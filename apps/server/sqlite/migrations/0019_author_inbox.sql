@@ -0,0 +1,28 @@
+-- title: Add author profile enrichment and new-works inbox
+
+-- プロバイダーから取ってきた公開プロフィール。取得できた最後の内容を JSON のまま持つ
+ALTER TABLE authors ADD COLUMN profile_json TEXT;
+ALTER TABLE authors ADD COLUMN profile_fetched_at TEXT;
+
+-- 作者リンクから見つけた作品。取り込み済みや非表示にしたものも再取得で戻らないよう残す
+CREATE TABLE IF NOT EXISTS author_works (
+  id INTEGER PRIMARY KEY,
+  author_id INTEGER NOT NULL,
+  dataset_id INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  title TEXT,
+  url TEXT NOT NULL,
+  thumbnail_url TEXT,
+  media_urls_json TEXT NOT NULL DEFAULT '[]',
+  published_at TEXT,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'imported', 'dismissed')),
+  first_seen_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (author_id) REFERENCES authors(id) ON DELETE CASCADE,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  UNIQUE (author_id, provider, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_author_works_inbox
+  ON author_works(dataset_id, status, published_at DESC);
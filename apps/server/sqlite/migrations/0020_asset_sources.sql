@@ -0,0 +1,14 @@
+-- title: Record source URL provenance for assets
+
+-- 取り込み元。ページ URL・メディア URL・リファラーと、どの経路で取り込んだか
+-- 既存のアセットは経路が分からないので NULL のまま残す
+ALTER TABLE assets ADD COLUMN source_page_url TEXT;
+ALTER TABLE assets ADD COLUMN source_media_url TEXT;
+ALTER TABLE assets ADD COLUMN source_referrer TEXT;
+ALTER TABLE assets ADD COLUMN import_channel TEXT
+  CHECK (import_channel IN ('upload', 'clipper', 'url-import', 'watched-folder'));
+ALTER TABLE assets ADD COLUMN imported_at TEXT;
+
+-- 取り込み済み URL の判定と source: 検索に使う
+CREATE INDEX IF NOT EXISTS idx_assets_source_media_url ON assets(source_media_url);
+CREATE INDEX IF NOT EXISTS idx_assets_source_page_url ON assets(source_page_url);
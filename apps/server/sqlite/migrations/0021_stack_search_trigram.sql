@@ -0,0 +1,54 @@
+-- title: Use trigram tokenizer for stack search
+
+-- unicode61 の単語単位では「絵本」で「猫の絵本」、「cat」で「bobcat」が見つからないため、
+-- 部分一致できる trigram で作り直す
+DROP TABLE IF EXISTS stack_search;
+
+CREATE VIRTUAL TABLE stack_search USING fts5(
+  dataset_id UNINDEXED,
+  name,
+  author,
+  author_links,
+  tags,
+  auto_tags,
+  tokenize = 'trigram remove_diacritics 1'
+);
+
+INSERT INTO stack_search (rowid, dataset_id, name, author, author_links, tags, auto_tags)
+SELECT
+  s.id,
+  s.dataset_id,
+  s.name,
+  COALESCE(a.name, ''),
+  COALESCE(
+    (
+      SELECT group_concat(COALESCE(al.external_id, '') || ' ' || al.url, ' ')
+      FROM author_links al
+      WHERE al.author_id = s.author_id
+    ),
+    ''
+  ),
+  COALESCE(
+    (
+      SELECT group_concat(t.title, ' ')
+      FROM stack_tags st
+      JOIN tags t ON t.id = st.tag_id
+      WHERE st.stack_id = s.id
+    ),
+    ''
+  ),
+  COALESCE(
+    (
+      SELECT group_concat(scores.tag_key || ' ' || COALESCE(m.display_name, ''), ' ')
+      FROM stack_auto_tag_scores scores
+      LEFT JOIN auto_tag_mappings m
+        ON m.dataset_id = s.dataset_id
+       AND m.is_active = 1
+       AND m.auto_tag_key = scores.tag_key COLLATE NOCASE
+      WHERE scores.stack_id = s.id
+        AND scores.score >= 0.4
+    ),
+    ''
+  )
+FROM stacks s
+LEFT JOIN authors a ON a.id = s.author_id;
@@ -0,0 +1,61 @@
+-- title: Index files referenced by trash and undo snapshots
+
+-- ゴミ箱を空にするとき、ほかのスナップショットがまだ指しているファイルを索引で探せるようにする
+CREATE TABLE IF NOT EXISTS snapshot_files (
+  owner_kind TEXT NOT NULL CHECK (owner_kind IN ('trash_item', 'operation_log')),
+  owner_id INTEGER NOT NULL,
+  file_key TEXT NOT NULL,
+  PRIMARY KEY (owner_kind, owner_id, file_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_files_key ON snapshot_files(file_key);
+
+CREATE TRIGGER IF NOT EXISTS trg_trash_items_snapshot_files_delete
+AFTER DELETE ON trash_items
+BEGIN
+  DELETE FROM snapshot_files WHERE owner_kind = 'trash_item' AND owner_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_operation_logs_snapshot_files_delete
+AFTER DELETE ON operation_logs
+BEGIN
+  DELETE FROM snapshot_files WHERE owner_kind = 'operation_log' AND owner_id = old.id;
+END;
+
+-- 取り消した操作のスナップショットはもう戻さない
+CREATE TRIGGER IF NOT EXISTS trg_operation_logs_snapshot_files_undone
+AFTER UPDATE OF undone_at ON operation_logs
+WHEN new.undone_at IS NOT NULL
+BEGIN
+  DELETE FROM snapshot_files WHERE owner_kind = 'operation_log' AND owner_id = old.id;
+END;
+
+INSERT OR IGNORE INTO snapshot_files (owner_kind, owner_id, file_key)
+SELECT 'trash_item', t.id, field.value
+FROM trash_items t,
+  json_each(t.snapshot_json) snapshot,
+  json_each(snapshot.value, '$.rows') row,
+  json_each(row.value) field
+WHERE field.type = 'text'
+  AND field.value <> ''
+  AND (
+    (json_extract(snapshot.value, '$.table') = 'assets' AND field.key IN ('file', 'thumbnail', 'preview'))
+    OR (json_extract(snapshot.value, '$.table') = 'stacks' AND field.key = 'thumbnail')
+  );
+
+INSERT OR IGNORE INTO snapshot_files (owner_kind, owner_id, file_key)
+SELECT 'operation_log', o.id, field.value
+FROM operation_logs o,
+  json_each(o.undo_json) part,
+  json_each(part.value) snapshot,
+  json_each(snapshot.value, '$.rows') row,
+  json_each(row.value) field
+WHERE o.undone_at IS NULL
+  AND part.type = 'array'
+  AND snapshot.type = 'object'
+  AND field.type = 'text'
+  AND field.value <> ''
+  AND (
+    (json_extract(snapshot.value, '$.table') = 'assets' AND field.key IN ('file', 'thumbnail', 'preview'))
+    OR (json_extract(snapshot.value, '$.table') = 'stacks' AND field.key = 'thumbnail')
+  );
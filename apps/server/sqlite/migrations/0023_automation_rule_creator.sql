@@ -0,0 +1,7 @@
+-- title: Record who created each automation rule
+
+-- ルールの「お気に入りに追加」は作成したユーザーのお気に入りにする
+ALTER TABLE automation_rules ADD COLUMN created_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- これまでのルールは既定のユーザーのお気に入りに追加していた
+UPDATE automation_rules SET created_by = (SELECT id FROM users ORDER BY id ASC LIMIT 1);
@@ -12,6 +12,9 @@ CREATE TABLE IF NOT EXISTS datasets (
   is_protected INTEGER NOT NULL DEFAULT 0 CHECK (is_protected IN (0, 1)),
   password_hash TEXT,
   password_salt TEXT,
+  encryption_enabled INTEGER NOT NULL DEFAULT 0 CHECK (encryption_enabled IN (0, 1)),
+  encryption_salt TEXT,
+  encryption_key TEXT,
   is_default INTEGER NOT NULL DEFAULT 0 CHECK (is_default IN (0, 1)),
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL
@@ -28,13 +31,17 @@ CREATE TABLE IF NOT EXISTS users (
   role TEXT NOT NULL DEFAULT 'super',
   password_hash TEXT,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  is_disabled INTEGER NOT NULL DEFAULT 0,
+  last_login_at TEXT
 );
 
 CREATE TABLE IF NOT EXISTS authors (
   id INTEGER PRIMARY KEY,
   dataset_id INTEGER NOT NULL,
   name TEXT NOT NULL COLLATE NOCASE,
+  profile_json TEXT,
+  profile_fetched_at TEXT,
   FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
   UNIQUE (name, dataset_id)
 );
@@ -58,6 +65,28 @@ CREATE INDEX IF NOT EXISTS idx_author_links_author ON author_links(author_id);
 CREATE INDEX IF NOT EXISTS idx_author_links_provider_external_id
   ON author_links(provider, external_id);
 
+CREATE TABLE IF NOT EXISTS author_works (
+  id INTEGER PRIMARY KEY,
+  author_id INTEGER NOT NULL,
+  dataset_id INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  title TEXT,
+  url TEXT NOT NULL,
+  thumbnail_url TEXT,
+  media_urls_json TEXT NOT NULL DEFAULT '[]',
+  published_at TEXT,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'imported', 'dismissed')),
+  first_seen_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (author_id) REFERENCES authors(id) ON DELETE CASCADE,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  UNIQUE (author_id, provider, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_author_works_inbox
+  ON author_works(dataset_id, status, published_at DESC);
+
 CREATE TABLE IF NOT EXISTS stacks (
   id INTEGER PRIMARY KEY,
   dataset_id INTEGER NOT NULL,
@@ -98,22 +127,76 @@ CREATE TABLE IF NOT EXISTS assets (
   dominant_colors_json TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
+  phash TEXT,
+  source_page_url TEXT,
+  source_media_url TEXT,
+  source_referrer TEXT,
+  import_channel TEXT
+    CHECK (import_channel IN ('upload', 'clipper', 'url-import', 'watched-folder')),
+  imported_at TEXT,
   FOREIGN KEY (stack_id) REFERENCES stacks(id) ON DELETE CASCADE
 );
 
 CREATE INDEX IF NOT EXISTS idx_assets_stack_order ON assets(stack_id, order_in_stack, id);
 CREATE INDEX IF NOT EXISTS idx_assets_hash ON assets(hash);
 CREATE INDEX IF NOT EXISTS idx_assets_created ON assets(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assets_source_media_url ON assets(source_media_url);
+CREATE INDEX IF NOT EXISTS idx_assets_source_page_url ON assets(source_page_url);
+CREATE INDEX IF NOT EXISTS idx_assets_phash ON assets(phash);
+
+CREATE TABLE IF NOT EXISTS tag_categories (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  name TEXT NOT NULL COLLATE NOCASE,
+  color TEXT NOT NULL DEFAULT '#94a3b8',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  UNIQUE (dataset_id, name)
+);
 
 CREATE TABLE IF NOT EXISTS tags (
   id INTEGER PRIMARY KEY,
   dataset_id INTEGER NOT NULL,
   title TEXT NOT NULL COLLATE NOCASE,
+  category_id INTEGER REFERENCES tag_categories(id) ON DELETE SET NULL,
   FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
   UNIQUE (title, dataset_id)
 );
 
 CREATE INDEX IF NOT EXISTS idx_tags_dataset ON tags(dataset_id);
+CREATE INDEX IF NOT EXISTS idx_tags_category ON tags(category_id);
+
+-- 入力された別名を正規のタグに読み替える
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  alias TEXT NOT NULL COLLATE NOCASE,
+  tag_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE,
+  UNIQUE (dataset_id, alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_aliases_tag ON tag_aliases(tag_id);
+
+-- tag_id が付いたスタックには implied_tag_id も付ける（子 → 親）
+CREATE TABLE IF NOT EXISTS tag_implications (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  tag_id INTEGER NOT NULL,
+  implied_tag_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE,
+  FOREIGN KEY (implied_tag_id) REFERENCES tags(id) ON DELETE CASCADE,
+  UNIQUE (tag_id, implied_tag_id),
+  CHECK (tag_id <> implied_tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_implications_implied ON tag_implications(implied_tag_id);
 
 CREATE TABLE IF NOT EXISTS stack_tags (
   stack_id INTEGER NOT NULL,
@@ -365,3 +448,309 @@ CREATE INDEX IF NOT EXISTS idx_asset_colors_hue_category ON asset_colors(hue_cat
 CREATE INDEX IF NOT EXISTS idx_asset_colors_hue ON asset_colors(hue);
 CREATE INDEX IF NOT EXISTS idx_asset_colors_tone ON asset_colors(saturation, lightness);
 CREATE INDEX IF NOT EXISTS idx_asset_colors_hex ON asset_colors(hex);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS stack_search USING fts5(
+  dataset_id UNINDEXED,
+  name,
+  author,
+  author_links,
+  tags,
+  auto_tags,
+  tokenize = 'trigram remove_diacritics 1'
+);
+
+CREATE TRIGGER IF NOT EXISTS trg_stacks_search_delete
+AFTER DELETE ON stacks
+BEGIN
+  DELETE FROM stack_search WHERE rowid = old.id;
+END;
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY,
+  type TEXT NOT NULL,
+  dataset_id INTEGER,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  payload_json TEXT NOT NULL DEFAULT '{}',
+  result_json TEXT,
+  error TEXT,
+  progress_total INTEGER NOT NULL DEFAULT 0,
+  progress_done INTEGER NOT NULL DEFAULT 0,
+  progress_failed INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  cancel_requested INTEGER NOT NULL DEFAULT 0 CHECK (cancel_requested IN (0, 1)),
+  retry_of_job_id INTEGER,
+  created_at TEXT NOT NULL,
+  started_at TEXT,
+  finished_at TEXT,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (retry_of_job_id) REFERENCES jobs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, id);
+CREATE INDEX IF NOT EXISTS idx_jobs_dataset_created ON jobs(dataset_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS job_failures (
+  id INTEGER PRIMARY KEY,
+  job_id INTEGER NOT NULL,
+  item_key TEXT NOT NULL,
+  message TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_failures_job ON job_failures(job_id, id);
+
+CREATE TABLE IF NOT EXISTS near_duplicate_dismissals (
+  dataset_id INTEGER NOT NULL,
+  stack_id_a INTEGER NOT NULL,
+  stack_id_b INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (stack_id_a, stack_id_b),
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id_a) REFERENCES stacks(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id_b) REFERENCES stacks(id) ON DELETE CASCADE,
+  CHECK (stack_id_a < stack_id_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_near_duplicate_dismissals_dataset
+  ON near_duplicate_dismissals(dataset_id);
+
+CREATE TABLE IF NOT EXISTS asset_annotation_layers (
+  id INTEGER PRIMARY KEY,
+  asset_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  visible INTEGER NOT NULL DEFAULT 1 CHECK (visible IN (0, 1)),
+  opacity REAL NOT NULL DEFAULT 1 CHECK (opacity >= 0 AND opacity <= 1),
+  order_index INTEGER NOT NULL DEFAULT 0,
+  strokes_json TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_annotation_layers_asset
+  ON asset_annotation_layers(asset_id, order_index, id);
+
+CREATE TABLE IF NOT EXISTS asset_embeddings (
+  asset_id INTEGER PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS stack_embeddings (
+  stack_id INTEGER PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  asset_count INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (stack_id) REFERENCES stacks(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS watched_folders (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  path TEXT NOT NULL,
+  grouping_mode TEXT NOT NULL DEFAULT 'single-stack'
+    CHECK (grouping_mode IN ('single-stack', 'create-collection', 'flat-upload')),
+  media_type TEXT CHECK (media_type IN ('image', 'comic', 'video')),
+  tags_json TEXT NOT NULL DEFAULT '[]',
+  author TEXT,
+  collection_id INTEGER,
+  after_import TEXT NOT NULL DEFAULT 'move' CHECK (after_import IN ('move', 'keep')),
+  processed_path TEXT,
+  settle_seconds INTEGER NOT NULL DEFAULT 5,
+  is_enabled INTEGER NOT NULL DEFAULT 1 CHECK (is_enabled IN (0, 1)),
+  last_scan_at TEXT,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE SET NULL,
+  UNIQUE (path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watched_folders_dataset ON watched_folders(dataset_id);
+
+-- 取り込み後もファイルを残す設定のときに、取り込み済みのファイルを覚えておく
+CREATE TABLE IF NOT EXISTS watched_folder_files (
+  watched_folder_id INTEGER NOT NULL,
+  relative_path TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  mtime_ms INTEGER NOT NULL,
+  imported_at TEXT NOT NULL,
+  PRIMARY KEY (watched_folder_id, relative_path),
+  FOREIGN KEY (watched_folder_id) REFERENCES watched_folders(id) ON DELETE CASCADE
+);
+
+-- 条件と動作は JSON で持つ（形は AutomationRuleModel の zod スキーマで検証する）
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  match_mode TEXT NOT NULL DEFAULT 'all' CHECK (match_mode IN ('all', 'any')),
+  conditions_json TEXT NOT NULL DEFAULT '[]',
+  actions_json TEXT NOT NULL DEFAULT '[]',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_enabled INTEGER NOT NULL DEFAULT 1 CHECK (is_enabled IN (0, 1)),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  created_by INTEGER,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_dataset ON automation_rules(dataset_id, sort_order);
+
+-- 自動実行は 1 スタックにつき 1 回だけ。手で外したタグを付け直さないようにする
+CREATE TABLE IF NOT EXISTS automation_rule_runs (
+  rule_id INTEGER NOT NULL,
+  stack_id INTEGER NOT NULL,
+  applied_at TEXT NOT NULL,
+  PRIMARY KEY (rule_id, stack_id),
+  FOREIGN KEY (rule_id) REFERENCES automation_rules(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id) REFERENCES stacks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rule_runs_stack ON automation_rule_runs(stack_id);
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id INTEGER PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id);
+
+-- 削除したスタック・アセットは行のスナップショットとして保持期間まで残す
+CREATE TABLE IF NOT EXISTS trash_items (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN ('stack', 'asset')),
+  item_id INTEGER NOT NULL,
+  stack_id INTEGER,
+  name TEXT NOT NULL,
+  thumbnail TEXT,
+  asset_count INTEGER NOT NULL DEFAULT 0,
+  snapshot_json TEXT NOT NULL,
+  deleted_by INTEGER,
+  deleted_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (deleted_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trash_items_dataset ON trash_items(dataset_id, deleted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trash_items_expires ON trash_items(expires_at);
+
+-- 取り消し可能な操作の履歴（undo_json に元に戻すためのデータを持つ）
+CREATE TABLE IF NOT EXISTS operation_logs (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  user_id INTEGER,
+  operation TEXT NOT NULL,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  undo_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  undone_at TEXT,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_logs_dataset ON operation_logs(dataset_id, id DESC);
+
+-- ゴミ箱と取り消せる操作のスナップショットが指すファイル。ゴミ箱を空にするときに残すか判定する
+CREATE TABLE IF NOT EXISTS snapshot_files (
+  owner_kind TEXT NOT NULL CHECK (owner_kind IN ('trash_item', 'operation_log')),
+  owner_id INTEGER NOT NULL,
+  file_key TEXT NOT NULL,
+  PRIMARY KEY (owner_kind, owner_id, file_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_files_key ON snapshot_files(file_key);
+
+CREATE TRIGGER IF NOT EXISTS trg_trash_items_snapshot_files_delete
+AFTER DELETE ON trash_items
+BEGIN
+  DELETE FROM snapshot_files WHERE owner_kind = 'trash_item' AND owner_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_operation_logs_snapshot_files_delete
+AFTER DELETE ON operation_logs
+BEGIN
+  DELETE FROM snapshot_files WHERE owner_kind = 'operation_log' AND owner_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_operation_logs_snapshot_files_undone
+AFTER UPDATE OF undone_at ON operation_logs
+WHEN new.undone_at IS NOT NULL
+BEGIN
+  DELETE FROM snapshot_files WHERE owner_kind = 'operation_log' AND owner_id = old.id;
+END;
+
+-- EXIF / XMP / IPTC / PNG テキストチャンクから取り込み時に抽出した値。検索に使う列だけ分けて持つ
+CREATE TABLE IF NOT EXISTS asset_metadata (
+  asset_id INTEGER PRIMARY KEY,
+  captured_at TEXT,
+  camera_make TEXT,
+  camera_model TEXT,
+  keywords_json TEXT NOT NULL DEFAULT '[]',
+  prompt TEXT,
+  metadata_json TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (asset_id) REFERENCES assets(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_metadata_captured_at ON asset_metadata(captured_at);
+
+-- ユーザーごとのスタックの読書位置。page は stack 内のアセット順（0 始まり）
+CREATE TABLE IF NOT EXISTS reading_progress (
+  id INTEGER PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  stack_id INTEGER NOT NULL,
+  page INTEGER NOT NULL DEFAULT 0,
+  page_count INTEGER NOT NULL DEFAULT 0,
+  completed_at TEXT,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (stack_id) REFERENCES stacks(id) ON DELETE CASCADE,
+  UNIQUE (user_id, stack_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reading_progress_user_updated ON reading_progress(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reading_progress_stack ON reading_progress(stack_id);
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id INTEGER PRIMARY KEY,
+  dataset_id INTEGER NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('collection', 'stack')),
+  target_id INTEGER NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  label TEXT,
+  password_hash TEXT,
+  allow_originals INTEGER NOT NULL DEFAULT 0 CHECK (allow_originals IN (0, 1)),
+  expires_at TEXT,
+  revoked_at TEXT,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TEXT,
+  created_by INTEGER,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_dataset ON share_links(dataset_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_share_links_target ON share_links(target_type, target_id);
@@ -1,10 +1,63 @@
-import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { open } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { deflateRawSync } from 'node:zlib';
+import sharp from 'sharp';
 import { describe, expect, it } from 'vitest';
 import { DataStorage } from '../lib/DataStorage';
+import {
+  compareNaturalFilenames,
+  parseComicInfo,
+  readEpubPages,
+} from '../utils/comicArchiveImport';
+import { createPdfFromJpegPages, exportComic } from '../utils/comicExport';
+import {
+  clearStaleDecryptedCopies,
+  createDatasetEncryptionKey,
+  forgetDatasetKey,
+  readStoredFile,
+  rememberDatasetKey,
+  unwrapDatasetEncryptionKey,
+  withReadableFilePath,
+} from '../utils/dataset-encryption';
+import { createSignedFileQuery, verifySignedFileQuery } from '../utils/dataset-protection';
+import {
+  getFileDatasetId,
+  getStoredFileDatasetId,
+  toStorageRelativePath,
+} from '../utils/file-access';
+import {
+  decryptFileInPlace,
+  encryptFileInPlace,
+  getDecryptedSize,
+  readDecryptedRange,
+  readEncryptedFileHeader,
+} from '../utils/file-encryption';
 import { generateMediaPreview, shouldGeneratePreview } from '../utils/generateMediaPreview';
+import { parseIptc, readEmbeddedImageMetadata } from '../utils/imageMetadata';
 import { isPdfFileInput } from '../utils/pdfImport';
+import {
+  mergeSceneMarkers,
+  parseSceneChangeTimes,
+  sceneThresholdFromSensitivity,
+  toSceneStartTimes,
+} from '../utils/sceneDetection';
+import { createTarStream, extractTarEntry, readTarEntries, readTarEntryBuffer } from '../utils/tar';
+import { buildClipArgs, resolveClipRange } from '../utils/videoClip';
+import { createZipArchive, readZipDirectory, readZipEntries, readZipEntryData } from '../utils/zip';
 
 describe('Test', () => {
   it('should pass basic test', () => {
@@ -96,3 +149,458 @@ describe('RAWプレビュー生成', () => {
     expect(shouldGeneratePreview('.DNG')).toBe(true);
   });
 });
+
+describe('ライブラリアーカイブの tar', () => {
+  it('書き出したエントリを名前・内容どおりに読み戻せる', async () => {
+    const tempDir = mkdtempSync(path.join(os.tmpdir(), 'caramel-tar-'));
+    const archivePath = path.join(tempDir, 'library.tar');
+    const longName = `originals/${'a'.repeat(120)}.png`;
+    const sourcePath = path.join(tempDir, 'source.bin');
+    writeFileSync(sourcePath, Buffer.alloc(1500, 7));
+
+    try {
+      const manifest = Buffer.from('{"format":"test"}');
+      await pipeline(
+        createTarStream([
+          { name: 'manifest.json', size: manifest.length, source: () => manifest },
+          { name: longName, size: 1500, source: () => createReadStream(sourcePath) },
+          { name: 'empty.txt', size: 0, source: () => Buffer.alloc(0) },
+        ]),
+        createWriteStream(archivePath)
+      );
+
+      const entries = readTarEntries(archivePath);
+      expect(entries.map((entry) => [entry.name, entry.size])).toEqual([
+        ['manifest.json', manifest.length],
+        [longName, 1500],
+        ['empty.txt', 0],
+      ]);
+      expect(readTarEntryBuffer(archivePath, entries[0]).toString()).toBe('{"format":"test"}');
+
+      const extractedPath = path.join(tempDir, 'extracted.bin');
+      await extractTarEntry(archivePath, entries[1], extractedPath);
+      expect(readFileSync(extractedPath).equals(Buffer.alloc(1500, 7))).toBe(true);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('埋め込みメタデータの解析', () => {
+  const createImage = () =>
+    sharp({ create: { width: 4, height: 4, channels: 3, background: '#ff0000' } });
+
+  it('JPEG の EXIF と XMP からカメラ・撮影日時・キーワードを読む', async () => {
+    const tempDir = mkdtempSync(path.join(os.tmpdir(), 'caramel-exif-'));
+    const filePath = path.join(tempDir, 'photo.jpg');
+    try {
+      await createImage()
+        .jpeg()
+        .withExif({
+          IFD0: { Make: 'FUJIFILM', Model: 'X100V', Software: 'Lightroom' },
+          IFD2: { DateTimeOriginal: '2024:05:01 12:34:56', OffsetTimeOriginal: '+09:00' },
+        })
+        .withXmp(
+          '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+            '<rdf:Description xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+            '<dc:subject><rdf:Bag><rdf:li>sunset</rdf:li><rdf:li>Tom &amp; Jerry</rdf:li></rdf:Bag></dc:subject>' +
+            '</rdf:Description></rdf:RDF></x:xmpmeta>'
+        )
+        .toFile(filePath);
+
+      const metadata = await readEmbeddedImageMetadata(filePath);
+      expect(metadata).toMatchObject({
+        cameraMake: 'FUJIFILM',
+        cameraModel: 'X100V',
+        software: 'Lightroom',
+        capturedAt: '2024-05-01T03:34:56.000Z',
+        keywords: ['sunset', 'Tom & Jerry'],
+      });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('PNG のテキストチャンクから生成パラメータを読む', async () => {
+    const tempDir = mkdtempSync(path.join(os.tmpdir(), 'caramel-png-text-'));
+    const filePath = path.join(tempDir, 'generated.png');
+    try {
+      const png = await createImage().png().toBuffer();
+      const text = Buffer.from('parameters\0a cat on a sofa\nNegative prompt: blurry', 'latin1');
+      const chunk = Buffer.alloc(12 + text.length);
+      chunk.writeUInt32BE(text.length, 0);
+      chunk.write('tEXt', 4, 'latin1');
+      text.copy(chunk, 8);
+      // IHDR（8 + 25 バイト）の直後に差し込む
+      writeFileSync(filePath, Buffer.concat([png.subarray(0, 33), chunk, png.subarray(33)]));
+
+      const metadata = await readEmbeddedImageMetadata(filePath);
+      expect(metadata?.prompt).toBe('a cat on a sofa\nNegative prompt: blurry');
+      expect(metadata?.textChunks).toEqual({
+        parameters: 'a cat on a sofa\nNegative prompt: blurry',
+      });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('Photoshop の 8BIM リソースに包まれた IPTC キーワードを読む', () => {
+    const dataset = (number: number, value: string) => {
+      const data = Buffer.from(value, 'utf8');
+      const header = Buffer.from([0x1c, 2, number, 0, 0]);
+      header.writeUInt16BE(data.length, 3);
+      return Buffer.concat([header, data]);
+    };
+    const iim = Buffer.concat([dataset(25, 'cat'), dataset(25, 'night'), dataset(5, 'Title')]);
+    const resource = Buffer.alloc(12);
+    resource.write('8BIM', 0, 'latin1');
+    resource.writeUInt16BE(0x0404, 4);
+    resource.writeUInt32BE(iim.length, 8);
+
+    expect(
+      parseIptc(Buffer.concat([Buffer.from('Photoshop 3.0\0', 'latin1'), resource, iim]))
+    ).toMatchObject({ keywords: ['cat', 'night'], title: 'Title' });
+  });
+});
+
+describe('シーン検出', () => {
+  it('showinfo のログからシーン開始位置を取り出し、短すぎるシーンをまとめる', () => {
+    const log = [
+      '[Parsed_showinfo_1 @ 0x600] n:   0 pts:  61440 pts_time:4.8     duration:512',
+      'frame=  120 fps=0.0 q=-0.0 size=N/A time=00:00:05.00',
+      '[Parsed_showinfo_1 @ 0x600] n:   1 pts:  68000 pts_time:5.3125  duration:512',
+      '[Parsed_showinfo_1 @ 0x600] n:   2 pts: 160000 pts_time:12.5    duration:512',
+    ].join('\n');
+
+    expect(parseSceneChangeTimes(log)).toEqual([4.8, 5.3125, 12.5]);
+    expect(toSceneStartTimes(parseSceneChangeTimes(log))).toEqual([0, 4.8, 12.5]);
+  });
+
+  it('感度が高いほど閾値を下げる', () => {
+    expect(sceneThresholdFromSensitivity(0)).toBe(0.6);
+    expect(sceneThresholdFromSensitivity(1)).toBe(0.1);
+    expect(sceneThresholdFromSensitivity(2)).toBe(0.1);
+  });
+
+  it('手動マーカーを残してシーンマーカーだけ差し替える', () => {
+    const existing = [
+      { time: 3, color: 'bright-red', label: 'memo' },
+      { time: 7, color: 'light-gray', label: '', type: 'scene' },
+    ];
+    expect(mergeSceneMarkers(existing, [0, 2, 9])).toEqual([
+      { time: 2, color: 'light-gray', label: '', type: 'scene' },
+      { time: 3, color: 'bright-red', label: 'memo' },
+      { time: 9, color: 'light-gray', label: '', type: 'scene' },
+    ]);
+  });
+});
+
+describe('クリップの書き出し', () => {
+  const markers = [
+    { time: 4.5, color: 'white' },
+    { time: 12, color: 'bright-red' },
+  ];
+
+  it('マーカーの組から範囲を決め、動画の長さで終端を切り詰める', () => {
+    expect(resolveClipRange({ startMarker: 0, endMarker: 1 }, markers, 60)).toEqual({
+      start: 4.5,
+      end: 12,
+    });
+    expect(resolveClipRange({ start: 50, end: 90 }, markers, 60)).toEqual({ start: 50, end: 60 });
+    expect(resolveClipRange({ startMarker: 3 }, markers, 60)).toEqual({
+      error: 'Marker not found',
+    });
+    expect(resolveClipRange({ startMarker: 1, endMarker: 0 }, markers, 60)).toEqual({
+      error: 'Clip range is too short',
+    });
+  });
+
+  it('GIF はパレットを作ってから fps と幅を揃えて書き出す', () => {
+    const args = buildClipArgs(
+      'in.mp4',
+      'out.gif',
+      { start: 1, end: 3.5, format: 'gif', fps: 12, width: 320 },
+      true
+    );
+    expect(args).toEqual(expect.arrayContaining(['-ss', '1.000', '-t', '2.500', '-an']));
+    expect(args[args.indexOf('-filter_complex') + 1]).toBe(
+      'fps=12,scale=320:-1:flags=lanczos,split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer'
+    );
+  });
+});
+
+describe('コミックアーカイブの取り込み', () => {
+  it('ZIP を読み戻してページ名を自然順に並べ、ComicInfo.xml を解釈する', () => {
+    const archive = createZipArchive([
+      { name: 'vol/page10.jpg', data: Buffer.from('10') },
+      { name: 'vol/page2.jpg', data: Buffer.from('2') },
+      { name: 'ComicInfo.xml', data: Buffer.from('<ComicInfo />') },
+    ]);
+    const entries = readZipEntries(archive);
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'vol/page10.jpg',
+      'vol/page2.jpg',
+      'ComicInfo.xml',
+    ]);
+    expect(entries[1].data.toString()).toBe('2');
+    expect(['page10.jpg', 'Page1.jpg', 'page2.jpg'].sort(compareNaturalFilenames)).toEqual([
+      'Page1.jpg',
+      'page2.jpg',
+      'page10.jpg',
+    ]);
+
+    expect(
+      parseComicInfo(`<?xml version="1.0"?>
+        <ComicInfo>
+          <Series>Caramel &amp; Board</Series>
+          <Number>3</Number>
+          <Writer>Alice, Bob</Writer>
+          <Tags>fantasy, school</Tags>
+          <Genre>Fantasy</Genre>
+          <Manga>YesAndRightToLeft</Manga>
+        </ComicInfo>`)
+    ).toEqual({
+      title: 'Caramel & Board 3',
+      author: 'Alice',
+      tags: ['fantasy', 'school'],
+      openingDirection: 'right-opening',
+    });
+  });
+
+  it('ZIP のエントリは 1 件ずつ読み、宣言サイズと上限を超える展開はしない', async () => {
+    // 無圧縮で作った ZIP の圧縮方式だけを deflate に書き換え、宣言サイズより大きく展開されるようにする
+    const bomb = deflateRawSync(Buffer.alloc(1024 * 1024));
+    const archive = createZipArchive([
+      { name: 'page1.jpg', data: Buffer.from('page') },
+      { name: 'page2.jpg', data: bomb },
+    ]);
+    const centralOffset = archive.readUInt32LE(archive.length - 22 + 16);
+    const secondLocalOffset = archive.readUInt32LE(centralOffset + 46 + 9 + 42);
+    archive.writeUInt16LE(8, secondLocalOffset + 8);
+    archive.writeUInt16LE(8, centralOffset + 46 + 9 + 10);
+
+    const tempDir = mkdtempSync(path.join(os.tmpdir(), 'caramel-zip-'));
+    const archivePath = path.join(tempDir, 'bomb.cbz');
+    writeFileSync(archivePath, archive);
+    const file = await open(archivePath, 'r');
+    try {
+      const entries = await readZipDirectory(file);
+      expect(entries.map((entry) => [entry.name, entry.size])).toEqual([
+        ['page1.jpg', 4],
+        ['page2.jpg', bomb.length],
+      ]);
+      expect((await readZipEntryData(file, entries[0], 4)).toString()).toBe('page');
+      await expect(readZipEntryData(file, entries[0], 3)).rejects.toThrow('大きすぎます');
+      await expect(readZipEntryData(file, entries[1], 1024 * 1024)).rejects.toThrow();
+    } finally {
+      await file.close();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('EPUB は spine の順に XHTML が参照する画像をページにする', () => {
+    const files = new Map<string, Buffer>([
+      [
+        'META-INF/container.xml',
+        Buffer.from(
+          '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>'
+        ),
+      ],
+      [
+        'OEBPS/content.opf',
+        Buffer.from(`<package>
+          <metadata><dc:title>Sample</dc:title><dc:creator>Carol</dc:creator></metadata>
+          <manifest>
+            <item id="p1" href="text/p1.xhtml" media-type="application/xhtml+xml"/>
+            <item id="p2" href="text/p2.xhtml" media-type="application/xhtml+xml"/>
+            <item id="i1" href="images/b.png" media-type="image/png"/>
+            <item id="i2" href="images/a.png" media-type="image/png"/>
+          </manifest>
+          <spine page-progression-direction="rtl"><itemref idref="p1"/><itemref idref="p2"/></spine>
+        </package>`),
+      ],
+      ['OEBPS/text/p1.xhtml', Buffer.from('<svg><image xlink:href="../images/b.png"/></svg>')],
+      ['OEBPS/text/p2.xhtml', Buffer.from('<img src="../images/a.png" />')],
+      ['OEBPS/images/a.png', Buffer.from('a')],
+      ['OEBPS/images/b.png', Buffer.from('b')],
+    ]);
+
+    expect(readEpubPages(files)).toEqual({
+      imageNames: ['OEBPS/images/b.png', 'OEBPS/images/a.png'],
+      info: { title: 'Sample', author: 'Carol', tags: [], openingDirection: 'right-opening' },
+    });
+  });
+});
+
+describe('コミックの書き出し', () => {
+  const stack = {
+    name: 'Sample & Story',
+    author: 'Alice',
+    tags: ['fantasy'],
+    openingDirection: 'right-opening' as const,
+  };
+
+  it('CBZ はページを連番で並べ、取り込み時に読める ComicInfo.xml を入れる', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'comic-export-'));
+    try {
+      const first = path.join(dir, 'b.png');
+      const second = path.join(dir, 'a.jpg');
+      await sharp({ create: { width: 40, height: 60, channels: 3, background: '#fff' } })
+        .png()
+        .toFile(first);
+      await sharp({ create: { width: 600, height: 900, channels: 3, background: '#888' } })
+        .jpeg()
+        .toFile(second);
+
+      const exported = await exportComic(stack, [first, second], { format: 'cbz', maxSize: 300 });
+      const entries = readZipEntries(exported.data);
+      expect(entries.map((entry) => entry.name)).toEqual(['001.png', '002.jpg', 'ComicInfo.xml']);
+      expect((await sharp(entries[1].data).metadata()).height).toBe(300);
+      expect(parseComicInfo(entries[2].data.toString('utf8'))).toEqual({
+        title: 'Sample & Story',
+        author: 'Alice',
+        tags: ['fantasy'],
+        openingDirection: 'right-opening',
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('PDF は右開きを R2L として記録し、xref が各オブジェクトを指す', () => {
+    const pdf = createPdfFromJpegPages(
+      [{ data: Buffer.from([0xff, 0xd8, 0xff, 0xd9]), width: 300, height: 450 }],
+      { title: stack.name, rightToLeft: true }
+    ).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Direction /R2L');
+    expect(pdf).toContain('/MediaBox [0 0 144.00 216.00]');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(xrefOffset).startsWith('xref')).toBe(true);
+    const offsets = Array.from(pdf.matchAll(/(\d{10}) 00000 n/g), (match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
+
+describe('保護されたライブラリのファイル URL', () => {
+  const rel = 'library/3/thumbnails/ab/cdef.jpg';
+  const now = Date.parse('2026-07-01T10:20:00.000Z');
+
+  it('パスからライブラリを判別する', () => {
+    expect(getFileDatasetId(rel)).toBe(3);
+    expect(getFileDatasetId('3/assets/ab/abcd.png')).toBe(3);
+    expect(getFileDatasetId('library/1/../2/assets/x.png')).toBe(2);
+    expect(getFileDatasetId('avatars/user.png')).toBeNull();
+    expect(toStorageRelativePath(`/files/${rel}?exp=1&sig=abc`)).toBe(rel);
+  });
+
+  it('配信するファイルは解決後のパスからライブラリを判別する', () => {
+    const roots = ['/srv/data', '/srv'];
+    expect(getStoredFileDatasetId('/srv/data/library/2/assets/ab/abcd.jpg', roots)).toBe(2);
+    expect(getStoredFileDatasetId('/srv/library/4/assets/ab/abcd.jpg', roots)).toBe(4);
+    expect(getStoredFileDatasetId('/srv/data/avatars/user.png', roots)).toBeNull();
+    expect(getStoredFileDatasetId('/etc/passwd', roots)).toBeNull();
+  });
+
+  it('同じ時間帯は同じ署名になり、期限・パス・パスワードが違えば通らない', () => {
+    const query = createSignedFileQuery(3, 'hash', rel, now);
+    expect(createSignedFileQuery(3, 'hash', rel, now + 60 * 1000)).toBe(query);
+    const params = Object.fromEntries(new URLSearchParams(query));
+    const expires = Number(params.exp) * 1000;
+    expect(expires - now).toBeGreaterThanOrEqual(12 * 60 * 60 * 1000);
+
+    expect(verifySignedFileQuery(3, 'hash', rel, params, now)).toBe(true);
+    expect(verifySignedFileQuery(3, 'hash', rel, params, expires)).toBe(false);
+    expect(verifySignedFileQuery(3, 'hash', 'library/3/assets/ab/other.png', params, now)).toBe(
+      false
+    );
+    expect(verifySignedFileQuery(3, 'changed', rel, params, now)).toBe(false);
+    expect(verifySignedFileQuery(3, 'hash', rel, { exp: params.exp }, now)).toBe(false);
+  });
+});
+
+describe('ライブラリファイルの暗号化', () => {
+  const withTempDir = (run: (dir: string) => void) => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'caramel-encryption-'));
+    try {
+      run(dir);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+
+  it('チャンク境界をまたぐ範囲を復号でき、元に戻せる', () => {
+    withTempDir((dir) => {
+      const filePath = path.join(dir, 'clip.mp4');
+      const plain = randomBytes(64 * 1024 * 2 + 123);
+      writeFileSync(filePath, plain);
+      const { key } = createDatasetEncryptionKey('secret');
+
+      encryptFileInPlace(filePath, 7, key);
+      expect(readEncryptedFileHeader(filePath)).toEqual({ dataSetId: 7 });
+      expect(readFileSync(filePath).includes(plain.subarray(0, 32))).toBe(false);
+      expect(getDecryptedSize(statSync(filePath).size)).toBe(plain.length);
+      expect(readDecryptedRange(filePath, key, 65530, 65545)).toEqual(plain.subarray(65530, 65546));
+      expect(readDecryptedRange(filePath, key, plain.length - 3, plain.length + 10)).toEqual(
+        plain.subarray(plain.length - 3)
+      );
+
+      decryptFileInPlace(filePath, key);
+      expect(readEncryptedFileHeader(filePath)).toBeNull();
+      expect(readFileSync(filePath)).toEqual(plain);
+    });
+  });
+
+  it('鍵はパスワードでしか取り出せず、改ざんされたファイルは復号できない', () => {
+    withTempDir((dir) => {
+      const filePath = path.join(dir, 'empty.png');
+      writeFileSync(filePath, '');
+      const { key, salt, wrappedKey } = createDatasetEncryptionKey('secret');
+      expect(unwrapDatasetEncryptionKey('secret', salt, wrappedKey)).toEqual(key);
+      expect(unwrapDatasetEncryptionKey('wrong', salt, wrappedKey)).toBeNull();
+
+      encryptFileInPlace(filePath, 1, key);
+      expect(getDecryptedSize(statSync(filePath).size)).toBe(0);
+      const sealed = readFileSync(filePath);
+      sealed[sealed.length - 1] ^= 1;
+      writeFileSync(filePath, sealed);
+      expect(() => decryptFileInPlace(filePath, key)).toThrow();
+    });
+  });
+
+  it('復号したコピーはストレージ内に作って使い終わったら消し、残ったものは起動時に掃除する', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'caramel-encryption-'));
+    const previousStorage = process.env.FILES_STORAGE;
+    process.env.FILES_STORAGE = dir;
+    try {
+      const filePath = path.join(dir, 'page.png');
+      const plain = randomBytes(1000);
+      writeFileSync(filePath, plain);
+      const { key } = createDatasetEncryptionKey('secret');
+      encryptFileInPlace(filePath, 9, key);
+      rememberDatasetKey(9, key);
+
+      const copyPath = await withReadableFilePath(filePath, (readablePath) => {
+        expect(readFileSync(readablePath)).toEqual(plain);
+        return readablePath;
+      });
+      expect(path.dirname(path.dirname(copyPath))).toBe(path.join(dir, 'tmp'));
+      expect(existsSync(copyPath)).toBe(false);
+      expect(readStoredFile(filePath)).toEqual(plain);
+
+      const stale = path.join(dir, 'tmp', 'caramel-decrypted-stale');
+      mkdirSync(stale);
+      clearStaleDecryptedCopies();
+      expect(existsSync(stale)).toBe(false);
+      expect(existsSync(path.dirname(copyPath))).toBe(true);
+    } finally {
+      forgetDatasetKey(9);
+      if (previousStorage === undefined) delete process.env.FILES_STORAGE;
+      else process.env.FILES_STORAGE = previousStorage;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
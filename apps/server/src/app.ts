@@ -8,10 +8,12 @@ import { fileServer } from './middlewares/files';
 import { loggerMiddleware } from './middlewares/logger';
 import { memMonitor } from './middlewares/memory-monitor';
 import { requestOriginGuard } from './middlewares/request-origin-guard';
+import { sessionAuthMiddleware } from './middlewares/session-auth';
 import { staticServer } from './middlewares/static';
 import { StandaloneMigrationRequiredError } from './repositories/sqlite/migrations';
 import { getStandaloneSqlite } from './repositories/sqlite/sqlite';
 import { apiRoutes } from './routes';
+import { shareViewerRoute } from './routes/shareViewer';
 import { diMiddleware } from './shared/di';
 
 if (process.env.NODE_ENV !== 'production') {
@@ -57,10 +59,14 @@ app.get('/health', (c) => {
 });
 
 // --- asset / static handlers ---
+app.use('/files/*', sessionAuthMiddleware);
 app.use('/files/*', fileServer);
+// 共有リンクの閲覧ページ（ログイン不要。リンクのトークンとパスワードで認可する）
+app.route('/share', shareViewerRoute);
 app.use('*', staticServer);
 
 // --- API ---
 app.use('/api/v1/*', clipperApiKeyGuard);
 app.use('/api/v1/*', requestOriginGuard);
+app.use('/api/v1/*', sessionAuthMiddleware);
 app.route('/api/v1', apiRoutes);
@@ -1,5 +1,7 @@
 import { serve } from '@hono/node-server';
 import { app } from './app';
+import { folderWatcher, jobQueue, trashRetention } from './jobs';
+import { clearStaleDecryptedCopies } from './utils/dataset-encryption';
 
 const port = Number(process.env.PORT || 6766);
 const hostname =
@@ -7,9 +9,13 @@ const hostname =
   (process.env.CARAMEL_ALLOW_EXTERNAL === '1' || process.env.CARAMEL_ALLOW_EXTERNAL === 'true'
     ? '0.0.0.0'
     : '127.0.0.1');
+clearStaleDecryptedCopies();
 serve({ fetch: app.fetch, port, hostname }, () =>
   console.log(`🚀  API ready on http://${hostname}:${port}`)
 );
+jobQueue.start();
+folderWatcher.start();
+trashRetention.start();
 
 // Graceful shutdown
 for (const sig of ['SIGINT', 'SIGTERM']) {
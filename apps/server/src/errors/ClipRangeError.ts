@@ -0,0 +1,9 @@
+// 書き出し範囲が動画の長さやマーカーと合わないとき
+export class ClipRangeError extends Error {
+  code = 'INVALID_CLIP_RANGE' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClipRangeError';
+  }
+}
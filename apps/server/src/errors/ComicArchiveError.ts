@@ -0,0 +1,9 @@
+// コミックアーカイブを展開できない、またはページ画像が含まれていないとき
+export class ComicArchiveError extends Error {
+  code = 'INVALID_COMIC_ARCHIVE' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComicArchiveError';
+  }
+}
@@ -0,0 +1,9 @@
+// 暗号化されたライブラリのファイルを、パスワードで解錠する前に読み書きしようとしたとき
+export class LibraryLockedError extends Error {
+  code = 'LIBRARY_LOCKED' as const;
+
+  constructor(public dataSetId: number) {
+    super(`ライブラリ ${dataSetId} は暗号化されています。パスワードで解錠してください`);
+    this.name = 'LibraryLockedError';
+  }
+}
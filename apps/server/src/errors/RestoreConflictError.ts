@@ -0,0 +1,9 @@
+// ゴミ箱からの復元や操作の取り消しが、その後の変更と衝突してできないとき
+export class RestoreConflictError extends Error {
+  code = 'RESTORE_CONFLICT' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'RestoreConflictError';
+  }
+}
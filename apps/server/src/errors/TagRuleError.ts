@@ -0,0 +1,9 @@
+// 別名の重複や包含関係の循環など、タグの規則として成り立たない変更
+export class TagRuleError extends Error {
+  code = 'INVALID_TAG_RULE' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagRuleError';
+  }
+}
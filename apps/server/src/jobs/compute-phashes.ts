@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+import type { JobHandler } from './job-queue';
+
+const ComputePerceptualHashesPayloadSchema = z.object({
+  dataSetId: z.number().int().positive(),
+  assetIds: z.array(z.number().int().positive()).optional(),
+});
+
+type ComputePerceptualHashesPayload = z.infer<typeof ComputePerceptualHashesPayloadSchema>;
+
+// 近似重複の検出に使う知覚ハッシュを、未計算のアセットについてまとめて計算する
+export const computePerceptualHashesJob: JobHandler<ComputePerceptualHashesPayload> = {
+  payloadSchema: ComputePerceptualHashesPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    dataSetId: payload.dataSetId,
+    assetIds: failedItemKeys.map((key) => Number(key)).filter((id) => Number.isFinite(id)),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const stackRepository = new StandaloneStackRepository();
+    const assetIds =
+      payload.assetIds ?? stackRepository.getAssetIdsWithoutPerceptualHash(payload.dataSetId);
+    setTotal(assetIds.length);
+
+    let hashed = 0;
+    let skipped = 0;
+    for (const assetId of assetIds) {
+      throwIfCancelled();
+      try {
+        const phash = await stackRepository.computePerceptualHash(assetId);
+        if (phash) hashed++;
+        else skipped++;
+      } catch (error) {
+        fail(assetId, error);
+      }
+      advance();
+    }
+
+    return { hashed, skipped };
+  },
+};
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+import type { JobHandler } from './job-queue';
+
+const DetectScenesPayloadSchema = z.object({
+  dataSetId: z.number().int().positive(),
+  stackIds: z.array(z.number().int().positive()).optional(),
+  assetIds: z.array(z.number().int().positive()).optional(),
+  sensitivity: z.number().min(0).max(1).optional(),
+});
+
+type DetectScenesPayload = z.infer<typeof DetectScenesPayloadSchema>;
+
+// 動画アセットのシーン検出をまとめて行い、シーンマーカーとストリップを作り直す
+export const detectScenesJob: JobHandler<DetectScenesPayload> = {
+  payloadSchema: DetectScenesPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    dataSetId: payload.dataSetId,
+    sensitivity: payload.sensitivity,
+    assetIds: failedItemKeys.map((key) => Number(key)).filter((id) => Number.isFinite(id)),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const stackRepository = new StandaloneStackRepository();
+    const assetIds =
+      payload.assetIds ?? stackRepository.getVideoAssetIds(payload.dataSetId, payload.stackIds);
+    setTotal(assetIds.length);
+
+    let detected = 0;
+    let scenes = 0;
+    for (const assetId of assetIds) {
+      throwIfCancelled();
+      try {
+        const result = await stackRepository.detectAssetScenes(assetId, {
+          sensitivity: payload.sensitivity,
+        });
+        if (result) {
+          detected++;
+          scenes += result.meta.scenes.times.length;
+        }
+      } catch (error) {
+        fail(assetId, error);
+      }
+      advance();
+    }
+
+    return { detected, scenes };
+  },
+};
@@ -0,0 +1,83 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { DataStorage } from '../lib/DataStorage';
+import { StandaloneDatasetRepository } from '../repositories/sqlite/dataset-repository';
+import { requireDatasetKey } from '../utils/dataset-encryption';
+import {
+  decryptFileInPlace,
+  encryptFileInPlace,
+  readEncryptedFileHeader,
+} from '../utils/file-encryption';
+import type { JobHandler } from './job-queue';
+
+const EncryptLibraryFilesPayloadSchema = z.object({
+  dataSetId: z.number().int().positive(),
+  mode: z.enum(['encrypt', 'decrypt']),
+});
+
+type EncryptLibraryFilesPayload = z.infer<typeof EncryptLibraryFilesPayloadSchema>;
+
+const STORAGE_PREFIXES = ['library', 'files'] as const;
+
+const listFiles = (directory: string): string[] => {
+  if (!fs.existsSync(directory)) return [];
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return listFiles(entryPath);
+    // 暗号化・復号の途中で残った一時ファイルは対象外
+    return entry.isFile() && !entry.name.endsWith('.tmp') ? [entryPath] : [];
+  });
+};
+
+// 暗号化の切り替えでは設定だけ先に変え、既存のファイルはこのジョブで暗号化・復号する。
+// 処理済みのファイルは飛ばすので、途中で止まってもやり直せば残りだけを処理する
+export const encryptLibraryFilesJob: JobHandler<EncryptLibraryFilesPayload> = {
+  payloadSchema: EncryptLibraryFilesPayloadSchema,
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const { dataSetId, mode } = payload;
+    const repository = new StandaloneDatasetRepository();
+    const dataset = repository.getById(dataSetId);
+    if (!dataset) throw new Error(`ライブラリ ${dataSetId} が見つかりません`);
+    if (dataset.isEncrypted !== (mode === 'encrypt')) {
+      throw new Error('ライブラリの暗号化設定が変更されたため中断しました');
+    }
+    const key = requireDatasetKey(dataSetId);
+
+    const root = DataStorage.getPath('');
+    const files = STORAGE_PREFIXES.flatMap((prefix) =>
+      listFiles(DataStorage.getPath(`${prefix}/${dataSetId}`))
+    );
+    setTotal(files.length);
+
+    let processed = 0;
+    let skipped = 0;
+    let failed = 0;
+    for (const file of files) {
+      throwIfCancelled();
+      try {
+        const encrypted = readEncryptedFileHeader(file) !== null;
+        if (mode === 'encrypt' && !encrypted) {
+          encryptFileInPlace(file, dataSetId, key);
+          processed++;
+        } else if (mode === 'decrypt' && encrypted) {
+          decryptFileInPlace(file, key);
+          processed++;
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        failed++;
+        fail(path.relative(root, file), error);
+      }
+      advance();
+    }
+
+    // すべて平文に戻せたら鍵を捨てる（これで保護も解除できるようになる）
+    if (mode === 'decrypt' && failed === 0) {
+      repository.setEncryption(dataSetId, { enabled: false, salt: null, wrappedKey: null });
+    }
+
+    return { success: failed === 0, mode, processed, skipped, failed };
+  },
+};
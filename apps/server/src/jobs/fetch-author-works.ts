@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { StandaloneAuthorInboxRepository } from '../repositories/sqlite/author-inbox-repository';
+import {
+  fetchAuthorProfile,
+  fetchAuthorWorks,
+  getAuthorProviderFetcher,
+} from '../shared/author-providers';
+import type { JobHandler } from './job-queue';
+
+const FetchAuthorWorksPayloadSchema = z.object({
+  dataSetId: z.number().int().positive(),
+  authorIds: z.array(z.number().int().positive()).optional(),
+});
+
+type FetchAuthorWorksPayload = z.infer<typeof FetchAuthorWorksPayloadSchema>;
+
+// Fetches public profiles and recent works for every linked author into the inbox
+export const fetchAuthorWorksJob: JobHandler<FetchAuthorWorksPayload> = {
+  payloadSchema: FetchAuthorWorksPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    ...payload,
+    authorIds: failedItemKeys.map(Number).filter((id) => Number.isInteger(id) && id > 0),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const fetcher = getAuthorProviderFetcher();
+    if (!fetcher) throw new Error('Author provider is not configured');
+    const inboxRepository = new StandaloneAuthorInboxRepository();
+    const authors = inboxRepository.listLinkedAuthors(payload.dataSetId, payload.authorIds);
+    setTotal(authors.length);
+
+    let newWorks = 0;
+    for (const author of authors) {
+      throwIfCancelled();
+      try {
+        // プロフィールは先頭から順に、取れた最初のリンクのものを使う
+        let profileSaved = false;
+        for (const link of author.links) {
+          if (!profileSaved) {
+            const profile = await fetchAuthorProfile(link, fetcher);
+            if (profile) {
+              inboxRepository.saveProfile(author.id, profile);
+              profileSaved = true;
+            }
+          }
+          const works = await fetchAuthorWorks(link, fetcher);
+          newWorks += inboxRepository.upsertWorks(
+            author.id,
+            payload.dataSetId,
+            link.provider,
+            works
+          );
+        }
+      } catch (error) {
+        fail(author.id, error);
+      }
+      advance();
+    }
+
+    return { authors: authors.length, newWorks };
+  },
+};
@@ -0,0 +1,91 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { collectWatchedFileGroups, groupSignature, selectSettledGroups } from './folder-watcher';
+
+describe('folder watcher', () => {
+  let root: string;
+
+  const writeFile = (relativePath: string, content = 'data') => {
+    const target = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'watched-folder-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('groups top-level files and subfolders and skips partial or processed files', () => {
+    writeFile('cover.png');
+    writeFile('Chapter 1/002.png');
+    writeFile('Chapter 1/001.png');
+    writeFile('Chapter 1/extra/003.png');
+    writeFile('download.png.crdownload');
+    writeFile('.DS_Store');
+    writeFile('_imported/old.png');
+
+    const groups = collectWatchedFileGroups(root, {
+      processedPath: path.join(root, '_imported'),
+    });
+
+    expect(groups.map((group) => [group.key, group.folder])).toEqual([
+      ['Chapter 1/', 'Chapter 1'],
+      ['cover.png', null],
+    ]);
+    expect(groups[0].files.map((file) => file.relativePath)).toEqual([
+      'Chapter 1/001.png',
+      'Chapter 1/002.png',
+      'Chapter 1/extra/003.png',
+    ]);
+  });
+
+  it('skips files already imported with the same size and mtime', () => {
+    writeFile('kept.png');
+    writeFile('changed.png');
+    const [changed, kept] = collectWatchedFileGroups(root, { processedPath: '' });
+
+    const groups = collectWatchedFileGroups(root, {
+      processedPath: '',
+      imported: new Map([
+        ['kept.png', kept.files[0]],
+        ['changed.png', { ...changed.files[0], size: changed.files[0].size + 1 }],
+      ]),
+    });
+
+    expect(groups.map((group) => group.key)).toEqual(['changed.png']);
+  });
+
+  it('waits until a group is unchanged between scans and older than the settle time', () => {
+    const now = 100_000;
+    const stable = { key: 'a.png', name: 'a.png', folder: null, files: [] as never[] };
+    const groups = [
+      { ...stable, files: [{ relativePath: 'a.png', size: 10, mtimeMs: now - 10_000 }] },
+      {
+        ...stable,
+        key: 'b.png',
+        files: [{ relativePath: 'b.png', size: 5, mtimeMs: now - 1_000 }],
+      },
+      {
+        ...stable,
+        key: 'c.png',
+        files: [{ relativePath: 'c.png', size: 8, mtimeMs: now - 9_000 }],
+      },
+    ];
+    const previous = new Map([
+      ['a.png', groupSignature(groups[0])],
+      ['b.png', groupSignature(groups[1])],
+      // 前回の走査からサイズが変わった（書き込み中）
+      ['c.png', 'c.png:4:0'],
+    ]);
+
+    expect(selectSettledGroups(groups, previous, now, 5_000).map((group) => group.key)).toEqual([
+      'a.png',
+    ]);
+  });
+});
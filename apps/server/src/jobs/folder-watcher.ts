@@ -0,0 +1,227 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { FINISHED_JOB_STATUSES } from '../repositories/sqlite/job-repository';
+import {
+  type ImportedFileStamp,
+  StandaloneWatchedFolderRepository,
+  type WatchedFolder,
+} from '../repositories/sqlite/watched-folder-repository';
+import type { JobQueue } from './job-queue';
+
+const DEFAULT_WATCH_INTERVAL_MS = 3000;
+const DEFAULT_PROCESSED_DIR = '_imported';
+// ブラウザやコピーツールが書き込み中に使う一時ファイル
+const PARTIAL_FILE_SUFFIXES = ['.part', '.crdownload', '.download', '.tmp'];
+
+export interface WatchedFileEntry {
+  /** 監視フォルダからの相対パス（区切りは常に "/"） */
+  relativePath: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/** 監視フォルダ直下のファイル 1 つ、またはサブフォルダ 1 つ分の取り込み単位 */
+export interface WatchedFileGroup {
+  key: string;
+  name: string;
+  folder: string | null;
+  files: WatchedFileEntry[];
+}
+
+export const resolveProcessedPath = (folder: Pick<WatchedFolder, 'path' | 'processedPath'>) =>
+  folder.processedPath
+    ? path.resolve(folder.processedPath)
+    : path.join(path.resolve(folder.path), DEFAULT_PROCESSED_DIR);
+
+const isIgnoredName = (name: string) => {
+  const lower = name.toLowerCase();
+  return name.startsWith('.') || PARTIAL_FILE_SUFFIXES.some((suffix) => lower.endsWith(suffix));
+};
+
+const isImported = (entry: WatchedFileEntry, imported: Map<string, ImportedFileStamp>) => {
+  const stamp = imported.get(entry.relativePath);
+  return Boolean(
+    stamp && stamp.size === entry.size && Math.floor(stamp.mtimeMs) === Math.floor(entry.mtimeMs)
+  );
+};
+
+const compareEntries = (a: WatchedFileEntry, b: WatchedFileEntry) =>
+  a.relativePath.toLowerCase().localeCompare(b.relativePath.toLowerCase());
+
+function walkFiles(root: string, relativeDir: string, skipPath: string): WatchedFileEntry[] {
+  const entries: WatchedFileEntry[] = [];
+  const dir = path.join(root, relativeDir);
+  for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (isIgnoredName(dirent.name)) continue;
+    const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+    const fullPath = path.join(root, relativePath);
+    if (fullPath === skipPath) continue;
+    if (dirent.isDirectory()) {
+      entries.push(...walkFiles(root, relativePath, skipPath));
+    } else if (dirent.isFile()) {
+      const stat = fs.statSync(fullPath);
+      entries.push({ relativePath, size: stat.size, mtimeMs: stat.mtimeMs });
+    }
+  }
+  return entries;
+}
+
+/** 監視フォルダを走査し、取り込み対象をグループ単位で返す */
+export function collectWatchedFileGroups(
+  root: string,
+  options: { processedPath: string; imported?: Map<string, ImportedFileStamp> }
+): WatchedFileGroup[] {
+  const imported = options.imported ?? new Map<string, ImportedFileStamp>();
+  const resolvedRoot = path.resolve(root);
+  const topLevel = walkFiles(resolvedRoot, '', options.processedPath).filter(
+    (entry) => !isImported(entry, imported)
+  );
+
+  const groups = new Map<string, WatchedFileGroup>();
+  for (const entry of topLevel) {
+    const [first, ...rest] = entry.relativePath.split('/');
+    const folder = rest.length > 0 ? first : null;
+    const key = folder ? `${folder}/` : first;
+    const group = groups.get(key) ?? { key, name: first, folder, files: [] };
+    group.files.push(entry);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, files: group.files.sort(compareEntries) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export const groupSignature = (group: Pick<WatchedFileGroup, 'files'>) =>
+  group.files
+    .map((file) => `${file.relativePath}:${file.size}:${Math.floor(file.mtimeMs)}`)
+    .join('|');
+
+/** 前回の走査から変化がなく、最後の書き込みから settleMs 以上経ったグループだけを返す */
+export function selectSettledGroups(
+  groups: WatchedFileGroup[],
+  previousSignatures: Map<string, string>,
+  now: number,
+  settleMs: number
+) {
+  return groups.filter(
+    (group) =>
+      previousSignatures.get(group.key) === groupSignature(group) &&
+      group.files.every((file) => now - file.mtimeMs >= settleMs)
+  );
+}
+
+interface IngestPayloadGroup {
+  key: string;
+  files: WatchedFileEntry[];
+}
+
+/**
+ * 有効な監視フォルダを定期的に走査し、書き込みが落ち着いたファイルを取り込みジョブへ渡す。
+ * 取り込み中・失敗したグループはファイルが変わるまで再投入しない。
+ */
+export class FolderWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private scanning: Promise<void> | null = null;
+  private signatures = new Map<number, Map<string, string>>();
+  private inFlight = new Set<string>();
+  private failed = new Map<string, string>();
+
+  constructor(
+    private queue: JobQueue,
+    private jobType: string,
+    private createRepository: () => StandaloneWatchedFolderRepository = () =>
+      new StandaloneWatchedFolderRepository(),
+    private intervalMs = Number(process.env.WATCHED_FOLDER_INTERVAL_MS) || DEFAULT_WATCH_INTERVAL_MS
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.unsubscribe = this.queue.subscribe((job) => {
+      if (job.type !== this.jobType || !FINISHED_JOB_STATUSES.includes(job.status)) return;
+      const folderId = Number(job.payload.watchedFolderId);
+      const groups = (job.payload.groups ?? []) as IngestPayloadGroup[];
+      const failedKeys = Array.isArray(job.result?.failedGroups)
+        ? (job.result.failedGroups as string[])
+        : [];
+      for (const group of groups) {
+        const key = this.groupKey(folderId, group.key);
+        this.inFlight.delete(key);
+        if (job.status !== 'succeeded' || failedKeys.includes(group.key)) {
+          this.failed.set(key, groupSignature(group));
+        }
+      }
+    });
+    this.timer = setInterval(() => {
+      void this.scanAll();
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  scanAll() {
+    if (!this.scanning) {
+      this.scanning = Promise.resolve()
+        .then(() => {
+          for (const folder of this.createRepository().getEnabled()) this.scanFolder(folder);
+        })
+        .catch((error) => {
+          console.warn('Watched folder scan failed:', error);
+        })
+        .finally(() => {
+          this.scanning = null;
+        });
+    }
+    return this.scanning;
+  }
+
+  scanFolder(folder: WatchedFolder) {
+    const repository = this.createRepository();
+    try {
+      if (!fs.existsSync(folder.path) || !fs.statSync(folder.path).isDirectory()) {
+        throw new Error(`Folder not found: ${folder.path}`);
+      }
+      const groups = collectWatchedFileGroups(folder.path, {
+        processedPath: resolveProcessedPath(folder),
+        imported:
+          folder.afterImport === 'keep' ? repository.getImportedFiles(folder.id) : undefined,
+      });
+      const previous = this.signatures.get(folder.id) ?? new Map<string, string>();
+      this.signatures.set(
+        folder.id,
+        new Map(groups.map((group) => [group.key, groupSignature(group)]))
+      );
+
+      const ready = selectSettledGroups(
+        groups,
+        previous,
+        Date.now(),
+        folder.settleSeconds * 1000
+      ).filter((group) => {
+        const key = this.groupKey(folder.id, group.key);
+        return !this.inFlight.has(key) && this.failed.get(key) !== groupSignature(group);
+      });
+      if (ready.length > 0) {
+        for (const group of ready) this.inFlight.add(this.groupKey(folder.id, group.key));
+        this.queue.enqueue(
+          this.jobType,
+          { watchedFolderId: folder.id, groups: ready },
+          { dataSetId: folder.dataSetId }
+        );
+      }
+      repository.markScanned(folder.id, null);
+    } catch (error) {
+      repository.markScanned(folder.id, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private groupKey(folderId: number, groupKey: string) {
+    return `${folderId}:${groupKey}`;
+  }
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { StandaloneLibraryArchiveRepository } from '../repositories/sqlite/library-archive-repository';
+import {
+  LIBRARY_ARCHIVE_MANIFEST_NAME,
+  type LibraryArchiveAsset,
+  type LibraryArchiveManifest,
+  LibraryArchiveManifestSchema,
+} from '../schemas/library-archive-schema';
+import {
+  extractTarEntry,
+  readTarEntries,
+  readTarEntryBuffer,
+  type TarFileEntry,
+} from '../utils/tar';
+import { JobCancelledError, type JobHandler } from './job-queue';
+
+const ImportArchivePayloadSchema = z.object({
+  archivePath: z.string().min(1),
+  dataSetId: z.number().int().positive().optional(),
+  name: z.string().optional(),
+});
+
+type ImportArchivePayload = z.infer<typeof ImportArchivePayloadSchema>;
+
+/** アーカイブのエントリ一覧と検証済みの manifest を読み出す */
+export function readLibraryArchive(archivePath: string): {
+  entries: Map<string, TarFileEntry>;
+  manifest: LibraryArchiveManifest;
+} {
+  const entries = new Map(readTarEntries(archivePath).map((entry) => [entry.name, entry]));
+  const manifestEntry = entries.get(LIBRARY_ARCHIVE_MANIFEST_NAME);
+  if (!manifestEntry) throw new Error('Invalid archive: manifest.json is missing');
+  const raw = JSON.parse(readTarEntryBuffer(archivePath, manifestEntry).toString('utf8'));
+  const parsed = LibraryArchiveManifestSchema.safeParse(raw);
+  if (!parsed.success) throw new Error('Invalid archive: unsupported manifest');
+  return { entries, manifest: parsed.data };
+}
+
+// エクスポートしたライブラリのアーカイブを、新規または既存のデータセットへ復元する
+export const importArchiveJob: JobHandler<ImportArchivePayload> = {
+  payloadSchema: ImportArchivePayloadSchema,
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const { archivePath, dataSetId, name } = payload;
+    const storageRoot = process.env.FILES_STORAGE || path.resolve('./data');
+    const tmpDir = path.join(storageRoot, 'tmp');
+    if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true });
+
+    // 失敗したときはやり直せるようにアップロードされたアーカイブを残す
+    let keepArchive = true;
+    try {
+      const { entries, manifest } = readLibraryArchive(archivePath);
+      const repository = new StandaloneLibraryArchiveRepository();
+      const session = repository.beginImport(manifest, { dataSetId, name });
+
+      const assetsByStack = new Map<number, LibraryArchiveAsset[]>();
+      for (const asset of manifest.assets) {
+        const assets = assetsByStack.get(asset.stackId) ?? [];
+        assets.push(asset);
+        assetsByStack.set(asset.stackId, assets);
+      }
+      setTotal(manifest.stacks.length);
+
+      let skipped = 0;
+      for (const stack of manifest.stacks) {
+        throwIfCancelled();
+        const extracted: string[] = [];
+        try {
+          const result = await repository.importStack(
+            session,
+            stack,
+            assetsByStack.get(stack.id) ?? [],
+            async (asset) => {
+              const entry = asset.path ? entries.get(asset.path) : undefined;
+              if (!entry) throw new Error(`Archive entry not found: ${asset.path}`);
+              const target = path.resolve(tmpDir, `${randomUUID()}.${asset.fileType}`);
+              if (path.dirname(target) !== path.resolve(tmpDir)) {
+                throw new Error(`Invalid archive file type: ${asset.fileType}`);
+              }
+              extracted.push(target);
+              await extractTarEntry(archivePath, entry, target);
+              return target;
+            }
+          );
+          if (result === 'skipped') skipped++;
+        } catch (error) {
+          fail(stack.id, error);
+        } finally {
+          for (const file of extracted) fs.rmSync(file, { force: true });
+          advance();
+        }
+      }
+
+      const result = repository.finishImport(session, manifest);
+      keepArchive = false;
+      return { ...result, skippedStacks: skipped };
+    } catch (error) {
+      if (error instanceof JobCancelledError) keepArchive = false;
+      throw error;
+    } finally {
+      if (!keepArchive) fs.rmSync(archivePath, { force: true });
+    }
+  },
+};
@@ -0,0 +1,163 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { DuplicateAssetError } from '../errors/DuplicateAssetError';
+import { StandaloneAutoTagRepository } from '../repositories/sqlite/auto-tag-repository';
+import { StandaloneLibraryRepository } from '../repositories/sqlite/library-repository';
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+import { type ImportedFile, importAssetFromUrl, inferMediaTypeFromMime } from '../utils/urlImport';
+import type { JobHandler } from './job-queue';
+
+const ImportUrlsPayloadSchema = z.object({
+  urls: z.array(z.string().url()).min(1),
+  dataSetId: z.number().int().positive(),
+  stackId: z.number().int().positive().optional(),
+  mediaType: z.enum(['image', 'comic', 'video']).optional(),
+  collectionId: z.number().int().positive().optional(),
+  author: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  /** 取り込み元のページとリファラー。urls はメディアの URL として記録する */
+  pageUrl: z.string().url().optional(),
+  referrer: z.string().url().optional(),
+  channel: z.enum(['url-import', 'clipper']).optional(),
+  /** stackId が無いとき、最初に作ったスタックへ残りの URL もまとめる */
+  singleStack: z.boolean().optional(),
+});
+
+type ImportUrlsPayload = z.infer<typeof ImportUrlsPayloadSchema>;
+
+export interface UrlImportResult {
+  url: string;
+  status: 'created' | 'added' | 'skipped' | 'error';
+  stackId?: number;
+  assetId?: number;
+  message?: string;
+}
+
+// Downloads remote (or file://) URLs into a new stack each, or into an existing stack
+export const importUrlsJob: JobHandler<ImportUrlsPayload> = {
+  payloadSchema: ImportUrlsPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    ...payload,
+    urls: payload.urls.filter((url) => failedItemKeys.includes(url)),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const { urls, dataSetId, mediaType, collectionId, author, tags } = payload;
+    let stackId = payload.stackId;
+    const toSource = (url: string) => ({
+      channel: payload.channel ?? 'url-import',
+      pageUrl: payload.pageUrl ?? null,
+      mediaUrl: url,
+      referrer: payload.referrer ?? null,
+    });
+    const stackRepository = new StandaloneStackRepository();
+    const libraryRepository = new StandaloneLibraryRepository();
+    const autoTagRepository = new StandaloneAutoTagRepository();
+    const scheduleAutoTagPrediction = (asset: { id?: number } | null) => {
+      const assetId = Number(asset?.id ?? 0);
+      if (!assetId) return;
+      void autoTagRepository
+        .predictAssetTags(assetId, 0.4)
+        .catch((error) => {
+          console.error(`Failed to predict standalone AutoTags for asset ${assetId}:`, error);
+        })
+        .then(() => autoTagRepository.embedAsset(assetId))
+        .catch((error) => {
+          console.error(`Failed to embed asset ${assetId}:`, error);
+        });
+    };
+
+    const storageRoot = process.env.FILES_STORAGE || path.resolve('./data');
+    const tmpDir = path.join(storageRoot, 'tmp');
+    if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true });
+    setTotal(urls.length);
+
+    const results: UrlImportResult[] = [];
+    for (const url of urls) {
+      throwIfCancelled();
+      let downloaded: ImportedFile | null = null;
+      try {
+        // 取り込み済みの URL はダウンロードせずに飛ばす
+        const imported = stackRepository.findAssetBySourceUrl(dataSetId, url, stackId);
+        if (imported) {
+          results.push({
+            url,
+            status: 'skipped',
+            ...imported,
+            message: '取り込み済みの URL のためスキップしました',
+          });
+          continue;
+        }
+
+        downloaded = await importAssetFromUrl(url, tmpDir);
+
+        if (stackId) {
+          const asset = await stackRepository.addAssetWithFile(stackId, downloaded, {
+            source: toSource(url),
+          });
+          results.push({
+            url,
+            status: 'added',
+            stackId,
+            assetId: asset ? Number(asset.id) : undefined,
+          });
+          scheduleAutoTagPrediction(asset);
+          continue;
+        }
+
+        const createdStack = await stackRepository.createStackWithFile({
+          dataSetId,
+          name: downloaded.originalname,
+          mediaType:
+            mediaType ?? inferMediaTypeFromMime(downloaded.mimetype, downloaded.originalname),
+          tags,
+          author,
+          source: toSource(url),
+          file: downloaded,
+        });
+        const createdStackId = Number(createdStack?.id ?? 0);
+        const firstAssetId = Number(createdStack?.assets?.[0]?.id ?? 0);
+
+        if (collectionId && createdStackId) {
+          libraryRepository.addStackToCollection(collectionId, createdStackId);
+        }
+        if (payload.singleStack && createdStackId) stackId = createdStackId;
+
+        results.push({
+          url,
+          status: 'created',
+          stackId: createdStackId || undefined,
+          assetId: firstAssetId || undefined,
+        });
+        scheduleAutoTagPrediction(createdStack?.assets?.[0] ?? null);
+      } catch (error) {
+        if (downloaded) {
+          try {
+            fs.rmSync(downloaded.path, { force: true });
+          } catch (cleanupError) {
+            console.warn('Failed to clean up temp file after URL import error', cleanupError);
+          }
+        }
+
+        if (error instanceof DuplicateAssetError) {
+          results.push({
+            url,
+            status: 'skipped',
+            stackId: error.details?.stackId,
+            assetId: error.details?.assetId,
+            message: error.message,
+          });
+          continue;
+        }
+
+        const message = error instanceof Error ? error.message : 'URLの取得に失敗しました';
+        results.push({ url, status: 'error', message });
+        fail(url, message);
+      } finally {
+        advance();
+      }
+    }
+
+    return { results };
+  },
+};
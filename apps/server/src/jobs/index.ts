@@ -0,0 +1,42 @@
+import { computePerceptualHashesJob } from './compute-phashes';
+import { detectScenesJob } from './detect-scenes';
+import { encryptLibraryFilesJob } from './encrypt-library-files';
+import { fetchAuthorWorksJob } from './fetch-author-works';
+import { FolderWatcher } from './folder-watcher';
+import { importArchiveJob } from './import-archive';
+import { importUrlsJob } from './import-urls';
+import { ingestWatchedFolderJob } from './ingest-watched-folder';
+import { JobQueue } from './job-queue';
+import { refreshAllJob } from './refresh-all';
+import { refreshAutoTagsJob } from './refresh-autotags';
+import { refreshThumbnailsJob } from './refresh-thumbnails';
+import { TrashRetention } from './trash-retention';
+
+export const JOB_TYPES = {
+  refreshAll: 'dataset.refresh-all',
+  refreshThumbnails: 'stacks.refresh-thumbnails',
+  refreshAutoTags: 'stacks.refresh-autotags',
+  importUrls: 'stacks.import-urls',
+  computePerceptualHashes: 'dataset.compute-phashes',
+  importArchive: 'dataset.import-archive',
+  ingestWatchedFolder: 'watched-folders.ingest',
+  detectScenes: 'dataset.detect-scenes',
+  encryptLibraryFiles: 'dataset.encrypt-files',
+  fetchAuthorWorks: 'authors.fetch-works',
+} as const;
+
+export const jobQueue = new JobQueue()
+  .register(JOB_TYPES.refreshAll, refreshAllJob)
+  .register(JOB_TYPES.refreshThumbnails, refreshThumbnailsJob)
+  .register(JOB_TYPES.refreshAutoTags, refreshAutoTagsJob)
+  .register(JOB_TYPES.importUrls, importUrlsJob)
+  .register(JOB_TYPES.computePerceptualHashes, computePerceptualHashesJob)
+  .register(JOB_TYPES.importArchive, importArchiveJob)
+  .register(JOB_TYPES.ingestWatchedFolder, ingestWatchedFolderJob)
+  .register(JOB_TYPES.detectScenes, detectScenesJob)
+  .register(JOB_TYPES.encryptLibraryFiles, encryptLibraryFilesJob)
+  .register(JOB_TYPES.fetchAuthorWorks, fetchAuthorWorksJob);
+
+export const folderWatcher = new FolderWatcher(jobQueue, JOB_TYPES.ingestWatchedFolder);
+
+export const trashRetention = new TrashRetention();
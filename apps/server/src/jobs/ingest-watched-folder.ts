@@ -0,0 +1,277 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { DuplicateAssetError } from '../errors/DuplicateAssetError';
+import { StandaloneAutoTagRepository } from '../repositories/sqlite/auto-tag-repository';
+import { StandaloneLibraryRepository } from '../repositories/sqlite/library-repository';
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+import {
+  StandaloneWatchedFolderRepository,
+  type WatchedFolder,
+} from '../repositories/sqlite/watched-folder-repository';
+import { inferMediaTypeFromMime } from '../utils/urlImport';
+import {
+  resolveProcessedPath,
+  type WatchedFileEntry,
+  type WatchedFileGroup,
+} from './folder-watcher';
+import type { JobHandler } from './job-queue';
+
+const WatchedFileEntrySchema = z.object({
+  relativePath: z.string().min(1),
+  size: z.number(),
+  mtimeMs: z.number(),
+});
+
+const IngestWatchedFolderPayloadSchema = z.object({
+  watchedFolderId: z.number().int().positive(),
+  groups: z
+    .array(
+      z.object({
+        key: z.string().min(1),
+        name: z.string().min(1),
+        folder: z.string().nullable(),
+        files: z.array(WatchedFileEntrySchema).min(1),
+      })
+    )
+    .min(1),
+});
+
+type IngestWatchedFolderPayload = z.infer<typeof IngestWatchedFolderPayloadSchema>;
+// strict モードではないため z.infer の各プロパティは optional になる
+type IngestGroup = WatchedFileGroup;
+
+interface IngestContext {
+  folder: WatchedFolder;
+  root: string;
+  tmpDir: string;
+  stackRepository: StandaloneStackRepository;
+  libraryRepository: StandaloneLibraryRepository;
+  scheduleAutoTagPrediction: (asset: { id?: number } | null | undefined) => void;
+  stats: { stacks: number; assets: number; duplicates: number; collections: number };
+}
+
+// 元ファイルは残したまま一時ディレクトリへコピーして取り込む（取り込み処理はファイルを移動するため）
+const copyToTmp = (context: IngestContext, entry: WatchedFileEntry) => {
+  const source = path.join(context.root, entry.relativePath);
+  const originalname = path.basename(entry.relativePath);
+  const target = path.join(context.tmpDir, `${randomUUID()}${path.extname(originalname)}`);
+  fs.copyFileSync(source, target);
+  return { path: target, originalname, mimetype: '', size: fs.statSync(target).size };
+};
+
+const fileExists = (context: IngestContext, entry: WatchedFileEntry) =>
+  fs.existsSync(path.join(context.root, entry.relativePath));
+
+/** 1 ファイルを新しいスタックとして取り込む。重複ファイルは null を返す */
+async function createStackFromFile(context: IngestContext, entry: WatchedFileEntry, name: string) {
+  const { folder } = context;
+  const file = copyToTmp(context, entry);
+  try {
+    const stack = await context.stackRepository.createStackWithFile({
+      dataSetId: folder.dataSetId,
+      name,
+      mediaType: folder.mediaType ?? inferMediaTypeFromMime(file.mimetype, file.originalname),
+      tags: folder.tags,
+      author: folder.author ?? undefined,
+      source: { channel: 'watched-folder' },
+      file,
+    });
+    if (!stack) return null;
+    context.stats.stacks++;
+    context.stats.assets++;
+    context.scheduleAutoTagPrediction(stack.assets?.[0]);
+    return Number(stack.id);
+  } catch (error) {
+    fs.rmSync(file.path, { force: true });
+    if (error instanceof DuplicateAssetError) {
+      context.stats.duplicates++;
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function addFileToStack(context: IngestContext, stackId: number, entry: WatchedFileEntry) {
+  const file = copyToTmp(context, entry);
+  try {
+    const asset = await context.stackRepository.addAssetWithFile(stackId, file, {
+      source: { channel: 'watched-folder' },
+    });
+    if (asset) {
+      context.stats.assets++;
+      context.scheduleAutoTagPrediction(asset);
+    }
+  } catch (error) {
+    fs.rmSync(file.path, { force: true });
+    if (error instanceof DuplicateAssetError) {
+      context.stats.duplicates++;
+      return;
+    }
+    throw error;
+  }
+}
+
+const findOrCreateCollection = (context: IngestContext, name: string) => {
+  const existing = context.libraryRepository
+    .getCollectionList({
+      dataSetId: context.folder.dataSetId,
+      type: 'MANUAL',
+      limit: Number.MAX_SAFE_INTEGER,
+      offset: 0,
+    })
+    .collections.find((collection) => collection.name.toLowerCase() === name.toLowerCase());
+  if (existing) return Number(existing.id);
+  const created = context.libraryRepository.createCollection({
+    name,
+    icon: 'Folder',
+    type: 'MANUAL',
+    dataSetId: context.folder.dataSetId,
+  });
+  context.stats.collections++;
+  return Number(created?.id);
+};
+
+const addToCollection = (context: IngestContext, collectionId: number | null, stackId: number) => {
+  if (collectionId && stackId)
+    context.libraryRepository.addStackToCollection(collectionId, stackId);
+};
+
+/** グループ化方式に従って 1 グループ分を取り込む */
+async function ingestGroup(context: IngestContext, group: IngestGroup) {
+  const files = group.files.filter((entry) => fileExists(context, entry));
+  if (files.length === 0) return;
+  const { folder } = context;
+
+  if (group.folder && folder.groupingMode === 'single-stack') {
+    const [primary, ...rest] = files;
+    let stackId = await createStackFromFile(context, primary, group.name);
+    for (const entry of rest) {
+      if (stackId) await addFileToStack(context, stackId, entry);
+      else stackId = await createStackFromFile(context, entry, group.name);
+    }
+    if (stackId) addToCollection(context, folder.collectionId, stackId);
+    return;
+  }
+
+  // フォルダ名のコレクションを作る場合は、設定済みの追加先コレクションは使わない
+  const collectionId =
+    group.folder && folder.groupingMode === 'create-collection'
+      ? findOrCreateCollection(context, group.name)
+      : folder.collectionId;
+  for (const entry of files) {
+    const stackId = await createStackFromFile(context, entry, path.basename(entry.relativePath));
+    if (stackId) addToCollection(context, collectionId, stackId);
+  }
+}
+
+const uniqueTargetPath = (target: string) => {
+  if (!fs.existsSync(target)) return target;
+  const ext = path.extname(target);
+  const base = target.slice(0, target.length - ext.length);
+  for (let index = 1; ; index++) {
+    const candidate = `${base} (${index})${ext}`;
+    if (!fs.existsSync(candidate)) return candidate;
+  }
+};
+
+const moveFile = (source: string, target: string) => {
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  try {
+    fs.renameSync(source, target);
+  } catch (error) {
+    // 別ボリュームへの移動はコピーしてから削除する
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    fs.copyFileSync(source, target);
+    fs.rmSync(source, { force: true });
+  }
+};
+
+/** 取り込み済みのファイルを処理済みフォルダへ移動するか、取り込み済みとして記録する */
+function finalizeGroup(
+  context: IngestContext,
+  repository: StandaloneWatchedFolderRepository,
+  group: IngestGroup
+) {
+  const { folder, root } = context;
+  if (folder.afterImport === 'keep') {
+    for (const entry of group.files) {
+      repository.recordImportedFile(folder.id, entry.relativePath, entry);
+    }
+    return;
+  }
+
+  const processedRoot = resolveProcessedPath(folder);
+  for (const entry of group.files) {
+    const source = path.join(root, entry.relativePath);
+    if (!fs.existsSync(source)) continue;
+    moveFile(source, uniqueTargetPath(path.join(processedRoot, entry.relativePath)));
+  }
+  if (group.folder) {
+    const folderPath = path.join(root, group.folder);
+    try {
+      if (fs.readdirSync(folderPath, { recursive: true }).length === 0) {
+        fs.rmSync(folderPath, { recursive: true, force: true });
+      }
+    } catch {}
+  }
+}
+
+// 監視フォルダで見つかったファイルを、フォルダごとの設定（グループ化方式・既定値）で取り込む
+export const ingestWatchedFolderJob: JobHandler<IngestWatchedFolderPayload> = {
+  payloadSchema: IngestWatchedFolderPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    ...payload,
+    groups: payload.groups.filter((group) => failedItemKeys.includes(group.key)),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const watchedFolderRepository = new StandaloneWatchedFolderRepository();
+    const folder = watchedFolderRepository.getById(payload.watchedFolderId);
+    if (!folder) throw new Error(`Watched folder ${payload.watchedFolderId} not found`);
+
+    const autoTagRepository = new StandaloneAutoTagRepository();
+    const storageRoot = process.env.FILES_STORAGE || path.resolve('./data');
+    const tmpDir = path.join(storageRoot, 'tmp');
+    if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true });
+
+    const context: IngestContext = {
+      folder,
+      root: path.resolve(folder.path),
+      tmpDir,
+      stackRepository: new StandaloneStackRepository(),
+      libraryRepository: new StandaloneLibraryRepository(),
+      scheduleAutoTagPrediction: (asset) => {
+        const assetId = Number(asset?.id ?? 0);
+        if (!assetId) return;
+        void autoTagRepository
+          .predictAssetTags(assetId, 0.4)
+          .catch((error) => {
+            console.error(`Failed to predict standalone AutoTags for asset ${assetId}:`, error);
+          })
+          .then(() => autoTagRepository.embedAsset(assetId))
+          .catch((error) => {
+            console.error(`Failed to embed asset ${assetId}:`, error);
+          });
+      },
+      stats: { stacks: 0, assets: 0, duplicates: 0, collections: 0 },
+    };
+
+    setTotal(payload.groups.length);
+    const failedGroups: string[] = [];
+    for (const group of payload.groups as IngestGroup[]) {
+      throwIfCancelled();
+      try {
+        await ingestGroup(context, group);
+        finalizeGroup(context, watchedFolderRepository, group);
+      } catch (error) {
+        failedGroups.push(group.key);
+        fail(group.key, error);
+      } finally {
+        advance();
+      }
+    }
+
+    return { ...context.stats, failedGroups };
+  },
+};
@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { StandaloneJobRepository } from '../repositories/sqlite/job-repository';
+import { JobQueue } from './job-queue';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+
+const ItemsPayloadSchema = z.object({ items: z.array(z.string()) });
+
+describe('JobQueue', () => {
+  let repository: StandaloneJobRepository;
+  let queue: JobQueue;
+  let processed: string[];
+
+  beforeEach(() => {
+    const db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneJobRepository(db);
+    processed = [];
+    queue = new JobQueue(() => repository).register('test.items', {
+      payloadSchema: ItemsPayloadSchema,
+      retryPayload: (payload, failedItemKeys) => ({
+        items: payload.items.filter((item) => failedItemKeys.includes(item)),
+      }),
+      async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+        setTotal(payload.items.length);
+        for (const item of payload.items) {
+          throwIfCancelled();
+          if (item.startsWith('bad')) {
+            fail(item, new Error(`cannot process ${item}`));
+          } else {
+            processed.push(item);
+          }
+          advance();
+        }
+        return { processed: processed.length };
+      },
+    });
+  });
+
+  it('runs queued jobs and records per-item failures', async () => {
+    const job = queue.enqueue('test.items', { items: ['a', 'bad-1', 'b'] });
+    expect(job.status).toBe('queued');
+
+    await queue.runPending();
+
+    const finished = repository.getById(job.id);
+    expect(finished).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      result: { processed: 2 },
+      progress: { total: 3, done: 3, failed: 1 },
+    });
+    expect(repository.getFailures(job.id)).toEqual([
+      expect.objectContaining({ itemKey: 'bad-1', message: 'cannot process bad-1' }),
+    ]);
+  });
+
+  it('retries only the failed items as a new job', async () => {
+    const job = queue.enqueue('test.items', { items: ['a', 'bad-1', 'bad-2'] });
+    await queue.runPending();
+
+    const retry = queue.retry(job.id, { failedOnly: true });
+    expect(retry).toMatchObject({
+      retryOfJobId: job.id,
+      payload: { items: ['bad-1', 'bad-2'] },
+    });
+    expect(queue.retry(retry?.id ?? 0)).toBeNull();
+  });
+
+  it('cancels queued jobs immediately and running jobs at the next checkpoint', async () => {
+    const queued = queue.enqueue('test.items', { items: ['a'] });
+    expect(queue.cancel(queued.id)?.status).toBe('cancelled');
+
+    const running = queue.enqueue('test.items', { items: ['a', 'b', 'c'] });
+    const unsubscribe = queue.subscribe((job) => {
+      if (job.id === running.id && job.status === 'running' && !job.cancelRequested) {
+        queue.cancel(running.id);
+      }
+    });
+    await queue.runPending();
+    unsubscribe();
+
+    expect(repository.getById(running.id)).toMatchObject({
+      status: 'cancelled',
+      cancelRequested: true,
+    });
+    expect(processed).toEqual([]);
+  });
+
+  it('requeues jobs left running by a previous process', () => {
+    const job = queue.enqueue('test.items', { items: [] });
+    repository.claimNext();
+
+    expect(repository.requeueInterrupted()).toBe(1);
+    expect(repository.getById(job.id)?.status).toBe('queued');
+  });
+});
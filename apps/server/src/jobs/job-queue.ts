@@ -0,0 +1,249 @@
+import { EventEmitter } from 'node:events';
+import type { z } from 'zod';
+import {
+  FINISHED_JOB_STATUSES,
+  type StandaloneJob,
+  StandaloneJobRepository,
+} from '../repositories/sqlite/job-repository';
+import { runWithCurrentUser } from '../shared/current-user';
+
+const PROGRESS_EMIT_INTERVAL_MS = 250;
+
+export interface JobContext<TPayload> {
+  job: StandaloneJob;
+  payload: TPayload;
+  setTotal(total: number): void;
+  /** 処理済み件数を進める（失敗した項目も処理済みとして数える） */
+  advance(count?: number): void;
+  /** 項目単位の失敗を記録する。ジョブ自体は継続する */
+  fail(itemKey: string | number, error: unknown): void;
+  throwIfCancelled(): void;
+}
+
+export interface JobHandler<TPayload> {
+  payloadSchema: z.ZodType<TPayload, z.ZodTypeDef, unknown>;
+  run(context: JobContext<TPayload>): Promise<Record<string, unknown>>;
+  /** 失敗した項目だけを再実行する payload を返す。未定義の場合は同じ payload で再実行する */
+  retryPayload?(payload: TPayload, failedItemKeys: string[]): TPayload;
+}
+
+export interface EnqueueJobOptions {
+  dataSetId?: number | null;
+}
+
+export type JobListener = (job: StandaloneJob) => void;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+// payload の型が違うハンドラを同じ Map に置くため、検証済みの payload を閉じ込めた形にして持つ
+type PreparedJob = {
+  run(context: Omit<JobContext<unknown>, 'payload'>): Promise<Record<string, unknown>>;
+  retryPayload?(failedItemKeys: string[]): Record<string, unknown>;
+};
+type ErasedJobHandler = (payload: unknown) => PreparedJob | null;
+
+const eraseJobHandler =
+  <TPayload extends Record<string, unknown>>(handler: JobHandler<TPayload>): ErasedJobHandler =>
+  (payload) => {
+    const parsed = handler.payloadSchema.safeParse(payload);
+    if (!parsed.success) return null;
+    const data = parsed.data;
+    const { retryPayload } = handler;
+    return {
+      run: (context) => handler.run({ ...context, payload: data }),
+      retryPayload: retryPayload && ((failedItemKeys) => retryPayload(data, failedItemKeys)),
+    };
+  };
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error ?? 'Unknown error');
+
+export class JobQueue {
+  private handlers = new Map<string, ErasedJobHandler>();
+  private events = new EventEmitter();
+  private repository: StandaloneJobRepository | null = null;
+  private draining: Promise<void> | null = null;
+
+  constructor(
+    private createRepository: () => StandaloneJobRepository = () => new StandaloneJobRepository()
+  ) {
+    this.events.setMaxListeners(0);
+  }
+
+  private get jobs() {
+    if (!this.repository) this.repository = this.createRepository();
+    return this.repository;
+  }
+
+  register<TPayload extends Record<string, unknown>>(type: string, handler: JobHandler<TPayload>) {
+    this.handlers.set(type, eraseJobHandler(handler));
+    return this;
+  }
+
+  subscribe(listener: JobListener) {
+    this.events.on('job', listener);
+    return () => {
+      this.events.off('job', listener);
+    };
+  }
+
+  enqueue<TPayload extends Record<string, unknown>>(
+    type: string,
+    payload: TPayload,
+    options: EnqueueJobOptions = {}
+  ) {
+    if (!this.handlers.has(type)) throw new Error(`Unknown job type: ${type}`);
+    const job = this.jobs.create({ type, payload, dataSetId: options.dataSetId });
+    this.emit(job);
+    this.kick();
+    return job;
+  }
+
+  cancel(id: number) {
+    const job = this.jobs.requestCancel(id);
+    if (job) this.emit(job);
+    return job;
+  }
+
+  /** 終了済みのジョブを新しいジョブとして再投入する */
+  retry(id: number, options: { failedOnly?: boolean } = {}) {
+    const source = this.jobs.getById(id);
+    if (!source || !FINISHED_JOB_STATUSES.includes(source.status)) return null;
+
+    let payload = source.payload;
+    const prepared = this.handlers.get(source.type)?.(payload);
+    if (options.failedOnly && prepared?.retryPayload) {
+      const failedItemKeys = this.jobs.getFailedItemKeys(id);
+      if (failedItemKeys.length > 0) {
+        payload = prepared.retryPayload(failedItemKeys);
+      }
+    }
+
+    const job = this.jobs.create({
+      type: source.type,
+      dataSetId: source.dataSetId,
+      payload,
+      retryOfJobId: source.id,
+    });
+    this.emit(job);
+    this.kick();
+    return job;
+  }
+
+  /** 起動時に中断されたジョブを戻して処理を再開する */
+  start() {
+    try {
+      const requeued = this.jobs.requeueInterrupted();
+      if (requeued > 0) console.log(`Requeued ${requeued} interrupted job(s)`);
+    } catch (error) {
+      console.warn('Job queue is not available:', error);
+      return;
+    }
+    this.kick();
+  }
+
+  /** 待機中のジョブがなくなるまで順番に実行する */
+  runPending() {
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private kick() {
+    // 投入したリクエストのログインユーザーをジョブの実行に持ち越さない
+    setImmediate(() => {
+      runWithCurrentUser(null, () => {
+        void this.runPending();
+      });
+    });
+  }
+
+  private async drain() {
+    for (;;) {
+      const job = this.jobs.claimNext();
+      if (!job) return;
+      this.emit(job);
+      await this.execute(job);
+    }
+  }
+
+  private async execute(job: StandaloneJob) {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      this.finish(job.id, 'failed', { error: `Unknown job type: ${job.type}` });
+      return;
+    }
+
+    const prepared = handler(job.payload);
+    if (!prepared) {
+      this.finish(job.id, 'failed', { error: 'Invalid job payload' });
+      return;
+    }
+
+    const progress = { total: 0, done: 0, failed: 0 };
+    let lastEmittedAt = 0;
+    const report = (force = false) => {
+      this.jobs.updateProgress(job.id, progress);
+      const now = Date.now();
+      if (!force && now - lastEmittedAt < PROGRESS_EMIT_INTERVAL_MS) return;
+      lastEmittedAt = now;
+      const current = this.jobs.getById(job.id);
+      if (current) this.emit(current);
+    };
+
+    const context: Omit<JobContext<unknown>, 'payload'> = {
+      job,
+      setTotal: (total) => {
+        progress.total = total;
+        report(true);
+      },
+      advance: (count = 1) => {
+        progress.done += count;
+        report();
+      },
+      fail: (itemKey, error) => {
+        progress.failed++;
+        this.jobs.addFailure(job.id, String(itemKey), toErrorMessage(error));
+        report();
+      },
+      throwIfCancelled: () => {
+        if (this.jobs.isCancelRequested(job.id)) throw new JobCancelledError();
+      },
+    };
+
+    try {
+      const result = await prepared.run(context);
+      this.jobs.updateProgress(job.id, progress);
+      this.finish(job.id, 'succeeded', { result });
+    } catch (error) {
+      this.jobs.updateProgress(job.id, progress);
+      if (error instanceof JobCancelledError) {
+        this.finish(job.id, 'cancelled');
+        return;
+      }
+      console.error(`Job ${job.id} (${job.type}) failed:`, error);
+      this.finish(job.id, 'failed', { error: toErrorMessage(error) });
+    }
+  }
+
+  private finish(
+    id: number,
+    status: 'succeeded' | 'failed' | 'cancelled',
+    outcome?: { result?: Record<string, unknown>; error?: string }
+  ) {
+    const job = this.jobs.finish(id, status, outcome);
+    if (job) this.emit(job);
+  }
+
+  private emit(job: StandaloneJob) {
+    this.events.emit('job', job);
+  }
+}
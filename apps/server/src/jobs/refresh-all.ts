@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { StandaloneAutoTagRepository } from '../repositories/sqlite/auto-tag-repository';
+import { StandaloneColorRepository } from '../repositories/sqlite/color-repository';
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+import type { JobHandler } from './job-queue';
+
+const RefreshAllPayloadSchema = z.object({
+  dataSetId: z.number().int().positive(),
+  forceRegenerate: z.boolean().default(false),
+  // 失敗分の再実行時のみ指定される
+  stackIds: z.array(z.number().int().positive()).optional(),
+});
+
+type RefreshAllPayload = z.infer<typeof RefreshAllPayloadSchema>;
+
+// Full dataset refresh: thumbnails + previews + embedded metadata + colors + autotags + embeddings + search index
+export const refreshAllJob: JobHandler<RefreshAllPayload> = {
+  payloadSchema: RefreshAllPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    ...payload,
+    stackIds: failedItemKeys.map(Number).filter((id) => Number.isInteger(id) && id > 0),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const { dataSetId, forceRegenerate } = payload;
+    const stackRepository = new StandaloneStackRepository();
+    const colorRepository = new StandaloneColorRepository();
+    const autoTagRepository = new StandaloneAutoTagRepository();
+
+    const datasetStackIds = stackRepository.getStackIdsByDataset(dataSetId);
+    const stackIds = payload.stackIds
+      ? datasetStackIds.filter((id) => payload.stackIds?.includes(id))
+      : datasetStackIds;
+    const targetStackIds = new Set(stackIds);
+    const colorStackIds = colorRepository
+      .getDatasetUpdateCandidateStackIds(dataSetId)
+      .filter((id) => targetStackIds.has(id));
+    // サムネイル+プレビュー、色、AutoTag・埋め込み集計の各ステップと、予測・埋め込み・検索インデックスの 3 ステップ
+    setTotal(stackIds.length * 2 + colorStackIds.length + 3);
+
+    const actualMediaTypeResult = stackRepository.refreshActualMediaTypesForDataset(dataSetId);
+    let thumbnailEligible = 0;
+    let thumbnailRegenerated = 0;
+    let thumbnailFailures = 0;
+    let previewEligible = 0;
+    let previewRegenerated = 0;
+    let previewFailures = 0;
+    let embeddedMetadataExtracted = 0;
+
+    for (const stackId of stackIds) {
+      throwIfCancelled();
+      try {
+        const thumbnailResult = await stackRepository.refreshStackThumbnail(stackId, {
+          refreshActualMediaType: false,
+          force: forceRegenerate,
+        });
+        thumbnailEligible += thumbnailResult?.eligible ?? 0;
+        thumbnailRegenerated += thumbnailResult?.regenerated ?? 0;
+        thumbnailFailures += thumbnailResult?.failed?.length ?? 0;
+        if (thumbnailResult?.failed?.length) {
+          fail(stackId, `${thumbnailResult.failed.length} thumbnail(s) failed`);
+        }
+      } catch (error) {
+        thumbnailFailures++;
+        fail(stackId, error);
+      }
+      try {
+        const previewResult = await stackRepository.regeneratePreviews(stackId, dataSetId, {
+          force: forceRegenerate,
+        });
+        previewEligible += previewResult?.eligible ?? 0;
+        previewRegenerated += previewResult?.regenerated ?? 0;
+        previewFailures += previewResult?.failed?.length ?? 0;
+      } catch (error) {
+        previewFailures++;
+        fail(stackId, error);
+      }
+      try {
+        const metadataResult = await stackRepository.extractStackEmbeddedMetadata(stackId, {
+          force: forceRegenerate,
+        });
+        embeddedMetadataExtracted += metadataResult.extracted;
+      } catch (error) {
+        fail(stackId, error);
+      }
+      advance();
+    }
+
+    for (const stackId of colorStackIds) {
+      throwIfCancelled();
+      try {
+        colorRepository.updateStackColors(stackId);
+      } catch (error) {
+        fail(stackId, error);
+      }
+      advance();
+    }
+
+    throwIfCancelled();
+    const autotagPredictionResult = await autoTagRepository.predictDatasetAssetTags(dataSetId, {
+      threshold: 0.4,
+      forceRegenerate,
+    });
+    advance();
+
+    throwIfCancelled();
+    const embeddingResult = await autoTagRepository.embedDatasetAssets(dataSetId, {
+      forceRegenerate,
+    });
+    advance();
+
+    let autotagUpdated = 0;
+    for (const stackId of stackIds) {
+      throwIfCancelled();
+      try {
+        autoTagRepository.aggregateStackTags(stackId, 0.4);
+        // 統合などでアセット構成が変わったスタックの代表ベクトルも作り直す
+        autoTagRepository.aggregateStackEmbedding(stackId);
+        autotagUpdated++;
+      } catch (error) {
+        fail(stackId, error);
+      }
+      advance();
+    }
+
+    const searchIndexResult = stackRepository.rebuildSearchIndex(dataSetId);
+    advance();
+
+    return {
+      datasetId: dataSetId,
+      totalStacks: stackIds.length,
+      scheduled: {
+        thumbnails: thumbnailRegenerated,
+        previews: previewRegenerated,
+        colors: colorStackIds.length,
+        actualMediaTypes: actualMediaTypeResult.total,
+        autotags: autotagUpdated,
+        autotagPredictions: autotagPredictionResult.predictedAssets,
+        searchIndex: searchIndexResult.indexed,
+        embeddings: embeddingResult.embeddedAssets,
+        embeddedMetadata: embeddedMetadataExtracted,
+      },
+      totals: {
+        thumbnailCandidates: thumbnailEligible,
+        thumbnailFailures,
+        previewCandidates: previewEligible,
+        previewFailures,
+        actualMediaTypeCandidates: actualMediaTypeResult.total,
+        autotagCandidates: autotagPredictionResult.candidateAssets,
+        autotagFailures: autotagPredictionResult.failedAssets,
+        embeddings: embeddingResult.candidateAssets,
+        embeddingFailures: embeddingResult.failedAssets,
+      },
+    };
+  },
+};
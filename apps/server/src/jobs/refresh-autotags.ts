@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { StandaloneAutoTagRepository } from '../repositories/sqlite/auto-tag-repository';
+import type { JobHandler } from './job-queue';
+
+const RefreshAutoTagsPayloadSchema = z.object({
+  stackIds: z.array(z.number().int().positive()).min(1),
+  threshold: z.number().min(0).max(1).default(0.4),
+  forceRegenerate: z.boolean().default(true),
+});
+
+type RefreshAutoTagsPayload = z.infer<typeof RefreshAutoTagsPayloadSchema>;
+
+// Re-predicts AutoTags for every asset of the given stacks and re-aggregates them
+export const refreshAutoTagsJob: JobHandler<RefreshAutoTagsPayload> = {
+  payloadSchema: RefreshAutoTagsPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    ...payload,
+    stackIds: payload.stackIds.filter((id) => failedItemKeys.includes(String(id))),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const autoTagRepository = new StandaloneAutoTagRepository();
+    setTotal(payload.stackIds.length);
+
+    const stacks: Array<Awaited<ReturnType<StandaloneAutoTagRepository['refreshStackTags']>>> = [];
+    for (const stackId of payload.stackIds) {
+      throwIfCancelled();
+      try {
+        const result = await autoTagRepository.refreshStackTags(stackId, {
+          threshold: payload.threshold,
+          forceRegenerate: payload.forceRegenerate,
+        });
+        if (result.failedAssets > 0) {
+          fail(stackId, `${result.failedAssets} asset(s) failed`);
+        }
+        stacks.push(result);
+      } catch (error) {
+        fail(stackId, error);
+      }
+      advance();
+    }
+
+    return { stacks };
+  },
+};
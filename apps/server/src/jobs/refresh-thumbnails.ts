@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+import type { JobHandler } from './job-queue';
+
+const RefreshThumbnailsPayloadSchema = z.object({
+  stackIds: z.array(z.number().int().positive()).min(1),
+});
+
+type RefreshThumbnailsPayload = z.infer<typeof RefreshThumbnailsPayloadSchema>;
+
+// Bulk thumbnail + preview regeneration for selected stacks
+export const refreshThumbnailsJob: JobHandler<RefreshThumbnailsPayload> = {
+  payloadSchema: RefreshThumbnailsPayloadSchema,
+  retryPayload: (payload, failedItemKeys) => ({
+    stackIds: payload.stackIds.filter((id) => failedItemKeys.includes(String(id))),
+  }),
+  async run({ payload, setTotal, advance, fail, throwIfCancelled }) {
+    const stackRepository = new StandaloneStackRepository();
+    setTotal(payload.stackIds.length);
+
+    let updated = 0;
+    let thumbnailEligible = 0;
+    let thumbnailRegenerated = 0;
+    let thumbnailSkipped = 0;
+    let thumbnailFailures = 0;
+    let previewEligible = 0;
+    let previewRegenerated = 0;
+    let previewFailures = 0;
+    const errors: string[] = [];
+
+    for (const stackId of payload.stackIds) {
+      throwIfCancelled();
+      const thumbnails = await stackRepository.bulkRefreshThumbnails([stackId]);
+      updated += thumbnails.updated;
+      thumbnailEligible += thumbnails.thumbnails.eligible;
+      thumbnailRegenerated += thumbnails.thumbnails.regenerated;
+      thumbnailSkipped += thumbnails.thumbnails.skipped;
+      thumbnailFailures += thumbnails.thumbnails.failures;
+      errors.push(...thumbnails.errors);
+      if (!thumbnails.success) fail(stackId, thumbnails.errors.join(', '));
+
+      try {
+        const stack = stackRepository.getById(stackId);
+        const dataSetId = Number(stack?.dataSetId ?? stack?.datasetId);
+        if (!stack || !Number.isFinite(dataSetId)) {
+          previewFailures++;
+        } else {
+          const result = await stackRepository.regeneratePreviews(stackId, dataSetId, {
+            force: true,
+          });
+          previewEligible += result?.eligible ?? 0;
+          previewRegenerated += result?.regenerated ?? 0;
+          previewFailures += result?.failed?.length ?? 0;
+          if (result?.failed?.length) {
+            fail(stackId, `${result.failed.length} preview(s) failed`);
+          }
+        }
+      } catch (error) {
+        previewFailures++;
+        fail(stackId, error);
+      }
+      advance();
+    }
+
+    return {
+      success: errors.length === 0 && previewFailures === 0,
+      updated: {
+        success: errors.length === 0,
+        updated,
+        errors,
+        thumbnails: {
+          eligible: thumbnailEligible,
+          regenerated: thumbnailRegenerated,
+          skipped: thumbnailSkipped,
+          failures: thumbnailFailures,
+        },
+      },
+      previews: {
+        eligible: previewEligible,
+        regenerated: previewRegenerated,
+        failures: previewFailures,
+      },
+    };
+  },
+};
@@ -0,0 +1,37 @@
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** 保持期間を過ぎたゴミ箱の項目を定期的に完全削除する */
+export class TrashRetention {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private createRepository: () => StandaloneStackRepository = () =>
+      new StandaloneStackRepository(),
+    private intervalMs = Number(process.env.TRASH_PURGE_INTERVAL_MS) || DEFAULT_PURGE_INTERVAL_MS
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.purgeExpired();
+    this.timer = setInterval(() => this.purgeExpired(), this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  purgeExpired() {
+    try {
+      const purged = this.createRepository().purgeExpiredTrash();
+      if (purged > 0) console.log(`Purged ${purged} expired trash item(s)`);
+      return purged;
+    } catch (error) {
+      console.warn('Trash purge failed:', error);
+      return 0;
+    }
+  }
+}
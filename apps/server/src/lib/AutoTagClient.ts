@@ -1,5 +1,8 @@
 import { readFile } from 'node:fs/promises';
 import path from 'node:path';
+import { readStoredFile } from '../utils/dataset-encryption';
+import { readEncryptedFileHeader } from '../utils/file-encryption';
+import { DataStorage } from './DataStorage';
 
 interface TagPrediction {
   predicted_tags: string[];
@@ -9,7 +12,12 @@ interface TagPrediction {
   processing_time_ms?: number;
 }
 
-// Embedding/CLIP interfaces removed (AutoTag-only)
+interface ImageEmbedding {
+  embedding: number[];
+  dimensions: number;
+  model: string;
+  processing_time_ms?: number;
+}
 
 export class AutoTagClient {
   private baseURL: string;
@@ -42,6 +50,15 @@ export class AutoTagClient {
       imagePathOrKey.startsWith('files/') ||
       !imagePathOrKey.startsWith('/')
     ) {
+      // 暗号化されたライブラリのファイルは AutoTag サーバーから読めないので、復号して送る
+      const filePath = DataStorage.getPath(imagePathOrKey);
+      if (readEncryptedFileHeader(filePath)) {
+        return this.generateTagsFromBuffer(
+          readStoredFile(filePath),
+          path.basename(filePath),
+          threshold
+        );
+      }
       // Send as file key
       return this.requestJson('/api/v1/tag', {
         method: 'POST',
@@ -51,18 +68,18 @@ export class AutoTagClient {
           threshold,
         }),
       });
-    } else {
-      // Send as file upload for absolute paths
-      const image = await readFile(imagePathOrKey);
-      const formData = new FormData();
-      formData.append('image', new Blob([toBlobPart(image)]), path.basename(imagePathOrKey));
-      formData.append('threshold', threshold.toString());
-
-      return this.requestJson('/api/v1/tag', {
-        method: 'POST',
-        body: formData,
-      });
     }
+
+    // Send as file upload for absolute paths
+    const image = await readFile(imagePathOrKey);
+    const formData = new FormData();
+    formData.append('image', new Blob([toBlobPart(image)]), path.basename(imagePathOrKey));
+    formData.append('threshold', threshold.toString());
+
+    return this.requestJson('/api/v1/tag', {
+      method: 'POST',
+      body: formData,
+    });
   }
 
   /**
@@ -93,7 +110,16 @@ export class AutoTagClient {
     return this.generateTags(fileKey, threshold);
   }
 
-  // All embedding/CLIP methods removed. Only AutoTag endpoints remain.
+  /**
+   * Generate an L2-normalized image embedding from a file key
+   */
+  async generateEmbedding(fileKey: string): Promise<ImageEmbedding> {
+    return this.requestJson('/api/v1/embed', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ file_key: fileKey }),
+    });
+  }
 
   private requestUrl(route: string): string {
     return new URL(route, `${this.baseURL}/`).toString();
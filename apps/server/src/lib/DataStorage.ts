@@ -2,7 +2,14 @@ import * as fs from 'node:fs';
 import path from 'node:path';
 import type { Stream } from 'node:stream';
 import fsExtra, { type Dirent, type WriteStream } from 'fs-extra';
-import { getHash } from '../utils/functions';
+import { createStreamDigest } from '../utils/createDigest';
+import {
+  createStoredFileStream,
+  readStoredFile,
+  sealStoredFile,
+  withReadableFilePath,
+} from '../utils/dataset-encryption';
+import { getFileDatasetId } from '../utils/file-access';
 
 const { mkdirp, mkdirpSync, rmdir } = fsExtra;
 
@@ -109,20 +116,12 @@ export class DataStorage {
 
   static async get(key: string, dataSetId?: number): Promise<string> {
     const finalKey = DataStorage.buildPath(key, dataSetId);
-    return new Promise((resolve, reject) => {
-      fs.readFile(DataStorage.getPath(finalKey), { encoding: 'utf-8' }, (err, data) => {
-        if (err) {
-          return reject(err);
-        }
-
-        resolve(data);
-      });
-    });
+    return readStoredFile(resolveStoragePath(finalKey)).toString('utf-8');
   }
 
   static getStream(key: string, dataSetId?: number): Stream {
     const finalKey = DataStorage.buildPath(key, dataSetId);
-    return fs.createReadStream(DataStorage.getPath(finalKey));
+    return createStoredFileStream(resolveStoragePath(finalKey));
   }
 
   static async put(key: string, data: string, dataSetId?: number): Promise<void> {
@@ -223,8 +222,19 @@ export class DataStorage {
     return resolveStoragePath(key);
   }
 
+  /** 読み取り用のパスを fn に渡す。暗号化されたファイルは復号した一時コピーを渡し、終わったら消す */
+  static withReadablePath<T>(key: string, fn: (readablePath: string) => T | Promise<T>) {
+    return withReadableFilePath(resolveStoragePath(key), fn);
+  }
+
+  /** 暗号化が有効なライブラリなら、書き込み済みのファイルを暗号化する */
+  static seal(key: string): void {
+    sealStoredFile(resolveStoragePath(key), getFileDatasetId(key));
+  }
+
   static async getHash(key: string, dataSetId?: number): Promise<string> {
     const finalKey = DataStorage.buildPath(key, dataSetId);
-    return getHash(DataStorage.getPath(finalKey));
+    // 暗号化しても同じハッシュになるよう、復号した内容から計算する
+    return createStreamDigest(createStoredFileStream(resolveStoragePath(finalKey)));
   }
 }
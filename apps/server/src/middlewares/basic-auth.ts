@@ -7,6 +7,10 @@ const isEnabled = () =>
   process.env.CARAMEL_BASIC_AUTH_ENABLED === '1' ||
   process.env.CARAMEL_BASIC_AUTH_ENABLED === 'true';
 
+// 共有リンクの閲覧ページは、アカウントを持たない相手に見せるためのもの。
+// 認可はリンクのトークン（と任意のパスワード）で行うので、Basic 認証の対象から外す
+const isShareViewerPath = (path: string) => /^\/share\/[^/]+(\/|$)/.test(path);
+
 const safeEquals = (left: string, right: string) => {
   const leftBuffer = Buffer.from(left);
   const rightBuffer = Buffer.from(right);
@@ -27,6 +31,7 @@ const parseBasicAuth = (header: string | undefined) => {
 export const basicAuthMiddleware = factory.createMiddleware(async (c, next) => {
   if (!isEnabled()) return await next();
   if (c.req.path === '/health' || c.req.path === '/api/v1/health') return await next();
+  if (isShareViewerPath(c.req.path)) return await next();
 
   const username = process.env.CARAMEL_BASIC_AUTH_USERNAME || '';
   const password = process.env.CARAMEL_BASIC_AUTH_PASSWORD || '';
@@ -1,6 +1,15 @@
 import fs from 'node:fs';
 import path from 'node:path';
+import type { Context } from 'hono';
 import { createFactory } from 'hono/factory';
+import { LibraryLockedError } from '../errors/LibraryLockedError';
+import { type DecryptedFileReader, openDecryptedFile } from '../utils/dataset-encryption';
+import { isDatasetAuthorizedFromState, verifySignedFileQuery } from '../utils/dataset-protection';
+import {
+  getDatasetFileProtection,
+  getFileDatasetId,
+  getStoredFileDatasetId,
+} from '../utils/file-access';
 
 const factory = createFactory();
 
@@ -43,22 +52,25 @@ const storageCandidatesFor = (relativePath: string) => {
   ]);
 };
 
-export const fileServer = factory.createMiddleware(async (c) => {
-  const rel = c.req.path.replace(/^\/files\//, '');
-  const candidates = storageCandidatesFor(rel);
-
-  const full = candidates.find((candidate) => {
+const findStorageFile = (rel: string) =>
+  storageCandidatesFor(rel).find((candidate) => {
     try {
       return fs.existsSync(candidate) && fs.statSync(candidate).isFile();
     } catch {
       return false;
     }
-  });
+  }) ?? null;
 
+/** ストレージ上のファイルを返す（共有ページからも使う） */
+export const serveStorageFile = (c: Context, rel: string) => {
+  const full = findStorageFile(rel);
   if (!full) {
     return c.notFound();
   }
+  return serveFile(c, full);
+};
 
+const serveFile = (c: Context, full: string) => {
   const ext = path.extname(full).toLowerCase();
   const type =
     (
@@ -81,7 +93,18 @@ export const fileServer = factory.createMiddleware(async (c) => {
       } as Record<string, string>
     )[ext] ?? 'application/octet-stream';
 
-  const size = fs.statSync(full).size;
+  // 暗号化されたライブラリのファイルは、必要な範囲だけその場で復号して返す
+  let decrypted: DecryptedFileReader | null;
+  try {
+    decrypted = openDecryptedFile(full);
+  } catch (error) {
+    if (error instanceof LibraryLockedError) {
+      return c.json({ error: 'Library is locked', protected: true }, 401);
+    }
+    throw error;
+  }
+
+  const size = decrypted?.size ?? fs.statSync(full).size;
   const range = c.req.header('range');
 
   // ---- Range request (video) ----
@@ -91,10 +114,15 @@ export const fileServer = factory.createMiddleware(async (c) => {
     const end = endStr ? Number(endStr) : size - 1;
     const chunk = end - start + 1;
 
-    const buf = Buffer.alloc(chunk);
-    const fd = fs.openSync(full, 'r');
-    fs.readSync(fd, buf, 0, chunk, start);
-    fs.closeSync(fd);
+    let buf: Buffer;
+    if (decrypted) {
+      buf = decrypted.read(start, end);
+    } else {
+      buf = Buffer.alloc(chunk);
+      const fd = fs.openSync(full, 'r');
+      fs.readSync(fd, buf, 0, chunk, start);
+      fs.closeSync(fd);
+    }
 
     return new Response(new Blob([new Uint8Array(buf)]), {
       status: 206,
@@ -109,7 +137,8 @@ export const fileServer = factory.createMiddleware(async (c) => {
   }
 
   // ---- Normal file ----
-  return new Response(new Blob([new Uint8Array(fs.readFileSync(full))]), {
+  const body = decrypted ? decrypted.read(0, size - 1) : fs.readFileSync(full);
+  return new Response(new Blob([new Uint8Array(body)]), {
     headers: {
       'Content-Type': type,
       ...(ext === '.svgz' ? { 'Content-Encoding': 'gzip' } : {}),
@@ -117,4 +146,43 @@ export const fileServer = factory.createMiddleware(async (c) => {
       'Cache-Control': 'public, max-age=31536000',
     },
   });
+};
+
+// 保護されたライブラリのファイルは、解錠済みの Cookie か署名付き URL がある場合だけ返す
+const isFileAccessAllowed = (c: Context, rel: string, dataSetId: number) => {
+  const protection = getDatasetFileProtection(dataSetId);
+  if (isDatasetAuthorizedFromState(c, dataSetId, protection)) return true;
+  if (!protection.passwordHash) return false;
+  return verifySignedFileQuery(dataSetId, protection.passwordHash, rel, {
+    exp: c.req.query('exp'),
+    sig: c.req.query('sig'),
+  });
+};
+
+export const fileServer = factory.createMiddleware(async (c) => {
+  const rel = c.req.path.replace(/^\/files\//, '');
+  const full = findStorageFile(rel);
+  const requestedDataSetId = getFileDatasetId(rel);
+  // 別の候補パスから解決されたファイルは、URL ではなく実際の置き場所のライブラリで判定する
+  const dataSetId = full
+    ? getStoredFileDatasetId(full, [storageRoot, legacyFallbackRoot])
+    : requestedDataSetId;
+  if (dataSetId === null) return full ? serveFile(c, full) : c.notFound();
+
+  // 署名は URL のパスに対して発行しているので、別名のパスからは開かせない
+  if (dataSetId !== requestedDataSetId) return c.notFound();
+  if (!isFileAccessAllowed(c, rel, dataSetId)) {
+    return c.json({ error: 'Protected dataset', protected: true }, 401);
+  }
+  if (!full) return c.notFound();
+  const response = await serveFile(c, full);
+  const protection = getDatasetFileProtection(dataSetId);
+  if (protection.encryptionEnabled) {
+    // 復号した中身はブラウザのディスクキャッシュにも残さない
+    response.headers.set('Cache-Control', 'no-store');
+  } else if (protection.isProtected) {
+    // 共有キャッシュに保護されたファイルを残さない
+    response.headers.set('Cache-Control', 'private, max-age=3600');
+  }
+  return response;
 });
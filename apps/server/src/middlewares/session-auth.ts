@@ -0,0 +1,75 @@
+import type { Context } from 'hono';
+import { createFactory } from 'hono/factory';
+import type { UserRole } from '../models/UserModel';
+import { StandaloneUserRepository } from '../repositories/sqlite/user-repository';
+import { type CurrentUser, runWithCurrentUser } from '../shared/current-user';
+import { hasValidClipperApiKey } from '../shared/services/ClipperApiKeyService';
+import { getSessionToken } from '../utils/user-session';
+import { isBrowserExtensionOrigin } from './cors';
+
+const factory = createFactory();
+
+const PUBLIC_PATHS = new Set([
+  '/api/v1/health',
+  '/api/v1/auth/session',
+  '/api/v1/auth/login',
+  '/api/v1/auth/setup',
+]);
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// 閲覧専用ユーザーでも変更できる、ユーザー個人のデータ（お気に入り・いいね・ピン）
+const VIEWER_WRITABLE_PATHS = [
+  /^\/api\/v1\/auth\//,
+  /^\/api\/v1\/navigation-pins(\/|$)/,
+  /^\/api\/v1\/activities\/likes\//,
+  /\/favorite$/,
+  /\/like$/,
+];
+
+const isViewerAllowed = (method: string, path: string) =>
+  SAFE_METHODS.has(method) || VIEWER_WRITABLE_PATHS.some((pattern) => pattern.test(path));
+
+// 拡張機能は Clipper API キーで認証済み（clipperApiKeyGuard）なので、既定のユーザーとして扱う
+const isClipperRequest = (c: Context) => {
+  const origin = c.req.header('origin');
+  return Boolean(
+    origin && isBrowserExtensionOrigin(origin) && hasValidClipperApiKey(c.req.raw.headers)
+  );
+};
+
+/**
+ * セッション Cookie からログインユーザーを解決する。
+ * パスワードを持つユーザーがいない間は従来どおり単一ユーザーとして動作する。
+ */
+export const sessionAuthMiddleware = factory.createMiddleware(async (c, next) => {
+  const repository = new StandaloneUserRepository();
+  const token = getSessionToken(c);
+  const user = token ? repository.getSessionUser(token) : null;
+
+  if (user) {
+    const currentUser: CurrentUser = { id: user.id, name: user.name, role: user.role };
+    if (currentUser.role === 'viewer' && !isViewerAllowed(c.req.method, c.req.path)) {
+      return c.json({ error: 'This account is read-only' }, 403);
+    }
+    c.set('currentUser', currentUser);
+    return await runWithCurrentUser(currentUser, () => next());
+  }
+
+  if (!repository.hasAccounts() || PUBLIC_PATHS.has(c.req.path) || isClipperRequest(c)) {
+    return await next();
+  }
+
+  return c.json({ error: 'Authentication required', authRequired: true }, 401);
+});
+
+/** アカウントが有効なときだけ、指定したロールのユーザーに限定する */
+export const requireRole = (...roles: UserRole[]) =>
+  factory.createMiddleware(async (c, next) => {
+    const currentUser = c.get('currentUser') as CurrentUser | undefined;
+    if (!currentUser && !new StandaloneUserRepository().hasAccounts()) return await next();
+    if (!currentUser || !roles.includes(currentUser.role)) {
+      return c.json({ error: 'You do not have permission to perform this action' }, 403);
+    }
+    return await next();
+  });
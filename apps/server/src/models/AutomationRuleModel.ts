@@ -0,0 +1,124 @@
+import { z } from 'zod';
+
+const MediaTypeSchema = z.enum(['image', 'comic', 'video']);
+
+// contains は大文字小文字を無視した部分一致、glob は * と ? だけを使うワイルドカード
+export const AutomationPatternModeSchema = z.enum(['contains', 'glob', 'regex']);
+
+// FilterPanel の色味カテゴリと同じ分類
+export const AutomationHueCategorySchema = z.enum([
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'cyan',
+  'blue',
+  'violet',
+]);
+
+export const AutomationConditionSchema = z.discriminatedUnion('type', [
+  // スタックに集約した自動タグのスコアが minScore 以上
+  z.object({
+    type: z.literal('autoTagScore'),
+    tag: z.string().trim().min(1),
+    minScore: z.number().min(0).max(1),
+  }),
+  // いずれかのアセットの元ファイル名
+  z.object({
+    type: z.literal('filename'),
+    pattern: z.string().min(1),
+    mode: AutomationPatternModeSchema.default('contains'),
+  }),
+  // URL 取り込みなどで渡された取り込み元 URL
+  z.object({
+    type: z.literal('sourceUrl'),
+    pattern: z.string().min(1),
+    mode: AutomationPatternModeSchema.default('contains'),
+  }),
+  z.object({
+    type: z.literal('author'),
+    operator: z.enum(['is', 'isNot', 'isEmpty']),
+    value: z.string().trim().optional(),
+  }),
+  z.object({
+    type: z.literal('mediaType'),
+    mediaType: MediaTypeSchema,
+  }),
+  // 上位の代表色のどれかが hueCategory で、占める割合 (%) が minPercentage 以上
+  z.object({
+    type: z.literal('dominantColor'),
+    hueCategory: AutomationHueCategorySchema,
+    minPercentage: z.number().min(0).max(100).default(0),
+  }),
+]);
+
+export const AutomationActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('addTag'), tag: z.string().trim().min(1) }),
+  // {domain} は取り込み元 URL のホスト名（www. は除く）に置き換える
+  z.object({ type: z.literal('setAuthor'), author: z.string().trim().min(1) }),
+  z.object({ type: z.literal('setMediaType'), mediaType: MediaTypeSchema }),
+  z.object({ type: z.literal('addToCollection'), collectionId: z.number().int().positive() }),
+  z.object({ type: z.literal('favorite') }),
+]);
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const ConditionListSchema = z
+  .array(AutomationConditionSchema)
+  .min(1, '条件を 1 つ以上指定してください')
+  .superRefine((conditions, ctx) => {
+    conditions.forEach((condition, index) => {
+      if (
+        (condition.type === 'filename' || condition.type === 'sourceUrl') &&
+        condition.mode === 'regex' &&
+        !isValidRegex(condition.pattern)
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'pattern'],
+          message: '正規表現が正しくありません',
+        });
+      }
+    });
+  });
+
+export const CreateAutomationRuleSchema = z.object({
+  dataSetId: z.number(),
+  name: z.string().trim().min(1, 'ルール名は必須です'),
+  matchMode: z.enum(['all', 'any']).default('all'),
+  conditions: ConditionListSchema,
+  actions: z.array(AutomationActionSchema).min(1, '動作を 1 つ以上指定してください'),
+  sortOrder: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+});
+
+export const UpdateAutomationRuleSchema = CreateAutomationRuleSchema.omit({
+  dataSetId: true,
+}).partial();
+
+export const AutomationRuleQuerySchema = z.object({
+  dataSetId: z.coerce.number().optional(),
+});
+
+// 保存前のルールを既存スタックに当てて、どれが該当するかだけを見る
+export const PreviewAutomationRuleSchema = z.object({
+  dataSetId: z.number(),
+  matchMode: z.enum(['all', 'any']).default('all'),
+  conditions: ConditionListSchema,
+  limit: z.number().int().min(1).max(200).default(50),
+});
+
+export type AutomationPatternMode = z.infer<typeof AutomationPatternModeSchema>;
+export type AutomationCondition = z.infer<typeof AutomationConditionSchema>;
+export type AutomationAction = z.infer<typeof AutomationActionSchema>;
+export type CreateAutomationRuleInput = z.infer<typeof CreateAutomationRuleSchema>;
+export type UpdateAutomationRuleInput = z.infer<typeof UpdateAutomationRuleSchema>;
+export type AutomationRuleQuery = z.infer<typeof AutomationRuleQuerySchema>;
+export type PreviewAutomationRuleInput = z.infer<typeof PreviewAutomationRuleSchema>;
@@ -1,9 +1,19 @@
 import { z } from 'zod';
+import { SearchFiltersSchema, SortOptionsSchema } from '../schemas/search-schema';
 
 // Accept SCRATCH in addition to SMART/MANUAL.
 // SCRATCH behaves like a temporary MANUAL collection on the server side.
 export const CollectionTypeSchema = z.enum(['SMART', 'MANUAL', 'SCRATCH']);
 
+// スマートコレクションの条件。filters は検索と同じ SearchFiltersSchema、query は検索ボックスのクエリ言語
+export const SmartCollectionConfigSchema = z.object({
+  query: z.string().optional(),
+  filters: SearchFiltersSchema.default({}),
+  // フィルターパネルの色指定（色相カテゴリ・トーン・カスタムカラー）
+  colorFilter: z.record(z.any()).optional(),
+  sort: SortOptionsSchema.optional(),
+});
+
 export const CreateCollectionSchema = z.object({
   name: z.string().min(1, 'コレクション名は必須です'),
   icon: z.string().default('📂'),
@@ -36,3 +46,4 @@ export type CreateCollectionInput = z.infer<typeof CreateCollectionSchema>;
 export type UpdateCollectionInput = z.infer<typeof UpdateCollectionSchema>;
 export type CollectionQuery = z.infer<typeof CollectionQuerySchema>;
 export type CollectionType = z.infer<typeof CollectionTypeSchema>;
+export type SmartCollectionConfig = z.infer<typeof SmartCollectionConfigSchema>;
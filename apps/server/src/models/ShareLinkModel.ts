@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+// スマートコレクションもコレクションとして共有する
+export const ShareLinkTargetTypeSchema = z.enum(['collection', 'stack']);
+
+export const CreateShareLinkSchema = z.object({
+  targetType: ShareLinkTargetTypeSchema,
+  targetId: z.number().int().positive(),
+  label: z.string().trim().max(100).nullable().optional(),
+  password: z.string().min(4, 'パスワードは4文字以上にしてください').max(200).optional(),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(), // 未指定の場合は無期限
+  allowOriginals: z.boolean().default(false),
+});
+
+export const ShareLinkQuerySchema = z.object({
+  dataSetId: z.coerce.number().optional(),
+});
+
+export type ShareLinkTargetType = z.infer<typeof ShareLinkTargetTypeSchema>;
+export type CreateShareLinkInput = z.infer<typeof CreateShareLinkSchema>;
+export type ShareLinkQuery = z.infer<typeof ShareLinkQuerySchema>;
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// super: ユーザー管理を含むすべての操作 / user: 通常の操作 / viewer: 閲覧といいね・お気に入りのみ
+export const UserRoleSchema = z.enum(['super', 'user', 'viewer']);
+
+const PasswordSchema = z.string().min(8, 'パスワードは 8 文字以上にしてください');
+const UserNameSchema = z.string().trim().min(1, 'ユーザー名は必須です').max(64);
+
+export const LoginSchema = z.object({
+  name: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const SetupAccountSchema = z.object({
+  name: UserNameSchema,
+  password: PasswordSchema,
+});
+
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: PasswordSchema,
+});
+
+export const CreateUserSchema = z.object({
+  name: UserNameSchema,
+  email: z.string().trim().email().nullable().optional(),
+  role: UserRoleSchema.default('user'),
+  password: PasswordSchema,
+});
+
+export const UpdateUserSchema = z.object({
+  name: UserNameSchema.optional(),
+  email: z.string().trim().email().nullable().optional(),
+  role: UserRoleSchema.optional(),
+  password: PasswordSchema.optional(),
+  disabled: z.boolean().optional(),
+});
+
+export type UserRole = z.infer<typeof UserRoleSchema>;
+export type CreateUserInput = z.infer<typeof CreateUserSchema>;
+export type UpdateUserInput = z.infer<typeof UpdateUserSchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+// クライアントのフォルダドロップ（FolderUploadMode）と同じグループ化方式
+export const FolderGroupingModeSchema = z.enum([
+  'single-stack',
+  'create-collection',
+  'flat-upload',
+]);
+
+// 取り込み後のファイルを処理済みフォルダへ移動するか、その場に残すか
+export const WatchedFolderAfterImportSchema = z.enum(['move', 'keep']);
+
+export const CreateWatchedFolderSchema = z.object({
+  dataSetId: z.number(),
+  path: z.string().trim().min(1, 'フォルダのパスは必須です'),
+  groupingMode: FolderGroupingModeSchema.default('single-stack'),
+  mediaType: z.enum(['image', 'comic', 'video']).nullable().optional(),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  author: z.string().trim().nullable().optional(),
+  collectionId: z.number().nullable().optional(),
+  afterImport: WatchedFolderAfterImportSchema.default('move'),
+  processedPath: z.string().trim().nullable().optional(), // 未指定の場合は監視フォルダ内の _imported
+  settleSeconds: z.number().int().min(1).max(3600).default(5), // 書き込み中とみなす待ち時間
+  enabled: z.boolean().default(true),
+});
+
+export const UpdateWatchedFolderSchema = CreateWatchedFolderSchema.omit({
+  dataSetId: true,
+}).partial();
+
+export const WatchedFolderQuerySchema = z.object({
+  dataSetId: z.coerce.number().optional(),
+});
+
+export type FolderGroupingMode = z.infer<typeof FolderGroupingModeSchema>;
+export type WatchedFolderAfterImport = z.infer<typeof WatchedFolderAfterImportSchema>;
+export type CreateWatchedFolderInput = z.infer<typeof CreateWatchedFolderSchema>;
+export type UpdateWatchedFolderInput = z.infer<typeof UpdateWatchedFolderSchema>;
+export type WatchedFolderQuery = z.infer<typeof WatchedFolderQuerySchema>;
@@ -1,7 +1,9 @@
 import type { DatabaseSync } from 'node:sqlite';
 import { toPublicAssetPath } from '../../utils/assetPath';
 import { getStandaloneSqlite, type SqliteBindValue } from './sqlite';
+import { userLikeCountSql } from './stack/helpers';
 import { StandaloneStackRepository } from './stack-repository';
+import { resolveCurrentUserId } from './user-repository';
 
 export interface PaginationOptions {
   limit: number;
@@ -94,14 +96,17 @@ export class StandaloneActivityRepository {
   }
 
   getLikes({ limit, offset }: PaginationOptions) {
+    const userId = resolveCurrentUserId(this.db);
     const rows = this.getLikeRows({
-      whereSql: '1 = 1',
-      params: [],
+      whereSql: 'la.user_id = ?',
+      params: [userId],
       limit,
       offset,
     });
     const total = (
-      this.db.prepare('SELECT COUNT(*) AS count FROM like_activities').get() as CountRow | undefined
+      this.db
+        .prepare('SELECT COUNT(*) AS count FROM like_activities WHERE user_id = ?')
+        .get(userId) as CountRow | undefined
     )?.count;
     return {
       activities: rows.map((row) => this.toActivity(row)).filter((row) => row !== null),
@@ -112,11 +117,13 @@ export class StandaloneActivityRepository {
   }
 
   getLikesByYear({ year, datasetId, search }: YearlyLikesOptions) {
+    const userId = resolveCurrentUserId(this.db);
     const params: SqliteBindValue[] = [
+      userId,
       `${year}-01-01T00:00:00.000Z`,
       `${year + 1}-01-01T00:00:00.000Z`,
     ];
-    const where = ['la.created_at >= ?', 'la.created_at < ?'];
+    const where = ['la.user_id = ?', 'la.created_at >= ?', 'la.created_at < ?'];
 
     if (datasetId) {
       where.push('s.dataset_id = ?');
@@ -158,10 +165,10 @@ export class StandaloneActivityRepository {
           `SELECT DISTINCT substr(la.created_at, 1, 4) AS year
            FROM like_activities la
            JOIN stacks s ON s.id = la.stack_id
-           ${datasetId ? 'WHERE s.dataset_id = ?' : ''}
+           WHERE la.user_id = ? ${datasetId ? 'AND s.dataset_id = ?' : ''}
            ORDER BY year DESC`
         )
-        .all(...(datasetId ? [Number(datasetId)] : [])) as YearRow[]
+        .all(userId, ...(datasetId ? [Number(datasetId)] : [])) as YearRow[]
     ).map((row) => Number(row.year));
 
     return {
@@ -173,9 +180,10 @@ export class StandaloneActivityRepository {
   }
 
   removeLikeActivity(id: number) {
-    const row = this.db.prepare('SELECT id, stack_id FROM like_activities WHERE id = ?').get(id) as
-      | { id: number; stack_id: number }
-      | undefined;
+    // 他のユーザーのいいね履歴は削除できない
+    const row = this.db
+      .prepare('SELECT id, stack_id FROM like_activities WHERE id = ? AND user_id = ?')
+      .get(id, resolveCurrentUserId(this.db)) as { id: number; stack_id: number } | undefined;
     if (!row) return null;
 
     this.db.exec('BEGIN');
@@ -194,9 +202,9 @@ export class StandaloneActivityRepository {
       throw error;
     }
 
-    const stack = this.db.prepare('SELECT liked FROM stacks WHERE id = ?').get(row.stack_id) as
-      | { liked: number }
-      | undefined;
+    const stack = this.db
+      .prepare(`SELECT ${userLikeCountSql('?', '?')} AS liked`)
+      .get(row.stack_id, resolveCurrentUserId(this.db)) as { liked: number } | undefined;
     return {
       success: true,
       stackId: row.stack_id,
@@ -0,0 +1,84 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { StandaloneAnnotationRepository } from './annotation-repository';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+
+const stroke = {
+  points: [
+    { x: 0.1, y: 0.1 },
+    { x: 0.5, y: 0.5 },
+  ],
+  color: '#FF3B30',
+  size: 0.01,
+  opacity: 1,
+  mode: 'draw' as const,
+};
+
+describe('StandaloneAnnotationRepository', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneAnnotationRepository;
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneAnnotationRepository(db);
+
+    const now = '2026-06-20T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at)
+       VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES (1, 1, 'Reference', '', 'image', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO assets
+         (id, stack_id, file, thumbnail, file_type, original_name, hash, order_in_stack, created_at, updated_at)
+       VALUES (1, 1, '/tmp/reference.png', '', 'png', 'reference.png', 'hash-1', 0, ?, ?)`
+    ).run(now, now);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('saves layers in order and restores strokes', () => {
+    const layers = repository.replaceLayers(1, [
+      { name: 'Lines', visible: true, opacity: 0.8, strokes: [stroke] },
+      { name: 'Notes', visible: false, opacity: 1, strokes: [] },
+    ]);
+
+    expect(layers?.map((layer) => [layer.name, layer.order, layer.visible])).toEqual([
+      ['Lines', 0, true],
+      ['Notes', 1, false],
+    ]);
+    expect(repository.getLayers(1)[0].strokes).toEqual([stroke]);
+    expect(repository.getAssetDataSetId(1)).toBe(1);
+  });
+
+  it('updates kept layers and removes omitted ones', () => {
+    const [lines, notes] =
+      repository.replaceLayers(1, [
+        { name: 'Lines', visible: true, opacity: 1, strokes: [stroke] },
+        { name: 'Notes', visible: true, opacity: 1, strokes: [] },
+      ]) ?? [];
+
+    const layers = repository.replaceLayers(1, [
+      { id: notes.id, name: 'Notes (edited)', visible: true, opacity: 0.5, strokes: [] },
+    ]);
+
+    expect(layers?.map((layer) => [layer.id, layer.name, layer.order])).toEqual([
+      [notes.id, 'Notes (edited)', 0],
+    ]);
+    expect(layers?.some((layer) => layer.id === lines.id)).toBe(false);
+  });
+
+  it('returns null for missing assets', () => {
+    expect(repository.replaceLayers(999, [])).toBeNull();
+    expect(repository.getAssetDataSetId(999)).toBeNull();
+  });
+});
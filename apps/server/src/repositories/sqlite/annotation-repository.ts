@@ -0,0 +1,153 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { getStandaloneSqlite, nowIso } from './sqlite';
+
+// 座標と線幅は画像サイズに対する比率（0..1）で保存し、表示倍率に依存しないようにする
+export interface AnnotationStroke {
+  points: Array<{ x: number; y: number }>;
+  color: string;
+  size: number;
+  opacity: number;
+  mode: 'draw' | 'erase';
+}
+
+export interface AnnotationLayer {
+  id: number;
+  assetId: number;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  order: number;
+  strokes: AnnotationStroke[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnnotationLayerInput {
+  id?: number;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  strokes: AnnotationStroke[];
+}
+
+interface AnnotationLayerRow {
+  id: number;
+  asset_id: number;
+  name: string;
+  visible: number;
+  opacity: number;
+  order_index: number;
+  strokes_json: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const parseStrokes = (value: string): AnnotationStroke[] => {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as AnnotationStroke[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const toAnnotationLayer = (row: AnnotationLayerRow): AnnotationLayer => ({
+  id: row.id,
+  assetId: row.asset_id,
+  name: row.name,
+  visible: row.visible === 1,
+  opacity: row.opacity,
+  order: row.order_index,
+  strokes: parseStrokes(row.strokes_json),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export class StandaloneAnnotationRepository {
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {}
+
+  getAssetDataSetId(assetId: number) {
+    const row = this.db
+      .prepare(
+        `SELECT s.dataset_id
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE a.id = ?`
+      )
+      .get(assetId) as { dataset_id: number } | undefined;
+    return row?.dataset_id ?? null;
+  }
+
+  getLayers(assetId: number): AnnotationLayer[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, asset_id, name, visible, opacity, order_index, strokes_json, created_at, updated_at
+         FROM asset_annotation_layers
+         WHERE asset_id = ?
+         ORDER BY order_index ASC, id ASC`
+      )
+      .all(assetId) as AnnotationLayerRow[];
+    return rows.map(toAnnotationLayer);
+  }
+
+  /**
+   * アセットのレイヤー一覧を丸ごと置き換える。
+   * id が一致する既存レイヤーは更新し、含まれないレイヤーは削除する。
+   */
+  replaceLayers(assetId: number, layers: AnnotationLayerInput[]): AnnotationLayer[] | null {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const asset = this.db.prepare('SELECT id FROM assets WHERE id = ?').get(assetId);
+      if (!asset) {
+        this.db.exec('ROLLBACK');
+        return null;
+      }
+
+      const existingIds = new Set(
+        (
+          this.db
+            .prepare('SELECT id FROM asset_annotation_layers WHERE asset_id = ?')
+            .all(assetId) as Array<{ id: number }>
+        ).map((row) => row.id)
+      );
+      const keptIds = new Set<number>();
+      const now = nowIso();
+      const update = this.db.prepare(
+        `UPDATE asset_annotation_layers
+         SET name = ?, visible = ?, opacity = ?, order_index = ?, strokes_json = ?, updated_at = ?
+         WHERE id = ? AND asset_id = ?`
+      );
+      const insert = this.db.prepare(
+        `INSERT INTO asset_annotation_layers
+           (asset_id, name, visible, opacity, order_index, strokes_json, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+
+      layers.forEach((layer, index) => {
+        const values = [
+          layer.name,
+          layer.visible ? 1 : 0,
+          layer.opacity,
+          index,
+          JSON.stringify(layer.strokes),
+        ] as const;
+        if (layer.id && existingIds.has(layer.id) && !keptIds.has(layer.id)) {
+          update.run(...values, now, layer.id, assetId);
+          keptIds.add(layer.id);
+        } else {
+          insert.run(assetId, ...values, now, now);
+        }
+      });
+
+      const removedIds = Array.from(existingIds).filter((id) => !keptIds.has(id));
+      const remove = this.db.prepare('DELETE FROM asset_annotation_layers WHERE id = ?');
+      for (const id of removedIds) remove.run(id);
+
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+    return this.getLayers(assetId);
+  }
+}
@@ -1,13 +1,27 @@
 import type { Context } from 'hono';
+import { isDatasetKeyLoaded } from '../../utils/dataset-encryption';
 import { isDatasetAuthorizedFromState } from '../../utils/dataset-protection';
-import { StandaloneDatasetRepository } from './dataset-repository';
+import { type StandaloneDataset, StandaloneDatasetRepository } from './dataset-repository';
+
+const isDatasetAuthorized = (c: Context, ds: StandaloneDataset) => {
+  // 再起動後は暗号鍵がメモリに無いので、Cookie が有効でもパスワードを入れ直してもらう
+  if (ds.hasEncryptionKey && !isDatasetKeyLoaded(ds.id)) return false;
+  return isDatasetAuthorizedFromState(c, ds.id, ds);
+};
 
 export const isDatasetAuthorizedForCurrentStore = async (c: Context, id: number) => {
   const ds = new StandaloneDatasetRepository().getById(id);
   if (!ds) return false;
-  return isDatasetAuthorizedFromState(c, id, ds);
+  return isDatasetAuthorized(c, ds);
 };
 
+/** ライブラリを指定しない一覧で、このリクエストからは見せないライブラリ */
+export const getLockedDatasetIdsForCurrentStore = async (c: Context) =>
+  new StandaloneDatasetRepository()
+    .getAll()
+    .filter((ds) => !isDatasetAuthorized(c, ds))
+    .map((ds) => ds.id);
+
 export const ensureDatasetAuthorizedForCurrentStore = async (c: Context, id: number) => {
   const ok = await isDatasetAuthorizedForCurrentStore(c, id);
   if (!ok) {
@@ -0,0 +1,219 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { type AuthorLinkProvider, normalizeAuthorLinkProvider } from '../../shared/author-links';
+import type { AuthorProfile, AuthorWork } from '../../shared/author-providers';
+import { getStandaloneSqlite, nowIso } from './sqlite';
+import { placeholders } from './stack/helpers';
+
+export const AUTHOR_WORK_STATUSES = ['new', 'imported', 'dismissed'] as const;
+export type AuthorWorkStatus = (typeof AUTHOR_WORK_STATUSES)[number];
+
+export interface AuthorInboxWork extends AuthorWork {
+  id: number;
+  authorId: number;
+  authorName: string;
+  dataSetId: number;
+  provider: AuthorLinkProvider;
+  status: AuthorWorkStatus;
+  firstSeenAt: string;
+  updatedAt: string;
+}
+
+export interface LinkedAuthor {
+  id: number;
+  name: string;
+  links: Array<{ provider: AuthorLinkProvider; url: string; externalId: string | null }>;
+}
+
+interface AuthorWorkRow {
+  id: number;
+  author_id: number;
+  author_name: string;
+  dataset_id: number;
+  provider: string;
+  external_id: string;
+  title: string | null;
+  url: string;
+  thumbnail_url: string | null;
+  media_urls_json: string;
+  published_at: string | null;
+  status: AuthorWorkStatus;
+  first_seen_at: string;
+  updated_at: string;
+}
+
+const parseMediaUrls = (value: string) => {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((url) => typeof url === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const toInboxWork = (row: AuthorWorkRow): AuthorInboxWork => ({
+  id: row.id,
+  authorId: row.author_id,
+  authorName: row.author_name,
+  dataSetId: row.dataset_id,
+  provider: normalizeAuthorLinkProvider(row.provider),
+  externalId: row.external_id,
+  title: row.title,
+  url: row.url,
+  thumbnailUrl: row.thumbnail_url,
+  mediaUrls: parseMediaUrls(row.media_urls_json),
+  publishedAt: row.published_at,
+  status: row.status,
+  firstSeenAt: row.first_seen_at,
+  updatedAt: row.updated_at,
+});
+
+const SELECT_SQL = `
+  SELECT aw.*, a.name AS author_name
+  FROM author_works aw
+  JOIN authors a ON a.id = aw.author_id
+`;
+
+export class StandaloneAuthorInboxRepository {
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {}
+
+  /** リンクを持つ作者。authorIds を渡すとその作者だけに絞る */
+  listLinkedAuthors(dataSetId: number, authorIds?: number[]): LinkedAuthor[] {
+    const filter = authorIds?.length ? `AND a.id IN (${placeholders(authorIds)})` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT a.id, a.name, al.provider, al.url, al.external_id
+         FROM authors a
+         JOIN author_links al ON al.author_id = a.id
+         WHERE a.dataset_id = ? ${filter}
+         ORDER BY a.id ASC, al.sort_order ASC, al.id ASC`
+      )
+      .all(dataSetId, ...(authorIds ?? [])) as Array<{
+      id: number;
+      name: string;
+      provider: string | null;
+      url: string;
+      external_id: string | null;
+    }>;
+    const authors = new Map<number, LinkedAuthor>();
+    for (const row of rows) {
+      const author = authors.get(row.id) ?? { id: row.id, name: row.name, links: [] };
+      author.links.push({
+        provider: normalizeAuthorLinkProvider(row.provider),
+        url: row.url,
+        externalId: row.external_id,
+      });
+      authors.set(row.id, author);
+    }
+    return [...authors.values()];
+  }
+
+  saveProfile(authorId: number, profile: AuthorProfile) {
+    this.db
+      .prepare('UPDATE authors SET profile_json = ?, profile_fetched_at = ? WHERE id = ?')
+      .run(JSON.stringify(profile), nowIso(), authorId);
+  }
+
+  /** 取得した作品を記録し、新しく見つかった件数を返す。取り込み済みや非表示の状態は保つ */
+  upsertWorks(
+    authorId: number,
+    dataSetId: number,
+    provider: AuthorLinkProvider,
+    works: AuthorWork[]
+  ) {
+    const now = nowIso();
+    const exists = this.db.prepare(
+      'SELECT 1 FROM author_works WHERE author_id = ? AND provider = ? AND external_id = ?'
+    );
+    const upsert = this.db.prepare(
+      `INSERT INTO author_works
+         (author_id, dataset_id, provider, external_id, title, url, thumbnail_url,
+          media_urls_json, published_at, first_seen_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (author_id, provider, external_id) DO UPDATE SET
+         title = excluded.title,
+         url = excluded.url,
+         thumbnail_url = excluded.thumbnail_url,
+         media_urls_json = excluded.media_urls_json,
+         published_at = COALESCE(excluded.published_at, author_works.published_at),
+         updated_at = excluded.updated_at`
+    );
+    let created = 0;
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      for (const work of works) {
+        if (!exists.get(authorId, provider, work.externalId)) created += 1;
+        upsert.run(
+          authorId,
+          dataSetId,
+          provider,
+          work.externalId,
+          work.title,
+          work.url,
+          work.thumbnailUrl,
+          JSON.stringify(work.mediaUrls),
+          work.publishedAt,
+          now,
+          now
+        );
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+    return created;
+  }
+
+  listInbox(
+    dataSetId: number,
+    options: { status?: AuthorWorkStatus; authorId?: number; limit: number; offset: number }
+  ) {
+    const conditions = ['aw.dataset_id = ?', 'aw.status = ?'];
+    const params: Array<number | string> = [dataSetId, options.status ?? 'new'];
+    if (options.authorId) {
+      conditions.push('aw.author_id = ?');
+      params.push(options.authorId);
+    }
+    // 別の経路で既に取り込んだ作品は新着に出さない
+    if ((options.status ?? 'new') === 'new') {
+      conditions.push(`NOT EXISTS (
+        SELECT 1
+        FROM assets sa
+        JOIN stacks ss ON ss.id = sa.stack_id
+        WHERE ss.dataset_id = aw.dataset_id
+          AND (sa.source_page_url = aw.url OR sa.source_media_url = aw.url)
+      )`);
+    }
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    const rows = this.db
+      .prepare(
+        `${SELECT_SQL} ${where}
+         ORDER BY COALESCE(aw.published_at, aw.first_seen_at) DESC, aw.id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, options.limit, options.offset) as unknown as AuthorWorkRow[];
+    const total = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM author_works aw ${where}`)
+      .get(...params) as { count: number };
+    return {
+      works: rows.map(toInboxWork),
+      total: total.count,
+      limit: options.limit,
+      offset: options.offset,
+    };
+  }
+
+  getWork(id: number): AuthorInboxWork | null {
+    const row = this.db.prepare(`${SELECT_SQL} WHERE aw.id = ?`).get(id) as
+      | AuthorWorkRow
+      | undefined;
+    return row ? toInboxWork(row) : null;
+  }
+
+  setWorkStatus(id: number, status: AuthorWorkStatus) {
+    this.db
+      .prepare('UPDATE author_works SET status = ?, updated_at = ? WHERE id = ?')
+      .run(status, nowIso(), id);
+    return this.getWork(id);
+  }
+}
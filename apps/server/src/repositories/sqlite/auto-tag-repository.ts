@@ -1,6 +1,14 @@
 import type { DatabaseSync } from 'node:sqlite';
 import { getAutoTagClient } from '../../lib/AutoTagClient';
+import {
+  averageEmbeddings,
+  decodeEmbedding,
+  encodeEmbedding,
+  normalizeEmbedding,
+} from '../../utils/embedding';
 import { getStandaloneSqlite, nowIso, type SqliteBindValue } from './sqlite';
+import { StackSearchIndexService } from './stack/search-index-service';
+import { StandaloneStackRepository } from './stack-repository';
 
 export interface AutoTagStats {
   autoTagKey: string;
@@ -59,6 +67,11 @@ interface AssetCandidateRow {
   stack_id: number;
 }
 
+interface EmbeddingVectorRow {
+  vector: Uint8Array;
+  model: string;
+}
+
 interface PredictionIdRow {
   id: number;
 }
@@ -165,8 +178,16 @@ interface PredictAssetTagsOptions {
   aggregateStack?: boolean;
 }
 
+type EmbedAssetOptions = PredictAssetTagsOptions;
+
 export class StandaloneAutoTagRepository {
-  constructor(private db: DatabaseSync = getStandaloneSqlite()) {}
+  private searchIndexService: StackSearchIndexService;
+  private stackRepository: StandaloneStackRepository;
+
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {
+    this.searchIndexService = new StackSearchIndexService(db);
+    this.stackRepository = new StandaloneStackRepository(db);
+  }
 
   async predictAssetTags(assetId: number, threshold = 0.4, options: PredictAssetTagsOptions = {}) {
     const asset = this.db
@@ -217,6 +238,7 @@ export class StandaloneAutoTagRepository {
     let predicted = 0;
     let skipped = 0;
     let failed = 0;
+    let embedded = 0;
 
     for (const asset of assets) {
       try {
@@ -233,6 +255,12 @@ export class StandaloneAutoTagRepository {
         failed++;
         console.error(`Failed to refresh standalone AutoTags for asset ${asset.id}:`, error);
       }
+      try {
+        const result = await this.embedAsset(asset.id, { forceRegenerate, aggregateStack: false });
+        if (result.embedded) embedded++;
+      } catch (error) {
+        console.error(`Failed to embed asset ${asset.id}:`, error);
+      }
     }
 
     return {
@@ -241,7 +269,9 @@ export class StandaloneAutoTagRepository {
       predictedAssets: predicted,
       skippedAssets: skipped,
       failedAssets: failed,
+      embeddedAssets: embedded,
       aggregate: this.aggregateStackTags(stackId, threshold),
+      embedding: this.aggregateStackEmbedding(stackId),
     };
   }
 
@@ -307,6 +337,131 @@ export class StandaloneAutoTagRepository {
     };
   }
 
+  async embedAsset(assetId: number, options: EmbedAssetOptions = {}) {
+    const asset = this.db
+      .prepare('SELECT id, stack_id, file, file_type FROM assets WHERE id = ?')
+      .get(assetId) as AssetPredictionRow | undefined;
+    if (!asset) {
+      return { embedded: false as const, reason: 'asset-not-found' };
+    }
+    if (!isAutoTagImageExtension(asset.file_type)) {
+      return { embedded: false as const, reason: 'unsupported-file-type' };
+    }
+
+    const existing = this.db
+      .prepare('SELECT asset_id FROM asset_embeddings WHERE asset_id = ?')
+      .get(assetId);
+    if (existing && !options.forceRegenerate) {
+      return { embedded: false as const, reason: 'already-embedded' };
+    }
+
+    const result = await this.generateEmbeddingWithRetry(asset.file);
+    const vector = normalizeEmbedding(Float32Array.from(result.embedding));
+    const now = nowIso();
+    this.db
+      .prepare(
+        `INSERT INTO asset_embeddings (asset_id, model, dimensions, vector, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(asset_id) DO UPDATE SET
+           model = excluded.model,
+           dimensions = excluded.dimensions,
+           vector = excluded.vector,
+           updated_at = excluded.updated_at`
+      )
+      .run(asset.id, result.model, vector.length, encodeEmbedding(vector), now, now);
+    if (options.aggregateStack !== false) {
+      this.aggregateStackEmbedding(asset.stack_id);
+    }
+
+    return { embedded: true as const, stackId: asset.stack_id, dimensions: vector.length };
+  }
+
+  async embedDatasetAssets(datasetId: number, options: { forceRegenerate?: boolean } = {}) {
+    const existingFilter = options.forceRegenerate ? '' : 'AND e.asset_id IS NULL';
+    const rows = this.db
+      .prepare(
+        `SELECT a.id, a.stack_id
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         LEFT JOIN asset_embeddings e ON e.asset_id = a.id
+         WHERE s.dataset_id = ?
+           AND LOWER(REPLACE(a.file_type, '.', '')) IN (${AUTO_TAG_IMAGE_EXTENSION_LIST.map(() => '?').join(', ')})
+           ${existingFilter}
+         ORDER BY a.id ASC`
+      )
+      .all(datasetId, ...AUTO_TAG_IMAGE_EXTENSION_LIST) as AssetCandidateRow[];
+
+    let embedded = 0;
+    let skipped = 0;
+    let failed = 0;
+    const stackIds = new Set<number>();
+
+    for (const row of rows) {
+      try {
+        const result = await this.embedAsset(row.id, {
+          forceRegenerate: options.forceRegenerate,
+          aggregateStack: false,
+        });
+        if (result.embedded) {
+          embedded++;
+          stackIds.add(result.stackId);
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        failed++;
+        console.error(`Failed to embed asset ${row.id}:`, error);
+      }
+    }
+
+    for (const stackId of stackIds) {
+      this.aggregateStackEmbedding(stackId);
+    }
+
+    return {
+      datasetId,
+      candidateAssets: rows.length,
+      embeddedAssets: embedded,
+      skippedAssets: skipped,
+      failedAssets: failed,
+      aggregatedStacks: stackIds.size,
+    };
+  }
+
+  /** スタック内アセットの埋め込みを平均して類似検索用の代表ベクトルにする */
+  aggregateStackEmbedding(stackId: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT e.vector, e.model
+         FROM asset_embeddings e
+         JOIN assets a ON a.id = e.asset_id
+         WHERE a.stack_id = ?
+         ORDER BY a.order_in_stack ASC, a.id ASC`
+      )
+      .all(stackId) as unknown as EmbeddingVectorRow[];
+    const vector = averageEmbeddings(rows.map((row) => decodeEmbedding(row.vector)));
+    if (!vector) {
+      this.db.prepare('DELETE FROM stack_embeddings WHERE stack_id = ?').run(stackId);
+      return { stackId, assetCount: 0 };
+    }
+
+    const now = nowIso();
+    this.db
+      .prepare(
+        `INSERT INTO stack_embeddings
+           (stack_id, model, dimensions, vector, asset_count, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(stack_id) DO UPDATE SET
+           model = excluded.model,
+           dimensions = excluded.dimensions,
+           vector = excluded.vector,
+           asset_count = excluded.asset_count,
+           updated_at = excluded.updated_at`
+      )
+      .run(stackId, rows[0].model, vector.length, encodeEmbedding(vector), rows.length, now, now);
+    return { stackId, assetCount: rows.length };
+  }
+
   getStatistics(options: AutoTagStatisticsOptions) {
     const tags =
       options.source === 'raw'
@@ -418,6 +573,7 @@ export class StandaloneAutoTagRepository {
 
     const mapping = this.getMappingByKey(datasetId, values.autoTagKey);
     if (!mapping) throw new Error('AutoTag mapping upsert failed');
+    this.searchIndexService.refreshStacksByAutoTag(datasetId, values.autoTagKey);
     return { conflict: false as const, mapping };
   }
 
@@ -462,13 +618,18 @@ export class StandaloneAutoTagRepository {
 
     const mapping = this.getMappingById(datasetId, mappingId);
     if (!mapping) throw new Error('AutoTag mapping update failed');
+    this.searchIndexService.refreshStacksByAutoTag(datasetId, existing.autoTagKey);
     return { conflict: false as const, mapping };
   }
 
   deleteMapping(datasetId: number, mappingId: number) {
+    const existing = this.getMappingById(datasetId, mappingId);
     const result = this.db
       .prepare('DELETE FROM auto_tag_mappings WHERE id = ? AND dataset_id = ?')
       .run(mappingId, datasetId);
+    if (existing && result.changes > 0) {
+      this.searchIndexService.refreshStacksByAutoTag(datasetId, existing.autoTagKey);
+    }
     return result.changes > 0;
   }
 
@@ -546,6 +707,8 @@ export class StandaloneAutoTagRepository {
       .map(([tag, score]) => ({ tag, score }));
 
     this.saveStackAggregate(stackId, aggregatedTags, topTags, processedAssets, threshold);
+    // 自動タグのスコアを条件にしたルールはここで初めて評価できる
+    this.stackRepository.runAutomationRules(stackId);
 
     return {
       stackId,
@@ -740,6 +903,22 @@ export class StandaloneAutoTagRepository {
     throw new Error('AutoTag prediction failed');
   }
 
+  private async generateEmbeddingWithRetry(fileKey: string) {
+    const client = getAutoTagClient();
+    const maxAttempts = 6;
+    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+      try {
+        return await client.generateEmbedding(fileKey);
+      } catch (error) {
+        if (!isAutoTagLoadingError(error) || attempt === maxAttempts) {
+          throw error;
+        }
+        await wait(2000);
+      }
+    }
+    throw new Error('Image embedding failed');
+  }
+
   private saveStackAggregate(
     stackId: number,
     aggregatedTags: Record<string, number>,
@@ -793,6 +972,7 @@ export class StandaloneAutoTagRepository {
           threshold
         );
       });
+      this.searchIndexService.refreshStack(stackId);
       this.db.exec('COMMIT');
     } catch (error) {
       this.db.exec('ROLLBACK');
@@ -0,0 +1,229 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { runWithCurrentUser } from '../../shared/current-user';
+import { StandaloneAutomationRuleRepository } from './automation-rule-repository';
+import { StandaloneStackRepository } from './stack-repository';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+
+const stackTags = (db: DatabaseSync, stackId: number) =>
+  (
+    db
+      .prepare(
+        `SELECT t.title FROM stack_tags st JOIN tags t ON t.id = st.tag_id
+         WHERE st.stack_id = ? ORDER BY t.title`
+      )
+      .all(stackId) as Array<{ title: string }>
+  ).map((row) => row.title);
+
+describe('StandaloneAutomationRuleRepository', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneAutomationRuleRepository;
+  let stackRepository: StandaloneStackRepository;
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneAutomationRuleRepository(db);
+    stackRepository = new StandaloneStackRepository(db);
+
+    const now = '2026-07-01T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at) VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, dominant_colors_json, created_at, updated_at)
+       VALUES
+         (1, 1, 'Sunset', '', 'image', ?, ?, ?),
+         (2, 1, 'Forest', '', 'image', NULL, ?, ?),
+         (3, 1, 'Chapter 1', '', 'comic', NULL, ?, ?)`
+    ).run(
+      JSON.stringify([
+        {
+          r: 230,
+          g: 60,
+          b: 40,
+          hex: '#e63c28',
+          percentage: 0.45,
+          hue: 6,
+          saturation: 80,
+          lightness: 53,
+          hueCategory: 'red',
+        },
+      ]),
+      now,
+      now,
+      now,
+      now,
+      now,
+      now
+    );
+    db.prepare(
+      `INSERT INTO assets
+         (id, stack_id, file, thumbnail, file_type, original_name, hash, order_in_stack, created_at, updated_at)
+       VALUES
+         (1, 1, '/tmp/a.png', '', 'png', 'sunset_raw.png', 'hash-1', 0, ?, ?),
+         (2, 2, '/tmp/b.png', '', 'png', 'forest.png', 'hash-2', 0, ?, ?),
+         (3, 3, '/tmp/c.jpg', '', 'jpg', 'ch01_p001.jpg', 'hash-3', 0, ?, ?)`
+    ).run(now, now, now, now, now, now);
+    db.prepare(
+      `INSERT INTO stack_auto_tag_aggregates
+         (id, stack_id, aggregated_tags_json, top_tags_json, asset_count, threshold, created_at, updated_at)
+       VALUES (1, 2, '{"tree":0.91,"sky":0.3}', '[]', 1, 0.4, ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO collections (id, dataset_id, name, type, created_at, updated_at)
+       VALUES (1, 1, 'Comics', 'MANUAL', ?, ?)`
+    ).run(now, now);
+  });
+
+  it('previews matching stacks without changing them', () => {
+    const preview = repository.preview({
+      dataSetId: 1,
+      matchMode: 'any',
+      conditions: [
+        { type: 'dominantColor', hueCategory: 'red', minPercentage: 30 },
+        { type: 'autoTagScore', tag: 'tree', minScore: 0.8 },
+      ],
+      limit: 50,
+    });
+
+    expect(preview.total).toBe(2);
+    expect(preview.stacks.map((stack) => stack.id).sort()).toEqual([1, 2]);
+    expect(stackTags(db, 1)).toEqual([]);
+  });
+
+  it('applies a rule to existing stacks only once', () => {
+    const rule = repository.create({
+      dataSetId: 1,
+      name: 'Comic pages',
+      matchMode: 'all',
+      conditions: [{ type: 'filename', pattern: 'ch??_p*.jpg', mode: 'glob' }],
+      actions: [
+        { type: 'addTag', tag: 'manga' },
+        { type: 'addToCollection', collectionId: 1 },
+      ],
+      sortOrder: 0,
+      enabled: true,
+    });
+
+    expect(repository.applyToExisting(rule.id)).toEqual({ applied: 1, stackIds: [3] });
+    expect(stackTags(db, 3)).toEqual(['manga']);
+    expect(
+      db.prepare('SELECT stack_id FROM collection_stacks WHERE collection_id = 1').all()
+    ).toEqual([{ stack_id: 3 }]);
+
+    // 手で外したタグは、同じルールでは付け直さない
+    stackRepository.removeTag(3, 'manga');
+    expect(repository.applyToExisting(rule.id)?.applied).toBe(0);
+    expect(repository.previewRule(rule.id)?.alreadyApplied).toBe(1);
+    expect(stackTags(db, 3)).toEqual([]);
+  });
+
+  it('runs enabled rules when a stack is updated', () => {
+    repository.create({
+      dataSetId: 1,
+      name: 'Unknown author',
+      matchMode: 'all',
+      conditions: [
+        { type: 'author', operator: 'isEmpty' },
+        { type: 'mediaType', mediaType: 'comic' },
+      ],
+      actions: [{ type: 'setAuthor', author: 'unsorted' }, { type: 'favorite' }],
+      sortOrder: 0,
+      enabled: true,
+    });
+    repository.create({
+      dataSetId: 1,
+      name: 'Disabled',
+      matchMode: 'all',
+      conditions: [{ type: 'mediaType', mediaType: 'image' }],
+      actions: [{ type: 'addTag', tag: 'never' }],
+      sortOrder: 1,
+      enabled: false,
+    });
+
+    stackRepository.updateStack(1, 1, { mediaType: 'comic' });
+
+    const stack = db
+      .prepare(
+        `SELECT au.name AS author FROM stacks s LEFT JOIN authors au ON au.id = s.author_id
+         WHERE s.id = 1`
+      )
+      .get() as { author: string | null };
+    expect(stack.author).toBe('unsorted');
+    expect(db.prepare('SELECT stack_id FROM stack_favorites').all()).toEqual([{ stack_id: 1 }]);
+    expect(stackTags(db, 1)).toEqual([]);
+  });
+
+  it('favorites stacks for the user who created the rule', () => {
+    const now = '2026-07-01T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO users (id, name, role, created_at, updated_at)
+       VALUES (1, 'Owner', 'super', ?, ?), (2, 'Editor', 'user', ?, ?)`
+    ).run(now, now, now, now);
+    const rule = runWithCurrentUser({ id: 2, name: 'Editor', role: 'user' }, () =>
+      repository.create({
+        dataSetId: 1,
+        name: 'Comics',
+        matchMode: 'all',
+        conditions: [{ type: 'mediaType', mediaType: 'comic' }],
+        actions: [{ type: 'favorite' }],
+        sortOrder: 0,
+        enabled: true,
+      })
+    );
+    expect(rule.createdBy).toBe(2);
+
+    runWithCurrentUser({ id: 1, name: 'Owner', role: 'super' }, () =>
+      stackRepository.updateStack(1, 1, { mediaType: 'comic' })
+    );
+
+    expect(db.prepare('SELECT user_id, stack_id FROM stack_favorites').all()).toEqual([
+      { user_id: 2, stack_id: 1 },
+    ]);
+  });
+
+  it('matches source URLs stored on assets outside of stack creation', () => {
+    db.prepare(
+      `UPDATE assets SET source_page_url = 'https://www.pixiv.net/artworks/1' WHERE id = 2`
+    ).run();
+
+    const preview = repository.preview({
+      dataSetId: 1,
+      matchMode: 'all',
+      conditions: [{ type: 'sourceUrl', pattern: 'pixiv.net', mode: 'contains' }],
+      limit: 50,
+    });
+    expect(preview.stacks.map((stack) => stack.id)).toEqual([2]);
+
+    repository.create({
+      dataSetId: 1,
+      name: 'Pixiv trees',
+      matchMode: 'all',
+      conditions: [
+        { type: 'autoTagScore', tag: 'tree', minScore: 0.8 },
+        { type: 'sourceUrl', pattern: 'pixiv.net', mode: 'contains' },
+      ],
+      actions: [
+        { type: 'addTag', tag: 'nature' },
+        { type: 'setAuthor', author: '{domain}' },
+      ],
+      sortOrder: 0,
+      enabled: true,
+    });
+
+    // 自動タグの集計を保存した後の再評価と同じ呼び出し
+    expect(stackRepository.runAutomationRules(2)).toHaveLength(1);
+    expect(stackTags(db, 2)).toEqual(['nature']);
+    expect(
+      db
+        .prepare(
+          'SELECT au.name AS author FROM stacks s JOIN authors au ON au.id = s.author_id WHERE s.id = 2'
+        )
+        .get()
+    ).toEqual({ author: 'pixiv.net' });
+  });
+});
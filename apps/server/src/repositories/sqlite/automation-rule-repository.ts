@@ -0,0 +1,131 @@
+import type { DatabaseSync } from 'node:sqlite';
+import type {
+  CreateAutomationRuleInput,
+  PreviewAutomationRuleInput,
+  UpdateAutomationRuleInput,
+} from '../../models/AutomationRuleModel';
+import { getStandaloneSqlite, nowIso, type SqliteBindValue } from './sqlite';
+import {
+  type AutomationRule,
+  type AutomationRuleRow,
+  toAutomationRule,
+} from './stack/automation-service';
+import { StandaloneStackRepository } from './stack-repository';
+import { resolveCurrentUserId } from './user-repository';
+
+export type { AutomationRule } from './stack/automation-service';
+
+export class StandaloneAutomationRuleRepository {
+  private stackRepository: StandaloneStackRepository;
+
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {
+    this.stackRepository = new StandaloneStackRepository(db);
+  }
+
+  list(dataSetId?: number): AutomationRule[] {
+    const rows = (
+      dataSetId
+        ? this.db
+            .prepare(
+              'SELECT * FROM automation_rules WHERE dataset_id = ? ORDER BY sort_order ASC, id ASC'
+            )
+            .all(dataSetId)
+        : this.db.prepare('SELECT * FROM automation_rules ORDER BY sort_order ASC, id ASC').all()
+    ) as AutomationRuleRow[];
+    return rows.map(toAutomationRule);
+  }
+
+  getById(id: number): AutomationRule | null {
+    const row = this.db.prepare('SELECT * FROM automation_rules WHERE id = ?').get(id) as
+      | AutomationRuleRow
+      | undefined;
+    return row ? toAutomationRule(row) : null;
+  }
+
+  create(data: CreateAutomationRuleInput): AutomationRule {
+    const now = nowIso();
+    const result = this.db
+      .prepare(
+        `INSERT INTO automation_rules
+           (dataset_id, name, match_mode, conditions_json, actions_json, sort_order, is_enabled,
+            created_by, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        data.dataSetId,
+        data.name,
+        data.matchMode ?? 'all',
+        JSON.stringify(data.conditions ?? []),
+        JSON.stringify(data.actions ?? []),
+        data.sortOrder ?? 0,
+        data.enabled === false ? 0 : 1,
+        resolveCurrentUserId(this.db),
+        now,
+        now
+      );
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  update(id: number, data: UpdateAutomationRuleInput): AutomationRule | null {
+    if (!this.getById(id)) return null;
+    const updates = ['updated_at = ?'];
+    const params: SqliteBindValue[] = [nowIso()];
+
+    if (data.name !== undefined) {
+      updates.push('name = ?');
+      params.push(data.name);
+    }
+    if (data.matchMode !== undefined) {
+      updates.push('match_mode = ?');
+      params.push(data.matchMode);
+    }
+    if (data.conditions !== undefined) {
+      updates.push('conditions_json = ?');
+      params.push(JSON.stringify(data.conditions));
+    }
+    if (data.actions !== undefined) {
+      updates.push('actions_json = ?');
+      params.push(JSON.stringify(data.actions));
+    }
+    if (data.sortOrder !== undefined) {
+      updates.push('sort_order = ?');
+      params.push(data.sortOrder);
+    }
+    if (data.enabled !== undefined) {
+      updates.push('is_enabled = ?');
+      params.push(data.enabled ? 1 : 0);
+    }
+
+    this.db
+      .prepare(`UPDATE automation_rules SET ${updates.join(', ')} WHERE id = ?`)
+      .run(...params, id);
+    return this.getById(id);
+  }
+
+  delete(id: number) {
+    const result = this.db.prepare('DELETE FROM automation_rules WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  /** 保存前のルールを既存スタックに当てる（dry-run） */
+  preview(data: PreviewAutomationRuleInput) {
+    return this.stackRepository.previewAutomationRule(
+      data.dataSetId,
+      { matchMode: data.matchMode ?? 'all', conditions: data.conditions ?? [] },
+      data.limit ?? 50
+    );
+  }
+
+  /** 保存済みのルールの試し当て。実行済みのスタックも分かる */
+  previewRule(id: number, limit = 50) {
+    const rule = this.getById(id);
+    if (!rule) return null;
+    return this.stackRepository.previewAutomationRule(rule.dataSetId, rule, limit);
+  }
+
+  applyToExisting(id: number) {
+    const rule = this.getById(id);
+    if (!rule) return null;
+    return this.stackRepository.applyAutomationRule(rule);
+  }
+}
@@ -1,4 +1,5 @@
 import type { DatabaseSync } from 'node:sqlite';
+import type { SearchFilters } from '../../schemas/search-schema';
 import { ColorExtractor, type DominantColor } from '../../utils/colorExtractor';
 import { getStandaloneSqlite, type SqliteBindValue } from './sqlite';
 import { StandaloneStackRepository } from './stack-repository';
@@ -230,6 +231,35 @@ export class StandaloneColorRepository {
     };
   }
 
+  /** SearchFiltersSchema の color 条件に合うスタック。条件が無ければ undefined */
+  getMatchingStackIdsBySearchColor(
+    dataSetId: number,
+    mediaType: StandaloneColorFilterOptions['mediaType'],
+    color: SearchFilters['color']
+  ) {
+    if (!color) return undefined;
+    const hasColorFilter =
+      typeof color.hue === 'number' ||
+      Boolean(color.hex) ||
+      Boolean(color.tones?.brightness) ||
+      Boolean(color.tones?.saturation);
+
+    if (!hasColorFilter) return undefined;
+
+    return this.getMatchingStackIdsByFilter({
+      dataSetId,
+      mediaType,
+      hue: color.hue,
+      hex: color.hex,
+      saturationRange: color.tones?.saturation
+        ? { min: color.tones.saturation.min ?? 0, max: color.tones.saturation.max ?? 100 }
+        : undefined,
+      lightnessRange: color.tones?.brightness
+        ? { min: color.tones.brightness.min ?? 0, max: color.tones.brightness.max ?? 100 }
+        : undefined,
+    });
+  }
+
   getMatchingStackIdsByFilter(options: StandaloneColorFilterOptions) {
     const matches = this.getCandidateRows(options)
       .map((row) => {
@@ -1,6 +1,10 @@
 import type { DatabaseSync } from 'node:sqlite';
 import { toPublicAssetPath } from '../../utils/assetPath';
+import { forgetDatasetKey } from '../../utils/dataset-encryption';
+import { forgetDatasetFileProtection } from '../../utils/file-access';
 import { getStandaloneSqlite, nowIso, parseJsonObject, stringifyJsonObject } from './sqlite';
+import { userLikeCountSql } from './stack/helpers';
+import { resolveCurrentUserId } from './user-repository';
 
 export interface StandaloneDataset {
   id: number;
@@ -12,6 +16,10 @@ export interface StandaloneDataset {
   isProtected: boolean;
   passwordHash: string | null;
   passwordSalt: string | null;
+  /** 新しく書き込むファイルを暗号化するか */
+  isEncrypted: boolean;
+  /** 暗号化したファイルが残っている可能性があるか（復号が終わるまで true） */
+  hasEncryptionKey: boolean;
   isDefault: boolean;
   createdAt: string;
   updatedAt: string;
@@ -35,6 +43,9 @@ interface DatasetRow {
   is_protected: number;
   password_hash: string | null;
   password_salt: string | null;
+  encryption_enabled: number;
+  encryption_salt: string | null;
+  encryption_key: string | null;
   is_default: number;
   created_at: string;
   updated_at: string;
@@ -75,6 +86,22 @@ interface RecentLikeRow {
   asset_thumbnail: string | null;
 }
 
+interface ContinueReadingRow {
+  id: number;
+  name: string;
+  thumbnail: string | null;
+  liked: number;
+  media_type: string;
+  created_at: string;
+  updated_at: string;
+  page: number;
+  page_count: number;
+  read_at: string;
+  asset_id: number | null;
+  asset_file: string | null;
+  asset_thumbnail: string | null;
+}
+
 const toDataset = (row: DatasetRow): StandaloneDataset => ({
   id: row.id,
   name: row.name,
@@ -85,6 +112,8 @@ const toDataset = (row: DatasetRow): StandaloneDataset => ({
   isProtected: row.is_protected === 1,
   passwordHash: row.password_hash,
   passwordSalt: row.password_salt,
+  isEncrypted: row.encryption_enabled === 1,
+  hasEncryptionKey: Boolean(row.encryption_key),
   isDefault: row.is_default === 1,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
@@ -163,6 +192,7 @@ export class StandaloneDatasetRepository {
     if (!current) return 'not_found';
     if (current.isDefault) return 'is_default';
     this.db.prepare('DELETE FROM datasets WHERE id = ?').run(id);
+    forgetDatasetKey(id);
     return 'deleted';
   }
 
@@ -200,6 +230,32 @@ export class StandaloneDatasetRepository {
         nowIso(),
         id
       );
+    forgetDatasetFileProtection(id);
+    return result.changes > 0;
+  }
+
+  /** パスワードで包んだファイル暗号鍵。暗号化したことがなければ null */
+  getEncryptionKey(id: number): { salt: string; wrappedKey: string } | null {
+    const row = this.db
+      .prepare('SELECT encryption_salt, encryption_key FROM datasets WHERE id = ?')
+      .get(id) as Pick<DatasetRow, 'encryption_salt' | 'encryption_key'> | undefined;
+    if (!row?.encryption_salt || !row.encryption_key) return null;
+    return { salt: row.encryption_salt, wrappedKey: row.encryption_key };
+  }
+
+  setEncryption(
+    id: number,
+    encryption: { enabled: boolean; salt: string | null; wrappedKey: string | null }
+  ): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE datasets
+         SET encryption_enabled = ?, encryption_salt = ?, encryption_key = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(encryption.enabled ? 1 : 0, encryption.salt, encryption.wrappedKey, nowIso(), id);
+    forgetDatasetFileProtection(id);
+    if (!encryption.wrappedKey) forgetDatasetKey(id);
     return result.changes > 0;
   }
 
@@ -303,7 +359,7 @@ export class StandaloneDatasetRepository {
              s.id,
              s.name,
              s.thumbnail,
-             s.liked,
+             l.like_count AS liked,
              s.media_type,
              s.created_at,
              s.updated_at,
@@ -311,9 +367,10 @@ export class StandaloneDatasetRepository {
              a.file AS asset_file,
              a.thumbnail AS asset_thumbnail
            FROM stacks s
-           LEFT JOIN (
-             SELECT stack_id, MAX(created_at) AS last_liked
+           JOIN (
+             SELECT stack_id, MAX(created_at) AS last_liked, COUNT(*) AS like_count
              FROM like_activities
+             WHERE user_id = ?
              GROUP BY stack_id
            ) l ON l.stack_id = s.id
            LEFT JOIN assets a ON a.id = (
@@ -322,11 +379,61 @@ export class StandaloneDatasetRepository {
              ORDER BY order_in_stack ASC, id ASC
              LIMIT 1
            )
-           WHERE s.dataset_id = ? AND s.liked <> 0
+           WHERE s.dataset_id = ?
            ORDER BY l.last_liked DESC, s.updated_at DESC
            LIMIT 12`
         )
-        .all(id) as RecentLikeRow[]
+        .all(resolveCurrentUserId(this.db), id) as RecentLikeRow[]
+    ).map((row) => ({
+      id: row.id,
+      name: row.name,
+      thumbnail: toPublicAssetPath(row.asset_thumbnail || row.thumbnail, id),
+      likeCount: row.liked,
+      mediaType: row.media_type,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      assets: row.asset_id
+        ? [
+            {
+              id: row.asset_id,
+              file: toPublicAssetPath(row.asset_file, id),
+              thumbnail: toPublicAssetPath(row.asset_thumbnail, id),
+            },
+          ]
+        : [],
+    }));
+
+    // 読みかけ（未読了）のスタックを最後に読んだ順に
+    const continueReading = (
+      this.db
+        .prepare(
+          `SELECT
+             s.id,
+             s.name,
+             s.thumbnail,
+             ${userLikeCountSql('rp.user_id')} AS liked,
+             s.media_type,
+             s.created_at,
+             s.updated_at,
+             rp.page,
+             rp.page_count,
+             rp.updated_at AS read_at,
+             a.id AS asset_id,
+             a.file AS asset_file,
+             a.thumbnail AS asset_thumbnail
+           FROM reading_progress rp
+           JOIN stacks s ON s.id = rp.stack_id
+           LEFT JOIN assets a ON a.id = (
+             SELECT id FROM assets
+             WHERE stack_id = s.id
+             ORDER BY order_in_stack ASC, id ASC
+             LIMIT 1
+           )
+           WHERE rp.user_id = ? AND s.dataset_id = ? AND rp.completed_at IS NULL
+           ORDER BY rp.updated_at DESC
+           LIMIT 12`
+        )
+        .all(resolveCurrentUserId(this.db), id) as ContinueReadingRow[]
     ).map((row) => ({
       id: row.id,
       name: row.name,
@@ -335,6 +442,11 @@ export class StandaloneDatasetRepository {
       mediaType: row.media_type,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
+      readingProgress: {
+        page: row.page,
+        pageCount: row.page_count,
+        updatedAt: row.read_at,
+      },
       assets: row.asset_id
         ? [
             {
@@ -351,6 +463,7 @@ export class StandaloneDatasetRepository {
       collections,
       tagCloud,
       recentLikes,
+      continueReading,
     };
   }
 }
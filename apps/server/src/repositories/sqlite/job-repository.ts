@@ -0,0 +1,301 @@
+import type { DatabaseSync } from 'node:sqlite';
+import {
+  getStandaloneSqlite,
+  nowIso,
+  parseJsonObject,
+  type SqliteBindValue,
+  stringifyJsonObject,
+} from './sqlite';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const FINISHED_JOB_STATUSES: readonly JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export interface StandaloneJob {
+  id: number;
+  type: string;
+  dataSetId: number | null;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  progress: { total: number; done: number; failed: number };
+  attempts: number;
+  cancelRequested: boolean;
+  retryOfJobId: number | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
+
+export interface StandaloneJobFailure {
+  id: number;
+  jobId: number;
+  itemKey: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface CreateJobInput {
+  type: string;
+  dataSetId?: number | null;
+  payload?: Record<string, unknown>;
+  retryOfJobId?: number | null;
+}
+
+export interface JobListQuery {
+  dataSetId?: number;
+  /** 一覧から外すライブラリ（保護されていて開けないもの） */
+  excludeDataSetIds?: number[];
+  status?: JobStatus[];
+  type?: string;
+  limit: number;
+  offset: number;
+}
+
+interface JobRow {
+  id: number;
+  type: string;
+  dataset_id: number | null;
+  status: JobStatus;
+  payload_json: string;
+  result_json: string | null;
+  error: string | null;
+  progress_total: number;
+  progress_done: number;
+  progress_failed: number;
+  attempts: number;
+  cancel_requested: number;
+  retry_of_job_id: number | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+interface JobFailureRow {
+  id: number;
+  job_id: number;
+  item_key: string;
+  message: string;
+  created_at: string;
+}
+
+interface CountRow {
+  count: number;
+}
+
+const toJob = (row: JobRow): StandaloneJob => ({
+  id: row.id,
+  type: row.type,
+  dataSetId: row.dataset_id,
+  status: row.status,
+  payload: parseJsonObject(row.payload_json),
+  result: row.result_json ? parseJsonObject(row.result_json) : null,
+  error: row.error,
+  progress: {
+    total: row.progress_total,
+    done: row.progress_done,
+    failed: row.progress_failed,
+  },
+  attempts: row.attempts,
+  cancelRequested: row.cancel_requested === 1,
+  retryOfJobId: row.retry_of_job_id,
+  createdAt: row.created_at,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  updatedAt: row.updated_at,
+});
+
+const toJobFailure = (row: JobFailureRow): StandaloneJobFailure => ({
+  id: row.id,
+  jobId: row.job_id,
+  itemKey: row.item_key,
+  message: row.message,
+  createdAt: row.created_at,
+});
+
+export class StandaloneJobRepository {
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {}
+
+  create(input: CreateJobInput): StandaloneJob {
+    const now = nowIso();
+    const result = this.db
+      .prepare(
+        `INSERT INTO jobs (type, dataset_id, payload_json, retry_of_job_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        input.type,
+        input.dataSetId ?? null,
+        stringifyJsonObject(input.payload),
+        input.retryOfJobId ?? null,
+        now,
+        now
+      );
+    return this.getById(Number(result.lastInsertRowid)) as StandaloneJob;
+  }
+
+  getById(id: number): StandaloneJob | null {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    return row ? toJob(row) : null;
+  }
+
+  list(query: JobListQuery) {
+    const where: string[] = [];
+    const params: SqliteBindValue[] = [];
+    if (query.dataSetId !== undefined) {
+      where.push('dataset_id = ?');
+      params.push(query.dataSetId);
+    }
+    if (query.excludeDataSetIds?.length) {
+      where.push(
+        `(dataset_id IS NULL OR dataset_id NOT IN (${query.excludeDataSetIds.map(() => '?').join(', ')}))`
+      );
+      params.push(...query.excludeDataSetIds);
+    }
+    if (query.status?.length) {
+      where.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+      params.push(...query.status);
+    }
+    if (query.type) {
+      where.push('type = ?');
+      params.push(query.type);
+    }
+    const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    const total =
+      (
+        this.db.prepare(`SELECT COUNT(*) AS count FROM jobs ${whereSql}`).get(...params) as
+          | CountRow
+          | undefined
+      )?.count ?? 0;
+    const rows = this.db
+      .prepare(`SELECT * FROM jobs ${whereSql} ORDER BY id DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.limit, query.offset) as JobRow[];
+
+    return { jobs: rows.map(toJob), total, limit: query.limit, offset: query.offset };
+  }
+
+  /** 最も古い待機中ジョブを実行中にして返す */
+  claimNext(): StandaloneJob | null {
+    const now = nowIso();
+    const row = this.db
+      .prepare(
+        `UPDATE jobs
+         SET status = 'running', attempts = attempts + 1, started_at = ?, updated_at = ?
+         WHERE id = (SELECT id FROM jobs WHERE status = 'queued' ORDER BY id ASC LIMIT 1)
+         RETURNING *`
+      )
+      .get(now, now) as JobRow | undefined;
+    return row ? toJob(row) : null;
+  }
+
+  /** 前回のプロセス終了で中断された実行中ジョブを待機中に戻す */
+  requeueInterrupted() {
+    const result = this.db
+      .prepare(
+        `UPDATE jobs
+         SET status = CASE WHEN cancel_requested = 1 THEN 'cancelled' ELSE 'queued' END,
+             finished_at = CASE WHEN cancel_requested = 1 THEN ? ELSE NULL END,
+             updated_at = ?
+         WHERE status = 'running'`
+      )
+      .run(nowIso(), nowIso());
+    return Number(result.changes);
+  }
+
+  updateProgress(id: number, progress: Partial<StandaloneJob['progress']>) {
+    const sets: string[] = [];
+    const params: SqliteBindValue[] = [];
+    if (progress.total !== undefined) {
+      sets.push('progress_total = ?');
+      params.push(progress.total);
+    }
+    if (progress.done !== undefined) {
+      sets.push('progress_done = ?');
+      params.push(progress.done);
+    }
+    if (progress.failed !== undefined) {
+      sets.push('progress_failed = ?');
+      params.push(progress.failed);
+    }
+    if (sets.length === 0) return;
+    this.db
+      .prepare(`UPDATE jobs SET ${sets.join(', ')}, updated_at = ? WHERE id = ?`)
+      .run(...params, nowIso(), id);
+  }
+
+  addFailure(jobId: number, itemKey: string, message: string) {
+    this.db
+      .prepare(
+        'INSERT INTO job_failures (job_id, item_key, message, created_at) VALUES (?, ?, ?, ?)'
+      )
+      .run(jobId, itemKey, message, nowIso());
+  }
+
+  getFailures(jobId: number, limit = 500): StandaloneJobFailure[] {
+    const rows = this.db
+      .prepare('SELECT * FROM job_failures WHERE job_id = ? ORDER BY id ASC LIMIT ?')
+      .all(jobId, limit) as JobFailureRow[];
+    return rows.map(toJobFailure);
+  }
+
+  getFailedItemKeys(jobId: number): string[] {
+    const rows = this.db
+      .prepare('SELECT DISTINCT item_key FROM job_failures WHERE job_id = ? ORDER BY item_key')
+      .all(jobId) as Array<{ item_key: string }>;
+    return rows.map((row) => row.item_key);
+  }
+
+  finish(
+    id: number,
+    status: Extract<JobStatus, 'succeeded' | 'failed' | 'cancelled'>,
+    outcome: { result?: Record<string, unknown> | null; error?: string | null } = {}
+  ) {
+    const now = nowIso();
+    this.db
+      .prepare(
+        `UPDATE jobs
+         SET status = ?, result_json = ?, error = ?, finished_at = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(
+        status,
+        outcome.result ? JSON.stringify(outcome.result) : null,
+        outcome.error ?? null,
+        now,
+        now,
+        id
+      );
+    return this.getById(id);
+  }
+
+  /**
+   * 待機中のジョブはその場で取り消し、実行中のジョブには中断要求を立てる。
+   * 既に終了しているジョブは変更しない。
+   */
+  requestCancel(id: number): StandaloneJob | null {
+    const now = nowIso();
+    this.db
+      .prepare(
+        `UPDATE jobs
+         SET status = 'cancelled', cancel_requested = 1, finished_at = ?, updated_at = ?
+         WHERE id = ? AND status = 'queued'`
+      )
+      .run(now, now, id);
+    this.db
+      .prepare(
+        `UPDATE jobs SET cancel_requested = 1, updated_at = ? WHERE id = ? AND status = 'running'`
+      )
+      .run(now, id);
+    return this.getById(id);
+  }
+
+  isCancelRequested(id: number) {
+    const row = this.db.prepare('SELECT cancel_requested FROM jobs WHERE id = ?').get(id) as
+      | { cancel_requested: number }
+      | undefined;
+    return row?.cancel_requested === 1;
+  }
+}
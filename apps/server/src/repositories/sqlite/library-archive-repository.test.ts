@@ -0,0 +1,163 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LibraryArchiveManifestSchema } from '../../schemas/library-archive-schema';
+import { StandaloneLibraryArchiveRepository } from './library-archive-repository';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+const now = '2026-07-01T00:00:00.000Z';
+
+describe('StandaloneLibraryArchiveRepository', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneLibraryArchiveRepository;
+
+  const insertStack = (id: number, dataSetId: number, name: string, hash: string) => {
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, liked, created_at, updated_at)
+       VALUES (?, ?, ?, '', 'image', 2, ?, ?)`
+    ).run(id, dataSetId, name, now, now);
+    db.prepare(
+      `INSERT INTO assets
+         (id, stack_id, file, thumbnail, file_type, original_name, hash, order_in_stack, created_at, updated_at)
+       VALUES (?, ?, ?, '', 'png', ?, ?, 0, ?, ?)`
+    ).run(id, id, `library/${dataSetId}/assets/${hash}.png`, `${name}.png`, hash, now, now);
+  };
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneLibraryArchiveRepository(db);
+
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at)
+       VALUES (1, 'Library', ?, ?), (2, 'Other', ?, ?)`
+    ).run(now, now, now, now);
+    db.prepare(
+      `INSERT INTO users (id, name, created_at, updated_at) VALUES (1, 'Owner', ?, ?)`
+    ).run(now, now);
+    db.prepare(`INSERT INTO authors (id, dataset_id, name) VALUES (1, 1, 'Artist')`).run();
+    db.prepare(
+      `INSERT INTO author_links (author_id, provider, label, url, sort_order, created_at, updated_at)
+       VALUES (1, 'pixiv', 'pixiv', 'https://www.pixiv.net/users/1', 0, ?, ?)`
+    ).run(now, now);
+    db.prepare(`INSERT INTO tags (id, dataset_id, title) VALUES (1, 1, 'sky')`).run();
+
+    insertStack(1, 1, 'Cloud', 'hash-cloud');
+    db.prepare('UPDATE stacks SET author_id = 1 WHERE id = 1').run();
+    db.prepare('INSERT INTO stack_tags (stack_id, tag_id) VALUES (1, 1)').run();
+    db.prepare('INSERT INTO stack_favorites (user_id, stack_id, created_at) VALUES (1, 1, ?)').run(
+      now
+    );
+    db.prepare(
+      'INSERT INTO like_activities (stack_id, asset_id, user_id, created_at) VALUES (1, 1, 1, ?)'
+    ).run(now);
+    db.prepare(
+      `INSERT INTO collection_folders (id, dataset_id, name, created_at, updated_at)
+       VALUES (1, 1, 'Refs', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO collections (id, dataset_id, folder_id, name, type, created_at, updated_at)
+       VALUES (1, 1, 1, 'Weather', 'MANUAL', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO collection_stacks (collection_id, stack_id, added_at, order_index)
+       VALUES (1, 1, ?, 0)`
+    ).run(now);
+    db.prepare(
+      `INSERT INTO auto_tag_mappings
+         (dataset_id, tag_id, auto_tag_key, display_name, created_at, updated_at)
+       VALUES (1, 1, 'blue_sky', 'Blue sky', ?, ?)`
+    ).run(now, now);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('exports a manifest that round-trips through the schema', () => {
+    const archive = repository.buildExport(1);
+    const manifest = LibraryArchiveManifestSchema.parse(
+      JSON.parse(JSON.stringify(archive?.manifest))
+    );
+
+    expect(manifest.authors[0]).toMatchObject({
+      name: 'Artist',
+      links: [{ url: 'https://www.pixiv.net/users/1' }],
+    });
+    expect(manifest.stacks[0]).toMatchObject({ authorId: 1, tagIds: [1], favorited: true });
+    expect(manifest.collections[0]).toMatchObject({ folderId: 1, stackIds: [1] });
+    expect(manifest.autoTagMappings[0]).toMatchObject({ autoTagKey: 'blue_sky', tagId: 1 });
+    expect(manifest.likes).toHaveLength(1);
+    // 実体ファイルが無いアセットはアーカイブに含めない
+    expect(manifest.assets[0].path).toBeNull();
+    expect(archive?.files).toEqual([]);
+    expect(repository.buildExport(99)).toBeNull();
+  });
+
+  it('rejects manifests whose file type could escape the extraction directory', () => {
+    const manifest = JSON.parse(JSON.stringify(repository.buildExport(1)?.manifest));
+    manifest.assets[0].fileType = 'x/../../../../etc/cron.d/evil';
+    expect(LibraryArchiveManifestSchema.safeParse(manifest).success).toBe(false);
+  });
+
+  it('merges stacks whose assets already exist and remaps metadata', async () => {
+    insertStack(2, 2, 'Existing cloud', 'hash-cloud');
+    const { manifest } = repository.buildExport(1)!;
+
+    const session = repository.beginImport(manifest, { dataSetId: 2 });
+    const result = await repository.importStack(
+      session,
+      manifest.stacks[0],
+      manifest.assets,
+      async () => {
+        throw new Error('duplicates should not be extracted');
+      }
+    );
+    const summary = repository.finishImport(session, manifest);
+
+    expect(result).toBe('merged');
+    expect(summary).toMatchObject({ dataSetId: 2, stacks: 0, mergedStacks: 1, duplicateAssets: 1 });
+    expect(
+      db
+        .prepare(
+          `SELECT t.title FROM stack_tags st JOIN tags t ON t.id = st.tag_id WHERE st.stack_id = 2`
+        )
+        .all()
+    ).toEqual([{ title: 'sky' }]);
+    expect(
+      db
+        .prepare(
+          `SELECT c.name, f.name AS folder FROM collection_stacks cs
+           JOIN collections c ON c.id = cs.collection_id
+           JOIN collection_folders f ON f.id = c.folder_id
+           WHERE cs.stack_id = 2`
+        )
+        .all()
+    ).toEqual([{ name: 'Weather', folder: 'Refs' }]);
+    expect(
+      db.prepare('SELECT COUNT(*) AS count FROM stack_favorites WHERE stack_id = 2').get()
+    ).toEqual({ count: 1 });
+    // 既存スタックへ合流した場合はいいね履歴を重複させない
+    expect(
+      db.prepare('SELECT COUNT(*) AS count FROM like_activities WHERE stack_id = 2').get()
+    ).toEqual({ count: 0 });
+    expect(
+      db
+        .prepare(
+          `SELECT COUNT(*) AS count FROM author_links al JOIN authors a ON a.id = al.author_id WHERE a.dataset_id = 2`
+        )
+        .get()
+    ).toEqual({ count: 1 });
+  });
+
+  it('creates a new dataset with a unique name when none is given', () => {
+    const { manifest } = repository.buildExport(1)!;
+    const session = repository.beginImport(manifest, {});
+
+    expect(session.createdDataset).toBe(true);
+    expect(db.prepare('SELECT name FROM datasets WHERE id = ?').get(session.dataSetId)).toEqual({
+      name: 'Library (2)',
+    });
+  });
+});
@@ -0,0 +1,797 @@
+import fs from 'node:fs';
+import type { DatabaseSync } from 'node:sqlite';
+import { DataStorage } from '../../lib/DataStorage';
+import {
+  LIBRARY_ARCHIVE_FORMAT,
+  LIBRARY_ARCHIVE_VERSION,
+  type LibraryArchiveAsset,
+  type LibraryArchiveManifest,
+  type LibraryArchiveStack,
+} from '../../schemas/library-archive-schema';
+import { getStoredFileSize } from '../../utils/dataset-encryption';
+import { StandaloneDatasetRepository } from './dataset-repository';
+import { getStandaloneSqlite, nowIso, parseJsonObject, stringifyJsonObject } from './sqlite';
+import { StandaloneStackRepository } from './stack-repository';
+import { resolveCurrentUserId } from './user-repository';
+
+export interface LibraryArchiveFile {
+  /** アーカイブ内のパス */
+  name: string;
+  filePath: string;
+  size: number;
+}
+
+export interface LibraryArchiveExport {
+  manifest: LibraryArchiveManifest;
+  files: LibraryArchiveFile[];
+}
+
+export interface LibraryArchiveImportTarget {
+  dataSetId?: number;
+  name?: string;
+}
+
+/** インポート中の旧 ID → 新 ID の対応表 */
+export interface LibraryArchiveImportSession {
+  dataSetId: number;
+  createdDataset: boolean;
+  authorIds: Map<number, number>;
+  tagIds: Map<number, number>;
+  folderIds: Map<number, number>;
+  collectionIds: Map<number, number>;
+  stackIds: Map<number, number>;
+  assetIds: Map<number, number>;
+  /** 今回新しく作られたスタック（既存スタックへ合流したものは含まない） */
+  createdStackIds: Set<number>;
+  duplicateAssets: number;
+}
+
+export type LibraryArchiveStackResult = 'created' | 'merged' | 'skipped';
+
+interface IdRow {
+  id: number;
+}
+
+interface AuthorRow {
+  id: number;
+  name: string;
+}
+
+interface AuthorLinkRow {
+  author_id: number;
+  provider: string | null;
+  label: string;
+  url: string;
+  external_id: string | null;
+  sort_order: number;
+}
+
+interface TagRow {
+  id: number;
+  title: string;
+}
+
+interface StackRow {
+  id: number;
+  author_id: number | null;
+  name: string;
+  media_type: 'image' | 'comic' | 'video';
+  liked: number;
+  meta_json: string | null;
+  is_favorite: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StackTagRow {
+  stack_id: number;
+  tag_id: number;
+}
+
+interface AssetRow {
+  id: number;
+  stack_id: number;
+  file: string;
+  file_type: string;
+  original_name: string;
+  hash: string;
+  order_in_stack: number;
+  meta_json: string | null;
+  is_favorite: number;
+  created_at: string;
+}
+
+interface FolderRow {
+  id: number;
+  parent_id: number | null;
+  name: string;
+  icon: string;
+  description: string | null;
+  sort_order: number;
+}
+
+interface CollectionRow {
+  id: number;
+  folder_id: number | null;
+  name: string;
+  icon: string;
+  description: string | null;
+  type: 'SMART' | 'MANUAL' | 'SCRATCH';
+  filter_config_json: string | null;
+}
+
+interface CollectionStackRow {
+  collection_id: number;
+  stack_id: number;
+}
+
+interface AutoTagMappingRow {
+  auto_tag_key: string;
+  display_name: string;
+  description: string | null;
+  tag_id: number | null;
+  is_active: number;
+  is_stop: number;
+}
+
+interface LikeRow {
+  stack_id: number;
+  asset_id: number | null;
+  created_at: string;
+}
+
+interface DuplicateRow {
+  id: number;
+  stack_id: number;
+}
+
+const resolveOriginalPath = (file: string): string | null => {
+  const key = file.replace(/^\/?files\//, '').replace(/^\//, '');
+  const fullPath = DataStorage.getPath(key);
+  try {
+    return fs.statSync(fullPath).isFile() ? fullPath : null;
+  } catch {
+    return null;
+  }
+};
+
+const groupBy = <T, K>(rows: T[], key: (row: T) => K) => {
+  const groups = new Map<K, T[]>();
+  for (const row of rows) {
+    const group = groups.get(key(row)) ?? [];
+    group.push(row);
+    groups.set(key(row), group);
+  }
+  return groups;
+};
+
+/**
+ * データセットを可搬なアーカイブへ書き出し、別の環境で復元する。
+ * ファイルの読み書き（tar）は呼び出し側で行い、ここでは manifest と DB の対応付けを扱う。
+ */
+export class StandaloneLibraryArchiveRepository {
+  private stackRepository: StandaloneStackRepository;
+  private datasetRepository: StandaloneDatasetRepository;
+
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {
+    this.stackRepository = new StandaloneStackRepository(db);
+    this.datasetRepository = new StandaloneDatasetRepository(db);
+  }
+
+  buildExport(dataSetId: number): LibraryArchiveExport | null {
+    const dataset = this.datasetRepository.getById(dataSetId);
+    if (!dataset) return null;
+
+    const authors = this.db
+      .prepare('SELECT id, name FROM authors WHERE dataset_id = ? ORDER BY id ASC')
+      .all(dataSetId) as AuthorRow[];
+    const links = groupBy(
+      this.db
+        .prepare(
+          `SELECT al.author_id, al.provider, al.label, al.url, al.external_id, al.sort_order
+           FROM author_links al
+           JOIN authors a ON a.id = al.author_id
+           WHERE a.dataset_id = ?
+           ORDER BY al.sort_order ASC, al.id ASC`
+        )
+        .all(dataSetId) as AuthorLinkRow[],
+      (row) => row.author_id
+    );
+    const tags = this.db
+      .prepare('SELECT id, title FROM tags WHERE dataset_id = ? ORDER BY id ASC')
+      .all(dataSetId) as TagRow[];
+    const stacks = this.db
+      .prepare(
+        `SELECT s.id, s.author_id, s.name, s.media_type, s.liked, s.meta_json, s.created_at, s.updated_at,
+                EXISTS (SELECT 1 FROM stack_favorites f WHERE f.stack_id = s.id) AS is_favorite
+         FROM stacks s
+         WHERE s.dataset_id = ?
+         ORDER BY s.id ASC`
+      )
+      .all(dataSetId) as StackRow[];
+    const stackTags = groupBy(
+      this.db
+        .prepare(
+          `SELECT st.stack_id, st.tag_id
+           FROM stack_tags st
+           JOIN stacks s ON s.id = st.stack_id
+           WHERE s.dataset_id = ?`
+        )
+        .all(dataSetId) as StackTagRow[],
+      (row) => row.stack_id
+    );
+    const assets = this.db
+      .prepare(
+        `SELECT a.id, a.stack_id, a.file, a.file_type, a.original_name, a.hash, a.order_in_stack,
+                a.meta_json, a.created_at,
+                EXISTS (SELECT 1 FROM asset_favorites f WHERE f.asset_id = a.id) AS is_favorite
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE s.dataset_id = ?
+         ORDER BY a.stack_id ASC, a.order_in_stack ASC, a.id ASC`
+      )
+      .all(dataSetId) as AssetRow[];
+    const folders = this.db
+      .prepare(
+        `SELECT id, parent_id, name, icon, description, sort_order
+         FROM collection_folders
+         WHERE dataset_id = ?
+         ORDER BY id ASC`
+      )
+      .all(dataSetId) as FolderRow[];
+    const collections = this.db
+      .prepare(
+        `SELECT id, folder_id, name, icon, description, type, filter_config_json
+         FROM collections
+         WHERE dataset_id = ?
+         ORDER BY id ASC`
+      )
+      .all(dataSetId) as CollectionRow[];
+    const collectionStacks = groupBy(
+      this.db
+        .prepare(
+          `SELECT cs.collection_id, cs.stack_id
+           FROM collection_stacks cs
+           JOIN collections c ON c.id = cs.collection_id
+           WHERE c.dataset_id = ?
+           ORDER BY cs.order_index ASC, cs.added_at ASC`
+        )
+        .all(dataSetId) as CollectionStackRow[],
+      (row) => row.collection_id
+    );
+    const mappings = this.db
+      .prepare(
+        `SELECT auto_tag_key, display_name, description, tag_id, is_active, is_stop
+         FROM auto_tag_mappings
+         WHERE dataset_id = ?
+         ORDER BY id ASC`
+      )
+      .all(dataSetId) as AutoTagMappingRow[];
+    const likes = this.db
+      .prepare(
+        `SELECT la.stack_id, la.asset_id, la.created_at
+         FROM like_activities la
+         JOIN stacks s ON s.id = la.stack_id
+         WHERE s.dataset_id = ?
+         ORDER BY la.created_at ASC, la.id ASC`
+      )
+      .all(dataSetId) as LikeRow[];
+
+    // 同じ実体ファイルはアーカイブに一度だけ入れる
+    const files: LibraryArchiveFile[] = [];
+    const archivedByFile = new Map<string, string | null>();
+    const usedNames = new Set<string>();
+    const archiveAsset = (asset: AssetRow) => {
+      if (archivedByFile.has(asset.file)) return archivedByFile.get(asset.file) ?? null;
+      const filePath = resolveOriginalPath(asset.file);
+      let name: string | null = null;
+      if (filePath) {
+        name = `originals/${asset.hash}.${asset.file_type}`;
+        if (usedNames.has(name)) name = `originals/${asset.hash}-${asset.id}.${asset.file_type}`;
+        usedNames.add(name);
+        files.push({ name, filePath, size: getStoredFileSize(filePath) });
+      }
+      archivedByFile.set(asset.file, name);
+      return name;
+    };
+
+    const manifest: LibraryArchiveManifest = {
+      format: LIBRARY_ARCHIVE_FORMAT,
+      version: LIBRARY_ARCHIVE_VERSION,
+      exportedAt: nowIso(),
+      dataset: {
+        name: dataset.name,
+        icon: dataset.icon,
+        themeColor: dataset.themeColor,
+        description: dataset.description,
+        settings: dataset.settings,
+      },
+      authors: authors.map((author) => ({
+        id: author.id,
+        name: author.name,
+        links: (links.get(author.id) ?? []).map((link) => ({
+          provider: link.provider,
+          label: link.label,
+          url: link.url,
+          externalId: link.external_id,
+          sortOrder: link.sort_order,
+        })),
+      })),
+      tags: tags.map((tag) => ({ id: tag.id, title: tag.title })),
+      stacks: stacks.map((stack) => ({
+        id: stack.id,
+        name: stack.name,
+        authorId: stack.author_id,
+        mediaType: stack.media_type,
+        liked: stack.liked,
+        meta: parseJsonObject(stack.meta_json),
+        tagIds: (stackTags.get(stack.id) ?? []).map((row) => row.tag_id),
+        favorited: Boolean(stack.is_favorite),
+        createdAt: stack.created_at,
+        updatedAt: stack.updated_at,
+      })),
+      assets: assets.map((asset) => ({
+        id: asset.id,
+        stackId: asset.stack_id,
+        path: archiveAsset(asset),
+        fileType: asset.file_type,
+        originalName: asset.original_name,
+        hash: asset.hash,
+        orderInStack: asset.order_in_stack,
+        meta: parseJsonObject(asset.meta_json),
+        favorited: Boolean(asset.is_favorite),
+        createdAt: asset.created_at,
+      })),
+      collectionFolders: folders.map((folder) => ({
+        id: folder.id,
+        parentId: folder.parent_id,
+        name: folder.name,
+        icon: folder.icon,
+        description: folder.description,
+        sortOrder: folder.sort_order,
+      })),
+      collections: collections.map((collection) => ({
+        id: collection.id,
+        folderId: collection.folder_id,
+        name: collection.name,
+        icon: collection.icon,
+        description: collection.description,
+        type: collection.type,
+        filterConfig: collection.filter_config_json
+          ? parseJsonObject(collection.filter_config_json)
+          : null,
+        stackIds: (collectionStacks.get(collection.id) ?? []).map((row) => row.stack_id),
+      })),
+      autoTagMappings: mappings.map((mapping) => ({
+        autoTagKey: mapping.auto_tag_key,
+        displayName: mapping.display_name,
+        description: mapping.description,
+        tagId: mapping.tag_id,
+        isActive: Boolean(mapping.is_active),
+        isStop: Boolean(mapping.is_stop),
+      })),
+      likes: likes.map((like) => ({
+        stackId: like.stack_id,
+        assetId: like.asset_id,
+        createdAt: like.created_at,
+      })),
+    };
+
+    return { manifest, files };
+  }
+
+  /**
+   * インポート先のデータセットを用意し、スタック以外のメタデータ（作者・タグ・フォルダ・コレクション・AutoTag 対応）を復元する。
+   * 名前が衝突するものは既存のレコードを再利用する。
+   */
+  beginImport(
+    manifest: LibraryArchiveManifest,
+    target: LibraryArchiveImportTarget
+  ): LibraryArchiveImportSession {
+    let dataSetId = target.dataSetId;
+    let createdDataset = false;
+    if (!dataSetId) {
+      const dataset = this.datasetRepository.create({
+        name: this.resolveDatasetName(target.name?.trim() || manifest.dataset.name),
+        icon: manifest.dataset.icon ?? undefined,
+        themeColor: manifest.dataset.themeColor ?? undefined,
+        description: manifest.dataset.description ?? undefined,
+        settings: manifest.dataset.settings,
+      });
+      dataSetId = dataset.id;
+      createdDataset = true;
+    } else if (!this.datasetRepository.getById(dataSetId)) {
+      throw new Error(`DataSet ${dataSetId} not found`);
+    }
+
+    const session: LibraryArchiveImportSession = {
+      dataSetId,
+      createdDataset,
+      authorIds: new Map(),
+      tagIds: new Map(),
+      folderIds: new Map(),
+      collectionIds: new Map(),
+      stackIds: new Map(),
+      assetIds: new Map(),
+      createdStackIds: new Set(),
+      duplicateAssets: 0,
+    };
+
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      for (const author of manifest.authors) {
+        session.authorIds.set(author.id, this.importAuthor(dataSetId, author));
+      }
+      for (const tag of manifest.tags) {
+        session.tagIds.set(tag.id, this.findOrCreateTag(dataSetId, tag.title));
+      }
+      this.importFolders(session, manifest.collectionFolders);
+      for (const collection of manifest.collections) {
+        session.collectionIds.set(collection.id, this.importCollection(session, collection));
+      }
+      for (const mapping of manifest.autoTagMappings) {
+        const now = nowIso();
+        this.db
+          .prepare(
+            `INSERT OR IGNORE INTO auto_tag_mappings
+               (dataset_id, tag_id, auto_tag_key, display_name, description, is_active, is_stop, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            dataSetId,
+            mapping.tagId === null ? null : (session.tagIds.get(mapping.tagId) ?? null),
+            mapping.autoTagKey,
+            mapping.displayName,
+            mapping.description,
+            mapping.isActive ? 1 : 0,
+            mapping.isStop ? 1 : 0,
+            now,
+            now
+          );
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+
+    return session;
+  }
+
+  /**
+   * スタックを1件復元する。同じハッシュのアセットが既にデータセットにあれば取り込まず既存のものへ対応付け、
+   * すべてのアセットが既存の場合はスタックごと既存のスタックへ合流させる。
+   * `extract` はアセットのオリジナルを一時ファイルへ取り出し、そのパスを返す。
+   */
+  async importStack(
+    session: LibraryArchiveImportSession,
+    stack: LibraryArchiveStack,
+    assets: LibraryArchiveAsset[],
+    extract: (asset: LibraryArchiveAsset) => Promise<string>
+  ): Promise<LibraryArchiveStackResult> {
+    const existing = new Map<number, DuplicateRow>();
+    for (const asset of assets) {
+      const duplicate = this.findAssetByHash(session.dataSetId, asset.hash);
+      if (duplicate) existing.set(asset.id, duplicate);
+    }
+    const pending = assets.filter((asset) => !existing.has(asset.id) && asset.path);
+
+    for (const [assetId, duplicate] of existing) {
+      session.assetIds.set(assetId, duplicate.id);
+      session.duplicateAssets++;
+    }
+
+    if (pending.length === 0) {
+      const first = assets.find((asset) => existing.has(asset.id));
+      if (!first) return 'skipped';
+      const targetStackId = existing.get(first.id)!.stack_id;
+      session.stackIds.set(stack.id, targetStackId);
+      this.applyStackTags(session, targetStackId, stack.tagIds);
+      return 'merged';
+    }
+
+    const authorId =
+      stack.authorId === null ? null : (session.authorIds.get(stack.authorId) ?? null);
+    const stackId = Number(
+      this.db
+        .prepare(
+          `INSERT INTO stacks
+             (dataset_id, author_id, name, thumbnail, media_type, liked, meta_json, dominant_colors_json, created_at, updated_at)
+           VALUES (?, ?, ?, '', ?, ?, ?, NULL, ?, ?)`
+        )
+        .run(
+          session.dataSetId,
+          authorId,
+          stack.name,
+          stack.mediaType,
+          stack.liked,
+          stringifyJsonObject(stack.meta),
+          stack.createdAt,
+          stack.updatedAt
+        ).lastInsertRowid
+    );
+
+    try {
+      for (const asset of pending) {
+        const filePath = await extract(asset);
+        const created = await this.stackRepository.addAssetWithFile(
+          stackId,
+          {
+            path: filePath,
+            originalname: asset.originalName,
+            mimetype: '',
+            size: fs.statSync(filePath).size,
+          },
+          { allowDuplicate: true, meta: asset.meta }
+        );
+        if (!created) continue;
+        const assetId = Number(created.id);
+        this.db
+          .prepare('UPDATE assets SET created_at = ? WHERE id = ?')
+          .run(asset.createdAt, assetId);
+        session.assetIds.set(asset.id, assetId);
+      }
+    } catch (error) {
+      // 取り込み途中のスタックはゴミ箱に入れず消す
+      this.db.prepare('DELETE FROM stacks WHERE id = ?').run(stackId);
+      throw error;
+    }
+
+    // addAssetWithFile が更新日時を書き換えるため、元の日時に戻す
+    this.db.prepare('UPDATE stacks SET updated_at = ? WHERE id = ?').run(stack.updatedAt, stackId);
+    session.stackIds.set(stack.id, stackId);
+    session.createdStackIds.add(stackId);
+    this.applyStackTags(session, stackId, stack.tagIds);
+    return 'created';
+  }
+
+  /** スタックに依存するもの（コレクションの中身・お気に入り・いいね履歴）を復元し、検索インデックスを作り直す */
+  finishImport(session: LibraryArchiveImportSession, manifest: LibraryArchiveManifest) {
+    let collectionStacks = 0;
+    let likes = 0;
+
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      for (const collection of manifest.collections) {
+        const collectionId = session.collectionIds.get(collection.id);
+        if (!collectionId || collection.type !== 'MANUAL') continue;
+        const maxOrder =
+          (
+            this.db
+              .prepare(
+                'SELECT COALESCE(MAX(order_index), -1) AS id FROM collection_stacks WHERE collection_id = ?'
+              )
+              .get(collectionId) as IdRow | undefined
+          )?.id ?? -1;
+        let order = maxOrder + 1;
+        for (const oldStackId of collection.stackIds) {
+          const stackId = session.stackIds.get(oldStackId);
+          if (!stackId) continue;
+          const result = this.db
+            .prepare(
+              `INSERT OR IGNORE INTO collection_stacks (collection_id, stack_id, added_at, order_index)
+               VALUES (?, ?, ?, ?)`
+            )
+            .run(collectionId, stackId, nowIso(), order);
+          if (Number(result.changes) > 0) {
+            order++;
+            collectionStacks++;
+          }
+        }
+      }
+
+      const userId = resolveCurrentUserId(this.db);
+      for (const like of manifest.likes) {
+        const stackId = session.stackIds.get(like.stackId);
+        if (!stackId || !session.createdStackIds.has(stackId)) continue;
+        const assetId = like.assetId === null ? null : (session.assetIds.get(like.assetId) ?? null);
+        this.db
+          .prepare(
+            'INSERT INTO like_activities (stack_id, asset_id, user_id, created_at) VALUES (?, ?, ?, ?)'
+          )
+          .run(stackId, assetId, userId, like.createdAt);
+        likes++;
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+
+    for (const stack of manifest.stacks) {
+      const stackId = session.stackIds.get(stack.id);
+      if (stackId && stack.favorited) this.stackRepository.toggleStackFavorite(stackId, true);
+    }
+    for (const asset of manifest.assets) {
+      const assetId = session.assetIds.get(asset.id);
+      if (assetId && asset.favorited) this.stackRepository.toggleAssetFavorite(assetId, true);
+    }
+
+    this.stackRepository.rebuildSearchIndex(session.dataSetId);
+
+    return {
+      dataSetId: session.dataSetId,
+      createdDataset: session.createdDataset,
+      stacks: session.createdStackIds.size,
+      mergedStacks: session.stackIds.size - session.createdStackIds.size,
+      assets: session.assetIds.size - session.duplicateAssets,
+      duplicateAssets: session.duplicateAssets,
+      collectionStacks,
+      likes,
+    };
+  }
+
+  private resolveDatasetName(name: string) {
+    const exists = (candidate: string) =>
+      Boolean(
+        this.db.prepare('SELECT id FROM datasets WHERE name = ? COLLATE NOCASE').get(candidate)
+      );
+    if (!exists(name)) return name;
+    for (let suffix = 2; ; suffix++) {
+      const candidate = `${name} (${suffix})`;
+      if (!exists(candidate)) return candidate;
+    }
+  }
+
+  private importAuthor(dataSetId: number, author: LibraryArchiveManifest['authors'][number]) {
+    const existing = this.db
+      .prepare('SELECT id FROM authors WHERE dataset_id = ? AND name = ? COLLATE NOCASE')
+      .get(dataSetId, author.name) as IdRow | undefined;
+    const authorId =
+      existing?.id ??
+      Number(
+        this.db
+          .prepare('INSERT INTO authors (dataset_id, name) VALUES (?, ?)')
+          .run(dataSetId, author.name).lastInsertRowid
+      );
+
+    const knownUrls = new Set(
+      (
+        this.db.prepare('SELECT url FROM author_links WHERE author_id = ?').all(authorId) as Array<{
+          url: string;
+        }>
+      ).map((row) => row.url)
+    );
+    const now = nowIso();
+    for (const link of author.links) {
+      if (knownUrls.has(link.url)) continue;
+      knownUrls.add(link.url);
+      this.db
+        .prepare(
+          `INSERT INTO author_links
+             (author_id, provider, label, url, external_id, sort_order, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          authorId,
+          link.provider,
+          link.label,
+          link.url,
+          link.externalId,
+          link.sortOrder,
+          now,
+          now
+        );
+    }
+    return authorId;
+  }
+
+  private findOrCreateTag(dataSetId: number, title: string) {
+    const existing = this.db
+      .prepare('SELECT id FROM tags WHERE dataset_id = ? AND title = ? COLLATE NOCASE')
+      .get(dataSetId, title) as IdRow | undefined;
+    return (
+      existing?.id ??
+      Number(
+        this.db.prepare('INSERT INTO tags (dataset_id, title) VALUES (?, ?)').run(dataSetId, title)
+          .lastInsertRowid
+      )
+    );
+  }
+
+  // 親フォルダを先に作る必要があるため、対応付けが済んだものから順に処理する
+  private importFolders(
+    session: LibraryArchiveImportSession,
+    folders: LibraryArchiveManifest['collectionFolders']
+  ) {
+    let remaining = folders;
+    while (remaining.length > 0) {
+      const next = remaining.filter(
+        (folder) => folder.parentId !== null && !session.folderIds.has(folder.parentId)
+      );
+      const ready = remaining.filter((folder) => !next.includes(folder));
+      // 親がアーカイブに含まれていない場合はルートに置く
+      const batch =
+        ready.length > 0 ? ready : next.map((folder) => ({ ...folder, parentId: null }));
+      for (const folder of batch) {
+        const parentId =
+          folder.parentId === null ? null : (session.folderIds.get(folder.parentId) ?? null);
+        const existing = this.db
+          .prepare(
+            `SELECT id FROM collection_folders
+             WHERE dataset_id = ? AND name = ? COLLATE NOCASE AND parent_id IS ?`
+          )
+          .get(session.dataSetId, folder.name, parentId) as IdRow | undefined;
+        const now = nowIso();
+        const folderId =
+          existing?.id ??
+          Number(
+            this.db
+              .prepare(
+                `INSERT INTO collection_folders
+                   (dataset_id, parent_id, name, icon, description, sort_order, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+              )
+              .run(
+                session.dataSetId,
+                parentId,
+                folder.name,
+                folder.icon,
+                folder.description,
+                folder.sortOrder,
+                now,
+                now
+              ).lastInsertRowid
+          );
+        session.folderIds.set(folder.id, folderId);
+      }
+      remaining = ready.length > 0 ? next : [];
+    }
+  }
+
+  private importCollection(
+    session: LibraryArchiveImportSession,
+    collection: LibraryArchiveManifest['collections'][number]
+  ) {
+    const existing = this.db
+      .prepare('SELECT id FROM collections WHERE dataset_id = ? AND name = ? COLLATE NOCASE')
+      .get(session.dataSetId, collection.name) as IdRow | undefined;
+    if (existing) return existing.id;
+
+    const now = nowIso();
+    const folderId =
+      collection.folderId === null ? null : (session.folderIds.get(collection.folderId) ?? null);
+    return Number(
+      this.db
+        .prepare(
+          `INSERT INTO collections
+             (dataset_id, folder_id, name, icon, description, type, filter_config_json, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          session.dataSetId,
+          folderId,
+          collection.name,
+          collection.icon,
+          collection.description,
+          collection.type,
+          collection.filterConfig ? JSON.stringify(collection.filterConfig) : null,
+          now,
+          now
+        ).lastInsertRowid
+    );
+  }
+
+  private findAssetByHash(dataSetId: number, hash: string) {
+    return this.db
+      .prepare(
+        `SELECT a.id, a.stack_id
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE s.dataset_id = ? AND a.hash = ?
+         ORDER BY a.id ASC
+         LIMIT 1`
+      )
+      .get(dataSetId, hash) as DuplicateRow | undefined;
+  }
+
+  private applyStackTags(session: LibraryArchiveImportSession, stackId: number, tagIds: number[]) {
+    for (const oldTagId of tagIds) {
+      const tagId = session.tagIds.get(oldTagId);
+      if (!tagId) continue;
+      this.db
+        .prepare('INSERT OR IGNORE INTO stack_tags (stack_id, tag_id) VALUES (?, ?)')
+        .run(stackId, tagId);
+    }
+  }
+}
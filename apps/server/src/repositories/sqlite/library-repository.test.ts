@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { StandaloneLibraryRepository } from './library-repository';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+
+describe('StandaloneLibraryRepository smart collections', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneLibraryRepository;
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneLibraryRepository(db);
+
+    const now = '2026-07-01T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at) VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES
+         (1, 1, 'Beach', '', 'image', '2026-01-01T00:00:00.000Z', ?),
+         (2, 1, 'Alps', '', 'image', '2026-02-01T00:00:00.000Z', ?),
+         (3, 1, 'Cove', '', 'image', '2026-03-01T00:00:00.000Z', ?),
+         (4, 1, 'Draft', '', 'image', '2026-04-01T00:00:00.000Z', ?)`
+    ).run(now, now, now, now);
+    db.prepare(
+      `INSERT INTO assets
+         (id, stack_id, file, thumbnail, file_type, original_name, hash, order_in_stack, created_at, updated_at)
+       VALUES
+         (1, 1, '/tmp/1.png', '', 'png', '1.png', 'hash-1', 0, ?, ?),
+         (2, 2, '/tmp/2.png', '', 'png', '2.png', 'hash-2', 0, ?, ?),
+         (3, 2, '/tmp/3.png', '', 'png', '3.png', 'hash-3', 1, ?, ?),
+         (4, 3, '/tmp/4.png', '', 'png', '4.png', 'hash-4', 0, ?, ?),
+         (5, 3, '/tmp/5.png', '', 'png', '5.png', 'hash-5', 1, ?, ?),
+         (6, 4, '/tmp/6.png', '', 'png', '6.png', 'hash-6', 0, ?, ?),
+         (7, 4, '/tmp/7.png', '', 'png', '7.png', 'hash-7', 1, ?, ?)`
+    ).run(now, now, now, now, now, now, now, now, now, now, now, now, now, now);
+    db.prepare(
+      `INSERT INTO tags (id, dataset_id, title) VALUES (1, 1, 'travel'), (2, 1, 'wip')`
+    ).run();
+    db.prepare(
+      `INSERT INTO stack_tags (stack_id, tag_id) VALUES (1, 1), (2, 1), (3, 1), (4, 1), (4, 2)`
+    ).run();
+    db.prepare(
+      `INSERT INTO stack_auto_tag_aggregates
+         (id, stack_id, aggregated_tags_json, top_tags_json, asset_count, threshold, created_at, updated_at)
+       VALUES
+         (1, 2, '{"mountain":0.9}', '[]', 2, 0.4, ?, ?),
+         (2, 3, '{"sea":0.8}', '[]', 2, 0.4, ?, ?)`
+    ).run(now, now, now, now);
+    db.prepare(
+      `INSERT INTO stack_auto_tag_scores
+         (aggregate_id, stack_id, tag_key, score, rank, asset_count, threshold)
+       VALUES (1, 2, 'mountain', 0.9, 1, 2, 0.4), (2, 3, 'sea', 0.8, 1, 2, 0.4)`
+    ).run();
+  });
+
+  const createSmart = (name: string, filterConfig: Record<string, unknown>) =>
+    repository.createCollection({
+      name,
+      icon: '⚙️',
+      type: 'SMART',
+      dataSetId: 1,
+      filterConfig,
+    })!;
+
+  it('evaluates exclusions, auto tags, asset counts and the saved sort', () => {
+    const collection = createSmart('Trips', {
+      query: 'assets:>=2',
+      filters: {
+        tags: { include: ['travel'], exclude: ['wip'] },
+        autoTags: { exclude: ['sea'] },
+      },
+      sort: { by: 'name', order: 'asc' },
+    });
+    const all = createSmart('Everything', { filters: {}, sort: { by: 'dateAdded', order: 'asc' } });
+
+    expect(
+      repository.getSmartCollectionStacks(collection.id, 10, 0)?.stacks.map((stack) => stack.id)
+    ).toEqual([2]);
+    expect(
+      repository.getSmartCollectionStacks(all.id, 10, 0)?.stacks.map((stack) => stack.id)
+    ).toEqual([1, 2, 3, 4]);
+  });
+
+  it('reads legacy configs and reports live counts', () => {
+    db.prepare(
+      `INSERT INTO collections (id, dataset_id, name, type, filter_config_json, created_at, updated_at)
+       VALUES (10, 1, 'Old', 'SMART', '{"tagIds":["wip"]}', '2026-07-01', '2026-07-01')`
+    ).run();
+
+    expect(repository.getCollection(10)?._count.collectionStacks).toBe(1);
+    db.prepare(`INSERT INTO stack_tags (stack_id, tag_id) VALUES (1, 2)`).run();
+    expect(
+      repository.getCollectionList({ dataSetId: 1, limit: 10, offset: 0 }).collections[0]._count
+        .collectionStacks
+    ).toBe(2);
+
+    // 更新すると新しい形式で保存し直す
+    repository.updateCollection(10, { filterConfig: { tagIds: ['wip'], favorited: false } });
+    expect(repository.getCollection(10)?.filterConfig).toEqual({
+      filters: { tags: { includeAny: ['wip'] }, favorites: 'not-fav' },
+    });
+  });
+});
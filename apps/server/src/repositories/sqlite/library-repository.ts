@@ -1,4 +1,5 @@
 import type { DatabaseSync } from 'node:sqlite';
+import { compileSearchQuery } from '@caramelboard/search-query';
 import type {
   CollectionFolderQuery,
   CreateCollectionFolderInput,
@@ -10,22 +11,17 @@ import type {
   CreateCollectionInput,
   UpdateCollectionInput,
 } from '../../models/CollectionModel';
+import { applySearchFilters, toStackListSort } from '../../shared/search-query';
+import { readSmartCollectionConfig } from '../../shared/smart-collection-config';
 import { StandaloneColorRepository } from './color-repository';
 import { getStandaloneSqlite, nowIso, parseJsonObject, type SqliteBindValue } from './sqlite';
-import { type StandaloneStackListParams, StandaloneStackRepository } from './stack-repository';
+import { StandaloneStackRepository } from './stack-repository';
+import { resolveCurrentUserId } from './user-repository';
 
 interface CountRow {
   count: number;
 }
 
-const STACK_MEDIA_TYPES = ['image', 'video', 'multipleImages'] as const;
-
-function readStackMediaTypes(value: unknown): StandaloneStackListParams['mediaTypes'] {
-  if (!Array.isArray(value)) return undefined;
-  const selected = STACK_MEDIA_TYPES.filter((mediaType) => value.includes(mediaType));
-  return selected.length > 0 ? selected : undefined;
-}
-
 interface DatasetRow {
   id: number;
   name: string;
@@ -105,9 +101,18 @@ const getSmartCollectionColorStackIds = (
   repository: StandaloneColorRepository,
   dataSetId: number,
   mediaCategory: 'image' | 'comic' | 'video' | undefined,
-  colorFilter: unknown
+  colorFilter: unknown,
+  queryColor?: string
 ) => {
-  if (!isRecord(colorFilter)) return undefined;
+  if (!isRecord(colorFilter)) {
+    return queryColor
+      ? repository.getMatchingStackIdsByFilter({
+          dataSetId,
+          mediaType: mediaCategory,
+          customColor: queryColor,
+        })
+      : undefined;
+  }
 
   const hueCategories = toStringArray(colorFilter.hueCategories);
   const toneSaturation = toNumber(colorFilter.toneSaturation);
@@ -118,7 +123,7 @@ const getSmartCollectionColorStackIds = (
       : undefined;
   const similarityThreshold = toNumber(colorFilter.similarityThreshold);
   const customColor =
-    typeof colorFilter.customColor === 'string' ? colorFilter.customColor : undefined;
+    typeof colorFilter.customColor === 'string' ? colorFilter.customColor : queryColor;
   const hasColorFilter =
     Boolean(hueCategories?.length) || Boolean(tonePoint) || Boolean(customColor);
 
@@ -144,19 +149,6 @@ export class StandaloneLibraryRepository {
     this.colorRepository = new StandaloneColorRepository(db);
   }
 
-  private ensureUserId() {
-    const existing = this.db.prepare('SELECT id FROM users ORDER BY id ASC LIMIT 1').get() as
-      | { id: number }
-      | undefined;
-    if (existing) return existing.id;
-
-    const now = nowIso();
-    const result = this.db
-      .prepare('INSERT INTO users (name, role, created_at, updated_at) VALUES (?, ?, ?, ?)')
-      .run('Standalone User', 'super', now, now);
-    return Number(result.lastInsertRowid);
-  }
-
   private getDataset(dataSetId: number) {
     const row = this.db.prepare('SELECT * FROM datasets WHERE id = ?').get(dataSetId) as
       | DatasetRow
@@ -216,16 +208,26 @@ export class StandaloneLibraryRepository {
       folderId: row.folder_id,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
-      filterConfig: parseJsonRecord(row.filter_config_json),
+      filterConfig: this.toFilterConfig(row),
       dataSet: this.getDataset(row.dataset_id),
       folder: folder ? this.toFolder(folder, { includeRelations: false }) : null,
       collectionStacks,
       _count: {
-        collectionStacks: Number(row.stack_count ?? collectionStacks?.length ?? 0),
+        // スマートコレクションは条件に合う件数をその都度数える
+        collectionStacks:
+          row.type === 'SMART'
+            ? this.countSmartCollectionStacks(row)
+            : Number(row.stack_count ?? collectionStacks?.length ?? 0),
       },
     };
   }
 
+  // スマートコレクションは旧形式の設定も新しい形式に揃えて返す
+  private toFilterConfig(row: CollectionRow) {
+    const raw = parseJsonRecord(row.filter_config_json);
+    return row.type === 'SMART' ? (readSmartCollectionConfig(raw) ?? raw) : raw;
+  }
+
   private toFolder(
     row: CollectionFolderRow,
     options: { includeRelations?: boolean; includeCollections?: boolean } = {}
@@ -403,7 +405,7 @@ export class StandaloneLibraryRepository {
         data.description ?? null,
         data.type || 'MANUAL',
         data.type === 'SMART'
-          ? JSON.stringify(data.filterConfig ?? {})
+          ? JSON.stringify(readSmartCollectionConfig(data.filterConfig ?? {}) ?? {})
           : JSON.stringify(data.filterConfig ?? null),
         now,
         now
@@ -413,7 +415,8 @@ export class StandaloneLibraryRepository {
   }
 
   updateCollection(id: number, data: UpdateCollectionInput) {
-    if (!this.getCollectionRow(id)) return null;
+    const current = this.getCollectionRow(id);
+    if (!current) return null;
     const updates = ['updated_at = ?'];
     const params: SqliteBindValue[] = [nowIso()];
 
@@ -438,8 +441,15 @@ export class StandaloneLibraryRepository {
       params.push(data.folderId);
     }
     if (data.filterConfig !== undefined) {
+      const type = data.type ?? current.type;
       updates.push('filter_config_json = ?');
-      params.push(JSON.stringify(data.filterConfig));
+      params.push(
+        JSON.stringify(
+          type === 'SMART'
+            ? (readSmartCollectionConfig(data.filterConfig) ?? {})
+            : data.filterConfig
+        )
+      );
     }
 
     this.db.prepare(`UPDATE collections SET ${updates.join(', ')} WHERE id = ?`).run(...params, id);
@@ -448,6 +458,10 @@ export class StandaloneLibraryRepository {
 
   deleteCollection(id: number) {
     const result = this.db.prepare('DELETE FROM collections WHERE id = ?').run(id);
+    // 共有リンクは対象を外部キーで参照していないため、ここで一緒に消す
+    this.db
+      .prepare(`DELETE FROM share_links WHERE target_type = 'collection' AND target_id = ?`)
+      .run(id);
     return result.changes > 0;
   }
 
@@ -562,47 +576,65 @@ export class StandaloneLibraryRepository {
   getSmartCollectionStacks(collectionId: number, limit: number, offset: number) {
     const collection = this.getCollectionRow(collectionId);
     if (!collection || collection.type !== 'SMART') return null;
-    const filterConfig = parseJsonRecord(collection.filter_config_json);
+    const params = this.getSmartCollectionParams(collection);
+    if (!params) return null;
+    return this.stackRepository.getPaginated({ ...params, limit, offset });
+  }
+
+  /** スマートコレクションの条件を一覧取得の条件にする。壊れた設定は null */
+  private getSmartCollectionParams(collection: CollectionRow) {
+    const config = readSmartCollectionConfig(parseJsonRecord(collection.filter_config_json));
+    if (!config) return null;
+    const dataSetId = collection.dataset_id;
+    const { filters } = config;
     const mediaCategory =
-      filterConfig.mediaCategory === 'image' ||
-      filterConfig.mediaCategory === 'comic' ||
-      filterConfig.mediaCategory === 'video'
-        ? filterConfig.mediaCategory
-        : undefined;
-    const mediaTypes = readStackMediaTypes(filterConfig.mediaTypes);
-    const stackIds = getSmartCollectionColorStackIds(
-      this.colorRepository,
-      collection.dataset_id,
-      mediaCategory,
-      filterConfig.colorFilter
+      filters.mediaCategory && filters.mediaCategory !== 'all' ? filters.mediaCategory : undefined;
+    const params = applySearchFilters(
+      { dataSetId, search: config.query, limit: 0, offset: 0 },
+      filters
     );
-    const params: StandaloneStackListParams = {
-      dataSetId: collection.dataset_id,
-      mediaCategory,
-      mediaTypes,
-      tag: Array.isArray(filterConfig.tagIds)
-        ? filterConfig.tagIds.map((value) => String(value))
-        : undefined,
-      author: Array.isArray(filterConfig.authorNames)
-        ? filterConfig.authorNames.map((value) => String(value))
-        : undefined,
-      fav:
-        typeof filterConfig.favorited === 'boolean'
-          ? filterConfig.favorited
-            ? '1'
-            : '0'
-          : undefined,
-      liked: typeof filterConfig.liked === 'boolean' ? (filterConfig.liked ? '1' : '0') : undefined,
-      hasNoTags: filterConfig.hasNoTags === true,
-      hasNoAuthor: filterConfig.hasNoAuthor === true,
-      search: typeof filterConfig.search === 'string' ? filterConfig.search : undefined,
-      stackIds,
-      sort: 'recommended',
-      order: 'desc',
-      limit,
-      offset,
-    };
-    return this.stackRepository.getPaginated(params);
+    // 色の条件は ID の絞り込みとして重ねる
+    const colorStackIds = [
+      params.stackIds,
+      getSmartCollectionColorStackIds(
+        this.colorRepository,
+        dataSetId,
+        mediaCategory,
+        config.colorFilter,
+        compileSearchQuery(config.query).filters.color?.hex
+      ),
+      this.colorRepository.getMatchingStackIdsBySearchColor(
+        dataSetId,
+        mediaCategory,
+        filters.color
+      ),
+    ].filter((ids): ids is number[] => ids !== undefined);
+    const stackIds = colorStackIds.reduce<number[] | undefined>(
+      (current, ids) => (current ? current.filter((id) => ids.includes(id)) : ids),
+      undefined
+    );
+    return { ...params, stackIds, ...toStackListSort(config.sort) };
+  }
+
+  /** スタックがコレクションに含まれるか（スマートコレクションは条件で判定する） */
+  collectionContainsStack(collectionId: number, stackId: number) {
+    const collection = this.getCollectionRow(collectionId);
+    if (!collection) return false;
+    if (collection.type !== 'SMART') {
+      return Boolean(
+        this.db
+          .prepare('SELECT 1 FROM collection_stacks WHERE collection_id = ? AND stack_id = ?')
+          .get(collectionId, stackId)
+      );
+    }
+    const params = this.getSmartCollectionParams(collection);
+    if (!params || (params.stackIds && !params.stackIds.includes(stackId))) return false;
+    return this.stackRepository.countStacks({ ...params, stackIds: [stackId] }) > 0;
+  }
+
+  private countSmartCollectionStacks(collection: CollectionRow) {
+    const params = this.getSmartCollectionParams(collection);
+    return params ? this.stackRepository.countStacks(params) : 0;
   }
 
   getFolder(
@@ -771,7 +803,7 @@ export class StandaloneLibraryRepository {
   }
 
   getNavigationPins(dataSetId: number) {
-    const userId = this.ensureUserId();
+    const userId = resolveCurrentUserId(this.db);
     const rows = this.db
       .prepare(
         `SELECT
@@ -797,7 +829,7 @@ export class StandaloneLibraryRepository {
     collectionId?: number;
     mediaType?: string;
   }) {
-    const userId = this.ensureUserId();
+    const userId = resolveCurrentUserId(this.db);
     const now = nowIso();
     const existing = this.db
       .prepare(
@@ -865,7 +897,7 @@ export class StandaloneLibraryRepository {
   }
 
   updateNavigationPinOrder(pins: Array<{ id: number; order: number }>) {
-    const userId = this.ensureUserId();
+    const userId = resolveCurrentUserId(this.db);
     const update = this.db.prepare(
       'UPDATE navigation_pins SET sort_order = ?, updated_at = ? WHERE id = ? AND user_id = ?'
     );
@@ -883,7 +915,7 @@ export class StandaloneLibraryRepository {
   }
 
   deleteNavigationPin(id: number) {
-    const userId = this.ensureUserId();
+    const userId = resolveCurrentUserId(this.db);
     const result = this.db
       .prepare('DELETE FROM navigation_pins WHERE id = ? AND user_id = ?')
       .run(id, userId);
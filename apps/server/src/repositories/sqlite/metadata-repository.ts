@@ -1,4 +1,5 @@
 import type { DatabaseSync } from 'node:sqlite';
+import { TagRuleError } from '../../errors/TagRuleError';
 import {
   type AuthorLinkInput,
   MAX_AUTHOR_LINKS,
@@ -6,7 +7,10 @@ import {
   normalizeAuthorLinkProvider,
   normalizeAuthorLinks,
 } from '../../shared/author-links';
-import { getStandaloneSqlite } from './sqlite';
+import { getStandaloneSqlite, nowIso } from './sqlite';
+import { placeholders } from './stack/helpers';
+import { StackSearchIndexService } from './stack/search-index-service';
+import { StackTagRuleService } from './stack/tag-rule-service';
 import { StandaloneStackRepository } from './stack-repository';
 
 export interface PaginationOptions {
@@ -19,6 +23,8 @@ interface AuthorRow {
   dataset_id: number;
   name: string;
   stack_count: number;
+  profile_json: string | null;
+  profile_fetched_at: string | null;
 }
 
 interface AuthorLinkRow {
@@ -38,6 +44,21 @@ interface TagRow {
   dataset_id: number;
   title: string;
   stack_count: number;
+  category_id?: number | null;
+}
+
+interface TagCategoryRow {
+  id: number;
+  dataset_id: number;
+  name: string;
+  color: string;
+  sort_order: number;
+  tag_count: number;
+}
+
+export interface TagCategoryInput {
+  name?: string;
+  color?: string;
 }
 
 interface CountRow {
@@ -63,11 +84,38 @@ const mapAuthorLink = (link: AuthorLinkRow) => ({
   updatedAt: link.updated_at,
 });
 
+// プロバイダーから取得した公開プロフィール。一度も取得していなければ null
+const parseAuthorProfile = (row: Pick<AuthorRow, 'profile_json' | 'profile_fetched_at'>) => {
+  if (!row.profile_json) return null;
+  try {
+    return { ...JSON.parse(row.profile_json), fetchedAt: row.profile_fetched_at };
+  } catch {
+    return null;
+  }
+};
+
+const DEFAULT_TAG_CATEGORY_COLOR = '#94a3b8';
+
+const mapTagCategory = (category: TagCategoryRow) => ({
+  id: category.id,
+  dataSetId: category.dataset_id,
+  name: category.name,
+  color: category.color,
+  sortOrder: category.sort_order,
+  tagCount: category.tag_count,
+});
+
 const linkDedupKey = (link: Pick<AuthorLinkRow, 'provider' | 'external_id' | 'url'>) =>
   link.provider && link.external_id ? `${link.provider}:${link.external_id}` : `url:${link.url}`;
 
 export class StandaloneMetadataRepository {
-  constructor(private db: DatabaseSync = getStandaloneSqlite()) {}
+  private searchIndexService: StackSearchIndexService;
+  private tagRuleService: StackTagRuleService;
+
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {
+    this.searchIndexService = new StackSearchIndexService(db);
+    this.tagRuleService = new StackTagRuleService(db);
+  }
 
   private getLinksByAuthorIds(authorIds: number[]) {
     if (authorIds.length === 0) return new Map<number, ReturnType<typeof mapAuthorLink>[]>();
@@ -115,6 +163,9 @@ export class StandaloneMetadataRepository {
     const countRow = this.db
       .prepare('SELECT COUNT(*) AS count FROM stacks WHERE author_id = ?')
       .get(author.id) as CountRow | undefined;
+    const profileRow = this.db
+      .prepare('SELECT profile_json, profile_fetched_at FROM authors WHERE id = ?')
+      .get(author.id) as Pick<AuthorRow, 'profile_json' | 'profile_fetched_at'> | undefined;
     const linksByAuthor = this.getLinksByAuthorIds([author.id]);
     return {
       id: author.id,
@@ -122,13 +173,15 @@ export class StandaloneMetadataRepository {
       name: author.name,
       stackCount: countRow?.count ?? 0,
       links: linksByAuthor.get(author.id) ?? [],
+      profile: profileRow ? parseAuthorProfile(profileRow) : null,
     };
   }
 
   getAuthors(options: PaginationOptions & { datasetId: number }) {
     const rows = this.db
       .prepare(
-        `SELECT a.id, a.dataset_id, a.name, COUNT(s.id) AS stack_count
+        `SELECT a.id, a.dataset_id, a.name, a.profile_json, a.profile_fetched_at,
+                COUNT(s.id) AS stack_count
          FROM authors a
          LEFT JOIN stacks s ON s.author_id = a.id
          WHERE a.dataset_id = ?
@@ -146,6 +199,7 @@ export class StandaloneMetadataRepository {
         name: author.name,
         stackCount: author.stack_count,
         links: linksByAuthor.get(author.id) ?? [],
+        profile: parseAuthorProfile(author),
       })),
       total: getTotal(this.db, 'authors', options.datasetId),
       limit: options.limit,
@@ -202,6 +256,7 @@ export class StandaloneMetadataRepository {
       if (normalizedLinks) {
         this.replaceLinks(id, normalizedLinks);
       }
+      this.searchIndexService.refreshStacksByAuthor([id]);
       this.db.exec('COMMIT');
       return this.buildAuthorResult(existing);
     } catch (error) {
@@ -241,6 +296,7 @@ export class StandaloneMetadataRepository {
           link,
         ].slice(0, MAX_AUTHOR_LINKS)
       );
+      this.searchIndexService.refreshStacksByAuthor([id]);
       this.db.exec('COMMIT');
       return this.buildAuthorResult(author);
     } catch (error) {
@@ -308,10 +364,17 @@ export class StandaloneMetadataRepository {
           `UPDATE stacks SET author_id = ?, updated_at = ? WHERE author_id IN (${sourcePlaceholders})`
         )
         .run(targetAuthorId, new Date().toISOString(), ...validSourceIds);
+      // 受信箱の作品も統合先へ移す（同じ作品が既にあれば統合先の状態を残す）
+      this.db
+        .prepare(
+          `UPDATE OR IGNORE author_works SET author_id = ? WHERE author_id IN (${sourcePlaceholders})`
+        )
+        .run(targetAuthorId, ...validSourceIds);
       this.db
         .prepare(`DELETE FROM authors WHERE id IN (${sourcePlaceholders})`)
         .run(...validSourceIds);
       this.replaceLinks(targetAuthorId, mergedLinks);
+      this.searchIndexService.refreshStacksByAuthor([targetAuthorId]);
       this.db.exec('COMMIT');
       return this.buildAuthorResult(target);
     } catch (error) {
@@ -331,7 +394,7 @@ export class StandaloneMetadataRepository {
     const orderBy = options.orderBy === 'stackCount' ? 'stack_count' : 'title';
     const rows = this.db
       .prepare(
-        `SELECT t.id, t.dataset_id, t.title, COUNT(st.stack_id) AS stack_count
+        `SELECT t.id, t.dataset_id, t.title, t.category_id, COUNT(st.stack_id) AS stack_count
          FROM tags t
          LEFT JOIN stack_tags st ON st.tag_id = t.id
          WHERE t.dataset_id = ?
@@ -340,20 +403,78 @@ export class StandaloneMetadataRepository {
          LIMIT ? OFFSET ?`
       )
       .all(options.datasetId, options.limit, options.offset) as TagRow[];
+    const rules = this.getTagRules(rows.map((tag) => tag.id));
+    const categories = new Map(
+      this.getTagCategories(options.datasetId).map((category) => [category.id, category])
+    );
 
     return {
-      tags: rows.map((tag) => ({
-        id: tag.id,
-        dataSetId: tag.dataset_id,
-        title: tag.title,
-        stackCount: tag.stack_count,
-      })),
+      tags: rows.map((tag) => {
+        const category = tag.category_id ? categories.get(tag.category_id) : undefined;
+        return {
+          id: tag.id,
+          dataSetId: tag.dataset_id,
+          title: tag.title,
+          stackCount: tag.stack_count,
+          category: category
+            ? { id: category.id, name: category.name, color: category.color }
+            : null,
+          aliases: rules.aliases.get(tag.id) ?? [],
+          implies: rules.implies.get(tag.id) ?? [],
+          impliedBy: rules.impliedBy.get(tag.id) ?? [],
+        };
+      }),
       total: getTotal(this.db, 'tags', options.datasetId),
       limit: options.limit,
       offset: options.offset,
     };
   }
 
+  private getTagRules(tagIds: number[]) {
+    const aliases = new Map<number, Array<{ id: number; alias: string }>>();
+    const implies = new Map<number, Array<{ id: number; title: string }>>();
+    const impliedBy = new Map<number, Array<{ id: number; title: string }>>();
+    if (tagIds.length === 0) return { aliases, implies, impliedBy };
+
+    const aliasRows = this.db
+      .prepare(
+        `SELECT id, tag_id, alias FROM tag_aliases
+         WHERE tag_id IN (${placeholders(tagIds)})
+         ORDER BY alias ASC`
+      )
+      .all(...tagIds) as Array<{ id: number; tag_id: number; alias: string }>;
+    for (const row of aliasRows) {
+      const list = aliases.get(row.tag_id) ?? [];
+      list.push({ id: row.id, alias: row.alias });
+      aliases.set(row.tag_id, list);
+    }
+
+    const implicationRows = this.db
+      .prepare(
+        `SELECT ti.tag_id, ti.implied_tag_id, child.title AS tag_title, parent.title AS implied_title
+         FROM tag_implications ti
+         JOIN tags child ON child.id = ti.tag_id
+         JOIN tags parent ON parent.id = ti.implied_tag_id
+         WHERE ti.tag_id IN (${placeholders(tagIds)}) OR ti.implied_tag_id IN (${placeholders(tagIds)})
+         ORDER BY parent.title ASC, child.title ASC`
+      )
+      .all(...tagIds, ...tagIds) as Array<{
+      tag_id: number;
+      implied_tag_id: number;
+      tag_title: string;
+      implied_title: string;
+    }>;
+    for (const row of implicationRows) {
+      const parents = implies.get(row.tag_id) ?? [];
+      parents.push({ id: row.implied_tag_id, title: row.implied_title });
+      implies.set(row.tag_id, parents);
+      const children = impliedBy.get(row.implied_tag_id) ?? [];
+      children.push({ id: row.tag_id, title: row.tag_title });
+      impliedBy.set(row.implied_tag_id, children);
+    }
+    return { aliases, implies, impliedBy };
+  }
+
   searchTags(key: string, datasetId: number) {
     if (!key) return [];
     return this.db
@@ -383,6 +504,8 @@ export class StandaloneMetadataRepository {
   }
 
   createTag(datasetId: number, title: string) {
+    const aliased = this.tagRuleService.resolveAlias(datasetId, title);
+    if (aliased) return { id: aliased.id, dataSetId: datasetId, title: aliased.title };
     const existing = this.db
       .prepare(
         'SELECT id, dataset_id, title, 0 AS stack_count FROM tags WHERE dataset_id = ? AND title = ?'
@@ -407,17 +530,30 @@ export class StandaloneMetadataRepository {
   }
 
   renameTag(id: number, datasetId: number, title: string) {
+    const aliased = this.tagRuleService.resolveAlias(datasetId, title);
+    if (aliased && aliased.id !== id) {
+      throw new TagRuleError(`"${title}" is already an alias of "${aliased.title}"`);
+    }
+    // 自分の別名と同じ名前に変えるなら、その別名は不要になる
+    this.db.prepare('DELETE FROM tag_aliases WHERE tag_id = ? AND alias = ?').run(id, title);
     const result = this.db
       .prepare('UPDATE tags SET title = ? WHERE id = ? AND dataset_id = ?')
       .run(title, id, datasetId);
     if (result.changes === 0) return null;
+    this.searchIndexService.refreshStacksByTag([id]);
     return { id, dataSetId: datasetId, title };
   }
 
   deleteTag(id: number, datasetId: number) {
+    const stackRows = this.db
+      .prepare('SELECT stack_id FROM stack_tags WHERE tag_id = ?')
+      .all(id) as Array<{ stack_id: number }>;
     const result = this.db
       .prepare('DELETE FROM tags WHERE id = ? AND dataset_id = ?')
       .run(id, datasetId);
+    if (result.changes > 0) {
+      this.searchIndexService.refreshStacks(stackRows.map((row) => row.stack_id));
+    }
     return result.changes > 0;
   }
 
@@ -436,6 +572,8 @@ export class StandaloneMetadataRepository {
       for (const tagId of tagIds) {
         insert.run(stackId, tagId);
       }
+      this.tagRuleService.applyImplications([stackId]);
+      this.searchIndexService.refreshStack(stackId);
       this.db.exec('COMMIT');
       return true;
     } catch (error) {
@@ -461,6 +599,20 @@ export class StandaloneMetadataRepository {
       for (const row of stackRows) {
         insert.run(row.stack_id, targetTagId);
       }
+      // 統合元の別名と包含関係は統合先に引き継ぐ
+      const inSources = sourceTagIds.map(() => '?').join(',');
+      this.db
+        .prepare(`UPDATE OR IGNORE tag_aliases SET tag_id = ? WHERE tag_id IN (${inSources})`)
+        .run(targetTagId, ...sourceTagIds);
+      this.db
+        .prepare(`UPDATE OR IGNORE tag_implications SET tag_id = ? WHERE tag_id IN (${inSources})`)
+        .run(targetTagId, ...sourceTagIds);
+      this.db
+        .prepare(
+          `UPDATE OR IGNORE tag_implications SET implied_tag_id = ? WHERE implied_tag_id IN (${inSources})`
+        )
+        .run(targetTagId, ...sourceTagIds);
+      this.tagRuleService.applyImplications(stackRows.map((row) => row.stack_id));
       const deleteAssociations = this.db.prepare(
         `DELETE FROM stack_tags WHERE tag_id IN (${sourceTagIds.map(() => '?').join(',')})`
       );
@@ -469,6 +621,7 @@ export class StandaloneMetadataRepository {
         `DELETE FROM tags WHERE dataset_id = ? AND id IN (${sourceTagIds.map(() => '?').join(',')})`
       );
       deleteTags.run(datasetId, ...sourceTagIds);
+      this.searchIndexService.refreshStacks(stackRows.map((row) => row.stack_id));
       this.db.exec('COMMIT');
       return { success: true, affectedStacks: stackRows.length };
     } catch (error) {
@@ -476,4 +629,170 @@ export class StandaloneMetadataRepository {
       throw error;
     }
   }
+
+  getTagCategories(datasetId: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT c.id, c.dataset_id, c.name, c.color, c.sort_order, COUNT(t.id) AS tag_count
+         FROM tag_categories c
+         LEFT JOIN tags t ON t.category_id = c.id
+         WHERE c.dataset_id = ?
+         GROUP BY c.id
+         ORDER BY c.sort_order ASC, c.name ASC`
+      )
+      .all(datasetId) as TagCategoryRow[];
+    return rows.map(mapTagCategory);
+  }
+
+  private getTagCategory(id: number, datasetId: number) {
+    return this.getTagCategories(datasetId).find((category) => category.id === id) ?? null;
+  }
+
+  private assertCategoryNameAvailable(datasetId: number, name: string, exceptId?: number) {
+    const existing = this.db
+      .prepare('SELECT id FROM tag_categories WHERE dataset_id = ? AND name = ?')
+      .get(datasetId, name) as { id: number } | undefined;
+    if (existing && existing.id !== exceptId) {
+      throw new TagRuleError(`A tag category named "${name}" already exists`);
+    }
+  }
+
+  createTagCategory(datasetId: number, input: TagCategoryInput) {
+    const name = input.name?.trim();
+    if (!name) throw new TagRuleError('Tag category name is required');
+    this.assertCategoryNameAvailable(datasetId, name);
+    const now = nowIso();
+    const { next } = this.db
+      .prepare(
+        'SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM tag_categories WHERE dataset_id = ?'
+      )
+      .get(datasetId) as { next: number };
+    const result = this.db
+      .prepare(
+        `INSERT INTO tag_categories (dataset_id, name, color, sort_order, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(datasetId, name, input.color ?? DEFAULT_TAG_CATEGORY_COLOR, next, now, now);
+    return this.getTagCategory(Number(result.lastInsertRowid), datasetId);
+  }
+
+  updateTagCategory(id: number, datasetId: number, input: TagCategoryInput) {
+    const current = this.getTagCategory(id, datasetId);
+    if (!current) return null;
+    const name = input.name?.trim() || current.name;
+    this.assertCategoryNameAvailable(datasetId, name, id);
+    this.db
+      .prepare('UPDATE tag_categories SET name = ?, color = ?, updated_at = ? WHERE id = ?')
+      .run(name, input.color ?? current.color, nowIso(), id);
+    return this.getTagCategory(id, datasetId);
+  }
+
+  deleteTagCategory(id: number, datasetId: number) {
+    const result = this.db
+      .prepare('DELETE FROM tag_categories WHERE id = ? AND dataset_id = ?')
+      .run(id, datasetId);
+    return result.changes > 0;
+  }
+
+  setTagCategory(tagId: number, datasetId: number, categoryId: number | null) {
+    if (categoryId !== null && !this.getTagCategory(categoryId, datasetId)) {
+      throw new TagRuleError('Tag category not found in this dataset');
+    }
+    const result = this.db
+      .prepare('UPDATE tags SET category_id = ? WHERE id = ? AND dataset_id = ?')
+      .run(categoryId, tagId, datasetId);
+    return result.changes > 0;
+  }
+
+  addTagAlias(tagId: number, datasetId: number, alias: string) {
+    const title = alias.trim();
+    const tag = this.db
+      .prepare('SELECT id, title FROM tags WHERE id = ? AND dataset_id = ?')
+      .get(tagId, datasetId) as { id: number; title: string } | undefined;
+    if (!tag) return null;
+    if (tag.title.toLowerCase() === title.toLowerCase()) {
+      throw new TagRuleError('An alias must differ from the tag title');
+    }
+    // 既に使われているタグ名を別名にすると入力が読み替えられなくなるので、先に統合してもらう
+    const sameTitle = this.db
+      .prepare('SELECT title FROM tags WHERE dataset_id = ? AND title = ?')
+      .get(datasetId, title) as { title: string } | undefined;
+    if (sameTitle) {
+      throw new TagRuleError(`A tag named "${sameTitle.title}" exists; merge it instead`);
+    }
+    const aliased = this.tagRuleService.resolveAlias(datasetId, title);
+    if (aliased) {
+      throw new TagRuleError(`"${title}" is already an alias of "${aliased.title}"`);
+    }
+    const result = this.db
+      .prepare(
+        'INSERT INTO tag_aliases (dataset_id, alias, tag_id, created_at) VALUES (?, ?, ?, ?)'
+      )
+      .run(datasetId, title, tagId, nowIso());
+    return { id: Number(result.lastInsertRowid), alias: title, tagId };
+  }
+
+  removeTagAlias(tagId: number, datasetId: number, aliasId: number) {
+    const result = this.db
+      .prepare('DELETE FROM tag_aliases WHERE id = ? AND tag_id = ? AND dataset_id = ?')
+      .run(aliasId, tagId, datasetId);
+    return result.changes > 0;
+  }
+
+  /**
+   * tagId が付いたスタックには impliedTag も付くようにする。
+   * 既存のスタックにも遡って付け、search index を更新する
+   */
+  addTagImplication(
+    tagId: number,
+    datasetId: number,
+    implied: { impliedTagId?: number; title?: string }
+  ) {
+    const tag = this.db
+      .prepare('SELECT id FROM tags WHERE id = ? AND dataset_id = ?')
+      .get(tagId, datasetId);
+    if (!tag) return null;
+
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      let impliedTagId = implied.impliedTagId;
+      if (impliedTagId !== undefined) {
+        const exists = this.db
+          .prepare('SELECT id FROM tags WHERE id = ? AND dataset_id = ?')
+          .get(impliedTagId, datasetId);
+        if (!exists) throw new TagRuleError('Implied tag not found in this dataset');
+      } else if (implied.title?.trim()) {
+        impliedTagId = this.tagRuleService.findOrCreateTag(datasetId, implied.title.trim()).id;
+      } else {
+        throw new TagRuleError('Implied tag is required');
+      }
+      if (this.tagRuleService.wouldCreateCycle(tagId, impliedTagId)) {
+        throw new TagRuleError('This implication would create a cycle');
+      }
+
+      this.db
+        .prepare(
+          `INSERT OR IGNORE INTO tag_implications (dataset_id, tag_id, implied_tag_id, created_at)
+           VALUES (?, ?, ?, ?)`
+        )
+        .run(datasetId, tagId, impliedTagId, nowIso());
+      const affected = this.tagRuleService.applyImplicationsForTag(tagId);
+      this.searchIndexService.refreshStacks(affected);
+      this.db.exec('COMMIT');
+      return { tagId, impliedTagId, affectedStacks: affected.length };
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /** 規則だけを外す。既に付け足したタグはスタックに残す */
+  removeTagImplication(tagId: number, datasetId: number, impliedTagId: number) {
+    const result = this.db
+      .prepare(
+        'DELETE FROM tag_implications WHERE tag_id = ? AND implied_tag_id = ? AND dataset_id = ?'
+      )
+      .run(tagId, impliedTagId, datasetId);
+    return result.changes > 0;
+  }
 }
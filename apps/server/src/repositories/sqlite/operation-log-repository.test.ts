@@ -0,0 +1,181 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RestoreConflictError } from '../../errors/RestoreConflictError';
+import { StandaloneMetadataRepository } from './metadata-repository';
+import { StandaloneOperationLogRepository } from './operation-log-repository';
+import { StandaloneStackRepository } from './stack-repository';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+const now = '2026-07-01T00:00:00.000Z';
+
+describe('StandaloneOperationLogRepository', () => {
+  let db: DatabaseSync;
+  let stacks: StandaloneStackRepository;
+  let operations: StandaloneOperationLogRepository;
+
+  const insertStack = (id: number, name: string, assetIds: number[]) => {
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES (?, 1, ?, ?, 'image', ?, ?)`
+    ).run(id, name, `thumbnails/${assetIds[0]}.webp`, now, now);
+    assetIds.forEach((assetId, index) => {
+      db.prepare(
+        `INSERT INTO assets
+           (id, stack_id, file, thumbnail, file_type, original_name, hash, order_in_stack, created_at, updated_at)
+         VALUES (?, ?, ?, ?, 'image/png', ?, ?, ?, ?, ?)`
+      ).run(
+        assetId,
+        id,
+        `files/${assetId}.png`,
+        `thumbnails/${assetId}.webp`,
+        `${assetId}.png`,
+        `hash-${assetId}`,
+        index,
+        now,
+        now
+      );
+    });
+  };
+
+  const tagTitles = (stackId: number) =>
+    (
+      db
+        .prepare(
+          `SELECT t.title FROM stack_tags st JOIN tags t ON t.id = st.tag_id
+           WHERE st.stack_id = ? ORDER BY t.title`
+        )
+        .all(stackId) as Array<{ title: string }>
+    ).map((row) => row.title);
+
+  const assetStacks = () =>
+    db.prepare('SELECT id, stack_id FROM assets ORDER BY id').all() as Array<{
+      id: number;
+      stack_id: number;
+    }>;
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at) VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    insertStack(1, 'Morning', [11, 12]);
+    insertStack(2, 'Evening', [21]);
+    stacks = new StandaloneStackRepository(db);
+    operations = new StandaloneOperationLogRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('moves removed stacks to the trash and restores them on undo', async () => {
+    stacks.addTag(1, 'sky');
+    const removed = stacks.bulkRemoveStacks([1]);
+    const operationId = operations.record(1, 'stacks.remove', removed.removed, {
+      trashItemIds: removed.trashItemIds,
+    });
+
+    expect(stacks.getById(1)).toBeNull();
+    expect(stacks.getTrashItems(1)).toMatchObject([
+      { itemType: 'stack', name: 'Morning', assetCount: 2 },
+    ]);
+
+    const result = await operations.undo(operationId);
+
+    expect(result?.stackIds).toEqual([1]);
+    expect(stacks.getById(1)?.name).toBe('Morning');
+    expect(assetStacks()).toEqual([
+      { id: 11, stack_id: 1 },
+      { id: 12, stack_id: 1 },
+      { id: 21, stack_id: 2 },
+    ]);
+    expect(tagTitles(1)).toEqual(['sky']);
+    expect(stacks.getTrashItems(1)).toEqual([]);
+    await expect(operations.undo(operationId)).rejects.toBeInstanceOf(RestoreConflictError);
+  });
+
+  it('splits a merged stack back into its sources', async () => {
+    stacks.addTag(2, 'night');
+    const undo = operations.captureStackMerge(1, [2]);
+    stacks.mergeStacks(1, [2]);
+    const operationId = operations.record(1, 'stacks.merge', 1, undo);
+    expect(assetStacks().every((asset) => asset.stack_id === 1)).toBe(true);
+    expect(tagTitles(1)).toEqual(['night']);
+
+    await operations.undo(operationId);
+
+    expect(stacks.getById(2)?.name).toBe('Evening');
+    expect(assetStacks()).toEqual([
+      { id: 11, stack_id: 1 },
+      { id: 12, stack_id: 1 },
+      { id: 21, stack_id: 2 },
+    ]);
+    expect(tagTitles(1)).toEqual([]);
+    expect(tagTitles(2)).toEqual(['night']);
+  });
+
+  it('recreates merged tags unless the name has been reused', async () => {
+    const metadata = new StandaloneMetadataRepository(db);
+    stacks.addTag(1, 'cat');
+    stacks.addTag(2, 'kitten');
+    const tagId = (title: string) =>
+      (db.prepare('SELECT id FROM tags WHERE title = ?').get(title) as { id: number }).id;
+    const source = tagId('kitten');
+    const target = tagId('cat');
+
+    const undo = operations.captureTagMerge(1, [source], target);
+    metadata.mergeTags(1, [source], target);
+    const operationId = operations.record(1, 'tags.merge', 1, undo);
+    expect(tagTitles(2)).toEqual(['cat']);
+
+    await operations.undo(operationId);
+    expect(tagTitles(1)).toEqual(['cat']);
+    expect(tagTitles(2)).toEqual(['kitten']);
+
+    const again = operations.captureTagMerge(1, [tagId('kitten')], target);
+    metadata.mergeTags(1, [tagId('kitten')], target);
+    const secondId = operations.record(1, 'tags.merge', 1, again);
+    stacks.addTag(1, 'kitten');
+    await expect(operations.undo(secondId)).rejects.toBeInstanceOf(RestoreConflictError);
+    expect(operations.getById(secondId)?.undoneAt).toBeNull();
+  });
+
+  it('keeps trashed files that another trash item still needs when purging', () => {
+    const storage = mkdtempSync(join(tmpdir(), 'caramel-trash-'));
+    const previousStorage = process.env.FILES_STORAGE;
+    process.env.FILES_STORAGE = storage;
+    try {
+      mkdirSync(join(storage, 'files'));
+      for (const name of ['11.png', '12.png']) writeFileSync(join(storage, 'files', name), name);
+      const [first] = stacks.bulkRemoveStacks([1]).trashItemIds;
+
+      // ゴミ箱にある間に同じファイルを取り込み直し、それもゴミ箱に入れる
+      insertStack(3, 'Copy', [31]);
+      db.prepare("UPDATE assets SET file = 'files/11.png' WHERE id = 31").run();
+      const [second] = stacks.bulkRemoveStacks([3]).trashItemIds;
+      expect(
+        db
+          .prepare(
+            "SELECT owner_id AS ownerId FROM snapshot_files WHERE file_key = 'files/11.png' ORDER BY owner_id"
+          )
+          .all()
+      ).toEqual([{ ownerId: first }, { ownerId: second }]);
+
+      stacks.purgeTrashItem(first);
+      expect(existsSync(join(storage, 'files/11.png'))).toBe(true);
+      expect(existsSync(join(storage, 'files/12.png'))).toBe(false);
+
+      stacks.purgeTrashItem(second);
+      expect(existsSync(join(storage, 'files/11.png'))).toBe(false);
+      expect(db.prepare('SELECT * FROM snapshot_files').all()).toEqual([]);
+    } finally {
+      if (previousStorage === undefined) delete process.env.FILES_STORAGE;
+      else process.env.FILES_STORAGE = previousStorage;
+      rmSync(storage, { recursive: true, force: true });
+    }
+  });
+});
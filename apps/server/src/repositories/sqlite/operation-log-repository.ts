@@ -0,0 +1,605 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { RestoreConflictError } from '../../errors/RestoreConflictError';
+import { getCurrentUser } from '../../shared/current-user';
+import { getStandaloneSqlite, nowIso, type SqliteBindValue } from './sqlite';
+import { placeholders } from './stack/helpers';
+import {
+  captureRows,
+  captureStacks,
+  recordSnapshotFiles,
+  restoredId,
+  restoreSnapshot,
+  snapshotRows,
+  type TableSnapshot,
+} from './stack/snapshot';
+import { StandaloneStackRepository } from './stack-repository';
+
+/** 取り消せるのは各ライブラリの直近この件数まで（古い履歴は記録時に削除する） */
+export const OPERATION_LOG_LIMIT = 20;
+
+export type OperationType =
+  | 'stacks.remove'
+  | 'assets.remove'
+  | 'stacks.merge'
+  | 'assets.separate'
+  | 'tags.merge'
+  | 'authors.merge'
+  | 'stacks.bulk-tags'
+  | 'stacks.bulk-author'
+  | 'stacks.bulk-media-type';
+
+interface TrashUndo {
+  trashItemIds: number[];
+}
+
+interface StackMergeUndo {
+  targetId: number;
+  sources: TableSnapshot[];
+  assetMoves: Array<{ assetId: number; stackId: number; order: number }>;
+  addedTagIds: number[];
+  addedCollectionIds: number[];
+}
+
+interface AssetSeparationUndo {
+  assetId: number;
+  stackId: number;
+  newStackId: number | null;
+  orders: Array<{ assetId: number; order: number }>;
+}
+
+interface TagMergeUndo {
+  targetTagId: number;
+  tags: TableSnapshot[];
+  stackTags: Array<{ stackId: number; tagId: number }>;
+  targetStackIds: number[];
+  mappings: Array<{ id: number; tagId: number }>;
+}
+
+interface AuthorMergeUndo {
+  targetAuthorId: number;
+  authors: TableSnapshot[];
+  targetLinks: TableSnapshot[];
+  stackAuthors: Array<{ stackId: number; authorId: number }>;
+}
+
+interface BulkTagsUndo {
+  added: Array<{ stackId: number; tagId: number }>;
+}
+
+interface BulkAuthorUndo {
+  previous: Array<{ stackId: number; authorId: number | null }>;
+}
+
+interface BulkMediaTypeUndo {
+  previous: Array<{ stackId: number; mediaType: string }>;
+}
+
+export interface OperationLogEntry {
+  id: number;
+  dataSetId: number;
+  userId: number | null;
+  operation: OperationType;
+  itemCount: number;
+  createdAt: string;
+  undoneAt: string | null;
+}
+
+interface OperationLogRow {
+  id: number;
+  dataset_id: number;
+  user_id: number | null;
+  operation: OperationType;
+  item_count: number;
+  undo_json: string;
+  created_at: string;
+  undone_at: string | null;
+}
+
+type StackTagPair = { stackId: number; tagId: number };
+
+const toEntry = (row: OperationLogRow): OperationLogEntry => ({
+  id: row.id,
+  dataSetId: row.dataset_id,
+  userId: row.user_id,
+  operation: row.operation,
+  itemCount: row.item_count,
+  createdAt: row.created_at,
+  undoneAt: row.undone_at,
+});
+
+const pairKey = (pair: StackTagPair) => `${pair.stackId}:${pair.tagId}`;
+
+const isTableSnapshot = (value: unknown): value is TableSnapshot =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as TableSnapshot).table === 'string' &&
+  Array.isArray((value as TableSnapshot).rows);
+
+/** 取り消し用データのうち、行のスナップショットを持つ配列（マージ元のスタックなど） */
+const undoSnapshots = (undo: unknown): TableSnapshot[] =>
+  typeof undo === 'object' && undo !== null
+    ? Object.values(undo).flatMap((value) =>
+        Array.isArray(value) ? value.filter(isTableSnapshot) : []
+      )
+    : [];
+
+export class StandaloneOperationLogRepository {
+  private stackRepository: StandaloneStackRepository;
+
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {
+    this.stackRepository = new StandaloneStackRepository(db);
+  }
+
+  record(dataSetId: number, operation: OperationType, itemCount: number, undo: unknown) {
+    const result = this.db
+      .prepare(
+        `INSERT INTO operation_logs (dataset_id, user_id, operation, item_count, undo_json, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        dataSetId,
+        getCurrentUser()?.id ?? null,
+        operation,
+        itemCount,
+        JSON.stringify(undo),
+        nowIso()
+      );
+    const id = Number(result.lastInsertRowid);
+    recordSnapshotFiles(this.db, 'operation_log', id, undoSnapshots(undo));
+    this.db
+      .prepare(
+        `DELETE FROM operation_logs
+         WHERE dataset_id = ?
+           AND id NOT IN (
+             SELECT id FROM operation_logs WHERE dataset_id = ? ORDER BY id DESC LIMIT ?
+           )`
+      )
+      .run(dataSetId, dataSetId, OPERATION_LOG_LIMIT);
+    return id;
+  }
+
+  list(dataSetId: number): OperationLogEntry[] {
+    const rows = this.db
+      .prepare('SELECT * FROM operation_logs WHERE dataset_id = ? ORDER BY id DESC LIMIT ?')
+      .all(dataSetId, OPERATION_LOG_LIMIT) as unknown as OperationLogRow[];
+    return rows.map(toEntry);
+  }
+
+  getById(id: number): OperationLogEntry | null {
+    const row = this.getRow(id);
+    return row ? toEntry(row) : null;
+  }
+
+  /** 一括操作の対象が属するライブラリ（操作ログの記録先） */
+  getDatasetIdOfStacks(stackIds: number[]): number | null {
+    if (stackIds.length === 0) return null;
+    const row = this.db
+      .prepare(`SELECT dataset_id FROM stacks WHERE id IN (${placeholders(stackIds)}) LIMIT 1`)
+      .get(...stackIds) as { dataset_id: number } | undefined;
+    return row?.dataset_id ?? null;
+  }
+
+  getDatasetIdOfAsset(assetId: number): number | null {
+    const row = this.db
+      .prepare(
+        'SELECT s.dataset_id FROM assets a JOIN stacks s ON s.id = a.stack_id WHERE a.id = ?'
+      )
+      .get(assetId) as { dataset_id: number } | undefined;
+    return row?.dataset_id ?? null;
+  }
+
+  // --- 操作前の状態の記録 ---
+
+  captureStackMerge(targetId: number, sourceIds: number[]): StackMergeUndo {
+    const inSources = placeholders(sourceIds);
+    const assetMoves = (
+      this.db
+        .prepare(`SELECT id, stack_id, order_in_stack FROM assets WHERE stack_id IN (${inSources})`)
+        .all(...sourceIds) as Array<{ id: number; stack_id: number; order_in_stack: number }>
+    ).map((row) => ({ assetId: row.id, stackId: row.stack_id, order: row.order_in_stack }));
+    const addedTagIds = this.selectIds(
+      `SELECT DISTINCT tag_id AS id FROM stack_tags
+       WHERE stack_id IN (${inSources})
+         AND tag_id NOT IN (SELECT tag_id FROM stack_tags WHERE stack_id = ?)`,
+      [...sourceIds, targetId]
+    );
+    const addedCollectionIds = this.selectIds(
+      `SELECT DISTINCT collection_id AS id FROM collection_stacks
+       WHERE stack_id IN (${inSources})
+         AND collection_id NOT IN (SELECT collection_id FROM collection_stacks WHERE stack_id = ?)`,
+      [...sourceIds, targetId]
+    );
+    return {
+      targetId,
+      sources: captureStacks(this.db, sourceIds, { includeAssets: false }),
+      assetMoves,
+      addedTagIds,
+      addedCollectionIds,
+    };
+  }
+
+  captureAssetSeparation(assetId: number): AssetSeparationUndo | null {
+    const asset = this.db.prepare('SELECT stack_id FROM assets WHERE id = ?').get(assetId) as
+      | { stack_id: number }
+      | undefined;
+    if (!asset) return null;
+    const orders = (
+      this.db
+        .prepare('SELECT id, order_in_stack FROM assets WHERE stack_id = ?')
+        .all(asset.stack_id) as Array<{ id: number; order_in_stack: number }>
+    ).map((row) => ({ assetId: row.id, order: row.order_in_stack }));
+    return { assetId, stackId: asset.stack_id, newStackId: null, orders };
+  }
+
+  captureTagMerge(dataSetId: number, sourceTagIds: number[], targetTagId: number): TagMergeUndo {
+    const inSources = placeholders(sourceTagIds);
+    const stackTags = (
+      this.db
+        .prepare(
+          `SELECT st.stack_id, st.tag_id
+           FROM stack_tags st
+           JOIN tags t ON t.id = st.tag_id
+           WHERE t.dataset_id = ? AND st.tag_id IN (${inSources})`
+        )
+        .all(dataSetId, ...sourceTagIds) as Array<{ stack_id: number; tag_id: number }>
+    ).map((row) => ({ stackId: row.stack_id, tagId: row.tag_id }));
+    const mappings = (
+      this.db
+        .prepare(`SELECT id, tag_id FROM auto_tag_mappings WHERE tag_id IN (${inSources})`)
+        .all(...sourceTagIds) as Array<{ id: number; tag_id: number }>
+    ).map((row) => ({ id: row.id, tagId: row.tag_id }));
+    return {
+      targetTagId,
+      tags: [
+        captureRows(this.db, 'tags', `dataset_id = ? AND id IN (${inSources}) AND id <> ?`, [
+          dataSetId,
+          ...sourceTagIds,
+          targetTagId,
+        ]),
+      ],
+      stackTags,
+      targetStackIds: this.selectIds('SELECT stack_id AS id FROM stack_tags WHERE tag_id = ?', [
+        targetTagId,
+      ]),
+      mappings,
+    };
+  }
+
+  captureAuthorMerge(
+    dataSetId: number,
+    targetAuthorId: number,
+    sourceAuthorIds: number[]
+  ): AuthorMergeUndo {
+    const sourceIds = sourceAuthorIds.filter((id) => id !== targetAuthorId);
+    if (sourceIds.length === 0) {
+      return { targetAuthorId, authors: [], targetLinks: [], stackAuthors: [] };
+    }
+    const inSources = placeholders(sourceIds);
+    const stackAuthors = (
+      this.db
+        .prepare(
+          `SELECT id, author_id FROM stacks WHERE dataset_id = ? AND author_id IN (${inSources})`
+        )
+        .all(dataSetId, ...sourceIds) as Array<{ id: number; author_id: number }>
+    ).map((row) => ({ stackId: row.id, authorId: row.author_id }));
+    return {
+      targetAuthorId,
+      authors: [
+        captureRows(this.db, 'authors', `dataset_id = ? AND id IN (${inSources})`, [
+          dataSetId,
+          ...sourceIds,
+        ]),
+        captureRows(this.db, 'author_links', `author_id IN (${inSources})`, sourceIds),
+      ],
+      targetLinks: [captureRows(this.db, 'author_links', 'author_id = ?', [targetAuthorId])],
+      stackAuthors,
+    };
+  }
+
+  captureStackTags(stackIds: number[]): StackTagPair[] {
+    if (stackIds.length === 0) return [];
+    return (
+      this.db
+        .prepare(
+          `SELECT stack_id, tag_id FROM stack_tags WHERE stack_id IN (${placeholders(stackIds)})`
+        )
+        .all(...stackIds) as Array<{ stack_id: number; tag_id: number }>
+    ).map((row) => ({ stackId: row.stack_id, tagId: row.tag_id }));
+  }
+
+  /** 一括タグ付けで新しく付いたタグだけを取り消し対象にする */
+  diffStackTags(stackIds: number[], before: StackTagPair[]): BulkTagsUndo {
+    const existing = new Set(before.map(pairKey));
+    return {
+      added: this.captureStackTags(stackIds).filter((pair) => !existing.has(pairKey(pair))),
+    };
+  }
+
+  captureStackAuthors(stackIds: number[]): BulkAuthorUndo {
+    if (stackIds.length === 0) return { previous: [] };
+    const rows = this.db
+      .prepare(`SELECT id, author_id FROM stacks WHERE id IN (${placeholders(stackIds)})`)
+      .all(...stackIds) as Array<{ id: number; author_id: number | null }>;
+    return { previous: rows.map((row) => ({ stackId: row.id, authorId: row.author_id })) };
+  }
+
+  captureStackMediaTypes(stackIds: number[]): BulkMediaTypeUndo {
+    if (stackIds.length === 0) return { previous: [] };
+    const rows = this.db
+      .prepare(`SELECT id, media_type FROM stacks WHERE id IN (${placeholders(stackIds)})`)
+      .all(...stackIds) as Array<{ id: number; media_type: string }>;
+    return { previous: rows.map((row) => ({ stackId: row.id, mediaType: row.media_type })) };
+  }
+
+  // --- 取り消し ---
+
+  /** 操作を取り消し、影響したスタックの id を返す */
+  async undo(id: number) {
+    const row = this.getRow(id);
+    if (!row) return null;
+    if (row.undone_at) throw new RestoreConflictError('This operation has already been undone');
+
+    const undo = JSON.parse(row.undo_json) as unknown;
+    const affected = new Set<number>();
+    const refreshThumbnails = new Set<number>();
+
+    // ゴミ箱からの復元は項目ごとにトランザクションを張る
+    if (row.operation === 'stacks.remove' || row.operation === 'assets.remove') {
+      for (const trashItemId of (undo as TrashUndo).trashItemIds) {
+        const restored = this.stackRepository.restoreTrashItem(trashItemId);
+        if (restored) affected.add(restored.stackId);
+      }
+      if (affected.size === 0) {
+        throw new RestoreConflictError('The deleted items are no longer in the trash');
+      }
+      this.markUndone(id);
+      return { entry: this.getById(id), stackIds: [...affected] };
+    }
+
+    this.db.exec('BEGIN');
+    try {
+      switch (row.operation) {
+        case 'stacks.merge':
+          this.undoStackMerge(undo as StackMergeUndo, affected);
+          break;
+        case 'assets.separate':
+          this.undoAssetSeparation(undo as AssetSeparationUndo, affected);
+          break;
+        case 'tags.merge':
+          this.undoTagMerge(row.dataset_id, undo as TagMergeUndo, affected);
+          break;
+        case 'authors.merge':
+          this.undoAuthorMerge(undo as AuthorMergeUndo, affected);
+          break;
+        case 'stacks.bulk-tags':
+          this.undoBulkTags(undo as BulkTagsUndo, affected);
+          break;
+        case 'stacks.bulk-author':
+          this.undoBulkAuthor(undo as BulkAuthorUndo, affected);
+          break;
+        case 'stacks.bulk-media-type':
+          this.undoBulkMediaType(undo as BulkMediaTypeUndo, affected);
+          break;
+        default:
+          throw new RestoreConflictError(`Unsupported operation: ${row.operation}`);
+      }
+      this.markUndone(id);
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+
+    if (row.operation === 'stacks.merge' || row.operation === 'assets.separate') {
+      for (const stackId of affected) refreshThumbnails.add(stackId);
+    }
+    await this.refreshStacks([...affected], refreshThumbnails);
+    return { entry: this.getById(id), stackIds: [...affected] };
+  }
+
+  private undoStackMerge(undo: StackMergeUndo, affected: Set<number>) {
+    if (!this.stackExists(undo.targetId)) {
+      throw new RestoreConflictError('The merged stack no longer exists');
+    }
+    const idMaps = restoreSnapshot(this.db, undo.sources);
+    const now = nowIso();
+    const moveAsset = this.db.prepare(
+      `UPDATE assets SET stack_id = ?, order_in_stack = ?, updated_at = ?
+       WHERE id = ? AND stack_id = ?`
+    );
+    for (const move of undo.assetMoves) {
+      const stackId = restoredId(idMaps, 'stacks', move.stackId);
+      if (stackId === null) continue;
+      moveAsset.run(stackId, move.order, now, move.assetId, undo.targetId);
+    }
+    if (undo.addedTagIds.length > 0) {
+      this.db
+        .prepare(
+          `DELETE FROM stack_tags WHERE stack_id = ? AND tag_id IN (${placeholders(undo.addedTagIds)})`
+        )
+        .run(undo.targetId, ...undo.addedTagIds);
+    }
+    if (undo.addedCollectionIds.length > 0) {
+      this.db
+        .prepare(
+          `DELETE FROM collection_stacks
+           WHERE stack_id = ? AND collection_id IN (${placeholders(undo.addedCollectionIds)})`
+        )
+        .run(undo.targetId, ...undo.addedCollectionIds);
+    }
+    affected.add(undo.targetId);
+    for (const source of snapshotRows(undo.sources, 'stacks')) {
+      const stackId = restoredId(idMaps, 'stacks', Number(source.id));
+      if (stackId !== null) affected.add(stackId);
+    }
+  }
+
+  private undoAssetSeparation(undo: AssetSeparationUndo, affected: Set<number>) {
+    if (!this.stackExists(undo.stackId)) {
+      throw new RestoreConflictError('The original stack no longer exists');
+    }
+    const asset = this.db.prepare('SELECT stack_id FROM assets WHERE id = ?').get(undo.assetId) as
+      | { stack_id: number }
+      | undefined;
+    if (!asset || asset.stack_id !== undo.newStackId) {
+      throw new RestoreConflictError('The separated asset has been moved or deleted');
+    }
+
+    const now = nowIso();
+    const updateAsset = this.db.prepare(
+      'UPDATE assets SET stack_id = ?, order_in_stack = ?, updated_at = ? WHERE id = ?'
+    );
+    const restoreOrder = this.db.prepare(
+      'UPDATE assets SET order_in_stack = ?, updated_at = ? WHERE id = ? AND stack_id = ?'
+    );
+    for (const entry of undo.orders) {
+      if (entry.assetId === undo.assetId) {
+        updateAsset.run(undo.stackId, entry.order, now, entry.assetId);
+      } else {
+        restoreOrder.run(entry.order, now, entry.assetId, undo.stackId);
+      }
+    }
+    // 分離で作ったスタックは、空になった場合だけ消す
+    const remaining = this.db
+      .prepare('SELECT COUNT(*) AS count FROM assets WHERE stack_id = ?')
+      .get(undo.newStackId) as { count: number };
+    if (remaining.count === 0) {
+      this.db.prepare('DELETE FROM stacks WHERE id = ?').run(undo.newStackId);
+    } else {
+      affected.add(undo.newStackId);
+    }
+    affected.add(undo.stackId);
+  }
+
+  private undoTagMerge(dataSetId: number, undo: TagMergeUndo, affected: Set<number>) {
+    for (const tag of snapshotRows(undo.tags, 'tags')) {
+      const existing = this.db
+        .prepare('SELECT 1 FROM tags WHERE dataset_id = ? AND title = ?')
+        .get(dataSetId, String(tag.title));
+      if (existing) throw new RestoreConflictError(`A tag named "${tag.title}" already exists`);
+    }
+    const idMaps = restoreSnapshot(this.db, undo.tags);
+    const insertPair = this.db.prepare(
+      `INSERT OR IGNORE INTO stack_tags (stack_id, tag_id)
+       SELECT ?, ? WHERE EXISTS (SELECT 1 FROM stacks WHERE id = ?)`
+    );
+    for (const pair of undo.stackTags) {
+      const tagId = restoredId(idMaps, 'tags', pair.tagId);
+      if (tagId === null) continue;
+      insertPair.run(pair.stackId, tagId, pair.stackId);
+      affected.add(pair.stackId);
+    }
+
+    const hadTarget = new Set(undo.targetStackIds);
+    const removeTarget = this.db.prepare(
+      'DELETE FROM stack_tags WHERE stack_id = ? AND tag_id = ?'
+    );
+    for (const stackId of affected) {
+      if (!hadTarget.has(stackId)) removeTarget.run(stackId, undo.targetTagId);
+    }
+
+    const restoreMapping = this.db.prepare(
+      'UPDATE auto_tag_mappings SET tag_id = ? WHERE id = ? AND tag_id IS NULL'
+    );
+    for (const mapping of undo.mappings) {
+      const tagId = restoredId(idMaps, 'tags', mapping.tagId);
+      if (tagId !== null) restoreMapping.run(tagId, mapping.id);
+    }
+  }
+
+  private undoAuthorMerge(undo: AuthorMergeUndo, affected: Set<number>) {
+    for (const author of snapshotRows(undo.authors, 'authors')) {
+      const existing = this.db
+        .prepare('SELECT 1 FROM authors WHERE dataset_id = ? AND name = ?')
+        .get(Number(author.dataset_id), String(author.name));
+      if (existing)
+        throw new RestoreConflictError(`An author named "${author.name}" already exists`);
+    }
+    const idMaps = restoreSnapshot(this.db, undo.authors);
+
+    // 統合先のリンクは統合前の内容に戻す
+    if (this.db.prepare('SELECT 1 FROM authors WHERE id = ?').get(undo.targetAuthorId)) {
+      this.db.prepare('DELETE FROM author_links WHERE author_id = ?').run(undo.targetAuthorId);
+      restoreSnapshot(this.db, undo.targetLinks);
+    }
+
+    const now = nowIso();
+    const updateStack = this.db.prepare(
+      'UPDATE stacks SET author_id = ?, updated_at = ? WHERE id = ? AND author_id = ?'
+    );
+    for (const entry of undo.stackAuthors) {
+      const authorId = restoredId(idMaps, 'authors', entry.authorId);
+      if (authorId === null) continue;
+      updateStack.run(authorId, now, entry.stackId, undo.targetAuthorId);
+      affected.add(entry.stackId);
+    }
+  }
+
+  private undoBulkTags(undo: BulkTagsUndo, affected: Set<number>) {
+    const removePair = this.db.prepare('DELETE FROM stack_tags WHERE stack_id = ? AND tag_id = ?');
+    for (const pair of undo.added) {
+      removePair.run(pair.stackId, pair.tagId);
+      affected.add(pair.stackId);
+    }
+  }
+
+  private undoBulkAuthor(undo: BulkAuthorUndo, affected: Set<number>) {
+    const now = nowIso();
+    const updateStack = this.db.prepare(
+      `UPDATE stacks SET author_id = ?, updated_at = ?
+       WHERE id = ? AND (? IS NULL OR EXISTS (SELECT 1 FROM authors WHERE id = ?))`
+    );
+    for (const entry of undo.previous) {
+      const result = updateStack.run(
+        entry.authorId,
+        now,
+        entry.stackId,
+        entry.authorId,
+        entry.authorId
+      );
+      if (result.changes > 0) affected.add(entry.stackId);
+    }
+  }
+
+  private undoBulkMediaType(undo: BulkMediaTypeUndo, affected: Set<number>) {
+    const now = nowIso();
+    const updateStack = this.db.prepare(
+      'UPDATE stacks SET media_type = ?, updated_at = ? WHERE id = ?'
+    );
+    for (const entry of undo.previous) {
+      const result = updateStack.run(entry.mediaType, now, entry.stackId);
+      if (result.changes > 0) affected.add(entry.stackId);
+    }
+  }
+
+  private async refreshStacks(stackIds: number[], refreshThumbnails: Set<number>) {
+    const existing = stackIds.filter((stackId) => this.stackExists(stackId));
+    for (const stackId of existing) {
+      this.stackRepository.refreshActualMediaType(stackId);
+      if (refreshThumbnails.has(stackId)) {
+        await this.stackRepository.syncStackThumbnail(stackId).catch((error) => {
+          console.error(`Failed to refresh stack ${stackId} thumbnail`, error);
+        });
+      }
+    }
+    this.stackRepository.refreshSearchIndex(existing);
+  }
+
+  private markUndone(id: number) {
+    this.db.prepare('UPDATE operation_logs SET undone_at = ? WHERE id = ?').run(nowIso(), id);
+  }
+
+  private stackExists(stackId: number | null) {
+    return Boolean(stackId && this.db.prepare('SELECT 1 FROM stacks WHERE id = ?').get(stackId));
+  }
+
+  private selectIds(sql: string, params: SqliteBindValue[]) {
+    return (this.db.prepare(sql).all(...params) as Array<{ id: number }>).map((row) => row.id);
+  }
+
+  private getRow(id: number) {
+    return this.db.prepare('SELECT * FROM operation_logs WHERE id = ?').get(id) as
+      | OperationLogRow
+      | undefined;
+  }
+}
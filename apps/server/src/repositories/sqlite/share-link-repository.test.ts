@@ -0,0 +1,99 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { StandaloneLibraryRepository } from './library-repository';
+import { matchesShareLinkPassword, StandaloneShareLinkRepository } from './share-link-repository';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+
+describe('StandaloneShareLinkRepository', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneShareLinkRepository;
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneShareLinkRepository(db);
+
+    const now = '2026-07-01T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at) VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES
+         (1, 1, 'Sky', '', 'image', ?, ?),
+         (2, 1, 'Sea', '', 'image', ?, ?),
+         (3, 1, 'Draft', '', 'image', ?, ?)`
+    ).run(now, now, now, now, now, now);
+    db.prepare(`INSERT INTO tags (id, dataset_id, title) VALUES (1, 1, 'client')`).run();
+    db.prepare(`INSERT INTO stack_tags (stack_id, tag_id) VALUES (1, 1), (2, 1)`).run();
+    db.prepare(
+      `INSERT INTO collections (id, dataset_id, name, type, filter_config_json, created_at, updated_at)
+       VALUES
+         (1, 1, 'Picks', 'MANUAL', NULL, ?, ?),
+         (2, 1, 'Client work', 'SMART', '{"filters":{"tags":{"include":["client"]}}}', ?, ?)`
+    ).run(now, now, now, now);
+    db.prepare(
+      `INSERT INTO collection_stacks (collection_id, stack_id, added_at, order_index)
+       VALUES (1, 3, ?, 0)`
+    ).run(now);
+  });
+
+  it('resolves active links and reports expired or revoked ones', () => {
+    const link = repository.create({
+      dataSetId: 1,
+      targetType: 'stack',
+      targetId: 1,
+      password: 'secret-pass',
+      allowOriginals: false,
+    });
+    const resolved = repository.resolve(link.token);
+    expect(resolved.status).toBe('active');
+    if (resolved.status !== 'active') return;
+    expect(resolved.link).toMatchObject({ targetName: 'Sky', hasPassword: true });
+    expect(matchesShareLinkPassword('secret-pass', resolved.passwordHash)).toBe(true);
+    expect(matchesShareLinkPassword('wrong', resolved.passwordHash)).toBe(false);
+
+    repository.recordView(link.id);
+    repository.recordView(link.id);
+    expect(repository.getById(link.id)?.viewCount).toBe(2);
+
+    db.prepare('UPDATE share_links SET expires_at = ? WHERE id = ?').run(
+      '2020-01-01T00:00:00.000Z',
+      link.id
+    );
+    expect(repository.resolve(link.token)).toEqual({ status: 'expired' });
+
+    expect(repository.revoke(link.id)?.status).toBe('revoked');
+    expect(repository.resolve(link.token)).toEqual({ status: 'revoked' });
+    expect(repository.resolve('unknown')).toEqual({ status: 'not-found' });
+  });
+
+  it('limits access to stacks inside the shared collection', () => {
+    const manual = repository.create({
+      dataSetId: 1,
+      targetType: 'collection',
+      targetId: 1,
+      allowOriginals: false,
+    });
+    const smart = repository.create({
+      dataSetId: 1,
+      targetType: 'collection',
+      targetId: 2,
+      expiresInDays: 7,
+      allowOriginals: true,
+    });
+
+    expect(repository.getSharedStacks(manual, 10, 0).stacks.map((stack) => stack.id)).toEqual([3]);
+    expect(repository.getSharedStack(manual, 1)).toBeNull();
+    expect(repository.getSharedStacks(smart, 10, 0).total).toBe(2);
+    expect(repository.getSharedStack(smart, 2)?.name).toBe('Sea');
+    expect(repository.getSharedStack(smart, 3)).toBeNull();
+
+    // コレクションを消すとリンクも消える
+    new StandaloneLibraryRepository(db).deleteCollection(1);
+    expect(repository.list(1).map((link) => link.id)).toEqual([smart.id]);
+  });
+});
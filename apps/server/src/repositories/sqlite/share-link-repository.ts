@@ -0,0 +1,233 @@
+import { randomBytes } from 'node:crypto';
+import type { DatabaseSync } from 'node:sqlite';
+import type { CreateShareLinkInput, ShareLinkTargetType } from '../../models/ShareLinkModel';
+import { getCurrentUser } from '../../shared/current-user';
+import { hashPassword, verifyPassword } from '../../utils/dataset-protection';
+import { StandaloneLibraryRepository } from './library-repository';
+import { getStandaloneSqlite, nowIso } from './sqlite';
+import { StandaloneStackRepository } from './stack-repository';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface ShareLink {
+  id: number;
+  dataSetId: number;
+  targetType: ShareLinkTargetType;
+  targetId: number;
+  /** 共有対象が削除済みの場合は null */
+  targetName: string | null;
+  token: string;
+  label: string | null;
+  hasPassword: boolean;
+  allowOriginals: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  status: ShareLinkStatus;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ShareLinkRow {
+  id: number;
+  dataset_id: number;
+  target_type: ShareLinkTargetType;
+  target_id: number;
+  token: string;
+  label: string | null;
+  password_hash: string | null;
+  allow_originals: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  target_name: string | null;
+}
+
+export type ResolvedShareLink =
+  | { status: 'active'; link: ShareLink; passwordHash: string | null }
+  | { status: 'not-found' | 'expired' | 'revoked' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toStatus = (row: ShareLinkRow): ShareLinkStatus => {
+  if (row.revoked_at) return 'revoked';
+  if (row.expires_at && Date.parse(row.expires_at) <= Date.now()) return 'expired';
+  return 'active';
+};
+
+const toShareLink = (row: ShareLinkRow): ShareLink => ({
+  id: row.id,
+  dataSetId: row.dataset_id,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  targetName: row.target_name,
+  token: row.token,
+  label: row.label,
+  hasPassword: Boolean(row.password_hash),
+  allowOriginals: row.allow_originals === 1,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at,
+  status: toStatus(row),
+  viewCount: row.view_count,
+  lastViewedAt: row.last_viewed_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// salt とハッシュを 1 カラムにまとめて保存する（ユーザーのパスワードと同じ形式）
+const encodePassword = (password: string) => {
+  const { salt, hash } = hashPassword(password);
+  return `${salt}:${hash}`;
+};
+
+export const matchesShareLinkPassword = (password: string, stored: string | null) => {
+  const [salt, hash] = stored?.split(':') ?? [];
+  if (!salt || !hash) return false;
+  return verifyPassword(password, salt, hash);
+};
+
+const SELECT_SQL = `
+  SELECT sl.*,
+    CASE sl.target_type
+      WHEN 'collection' THEN (SELECT c.name FROM collections c WHERE c.id = sl.target_id)
+      ELSE (SELECT s.name FROM stacks s WHERE s.id = sl.target_id)
+    END AS target_name
+  FROM share_links sl
+`;
+
+export class StandaloneShareLinkRepository {
+  private libraryRepository: StandaloneLibraryRepository;
+  private stackRepository: StandaloneStackRepository;
+
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {
+    this.libraryRepository = new StandaloneLibraryRepository(db);
+    this.stackRepository = new StandaloneStackRepository(db);
+  }
+
+  list(dataSetId?: number): ShareLink[] {
+    const rows = (
+      dataSetId
+        ? this.db
+            .prepare(
+              `${SELECT_SQL} WHERE sl.dataset_id = ? ORDER BY sl.created_at DESC, sl.id DESC`
+            )
+            .all(dataSetId)
+        : this.db.prepare(`${SELECT_SQL} ORDER BY sl.created_at DESC, sl.id DESC`).all()
+    ) as ShareLinkRow[];
+    return rows.map(toShareLink);
+  }
+
+  getById(id: number): ShareLink | null {
+    const row = this.db.prepare(`${SELECT_SQL} WHERE sl.id = ?`).get(id) as
+      | ShareLinkRow
+      | undefined;
+    return row ? toShareLink(row) : null;
+  }
+
+  /** 共有対象が属するライブラリ。対象が無ければ null */
+  getTargetDatasetId(targetType: ShareLinkTargetType, targetId: number): number | null {
+    const table = targetType === 'collection' ? 'collections' : 'stacks';
+    const row = this.db.prepare(`SELECT dataset_id FROM ${table} WHERE id = ?`).get(targetId) as
+      | { dataset_id: number }
+      | undefined;
+    return row?.dataset_id ?? null;
+  }
+
+  create(data: CreateShareLinkInput & { dataSetId: number }): ShareLink {
+    const now = nowIso();
+    const expiresAt = data.expiresInDays
+      ? new Date(Date.now() + data.expiresInDays * DAY_MS).toISOString()
+      : null;
+    const result = this.db
+      .prepare(
+        `INSERT INTO share_links
+           (dataset_id, target_type, target_id, token, label, password_hash, allow_originals,
+            expires_at, created_by, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        data.dataSetId,
+        data.targetType,
+        data.targetId,
+        randomBytes(24).toString('base64url'),
+        data.label?.trim() || null,
+        data.password ? encodePassword(data.password) : null,
+        data.allowOriginals ? 1 : 0,
+        expiresAt,
+        getCurrentUser()?.id ?? null,
+        now,
+        now
+      );
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  /** 失効させたリンクは閲覧できなくなるが、閲覧数の記録は残す */
+  revoke(id: number): ShareLink | null {
+    const now = nowIso();
+    this.db
+      .prepare(
+        'UPDATE share_links SET revoked_at = COALESCE(revoked_at, ?), updated_at = ? WHERE id = ?'
+      )
+      .run(now, now, id);
+    return this.getById(id);
+  }
+
+  delete(id: number) {
+    return this.db.prepare('DELETE FROM share_links WHERE id = ?').run(id).changes > 0;
+  }
+
+  resolve(token: string): ResolvedShareLink {
+    const row = this.db.prepare(`${SELECT_SQL} WHERE sl.token = ?`).get(token) as
+      | ShareLinkRow
+      | undefined;
+    if (!row || row.target_name === null) return { status: 'not-found' };
+    const link = toShareLink(row);
+    if (link.status !== 'active') return { status: link.status };
+    return { status: 'active', link, passwordHash: row.password_hash };
+  }
+
+  recordView(id: number) {
+    this.db
+      .prepare(
+        'UPDATE share_links SET view_count = view_count + 1, last_viewed_at = ? WHERE id = ?'
+      )
+      .run(nowIso(), id);
+  }
+
+  /** 共有されているスタックの一覧（スタックの共有ではそのスタックだけ） */
+  getSharedStacks(link: ShareLink, limit: number, offset: number) {
+    if (link.targetType === 'stack') {
+      const stack = this.stackRepository.getById(link.targetId, link.dataSetId);
+      return { stacks: stack && offset === 0 ? [stack] : [], total: stack ? 1 : 0 };
+    }
+    const collection = this.libraryRepository.getCollection(link.targetId);
+    if (!collection) return { stacks: [], total: 0 };
+    if (collection.type === 'SMART') {
+      const result = this.libraryRepository.getSmartCollectionStacks(link.targetId, limit, offset);
+      return { stacks: result?.stacks ?? [], total: result?.total ?? 0 };
+    }
+    const stackIds = this.libraryRepository.getCollectionStackIds(link.targetId);
+    return {
+      stacks: stackIds
+        .slice(offset, offset + limit)
+        .map((stackId) => this.stackRepository.getById(stackId, link.dataSetId))
+        .filter((stack) => stack !== null),
+      total: stackIds.length,
+    };
+  }
+
+  /** 共有範囲に含まれるスタックだけを返す */
+  getSharedStack(link: ShareLink, stackId: number) {
+    if (link.targetType === 'stack') {
+      return stackId === link.targetId
+        ? this.stackRepository.getById(stackId, link.dataSetId)
+        : null;
+    }
+    if (!this.libraryRepository.collectionContainsStack(link.targetId, stackId)) return null;
+    return this.stackRepository.getById(stackId, link.dataSetId);
+  }
+}
@@ -4,7 +4,10 @@ import os from 'node:os';
 import path, { resolve } from 'node:path';
 import { DatabaseSync } from 'node:sqlite';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TagRuleError } from '../../errors/TagRuleError';
 import { DataStorage } from '../../lib/DataStorage';
+import { encodeEmbedding } from '../../utils/embedding';
+import { StandaloneMetadataRepository } from './metadata-repository';
 import { StandaloneStackRepository } from './stack-repository';
 
 const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
@@ -60,6 +63,7 @@ describe('StandaloneStackRepository search', () => {
          (id, dataset_id, auto_tag_key, display_name, is_active, created_at, updated_at)
        VALUES (1, 1, 'blue_sky', '青空', 1, ?, ?)`
     ).run(now, now);
+    repository.rebuildSearchIndex(1);
   });
 
   afterEach(() => {
@@ -101,6 +105,171 @@ describe('StandaloneStackRepository search', () => {
     expect(result.total).toBe(0);
   });
 
+  it('matches stack names by word prefix', () => {
+    const result = repository.getPaginated({
+      dataSetId: 1,
+      search: 'land',
+      limit: 50,
+      offset: 0,
+    });
+
+    expect(result.stacks.map((stack) => stack.id)).toEqual([1]);
+  });
+
+  it('matches quoted phrases as a whole', () => {
+    const result = repository.getPaginated({
+      dataSetId: 1,
+      search: '"portrait reference"',
+      limit: 50,
+      offset: 0,
+    });
+
+    expect(result.total).toBe(1);
+    expect(result.stacks.map((stack) => stack.id)).toEqual([2]);
+  });
+
+  it('matches substrings inside words and Japanese titles', () => {
+    const now = '2026-06-20T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES (4, 1, '猫の絵本', '', 'image', ?, ?), (5, 1, 'Bobcat Sketch', '', 'image', ?, ?)`
+    ).run(now, now, now, now);
+    repository.rebuildSearchIndex(1);
+    const search = (query: string) =>
+      repository
+        .getPaginated({ dataSetId: 1, search: query, limit: 50, offset: 0 })
+        .stacks.map((stack) => stack.id);
+
+    expect(search('絵本')).toEqual([4]);
+    expect(search('の絵本')).toEqual([4]);
+    expect(search('cat')).toEqual([5]);
+    expect(search('猫 -絵本')).toEqual([]);
+    expect(search('絵本 OR bobcat').sort()).toEqual([4, 5]);
+  });
+
+  it('reflects tag and author updates and sorts by relevance', () => {
+    repository.addTag(2, 'landscape');
+    repository.updateAuthor(3, 'Landscape Studio');
+
+    const result = repository.getPaginated({
+      dataSetId: 1,
+      search: 'landscape',
+      sort: 'relevance',
+      limit: 50,
+      offset: 0,
+    });
+
+    expect(result.total).toBe(3);
+    expect(result.stacks[0]?.id).toBe(1);
+  });
+
+  it('applies structured query terms alongside free text', () => {
+    repository.addTag(1, 'outdoor');
+    repository.addTag(2, 'outdoor');
+    repository.addTag(2, 'draft');
+
+    const result = repository.getPaginated({
+      dataSetId: 1,
+      search: 'reference tag:outdoor -tag:draft media:image',
+      limit: 50,
+      offset: 0,
+    });
+    expect(result.stacks.map((stack) => stack.id)).toEqual([1]);
+
+    const either = repository.getPaginated({
+      dataSetId: 1,
+      search: '(landscape OR motion) -"motion reference"',
+      limit: 50,
+      offset: 0,
+    });
+    expect(either.stacks.map((stack) => stack.id)).toEqual([1]);
+  });
+
+  it('resolves tag aliases and applies implications retroactively', () => {
+    const metadata = new StandaloneMetadataRepository(db);
+    const monochrome = metadata.createTag(1, 'monochrome');
+    metadata.addTagAlias(monochrome.id, 1, 'bw');
+    repository.addTag(1, 'BW');
+    repository.addTag(2, 'cat');
+    const tagTitles = (stackId: number) =>
+      (
+        db
+          .prepare(
+            `SELECT t.title FROM stack_tags st JOIN tags t ON t.id = st.tag_id
+             WHERE st.stack_id = ? ORDER BY t.title`
+          )
+          .all(stackId) as Array<{ title: string }>
+      ).map((row) => row.title);
+    expect(tagTitles(1)).toEqual(['monochrome']);
+
+    const cat = metadata.createTag(1, 'cat');
+    const result = metadata.addTagImplication(cat.id, 1, { title: 'animal' });
+    expect(result?.affectedStacks).toBe(1);
+    expect(tagTitles(2)).toEqual(['animal', 'cat']);
+    const animal = metadata.createTag(1, 'animal');
+    expect(() => metadata.addTagImplication(animal.id, 1, { impliedTagId: cat.id })).toThrow(
+      TagRuleError
+    );
+
+    const mammal = metadata.createTag(1, 'mammal');
+    metadata.addTagImplication(mammal.id, 1, { impliedTagId: animal.id });
+    metadata.addTagImplication(cat.id, 1, { impliedTagId: mammal.id });
+    repository.addTag(3, 'cat');
+    expect(tagTitles(3)).toEqual(['animal', 'cat', 'mammal']);
+
+    const filtered = repository.getPaginated({ dataSetId: 1, tag: 'bw', limit: 50, offset: 0 });
+    expect(filtered.stacks.map((stack) => stack.id)).toEqual([1]);
+    const searched = repository.getPaginated({
+      dataSetId: 1,
+      search: 'tag:animal',
+      limit: 50,
+      offset: 0,
+    });
+    expect(searched.stacks.map((stack) => stack.id).sort()).toEqual([2, 3]);
+  });
+
+  it('filters by embedded metadata of any asset in the stack', () => {
+    const now = '2026-06-20T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO asset_metadata
+         (asset_id, captured_at, camera_make, camera_model, keywords_json, prompt, created_at, updated_at)
+       VALUES
+         (1, '2024-05-01T03:00:00.000Z', 'FUJIFILM', 'X100V', '["Sunset"]', NULL, ?, ?),
+         (3, NULL, NULL, NULL, '[]', 'a cat on a sofa', ?, ?)`
+    ).run(now, now, now, now);
+    const ids = (search: string) =>
+      repository
+        .getPaginated({ dataSetId: 1, search, limit: 50, offset: 0 })
+        .stacks.map((stack) => stack.id);
+
+    expect(ids('camera:x100v keyword:sunset taken:2024-05')).toEqual([1]);
+    expect(ids('taken:2025')).toEqual([]);
+    expect(ids('prompt:cat')).toEqual([2]);
+  });
+
+  it('tracks reading progress and filters by reading state', () => {
+    const ids = (reading: 'unread' | 'in-progress' | 'read') =>
+      repository
+        .getPaginated({ dataSetId: 1, reading, sort: 'id', order: 'asc', limit: 50, offset: 0 })
+        .stacks.map((stack) => stack.id);
+
+    expect(repository.saveReadingProgress(2, { page: 0 })).toMatchObject({
+      page: 0,
+      pageCount: 2,
+      completed: false,
+    });
+    expect(ids('in-progress')).toEqual([2]);
+
+    const finished = repository.saveReadingProgress(2, { page: 5 });
+    expect(finished).toMatchObject({ page: 1, completed: true });
+    expect(repository.saveReadingProgress(2, { page: 1 })?.completedAt).toBe(finished?.completedAt);
+    expect(ids('read')).toEqual([2]);
+    expect(ids('unread')).toEqual([1, 3]);
+
+    expect(repository.clearReadingProgress(2)).toBe(true);
+    expect(repository.getReadingProgress(2)).toBeNull();
+  });
+
   it('filters by actual media type independently from media category', () => {
     const singleImage = repository.getPaginated({
       dataSetId: 1,
@@ -169,7 +338,7 @@ describe('StandaloneStackRepository search', () => {
     const before = repository.getById(2, 1);
     expect(before?.actualMediaType).toBe('multipleImages');
 
-    expect(repository.deleteAsset(3)).toBe(true);
+    expect(repository.deleteAsset(3)).toEqual(expect.any(Number));
 
     const after = repository.getById(2, 1);
     expect(after?.actualMediaType).toBe('image');
@@ -371,4 +540,203 @@ describe('StandaloneStackRepository search', () => {
       rmSync(tempDir, { recursive: true, force: true });
     }
   });
+
+  it('rejects a media URL that was already imported and filters by source', async () => {
+    db.prepare(
+      `UPDATE assets
+       SET source_page_url = ?, source_media_url = ?, import_channel = 'clipper'
+       WHERE id = 3`
+    ).run('https://www.pixiv.net/artworks/123', 'https://i.pximg.net/img/123_p0.png');
+    const tempDir = mkdtempSync(path.join(os.tmpdir(), 'caramel-source-duplicate-'));
+    const filePath = path.join(tempDir, 'other.png');
+    writeFileSync(filePath, 'different bytes');
+
+    try {
+      await expect(
+        repository.addAssetWithFile(
+          1,
+          { path: filePath, originalname: 'other.png', mimetype: 'image/png', size: 15 },
+          {
+            source: { channel: 'url-import', mediaUrl: 'https://i.pximg.net/img/123_p0.png#top' },
+          }
+        )
+      ).rejects.toMatchObject({
+        code: 'DUPLICATE_ASSET',
+        details: { assetId: 3, stackId: 2, scope: 'dataset' },
+      });
+      expect(existsSync(filePath)).toBe(false);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    expect(repository.findAssetBySourceUrl(1, 'https://i.pximg.net/img/123_p0.png')).toEqual({
+      assetId: 3,
+      stackId: 2,
+    });
+    const bySource = repository.getPaginated({
+      dataSetId: 1,
+      sourceUrls: ['pixiv.net'],
+      importChannels: ['clipper', 'url-import'],
+      limit: 50,
+      offset: 0,
+    });
+    expect(bySource.stacks.map((stack) => stack.id)).toEqual([2]);
+    const byChannel = repository.getPaginated({
+      dataSetId: 1,
+      importChannels: ['upload'],
+      limit: 50,
+      offset: 0,
+    });
+    expect(byChannel.stacks).toEqual([]);
+  });
+});
+
+describe('StandaloneStackRepository near duplicates', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneStackRepository;
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneStackRepository(db);
+
+    const now = '2026-06-20T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at)
+       VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    const insertStack = db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES (?, 1, ?, '', 'image', ?, ?)`
+    );
+    const insertAsset = db.prepare(
+      `INSERT INTO assets
+         (id, stack_id, file, thumbnail, file_type, original_name, hash, phash, order_in_stack, created_at, updated_at)
+       VALUES (?, ?, ?, '', 'png', ?, ?, ?, 0, ?, ?)`
+    );
+    const assets: Array<[number, string | null]> = [
+      [1, 'ffff0000ffff0000'],
+      // 1 bit 違い
+      [2, 'ffff0000ffff0001'],
+      // 3 bit 違い（スタック1と同じグループ）
+      [3, 'ffff0000ffff0007'],
+      // まったく別の画像
+      [4, '0123456789abcdef'],
+      [5, null],
+    ];
+    for (const [id, phash] of assets) {
+      insertStack.run(id, `Stack ${id}`, now, now);
+      insertAsset.run(id, id, `/tmp/${id}.png`, `${id}.png`, `hash-${id}`, phash, now, now);
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('groups stacks whose hashes are within the threshold', () => {
+    const result = repository.getNearDuplicateGroups(1, { limit: 20, offset: 0 });
+
+    expect(result.total).toBe(1);
+    expect(result.unhashedAssets).toBe(1);
+    expect(result.groups[0].distance).toBe(1);
+    expect(result.groups[0].stacks.map((stack) => stack.id)).toEqual([1, 2, 3]);
+  });
+
+  it('respects a stricter threshold', () => {
+    const result = repository.getNearDuplicateGroups(1, { threshold: 1, limit: 20, offset: 0 });
+
+    expect(result.groups.map((group) => group.stacks.map((stack) => stack.id))).toEqual([[1, 2]]);
+    const strictest = repository.getNearDuplicateGroups(1, {
+      threshold: 0,
+      limit: 20,
+      offset: 0,
+    });
+    expect(strictest.total).toBe(0);
+  });
+
+  it('excludes dismissed pairs from the groups', () => {
+    expect(repository.dismissNearDuplicates(1, [1, 2, 3])).toBe(3);
+
+    const result = repository.getNearDuplicateGroups(1, { limit: 20, offset: 0 });
+    expect(result.total).toBe(0);
+  });
+
+  it('finds near duplicates of an asset in other stacks', () => {
+    expect(repository.findNearDuplicatesOfAsset(1)).toEqual([
+      { assetId: 2, stackId: 2, distance: 1 },
+      { assetId: 3, stackId: 3, distance: 3 },
+    ]);
+    expect(repository.findNearDuplicatesOfAsset(4)).toEqual([]);
+    expect(repository.getAssetIdsWithoutPerceptualHash(1)).toEqual([5]);
+  });
+});
+
+describe('StandaloneStackRepository similar stacks', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneStackRepository;
+
+  const similarIds = (mode: 'tags' | 'visual' | 'hybrid') =>
+    repository
+      .getSimilarByStackIds(1, [1], { limit: 20, offset: 0, mode })
+      .stacks.map((stack) => stack.id);
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneStackRepository(db);
+
+    const now = '2026-06-20T00:00:00.000Z';
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at)
+       VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    const insertStack = db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES (?, 1, ?, '', 'image', ?, ?)`
+    );
+    for (const id of [1, 2, 3, 4]) insertStack.run(id, `Stack ${id}`, now, now);
+
+    db.prepare("INSERT INTO tags (id, dataset_id, title) VALUES (1, 1, 'cat')").run();
+    db.prepare('INSERT INTO stack_tags (stack_id, tag_id) VALUES (1, 1), (2, 1)').run();
+
+    const insertEmbedding = db.prepare(
+      `INSERT INTO stack_embeddings
+         (stack_id, model, dimensions, vector, asset_count, created_at, updated_at)
+       VALUES (?, 'joytag', 3, ?, 1, ?, ?)`
+    );
+    const embeddings: Array<[number, number[]]> = [
+      [1, [1, 0, 0]],
+      // タグは同じだが見た目が違う
+      [2, [0, 1, 0]],
+      // タグは無いが見た目が近い
+      [3, [0.99, 0.141, 0]],
+    ];
+    for (const [stackId, vector] of embeddings) {
+      insertEmbedding.run(stackId, encodeEmbedding(vector), now, now);
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('ranks by tags only in tags mode', () => {
+    expect(similarIds('tags')).toEqual([2]);
+  });
+
+  it('ranks by embedding similarity in visual mode', () => {
+    expect(similarIds('visual')).toEqual([3]);
+  });
+
+  it('blends embedding similarity with the tag score in hybrid mode', () => {
+    expect(similarIds('hybrid')).toEqual([3, 2]);
+  });
+
+  it('falls back to tag scores when the reference has no embedding', () => {
+    db.prepare('DELETE FROM stack_embeddings WHERE stack_id = 1').run();
+
+    expect(similarIds('hybrid')).toEqual([2]);
+    expect(similarIds('visual')).toEqual([]);
+  });
 });
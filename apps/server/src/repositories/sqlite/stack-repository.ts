@@ -2,44 +2,67 @@ import type { DatabaseSync } from 'node:sqlite';
 import { getStandaloneSqlite } from './sqlite';
 import { StackAssetService } from './stack/asset-service';
 import { StackAutoTagReadService } from './stack/auto-tag-read-service';
+import { type AutomationRule, StackAutomationService } from './stack/automation-service';
 import { StackBulkService } from './stack/bulk-service';
+import { type ExportClipOptions, StackClipService } from './stack/clip-service';
 import { StackCollectionLinkService } from './stack/collection-link-service';
 import { StackColorService } from './stack/color-service';
+import { StackEmbeddedMetadataService } from './stack/embedded-metadata-service';
 import { StackFavoriteService } from './stack/favorite-service';
 import { StackFileService } from './stack/file-service';
+import { normalizeSourceUrl } from './stack/helpers';
 import { StackMediaTypeService } from './stack/media-type-service';
 import { StackMetadataService } from './stack/metadata-service';
+import { StackNearDuplicateService } from './stack/near-duplicate-service';
 import { StackPreviewService } from './stack/preview-service';
 import { StackQueryService } from './stack/query-service';
+import {
+  type SaveReadingProgressInput,
+  StackReadingProgressService,
+} from './stack/reading-progress-service';
+import { StackSceneService } from './stack/scene-service';
+import { StackSearchIndexService } from './stack/search-index-service';
 import { StackSimilarService } from './stack/similar-service';
+import { StackTagRuleService } from './stack/tag-rule-service';
 import {
   type SetStackThumbnailSourceInput,
   StackThumbnailService,
 } from './stack/thumbnail-service';
+import { StackTrashService } from './stack/trash-service';
 import type {
   AddAssetWithFileOptions,
   CreateStackWithFileInput,
+  SimilarMode,
   StandaloneFileInput,
   StandaloneStackListParams,
 } from './stack/types';
 import { StackWriterService } from './stack/writer-service';
 
-export type { StandaloneStackListParams } from './stack/types';
+export type { AssetSourceInput, SimilarMode, StandaloneStackListParams } from './stack/types';
 
 export class StandaloneStackRepository {
   private assetService: StackAssetService;
+  private automationService: StackAutomationService;
   private autoTagReadService: StackAutoTagReadService;
   private bulkService: StackBulkService;
+  private clipService: StackClipService;
   private collectionLinkService: StackCollectionLinkService;
   private colorService: StackColorService;
+  private embeddedMetadataService: StackEmbeddedMetadataService;
   private favoriteService: StackFavoriteService;
   private fileService: StackFileService;
   private mediaTypeService: StackMediaTypeService;
   private metadataService: StackMetadataService;
+  private nearDuplicateService: StackNearDuplicateService;
   private previewService: StackPreviewService;
   private queryService: StackQueryService;
+  private readingProgressService: StackReadingProgressService;
+  private sceneService: StackSceneService;
+  private searchIndexService: StackSearchIndexService;
   private similarService: StackSimilarService;
+  private tagRuleService: StackTagRuleService;
   private thumbnailService: StackThumbnailService;
+  private trashService: StackTrashService;
   private writerService: StackWriterService;
 
   constructor(db: DatabaseSync = getStandaloneSqlite()) {
@@ -49,16 +72,49 @@ export class StandaloneStackRepository {
     this.colorService = new StackColorService(db);
     this.favoriteService = new StackFavoriteService(db);
     this.mediaTypeService = new StackMediaTypeService(db);
-    this.metadataService = new StackMetadataService(db);
-    this.assetService = new StackAssetService(db, this.mediaTypeService, this.thumbnailService);
+    this.searchIndexService = new StackSearchIndexService(db);
+    this.tagRuleService = new StackTagRuleService(db);
+    this.metadataService = new StackMetadataService(
+      db,
+      this.searchIndexService,
+      this.tagRuleService
+    );
+    this.automationService = new StackAutomationService(
+      db,
+      this.metadataService,
+      this.favoriteService,
+      this.searchIndexService
+    );
+    this.nearDuplicateService = new StackNearDuplicateService(db);
+    this.embeddedMetadataService = new StackEmbeddedMetadataService(db, this.metadataService);
+    this.trashService = new StackTrashService(
+      db,
+      this.mediaTypeService,
+      this.thumbnailService,
+      this.searchIndexService
+    );
+    this.assetService = new StackAssetService(
+      db,
+      this.mediaTypeService,
+      this.thumbnailService,
+      this.searchIndexService,
+      this.trashService
+    );
     this.fileService = new StackFileService(
       db,
       this.colorService,
       this.mediaTypeService,
       this.metadataService,
-      this.thumbnailService
+      this.thumbnailService,
+      this.searchIndexService,
+      this.nearDuplicateService,
+      this.embeddedMetadataService,
+      this.automationService
     );
+    this.clipService = new StackClipService(db, this.fileService);
     this.previewService = new StackPreviewService(db);
+    this.sceneService = new StackSceneService(db);
+    this.readingProgressService = new StackReadingProgressService(db);
     this.queryService = new StackQueryService(
       db,
       this.assetService,
@@ -71,15 +127,25 @@ export class StandaloneStackRepository {
       this.mediaTypeService,
       this.metadataService,
       this.favoriteService,
-      this.thumbnailService
+      this.thumbnailService,
+      this.searchIndexService,
+      this.trashService
+    );
+    this.writerService = new StackWriterService(
+      db,
+      this.searchIndexService,
+      this.automationService
     );
-    this.writerService = new StackWriterService(db);
   }
 
   getPaginated(params: StandaloneStackListParams) {
     return this.queryService.getPaginated(params);
   }
 
+  countStacks(params: Omit<StandaloneStackListParams, 'limit' | 'offset'>) {
+    return this.queryService.count(params);
+  }
+
   getById(id: number, dataSetId?: number) {
     return this.queryService.getById(id, dataSetId);
   }
@@ -96,10 +162,18 @@ export class StandaloneStackRepository {
     return this.mediaTypeService.refreshDatasetActualMediaTypes(dataSetId);
   }
 
+  rebuildSearchIndex(dataSetId: number) {
+    return this.searchIndexService.rebuildDataset(dataSetId);
+  }
+
   getAssetsByStackId(stackId: number, dataSetId: number) {
     return this.assetService.getAssetsByStackId(stackId, dataSetId);
   }
 
+  getPageFiles(stackId: number) {
+    return this.assetService.getPageFiles(stackId);
+  }
+
   getOriginalAssets(dataSetId: number, options: { stackIds: number[]; assetIds: number[] }) {
     return this.assetService.getOriginalAssets(dataSetId, options);
   }
@@ -107,17 +181,58 @@ export class StandaloneStackRepository {
   getSimilarByStackIds(
     dataSetId: number,
     sourceStackIds: number[],
-    options: { limit: number; offset: number; threshold?: number }
+    options: { limit: number; offset: number; threshold?: number; mode?: SimilarMode }
   ) {
     return this.similarService.getSimilarByStackIds(dataSetId, sourceStackIds, options, (id, ds) =>
       this.getById(id, ds)
     );
   }
 
+  getNearDuplicateGroups(
+    dataSetId: number,
+    options: { threshold?: number; limit: number; offset: number }
+  ) {
+    return this.nearDuplicateService.getGroups(dataSetId, options, (id, ds) =>
+      this.getById(id, ds)
+    );
+  }
+
+  findNearDuplicatesOfAsset(assetId: number, threshold?: number) {
+    return this.nearDuplicateService.findNearDuplicatesOfAsset(assetId, threshold);
+  }
+
+  dismissNearDuplicates(dataSetId: number, stackIds: number[]) {
+    return this.nearDuplicateService.dismissGroup(dataSetId, stackIds);
+  }
+
+  getAssetIdsWithoutPerceptualHash(dataSetId: number) {
+    return this.nearDuplicateService.getAssetIdsWithoutHash(dataSetId);
+  }
+
+  async computePerceptualHash(assetId: number) {
+    return this.nearDuplicateService.computeAssetHash(assetId);
+  }
+
+  getAssetEmbeddedMetadata(assetId: number) {
+    return this.embeddedMetadataService.getAssetMetadata(assetId);
+  }
+
+  async extractStackEmbeddedMetadata(stackId: number, options: { force?: boolean } = {}) {
+    return this.embeddedMetadataService.extractStackMetadata(stackId, options);
+  }
+
   async regeneratePreviews(stackId: number, dataSetId: number, options: { force?: boolean } = {}) {
     return this.previewService.regeneratePreviews(stackId, dataSetId, options);
   }
 
+  getVideoAssetIds(dataSetId: number, stackIds?: number[]) {
+    return this.sceneService.getVideoAssetIds(dataSetId, stackIds);
+  }
+
+  async detectAssetScenes(assetId: number, options: { sensitivity?: number } = {}) {
+    return this.sceneService.detectAssetScenes(assetId, options);
+  }
+
   async createStackWithFile(input: CreateStackWithFileInput) {
     return this.fileService.createStackWithFile(input, (id, dataSetId) =>
       this.getById(id, dataSetId)
@@ -132,6 +247,20 @@ export class StandaloneStackRepository {
     return this.fileService.addAssetWithFile(stackId, file, options);
   }
 
+  /** 同じメディア URL から取り込み済みのアセット。URL 取り込みで再取得を避けるのに使う */
+  findAssetBySourceUrl(dataSetId: number, mediaUrl: string, stackId?: number) {
+    const normalized = normalizeSourceUrl(mediaUrl);
+    if (!normalized) return null;
+    const row = this.fileService.findImportedSourceUrl(dataSetId, normalized, stackId);
+    return row ? { assetId: row.id, stackId: row.stack_id } : null;
+  }
+
+  async exportClip(assetId: number, dataSetId: number, options: ExportClipOptions) {
+    return this.clipService.exportClip(assetId, dataSetId, options, (id, ds) =>
+      this.getById(id, ds)
+    );
+  }
+
   updateStack(
     stackId: number,
     dataSetId: number,
@@ -147,6 +276,22 @@ export class StandaloneStackRepository {
     );
   }
 
+  runAutomationRules(stackId: number) {
+    return this.automationService.runForStack(stackId);
+  }
+
+  previewAutomationRule(
+    dataSetId: number,
+    rule: Pick<AutomationRule, 'matchMode' | 'conditions'> & { id?: number },
+    limit: number
+  ) {
+    return this.automationService.preview(dataSetId, rule, limit);
+  }
+
+  applyAutomationRule(rule: AutomationRule) {
+    return this.automationService.applyToExisting(rule);
+  }
+
   stackBelongsToDataset(stackId: number, dataSetId: number) {
     return this.queryService.stackBelongsToDataset(stackId, dataSetId);
   }
@@ -167,6 +312,18 @@ export class StandaloneStackRepository {
     return this.favoriteService.toggleAssetFavorite(assetId, favorited);
   }
 
+  getReadingProgress(stackId: number) {
+    return this.readingProgressService.get(stackId);
+  }
+
+  saveReadingProgress(stackId: number, input: SaveReadingProgressInput) {
+    return this.readingProgressService.save(stackId, input);
+  }
+
+  clearReadingProgress(stackId: number) {
+    return this.readingProgressService.clear(stackId);
+  }
+
   likeStack(stackId: number, assetId?: number) {
     return this.favoriteService.likeStack(stackId, assetId);
   }
@@ -231,6 +388,39 @@ export class StandaloneStackRepository {
     return this.bulkService.mergeStacks(targetId, sourceIds, (id) => this.getById(id));
   }
 
+  getTrashItems(dataSetId: number) {
+    return this.trashService.list(dataSetId);
+  }
+
+  getTrashItem(id: number) {
+    return this.trashService.getById(id);
+  }
+
+  restoreTrashItem(id: number) {
+    return this.trashService.restore(id);
+  }
+
+  purgeTrashItem(id: number) {
+    return this.trashService.purge(id);
+  }
+
+  emptyTrash(dataSetId: number) {
+    return this.trashService.purgeDataset(dataSetId);
+  }
+
+  purgeExpiredTrash() {
+    return this.trashService.purgeExpired();
+  }
+
+  /** アセットの並びに合わせてスタックのサムネイルを選び直す */
+  async syncStackThumbnail(stackId: number) {
+    return this.thumbnailService.refreshStackThumbnail(stackId);
+  }
+
+  refreshSearchIndex(stackIds: number[]) {
+    return this.searchIndexService.refreshStacks(stackIds);
+  }
+
   getCollectionIdsByStackId(stackId: number) {
     return this.collectionLinkService.getCollectionIdsByStackId(stackId);
   }
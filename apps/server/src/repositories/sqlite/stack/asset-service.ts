@@ -1,10 +1,14 @@
 import type { DatabaseSync } from 'node:sqlite';
+import { extractComicArchiveOriginalsFromMeta } from '../../../utils/comicArchiveImport';
 import { extractPdfOriginalsFromMeta } from '../../../utils/pdfImport';
 import { nowIso, parseJsonObject } from '../sqlite';
-import { placeholders } from './helpers';
+import { resolveCurrentUserId } from '../user-repository';
+import { isImageFileType, placeholders } from './helpers';
 import { toAsset } from './mappers';
 import type { StackMediaTypeService } from './media-type-service';
+import type { StackSearchIndexService } from './search-index-service';
 import type { StackThumbnailService } from './thumbnail-service';
+import type { StackTrashService } from './trash-service';
 import type { AssetRow, OriginalAssetRow } from './types';
 
 type StackResolver<TStack> = (id: number) => TStack | null;
@@ -13,7 +17,9 @@ export class StackAssetService {
   constructor(
     private db: DatabaseSync,
     private mediaTypeService: StackMediaTypeService,
-    private thumbnailService: StackThumbnailService
+    private thumbnailService: StackThumbnailService,
+    private searchIndexService: StackSearchIndexService,
+    private trashService: StackTrashService
   ) {}
 
   getAssetsByStackId(stackId: number, dataSetId: number) {
@@ -24,15 +30,33 @@ export class StackAssetService {
            CASE WHEN af.id IS NULL THEN 0 ELSE 1 END AS is_favorite
          FROM assets
          JOIN stacks s ON s.id = assets.stack_id
-         LEFT JOIN asset_favorites af ON af.asset_id = assets.id
+         LEFT JOIN asset_favorites af ON af.asset_id = assets.id AND af.user_id = ?
          WHERE assets.stack_id = ? AND s.dataset_id = ?
          ORDER BY assets.order_in_stack ASC, assets.id ASC`
       )
-      .all(stackId, dataSetId) as AssetRow[];
+      .all(resolveCurrentUserId(this.db), stackId, dataSetId) as AssetRow[];
 
     return rows.map((row) => toAsset(row, dataSetId));
   }
 
+  /**
+   * 書き出し用に画像ページのファイルを並び順に返す。動画は除き、
+   * RAW や SVG のようにそのまま扱えない形式は PNG プレビューを使う
+   */
+  getPageFiles(stackId: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT file, file_type, preview
+         FROM assets
+         WHERE stack_id = ?
+         ORDER BY order_in_stack ASC, id ASC`
+      )
+      .all(stackId) as Array<{ file: string; file_type: string; preview: string | null }>;
+    return rows
+      .filter((row) => isImageFileType(row.file_type))
+      .map((row) => (row.preview && /\.png$/i.test(row.preview) ? row.preview : row.file));
+  }
+
   getOriginalAssets(dataSetId: number, options: { stackIds: number[]; assetIds: number[] }) {
     const selectedAssets =
       options.assetIds.length > 0
@@ -95,11 +119,14 @@ export class StackAssetService {
             meta_json: string | null;
           }>)
         : [];
-    const pdfsByStackId = new Map(
-      stackMetaRows.map((row) => [
-        row.id,
-        extractPdfOriginalsFromMeta(parseJsonObject(row.meta_json)),
-      ])
+    const sourceOriginalsByStackId = new Map(
+      stackMetaRows.map((row) => {
+        const meta = parseJsonObject(row.meta_json);
+        return [
+          row.id,
+          [...extractPdfOriginalsFromMeta(meta), ...extractComicArchiveOriginalsFromMeta(meta)],
+        ];
+      })
     );
 
     for (const stackId of options.stackIds) {
@@ -112,13 +139,13 @@ export class StackAssetService {
           originalName: asset.original_name,
         }))
       );
-      for (const pdf of pdfsByStackId.get(stackId) ?? []) {
+      for (const original of sourceOriginalsByStackId.get(stackId) ?? []) {
         ordered.push({
           id: -stackId,
           stackId,
-          file: pdf.file,
-          fileType: pdf.mimeType,
-          originalName: pdf.originalName,
+          file: original.file,
+          fileType: original.mimeType,
+          originalName: original.originalName,
         });
       }
     }
@@ -147,17 +174,17 @@ export class StackAssetService {
     return true;
   }
 
+  /** ゴミ箱へ移し、ゴミ箱の項目 id を返す（アセットが無ければ null） */
   deleteAsset(assetId: number) {
-    const asset = this.getAssetWithDataset(assetId);
-    if (!asset) return false;
-    this.db.prepare('DELETE FROM assets WHERE id = ?').run(assetId);
+    const trashed = this.trashService.trashAsset(assetId);
+    if (!trashed) return null;
     void this.thumbnailService
-      .refreshStackThumbnail(asset.stack_id)
+      .refreshStackThumbnail(trashed.stackId)
       .catch((error) =>
-        console.error(`Failed to refresh stack ${asset.stack_id} thumbnail`, error)
+        console.error(`Failed to refresh stack ${trashed.stackId} thumbnail`, error)
       );
-    this.mediaTypeService.refreshStackActualMediaType(asset.stack_id);
-    return true;
+    this.mediaTypeService.refreshStackActualMediaType(trashed.stackId);
+    return trashed.trashItemId;
   }
 
   separateAsset<TStack>(assetId: number, resolveStack: StackResolver<TStack>) {
@@ -233,6 +260,7 @@ export class StackAssetService {
         );
       this.mediaTypeService.refreshStackActualMediaType(asset.stack_id);
       this.mediaTypeService.refreshStackActualMediaType(newStackId);
+      this.searchIndexService.refreshStack(newStackId);
       this.db.exec('COMMIT');
       return resolveStack(newStackId);
     } catch (error) {
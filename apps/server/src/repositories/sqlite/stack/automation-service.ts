@@ -0,0 +1,372 @@
+import type { DatabaseSync } from 'node:sqlite';
+import type { z } from 'zod';
+import {
+  type AutomationAction,
+  AutomationActionSchema,
+  type AutomationCondition,
+  AutomationConditionSchema,
+  type AutomationPatternMode,
+} from '../../../models/AutomationRuleModel';
+import type { DominantColor } from '../../../utils/colorExtractor';
+import { nowIso, parseJsonObject } from '../sqlite';
+import type { StackFavoriteService } from './favorite-service';
+import { isDominantColor, parseJsonArray } from './helpers';
+import type { StackMetadataService } from './metadata-service';
+import type { StackSearchIndexService } from './search-index-service';
+
+export interface AutomationRule {
+  id: number;
+  dataSetId: number;
+  name: string;
+  matchMode: 'all' | 'any';
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  sortOrder: number;
+  enabled: boolean;
+  /** お気に入りはこのユーザーに付ける。作成者が削除されていれば null */
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AutomationRuleRow {
+  id: number;
+  dataset_id: number;
+  name: string;
+  match_mode: 'all' | 'any';
+  conditions_json: string;
+  actions_json: string;
+  sort_order: number;
+  is_enabled: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StackFactsRow {
+  id: number;
+  dataset_id: number;
+  name: string;
+  media_type: 'image' | 'comic' | 'video';
+  author_name: string | null;
+  dominant_colors_json: string | null;
+  aggregated_tags_json: string | null;
+}
+
+interface StackFacts {
+  id: number;
+  dataSetId: number;
+  name: string;
+  mediaType: 'image' | 'comic' | 'video';
+  author: string | null;
+  fileNames: string[];
+  autoTagScores: Record<string, number>;
+  dominantColors: DominantColor[];
+  sourceUrls: string[];
+}
+
+// 代表色は割合の大きい順に並んでいる。下位の色まで見ると誤判定が多い
+const DOMINANT_COLOR_CANDIDATES = 3;
+
+// 壊れた要素は読み飛ばし、ルール全体を無効にはしない
+const parseList = <T>(schema: z.ZodType<T>, value: string) =>
+  parseJsonArray(value).flatMap((item) => {
+    const result = schema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+
+export const toAutomationRule = (row: AutomationRuleRow): AutomationRule => ({
+  id: row.id,
+  dataSetId: row.dataset_id,
+  name: row.name,
+  matchMode: row.match_mode,
+  conditions: parseList(AutomationConditionSchema, row.conditions_json),
+  actions: parseList(AutomationActionSchema, row.actions_json),
+  sortOrder: row.sort_order,
+  enabled: row.is_enabled === 1,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')}$`,
+    'i'
+  );
+
+const matchesPattern = (value: string, pattern: string, mode: AutomationPatternMode) => {
+  if (mode === 'contains') return value.toLowerCase().includes(pattern.toLowerCase());
+  try {
+    return (mode === 'glob' ? globToRegExp(pattern) : new RegExp(pattern, 'i')).test(value);
+  } catch {
+    return false;
+  }
+};
+
+const toDomain = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+const matchesCondition = (condition: AutomationCondition, facts: StackFacts) => {
+  switch (condition.type) {
+    case 'autoTagScore':
+      return (facts.autoTagScores[condition.tag] ?? 0) >= condition.minScore;
+    case 'filename':
+      return facts.fileNames.some((name) =>
+        matchesPattern(name, condition.pattern, condition.mode)
+      );
+    case 'sourceUrl':
+      return facts.sourceUrls.some((url) => matchesPattern(url, condition.pattern, condition.mode));
+    case 'author': {
+      const author = facts.author?.trim() ?? '';
+      if (condition.operator === 'isEmpty') return author === '';
+      const same = author.toLowerCase() === (condition.value ?? '').trim().toLowerCase();
+      return condition.operator === 'is' ? same : !same;
+    }
+    case 'mediaType':
+      return facts.mediaType === condition.mediaType;
+    case 'dominantColor':
+      return facts.dominantColors
+        .slice(0, DOMINANT_COLOR_CANDIDATES)
+        .some(
+          (color) =>
+            color.hueCategory === condition.hueCategory &&
+            color.percentage * 100 >= condition.minPercentage
+        );
+  }
+};
+
+export const matchesAutomationRule = (
+  rule: Pick<AutomationRule, 'matchMode' | 'conditions'>,
+  facts: StackFacts
+) => {
+  if (rule.conditions.length === 0) return false;
+  return rule.matchMode === 'any'
+    ? rule.conditions.some((condition) => matchesCondition(condition, facts))
+    : rule.conditions.every((condition) => matchesCondition(condition, facts));
+};
+
+/** 新しく入ってきたスタックにデータセットの自動化ルールを当てて、該当すれば動作を実行する */
+export class StackAutomationService {
+  constructor(
+    private db: DatabaseSync,
+    private metadataService: StackMetadataService,
+    private favoriteService: StackFavoriteService,
+    private searchIndexService: StackSearchIndexService
+  ) {}
+
+  /**
+   * まだ実行していない有効なルールを順に評価する。
+   * 実行済みのルールは記録しておき、同じスタックには二度実行しない
+   */
+  runForStack(stackId: number) {
+    const facts = this.loadFacts('s.id = ?', stackId)[0];
+    if (!facts) return [];
+    const rules = this.getPendingRules(facts.dataSetId, stackId);
+    const applied: number[] = [];
+    for (const rule of rules) {
+      if (!matchesAutomationRule(rule, facts)) continue;
+      this.applyActions(rule, facts);
+      this.recordRun(rule.id, stackId);
+      applied.push(rule.id);
+      // 後のルールが前のルールの結果（作者やメディア種別）を見られるように読み直す
+      Object.assign(facts, this.loadFacts('s.id = ?', stackId)[0] ?? {});
+    }
+    return applied;
+  }
+
+  /** 既存スタックへの試し当て（何も変更しない） */
+  preview(
+    dataSetId: number,
+    rule: Pick<AutomationRule, 'matchMode' | 'conditions'> & { id?: number },
+    limit: number
+  ) {
+    const facts = this.loadFacts('s.dataset_id = ?', dataSetId);
+    const matched = facts.filter((stack) => matchesAutomationRule(rule, stack));
+    const appliedIds = rule.id ? this.getAppliedStackIds(rule.id) : new Set<number>();
+    return {
+      scanned: facts.length,
+      total: matched.length,
+      alreadyApplied: matched.filter((stack) => appliedIds.has(stack.id)).length,
+      stacks: matched.slice(0, limit).map((stack) => ({
+        id: stack.id,
+        name: stack.name,
+        applied: appliedIds.has(stack.id),
+      })),
+    };
+  }
+
+  /** 該当する既存スタックのうち、まだ実行していないものに実行する */
+  applyToExisting(rule: AutomationRule) {
+    const appliedIds = this.getAppliedStackIds(rule.id);
+    const targets = this.loadFacts('s.dataset_id = ?', rule.dataSetId).filter(
+      (stack) => !appliedIds.has(stack.id) && matchesAutomationRule(rule, stack)
+    );
+    for (const stack of targets) {
+      this.applyActions(rule, stack);
+      this.recordRun(rule.id, stack.id);
+    }
+    return { applied: targets.length, stackIds: targets.map((stack) => stack.id) };
+  }
+
+  private getPendingRules(dataSetId: number, stackId: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT r.*
+         FROM automation_rules r
+         WHERE r.dataset_id = ?
+           AND r.is_enabled = 1
+           AND NOT EXISTS (
+             SELECT 1 FROM automation_rule_runs runs
+             WHERE runs.rule_id = r.id AND runs.stack_id = ?
+           )
+         ORDER BY r.sort_order ASC, r.id ASC`
+      )
+      .all(dataSetId, stackId) as AutomationRuleRow[];
+    return rows.map(toAutomationRule);
+  }
+
+  private getAppliedStackIds(ruleId: number) {
+    const rows = this.db
+      .prepare('SELECT stack_id FROM automation_rule_runs WHERE rule_id = ?')
+      .all(ruleId) as Array<{ stack_id: number }>;
+    return new Set(rows.map((row) => row.stack_id));
+  }
+
+  private recordRun(ruleId: number, stackId: number) {
+    this.db
+      .prepare(
+        'INSERT OR IGNORE INTO automation_rule_runs (rule_id, stack_id, applied_at) VALUES (?, ?, ?)'
+      )
+      .run(ruleId, stackId, nowIso());
+  }
+
+  private loadFacts(where: string, param: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT s.id, s.dataset_id, s.name, s.media_type, s.dominant_colors_json,
+                au.name AS author_name, agg.aggregated_tags_json
+         FROM stacks s
+         LEFT JOIN authors au ON au.id = s.author_id
+         LEFT JOIN stack_auto_tag_aggregates agg ON agg.stack_id = s.id
+         WHERE ${where}
+         ORDER BY s.id DESC`
+      )
+      .all(param) as StackFactsRow[];
+    if (rows.length === 0) return [];
+
+    const fileNames = new Map<number, string[]>();
+    const sourceUrls = new Map<number, string[]>();
+    const assetRows = this.db
+      .prepare(
+        `SELECT a.stack_id, a.original_name, a.source_page_url, a.source_media_url
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE ${where}
+         ORDER BY a.order_in_stack ASC, a.id ASC`
+      )
+      .all(param) as Array<{
+      stack_id: number;
+      original_name: string;
+      source_page_url: string | null;
+      source_media_url: string | null;
+    }>;
+    for (const row of assetRows) {
+      const names = fileNames.get(row.stack_id) ?? [];
+      names.push(row.original_name);
+      fileNames.set(row.stack_id, names);
+      const urls = sourceUrls.get(row.stack_id) ?? [];
+      for (const url of [row.source_page_url, row.source_media_url]) {
+        if (url && !urls.includes(url)) urls.push(url);
+      }
+      sourceUrls.set(row.stack_id, urls);
+    }
+
+    return rows.map(
+      (row): StackFacts => ({
+        id: row.id,
+        dataSetId: row.dataset_id,
+        name: row.name,
+        mediaType: row.media_type,
+        author: row.author_name,
+        fileNames: fileNames.get(row.id) ?? [],
+        autoTagScores: Object.fromEntries(
+          Object.entries(parseJsonObject(row.aggregated_tags_json)).filter(
+            (entry): entry is [string, number] => typeof entry[1] === 'number'
+          )
+        ),
+        dominantColors: parseJsonArray(row.dominant_colors_json).filter(isDominantColor),
+        sourceUrls: sourceUrls.get(row.id) ?? [],
+      })
+    );
+  }
+
+  private applyActions(rule: AutomationRule, stack: StackFacts) {
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case 'addTag':
+          this.metadataService.addTag(stack.id, action.tag);
+          break;
+        case 'setAuthor': {
+          const domain = stack.sourceUrls.map(toDomain).find(Boolean);
+          // 取り込み元が分からないときに {domain} のまま作者にしない
+          if (action.author.includes('{domain}') && !domain) break;
+          this.metadataService.updateAuthor(
+            stack.id,
+            action.author.replaceAll('{domain}', domain ?? '')
+          );
+          break;
+        }
+        case 'setMediaType':
+          if (stack.mediaType !== action.mediaType) {
+            this.db
+              .prepare('UPDATE stacks SET media_type = ?, updated_at = ? WHERE id = ?')
+              .run(action.mediaType, nowIso(), stack.id);
+            this.searchIndexService.refreshStack(stack.id);
+          }
+          break;
+        case 'addToCollection':
+          this.addToCollection(action.collectionId, stack);
+          break;
+        case 'favorite':
+          if (rule.createdBy !== null) {
+            this.favoriteService.toggleStackFavorite(stack.id, true, rule.createdBy);
+          }
+          break;
+      }
+    }
+  }
+
+  /** 手動コレクションの末尾に追加する。別データセットやスマートコレクションは無視する */
+  private addToCollection(collectionId: number, stack: StackFacts) {
+    const collection = this.db
+      .prepare('SELECT id FROM collections WHERE id = ? AND dataset_id = ? AND type = ?')
+      .get(collectionId, stack.dataSetId, 'MANUAL');
+    if (!collection) return;
+    const existing = this.db
+      .prepare('SELECT 1 FROM collection_stacks WHERE collection_id = ? AND stack_id = ?')
+      .get(collectionId, stack.id);
+    if (existing) return;
+    const maxOrder =
+      (
+        this.db
+          .prepare(
+            'SELECT MAX(order_index) AS max_order FROM collection_stacks WHERE collection_id = ?'
+          )
+          .get(collectionId) as { max_order: number | null } | undefined
+      )?.max_order ?? 0;
+    this.db
+      .prepare(
+        'INSERT INTO collection_stacks (collection_id, stack_id, added_at, order_index) VALUES (?, ?, ?, ?)'
+      )
+      .run(collectionId, stack.id, nowIso(), maxOrder + 1);
+  }
+}
@@ -4,7 +4,9 @@ import type { StackFavoriteService } from './favorite-service';
 import { getStackDataset, placeholders } from './helpers';
 import type { StackMediaTypeService } from './media-type-service';
 import type { StackMetadataService } from './metadata-service';
+import type { StackSearchIndexService } from './search-index-service';
 import type { StackThumbnailService } from './thumbnail-service';
+import type { StackTrashService } from './trash-service';
 import type { CountRow, StackDatasetRow } from './types';
 
 type StackResolver<TStack> = (id: number) => TStack | null;
@@ -15,12 +17,14 @@ export class StackBulkService {
     private mediaTypeService: StackMediaTypeService,
     private metadataService: StackMetadataService,
     private favoriteService: StackFavoriteService,
-    private thumbnailService: StackThumbnailService
+    private thumbnailService: StackThumbnailService,
+    private searchIndexService: StackSearchIndexService,
+    private trashService: StackTrashService
   ) {}
 
+  /** ゴミ箱へ移し、ゴミ箱の項目 id を返す（スタックが無ければ null） */
   deleteStack(stackId: number) {
-    const result = this.db.prepare('DELETE FROM stacks WHERE id = ?').run(stackId);
-    return result.changes > 0;
+    return this.trashService.trashStack(stackId);
   }
 
   bulkAddTags(stackIds: number[], tags: string[]) {
@@ -102,16 +106,24 @@ export class StackBulkService {
   }
 
   bulkRemoveStacks(stackIds: number[]) {
-    let removed = 0;
+    const trashItemIds: number[] = [];
     const errors: string[] = [];
-    for (const stackId of stackIds) {
-      if (this.deleteStack(stackId)) {
-        removed++;
-      } else {
-        errors.push(`Stack ${stackId} not found`);
+    this.db.exec('BEGIN');
+    try {
+      for (const stackId of stackIds) {
+        const trashItemId = this.deleteStack(stackId);
+        if (trashItemId) {
+          trashItemIds.push(trashItemId);
+        } else {
+          errors.push(`Stack ${stackId} not found`);
+        }
       }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
     }
-    return { success: errors.length === 0, removed, errors };
+    return { success: errors.length === 0, removed: trashItemIds.length, errors, trashItemIds };
   }
 
   mergeStacks<TStack>(targetId: number, sourceIds: number[], resolveStack: StackResolver<TStack>) {
@@ -189,6 +201,7 @@ export class StackBulkService {
         .refreshStackThumbnail(targetId)
         .catch((error) => console.error(`Failed to refresh stack ${targetId} thumbnail`, error));
       this.mediaTypeService.refreshStackActualMediaType(targetId);
+      this.searchIndexService.refreshStack(targetId);
       this.db.prepare('UPDATE stacks SET updated_at = ? WHERE id = ?').run(now, targetId);
       this.db.exec('COMMIT');
       return resolveStack(targetId);
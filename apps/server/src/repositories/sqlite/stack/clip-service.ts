@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+import { ClipRangeError } from '../../../errors/ClipRangeError';
+import { DataStorage } from '../../../lib/DataStorage';
+import { probeDurationSec } from '../../../utils/ffmpeg';
+import {
+  CLIP_MIME_TYPES,
+  type ClipFormat,
+  type ClipRangeInput,
+  exportVideoClip,
+  resolveClipRange,
+} from '../../../utils/videoClip';
+import { parseJsonObject } from '../sqlite';
+import type { StackFileService } from './file-service';
+import { isVideoFileType } from './helpers';
+
+type StackResolver<TStack> = (id: number, dataSetId: number) => TStack | null;
+
+export interface ExportClipOptions extends ClipRangeInput {
+  format: ClipFormat;
+  fps?: number;
+  width?: number;
+  /** stack: 同じスタックに追加 / new-stack: 新しいスタックとして作る */
+  destination: 'stack' | 'new-stack';
+  name?: string;
+}
+
+interface ClipSourceRow {
+  id: number;
+  stack_id: number;
+  file: string;
+  file_type: string;
+  original_name: string;
+  meta_json: string | null;
+  dataset_id: number;
+  stack_name: string;
+  author_name: string | null;
+}
+
+const formatSeconds = (seconds: number) => seconds.toFixed(1).replace('.', '_');
+
+export class StackClipService {
+  constructor(
+    private db: DatabaseSync,
+    private fileService: StackFileService
+  ) {}
+
+  /**
+   * 動画アセットの範囲を書き出し、同じスタックのアセットか新しいスタックとして取り込む。
+   * 元のアセットが動画でなければ null。
+   */
+  async exportClip<TStack>(
+    assetId: number,
+    dataSetId: number,
+    options: ExportClipOptions,
+    resolveStack: StackResolver<TStack>
+  ) {
+    const source = this.db
+      .prepare(
+        `SELECT a.id, a.stack_id, a.file, a.file_type, a.original_name, a.meta_json,
+                s.dataset_id, s.name AS stack_name, au.name AS author_name
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         LEFT JOIN authors au ON au.id = s.author_id
+         WHERE a.id = ? AND s.dataset_id = ?`
+      )
+      .get(assetId, dataSetId) as ClipSourceRow | undefined;
+    if (!source || !isVideoFileType(source.file_type)) return null;
+
+    const { range, fileName, tmpPath } = await DataStorage.withReadablePath(
+      source.file,
+      async (inputPath) => {
+        const range = resolveClipRange(
+          options,
+          parseJsonObject(source.meta_json).markers,
+          probeDurationSec(inputPath)
+        );
+        if ('error' in range) throw new ClipRangeError(range.error);
+
+        const baseName = path.parse(source.original_name || `asset-${assetId}`).name;
+        const fileName = `${baseName}_${formatSeconds(range.start)}-${formatSeconds(range.end)}.${options.format}`;
+        const storageRoot = process.env.FILES_STORAGE || path.resolve('./data');
+        const tmpPath = path.join(storageRoot, 'tmp', `${Date.now()}-${fileName}`);
+        try {
+          await exportVideoClip(inputPath, tmpPath, { ...options, ...range });
+        } catch (error) {
+          fs.rmSync(tmpPath, { force: true });
+          throw error;
+        }
+        return { range, fileName, tmpPath };
+      }
+    );
+
+    try {
+      const file = {
+        path: tmpPath,
+        originalname: fileName,
+        mimetype: CLIP_MIME_TYPES[options.format],
+        size: fs.statSync(tmpPath).size,
+      };
+      const clipMeta = { sourceAssetId: assetId, start: range.start, end: range.end };
+
+      if (options.destination === 'stack') {
+        const asset = await this.fileService.addAssetWithFile(source.stack_id, file, {
+          meta: { clip: clipMeta },
+        });
+        return { stackId: source.stack_id, asset, stack: null };
+      }
+
+      const tags = this.db
+        .prepare(
+          `SELECT t.title FROM stack_tags st JOIN tags t ON t.id = st.tag_id WHERE st.stack_id = ?`
+        )
+        .all(source.stack_id) as Array<{ title: string }>;
+      const stack = await this.fileService.createStackWithFile(
+        {
+          dataSetId,
+          name: options.name?.trim() || `${source.stack_name} (${fileName})`,
+          mediaType: options.format === 'mp4' ? 'video' : 'image',
+          author: source.author_name ?? undefined,
+          tags: tags.map((tag) => tag.title),
+          file,
+        },
+        resolveStack
+      );
+      return { stackId: (stack as { id?: number } | null)?.id ?? null, asset: null, stack };
+    } finally {
+      fs.rmSync(tmpPath, { force: true });
+    }
+  }
+}
@@ -16,10 +16,14 @@ export class StackColorService {
   async extractAssetColors(fileKey: string, thumbnailKey: string, ext: string) {
     try {
       if (isImageExtension(ext)) {
-        return await ColorExtractor.extractDominantColors(DataStorage.getPath(fileKey), 3);
+        return await DataStorage.withReadablePath(fileKey, (filePath) =>
+          ColorExtractor.extractDominantColors(filePath, 3)
+        );
       }
       if (isVideoExtension(ext) && thumbnailKey) {
-        return await ColorExtractor.extractDominantColors(DataStorage.getPath(thumbnailKey), 3);
+        return await DataStorage.withReadablePath(thumbnailKey, (filePath) =>
+          ColorExtractor.extractDominantColors(filePath, 3)
+        );
       }
     } catch (error) {
       console.error('Failed to extract colors for standalone asset upload', error);
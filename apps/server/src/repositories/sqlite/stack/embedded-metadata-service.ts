@@ -0,0 +1,118 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { DataStorage } from '../../../lib/DataStorage';
+import {
+  type EmbeddedImageMetadata,
+  readEmbeddedImageMetadata,
+} from '../../../utils/imageMetadata';
+import { nowIso, parseJsonObject } from '../sqlite';
+import { isImageFileType } from './helpers';
+import type { StackMetadataService } from './metadata-service';
+
+// データセット設定（settings_json）のキー。有効なら埋め込みキーワードをタグとして付ける
+export const KEYWORD_TAGS_SETTING = 'importKeywordsAsTags';
+
+interface MetadataSourceRow {
+  id: number;
+  stack_id: number;
+  file: string;
+  file_type: string;
+  dataset_id: number;
+  settings_json: string | null;
+}
+
+interface AssetMetadataRow {
+  metadata_json: string;
+}
+
+export class StackEmbeddedMetadataService {
+  constructor(
+    private db: DatabaseSync,
+    private metadataService: StackMetadataService
+  ) {}
+
+  getAssetMetadata(assetId: number): EmbeddedImageMetadata | null {
+    const row = this.db
+      .prepare('SELECT metadata_json FROM asset_metadata WHERE asset_id = ?')
+      .get(assetId) as AssetMetadataRow | undefined;
+    return row ? (parseJsonObject(row.metadata_json) as unknown as EmbeddedImageMetadata) : null;
+  }
+
+  /**
+   * アセットのファイルから埋め込みメタデータを読み直して保存する。
+   * データセットで有効になっていれば、キーワードをスタックのタグにも追加する。
+   */
+  async extractAssetMetadata(assetId: number) {
+    const row = this.db
+      .prepare(
+        `SELECT a.id, a.stack_id, a.file, a.file_type, s.dataset_id, d.settings_json
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         JOIN datasets d ON d.id = s.dataset_id
+         WHERE a.id = ?`
+      )
+      .get(assetId) as MetadataSourceRow | undefined;
+    if (!row || !isImageFileType(row.file_type)) return null;
+
+    const metadata = await DataStorage.withReadablePath(row.file, (filePath) =>
+      readEmbeddedImageMetadata(filePath)
+    );
+    if (!metadata) {
+      this.db.prepare('DELETE FROM asset_metadata WHERE asset_id = ?').run(assetId);
+      return null;
+    }
+
+    const now = nowIso();
+    this.db
+      .prepare(
+        `INSERT INTO asset_metadata
+           (asset_id, captured_at, camera_make, camera_model, keywords_json, prompt, metadata_json, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(asset_id) DO UPDATE SET
+           captured_at = excluded.captured_at,
+           camera_make = excluded.camera_make,
+           camera_model = excluded.camera_model,
+           keywords_json = excluded.keywords_json,
+           prompt = excluded.prompt,
+           metadata_json = excluded.metadata_json,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        assetId,
+        metadata.capturedAt,
+        metadata.cameraMake,
+        metadata.cameraModel,
+        JSON.stringify(metadata.keywords),
+        metadata.prompt,
+        JSON.stringify(metadata),
+        now,
+        now
+      );
+
+    if (parseJsonObject(row.settings_json)[KEYWORD_TAGS_SETTING] === true) {
+      for (const keyword of metadata.keywords) {
+        this.metadataService.addTag(row.stack_id, keyword);
+      }
+    }
+    return metadata;
+  }
+
+  /** 再生成ジョブ用。force でなければ未抽出の画像アセットだけを対象にする */
+  async extractStackMetadata(stackId: number, options: { force?: boolean } = {}) {
+    const rows = this.db
+      .prepare(
+        `SELECT a.id, a.file_type
+         FROM assets a
+         LEFT JOIN asset_metadata m ON m.asset_id = a.id
+         WHERE a.stack_id = ? ${options.force ? '' : 'AND m.asset_id IS NULL'}
+         ORDER BY a.order_in_stack ASC, a.id ASC`
+      )
+      .all(stackId) as Array<{ id: number; file_type: string }>;
+    const assetIds = rows.filter((row) => isImageFileType(row.file_type)).map((row) => row.id);
+
+    let extracted = 0;
+    for (const assetId of assetIds) {
+      if (await this.extractAssetMetadata(assetId)) extracted++;
+    }
+    return { eligible: assetIds.length, extracted };
+  }
+}
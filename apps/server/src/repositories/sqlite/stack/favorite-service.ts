@@ -1,15 +1,19 @@
 import type { DatabaseSync } from 'node:sqlite';
 import { toPublicAssetPath } from '../../../utils/assetPath';
 import { nowIso } from '../sqlite';
-import { getStackDataset } from './helpers';
+import { resolveCurrentUserId } from '../user-repository';
+import { getStackDataset, userLikeCountSql } from './helpers';
 import type { StackMediaType } from './types';
 
 export class StackFavoriteService {
   constructor(private db: DatabaseSync) {}
 
-  toggleStackFavorite(stackId: number, favorited: boolean) {
+  toggleStackFavorite(
+    stackId: number,
+    favorited: boolean,
+    userId: number = resolveCurrentUserId(this.db)
+  ) {
     if (!this.stackExists(stackId)) return false;
-    const userId = this.ensureUserId();
     if (favorited) {
       this.db
         .prepare(
@@ -26,7 +30,7 @@ export class StackFavoriteService {
 
   toggleAssetFavorite(assetId: number, favorited: boolean) {
     if (!this.getAssetWithDataset(assetId)) return false;
-    const userId = this.ensureUserId();
+    const userId = resolveCurrentUserId(this.db);
     if (favorited) {
       this.db
         .prepare(
@@ -44,7 +48,7 @@ export class StackFavoriteService {
   likeStack(stackId: number, assetId?: number) {
     const stack = getStackDataset(this.db, stackId);
     if (!stack) return null;
-    const userId = this.ensureUserId();
+    const userId = resolveCurrentUserId(this.db);
     const now = nowIso();
     this.db.exec('BEGIN');
     try {
@@ -60,7 +64,7 @@ export class StackFavoriteService {
       throw error;
     }
     const liked = (
-      this.db.prepare('SELECT liked FROM stacks WHERE id = ?').get(stackId) as
+      this.db.prepare(`SELECT ${userLikeCountSql('?', '?')} AS liked`).get(stackId, userId) as
         | { liked: number }
         | undefined
     )?.liked;
@@ -76,7 +80,7 @@ export class StackFavoriteService {
   }
 
   getFavoriteItems(dataSetId: number, limit: number, offset: number) {
-    const userId = this.ensureUserId();
+    const userId = resolveCurrentUserId(this.db);
     const stackRows = this.db
       .prepare(
         `SELECT
@@ -87,7 +91,7 @@ export class StackFavoriteService {
            s.thumbnail,
            s.media_type,
            s.actual_media_type,
-           s.liked,
+           ${userLikeCountSql('sf.user_id')} AS liked,
            s.created_at,
            s.updated_at,
            COUNT(a.id) AS asset_count,
@@ -129,7 +133,7 @@ export class StackFavoriteService {
            s.name,
            s.media_type,
            s.actual_media_type,
-           s.liked,
+           ${userLikeCountSql('af.user_id')} AS liked,
            s.created_at,
            s.updated_at,
            COUNT(all_assets.id) AS asset_count,
@@ -218,19 +222,6 @@ export class StackFavoriteService {
     };
   }
 
-  private ensureUserId() {
-    const existing = this.db.prepare('SELECT id FROM users ORDER BY id ASC LIMIT 1').get() as
-      | { id: number }
-      | undefined;
-    if (existing) return existing.id;
-
-    const now = nowIso();
-    const result = this.db
-      .prepare('INSERT INTO users (name, role, created_at, updated_at) VALUES (?, ?, ?, ?)')
-      .run('Standalone User', 'super', now, now);
-    return Number(result.lastInsertRowid);
-  }
-
   private stackExists(stackId: number) {
     return Boolean(this.db.prepare('SELECT id FROM stacks WHERE id = ?').get(stackId));
   }
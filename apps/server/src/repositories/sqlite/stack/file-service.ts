@@ -5,27 +5,39 @@ import { DuplicateAssetError } from '../../../errors/DuplicateAssetError';
 import { DataStorage } from '../../../lib/DataStorage';
 import { readAssetDimensions } from '../../../utils/assetDimensions';
 import { buildAssetKey } from '../../../utils/assetPath';
+import {
+  appendComicArchiveOriginalMeta,
+  type ComicArchiveInfo,
+  isComicArchiveFileInput,
+  prepareComicArchiveImport,
+} from '../../../utils/comicArchiveImport';
 import { getExtension, getFileType, getHash } from '../../../utils/functions';
 import { generateMediaPreview } from '../../../utils/generateMediaPreview';
 import { generateThumbnail } from '../../../utils/generateThumbnail';
 import { appendPdfOriginalMeta, isPdfFileInput, preparePdfImport } from '../../../utils/pdfImport';
 import { nowIso, parseJsonObject } from '../sqlite';
+import type { StackAutomationService } from './automation-service';
 import type { StackColorService } from './color-service';
+import type { StackEmbeddedMetadataService } from './embedded-metadata-service';
 import {
   canonicalizeExtension,
   getStackDataset,
   isImageExtension,
   isVideoExtension,
+  normalizeAssetSource,
   placeholders,
   toColorJson,
 } from './helpers';
 import { toAsset } from './mappers';
 import type { StackMediaTypeService } from './media-type-service';
 import type { StackMetadataService } from './metadata-service';
+import type { StackNearDuplicateService } from './near-duplicate-service';
+import type { StackSearchIndexService } from './search-index-service';
 import type { StackThumbnailService } from './thumbnail-service';
 import type {
   AddAssetWithFileOptions,
   AssetRow,
+  AssetSourceInput,
   CountRow,
   CreateStackWithFileInput,
   DuplicateAssetRow,
@@ -40,7 +52,11 @@ export class StackFileService {
     private colorService: StackColorService,
     private mediaTypeService: StackMediaTypeService,
     private metadataService: StackMetadataService,
-    private thumbnailService: StackThumbnailService
+    private thumbnailService: StackThumbnailService,
+    private searchIndexService: StackSearchIndexService,
+    private nearDuplicateService: StackNearDuplicateService,
+    private embeddedMetadataService: StackEmbeddedMetadataService,
+    private automationService: StackAutomationService
   ) {}
 
   async createStackWithFile<TStack>(
@@ -61,7 +77,7 @@ export class StackFileService {
     const stackId = Number(result.lastInsertRowid);
 
     try {
-      const asset = await this.addAssetWithFile(stackId, input.file);
+      const asset = await this.addAssetWithFile(stackId, input.file, { source: input.source });
       if (!asset) {
         this.deleteStack(stackId);
         return null;
@@ -71,6 +87,9 @@ export class StackFileService {
         if (trimmed) this.metadataService.addTag(stackId, trimmed);
       }
       this.colorService.refreshStackColors(stackId);
+      this.searchIndexService.refreshStack(stackId);
+      // 代表色を出した後で評価する。自動タグのスコアは推論後にもう一度評価される
+      this.automationService.runForStack(stackId);
       return resolveStack(stackId, input.dataSetId);
     } catch (error) {
       this.deleteStack(stackId);
@@ -86,8 +105,19 @@ export class StackFileService {
     const stack = getStackDataset(this.db, stackId);
     if (!stack) return null;
 
+    const source = normalizeAssetSource(options.source);
+    if (!options.allowDuplicate && source?.mediaUrl) {
+      const existing = this.findImportedSourceUrl(stack.dataset_id, source.mediaUrl, stackId);
+      if (existing) {
+        this.rejectDuplicateFile(file.path, existing, stackId);
+      }
+    }
+
     if (!options.allowDuplicate && (await isPdfFileInput(file))) {
-      return this.addPdfWithFile(stackId, file, stack.dataset_id);
+      return this.addPdfWithFile(stackId, file, stack.dataset_id, source);
+    }
+    if (!options.allowDuplicate && isComicArchiveFileInput(file)) {
+      return this.addComicArchiveWithFile(stackId, file, stack.dataset_id, source);
     }
 
     const hash = await getHash(file.path);
@@ -112,6 +142,7 @@ export class StackFileService {
     const key = buildAssetKey(stack.dataset_id, options.storageHash ?? hash, ext);
     await DataStorage.mkdir(path.dirname(key), stack.dataset_id);
     DataStorage.move(key, file.path, stack.dataset_id);
+    DataStorage.seal(key);
 
     let thumbnailKey = '';
     try {
@@ -141,8 +172,9 @@ export class StackFileService {
     const created = this.db
       .prepare(
         `INSERT INTO assets
-           (stack_id, file, thumbnail, preview, file_type, original_name, hash, width, height, order_in_stack, meta_json, dominant_colors_json, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+           (stack_id, file, thumbnail, preview, file_type, original_name, hash, width, height, order_in_stack, meta_json, dominant_colors_json,
+            source_page_url, source_media_url, source_referrer, import_channel, imported_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
       .run(
         stackId,
@@ -157,10 +189,25 @@ export class StackFileService {
         nextOrder + 1,
         JSON.stringify(options.meta ?? {}),
         toColorJson(dominantColors),
+        source?.pageUrl ?? null,
+        source?.mediaUrl ?? null,
+        source?.referrer ?? null,
+        source?.channel ?? null,
+        source ? now : null,
         now,
         now
       );
     const assetId = Number(created.lastInsertRowid);
+    try {
+      await this.nearDuplicateService.computeAssetHash(assetId);
+    } catch (error) {
+      console.error('Failed to compute perceptual hash for standalone asset upload', error);
+    }
+    try {
+      await this.embeddedMetadataService.extractAssetMetadata(assetId);
+    } catch (error) {
+      console.error('Failed to extract embedded metadata for standalone asset upload', error);
+    }
     this.colorService.replaceAssetColors(assetId, dominantColors);
     this.mediaTypeService.refreshStackActualMediaType(stackId);
 
@@ -186,9 +233,14 @@ export class StackFileService {
     return row ? toAsset(row, stack.dataset_id) : null;
   }
 
-  private async addPdfWithFile(stackId: number, file: StandaloneFileInput, dataSetId: number) {
+  private async addPdfWithFile(
+    stackId: number,
+    file: StandaloneFileInput,
+    dataSetId: number,
+    source: AssetSourceInput | undefined
+  ) {
     const sourceHash = await getHash(file.path);
-    const existing = this.findPdfSourceDuplicate(dataSetId, sourceHash, stackId);
+    const existing = this.findSourceDuplicate(dataSetId, '$.sourcePdfHash', sourceHash, stackId);
     if (existing) {
       this.rejectDuplicateFile(file.path, existing, stackId);
     }
@@ -208,6 +260,7 @@ export class StackFileService {
             sourcePdfPage: page.pageNumber,
             rasterDpi: preparedPdf.original.rasterDpi,
           },
+          source,
         });
         if (asset) {
           createdAssetIds.push(Number(asset.id));
@@ -244,13 +297,120 @@ export class StackFileService {
     }
   }
 
+  private async addComicArchiveWithFile(
+    stackId: number,
+    file: StandaloneFileInput,
+    dataSetId: number,
+    source: AssetSourceInput | undefined
+  ) {
+    const sourceHash = await getHash(file.path);
+    const existing = this.findSourceDuplicate(
+      dataSetId,
+      '$.sourceArchiveHash',
+      sourceHash,
+      stackId
+    );
+    if (existing) {
+      this.rejectDuplicateFile(file.path, existing, stackId);
+    }
+
+    const { count: existingAssetCount } = this.db
+      .prepare('SELECT COUNT(*) AS count FROM assets WHERE stack_id = ?')
+      .get(stackId) as CountRow;
+    const prepared = await prepareComicArchiveImport(file, dataSetId, { sourceHash });
+    const createdAssetIds: number[] = [];
+    let firstAsset: ReturnType<typeof toAsset> | null = null;
+
+    try {
+      for (const page of prepared.pages) {
+        const asset = await this.addAssetWithFile(stackId, page, {
+          allowDuplicate: true,
+          storageHash: page.storageHash,
+          meta: {
+            sourceArchiveHash: prepared.original.hash,
+            sourceArchiveImportId: prepared.original.importId,
+            sourceArchivePage: page.pageNumber,
+          },
+          source,
+        });
+        if (asset) {
+          createdAssetIds.push(Number(asset.id));
+          if (!firstAsset) firstAsset = asset;
+        }
+      }
+
+      const stack = this.db
+        .prepare('SELECT name, author_id, meta_json FROM stacks WHERE id = ? AND dataset_id = ?')
+        .get(stackId, dataSetId) as
+        | { name: string; author_id: number | null; meta_json: string | null }
+        | undefined;
+      const nextMeta = appendComicArchiveOriginalMeta(
+        parseJsonObject(stack?.meta_json),
+        prepared.original
+      );
+      // 空のスタックに取り込んだときだけ ComicInfo の内容をスタックへ反映する
+      if (stack && existingAssetCount === 0) {
+        this.applyComicArchiveInfo(stackId, stack, file.originalname, prepared.info, nextMeta);
+      }
+      this.db
+        .prepare('UPDATE stacks SET meta_json = ?, updated_at = ? WHERE id = ?')
+        .run(JSON.stringify(nextMeta), nowIso(), stackId);
+      await this.thumbnailService.refreshStackThumbnail(stackId);
+      this.mediaTypeService.refreshStackActualMediaType(stackId);
+      this.colorService.refreshStackColors(stackId);
+      return firstAsset;
+    } catch (error) {
+      if (createdAssetIds.length > 0) {
+        this.db
+          .prepare(`DELETE FROM assets WHERE id IN (${placeholders(createdAssetIds)})`)
+          .run(...createdAssetIds);
+        await this.thumbnailService.refreshStackThumbnail(stackId);
+        this.mediaTypeService.refreshStackActualMediaType(stackId);
+        this.colorService.refreshStackColors(stackId);
+      }
+      throw error;
+    } finally {
+      prepared.cleanup();
+    }
+  }
+
+  private applyComicArchiveInfo(
+    stackId: number,
+    stack: { name: string; author_id: number | null },
+    uploadName: string,
+    info: ComicArchiveInfo,
+    meta: Record<string, unknown>
+  ) {
+    // 名前を指定せずにアップロードした場合はファイル名が入っている
+    if (info.title && stack.name === uploadName) {
+      this.db.prepare('UPDATE stacks SET name = ? WHERE id = ?').run(info.title, stackId);
+      this.searchIndexService.refreshStack(stackId);
+    }
+    if (info.author && stack.author_id === null) {
+      this.metadataService.updateAuthor(stackId, info.author);
+    }
+    for (const tag of info.tags) {
+      this.metadataService.addTag(stackId, tag);
+    }
+    if (info.openingDirection) {
+      const reading =
+        meta.reading && typeof meta.reading === 'object'
+          ? (meta.reading as Record<string, unknown>)
+          : {};
+      if (!reading.openingDirection) {
+        meta.reading = { ...reading, openingDirection: info.openingDirection };
+      }
+    }
+  }
+
   private deleteStack(stackId: number) {
     const result = this.db.prepare('DELETE FROM stacks WHERE id = ?').run(stackId);
     return result.changes > 0;
   }
 
-  private findPdfSourceDuplicate(
+  private findSourceDuplicate(
     dataSetId: number,
+    hashPath: '$.sourcePdfHash' | '$.sourceArchiveHash',
     sourceHash: string,
     stackId: number
   ): DuplicateAssetRow | undefined {
@@ -262,7 +422,7 @@ export class StackFileService {
          WHERE s.dataset_id = ?
            AND json_extract(
              CASE WHEN json_valid(a.meta_json) THEN a.meta_json ELSE '{}' END,
-             '$.sourcePdfHash'
+             '${hashPath}'
            ) = ?
          ORDER BY CASE WHEN a.stack_id = ? THEN 0 ELSE 1 END, a.id ASC
          LIMIT 1`
@@ -270,6 +430,24 @@ export class StackFileService {
       .get(dataSetId, sourceHash, stackId) as DuplicateAssetRow | undefined;
   }
 
+  /** 同じメディア URL から取り込んだアセット。同じスタックのものを優先する */
+  findImportedSourceUrl(
+    dataSetId: number,
+    mediaUrl: string,
+    stackId = 0
+  ): DuplicateAssetRow | undefined {
+    return this.db
+      .prepare(
+        `SELECT a.id, a.stack_id
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE s.dataset_id = ? AND a.source_media_url = ?
+         ORDER BY CASE WHEN a.stack_id = ? THEN 0 ELSE 1 END, a.id ASC
+         LIMIT 1`
+      )
+      .get(dataSetId, mediaUrl, stackId) as DuplicateAssetRow | undefined;
+  }
+
   private rejectDuplicateFile(
     filePath: string,
     existing: DuplicateAssetRow,
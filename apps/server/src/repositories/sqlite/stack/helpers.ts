@@ -1,6 +1,6 @@
 import type { DatabaseSync } from 'node:sqlite';
 import type { DominantColor } from '../../../utils/colorExtractor';
-import type { AutoTagEntry, StackDatasetRow, StackMediaType } from './types';
+import type { AssetSourceInput, AutoTagEntry, StackDatasetRow, StackMediaType } from './types';
 
 export const DEFAULT_AUTO_STOP_TAGS = [
   '1girl',
@@ -28,6 +28,9 @@ export const SIMILAR_CONFIG = {
   manualWeight: 1.2,
   manualWeightMultiplierOnIdf: 1.0,
   minIdf: 0.05,
+  // hybrid モードでの画像埋め込みの重み（残りがタグスコア）
+  visualWeight: 0.6,
+  visualMinScore: 0.5,
 };
 
 const IMAGE_EXTENSIONS = new Set([
@@ -80,6 +83,29 @@ export const placeholders = (values: unknown[]) => values.map(() => '?').join(',
 export const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
 export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
 
+/** 取り込み元 URL を比較できる形にする。# 以降はページ内の位置なので落とす */
+export const normalizeSourceUrl = (value: string | null | undefined) => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(trimmed);
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return trimmed;
+  }
+};
+
+export const normalizeAssetSource = (
+  source: AssetSourceInput | undefined
+): AssetSourceInput | undefined =>
+  source && {
+    channel: source.channel,
+    pageUrl: normalizeSourceUrl(source.pageUrl),
+    mediaUrl: normalizeSourceUrl(source.mediaUrl),
+    referrer: normalizeSourceUrl(source.referrer),
+  };
+
 const normalizeExtension = (ext: string) => ext.replace(/^\./, '').toLowerCase();
 
 export const canonicalizeExtension = (ext: string) => {
@@ -141,6 +167,10 @@ export const isDominantColor = (value: unknown): value is DominantColor => {
   );
 };
 
+/** stacks.liked は全ユーザーの合計なので、表示や絞り込みにはユーザーごとの件数を使う */
+export const userLikeCountSql = (userIdSql: string, stackIdSql = 's.id') =>
+  `(SELECT COUNT(*) FROM like_activities la WHERE la.stack_id = ${stackIdSql} AND la.user_id = ${userIdSql})`;
+
 export const getStackDataset = (db: DatabaseSync, stackId: number) =>
   db.prepare('SELECT id, dataset_id FROM stacks WHERE id = ?').get(stackId) as
     | StackDatasetRow
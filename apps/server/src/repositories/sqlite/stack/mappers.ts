@@ -3,6 +3,18 @@ import { parseJsonObject } from '../sqlite';
 import { parseJsonArray } from './helpers';
 import type { AssetRow } from './types';
 
+// 取り込み元を記録する前のアセットは null
+const toAssetSource = (row: AssetRow) =>
+  row.import_channel || row.source_page_url || row.source_media_url
+    ? {
+        channel: row.import_channel ?? null,
+        pageUrl: row.source_page_url ?? null,
+        mediaUrl: row.source_media_url ?? null,
+        referrer: row.source_referrer ?? null,
+        importedAt: row.imported_at ?? null,
+      }
+    : null;
+
 export const toAsset = (row: AssetRow, dataSetId: number) => ({
   id: row.id,
   stackId: row.stack_id,
@@ -18,6 +30,7 @@ export const toAsset = (row: AssetRow, dataSetId: number) => ({
   orderInStack: row.order_in_stack,
   meta: parseJsonObject(row.meta_json),
   dominantColors: parseJsonArray(row.dominant_colors_json),
+  source: toAssetSource(row),
   createdAt: row.created_at,
   updatedAt: row.updated_at,
   favorited: row.is_favorite === 1,
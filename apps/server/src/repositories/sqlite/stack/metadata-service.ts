@@ -1,30 +1,29 @@
 import type { DatabaseSync } from 'node:sqlite';
 import { nowIso } from '../sqlite';
 import { getStackDataset } from './helpers';
+import type { StackSearchIndexService } from './search-index-service';
+import type { StackTagRuleService } from './tag-rule-service';
 import type { AuthorLinkRow, TagRow } from './types';
 
 export class StackMetadataService {
-  constructor(private db: DatabaseSync) {}
+  constructor(
+    private db: DatabaseSync,
+    private searchIndexService: StackSearchIndexService,
+    private tagRuleService: StackTagRuleService
+  ) {}
 
   addTag(stackId: number, tagTitle: string) {
     const stack = getStackDataset(this.db, stackId);
     if (!stack) return null;
     const now = nowIso();
-    const existing = this.db
-      .prepare('SELECT id FROM tags WHERE dataset_id = ? AND title = ? COLLATE NOCASE')
-      .get(stack.dataset_id, tagTitle) as { id: number } | undefined;
-    const tagId =
-      existing?.id ??
-      Number(
-        this.db
-          .prepare('INSERT INTO tags (dataset_id, title) VALUES (?, ?)')
-          .run(stack.dataset_id, tagTitle).lastInsertRowid
-      );
+    const tag = this.tagRuleService.findOrCreateTag(stack.dataset_id, tagTitle);
     this.db
       .prepare('INSERT OR IGNORE INTO stack_tags (stack_id, tag_id) VALUES (?, ?)')
-      .run(stackId, tagId);
+      .run(stackId, tag.id);
+    this.tagRuleService.applyImplications([stackId]);
     this.db.prepare('UPDATE stacks SET updated_at = ? WHERE id = ?').run(now, stackId);
-    return { success: true, tag: tagTitle };
+    this.searchIndexService.refreshStack(stackId);
+    return { success: true, tag: tag.title };
   }
 
   removeTag(stackId: number, tagTitle: string) {
@@ -39,6 +38,7 @@ export class StackMetadataService {
       )
       .run(stackId, stack.dataset_id, tagTitle);
     this.db.prepare('UPDATE stacks SET updated_at = ? WHERE id = ?').run(nowIso(), stackId);
+    this.searchIndexService.refreshStack(stackId);
     return { success: true };
   }
 
@@ -49,6 +49,7 @@ export class StackMetadataService {
       this.db
         .prepare('UPDATE stacks SET author_id = NULL, updated_at = ? WHERE id = ?')
         .run(nowIso(), stackId);
+      this.searchIndexService.refreshStack(stackId);
       return { success: true, author: null };
     }
 
@@ -56,6 +57,7 @@ export class StackMetadataService {
     this.db
       .prepare('UPDATE stacks SET author_id = ?, updated_at = ? WHERE id = ?')
       .run(authorId, nowIso(), stackId);
+    this.searchIndexService.refreshStack(stackId);
     return { success: true, author: name };
   }
 
@@ -0,0 +1,287 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { DataStorage } from '../../../lib/DataStorage';
+import {
+  computeDifferenceHash,
+  hammingDistance,
+  type ParsedHash,
+  parseHash,
+} from '../../../utils/perceptualHash';
+import { nowIso } from '../sqlite';
+import { isImageExtension, isVideoExtension, placeholders } from './helpers';
+
+type StackResolver<TStack> = (id: number, dataSetId: number) => TStack | null;
+
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 6;
+
+export interface NearDuplicateMatch {
+  assetId: number;
+  stackId: number;
+  distance: number;
+}
+
+interface HashedAssetRow {
+  id: number;
+  stack_id: number;
+  phash: string;
+}
+
+interface HashSourceRow {
+  id: number;
+  file: string;
+  thumbnail: string;
+  file_type: string;
+}
+
+interface HashedAsset extends ParsedHash {
+  assetId: number;
+  stackId: number;
+}
+
+interface HashTreeNode {
+  item: HashedAsset;
+  children: Map<number, HashTreeNode>;
+}
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+/** ハミング距離で半径検索するための BK-tree */
+class HashTree {
+  private root: HashTreeNode | null = null;
+
+  add(item: HashedAsset) {
+    if (!this.root) {
+      this.root = { item, children: new Map() };
+      return;
+    }
+    let node = this.root;
+    for (;;) {
+      const distance = hammingDistance(node.item, item);
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { item, children: new Map() });
+        return;
+      }
+      node = child;
+    }
+  }
+
+  search(target: ParsedHash, radius: number) {
+    const matches: Array<{ item: HashedAsset; distance: number }> = [];
+    const pending = this.root ? [this.root] : [];
+    while (pending.length > 0) {
+      const node = pending.pop();
+      if (!node) break;
+      const distance = hammingDistance(node.item, target);
+      if (distance <= radius) matches.push({ item: node.item, distance });
+      for (const [edge, child] of node.children) {
+        if (edge >= distance - radius && edge <= distance + radius) pending.push(child);
+      }
+    }
+    return matches;
+  }
+}
+
+export class StackNearDuplicateService {
+  constructor(private db: DatabaseSync) {}
+
+  /**
+   * 画像は原本、動画はサムネイルから dHash を計算して保存する。
+   * 計算できないアセットは空文字を保存し、未計算（NULL）と区別する。
+   */
+  async computeAssetHash(assetId: number) {
+    const row = this.db
+      .prepare('SELECT id, file, thumbnail, file_type FROM assets WHERE id = ?')
+      .get(assetId) as HashSourceRow | undefined;
+    if (!row) return null;
+
+    let sourceKey: string | null = null;
+    if (isImageExtension(row.file_type)) sourceKey = row.file;
+    else if (isVideoExtension(row.file_type) && row.thumbnail) sourceKey = row.thumbnail;
+
+    let phash = '';
+    try {
+      if (sourceKey) {
+        phash = await DataStorage.withReadablePath(sourceKey, (filePath) =>
+          computeDifferenceHash(filePath)
+        );
+      }
+    } finally {
+      this.db.prepare('UPDATE assets SET phash = ? WHERE id = ?').run(phash, assetId);
+    }
+    return phash || null;
+  }
+
+  getAssetIdsWithoutHash(dataSetId: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT a.id
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE s.dataset_id = ? AND a.phash IS NULL
+         ORDER BY a.id ASC`
+      )
+      .all(dataSetId) as Array<{ id: number }>;
+    return rows.map((row) => row.id);
+  }
+
+  /** 同じライブラリの別スタックにある近似画像を距離の近い順に返す */
+  findNearDuplicatesOfAsset(
+    assetId: number,
+    threshold = DEFAULT_NEAR_DUPLICATE_THRESHOLD
+  ): NearDuplicateMatch[] {
+    const source = this.db
+      .prepare(
+        `SELECT a.id, a.stack_id, a.phash, s.dataset_id
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE a.id = ?`
+      )
+      .get(assetId) as (HashedAssetRow & { phash: string | null; dataset_id: number }) | undefined;
+    if (!source?.phash) return [];
+
+    const target = parseHash(source.phash);
+    const bestByStack = new Map<number, NearDuplicateMatch>();
+    for (const row of this.getHashedAssets(source.dataset_id)) {
+      if (row.stack_id === source.stack_id) continue;
+      const distance = hammingDistance(target, parseHash(row.phash));
+      if (distance > threshold) continue;
+      const current = bestByStack.get(row.stack_id);
+      if (!current || distance < current.distance) {
+        bestByStack.set(row.stack_id, { assetId: row.id, stackId: row.stack_id, distance });
+      }
+    }
+    return Array.from(bestByStack.values()).sort(
+      (a, b) => a.distance - b.distance || a.stackId - b.stackId
+    );
+  }
+
+  /**
+   * 近似画像を含むスタック同士をまとめたグループを返す。
+   * 「残す」で確認済みになったスタックの組み合わせは除外する。
+   */
+  getGroups<TStack>(
+    dataSetId: number,
+    options: { threshold?: number; limit: number; offset: number },
+    resolveStack: StackResolver<TStack>
+  ) {
+    const threshold = options.threshold ?? DEFAULT_NEAR_DUPLICATE_THRESHOLD;
+    const dismissed = this.getDismissedPairs(dataSetId);
+    const assets: HashedAsset[] = this.getHashedAssets(dataSetId).map((row) => ({
+      assetId: row.id,
+      stackId: row.stack_id,
+      ...parseHash(row.phash),
+    }));
+
+    const parent = new Map<number, number>();
+    const find = (id: number): number => {
+      let root = id;
+      while (parent.get(root) !== undefined && parent.get(root) !== root) {
+        root = parent.get(root) as number;
+      }
+      parent.set(id, root);
+      return root;
+    };
+    const bestDistance = new Map<number, number>();
+
+    const tree = new HashTree();
+    for (const asset of assets) {
+      for (const match of tree.search(asset, threshold)) {
+        const other = match.item.stackId;
+        if (other === asset.stackId || dismissed.has(pairKey(other, asset.stackId))) continue;
+        if (!parent.has(asset.stackId)) parent.set(asset.stackId, asset.stackId);
+        if (!parent.has(other)) parent.set(other, other);
+        parent.set(find(asset.stackId), find(other));
+        for (const stackId of [asset.stackId, other]) {
+          bestDistance.set(stackId, Math.min(bestDistance.get(stackId) ?? 64, match.distance));
+        }
+      }
+      tree.add(asset);
+    }
+
+    const groupsByRoot = new Map<number, number[]>();
+    for (const stackId of parent.keys()) {
+      const root = find(stackId);
+      const members = groupsByRoot.get(root) ?? [];
+      members.push(stackId);
+      groupsByRoot.set(root, members);
+    }
+
+    const groups = Array.from(groupsByRoot.values())
+      .map((stackIds) => ({
+        stackIds: stackIds.sort((a, b) => a - b),
+        distance: Math.min(...stackIds.map((id) => bestDistance.get(id) ?? 64)),
+      }))
+      .sort((a, b) => a.distance - b.distance || b.stackIds[0] - a.stackIds[0]);
+    const paged = groups.slice(options.offset, options.offset + options.limit);
+
+    return {
+      groups: paged.map((group) => ({
+        distance: group.distance,
+        stacks: group.stackIds
+          .map((id) => resolveStack(id, dataSetId))
+          .filter((stack): stack is TStack => stack !== null),
+      })),
+      total: groups.length,
+      limit: options.limit,
+      offset: options.offset,
+      threshold,
+      unhashedAssets: this.countAssetsWithoutHash(dataSetId),
+    };
+  }
+
+  /** グループ内のスタックをお互いに重複ではないものとして記録する */
+  dismissGroup(dataSetId: number, stackIds: number[]) {
+    const uniqueIds = Array.from(new Set(stackIds));
+    if (uniqueIds.length < 2) return 0;
+    const rows = this.db
+      .prepare(
+        `SELECT id FROM stacks WHERE dataset_id = ? AND id IN (${placeholders(uniqueIds)})
+         ORDER BY id ASC`
+      )
+      .all(dataSetId, ...uniqueIds) as Array<{ id: number }>;
+    const ids = rows.map((row) => row.id);
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO near_duplicate_dismissals (dataset_id, stack_id_a, stack_id_b, created_at)
+       VALUES (?, ?, ?, ?)`
+    );
+    const now = nowIso();
+    let dismissed = 0;
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        dismissed += Number(insert.run(dataSetId, ids[i], ids[j], now).changes);
+      }
+    }
+    return dismissed;
+  }
+
+  private getHashedAssets(dataSetId: number) {
+    return this.db
+      .prepare(
+        `SELECT a.id, a.stack_id, a.phash
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE s.dataset_id = ? AND a.phash IS NOT NULL AND a.phash <> ''
+         ORDER BY a.id ASC`
+      )
+      .all(dataSetId) as HashedAssetRow[];
+  }
+
+  private countAssetsWithoutHash(dataSetId: number) {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE s.dataset_id = ? AND a.phash IS NULL`
+      )
+      .get(dataSetId) as { count: number } | undefined;
+    return row?.count ?? 0;
+  }
+
+  private getDismissedPairs(dataSetId: number) {
+    const rows = this.db
+      .prepare('SELECT stack_id_a, stack_id_b FROM near_duplicate_dismissals WHERE dataset_id = ?')
+      .all(dataSetId) as Array<{ stack_id_a: number; stack_id_b: number }>;
+    return new Set(rows.map((row) => pairKey(row.stack_id_a, row.stack_id_b)));
+  }
+}
@@ -1,6 +1,9 @@
 import type { DatabaseSync } from 'node:sqlite';
+import { compileSearchQuery, type SearchTextNode } from '@caramelboard/search-query';
+import { applySearchFilters } from '../../../shared/search-query';
 import { toPublicAssetPath, withPublicAssetArray } from '../../../utils/assetPath';
 import { parseJsonObject } from '../sqlite';
+import { resolveCurrentUserId } from '../user-repository';
 import type { StackAssetService } from './asset-service';
 import type { StackAutoTagReadService } from './auto-tag-read-service';
 import {
@@ -8,10 +11,30 @@ import {
   parseJsonArray,
   placeholders,
   toArray,
+  userLikeCountSql,
 } from './helpers';
 import type { StackMetadataService } from './metadata-service';
+import { buildStackSearchFilter, STACK_SEARCH_RANK } from './search-index-service';
 import type { CountRow, StackRow, StandaloneStackListParams } from './types';
 
+// 別名で指定されたタグも正規のタグとして絞り込む
+const matchTagTitles = (titles: string[]) => ({
+  sql: `(t.title IN (${placeholders(titles)})
+          OR t.id IN (SELECT ta.tag_id FROM tag_aliases ta WHERE ta.alias IN (${placeholders(titles)})))`,
+  params: [...titles, ...titles],
+});
+
+// 自動タグはスタック単位の集計スコアで判定する
+const DEFAULT_AUTO_TAG_MIN_SCORE = 0.4;
+
+const matchAutoTagKeys = (keys: string[], minScore: number) => ({
+  sql: `EXISTS (
+          SELECT 1 FROM stack_auto_tag_scores ats
+          WHERE ats.stack_id = s.id AND ats.score >= ? AND ats.tag_key IN (${placeholders(keys)})
+        )`,
+  params: [minScore, ...keys],
+});
+
 export class StackQueryService {
   constructor(
     private db: DatabaseSync,
@@ -20,30 +43,34 @@ export class StackQueryService {
     private autoTagReadService: StackAutoTagReadService
   ) {}
 
-  getPaginated(params: StandaloneStackListParams) {
-    const sqlParams: Array<string | number> = [];
-    const whereSql = this.buildStackWhere(params, sqlParams);
-    const countRow = this.db
-      .prepare(`
-        SELECT COUNT(*) AS count
-        FROM stacks s
-        LEFT JOIN authors a ON a.id = s.author_id
-        WHERE ${whereSql}
-      `)
-      .get(...sqlParams) as CountRow | undefined;
+  getPaginated(listParams: StandaloneStackListParams) {
+    const { params, sqlParams, searchJoinSql, whereSql } = this.buildListQuery(listParams);
+    const total = this.countRows(searchJoinSql, whereSql, sqlParams);
 
     const rows = this.db
-      .prepare(`${this.stackSelectSql(whereSql)} ORDER BY ${this.orderBy(params)} LIMIT ? OFFSET ?`)
-      .all(...sqlParams, params.limit, params.offset) as StackRow[];
+      .prepare(
+        `${this.stackSelectSql(whereSql, searchJoinSql)} ORDER BY ${this.orderBy(params, Boolean(searchJoinSql))} LIMIT ? OFFSET ?`
+      )
+      .all(...this.selectUserParams(), ...sqlParams, params.limit, params.offset) as StackRow[];
 
     return {
       stacks: rows.map((row) => this.toStack(row, { includeAssets: true })),
-      total: countRow?.count ?? 0,
+      total,
       limit: params.limit,
       offset: params.offset,
     };
   }
 
+  /** getPaginated と同じ条件で件数だけ数える */
+  count(listParams: Omit<StandaloneStackListParams, 'limit' | 'offset'>) {
+    const { sqlParams, searchJoinSql, whereSql } = this.buildListQuery({
+      ...listParams,
+      limit: 0,
+      offset: 0,
+    });
+    return this.countRows(searchJoinSql, whereSql, sqlParams);
+  }
+
   getById(id: number, dataSetId?: number) {
     const params: number[] = [id];
     const where = ['s.id = ?'];
@@ -52,9 +79,9 @@ export class StackQueryService {
       params.push(dataSetId);
     }
 
-    const row = this.db.prepare(this.stackSelectSql(where.join(' AND '))).get(...params) as
-      | StackRow
-      | undefined;
+    const row = this.db
+      .prepare(this.stackSelectSql(where.join(' AND ')))
+      .get(...this.selectUserParams(), ...params) as StackRow | undefined;
 
     return row ? this.toStack(row, { includeAssets: true, includeTags: true }) : null;
   }
@@ -74,7 +101,34 @@ export class StackQueryService {
     );
   }
 
-  private buildStackWhere(params: StandaloneStackListParams, sqlParams: Array<string | number>) {
+  private buildListQuery(listParams: StandaloneStackListParams) {
+    // search はクエリ言語として解釈し、構造化された条件を通常のフィルタへ展開する
+    const compiled = compileSearchQuery(listParams.search);
+    const params = applySearchFilters(listParams, compiled.filters);
+    const sqlParams: Array<string | number> = [];
+    const searchJoinSql = this.buildSearchJoin(compiled.text, params.dataSetId, sqlParams);
+    const whereSql = this.buildStackWhere(params, sqlParams, compiled.excludedText);
+    return { params, sqlParams, searchJoinSql, whereSql };
+  }
+
+  private countRows(searchJoinSql: string, whereSql: string, sqlParams: Array<string | number>) {
+    const countRow = this.db
+      .prepare(`
+        SELECT COUNT(*) AS count
+        FROM stacks s
+        LEFT JOIN authors a ON a.id = s.author_id
+        ${searchJoinSql}
+        WHERE ${whereSql}
+      `)
+      .get(...sqlParams) as CountRow | undefined;
+    return countRow?.count ?? 0;
+  }
+
+  private buildStackWhere(
+    params: StandaloneStackListParams,
+    sqlParams: Array<string | number>,
+    excludedText: SearchTextNode[] = []
+  ) {
     const where = ['s.dataset_id = ?'];
     sqlParams.push(params.dataSetId);
 
@@ -105,15 +159,51 @@ export class StackQueryService {
       sqlParams.push(...mediaTypes);
     }
 
+    const autoTagMinScore = params.autoTagMinScore ?? DEFAULT_AUTO_TAG_MIN_SCORE;
     const tags = toArray(params.tag).filter((tag) => tag.trim().length > 0);
-    if (tags.length > 0) {
-      where.push(`EXISTS (
+    for (const group of [...(tags.length > 0 ? [tags] : []), ...(params.tagGroups ?? [])]) {
+      const titles = group.filter((tag) => tag.trim().length > 0);
+      if (titles.length === 0) continue;
+      const match = matchTagTitles(titles);
+      const tagExists = `EXISTS (
         SELECT 1
         FROM stack_tags st
         JOIN tags t ON t.id = st.tag_id
-        WHERE st.stack_id = s.id AND t.title IN (${placeholders(tags)})
+        WHERE st.stack_id = s.id AND ${match.sql}
+      )`;
+      sqlParams.push(...match.params);
+      if (params.includeAutoTags) {
+        const autoMatch = matchAutoTagKeys(titles, autoTagMinScore);
+        where.push(`(${tagExists} OR ${autoMatch.sql})`);
+        sqlParams.push(...autoMatch.params);
+      } else {
+        where.push(tagExists);
+      }
+    }
+
+    for (const group of params.autoTagGroups ?? []) {
+      const keys = group.filter((tag) => tag.trim().length > 0);
+      if (keys.length === 0) continue;
+      const match = matchAutoTagKeys(keys, autoTagMinScore);
+      where.push(match.sql);
+      sqlParams.push(...match.params);
+    }
+
+    if (params.excludeAutoTags?.length) {
+      const match = matchAutoTagKeys(params.excludeAutoTags, autoTagMinScore);
+      where.push(`NOT ${match.sql}`);
+      sqlParams.push(...match.params);
+    }
+
+    if (params.excludeTags?.length) {
+      const match = matchTagTitles(params.excludeTags);
+      where.push(`NOT EXISTS (
+        SELECT 1
+        FROM stack_tags st
+        JOIN tags t ON t.id = st.tag_id
+        WHERE st.stack_id = s.id AND ${match.sql}
       )`);
-      sqlParams.push(...tags);
+      sqlParams.push(...match.params);
     }
 
     const authors = toArray(params.author).filter((author) => author.trim().length > 0);
@@ -122,16 +212,57 @@ export class StackQueryService {
       sqlParams.push(...authors);
     }
 
-    if (params.fav === '1') {
-      where.push('EXISTS (SELECT 1 FROM stack_favorites sf WHERE sf.stack_id = s.id)');
-    } else if (params.fav === '0') {
-      where.push('NOT EXISTS (SELECT 1 FROM stack_favorites sf WHERE sf.stack_id = s.id)');
+    if (params.excludeAuthors?.length) {
+      where.push(`(a.name IS NULL OR a.name NOT IN (${placeholders(params.excludeAuthors)}))`);
+      sqlParams.push(...params.excludeAuthors);
+    }
+
+    if (params.minAssetCount !== undefined || params.maxAssetCount !== undefined) {
+      const assetCount = '(SELECT COUNT(*) FROM assets ac WHERE ac.stack_id = s.id)';
+      if (params.minAssetCount !== undefined) {
+        where.push(`${assetCount} >= ?`);
+        sqlParams.push(params.minAssetCount);
+      }
+      if (params.maxAssetCount !== undefined) {
+        where.push(`${assetCount} <= ?`);
+        sqlParams.push(params.maxAssetCount);
+      }
     }
 
-    if (params.liked === '1') {
-      where.push('s.liked <> 0');
-    } else if (params.liked === '0') {
-      where.push('s.liked = 0');
+    if (params.createdFrom) {
+      where.push('s.created_at >= ?');
+      sqlParams.push(params.createdFrom);
+    }
+
+    if (params.createdTo) {
+      where.push('s.created_at < ?');
+      sqlParams.push(params.createdTo);
+    }
+
+    this.buildEmbeddedMetadataWhere(params, where, sqlParams);
+    this.buildSourceWhere(params, where, sqlParams);
+
+    if (params.fav === '1' || params.fav === '0') {
+      const exists =
+        'EXISTS (SELECT 1 FROM stack_favorites sf WHERE sf.stack_id = s.id AND sf.user_id = ?)';
+      where.push(params.fav === '1' ? exists : `NOT ${exists}`);
+      sqlParams.push(resolveCurrentUserId(this.db));
+    }
+
+    if (params.reading) {
+      const progress =
+        'SELECT 1 FROM reading_progress rp WHERE rp.stack_id = s.id AND rp.user_id = ?';
+      if (params.reading === 'unread') where.push(`NOT EXISTS (${progress})`);
+      else if (params.reading === 'read')
+        where.push(`EXISTS (${progress} AND rp.completed_at IS NOT NULL)`);
+      else where.push(`EXISTS (${progress} AND rp.completed_at IS NULL)`);
+      sqlParams.push(resolveCurrentUserId(this.db));
+    }
+
+    if (params.liked) {
+      const liked = 'SELECT 1 FROM like_activities la WHERE la.stack_id = s.id AND la.user_id = ?';
+      where.push(params.liked === '1' ? `EXISTS (${liked})` : `NOT EXISTS (${liked})`);
+      sqlParams.push(resolveCurrentUserId(this.db));
     }
 
     if (params.hasNoTags) {
@@ -142,48 +273,118 @@ export class StackQueryService {
       where.push('s.author_id IS NULL');
     }
 
-    const search = params.search?.trim();
-    if (search) {
-      const like = `%${search}%`;
-      where.push(`(
-        s.name LIKE ? COLLATE NOCASE OR
-        a.name LIKE ? COLLATE NOCASE OR
-        EXISTS (
-          SELECT 1
-          FROM author_links al
-          WHERE al.author_id = s.author_id
-            AND (
-              al.external_id LIKE ? COLLATE NOCASE OR
-              al.url LIKE ? COLLATE NOCASE
-            )
-        ) OR
-        EXISTS (
-          SELECT 1
-          FROM stack_tags st
-          JOIN tags t ON t.id = st.tag_id
-          WHERE st.stack_id = s.id AND t.title LIKE ? COLLATE NOCASE
-        ) OR
-        s.id IN (
-          SELECT DISTINCT scores.stack_id
-          FROM stack_auto_tag_scores scores
-          LEFT JOIN auto_tag_mappings m
-            ON m.dataset_id = ?
-           AND m.is_active = 1
-           AND m.auto_tag_key = scores.tag_key COLLATE NOCASE
-          WHERE scores.score >= ?
-            AND (
-              scores.tag_key LIKE ? COLLATE NOCASE OR
-              m.display_name LIKE ? COLLATE NOCASE
-            )
-        )
-      )`);
-      sqlParams.push(like, like, like, like, like, params.dataSetId, 0.4, like, like);
+    for (const node of excludedText) {
+      const filter = buildStackSearchFilter(node);
+      if (!filter) continue;
+      where.push(`s.id NOT IN (SELECT rowid FROM stack_search WHERE ${filter.sql})`);
+      sqlParams.push(...filter.params);
     }
 
     return where.join(' AND ');
   }
 
-  private stackSelectSql(whereSql: string) {
+  // 埋め込みメタデータの条件は、スタック内のいずれかのアセットが満たせばよい
+  private buildEmbeddedMetadataWhere(
+    params: StandaloneStackListParams,
+    where: string[],
+    sqlParams: Array<string | number>
+  ) {
+    const conditions: string[] = [];
+    if (params.capturedFrom) {
+      conditions.push('m.captured_at >= ?');
+      sqlParams.push(params.capturedFrom);
+    }
+    if (params.capturedTo) {
+      conditions.push('m.captured_at < ?');
+      sqlParams.push(params.capturedTo);
+    }
+    if (conditions.length > 0) where.push(this.assetMetadataExists(conditions.join(' AND ')));
+
+    for (const camera of params.cameras ?? []) {
+      where.push(
+        this.assetMetadataExists(
+          "(COALESCE(m.camera_make, '') || ' ' || COALESCE(m.camera_model, '')) LIKE ? COLLATE NOCASE"
+        )
+      );
+      sqlParams.push(`%${camera}%`);
+    }
+    for (const keyword of params.keywords ?? []) {
+      where.push(
+        this.assetMetadataExists(
+          'EXISTS (SELECT 1 FROM json_each(m.keywords_json) k WHERE k.value = ? COLLATE NOCASE)'
+        )
+      );
+      sqlParams.push(keyword);
+    }
+    for (const prompt of params.prompts ?? []) {
+      where.push(this.assetMetadataExists('m.prompt LIKE ? COLLATE NOCASE'));
+      sqlParams.push(`%${prompt}%`);
+    }
+  }
+
+  // 取り込み元の条件も、スタック内のいずれかのアセットが満たせばよい
+  private buildSourceWhere(
+    params: StandaloneStackListParams,
+    where: string[],
+    sqlParams: Array<string | number>
+  ) {
+    for (const url of params.sourceUrls ?? []) {
+      where.push(
+        this.assetExists(
+          '(sa.source_page_url LIKE ? COLLATE NOCASE OR sa.source_media_url LIKE ? COLLATE NOCASE)'
+        )
+      );
+      sqlParams.push(`%${url}%`, `%${url}%`);
+    }
+    if (params.importChannels?.length) {
+      where.push(this.assetExists(`sa.import_channel IN (${placeholders(params.importChannels)})`));
+      sqlParams.push(...params.importChannels);
+    }
+  }
+
+  private assetExists(condition: string) {
+    return `EXISTS (SELECT 1 FROM assets sa WHERE sa.stack_id = s.id AND ${condition})`;
+  }
+
+  private assetMetadataExists(condition: string) {
+    return `EXISTS (
+      SELECT 1
+      FROM assets ma
+      JOIN asset_metadata m ON m.asset_id = ma.id
+      WHERE ma.stack_id = s.id AND ${condition}
+    )`;
+  }
+
+  private buildSearchJoin(
+    text: SearchTextNode | null,
+    dataSetId: number,
+    sqlParams: Array<string | number>
+  ) {
+    const filter = buildStackSearchFilter(text);
+    if (!filter) return '';
+    if (!filter.ranked) {
+      sqlParams.push(dataSetId, ...filter.params);
+      return `JOIN (
+          SELECT rowid AS stack_id, NULL AS search_rank
+          FROM stack_search
+          WHERE dataset_id = ? AND ${filter.sql}
+        ) search_hits ON search_hits.stack_id = s.id`;
+    }
+    sqlParams.push(...filter.params, STACK_SEARCH_RANK, dataSetId);
+    return `JOIN (
+        SELECT rowid AS stack_id, rank AS search_rank
+        FROM stack_search
+        WHERE ${filter.sql} AND rank MATCH ? AND dataset_id = ?
+      ) search_hits ON search_hits.stack_id = s.id`;
+  }
+
+  // stackSelectSql のいいね数とお気に入りに渡すユーザー
+  private selectUserParams() {
+    const userId = resolveCurrentUserId(this.db);
+    return [userId, userId];
+  }
+
+  private stackSelectSql(whereSql: string, searchJoinSql = '') {
     return `
       SELECT
         s.id,
@@ -194,30 +395,41 @@ export class StackQueryService {
         s.thumbnail,
         s.media_type,
         s.actual_media_type,
-        s.liked,
+        ${userLikeCountSql('?')} AS liked,
         s.meta_json,
         s.dominant_colors_json,
         s.created_at,
         s.updated_at,
         COUNT(asset_count.id) AS asset_count,
-        CASE WHEN EXISTS (SELECT 1 FROM stack_favorites sf WHERE sf.stack_id = s.id) THEN 1 ELSE 0 END AS is_favorite
+        CASE WHEN EXISTS (
+          SELECT 1 FROM stack_favorites sf WHERE sf.stack_id = s.id AND sf.user_id = ?
+        ) THEN 1 ELSE 0 END AS is_favorite,
+        ${searchJoinSql ? 'search_hits.search_rank' : 'NULL'} AS search_rank
       FROM stacks s
       LEFT JOIN authors a ON a.id = s.author_id
+      ${searchJoinSql}
       LEFT JOIN assets asset_count ON asset_count.stack_id = s.id
       WHERE ${whereSql}
       GROUP BY s.id
     `;
   }
 
-  private orderBy(params: StandaloneStackListParams) {
+  private orderBy(params: StandaloneStackListParams, hasSearchRank: boolean) {
     const direction = params.order === 'asc' ? 'ASC' : 'DESC';
     switch (params.sort) {
+      case 'relevance':
+        // bm25 は小さいほど関連度が高い。検索語が無い場合は追加日順に戻す
+        return hasSearchRank
+          ? `search_rank ${direction === 'DESC' ? 'ASC' : 'DESC'}, s.id DESC`
+          : `s.created_at ${direction}, s.id ${direction}`;
       case 'dateAdded':
         return `s.created_at ${direction}, s.id ${direction}`;
       case 'name':
         return `s.name ${direction}, s.id DESC`;
       case 'likes':
-        return `s.liked ${direction}, s.updated_at DESC`;
+        return `liked ${direction}, s.updated_at DESC`;
+      case 'updated':
+        return `s.updated_at ${direction}, s.id ${direction}`;
       case 'id':
         return `s.id ${direction}`;
       default:
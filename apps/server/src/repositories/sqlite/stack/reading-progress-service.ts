@@ -0,0 +1,84 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { nowIso } from '../sqlite';
+import { resolveCurrentUserId } from '../user-repository';
+
+export interface ReadingProgress {
+  stackId: number;
+  /** stack 内のアセット順（0 始まり） */
+  page: number;
+  pageCount: number;
+  completed: boolean;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+export interface SaveReadingProgressInput {
+  page: number;
+  /** 省略時は最終ページに達したら読了にする */
+  completed?: boolean;
+}
+
+interface ReadingProgressRow {
+  stack_id: number;
+  page: number;
+  page_count: number;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+const toReadingProgress = (row: ReadingProgressRow): ReadingProgress => ({
+  stackId: row.stack_id,
+  page: row.page,
+  pageCount: row.page_count,
+  completed: row.completed_at !== null,
+  completedAt: row.completed_at,
+  updatedAt: row.updated_at,
+});
+
+export class StackReadingProgressService {
+  constructor(private db: DatabaseSync) {}
+
+  get(stackId: number) {
+    const row = this.db
+      .prepare(
+        `SELECT stack_id, page, page_count, completed_at, updated_at
+         FROM reading_progress
+         WHERE user_id = ? AND stack_id = ?`
+      )
+      .get(resolveCurrentUserId(this.db), stackId) as ReadingProgressRow | undefined;
+    return row ? toReadingProgress(row) : null;
+  }
+
+  save(stackId: number, input: SaveReadingProgressInput) {
+    const { count: pageCount } = this.db
+      .prepare('SELECT COUNT(*) AS count FROM assets WHERE stack_id = ?')
+      .get(stackId) as { count: number };
+    const page = Math.min(Math.max(Math.trunc(input.page), 0), Math.max(pageCount - 1, 0));
+    const completed = input.completed ?? (pageCount > 0 && page >= pageCount - 1);
+    const now = nowIso();
+
+    // 読了のまま読み返している間は読了日時を保つ
+    this.db
+      .prepare(
+        `INSERT INTO reading_progress (user_id, stack_id, page, page_count, completed_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id, stack_id) DO UPDATE SET
+           page = excluded.page,
+           page_count = excluded.page_count,
+           completed_at = CASE
+             WHEN excluded.completed_at IS NULL THEN NULL
+             ELSE COALESCE(reading_progress.completed_at, excluded.completed_at)
+           END,
+           updated_at = excluded.updated_at`
+      )
+      .run(resolveCurrentUserId(this.db), stackId, page, pageCount, completed ? now : null, now);
+    return this.get(stackId);
+  }
+
+  clear(stackId: number) {
+    const result = this.db
+      .prepare('DELETE FROM reading_progress WHERE user_id = ? AND stack_id = ?')
+      .run(resolveCurrentUserId(this.db), stackId);
+    return Number(result.changes) > 0;
+  }
+}
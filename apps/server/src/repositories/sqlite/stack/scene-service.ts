@@ -0,0 +1,100 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { DataStorage } from '../../../lib/DataStorage';
+import { buildSceneStripKey, toPublicAssetPath } from '../../../utils/assetPath';
+import {
+  DEFAULT_SCENE_SENSITIVITY,
+  detectSceneStartTimes,
+  generateSceneStrip,
+  mergeSceneMarkers,
+} from '../../../utils/sceneDetection';
+import { nowIso, parseJsonObject } from '../sqlite';
+import { isVideoFileType, placeholders } from './helpers';
+
+// データセット設定（settings_json）のキー。シーン検出の既定の感度 (0〜1)
+export const SCENE_SENSITIVITY_SETTING = 'sceneSensitivity';
+
+interface SceneSourceRow {
+  id: number;
+  file: string;
+  file_type: string;
+  hash: string;
+  meta_json: string | null;
+  dataset_id: number;
+  settings_json: string | null;
+}
+
+export class StackSceneService {
+  constructor(private db: DatabaseSync) {}
+
+  getVideoAssetIds(dataSetId: number, stackIds?: number[]) {
+    const stackFilter =
+      stackIds && stackIds.length > 0 ? ` AND s.id IN (${placeholders(stackIds)})` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT a.id, a.file_type
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE s.dataset_id = ?${stackFilter}
+         ORDER BY a.id ASC`
+      )
+      .all(dataSetId, ...(stackIds ?? [])) as Array<{ id: number; file_type: string }>;
+    return rows.filter((row) => isVideoFileType(row.file_type)).map((row) => row.id);
+  }
+
+  /**
+   * 動画アセットのシーンの切り替わりを検出し、シーンマーカーとキーフレームのストリップを
+   * アセットの meta に書き込む。感度を省略した場合はデータセット設定の値を使う。
+   */
+  async detectAssetScenes(assetId: number, options: { sensitivity?: number } = {}) {
+    const row = this.db
+      .prepare(
+        `SELECT a.id, a.file, a.file_type, a.hash, a.meta_json, s.dataset_id, d.settings_json
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         JOIN datasets d ON d.id = s.dataset_id
+         WHERE a.id = ?`
+      )
+      .get(assetId) as SceneSourceRow | undefined;
+    if (!row || !isVideoFileType(row.file_type)) return null;
+
+    const configured = parseJsonObject(row.settings_json)[SCENE_SENSITIVITY_SETTING];
+    const sensitivity =
+      options.sensitivity ??
+      (typeof configured === 'number' ? configured : DEFAULT_SCENE_SENSITIVITY);
+
+    const stripKey = buildSceneStripKey(row.dataset_id, row.hash);
+    let strip: Awaited<ReturnType<typeof generateSceneStrip>> = null;
+    const sceneTimes = await DataStorage.withReadablePath(row.file, async (inputPath) => {
+      const times = await detectSceneStartTimes(inputPath, sensitivity);
+      try {
+        strip = await generateSceneStrip(inputPath, times, DataStorage.getPath(stripKey));
+        if (strip) DataStorage.seal(stripKey);
+      } catch (error) {
+        console.error(`Failed to generate scene strip for asset ${assetId}`, error);
+      }
+      return times;
+    });
+
+    const meta = parseJsonObject(row.meta_json);
+    const markers = mergeSceneMarkers(meta.markers, sceneTimes);
+    const scenes = {
+      sensitivity,
+      detectedAt: nowIso(),
+      times: sceneTimes,
+      strip: strip
+        ? {
+            url: toPublicAssetPath(stripKey, row.dataset_id),
+            frameWidth: strip.frameWidth,
+            frameHeight: strip.frameHeight,
+            times: strip.times,
+          }
+        : null,
+    };
+    const nextMeta = { ...meta, markers, scenes };
+    this.db
+      .prepare('UPDATE assets SET meta_json = ?, updated_at = ? WHERE id = ?')
+      .run(JSON.stringify(nextMeta), nowIso(), assetId);
+
+    return { assetId, meta: nextMeta };
+  }
+}
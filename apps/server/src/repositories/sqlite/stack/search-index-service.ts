@@ -0,0 +1,183 @@
+import type { DatabaseSync } from 'node:sqlite';
+import type { SearchTextNode } from '@caramelboard/search-query';
+import { placeholders } from './helpers';
+
+const SEARCH_AUTO_TAG_MIN_SCORE = 0.4;
+
+// name, author, author_links, tags, auto_tags (dataset_id は UNINDEXED なので 0)
+const SEARCH_COLUMN_WEIGHTS = [0, 10, 6, 2, 5, 1] as const;
+
+const INDEX_SELECT_SQL = `
+  SELECT
+    s.id,
+    s.dataset_id,
+    s.name,
+    COALESCE(a.name, ''),
+    COALESCE(
+      (
+        SELECT group_concat(COALESCE(al.external_id, '') || ' ' || al.url, ' ')
+        FROM author_links al
+        WHERE al.author_id = s.author_id
+      ),
+      ''
+    ),
+    COALESCE(
+      (
+        SELECT group_concat(t.title, ' ')
+        FROM stack_tags st
+        JOIN tags t ON t.id = st.tag_id
+        WHERE st.stack_id = s.id
+      ),
+      ''
+    ),
+    COALESCE(
+      (
+        SELECT group_concat(scores.tag_key || ' ' || COALESCE(m.display_name, ''), ' ')
+        FROM stack_auto_tag_scores scores
+        LEFT JOIN auto_tag_mappings m
+          ON m.dataset_id = s.dataset_id
+         AND m.is_active = 1
+         AND m.auto_tag_key = scores.tag_key COLLATE NOCASE
+        WHERE scores.stack_id = s.id
+          AND scores.score >= ${SEARCH_AUTO_TAG_MIN_SCORE}
+      ),
+      ''
+    )
+  FROM stacks s
+  LEFT JOIN authors a ON a.id = s.author_id
+`;
+
+const SEARCH_COLUMNS = ['name', 'author', 'author_links', 'tags', 'auto_tags'] as const;
+// trigram は 3 文字未満の語を MATCH で探せない
+const TRIGRAM_MIN_LENGTH = 3;
+
+const hasSearchableText = (value: string) => /[\p{L}\p{N}]/u.test(value);
+const quoteSearchTerm = (value: string) => `"${value.replaceAll('"', '""')}"`;
+const escapeLikeTerm = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const searchTerms = (node: SearchTextNode): string[] => {
+  if (node.type === 'text') {
+    const value = node.value.trim();
+    return hasSearchableText(value) ? [value] : [];
+  }
+  return node.operands.flatMap(searchTerms);
+};
+
+const buildMatch = (node: SearchTextNode): string | null => {
+  if (node.type === 'text') {
+    const value = node.value.trim();
+    return hasSearchableText(value) ? quoteSearchTerm(value) : null;
+  }
+  const operands = node.operands.map(buildMatch).filter((match): match is string => match !== null);
+  if (operands.length === 0) return null;
+  if (operands.length === 1) return operands[0];
+  return `(${operands.join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+};
+
+const buildLike = (node: SearchTextNode, params: string[]): string | null => {
+  if (node.type === 'text') {
+    const value = node.value.trim();
+    if (!hasSearchableText(value)) return null;
+    const pattern = `%${escapeLikeTerm(value)}%`;
+    params.push(...SEARCH_COLUMNS.map(() => pattern));
+    return `(${SEARCH_COLUMNS.map((column) => `${column} LIKE ? ESCAPE '\\'`).join(' OR ')})`;
+  }
+  const operands = node.operands
+    .map((operand) => buildLike(operand, params))
+    .filter((like): like is string => like !== null);
+  if (operands.length === 0) return null;
+  if (operands.length === 1) return operands[0];
+  return `(${operands.join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+};
+
+export interface StackSearchFilter {
+  /** stack_search の行に対する条件 */
+  sql: string;
+  params: string[];
+  /** MATCH で絞り込めた場合だけ bm25 で並べ替えられる */
+  ranked: boolean;
+}
+
+/**
+ * 検索クエリの全文検索部分を stack_search への条件に変換する。語もフレーズも部分一致で、
+ * AND / OR の構造を保つ。MATCH と LIKE は OR で混ぜられないので、3 文字未満の語が
+ * 1 つでもあれば全体を LIKE で組み立てる
+ */
+export const buildStackSearchFilter = (node: SearchTextNode | null): StackSearchFilter | null => {
+  if (!node) return null;
+  const terms = searchTerms(node);
+  if (terms.length === 0) return null;
+  if (terms.every((term) => [...term].length >= TRIGRAM_MIN_LENGTH)) {
+    const match = buildMatch(node);
+    return match ? { sql: 'stack_search MATCH ?', params: [match], ranked: true } : null;
+  }
+  const params: string[] = [];
+  const like = buildLike(node, params);
+  return like ? { sql: like, params, ranked: false } : null;
+};
+
+// FTS5 の rank 列に列ごとの重みを付けた bm25 を使わせる
+export const STACK_SEARCH_RANK = `bm25(${SEARCH_COLUMN_WEIGHTS.join(', ')})`;
+
+export class StackSearchIndexService {
+  constructor(private db: DatabaseSync) {}
+
+  refreshStack(stackId: number) {
+    this.refreshStacks([stackId]);
+  }
+
+  refreshStacks(stackIds: number[]) {
+    const ids = [...new Set(stackIds)];
+    if (ids.length === 0) return;
+    this.db.prepare(`DELETE FROM stack_search WHERE rowid IN (${placeholders(ids)})`).run(...ids);
+    this.db
+      .prepare(
+        `INSERT INTO stack_search (rowid, dataset_id, name, author, author_links, tags, auto_tags)
+         ${INDEX_SELECT_SQL}
+         WHERE s.id IN (${placeholders(ids)})`
+      )
+      .run(...ids);
+  }
+
+  refreshStacksByAuthor(authorIds: number[]) {
+    if (authorIds.length === 0) return;
+    const rows = this.db
+      .prepare(`SELECT id FROM stacks WHERE author_id IN (${placeholders(authorIds)})`)
+      .all(...authorIds) as Array<{ id: number }>;
+    this.refreshStacks(rows.map((row) => row.id));
+  }
+
+  refreshStacksByTag(tagIds: number[]) {
+    if (tagIds.length === 0) return;
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT stack_id AS id FROM stack_tags WHERE tag_id IN (${placeholders(tagIds)})`
+      )
+      .all(...tagIds) as Array<{ id: number }>;
+    this.refreshStacks(rows.map((row) => row.id));
+  }
+
+  refreshStacksByAutoTag(dataSetId: number, autoTagKey: string) {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT scores.stack_id AS id
+         FROM stack_auto_tag_scores scores
+         JOIN stacks s ON s.id = scores.stack_id
+         WHERE s.dataset_id = ? AND scores.tag_key = ? COLLATE NOCASE`
+      )
+      .all(dataSetId, autoTagKey) as Array<{ id: number }>;
+    this.refreshStacks(rows.map((row) => row.id));
+  }
+
+  rebuildDataset(dataSetId: number) {
+    this.db.prepare('DELETE FROM stack_search WHERE dataset_id = ?').run(dataSetId);
+    const result = this.db
+      .prepare(
+        `INSERT INTO stack_search (rowid, dataset_id, name, author, author_links, tags, auto_tags)
+         ${INDEX_SELECT_SQL}
+         WHERE s.dataset_id = ?`
+      )
+      .run(dataSetId);
+    return { indexed: Number(result.changes) };
+  }
+}
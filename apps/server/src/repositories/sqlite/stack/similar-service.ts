@@ -1,4 +1,5 @@
 import type { DatabaseSync } from 'node:sqlite';
+import { averageEmbeddings, cosineSimilarity, decodeEmbedding } from '../../../utils/embedding';
 import {
   clamp01,
   DEFAULT_AUTO_STOP_TAGS,
@@ -11,7 +12,9 @@ import type {
   CountRow,
   DocumentFrequencyRow,
   ManualTagRow,
+  SimilarMode,
   SimilarVectors,
+  StackEmbeddingRow,
 } from './types';
 
 type StackResolver<TStack> = (id: number, dataSetId: number) => TStack | null;
@@ -22,7 +25,7 @@ export class StackSimilarService {
   getSimilarByStackIds<TStack>(
     dataSetId: number,
     sourceStackIds: number[],
-    options: { limit: number; offset: number; threshold?: number },
+    options: { limit: number; offset: number; threshold?: number; mode?: SimilarMode },
     resolveStack: StackResolver<TStack>
   ) {
     const sourceIds = Array.from(new Set(sourceStackIds)).filter((id) => Number.isFinite(id));
@@ -35,11 +38,22 @@ export class StackSimilarService {
       return { stacks: [], total: 0, limit: options.limit, offset: options.offset };
     }
 
+    const mode = options.mode ?? 'hybrid';
     const stopTags = new Set(DEFAULT_AUTO_STOP_TAGS.map(normalizeTag));
-    const reference = this.buildSimilarReference(dataSetId, verifiedSourceIds, stopTags);
-    const similarIds = this.runSimilarSearch(dataSetId, reference, verifiedSourceIds, stopTags, {
-      threshold: options.threshold,
-    });
+    const tagScores =
+      mode === 'visual'
+        ? new Map<number, number>()
+        : this.runSimilarSearch(
+            dataSetId,
+            this.buildSimilarReference(dataSetId, verifiedSourceIds, stopTags),
+            verifiedSourceIds,
+            stopTags
+          );
+    const visualScores =
+      mode === 'tags'
+        ? new Map<number, number>()
+        : this.runVisualSearch(dataSetId, verifiedSourceIds);
+    const similarIds = this.rankSimilarScores(mode, tagScores, visualScores, options.threshold);
     const pagedIds = similarIds.slice(options.offset, options.offset + options.limit);
 
     return {
@@ -266,10 +280,10 @@ export class StackSimilarService {
     dataSetId: number,
     reference: SimilarVectors,
     excludedStackIds: number[],
-    stopTags: Set<string>,
-    options: { threshold?: number }
+    stopTags: Set<string>
   ) {
-    if (reference.auto.size === 0 && reference.manual.size === 0) return [];
+    const scores = new Map<number, number>();
+    if (reference.auto.size === 0 && reference.manual.size === 0) return scores;
 
     const autoProbe = Array.from(reference.auto.keys()).slice(0, SIMILAR_CONFIG.autoProbeCount);
     const manualProbe = Array.from(reference.manual);
@@ -279,7 +293,7 @@ export class StackSimilarService {
         ...this.getManualCandidateIds(dataSetId, manualProbe, excludedStackIds),
       ])
     );
-    if (candidateIds.length === 0) return [];
+    if (candidateIds.length === 0) return scores;
 
     const autoVectors = this.getAutoTagVectors(dataSetId, candidateIds, stopTags);
     const manualSets = this.getManualTagSets(dataSetId, candidateIds, stopTags);
@@ -301,7 +315,6 @@ export class StackSimilarService {
     const datasetSize = this.getDatasetStackCount(dataSetId);
     const autoDf = this.getAutoDocumentFrequency(dataSetId, Array.from(autoUniverse));
     const manualDf = this.getManualDocumentFrequency(dataSetId, Array.from(manualUniverse));
-    const scores = new Map<number, number>();
 
     for (const candidate of candidates) {
       const union = new Set([
@@ -341,10 +354,75 @@ export class StackSimilarService {
       if (score > 0) scores.set(candidate.stackId, score);
     }
 
-    const threshold = clamp01(options.threshold ?? 0);
+    return scores;
+  }
+
+  /**
+   * 参照スタックの代表ベクトルとのコサイン類似度を、埋め込みを持つ全スタックについて返す。
+   * 参照側に埋め込みが無い場合は空。
+   */
+  private runVisualSearch(dataSetId: number, sourceStackIds: number[]) {
+    const scores = new Map<number, number>();
+    const rows = this.db
+      .prepare(
+        `SELECT e.stack_id, e.vector
+         FROM stack_embeddings e
+         JOIN stacks s ON s.id = e.stack_id
+         WHERE s.dataset_id = ?`
+      )
+      .all(dataSetId) as unknown as StackEmbeddingRow[];
+    if (rows.length === 0) return scores;
+
+    const sourceIds = new Set(sourceStackIds);
+    const reference = averageEmbeddings(
+      rows.filter((row) => sourceIds.has(row.stack_id)).map((row) => decodeEmbedding(row.vector))
+    );
+    if (!reference) return scores;
+
+    for (const row of rows) {
+      if (sourceIds.has(row.stack_id)) continue;
+      const similarity = cosineSimilarity(reference, decodeEmbedding(row.vector));
+      if (similarity === null) continue;
+      scores.set(row.stack_id, clamp01(similarity));
+    }
+    return scores;
+  }
+
+  private rankSimilarScores(
+    mode: SimilarMode,
+    tagScores: Map<number, number>,
+    visualScores: Map<number, number>,
+    thresholdOption?: number
+  ) {
+    const scores = new Map<number, number>();
+    if (mode === 'tags') {
+      for (const [id, score] of tagScores) scores.set(id, score);
+    } else if (mode === 'visual') {
+      for (const [id, score] of visualScores) {
+        if (score >= SIMILAR_CONFIG.visualMinScore) scores.set(id, score);
+      }
+    } else {
+      // 埋め込みが無いスタックはタグスコアのみで評価する
+      const candidateIds = new Set(tagScores.keys());
+      for (const [id, score] of visualScores) {
+        if (score >= SIMILAR_CONFIG.visualMinScore) candidateIds.add(id);
+      }
+      for (const id of candidateIds) {
+        const tagScore = tagScores.get(id) ?? 0;
+        const visualScore = visualScores.get(id);
+        const score =
+          visualScore === undefined
+            ? tagScore
+            : SIMILAR_CONFIG.visualWeight * visualScore +
+              (1 - SIMILAR_CONFIG.visualWeight) * tagScore;
+        if (score > 0) scores.set(id, score);
+      }
+    }
+
+    const threshold = clamp01(thresholdOption ?? 0);
     return Array.from(scores.entries())
       .filter(([, score]) => score >= threshold)
-      .sort((left, right) => right[1] - left[1])
+      .sort((left, right) => right[1] - left[1] || left[0] - right[0])
       .slice(0, SIMILAR_CONFIG.resultLimit)
       .map(([id]) => id);
   }
@@ -0,0 +1,212 @@
+import type { DatabaseSync } from 'node:sqlite';
+import type { SqliteBindValue } from '../sqlite';
+import { placeholders } from './helpers';
+
+type EncodedValue = string | number | null | { $blob: string };
+export type SnapshotRow = Record<string, EncodedValue>;
+
+export interface TableSnapshot {
+  table: string;
+  rows: SnapshotRow[];
+}
+
+/** 復元時に振り直した id（テーブル名 → 元の id → 新しい id） */
+export type SnapshotIdMaps = Map<string, Map<number, number>>;
+
+interface ColumnInfo {
+  name: string;
+  notnull: number;
+  pk: number;
+}
+
+interface ForeignKeyInfo {
+  table: string;
+  from: string;
+  to: string;
+}
+
+const encodeValue = (value: unknown): EncodedValue => {
+  if (value instanceof Uint8Array) return { $blob: Buffer.from(value).toString('base64') };
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return null;
+};
+
+const decodeValue = (value: EncodedValue): SqliteBindValue => {
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return value ? new Uint8Array(Buffer.from(value.$blob, 'base64')) : null;
+};
+
+export const captureRows = (
+  db: DatabaseSync,
+  table: string,
+  where: string,
+  params: SqliteBindValue[]
+): TableSnapshot => {
+  const rows = db.prepare(`SELECT * FROM ${table} WHERE ${where}`).all(...params) as Array<
+    Record<string, unknown>
+  >;
+  return {
+    table,
+    rows: rows.map((row) =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, encodeValue(value)]))
+    ),
+  };
+};
+
+/** スタック単位の行（アセットを含めない場合はマージの取り消し用） */
+export const captureStacks = (
+  db: DatabaseSync,
+  stackIds: number[],
+  options: { includeAssets: boolean }
+): TableSnapshot[] => {
+  if (stackIds.length === 0) return [];
+  const inStacks = placeholders(stackIds);
+  const assetIds = options.includeAssets
+    ? (
+        db
+          .prepare(`SELECT id FROM assets WHERE stack_id IN (${inStacks})`)
+          .all(...stackIds) as Array<{ id: number }>
+      ).map((row) => row.id)
+    : [];
+
+  return [
+    captureRows(db, 'stacks', `id IN (${inStacks})`, stackIds),
+    ...captureAssets(db, assetIds),
+    captureRows(db, 'stack_tags', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(db, 'collection_stacks', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(db, 'stack_favorites', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(db, 'reading_progress', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(db, 'stack_colors', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(db, 'stack_auto_tag_aggregates', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(db, 'stack_auto_tag_scores', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(db, 'stack_embeddings', `stack_id IN (${inStacks})`, stackIds),
+    captureRows(
+      db,
+      'near_duplicate_dismissals',
+      `stack_id_a IN (${inStacks}) OR stack_id_b IN (${inStacks})`,
+      [...stackIds, ...stackIds]
+    ),
+    captureRows(db, 'like_activities', `stack_id IN (${inStacks})`, stackIds),
+  ];
+};
+
+export const captureAssets = (db: DatabaseSync, assetIds: number[]): TableSnapshot[] => {
+  if (assetIds.length === 0) return [];
+  const inAssets = placeholders(assetIds);
+  return [
+    captureRows(db, 'assets', `id IN (${inAssets})`, assetIds),
+    captureRows(db, 'asset_favorites', `asset_id IN (${inAssets})`, assetIds),
+    captureRows(db, 'auto_tag_predictions', `asset_id IN (${inAssets})`, assetIds),
+    captureRows(db, 'auto_tag_prediction_scores', `asset_id IN (${inAssets})`, assetIds),
+    captureRows(db, 'asset_colors', `asset_id IN (${inAssets})`, assetIds),
+    captureRows(db, 'asset_annotation_layers', `asset_id IN (${inAssets})`, assetIds),
+    captureRows(db, 'asset_embeddings', `asset_id IN (${inAssets})`, assetIds),
+    captureRows(db, 'asset_metadata', `asset_id IN (${inAssets})`, assetIds),
+  ];
+};
+
+export const snapshotRows = (tables: TableSnapshot[], table: string) =>
+  tables.find((snapshot) => snapshot.table === table)?.rows ?? [];
+
+const SNAPSHOT_FILE_COLUMNS: Record<string, string[]> = {
+  assets: ['file', 'thumbnail', 'preview'],
+  stacks: ['thumbnail'],
+};
+
+/** スナップショットの行が指しているストレージのファイル */
+export const snapshotFileKeys = (tables: TableSnapshot[]) => {
+  const keys = new Set<string>();
+  for (const snapshot of tables) {
+    for (const column of SNAPSHOT_FILE_COLUMNS[snapshot.table] ?? []) {
+      for (const row of snapshot.rows) {
+        const key = row[column];
+        if (typeof key === 'string' && key) keys.add(key);
+      }
+    }
+  }
+  return [...keys];
+};
+
+/** ゴミ箱の項目や操作履歴が書いたスナップショットのファイルを snapshot_files に控える */
+export const recordSnapshotFiles = (
+  db: DatabaseSync,
+  ownerKind: 'trash_item' | 'operation_log',
+  ownerId: number,
+  tables: TableSnapshot[]
+) => {
+  const insert = db.prepare(
+    'INSERT OR IGNORE INTO snapshot_files (owner_kind, owner_id, file_key) VALUES (?, ?, ?)'
+  );
+  for (const key of snapshotFileKeys(tables)) insert.run(ownerKind, ownerId, key);
+};
+
+/**
+ * スナップショットの行を親テーブルから順に戻す。
+ * 元の id が既に使われていれば振り直し、それを参照する後続の行も付け替える。
+ * 参照先が消えている行は、NULL にできる列なら NULL にし、できなければ戻さない。
+ */
+export const restoreSnapshot = (db: DatabaseSync, tables: TableSnapshot[]): SnapshotIdMaps => {
+  const idMaps: SnapshotIdMaps = new Map();
+
+  for (const { table, rows } of tables) {
+    if (rows.length === 0) continue;
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as unknown as ColumnInfo[];
+    const columnByName = new Map(columns.map((column) => [column.name, column]));
+    const foreignKeys = db
+      .prepare(`PRAGMA foreign_key_list(${table})`)
+      .all() as unknown as ForeignKeyInfo[];
+    const hasIdKey = columnByName.get('id')?.pk === 1;
+    const idMap = new Map<number, number>();
+    idMaps.set(table, idMap);
+
+    for (const encoded of rows) {
+      const row: Record<string, SqliteBindValue> = {};
+      for (const [key, value] of Object.entries(encoded)) {
+        if (columnByName.has(key)) row[key] = decodeValue(value);
+      }
+
+      let restorable = true;
+      for (const foreignKey of foreignKeys) {
+        const value = row[foreignKey.from];
+        if (value === null || value === undefined) continue;
+        const mapped = idMaps.get(foreignKey.table)?.get(Number(value));
+        if (mapped !== undefined) row[foreignKey.from] = mapped;
+        const exists = db
+          .prepare(`SELECT 1 FROM ${foreignKey.table} WHERE ${foreignKey.to} = ?`)
+          .get(row[foreignKey.from]);
+        if (exists) continue;
+        if (columnByName.get(foreignKey.from)?.notnull) {
+          restorable = false;
+          break;
+        }
+        row[foreignKey.from] = null;
+      }
+      if (!restorable) continue;
+
+      const originalId = hasIdKey ? Number(row.id) : null;
+      if (
+        originalId !== null &&
+        db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(originalId)
+      ) {
+        delete row.id;
+      }
+
+      const keys = Object.keys(row);
+      const result = db
+        .prepare(
+          `INSERT OR IGNORE INTO ${table} (${keys.join(', ')}) VALUES (${placeholders(keys)})`
+        )
+        .run(...keys.map((key) => row[key]));
+      if (originalId !== null && result.changes > 0) {
+        idMap.set(originalId, Number(result.lastInsertRowid));
+      }
+    }
+  }
+
+  return idMaps;
+};
+
+/** 復元後の id（振り直していなければ元の id、戻せなかった場合は null） */
+export const restoredId = (idMaps: SnapshotIdMaps, table: string, id: number) =>
+  idMaps.get(table)?.get(id) ?? null;
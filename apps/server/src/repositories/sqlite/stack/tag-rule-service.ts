@@ -0,0 +1,97 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { placeholders } from './helpers';
+import type { TagRow } from './types';
+
+/** タグの別名と包含関係（cat → animal）をスタックのタグ付けに反映する */
+export class StackTagRuleService {
+  constructor(private db: DatabaseSync) {}
+
+  /** 別名なら正規のタグを返す */
+  resolveAlias(datasetId: number, title: string) {
+    return (
+      (this.db
+        .prepare(
+          `SELECT t.id, t.title
+           FROM tag_aliases ta
+           JOIN tags t ON t.id = ta.tag_id
+           WHERE ta.dataset_id = ? AND ta.alias = ?`
+        )
+        .get(datasetId, title.trim()) as TagRow | undefined) ?? null
+    );
+  }
+
+  /** 別名を解決した上でタグを探し、無ければ作る */
+  findOrCreateTag(datasetId: number, title: string): TagRow {
+    const aliased = this.resolveAlias(datasetId, title);
+    if (aliased) return aliased;
+    const existing = this.db
+      .prepare('SELECT id, title FROM tags WHERE dataset_id = ? AND title = ? COLLATE NOCASE')
+      .get(datasetId, title) as TagRow | undefined;
+    if (existing) return existing;
+    const result = this.db
+      .prepare('INSERT INTO tags (dataset_id, title) VALUES (?, ?)')
+      .run(datasetId, title);
+    return { id: Number(result.lastInsertRowid), title };
+  }
+
+  /**
+   * 付いているタグから包含されるタグを辿って付け足す。
+   * UNION で重複を落とすので循環していても止まる。タグが増えたスタックの ID を返す
+   */
+  applyImplications(stackIds: number[]) {
+    const ids = [...new Set(stackIds)];
+    if (ids.length === 0) return [];
+    const missing = this.db
+      .prepare(
+        `WITH RECURSIVE implied(stack_id, tag_id) AS (
+           SELECT stack_id, tag_id FROM stack_tags WHERE stack_id IN (${placeholders(ids)})
+           UNION
+           SELECT implied.stack_id, ti.implied_tag_id
+           FROM implied
+           JOIN tag_implications ti ON ti.tag_id = implied.tag_id
+         )
+         SELECT implied.stack_id, implied.tag_id
+         FROM implied
+         WHERE NOT EXISTS (
+           SELECT 1 FROM stack_tags st
+           WHERE st.stack_id = implied.stack_id AND st.tag_id = implied.tag_id
+         )`
+      )
+      .all(...ids) as Array<{ stack_id: number; tag_id: number }>;
+    if (missing.length === 0) return [];
+
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO stack_tags (stack_id, tag_id) VALUES (?, ?)'
+    );
+    for (const row of missing) {
+      insert.run(row.stack_id, row.tag_id);
+    }
+    return [...new Set(missing.map((row) => row.stack_id))];
+  }
+
+  /** 既に tagId が付いているスタックへ遡って包含関係を反映する */
+  applyImplicationsForTag(tagId: number) {
+    const rows = this.db
+      .prepare('SELECT stack_id FROM stack_tags WHERE tag_id = ?')
+      .all(tagId) as Array<{ stack_id: number }>;
+    return this.applyImplications(rows.map((row) => row.stack_id));
+  }
+
+  /** tagId → impliedTagId を足すと循環するか（impliedTagId から tagId に辿り着けるか） */
+  wouldCreateCycle(tagId: number, impliedTagId: number) {
+    if (tagId === impliedTagId) return true;
+    const row = this.db
+      .prepare(
+        `WITH RECURSIVE reachable(tag_id) AS (
+           SELECT ?
+           UNION
+           SELECT ti.implied_tag_id
+           FROM reachable
+           JOIN tag_implications ti ON ti.tag_id = reachable.tag_id
+         )
+         SELECT 1 AS found FROM reachable WHERE tag_id = ? LIMIT 1`
+      )
+      .get(impliedTagId, tagId);
+    return Boolean(row);
+  }
+}
@@ -0,0 +1,302 @@
+import fs from 'node:fs';
+import type { DatabaseSync } from 'node:sqlite';
+import { RestoreConflictError } from '../../../errors/RestoreConflictError';
+import { DataStorage } from '../../../lib/DataStorage';
+import { getCurrentUser } from '../../../shared/current-user';
+import { toPublicAssetPath } from '../../../utils/assetPath';
+import { nowIso } from '../sqlite';
+import { placeholders } from './helpers';
+import type { StackMediaTypeService } from './media-type-service';
+import type { StackSearchIndexService } from './search-index-service';
+import {
+  captureAssets,
+  captureStacks,
+  recordSnapshotFiles,
+  restoredId,
+  restoreSnapshot,
+  snapshotFileKeys,
+  snapshotRows,
+  type TableSnapshot,
+} from './snapshot';
+import type { StackThumbnailService } from './thumbnail-service';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+export type TrashItemType = 'stack' | 'asset';
+
+export interface TrashItem {
+  id: number;
+  dataSetId: number;
+  itemType: TrashItemType;
+  itemId: number;
+  stackId: number | null;
+  name: string;
+  thumbnail: string | null;
+  assetCount: number;
+  deletedAt: string;
+  expiresAt: string;
+}
+
+interface TrashItemRow {
+  id: number;
+  dataset_id: number;
+  item_type: TrashItemType;
+  item_id: number;
+  stack_id: number | null;
+  name: string;
+  thumbnail: string | null;
+  asset_count: number;
+  snapshot_json: string;
+  deleted_at: string;
+  expires_at: string;
+}
+
+const toTrashItem = (row: TrashItemRow): TrashItem => ({
+  id: row.id,
+  dataSetId: row.dataset_id,
+  itemType: row.item_type,
+  itemId: row.item_id,
+  stackId: row.stack_id,
+  name: row.name,
+  thumbnail: row.thumbnail ? toPublicAssetPath(row.thumbnail, row.dataset_id) : null,
+  assetCount: row.asset_count,
+  deletedAt: row.deleted_at,
+  expiresAt: row.expires_at,
+});
+
+export const getTrashRetentionDays = () => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+const parseSnapshot = (row: TrashItemRow) => JSON.parse(row.snapshot_json) as TableSnapshot[];
+
+export class StackTrashService {
+  constructor(
+    private db: DatabaseSync,
+    private mediaTypeService: StackMediaTypeService,
+    private thumbnailService: StackThumbnailService,
+    private searchIndexService: StackSearchIndexService
+  ) {}
+
+  /** スタックを行のスナップショットごとゴミ箱へ移す。ファイルは完全に削除するまで残す */
+  trashStack(stackId: number): number | null {
+    const stack = this.db
+      .prepare('SELECT id, dataset_id, name, thumbnail FROM stacks WHERE id = ?')
+      .get(stackId) as
+      | { id: number; dataset_id: number; name: string; thumbnail: string }
+      | undefined;
+    if (!stack) return null;
+
+    const snapshot = captureStacks(this.db, [stackId], { includeAssets: true });
+    const trashItemId = this.insertItem({
+      dataSetId: stack.dataset_id,
+      itemType: 'stack',
+      itemId: stack.id,
+      stackId: null,
+      name: stack.name,
+      thumbnail: stack.thumbnail || null,
+      assetCount: snapshotRows(snapshot, 'assets').length,
+      snapshot,
+    });
+    this.db.prepare('DELETE FROM stacks WHERE id = ?').run(stackId);
+    return trashItemId;
+  }
+
+  trashAsset(assetId: number): { trashItemId: number; stackId: number } | null {
+    const asset = this.db
+      .prepare(
+        `SELECT a.id, a.stack_id, a.original_name, a.thumbnail, s.dataset_id
+         FROM assets a
+         JOIN stacks s ON s.id = a.stack_id
+         WHERE a.id = ?`
+      )
+      .get(assetId) as
+      | {
+          id: number;
+          stack_id: number;
+          original_name: string;
+          thumbnail: string;
+          dataset_id: number;
+        }
+      | undefined;
+    if (!asset) return null;
+
+    const trashItemId = this.insertItem({
+      dataSetId: asset.dataset_id,
+      itemType: 'asset',
+      itemId: asset.id,
+      stackId: asset.stack_id,
+      name: asset.original_name,
+      thumbnail: asset.thumbnail || null,
+      assetCount: 1,
+      snapshot: captureAssets(this.db, [assetId]),
+    });
+    this.db.prepare('DELETE FROM assets WHERE id = ?').run(assetId);
+    return { trashItemId, stackId: asset.stack_id };
+  }
+
+  list(dataSetId: number): TrashItem[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM trash_items
+         WHERE dataset_id = ?
+         ORDER BY deleted_at DESC, id DESC`
+      )
+      .all(dataSetId) as unknown as TrashItemRow[];
+    return rows.map(toTrashItem);
+  }
+
+  getById(id: number): TrashItem | null {
+    const row = this.getRow(id);
+    return row ? toTrashItem(row) : null;
+  }
+
+  /** ゴミ箱から戻す。戻したスタックの id（元の id が使われていれば振り直した id）を返す */
+  restore(id: number): { stackId: number } | null {
+    const row = this.getRow(id);
+    if (!row) return null;
+
+    this.db.exec('BEGIN');
+    try {
+      let stackId: number | null;
+      if (row.item_type === 'stack') {
+        const idMaps = restoreSnapshot(this.db, parseSnapshot(row));
+        stackId = restoredId(idMaps, 'stacks', row.item_id);
+      } else {
+        // 元のスタックが無くなっていると戻し先が無い
+        if (
+          !row.stack_id ||
+          !this.db.prepare('SELECT 1 FROM stacks WHERE id = ?').get(row.stack_id)
+        ) {
+          throw new RestoreConflictError('The stack this asset belonged to no longer exists');
+        }
+        const idMaps = restoreSnapshot(this.db, parseSnapshot(row));
+        stackId = restoredId(idMaps, 'assets', row.item_id) === null ? null : row.stack_id;
+      }
+      if (stackId === null) {
+        throw new RestoreConflictError('The item could not be restored');
+      }
+      this.db.prepare('DELETE FROM trash_items WHERE id = ?').run(id);
+      this.db.exec('COMMIT');
+      this.refreshRestoredStack(stackId, row.item_type === 'asset');
+      return { stackId };
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /** 完全に削除する（他から参照されていないファイルも消す） */
+  purge(id: number) {
+    const row = this.getRow(id);
+    if (!row) return false;
+    this.db.prepare('DELETE FROM trash_items WHERE id = ?').run(id);
+    this.removeUnreferencedFiles(parseSnapshot(row));
+    return true;
+  }
+
+  purgeDataset(dataSetId: number) {
+    const ids = (
+      this.db.prepare('SELECT id FROM trash_items WHERE dataset_id = ?').all(dataSetId) as Array<{
+        id: number;
+      }>
+    ).map((row) => row.id);
+    for (const id of ids) this.purge(id);
+    return ids.length;
+  }
+
+  purgeExpired(now = nowIso()) {
+    const ids = (
+      this.db.prepare('SELECT id FROM trash_items WHERE expires_at <= ?').all(now) as Array<{
+        id: number;
+      }>
+    ).map((row) => row.id);
+    for (const id of ids) this.purge(id);
+    return ids.length;
+  }
+
+  private insertItem(item: {
+    dataSetId: number;
+    itemType: TrashItemType;
+    itemId: number;
+    stackId: number | null;
+    name: string;
+    thumbnail: string | null;
+    assetCount: number;
+    snapshot: TableSnapshot[];
+  }) {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+    const result = this.db
+      .prepare(
+        `INSERT INTO trash_items
+           (dataset_id, item_type, item_id, stack_id, name, thumbnail, asset_count, snapshot_json, deleted_by, deleted_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        item.dataSetId,
+        item.itemType,
+        item.itemId,
+        item.stackId,
+        item.name,
+        item.thumbnail,
+        item.assetCount,
+        JSON.stringify(item.snapshot),
+        getCurrentUser()?.id ?? null,
+        now.toISOString(),
+        expiresAt.toISOString()
+      );
+    const id = Number(result.lastInsertRowid);
+    recordSnapshotFiles(this.db, 'trash_item', id, item.snapshot);
+    return id;
+  }
+
+  private getRow(id: number) {
+    return this.db.prepare('SELECT * FROM trash_items WHERE id = ?').get(id) as
+      | TrashItemRow
+      | undefined;
+  }
+
+  private refreshRestoredStack(stackId: number, refreshThumbnail: boolean) {
+    if (refreshThumbnail) {
+      void this.thumbnailService
+        .refreshStackThumbnail(stackId)
+        .catch((error) => console.error(`Failed to refresh stack ${stackId} thumbnail`, error));
+    }
+    this.mediaTypeService.refreshStackActualMediaType(stackId);
+    this.searchIndexService.refreshStack(stackId);
+  }
+
+  private removeUnreferencedFiles(snapshot: TableSnapshot[]) {
+    const candidates = snapshotFileKeys(snapshot);
+    if (candidates.length === 0) return;
+
+    // ほかのゴミ箱の項目や取り消せる操作のスナップショットが指しているファイルも、戻せるように残す
+    const inKeys = placeholders(candidates);
+    const referenced = new Set(
+      (
+        this.db
+          .prepare(
+            `SELECT file AS key FROM assets WHERE file IN (${inKeys})
+             UNION SELECT thumbnail FROM assets WHERE thumbnail IN (${inKeys})
+             UNION SELECT preview FROM assets WHERE preview IN (${inKeys})
+             UNION SELECT thumbnail FROM stacks WHERE thumbnail IN (${inKeys})
+             UNION SELECT file_key FROM snapshot_files WHERE file_key IN (${inKeys})`
+          )
+          .all(...candidates, ...candidates, ...candidates, ...candidates, ...candidates) as Array<{
+          key: string;
+        }>
+      ).map((row) => row.key)
+    );
+
+    for (const key of candidates) {
+      if (referenced.has(key)) continue;
+      try {
+        fs.rmSync(DataStorage.getPath(key), { force: true });
+      } catch (error) {
+        console.error(`Failed to remove trashed file ${key}:`, error);
+      }
+    }
+  }
+}
@@ -1,5 +1,6 @@
 export type StackMediaCategory = 'image' | 'comic' | 'video';
 export type StackMediaType = 'image' | 'video' | 'multipleImages';
+export type StackReadingState = 'unread' | 'in-progress' | 'read';
 
 export interface StandaloneStackListParams {
   dataSetId: number;
@@ -7,14 +8,41 @@ export interface StandaloneStackListParams {
   mediaCategory?: StackMediaCategory;
   mediaTypes?: StackMediaType[];
   tag?: string | string[];
+  /** 各グループのいずれかのタグを持ち、かつ全グループを満たすスタック */
+  tagGroups?: string[][];
+  excludeTags?: string[];
+  /** tag / tagGroups の判定に自動タグも含める */
+  includeAutoTags?: boolean;
+  /** 自動タグの条件。各グループのいずれかを autoTagMinScore 以上のスコアで持つスタック */
+  autoTagGroups?: string[][];
+  excludeAutoTags?: string[];
+  autoTagMinScore?: number;
   author?: string | string[];
+  excludeAuthors?: string[];
+  /** 追加日の範囲（from 以上 to 未満） */
+  createdFrom?: string;
+  createdTo?: string;
+  /** アセット数の範囲（min 以上 max 以下） */
+  minAssetCount?: number;
+  maxAssetCount?: number;
+  /** 埋め込みメタデータの条件（いずれかのアセットが満たすスタック） */
+  capturedFrom?: string;
+  capturedTo?: string;
+  cameras?: string[];
+  keywords?: string[];
+  prompts?: string[];
+  /** 取り込み元のページ / メディア URL の部分一致（いずれかのアセットが満たすスタック） */
+  sourceUrls?: string[];
+  importChannels?: AssetImportChannel[];
   fav?: '0' | '1';
   liked?: '0' | '1';
+  /** 現在のユーザーの読書状態 */
+  reading?: StackReadingState;
   hasNoTags?: boolean;
   hasNoAuthor?: boolean;
   search?: string;
   stackIds?: number[];
-  sort?: 'recommended' | 'dateAdded' | 'name' | 'likes' | 'updated' | 'id';
+  sort?: 'recommended' | 'relevance' | 'dateAdded' | 'name' | 'likes' | 'updated' | 'id';
   order?: 'asc' | 'desc';
   limit: number;
   offset: number;
@@ -66,6 +94,11 @@ export interface AssetRow {
   dominant_colors_json: string | null;
   created_at: string;
   updated_at: string;
+  source_page_url?: string | null;
+  source_media_url?: string | null;
+  source_referrer?: string | null;
+  import_channel?: AssetImportChannel | null;
+  imported_at?: string | null;
   is_favorite?: number;
 }
 
@@ -108,10 +141,22 @@ export interface StandaloneFileInput {
   size: number;
 }
 
+export const ASSET_IMPORT_CHANNELS = ['upload', 'clipper', 'url-import', 'watched-folder'] as const;
+export type AssetImportChannel = (typeof ASSET_IMPORT_CHANNELS)[number];
+
+/** アセットの取り込み元。mediaUrl が取り込み済みならそのデータセットには重複として取り込まない */
+export interface AssetSourceInput {
+  channel: AssetImportChannel;
+  pageUrl?: string | null;
+  mediaUrl?: string | null;
+  referrer?: string | null;
+}
+
 export interface AddAssetWithFileOptions {
   allowDuplicate?: boolean;
   storageHash?: string;
   meta?: Record<string, unknown>;
+  source?: AssetSourceInput;
 }
 
 export interface CreateStackWithFileInput {
@@ -120,6 +165,8 @@ export interface CreateStackWithFileInput {
   mediaType: StackMediaCategory;
   author?: string;
   tags?: string[];
+  /** 取り込み元（ページ / メディア URL は自動化ルールの条件にも使う） */
+  source?: AssetSourceInput;
   file: StandaloneFileInput;
 }
 
@@ -173,3 +220,11 @@ export interface SimilarVectors {
   auto: Map<string, number>;
   manual: Set<string>;
 }
+
+// tags: タグのみ / visual: 画像埋め込みのみ / hybrid: 両方を混ぜる
+export type SimilarMode = 'tags' | 'visual' | 'hybrid';
+
+export interface StackEmbeddingRow {
+  stack_id: number;
+  vector: Uint8Array;
+}
@@ -1,10 +1,16 @@
 import type { DatabaseSync } from 'node:sqlite';
 import { nowIso } from '../sqlite';
+import type { StackAutomationService } from './automation-service';
+import type { StackSearchIndexService } from './search-index-service';
 
 type StackResolver<TStack> = (id: number, dataSetId: number) => TStack | null;
 
 export class StackWriterService {
-  constructor(private db: DatabaseSync) {}
+  constructor(
+    private db: DatabaseSync,
+    private searchIndexService: StackSearchIndexService,
+    private automationService: StackAutomationService
+  ) {}
 
   updateStack<TStack>(
     stackId: number,
@@ -44,6 +50,8 @@ export class StackWriterService {
       this.db
         .prepare(`UPDATE stacks SET ${updates.join(', ')} WHERE id = ? AND dataset_id = ?`)
         .run(...params, stackId, dataSetId);
+      if (data.name !== undefined) this.searchIndexService.refreshStack(stackId);
+      this.automationService.runForStack(stackId);
     }
 
     return resolveStack(stackId, dataSetId);
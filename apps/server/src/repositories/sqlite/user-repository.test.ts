@@ -0,0 +1,107 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { runWithCurrentUser } from '../../shared/current-user';
+import { StandaloneStackRepository } from './stack-repository';
+import { type StandaloneUser, StandaloneUserRepository } from './user-repository';
+
+const schemaPath = resolve(process.cwd(), 'sqlite/schema.sql');
+const now = '2026-07-01T00:00:00.000Z';
+
+describe('StandaloneUserRepository', () => {
+  let db: DatabaseSync;
+  let repository: StandaloneUserRepository;
+
+  beforeEach(() => {
+    db = new DatabaseSync(':memory:');
+    db.exec(readFileSync(schemaPath, 'utf8'));
+    repository = new StandaloneUserRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('claims the existing single user when the first account is set up', () => {
+    db.prepare(
+      `INSERT INTO users (id, name, role, created_at, updated_at) VALUES (1, 'Standalone User', 'super', ?, ?)`
+    ).run(now, now);
+    expect(repository.hasAccounts()).toBe(false);
+
+    const admin = repository.setupFirstAccount('owner', 'correct horse');
+
+    expect(admin).toMatchObject({ id: 1, name: 'owner', role: 'super', hasPassword: true });
+    expect(repository.hasAccounts()).toBe(true);
+    expect(repository.setupFirstAccount('other', 'correct horse')).toBeNull();
+    expect(repository.verifyCredentials('OWNER', 'correct horse')?.id).toBe(1);
+    expect(repository.verifyCredentials('owner', 'wrong password')).toBeNull();
+  });
+
+  it('invalidates sessions when the password changes or the user is disabled', () => {
+    const user = repository.create({ name: 'alice', role: 'user', password: 'first password' });
+    const { token } = repository.createSession(user.id);
+    expect(repository.getSessionUser(token)?.name).toBe('alice');
+
+    repository.update(user.id, { password: 'second password' });
+    expect(repository.getSessionUser(token)).toBeNull();
+
+    const next = repository.createSession(user.id);
+    repository.update(user.id, { disabled: true });
+    expect(repository.getSessionUser(next.token)).toBeNull();
+    expect(repository.verifyCredentials('alice', 'second password')).toBeNull();
+  });
+
+  it('scopes favorites to the current user', () => {
+    const alice = repository.create({ name: 'alice', role: 'super', password: 'alice password' });
+    const bob = repository.create({ name: 'bob', role: 'viewer', password: 'bob password' });
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at) VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES (1, 1, 'Cloud', '', 'image', ?, ?)`
+    ).run(now, now);
+    const stacks = new StandaloneStackRepository(db);
+    const asUser = <T>(user: StandaloneUser, fn: () => T) =>
+      runWithCurrentUser({ id: user.id, name: user.name, role: user.role }, fn);
+
+    asUser(alice, () => stacks.toggleStackFavorite(1, true));
+
+    expect(asUser(alice, () => stacks.getById(1)?.isFavorite)).toBe(true);
+    expect(asUser(bob, () => stacks.getById(1)?.isFavorite)).toBe(false);
+    expect(
+      asUser(bob, () => stacks.getPaginated({ dataSetId: 1, fav: '1', limit: 10, offset: 0 }).total)
+    ).toBe(0);
+  });
+
+  it('scopes likes to the current user', () => {
+    const alice = repository.create({ name: 'alice', role: 'super', password: 'alice password' });
+    const bob = repository.create({ name: 'bob', role: 'viewer', password: 'bob password' });
+    db.prepare(
+      `INSERT INTO datasets (id, name, created_at, updated_at) VALUES (1, 'Library', ?, ?)`
+    ).run(now, now);
+    db.prepare(
+      `INSERT INTO stacks (id, dataset_id, name, thumbnail, media_type, created_at, updated_at)
+       VALUES (1, 1, 'Cloud', '', 'image', ?, ?), (2, 1, 'Rain', '', 'image', ?, ?)`
+    ).run(now, now, now, now);
+    const stacks = new StandaloneStackRepository(db);
+    const asUser = <T>(user: StandaloneUser, fn: () => T) =>
+      runWithCurrentUser({ id: user.id, name: user.name, role: user.role }, fn);
+    const list = (query: { liked?: '0' | '1'; sort?: 'likes' }) =>
+      stacks
+        .getPaginated({ dataSetId: 1, ...query, order: 'desc', limit: 10, offset: 0 })
+        .stacks.map((stack) => stack.id);
+
+    asUser(alice, () => stacks.likeStack(1));
+    asUser(alice, () => stacks.likeStack(1));
+    expect(asUser(bob, () => stacks.likeStack(2))).toMatchObject({ stackId: 2, liked: 1 });
+
+    expect(asUser(alice, () => stacks.getById(1)?.liked)).toBe(2);
+    expect(asUser(bob, () => stacks.getById(1)?.liked)).toBe(0);
+    expect(asUser(alice, () => list({ liked: '1' }))).toEqual([1]);
+    expect(asUser(bob, () => list({ liked: '1' }))).toEqual([2]);
+    expect(asUser(bob, () => list({ liked: '0' }))).toEqual([1]);
+    expect(asUser(bob, () => list({ sort: 'likes' }))).toEqual([2, 1]);
+  });
+});
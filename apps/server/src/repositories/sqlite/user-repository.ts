@@ -0,0 +1,254 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { DatabaseSync } from 'node:sqlite';
+import type { CreateUserInput, UpdateUserInput, UserRole } from '../../models/UserModel';
+import { getCurrentUser } from '../../shared/current-user';
+import { hashPassword, verifyPassword } from '../../utils/dataset-protection';
+import { getStandaloneSqlite, nowIso, type SqliteBindValue } from './sqlite';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// 毎リクエストで書き込まないよう、最終アクセス日時はこの間隔でだけ更新する
+const SESSION_TOUCH_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface StandaloneUser {
+  id: number;
+  name: string;
+  email: string | null;
+  role: UserRole;
+  hasPassword: boolean;
+  disabled: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface UserRow {
+  id: number;
+  name: string;
+  email: string | null;
+  role: UserRole;
+  password_hash: string | null;
+  is_disabled: number;
+  last_login_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SessionRow extends UserRow {
+  session_id: number;
+  last_seen_at: string;
+}
+
+const toUser = (row: UserRow): StandaloneUser => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  role: row.role,
+  hasPassword: Boolean(row.password_hash),
+  disabled: row.is_disabled === 1,
+  lastLoginAt: row.last_login_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// salt とハッシュを 1 カラムにまとめて保存する
+const encodePassword = (password: string) => {
+  const { salt, hash } = hashPassword(password);
+  return `${salt}:${hash}`;
+};
+
+const matchesPassword = (password: string, stored: string | null) => {
+  const [salt, hash] = stored?.split(':') ?? [];
+  if (!salt || !hash) return false;
+  return verifyPassword(password, salt, hash);
+};
+
+const hashSessionToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/** アカウント導入前から使われている単一ユーザー（無ければ作成する） */
+export const ensureDefaultUserId = (db: DatabaseSync) => {
+  const existing = db.prepare('SELECT id FROM users ORDER BY id ASC LIMIT 1').get() as
+    | { id: number }
+    | undefined;
+  if (existing) return existing.id;
+
+  const now = nowIso();
+  const result = db
+    .prepare('INSERT INTO users (name, role, created_at, updated_at) VALUES (?, ?, ?, ?)')
+    .run('Standalone User', 'super', now, now);
+  return Number(result.lastInsertRowid);
+};
+
+/** お気に入り・いいね・ピンの所有者。ログインしていなければ既定のユーザー */
+export const resolveCurrentUserId = (db: DatabaseSync) =>
+  getCurrentUser()?.id ?? ensureDefaultUserId(db);
+
+export class StandaloneUserRepository {
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {}
+
+  /** パスワードを持つユーザーが 1 人でもいればログインを必須にする */
+  hasAccounts() {
+    return Boolean(
+      this.db.prepare('SELECT 1 FROM users WHERE password_hash IS NOT NULL LIMIT 1').get()
+    );
+  }
+
+  list(): StandaloneUser[] {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY id ASC').all() as UserRow[];
+    return rows.map(toUser);
+  }
+
+  getById(id: number): StandaloneUser | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    return row ? toUser(row) : null;
+  }
+
+  create(data: CreateUserInput): StandaloneUser {
+    const now = nowIso();
+    const result = this.db
+      .prepare(
+        `INSERT INTO users (name, email, role, password_hash, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        data.name,
+        data.email || null,
+        data.role ?? 'user',
+        encodePassword(data.password),
+        now,
+        now
+      );
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  update(id: number, data: UpdateUserInput): StandaloneUser | null {
+    if (!this.getById(id)) return null;
+    const updates = ['updated_at = ?'];
+    const params: SqliteBindValue[] = [nowIso()];
+
+    if (data.name !== undefined) {
+      updates.push('name = ?');
+      params.push(data.name);
+    }
+    if (data.email !== undefined) {
+      updates.push('email = ?');
+      params.push(data.email || null);
+    }
+    if (data.role !== undefined) {
+      updates.push('role = ?');
+      params.push(data.role);
+    }
+    if (data.password !== undefined) {
+      updates.push('password_hash = ?');
+      params.push(encodePassword(data.password));
+    }
+    if (data.disabled !== undefined) {
+      updates.push('is_disabled = ?');
+      params.push(data.disabled ? 1 : 0);
+    }
+
+    this.db.prepare(`UPDATE users SET ${updates.join(', ')} WHERE id = ?`).run(...params, id);
+    // パスワード変更・無効化したユーザーのセッションは破棄する
+    if (data.password !== undefined || data.disabled) this.deleteSessionsForUser(id);
+    return this.getById(id);
+  }
+
+  delete(id: number) {
+    const result = this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  /** 有効な管理者の数（excludeId のユーザーを除く） */
+  countActiveAdmins(excludeId?: number) {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM users
+         WHERE role = 'super' AND is_disabled = 0 AND password_hash IS NOT NULL AND id <> ?`
+      )
+      .get(excludeId ?? 0) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * 最初の管理者アカウントを作る。既存の単一ユーザーを引き継ぐため、
+   * それまでのお気に入り・いいね・ピンはそのまま残る。
+   */
+  setupFirstAccount(name: string, password: string): StandaloneUser | null {
+    if (this.hasAccounts()) return null;
+    const id = ensureDefaultUserId(this.db);
+    this.db
+      .prepare(
+        `UPDATE users SET name = ?, role = 'super', password_hash = ?, is_disabled = 0, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(name, encodePassword(password), nowIso(), id);
+    return this.getById(id);
+  }
+
+  verifyCredentials(name: string, password: string): StandaloneUser | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE name = ?').get(name) as
+      | UserRow
+      | undefined;
+    if (!row || row.is_disabled === 1) return null;
+    return matchesPassword(password, row.password_hash) ? toUser(row) : null;
+  }
+
+  verifyPassword(id: number, password: string) {
+    const row = this.db.prepare('SELECT password_hash FROM users WHERE id = ?').get(id) as
+      | { password_hash: string | null }
+      | undefined;
+    return matchesPassword(password, row?.password_hash ?? null);
+  }
+
+  createSession(userId: number) {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString();
+    this.db
+      .prepare(
+        `INSERT INTO user_sessions (user_id, token_hash, created_at, last_seen_at, expires_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(userId, hashSessionToken(token), now.toISOString(), now.toISOString(), expiresAt);
+    this.db
+      .prepare('UPDATE users SET last_login_at = ? WHERE id = ?')
+      .run(now.toISOString(), userId);
+    return { token, expiresAt };
+  }
+
+  /** 有効なセッションのユーザーを返す。期限切れ・無効化されたユーザーは null */
+  getSessionUser(token: string): StandaloneUser | null {
+    const now = new Date();
+    const row = this.db
+      .prepare(
+        `SELECT u.*, s.id AS session_id, s.last_seen_at
+         FROM user_sessions s
+         JOIN users u ON u.id = s.user_id
+         WHERE s.token_hash = ? AND s.expires_at > ?`
+      )
+      .get(hashSessionToken(token), now.toISOString()) as SessionRow | undefined;
+    if (!row || row.is_disabled === 1 || !row.password_hash) return null;
+
+    if (now.getTime() - Date.parse(row.last_seen_at) > SESSION_TOUCH_INTERVAL_MS) {
+      this.db
+        .prepare('UPDATE user_sessions SET last_seen_at = ?, expires_at = ? WHERE id = ?')
+        .run(
+          now.toISOString(),
+          new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+          row.session_id
+        );
+    }
+    return toUser(row);
+  }
+
+  deleteSession(token: string) {
+    this.db.prepare('DELETE FROM user_sessions WHERE token_hash = ?').run(hashSessionToken(token));
+  }
+
+  deleteSessionsForUser(userId: number) {
+    this.db.prepare('DELETE FROM user_sessions WHERE user_id = ?').run(userId);
+  }
+
+  deleteExpiredSessions() {
+    this.db.prepare('DELETE FROM user_sessions WHERE expires_at <= ?').run(nowIso());
+  }
+}
@@ -0,0 +1,226 @@
+import type { DatabaseSync } from 'node:sqlite';
+import type {
+  CreateWatchedFolderInput,
+  FolderGroupingMode,
+  UpdateWatchedFolderInput,
+  WatchedFolderAfterImport,
+} from '../../models/WatchedFolderModel';
+import { getStandaloneSqlite, nowIso, type SqliteBindValue } from './sqlite';
+
+export interface WatchedFolder {
+  id: number;
+  dataSetId: number;
+  path: string;
+  groupingMode: FolderGroupingMode;
+  mediaType: 'image' | 'comic' | 'video' | null;
+  tags: string[];
+  author: string | null;
+  collectionId: number | null;
+  afterImport: WatchedFolderAfterImport;
+  processedPath: string | null;
+  settleSeconds: number;
+  enabled: boolean;
+  lastScanAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImportedFileStamp {
+  size: number;
+  mtimeMs: number;
+}
+
+interface WatchedFolderRow {
+  id: number;
+  dataset_id: number;
+  path: string;
+  grouping_mode: FolderGroupingMode;
+  media_type: 'image' | 'comic' | 'video' | null;
+  tags_json: string;
+  author: string | null;
+  collection_id: number | null;
+  after_import: WatchedFolderAfterImport;
+  processed_path: string | null;
+  settle_seconds: number;
+  is_enabled: number;
+  last_scan_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ImportedFileRow {
+  relative_path: string;
+  size: number;
+  mtime_ms: number;
+}
+
+const parseTags = (value: string): string[] => {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((tag) => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const toWatchedFolder = (row: WatchedFolderRow): WatchedFolder => ({
+  id: row.id,
+  dataSetId: row.dataset_id,
+  path: row.path,
+  groupingMode: row.grouping_mode,
+  mediaType: row.media_type,
+  tags: parseTags(row.tags_json),
+  author: row.author,
+  collectionId: row.collection_id,
+  afterImport: row.after_import,
+  processedPath: row.processed_path,
+  settleSeconds: row.settle_seconds,
+  enabled: row.is_enabled === 1,
+  lastScanAt: row.last_scan_at,
+  lastError: row.last_error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const emptyToNull = (value: string | null | undefined) => (value?.trim() ? value.trim() : null);
+
+export class StandaloneWatchedFolderRepository {
+  constructor(private db: DatabaseSync = getStandaloneSqlite()) {}
+
+  list(dataSetId?: number): WatchedFolder[] {
+    const rows = (
+      dataSetId
+        ? this.db
+            .prepare('SELECT * FROM watched_folders WHERE dataset_id = ? ORDER BY id ASC')
+            .all(dataSetId)
+        : this.db.prepare('SELECT * FROM watched_folders ORDER BY id ASC').all()
+    ) as WatchedFolderRow[];
+    return rows.map(toWatchedFolder);
+  }
+
+  getEnabled(): WatchedFolder[] {
+    return this.list().filter((folder) => folder.enabled);
+  }
+
+  getById(id: number): WatchedFolder | null {
+    const row = this.db.prepare('SELECT * FROM watched_folders WHERE id = ?').get(id) as
+      | WatchedFolderRow
+      | undefined;
+    return row ? toWatchedFolder(row) : null;
+  }
+
+  create(data: CreateWatchedFolderInput): WatchedFolder {
+    const now = nowIso();
+    const result = this.db
+      .prepare(
+        `INSERT INTO watched_folders
+           (dataset_id, path, grouping_mode, media_type, tags_json, author, collection_id,
+            after_import, processed_path, settle_seconds, is_enabled, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        data.dataSetId,
+        data.path,
+        data.groupingMode ?? 'single-stack',
+        data.mediaType ?? null,
+        JSON.stringify(data.tags ?? []),
+        emptyToNull(data.author),
+        data.collectionId ?? null,
+        data.afterImport ?? 'move',
+        emptyToNull(data.processedPath),
+        data.settleSeconds ?? 5,
+        data.enabled === false ? 0 : 1,
+        now,
+        now
+      );
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  update(id: number, data: UpdateWatchedFolderInput): WatchedFolder | null {
+    if (!this.getById(id)) return null;
+    const updates = ['updated_at = ?'];
+    const params: SqliteBindValue[] = [nowIso()];
+
+    if (data.path !== undefined) {
+      updates.push('path = ?');
+      params.push(data.path);
+    }
+    if (data.groupingMode !== undefined) {
+      updates.push('grouping_mode = ?');
+      params.push(data.groupingMode);
+    }
+    if (data.mediaType !== undefined) {
+      updates.push('media_type = ?');
+      params.push(data.mediaType);
+    }
+    if (data.tags !== undefined) {
+      updates.push('tags_json = ?');
+      params.push(JSON.stringify(data.tags));
+    }
+    if (data.author !== undefined) {
+      updates.push('author = ?');
+      params.push(emptyToNull(data.author));
+    }
+    if (data.collectionId !== undefined) {
+      updates.push('collection_id = ?');
+      params.push(data.collectionId);
+    }
+    if (data.afterImport !== undefined) {
+      updates.push('after_import = ?');
+      params.push(data.afterImport);
+    }
+    if (data.processedPath !== undefined) {
+      updates.push('processed_path = ?');
+      params.push(emptyToNull(data.processedPath));
+    }
+    if (data.settleSeconds !== undefined) {
+      updates.push('settle_seconds = ?');
+      params.push(data.settleSeconds);
+    }
+    if (data.enabled !== undefined) {
+      updates.push('is_enabled = ?');
+      params.push(data.enabled ? 1 : 0);
+    }
+
+    this.db
+      .prepare(`UPDATE watched_folders SET ${updates.join(', ')} WHERE id = ?`)
+      .run(...params, id);
+    return this.getById(id);
+  }
+
+  delete(id: number) {
+    const result = this.db.prepare('DELETE FROM watched_folders WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  markScanned(id: number, error: string | null) {
+    this.db
+      .prepare('UPDATE watched_folders SET last_scan_at = ?, last_error = ? WHERE id = ?')
+      .run(nowIso(), error, id);
+  }
+
+  /** 取り込み後もファイルを残す設定のときに、取り込み済みのファイルを返す */
+  getImportedFiles(id: number): Map<string, ImportedFileStamp> {
+    const rows = this.db
+      .prepare(
+        'SELECT relative_path, size, mtime_ms FROM watched_folder_files WHERE watched_folder_id = ?'
+      )
+      .all(id) as ImportedFileRow[];
+    return new Map(
+      rows.map((row) => [row.relative_path, { size: row.size, mtimeMs: row.mtime_ms }])
+    );
+  }
+
+  recordImportedFile(id: number, relativePath: string, stamp: ImportedFileStamp) {
+    this.db
+      .prepare(
+        `INSERT INTO watched_folder_files (watched_folder_id, relative_path, size, mtime_ms, imported_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (watched_folder_id, relative_path)
+         DO UPDATE SET size = excluded.size, mtime_ms = excluded.mtime_ms, imported_at = excluded.imported_at`
+      )
+      .run(id, relativePath, stamp.size, Math.floor(stamp.mtimeMs), nowIso());
+  }
+}
@@ -1,7 +1,9 @@
 import { Hono } from 'hono';
 import { activitiesRoute } from './routes/activities';
 import { assetsLiteRoute } from './routes/assets-lite';
+import { authRoute } from './routes/auth';
 import { authorsRoute } from './routes/authors';
+import { automationRulesRoute } from './routes/automationRules';
 import { autoTagsRoute } from './routes/autoTags';
 import { clipperRoute } from './routes/clipper';
 import { collectionFoldersRoute } from './routes/collectionFolders';
@@ -11,10 +13,16 @@ import { datasetAssetsRoute } from './routes/dataset-assets';
 import { datasetStacksRoute } from './routes/datasetStacks';
 // Mount legacy-stable routes consumed by the client
 import { datasetsLiteRoute } from './routes/datasets-lite';
+import { jobsRoute } from './routes/jobs';
 import { navigationPinsRouter } from './routes/navigationPins';
+import { operationsRoute } from './routes/operations';
+import { shareLinksRoute } from './routes/shareLinks';
 import { stacksRoute } from './routes/stacks';
 import { tagsRoute } from './routes/tags';
+import { trashRoute } from './routes/trash';
 import { uploadRoute } from './routes/upload';
+import { usersRoute } from './routes/users';
+import { watchedFoldersRoute } from './routes/watchedFolders';
 
 // If/when feature routes are fully migrated, they can be re-enabled here.
 // legacy feature routes removed
@@ -24,6 +32,9 @@ export const apiRoutes = new Hono()
   .get('/health', (c) =>
     c.json({ status: 'ok', ts: new Date().toISOString(), node: process.version })
   )
+  // Login sessions and user accounts
+  .route('/auth', authRoute)
+  .route('/users', usersRoute)
   .route('/datasets', datasetsLiteRoute)
   // Dataset-scoped stacks routes (search, similar, CRUD)
   .route('/datasets', datasetStacksRoute)
@@ -31,6 +42,9 @@ export const apiRoutes = new Hono()
   .route('/datasets', datasetAssetsRoute)
   .route('/stacks', stacksRoute)
   .route('/assets', assetsLiteRoute)
+  // Trash (soft-deleted stacks/assets) and the undoable operation log
+  .route('/trash', trashRoute)
+  .route('/operations', operationsRoute)
   // Only mount minimal routes needed for initial app load
   // (others can be re-enabled once dependencies are aligned)
   .route('/collections', collectionsRoute)
@@ -42,5 +56,13 @@ export const apiRoutes = new Hono()
   .route('/navigation-pins', navigationPinsRouter)
   .route('/clipper', clipperRoute)
   .route('/upload', uploadRoute)
+  // Background jobs (refresh-all, bulk refresh, URL imports)
+  .route('/jobs', jobsRoute)
+  // Server-side watched folders (auto-ingest)
+  .route('/watched-folders', watchedFoldersRoute)
+  // Per-dataset automation rules for incoming stacks
+  .route('/automation-rules', automationRulesRoute)
+  // Read-only share links (the public viewer itself is mounted at /share)
+  .route('/share-links', shareLinksRoute)
   // Auto-Tag endpoints (mappings, statistics, CRUD)
   .route('/auto-tags', autoTagsRoute);
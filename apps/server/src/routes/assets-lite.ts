@@ -1,16 +1,52 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
+import {
+  type AnnotationLayerInput,
+  StandaloneAnnotationRepository,
+} from '../repositories/sqlite/annotation-repository';
+import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
+import { StandaloneOperationLogRepository } from '../repositories/sqlite/operation-log-repository';
 import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
 
 export const assetsLiteRoute = new Hono();
 const stackRepository = new StandaloneStackRepository();
+const operationLogRepository = new StandaloneOperationLogRepository();
+const annotationRepository = new StandaloneAnnotationRepository();
+
+const MAX_ANNOTATION_LAYERS = 20;
+
+const AnnotationStrokeSchema = z.object({
+  points: z.array(z.object({ x: z.number(), y: z.number() })).min(1),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  size: z.number().positive().max(1),
+  opacity: z.number().min(0).max(1),
+  mode: z.enum(['draw', 'erase']),
+});
+
+const AnnotationLayersSchema = z.object({
+  layers: z
+    .array(
+      z.object({
+        id: z.number().int().positive().optional(),
+        name: z.string().trim().min(1).max(100),
+        visible: z.boolean(),
+        opacity: z.number().min(0).max(1),
+        strokes: z.array(AnnotationStrokeSchema),
+      })
+    )
+    .max(MAX_ANNOTATION_LAYERS),
+});
 
 // DELETE /assets/:assetId
 assetsLiteRoute.delete('/:assetId', async (c) => {
   const assetId = Number.parseInt(c.req.param('assetId'), 10);
-  const ok = stackRepository.deleteAsset(assetId);
-  if (!ok) return c.json({ error: 'Asset not found' }, 404);
-  return c.json({ success: true });
+  const dataSetId = operationLogRepository.getDatasetIdOfAsset(assetId);
+  const trashItemId = stackRepository.deleteAsset(assetId);
+  if (!trashItemId) return c.json({ error: 'Asset not found' }, 404);
+  const operationId = operationLogRepository.record(dataSetId, 'assets.remove', 1, {
+    trashItemIds: [trashItemId],
+  });
+  return c.json({ success: true, operationId });
 });
 
 // POST /assets/:assetId/separate
@@ -19,9 +55,14 @@ assetsLiteRoute.post('/:assetId/separate', async (c) => {
   if (Number.isNaN(assetId)) {
     return c.json({ error: 'Invalid asset id' }, 400);
   }
+  const undo = operationLogRepository.captureAssetSeparation(assetId);
   const stack = stackRepository.separateAsset(assetId);
-  if (!stack) return c.json({ error: 'Asset not found' }, 404);
-  return c.json({ success: true, stack });
+  if (!undo || !stack) return c.json({ error: 'Asset not found' }, 404);
+  const operationId = operationLogRepository.record(stack.dataSetId, 'assets.separate', 1, {
+    ...undo,
+    newStackId: stack.id,
+  });
+  return c.json({ success: true, stack, operationId });
 });
 
 // PUT /assets/:assetId/order
@@ -63,3 +104,56 @@ assetsLiteRoute.post('/:assetId/like', async (c) => {
     assetId: result.assetId,
   });
 });
+
+// GET /assets/:assetId/metadata (取り込み時に抽出した EXIF / XMP / IPTC / PNG テキスト)
+assetsLiteRoute.get('/:assetId/metadata', async (c) => {
+  const assetId = Number.parseInt(c.req.param('assetId'), 10);
+  if (Number.isNaN(assetId)) return c.json({ error: 'Invalid asset id' }, 400);
+
+  const dataSetId = annotationRepository.getAssetDataSetId(assetId);
+  if (dataSetId === null) return c.json({ error: 'Asset not found' }, 404);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+  if (auth) return auth;
+
+  return c.json({ assetId, metadata: stackRepository.getAssetEmbeddedMetadata(assetId) });
+});
+
+// GET /assets/:assetId/annotations
+assetsLiteRoute.get('/:assetId/annotations', async (c) => {
+  const assetId = Number.parseInt(c.req.param('assetId'), 10);
+  if (Number.isNaN(assetId)) return c.json({ error: 'Invalid asset id' }, 400);
+
+  const dataSetId = annotationRepository.getAssetDataSetId(assetId);
+  if (dataSetId === null) return c.json({ error: 'Asset not found' }, 404);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+  if (auth) return auth;
+
+  return c.json({ assetId, layers: annotationRepository.getLayers(assetId) });
+});
+
+// PUT /assets/:assetId/annotations (レイヤー一覧を丸ごと保存)
+assetsLiteRoute.put('/:assetId/annotations', async (c) => {
+  const assetId = Number.parseInt(c.req.param('assetId'), 10);
+  if (Number.isNaN(assetId)) return c.json({ error: 'Invalid asset id' }, 400);
+
+  const body = await c.req.json().catch(() => ({}));
+  const parse = AnnotationLayersSchema.safeParse(body);
+  if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
+
+  const dataSetId = annotationRepository.getAssetDataSetId(assetId);
+  if (dataSetId === null) return c.json({ error: 'Asset not found' }, 404);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+  if (auth) return auth;
+
+  try {
+    const layers = annotationRepository.replaceLayers(
+      assetId,
+      parse.data.layers as AnnotationLayerInput[]
+    );
+    if (!layers) return c.json({ error: 'Asset not found' }, 404);
+    return c.json({ assetId, layers });
+  } catch (error) {
+    console.error('Failed to save annotations:', error);
+    return c.json({ error: 'Failed to save annotations' }, 500);
+  }
+});
@@ -0,0 +1,68 @@
+import { zValidator } from '@hono/zod-validator';
+import type { Context } from 'hono';
+import { Hono } from 'hono';
+import { ChangePasswordSchema, LoginSchema, SetupAccountSchema } from '../models/UserModel.js';
+import { StandaloneUserRepository } from '../repositories/sqlite/user-repository';
+import { clearSessionCookie, getSessionToken, setSessionCookie } from '../utils/user-session';
+
+const app = new Hono();
+const userRepository = new StandaloneUserRepository();
+
+const startSession = (c: Context, userId: number) => {
+  const session = userRepository.createSession(userId);
+  setSessionCookie(c, session.token, session.expiresAt);
+};
+
+// ログイン状態（アカウントが未設定なら accountsEnabled: false）
+app.get('/session', (c) => {
+  const currentUser = c.get('currentUser');
+  return c.json({
+    accountsEnabled: userRepository.hasAccounts(),
+    user: currentUser ? userRepository.getById(currentUser.id) : null,
+  });
+});
+
+// 最初の管理者アカウントを作成し、そのままログインする
+app.post('/setup', zValidator('json', SetupAccountSchema), (c) => {
+  const { name, password } = c.req.valid('json');
+  try {
+    const user = userRepository.setupFirstAccount(name, password);
+    if (!user) return c.json({ error: 'Accounts are already configured' }, 409);
+    startSession(c, user.id);
+    return c.json({ user }, 201);
+  } catch (error) {
+    console.error('Failed to set up the first account:', error);
+    return c.json({ error: 'Failed to set up the account' }, 500);
+  }
+});
+
+app.post('/login', zValidator('json', LoginSchema), (c) => {
+  const { name, password } = c.req.valid('json');
+  const user = userRepository.verifyCredentials(name, password);
+  if (!user) return c.json({ error: 'Invalid user name or password' }, 401);
+  userRepository.deleteExpiredSessions();
+  startSession(c, user.id);
+  return c.json({ user });
+});
+
+app.post('/logout', (c) => {
+  const token = getSessionToken(c);
+  if (token) userRepository.deleteSession(token);
+  clearSessionCookie(c);
+  return c.json({ success: true });
+});
+
+// 自分のパスワードを変更する（他の端末のセッションは破棄される）
+app.put('/password', zValidator('json', ChangePasswordSchema), (c) => {
+  const currentUser = c.get('currentUser');
+  if (!currentUser) return c.json({ error: 'Authentication required', authRequired: true }, 401);
+  const { currentPassword, newPassword } = c.req.valid('json');
+  if (!userRepository.verifyPassword(currentUser.id, currentPassword)) {
+    return c.json({ error: 'Current password is incorrect' }, 400);
+  }
+  const user = userRepository.update(currentUser.id, { password: newPassword });
+  startSession(c, currentUser.id);
+  return c.json({ user });
+});
+
+export { app as authRoute };
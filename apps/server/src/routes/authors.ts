@@ -2,13 +2,22 @@ import { zValidator } from '@hono/zod-validator';
 import type { Context } from 'hono';
 import { Hono } from 'hono';
 import { z } from 'zod';
+import { JOB_TYPES, jobQueue } from '../jobs';
 import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
+import {
+  AUTHOR_WORK_STATUSES,
+  StandaloneAuthorInboxRepository,
+} from '../repositories/sqlite/author-inbox-repository';
 import { StandaloneMetadataRepository } from '../repositories/sqlite/metadata-repository';
+import { StandaloneOperationLogRepository } from '../repositories/sqlite/operation-log-repository';
 import { IdParamSchema, ManagementPaginationSchema } from '../schemas/index.js';
 import type { AuthorLinkInput } from '../shared/author-links';
+import { getAuthorProviderFetcher } from '../shared/author-providers';
 
 export const authorsRoute = new Hono();
 const metadataRepository = new StandaloneMetadataRepository();
+const authorInboxRepository = new StandaloneAuthorInboxRepository();
+const operationLogRepository = new StandaloneOperationLogRepository();
 
 const AuthorLinkInputSchema = z.object({
   id: z.number().int().positive().optional(),
@@ -28,6 +37,21 @@ const AuthorMergeSchema = z.object({
   sourceAuthorIds: z.array(z.coerce.number().int().positive()).min(1),
 });
 
+const AuthorInboxQuerySchema = ManagementPaginationSchema.extend({
+  status: z.enum(AUTHOR_WORK_STATUSES).optional(),
+  authorId: z.coerce.number().int().positive().optional(),
+});
+
+const AuthorInboxRefreshSchema = z.object({
+  dataSetId: z.coerce.number().int().positive().optional(),
+  datasetId: z.coerce.number().int().positive().optional(),
+  authorIds: z.array(z.coerce.number().int().positive()).optional(),
+});
+
+const AuthorWorkUpdateSchema = z.object({
+  status: z.enum(AUTHOR_WORK_STATUSES),
+});
+
 type AuthorLinkInputBody = z.infer<typeof AuthorLinkInputSchema>;
 type AuthorUpdateBody = z.infer<typeof AuthorUpdateSchema>;
 type AuthorUpdateInput = { name?: string; links?: AuthorLinkInput[] };
@@ -96,13 +120,24 @@ authorsRoute.post('/merge', zValidator('json', AuthorMergeSchema), async (c) =>
     const dataSetId = body.dataSetId ?? body.datasetId ?? getDataSetId(c);
     const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
     if (auth) return auth;
+    const undo = operationLogRepository.captureAuthorMerge(
+      dataSetId,
+      body.targetAuthorId,
+      body.sourceAuthorIds
+    );
     const result = metadataRepository.mergeAuthors(
       dataSetId,
       body.targetAuthorId,
       body.sourceAuthorIds
     );
     if (!result) return c.json({ error: 'Author not found' }, 404);
-    return c.json(result);
+    const operationId = operationLogRepository.record(
+      dataSetId,
+      'authors.merge',
+      body.sourceAuthorIds.length,
+      undo
+    );
+    return c.json({ ...result, operationId });
   } catch (error) {
     console.error('Error merging authors:', error);
     return c.json(
@@ -112,6 +147,64 @@ authorsRoute.post('/merge', zValidator('json', AuthorMergeSchema), async (c) =>
   }
 });
 
+const enqueueAuthorWorksFetch = (dataSetId: number, authorIds?: number[]) =>
+  jobQueue.enqueue(JOB_TYPES.fetchAuthorWorks, { dataSetId, authorIds }, { dataSetId });
+
+// List new works found through author links that are not in the library yet
+authorsRoute.get('/inbox', zValidator('query', AuthorInboxQuerySchema), async (c) => {
+  try {
+    const { limit, offset, status, authorId } = c.req.valid('query');
+    const dataSetId = getDataSetId(c);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+    return c.json({
+      ...authorInboxRepository.listInbox(dataSetId, { limit, offset, status, authorId }),
+      providerConfigured: getAuthorProviderFetcher() !== null,
+    });
+  } catch (error) {
+    console.error('Error getting author inbox:', error);
+    return c.json({ error: 'Failed to get author inbox' }, 500);
+  }
+});
+
+// Fetch profiles and recent works for linked authors in the background
+authorsRoute.post('/inbox/refresh', zValidator('json', AuthorInboxRefreshSchema), async (c) => {
+  try {
+    const body = c.req.valid('json');
+    const dataSetId = body.dataSetId ?? body.datasetId ?? getDataSetId(c);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+    if (!getAuthorProviderFetcher()) {
+      return c.json({ error: 'Author provider is not configured' }, 503);
+    }
+    return c.json({ job: enqueueAuthorWorksFetch(dataSetId, body.authorIds) }, 202);
+  } catch (error) {
+    console.error('Error refreshing author inbox:', error);
+    return c.json({ error: 'Failed to refresh author inbox' }, 500);
+  }
+});
+
+// Mark an inbox work as imported or dismissed (or back to new)
+authorsRoute.patch(
+  '/works/:id',
+  zValidator('param', IdParamSchema),
+  zValidator('json', AuthorWorkUpdateSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { status } = c.req.valid('json');
+      const work = authorInboxRepository.getWork(id);
+      if (!work) return c.json({ error: 'Work not found' }, 404);
+      const auth = await ensureDatasetAuthorizedForCurrentStore(c, work.dataSetId);
+      if (auth) return auth;
+      return c.json(authorInboxRepository.setWorkStatus(id, status));
+    } catch (error) {
+      console.error('Error updating author work:', error);
+      return c.json({ error: 'Failed to update author work' }, 500);
+    }
+  }
+);
+
 // Get author details
 authorsRoute.get('/:id', zValidator('param', IdParamSchema), async (c) => {
   try {
@@ -181,3 +274,23 @@ authorsRoute.post(
     }
   }
 );
+
+// Fetch the profile and recent works of one author
+authorsRoute.post('/:id/refresh', zValidator('param', IdParamSchema), async (c) => {
+  try {
+    const { id } = c.req.valid('param');
+    const dataSetId = getDataSetId(c);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+    if (!metadataRepository.getAuthor(id, dataSetId)) {
+      return c.json({ error: 'Author not found' }, 404);
+    }
+    if (!getAuthorProviderFetcher()) {
+      return c.json({ error: 'Author provider is not configured' }, 503);
+    }
+    return c.json({ job: enqueueAuthorWorksFetch(dataSetId, [id]) }, 202);
+  } catch (error) {
+    console.error('Error refreshing author:', error);
+    return c.json({ error: 'Failed to refresh author' }, 500);
+  }
+});
@@ -0,0 +1,164 @@
+import { zValidator } from '@hono/zod-validator';
+import type { Context } from 'hono';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { requireRole } from '../middlewares/session-auth';
+import {
+  type AutomationAction,
+  AutomationRuleQuerySchema,
+  CreateAutomationRuleSchema,
+  PreviewAutomationRuleSchema,
+  UpdateAutomationRuleSchema,
+} from '../models/AutomationRuleModel.js';
+import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
+import { StandaloneAutomationRuleRepository } from '../repositories/sqlite/automation-rule-repository';
+import { StandaloneLibraryRepository } from '../repositories/sqlite/library-repository';
+import { useResponse } from '../utils/useResponse.js';
+
+const app = new Hono();
+const automationRuleRepository = new StandaloneAutomationRuleRepository();
+const libraryRepository = new StandaloneLibraryRepository();
+
+const ensureAuthorized = async (c: Context, dataSetId: number) => {
+  return ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+};
+
+// 追加先は同じデータセットの手動コレクションに限る
+const findInvalidCollection = (dataSetId: number, actions: AutomationAction[] = []) => {
+  for (const action of actions) {
+    if (action.type !== 'addToCollection') continue;
+    const collection = libraryRepository.getCollection(action.collectionId);
+    if (!collection || collection.dataSetId !== dataSetId || collection.type !== 'MANUAL') {
+      return action.collectionId;
+    }
+  }
+  return null;
+};
+
+// 自動化ルール一覧取得
+app.get('/', zValidator('query', AutomationRuleQuerySchema), async (c) => {
+  try {
+    const { dataSetId } = c.req.valid('query');
+    if (dataSetId) {
+      const auth = await ensureAuthorized(c, dataSetId);
+      if (auth) return auth;
+    }
+    return useResponse(c, automationRuleRepository.list(dataSetId));
+  } catch (error) {
+    console.error('自動化ルール一覧取得エラー:', error);
+    return useResponse(c, { error: '自動化ルール一覧の取得に失敗しました' }, 500);
+  }
+});
+
+// 保存前のルールを既存スタックに試し当てする（何も変更しない）
+app.post('/preview', zValidator('json', PreviewAutomationRuleSchema), async (c) => {
+  try {
+    const data = c.req.valid('json');
+    const auth = await ensureAuthorized(c, data.dataSetId);
+    if (auth) return auth;
+    return useResponse(c, automationRuleRepository.preview(data));
+  } catch (error) {
+    console.error('自動化ルール試行エラー:', error);
+    return useResponse(c, { error: '自動化ルールの試し当てに失敗しました' }, 500);
+  }
+});
+
+// 自動化ルール作成
+app.post('/', requireRole('super'), zValidator('json', CreateAutomationRuleSchema), async (c) => {
+  try {
+    const data = c.req.valid('json');
+    const auth = await ensureAuthorized(c, data.dataSetId);
+    if (auth) return auth;
+    if (findInvalidCollection(data.dataSetId, data.actions) !== null) {
+      return useResponse(c, { error: '追加先のコレクションが見つかりません' }, 400);
+    }
+    return useResponse(c, automationRuleRepository.create(data), 201);
+  } catch (error) {
+    console.error('自動化ルール作成エラー:', error);
+    return useResponse(c, { error: '自動化ルールの作成に失敗しました' }, 500);
+  }
+});
+
+// 自動化ルール更新
+app.put(
+  '/:id',
+  requireRole('super'),
+  zValidator('param', z.object({ id: z.coerce.number() })),
+  zValidator('json', UpdateAutomationRuleSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const data = c.req.valid('json');
+      const current = automationRuleRepository.getById(id);
+      if (!current) return useResponse(c, { error: '自動化ルールが見つかりません' }, 404);
+      const auth = await ensureAuthorized(c, current.dataSetId);
+      if (auth) return auth;
+      if (findInvalidCollection(current.dataSetId, data.actions) !== null) {
+        return useResponse(c, { error: '追加先のコレクションが見つかりません' }, 400);
+      }
+      return useResponse(c, automationRuleRepository.update(id, data));
+    } catch (error) {
+      console.error('自動化ルール更新エラー:', error);
+      return useResponse(c, { error: '自動化ルールの更新に失敗しました' }, 500);
+    }
+  }
+);
+
+// 自動化ルール削除（実行済みの結果はそのまま残す）
+app.delete(
+  '/:id',
+  requireRole('super'),
+  zValidator('param', z.object({ id: z.coerce.number() })),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const current = automationRuleRepository.getById(id);
+      if (!current) return useResponse(c, { error: '自動化ルールが見つかりません' }, 404);
+      const auth = await ensureAuthorized(c, current.dataSetId);
+      if (auth) return auth;
+      automationRuleRepository.delete(id);
+      return useResponse(c, { success: true });
+    } catch (error) {
+      console.error('自動化ルール削除エラー:', error);
+      return useResponse(c, { error: '自動化ルールの削除に失敗しました' }, 500);
+    }
+  }
+);
+
+// 保存済みのルールを既存スタックに試し当てする
+app.get(
+  '/:id/preview',
+  zValidator('param', z.object({ id: z.coerce.number() })),
+  zValidator('query', z.object({ limit: z.coerce.number().int().min(1).max(200).optional() })),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { limit } = c.req.valid('query');
+      const current = automationRuleRepository.getById(id);
+      if (!current) return useResponse(c, { error: '自動化ルールが見つかりません' }, 404);
+      const auth = await ensureAuthorized(c, current.dataSetId);
+      if (auth) return auth;
+      return useResponse(c, automationRuleRepository.previewRule(id, limit));
+    } catch (error) {
+      console.error('自動化ルール試行エラー:', error);
+      return useResponse(c, { error: '自動化ルールの試し当てに失敗しました' }, 500);
+    }
+  }
+);
+
+// 該当する既存スタックにまとめて実行する（実行済みのスタックは飛ばす）
+app.post('/:id/apply', zValidator('param', z.object({ id: z.coerce.number() })), async (c) => {
+  try {
+    const { id } = c.req.valid('param');
+    const current = automationRuleRepository.getById(id);
+    if (!current) return useResponse(c, { error: '自動化ルールが見つかりません' }, 404);
+    const auth = await ensureAuthorized(c, current.dataSetId);
+    if (auth) return auth;
+    return useResponse(c, automationRuleRepository.applyToExisting(id));
+  } catch (error) {
+    console.error('自動化ルール実行エラー:', error);
+    return useResponse(c, { error: '自動化ルールの実行に失敗しました' }, 500);
+  }
+});
+
+export { app as automationRulesRoute };
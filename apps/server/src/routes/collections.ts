@@ -1,3 +1,4 @@
+import { SearchQuerySyntaxError } from '@caramelboard/search-query';
 import { zValidator } from '@hono/zod-validator';
 import type { Context } from 'hono';
 import { Hono } from 'hono';
@@ -9,6 +10,7 @@ import {
 } from '../models/CollectionModel.js';
 import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
 import { StandaloneLibraryRepository } from '../repositories/sqlite/library-repository';
+import { parseSmartCollectionConfig } from '../shared/smart-collection-config';
 import { useResponse } from '../utils/useResponse.js';
 
 const app = new Hono();
@@ -23,6 +25,23 @@ const ensureAuthorized = async (c: Context, dataSetId: number) => {
   return ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
 };
 
+// スマートコレクションの条件を検証する。問題があればエラーレスポンスを返す
+const validateSmartCollectionConfig = (c: Context, filterConfig: Record<string, unknown>) => {
+  try {
+    const parsed = parseSmartCollectionConfig(filterConfig);
+    if (parsed.success) return null;
+    return c.json(
+      { error: 'スマートコレクションの条件が正しくありません', details: parsed.error.flatten() },
+      400
+    );
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) {
+      return c.json({ error: error.message, code: error.code, details: error.details }, 400);
+    }
+    throw error;
+  }
+};
+
 // コレクション一覧取得
 app.get('/', zValidator('query', CollectionQuerySchema), async (c) => {
   try {
@@ -64,6 +83,10 @@ app.get('/:id', zValidator('param', z.object({ id: z.coerce.number() })), async
 app.post('/', zValidator('json', CreateCollectionSchema), async (c) => {
   try {
     const data = c.req.valid('json');
+    if (data.type === 'SMART') {
+      const invalid = validateSmartCollectionConfig(c, data.filterConfig ?? {});
+      if (invalid) return invalid;
+    }
     const collection = libraryRepository.createCollection(data);
     return useResponse(c, collection, 201);
   } catch (error) {
@@ -90,6 +113,13 @@ app.put(
     try {
       const { id } = c.req.valid('param');
       const data = c.req.valid('json');
+      if (data.filterConfig !== undefined) {
+        const current = libraryRepository.getCollection(id);
+        if ((data.type ?? current?.type) === 'SMART') {
+          const invalid = validateSmartCollectionConfig(c, data.filterConfig);
+          if (invalid) return invalid;
+        }
+      }
       const collection = libraryRepository.updateCollection(id, data);
       if (!collection) {
         return useResponse(c, { error: 'コレクションが見つかりません' }, 404);
@@ -286,6 +316,9 @@ app.get(
       if (!result) return useResponse(c, { error: '無効なスマートコレクションです' }, 400);
       return useResponse(c, result);
     } catch (error) {
+      if (error instanceof SearchQuerySyntaxError) {
+        return c.json({ error: error.message, code: error.code, details: error.details }, 400);
+      }
       console.error('スマートコレクションスタック取得エラー:', error);
       if (error instanceof Error && error.message.includes('無効なスマートコレクション')) {
         return useResponse(c, { error: error.message }, 400);
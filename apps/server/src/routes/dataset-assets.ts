@@ -1,4 +1,8 @@
 import { Hono } from 'hono';
+import { z } from 'zod';
+import { ClipRangeError } from '../errors/ClipRangeError';
+import { DuplicateAssetError } from '../errors/DuplicateAssetError';
+import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
 import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
 
 export const datasetAssetsRoute = new Hono();
@@ -30,3 +34,85 @@ datasetAssetsRoute.put('/:dataSetId/stacks/:id/assets/:assetId/meta', async (c)
     return c.json({ error: 'Failed to update asset metadata' }, 500);
   }
 });
+
+const DetectScenesSchema = z.object({
+  sensitivity: z.number().min(0).max(1).optional(),
+});
+
+// POST /datasets/:dataSetId/stacks/:id/assets/:assetId/scenes
+// Detect scene changes and replace the asset's scene markers
+datasetAssetsRoute.post('/:dataSetId/stacks/:id/assets/:assetId/scenes', async (c) => {
+  try {
+    const dataSetId = Number.parseInt(c.req.param('dataSetId'), 10);
+    const stackId = Number.parseInt(c.req.param('id'), 10);
+    const assetId = Number.parseInt(c.req.param('assetId'), 10);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+
+    const parsed = DetectScenesSchema.safeParse(await c.req.json().catch(() => ({})));
+    if (!parsed.success) return c.json({ error: 'Invalid request' }, 400);
+
+    const asset = stackRepository
+      .getAssetsByStackId(stackId, dataSetId)
+      .find((candidate) => candidate.id === assetId);
+    if (!asset) return c.json({ error: 'Asset not found' }, 404);
+
+    const result = await stackRepository.detectAssetScenes(assetId, parsed.data);
+    if (!result) return c.json({ error: 'Asset is not a video' }, 400);
+    return c.json(result);
+  } catch (error) {
+    console.error('Error detecting scenes:', error);
+    return c.json({ error: 'Failed to detect scenes' }, 500);
+  }
+});
+
+const ExportClipSchema = z
+  .object({
+    start: z.number().min(0).optional(),
+    end: z.number().positive().optional(),
+    startMarker: z.number().int().min(0).optional(),
+    endMarker: z.number().int().min(0).optional(),
+    format: z.enum(['mp4', 'webp', 'gif']).optional(),
+    fps: z.number().int().min(1).max(60).optional(),
+    width: z.number().int().min(16).max(3840).optional(),
+    destination: z.enum(['stack', 'new-stack']).optional(),
+    name: z.string().max(255).optional(),
+  })
+  .refine((value) => value.start !== undefined || value.startMarker !== undefined, {
+    message: 'start or startMarker is required',
+  });
+
+// POST /datasets/:dataSetId/stacks/:id/assets/:assetId/clips
+// Export a time range (or a pair of markers) as MP4 / animated WebP / GIF
+datasetAssetsRoute.post('/:dataSetId/stacks/:id/assets/:assetId/clips', async (c) => {
+  try {
+    const dataSetId = Number.parseInt(c.req.param('dataSetId'), 10);
+    const stackId = Number.parseInt(c.req.param('id'), 10);
+    const assetId = Number.parseInt(c.req.param('assetId'), 10);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+
+    const parsed = ExportClipSchema.safeParse(await c.req.json().catch(() => ({})));
+    if (!parsed.success) return c.json({ error: 'Invalid request', details: parsed.error }, 400);
+    if (!stackRepository.stackBelongsToDataset(stackId, dataSetId)) {
+      return c.json({ error: 'Stack not found' }, 404);
+    }
+
+    const result = await stackRepository.exportClip(assetId, dataSetId, {
+      ...parsed.data,
+      format: parsed.data.format ?? 'mp4',
+      destination: parsed.data.destination ?? 'stack',
+    });
+    if (!result) return c.json({ error: 'Video asset not found' }, 404);
+    return c.json(result, 201);
+  } catch (error) {
+    if (error instanceof ClipRangeError) {
+      return c.json({ error: error.message, code: error.code }, 400);
+    }
+    if (error instanceof DuplicateAssetError) {
+      return c.json({ error: error.message, code: error.code, details: error.details }, 409);
+    }
+    console.error('Error exporting clip:', error);
+    return c.json({ error: 'Failed to export clip' }, 500);
+  }
+});
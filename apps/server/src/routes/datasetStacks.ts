@@ -1,14 +1,16 @@
 import fs from 'node:fs';
 import path from 'node:path';
-
+import { compileSearchQuery, SearchQuerySyntaxError } from '@caramelboard/search-query';
 import { zValidator } from '@hono/zod-validator';
 import { Hono } from 'hono';
 import { z } from 'zod';
+import { ComicArchiveError } from '../errors/ComicArchiveError';
 import { StandaloneAutoTagRepository } from '../repositories/sqlite/auto-tag-repository';
 import { StandaloneColorRepository } from '../repositories/sqlite/color-repository';
 import { StandaloneDatasetRepository } from '../repositories/sqlite/dataset-repository';
 import { StandaloneLibraryRepository } from '../repositories/sqlite/library-repository';
 import { StandaloneMetadataRepository } from '../repositories/sqlite/metadata-repository';
+import { StandaloneOperationLogRepository } from '../repositories/sqlite/operation-log-repository';
 import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
 import {
   DatasetIdParamSchema,
@@ -16,7 +18,9 @@ import {
   StackQuerySchema,
   UpdateStackSchema,
 } from '../schemas/index.js';
-import { SearchQuerySchema } from '../schemas/search-schema.js';
+import { SearchQuerySchema, SimilarModeSchema } from '../schemas/search-schema.js';
+import { applySearchFilters, toStackListSort } from '../shared/search-query';
+import { isComicArchiveFileInput } from '../utils/comicArchiveImport';
 
 const app = new Hono();
 const stackRepository = new StandaloneStackRepository();
@@ -25,6 +29,7 @@ const libraryRepository = new StandaloneLibraryRepository();
 const metadataRepository = new StandaloneMetadataRepository();
 const colorRepository = new StandaloneColorRepository();
 const autoTagRepository = new StandaloneAutoTagRepository();
+const operationLogRepository = new StandaloneOperationLogRepository();
 
 type MediaCategory = 'image' | 'comic' | 'video';
 
@@ -36,6 +41,7 @@ const toMediaType = (value: string, file: File): MediaCategory => {
   const extension = path.extname(file.name).toLowerCase();
   if (extension === '.ai' || extension === '.svg' || extension === '.svgz') return 'image';
   if (extension === '.pdf') return 'comic';
+  if (isComicArchiveFileInput({ originalname: file.name, mimetype: file.type })) return 'comic';
   const mimeType = (file.type || '').toLowerCase();
   if (mimeType.startsWith('video/')) return 'video';
   if (mimeType === 'application/pdf') return 'comic';
@@ -51,56 +57,15 @@ const scheduleStandaloneAutoTagPrediction = (asset: { id?: number } | null) => {
   const assetId = Number(asset?.id ?? 0);
   if (!assetId) return;
 
-  void autoTagRepository.predictAssetTags(assetId, 0.4).catch((error) => {
-    console.error(`Failed to predict standalone AutoTags for asset ${assetId}:`, error);
-  });
-};
-
-const getStandaloneColorStackIds = (
-  dataSetId: number,
-  mediaCategory: MediaCategory | undefined,
-  colorFilter:
-    | {
-        hue?: number;
-        hex?: string;
-        tones?: {
-          brightness?: { min?: number; max?: number };
-          saturation?: { min?: number; max?: number };
-        };
-      }
-    | undefined
-) => {
-  if (!colorFilter) return undefined;
-  const hasColorFilter =
-    typeof colorFilter.hue === 'number' ||
-    Boolean(colorFilter.hex) ||
-    Boolean(colorFilter.tones?.brightness) ||
-    Boolean(colorFilter.tones?.saturation);
-
-  if (!hasColorFilter) return undefined;
-
-  return colorRepository.getMatchingStackIdsByFilter({
-    dataSetId,
-    mediaType: mediaCategory,
-    hue: colorFilter.hue,
-    hex: colorFilter.hex,
-    saturationRange:
-      colorFilter.tones?.saturation?.min !== undefined ||
-      colorFilter.tones?.saturation?.max !== undefined
-        ? {
-            min: colorFilter.tones.saturation.min ?? 0,
-            max: colorFilter.tones.saturation.max ?? 100,
-          }
-        : undefined,
-    lightnessRange:
-      colorFilter.tones?.brightness?.min !== undefined ||
-      colorFilter.tones?.brightness?.max !== undefined
-        ? {
-            min: colorFilter.tones.brightness.min ?? 0,
-            max: colorFilter.tones.brightness.max ?? 100,
-          }
-        : undefined,
-  });
+  void autoTagRepository
+    .predictAssetTags(assetId, 0.4)
+    .catch((error) => {
+      console.error(`Failed to predict standalone AutoTags for asset ${assetId}:`, error);
+    })
+    .then(() => autoTagRepository.embedAsset(assetId))
+    .catch((error) => {
+      console.error(`Failed to embed asset ${assetId}:`, error);
+    });
 };
 
 app.use('/:dataSetId/*', async (c, next) => {
@@ -131,6 +96,7 @@ app.get(
           {
             limit: queryParams.limit,
             offset: queryParams.offset,
+            mode: queryParams.similarMode,
           }
         );
         return c.json(result);
@@ -138,38 +104,38 @@ app.get(
 
       const filters = queryParams.filters || {};
       const sort = queryParams.sort || { by: 'recommended', order: 'desc' };
+      const compiled = compileSearchQuery(queryParams.query);
       const mediaCategory =
         filters.mediaCategory && filters.mediaCategory !== 'all'
           ? filters.mediaCategory
           : undefined;
-      const stackIds = getStandaloneColorStackIds(dataSetId, mediaCategory, filters.color);
-      const result = stackRepository.getPaginated({
+      const colorFilter = filters.color ?? compiled.filters.color;
+      const stackIds = colorRepository.getMatchingStackIdsBySearchColor(
         dataSetId,
-        collection: filters.collectionId,
         mediaCategory,
-        mediaTypes: filters.mediaTypes,
-        tag: filters.tags?.includeAny ?? filters.tags?.include,
-        author: filters.author?.includeAny ?? filters.author?.include,
-        fav:
-          filters.favorites === 'is-fav' ? '1' : filters.favorites === 'not-fav' ? '0' : undefined,
-        liked: filters.likes === 'is-liked' ? '1' : filters.likes === 'not-liked' ? '0' : undefined,
-        hasNoTags: filters.tags?.includeNotSet === true,
-        hasNoAuthor: filters.author?.includeNotSet === true,
-        search: queryParams.query,
-        stackIds,
-        sort:
-          sort.by === 'dateAdded' ||
-          sort.by === 'name' ||
-          sort.by === 'likes' ||
-          sort.by === 'updated'
-            ? sort.by
-            : 'recommended',
-        order: sort.order === 'asc' ? 'asc' : 'desc',
+        colorFilter
+      );
+      const listParams = applySearchFilters(
+        {
+          dataSetId,
+          search: queryParams.query,
+          limit: queryParams.limit,
+          offset: queryParams.offset,
+        },
+        filters
+      );
+      const result = stackRepository.getPaginated({
+        ...listParams,
+        stackIds: listParams.stackIds ?? stackIds,
+        ...toStackListSort(sort),
         limit: queryParams.limit,
         offset: queryParams.offset,
       });
       return c.json(result);
     } catch (error) {
+      if (error instanceof SearchQuerySyntaxError) {
+        return c.json({ error: error.message, code: error.code, details: error.details }, 400);
+      }
       console.error('Error searching stacks:', error);
       return c.json({ error: 'Failed to search stacks' }, 500);
     }
@@ -191,17 +157,19 @@ app.get(
       limit: z.coerce.number().int().min(1).max(100).optional().default(50),
       offset: z.coerce.number().int().min(0).optional().default(0),
       threshold: z.coerce.number().min(0).max(1).optional(),
+      mode: SimilarModeSchema.optional(),
     })
   ),
   async (c) => {
     try {
       const dataSetId = c.get('dataSetId') as number;
       const { id } = c.req.valid('param');
-      const { limit, offset, threshold } = c.req.valid('query');
+      const { limit, offset, threshold, mode } = c.req.valid('query');
       const result = stackRepository.getSimilarByStackIds(dataSetId, [id], {
         limit,
         offset,
         threshold,
+        mode,
       });
       return c.json(result);
     } catch (error) {
@@ -226,13 +194,14 @@ app.get(
       limit: z.coerce.number().int().min(1).max(100).optional().default(50),
       offset: z.coerce.number().int().min(0).optional().default(0),
       threshold: z.coerce.number().min(0).max(1).optional(),
+      mode: SimilarModeSchema.optional(),
     })
   ),
   async (c) => {
     try {
       const dataSetId = c.get('dataSetId') as number;
       const { collectionId } = c.req.valid('param');
-      const { limit, offset, threshold } = c.req.valid('query');
+      const { limit, offset, threshold, mode } = c.req.valid('query');
 
       const collection = libraryRepository.getCollection(collectionId);
       if (!collection || collection.dataSetId !== dataSetId) {
@@ -249,6 +218,7 @@ app.get(
         limit,
         offset,
         threshold,
+        mode,
       });
       return c.json(result);
     } catch (error) {
@@ -350,6 +320,7 @@ app.post('/:dataSetId/stacks', async (c) => {
       dataSetId,
       name,
       mediaType,
+      source: { channel: 'upload' },
       file: {
         path: tempPath,
         originalname: file.name,
@@ -361,6 +332,9 @@ app.post('/:dataSetId/stacks', async (c) => {
     scheduleStandaloneAutoTagPrediction(stack.assets?.[0] ?? null);
     return c.json(stack, 201);
   } catch (error) {
+    if (error instanceof ComicArchiveError) {
+      return c.json({ error: error.message, code: error.code }, 400);
+    }
     const pdfErrorMessage = getPdfProcessingErrorMessage(error);
     if (pdfErrorMessage) return c.json({ error: pdfErrorMessage }, 400);
     console.error('Error creating stack:', error);
@@ -396,8 +370,11 @@ app.delete('/:dataSetId/stacks/:id', zValidator('param', IdParamSchema), async (
     if (!stackRepository.stackBelongsToDataset(id, dataSetId)) {
       return c.json({ error: 'Stack not found in this dataset' }, 404);
     }
-    stackRepository.deleteStack(id);
-    return c.json({ success: true });
+    const trashItemId = stackRepository.deleteStack(id);
+    const operationId = operationLogRepository.record(dataSetId, 'stacks.remove', 1, {
+      trashItemIds: [trashItemId],
+    });
+    return c.json({ success: true, operationId });
   } catch (error) {
     console.error('Error deleting stack:', error);
     return c.json({ error: 'Failed to delete stack' }, 500);
@@ -507,6 +484,53 @@ app.post('/:dataSetId/stacks/:id/like', zValidator('param', IdParamSchema), asyn
   }
 });
 
+const ReadingProgressSchema = z.object({
+  page: z.number().int().min(0),
+  completed: z.boolean().optional(),
+});
+
+app.get(
+  '/:dataSetId/stacks/:id/reading-progress',
+  zValidator('param', IdParamSchema),
+  async (c) => {
+    const dataSetId = c.get('dataSetId') as number;
+    const { id } = c.req.valid('param');
+    if (!stackRepository.stackBelongsToDataset(id, dataSetId)) {
+      return c.json({ error: 'Stack not found in this dataset' }, 404);
+    }
+    return c.json({ progress: stackRepository.getReadingProgress(id) });
+  }
+);
+
+app.put(
+  '/:dataSetId/stacks/:id/reading-progress',
+  zValidator('param', IdParamSchema),
+  zValidator('json', ReadingProgressSchema),
+  async (c) => {
+    const dataSetId = c.get('dataSetId') as number;
+    const { id } = c.req.valid('param');
+    if (!stackRepository.stackBelongsToDataset(id, dataSetId)) {
+      return c.json({ error: 'Stack not found in this dataset' }, 404);
+    }
+    const { page, completed } = c.req.valid('json');
+    return c.json({ progress: stackRepository.saveReadingProgress(id, { page, completed }) });
+  }
+);
+
+app.delete(
+  '/:dataSetId/stacks/:id/reading-progress',
+  zValidator('param', IdParamSchema),
+  async (c) => {
+    const dataSetId = c.get('dataSetId') as number;
+    const { id } = c.req.valid('param');
+    if (!stackRepository.stackBelongsToDataset(id, dataSetId)) {
+      return c.json({ error: 'Stack not found in this dataset' }, 404);
+    }
+    stackRepository.clearReadingProgress(id);
+    return c.json({ success: true });
+  }
+);
+
 app.get('/:dataSetId/tags/search', async (c) => {
   try {
     const dataSetId = c.get('dataSetId') as number;
@@ -1,14 +1,33 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { zValidator } from '@hono/zod-validator';
 import { Hono } from 'hono';
+import { z } from 'zod';
+import { JOB_TYPES, jobQueue } from '../jobs';
+import { readLibraryArchive } from '../jobs/import-archive';
+import { requireRole } from '../middlewares/session-auth';
 import {
   ensureDatasetAuthorizedForCurrentStore,
   isDatasetAuthorizedForCurrentStore,
 } from '../repositories/sqlite/auth';
-import { StandaloneAutoTagRepository } from '../repositories/sqlite/auto-tag-repository';
-import { StandaloneColorRepository } from '../repositories/sqlite/color-repository';
 import { StandaloneDatasetRepository } from '../repositories/sqlite/dataset-repository';
+import { StandaloneLibraryArchiveRepository } from '../repositories/sqlite/library-archive-repository';
 import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+import { LIBRARY_ARCHIVE_MANIFEST_NAME } from '../schemas/library-archive-schema';
 import { useDataStorage } from '../shared/di';
+import {
+  createDatasetEncryptionKey,
+  createStoredFileStream,
+  rememberDatasetKey,
+  unwrapDatasetEncryptionKey,
+} from '../utils/dataset-encryption';
 import { hashPassword, setDatasetAuthCookie, verifyPassword } from '../utils/dataset-protection';
+import { getAttachmentDisposition } from '../utils/functions';
+import { createTarStream, type TarEntry } from '../utils/tar';
 
 // Minimal datasets router to satisfy client needs without heavy deps
 const app = new Hono();
@@ -25,6 +44,21 @@ const isErrnoException = (error: unknown): error is NodeJS.ErrnoException =>
 
 const getStandaloneDatasetRepository = () => new StandaloneDatasetRepository();
 
+const ImportArchiveQuerySchema = z.object({
+  datasetId: z.coerce.number().int().positive().optional(),
+  name: z.string().trim().min(1).optional(),
+});
+
+const NearDuplicateQuerySchema = z.object({
+  threshold: z.coerce.number().int().min(0).max(16).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+const DismissNearDuplicatesSchema = z.object({
+  stackIds: z.array(z.number().int().positive()).min(2),
+});
+
 // List datasets
 app.get('/', async (c) => {
   return c.json(getStandaloneDatasetRepository().getAll());
@@ -72,6 +106,12 @@ app.post('/:id/auth', async (c) => {
   }
   const ok = verifyPassword(password, ds.passwordSalt, ds.passwordHash);
   if (!ok) return c.json({ error: 'Invalid password' }, 401);
+  const encryption = getStandaloneDatasetRepository().getEncryptionKey(id);
+  if (encryption) {
+    const key = unwrapDatasetEncryptionKey(password, encryption.salt, encryption.wrappedKey);
+    if (!key) return c.json({ error: 'Failed to unlock encrypted files' }, 500);
+    rememberDatasetKey(id, key);
+  }
   setDatasetAuthCookie(c, id, ds.passwordHash);
   return c.json({ success: true });
 });
@@ -88,6 +128,10 @@ app.post('/:id/protection', async (c) => {
   const repository = getStandaloneDatasetRepository();
   const ds = repository.getById(id);
   if (!ds) return c.json({ error: 'DataSet not found' }, 404);
+  // 暗号鍵はパスワードで包んでいるので、パスワードを変える前にファイルを復号してもらう
+  if (ds.hasEncryptionKey) {
+    return c.json({ error: 'Decrypt the library files before changing protection' }, 409);
+  }
 
   if (enable) {
     if (!password) return c.json({ error: 'Password required to enable protection' }, 400);
@@ -115,6 +159,58 @@ app.post('/:id/protection', async (c) => {
   return c.json({ success: true, isProtected: false });
 });
 
+const EncryptionSchema = z.object({
+  mode: z.enum(['encrypt', 'decrypt']),
+  password: z.string().min(1),
+});
+
+// 保存ファイルの暗号化を切り替え、既存のファイルはジョブで暗号化・復号する
+app.post(
+  '/:id/encryption',
+  requireRole('super'),
+  zValidator('json', EncryptionSchema),
+  async (c) => {
+    const id = Number.parseInt(c.req.param('id'), 10);
+    try {
+      const repository = getStandaloneDatasetRepository();
+      const ds = repository.getById(id);
+      if (!ds) return c.json({ error: 'DataSet not found' }, 404);
+      if (!ds.isProtected || !ds.passwordHash || !ds.passwordSalt) {
+        return c.json({ error: 'Enable protection before encrypting files' }, 400);
+      }
+      const { mode, password } = c.req.valid('json');
+      if (!verifyPassword(password, ds.passwordSalt, ds.passwordHash)) {
+        return c.json({ error: 'Invalid password' }, 401);
+      }
+
+      const stored = repository.getEncryptionKey(id);
+      if (mode === 'decrypt' && !stored) {
+        return c.json({ error: 'Library files are not encrypted' }, 400);
+      }
+      if (stored) {
+        const key = unwrapDatasetEncryptionKey(password, stored.salt, stored.wrappedKey);
+        if (!key) return c.json({ error: 'Failed to unlock encrypted files' }, 500);
+        rememberDatasetKey(id, key);
+        repository.setEncryption(id, { enabled: mode === 'encrypt', ...stored });
+      } else {
+        const { key, salt, wrappedKey } = createDatasetEncryptionKey(password);
+        rememberDatasetKey(id, key);
+        repository.setEncryption(id, { enabled: true, salt, wrappedKey });
+      }
+
+      const job = jobQueue.enqueue(
+        JOB_TYPES.encryptLibraryFiles,
+        { dataSetId: id, mode },
+        { dataSetId: id }
+      );
+      return c.json({ job, dataset: repository.getById(id) }, 202);
+    } catch (error: unknown) {
+      console.error('Failed to change library encryption:', error);
+      return c.json({ error: 'Failed to change library encryption' }, 500);
+    }
+  }
+);
+
 // Protection status for client gating
 app.get('/:id/protection-status', async (c) => {
   const id = Number.parseInt(c.req.param('id'), 10);
@@ -137,6 +233,95 @@ app.post('/:id/set-default', async (c) => {
   }
 });
 
+// ライブラリ全体（オリジナル + メタデータ）を tar アーカイブとしてストリーミングで書き出す
+app.post('/:id/export', async (c) => {
+  const id = Number.parseInt(c.req.param('id'), 10);
+  try {
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, id);
+    if (auth) return auth;
+
+    const archive = new StandaloneLibraryArchiveRepository().buildExport(id);
+    if (!archive) return c.json({ error: 'DataSet not found' }, 404);
+
+    const manifest = Buffer.from(JSON.stringify(archive.manifest), 'utf8');
+    const entries: TarEntry[] = [
+      { name: LIBRARY_ARCHIVE_MANIFEST_NAME, size: manifest.length, source: () => manifest },
+      ...archive.files.map((file) => ({
+        name: file.name,
+        size: file.size,
+        source: () => createStoredFileStream(file.filePath),
+      })),
+    ];
+    const stream = createTarStream(entries);
+    stream.on('error', (error) => {
+      console.error('Failed to stream library archive:', error);
+    });
+
+    const filename = `${archive.manifest.dataset.name}-${archive.manifest.exportedAt.slice(0, 10)}.cblib.tar`;
+    return new Response(Readable.toWeb(stream) as ReadableStream, {
+      headers: {
+        'Content-Type': 'application/x-tar',
+        'Content-Disposition': getAttachmentDisposition(filename),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Failed to export dataset:', error);
+    return c.json({ error: 'Failed to export dataset' }, 500);
+  }
+});
+
+// エクスポートしたアーカイブ（リクエストボディ）を受け取り、復元をジョブで実行する
+app.post('/import', zValidator('query', ImportArchiveQuerySchema), async (c) => {
+  const { datasetId, name } = c.req.valid('query');
+  if (datasetId) {
+    if (!getStandaloneDatasetRepository().getById(datasetId)) {
+      return c.json({ error: 'DataSet not found' }, 404);
+    }
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, datasetId);
+    if (auth) return auth;
+  }
+
+  const body = c.req.raw.body;
+  if (!body) return c.json({ error: 'Archive is required' }, 400);
+
+  const storageRoot = process.env.FILES_STORAGE || path.resolve('./data');
+  const tmpDir = path.join(storageRoot, 'tmp');
+  const archivePath = path.join(tmpDir, `import-${randomUUID()}.tar`);
+  try {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    await pipeline(
+      Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+      fs.createWriteStream(archivePath)
+    );
+  } catch (error: unknown) {
+    fs.rmSync(archivePath, { force: true });
+    console.error('Failed to receive library archive:', error);
+    return c.json({ error: 'Failed to receive archive' }, 500);
+  }
+
+  try {
+    readLibraryArchive(archivePath);
+  } catch (error: unknown) {
+    fs.rmSync(archivePath, { force: true });
+    const message = error instanceof Error ? error.message : 'Invalid archive';
+    return c.json({ error: message }, 400);
+  }
+
+  try {
+    const job = jobQueue.enqueue(
+      JOB_TYPES.importArchive,
+      { archivePath, dataSetId: datasetId, name },
+      { dataSetId: datasetId ?? null }
+    );
+    return c.json({ job }, 202);
+  } catch (error: unknown) {
+    fs.rmSync(archivePath, { force: true });
+    console.error('Failed to import dataset:', error);
+    return c.json({ error: 'Failed to import dataset' }, 500);
+  }
+});
+
 export { app as datasetsLiteRoute };
 // Create dataset (minimal)
 app.post('/', async (c) => {
@@ -218,7 +403,8 @@ app.delete('/:id', async (c) => {
   return c.json({ success: true });
 });
 
-// Full dataset refresh: thumbnails + previews + colors + autotags (embeddings removed)
+// Full dataset refresh: thumbnails + previews + colors + autotags + embeddings
+// 長時間かかるためジョブとして登録し、進捗は /jobs で確認する
 app.post('/:id/refresh-all', async (c) => {
   const id = Number.parseInt(c.req.param('id'), 10);
   const forceRegenerate = c.req.query('forceRegenerate') === 'true';
@@ -228,86 +414,115 @@ app.post('/:id/refresh-all', async (c) => {
     const auth = await ensureDatasetAuthorizedForCurrentStore(c, id);
     if (auth) return auth;
 
-    const stackRepository = new StandaloneStackRepository();
-    const colorRepository = new StandaloneColorRepository();
-    const autoTagRepository = new StandaloneAutoTagRepository();
-    const stackIds = stackRepository.getStackIdsByDataset(id);
-    const colorStackIds = colorRepository.getDatasetUpdateCandidateStackIds(id);
-    const actualMediaTypeResult = stackRepository.refreshActualMediaTypesForDataset(id);
-    let thumbnailEligible = 0;
-    let thumbnailRegenerated = 0;
-    let thumbnailFailures = 0;
-    let previewEligible = 0;
-    let previewRegenerated = 0;
-    let previewFailures = 0;
-
-    for (const stackId of stackIds) {
-      const thumbnailResult = await stackRepository.refreshStackThumbnail(stackId, {
-        refreshActualMediaType: false,
-        force: forceRegenerate,
-      });
-      thumbnailEligible += thumbnailResult?.eligible ?? 0;
-      thumbnailRegenerated += thumbnailResult?.regenerated ?? 0;
-      thumbnailFailures += thumbnailResult?.failed?.length ?? 0;
-      try {
-        const previewResult = await stackRepository.regeneratePreviews(stackId, id, {
-          force: forceRegenerate,
-        });
-        previewEligible += previewResult?.eligible ?? 0;
-        previewRegenerated += previewResult?.regenerated ?? 0;
-        previewFailures += previewResult?.failed?.length ?? 0;
-      } catch (error) {
-        previewFailures++;
-        console.error(`Failed to regenerate previews for stack ${stackId}:`, error);
-      }
-    }
-    for (const stackId of colorStackIds) {
-      colorRepository.updateStackColors(stackId);
-    }
+    const job = jobQueue.enqueue(
+      JOB_TYPES.refreshAll,
+      { dataSetId: id, forceRegenerate },
+      { dataSetId: id }
+    );
+    return c.json(
+      {
+        message: forceRegenerate
+          ? '全体リフレッシュ（再生成）を開始しました'
+          : '全体リフレッシュを開始しました',
+        datasetId: id,
+        job,
+      },
+      202
+    );
+  } catch (error: unknown) {
+    console.error('Failed to run dataset refresh-all:', error);
+    return c.json({ error: 'Failed to run dataset refresh-all' }, 500);
+  }
+});
+
+// 知覚ハッシュが近いスタックのグループ（近似重複の確認用）
+app.get('/:id/near-duplicates', zValidator('query', NearDuplicateQuerySchema), async (c) => {
+  const id = Number.parseInt(c.req.param('id'), 10);
+  try {
+    const ds = getStandaloneDatasetRepository().getById(id);
+    if (!ds) return c.json({ error: 'DataSet not found' }, 404);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, id);
+    if (auth) return auth;
 
-    const autotagPredictionResult = await autoTagRepository.predictDatasetAssetTags(id, {
-      threshold: 0.4,
-      forceRegenerate,
+    const { threshold, limit, offset } = c.req.valid('query');
+    const result = new StandaloneStackRepository().getNearDuplicateGroups(id, {
+      threshold,
+      limit,
+      offset,
     });
+    return c.json(result);
+  } catch (error: unknown) {
+    console.error('Failed to get near duplicates:', error);
+    return c.json({ error: 'Failed to get near duplicates' }, 500);
+  }
+});
 
-    let autotagUpdated = 0;
-    for (const stackId of stackIds) {
-      try {
-        autoTagRepository.aggregateStackTags(stackId, 0.4);
-        autotagUpdated++;
-      } catch (error) {
-        console.error(`Failed to aggregate AutoTags for stack ${stackId}:`, error);
-      }
+// 「残す」: 指定スタック同士を重複ではないものとして記録し、以降の候補から外す
+app.post(
+  '/:id/near-duplicates/dismiss',
+  zValidator('json', DismissNearDuplicatesSchema),
+  async (c) => {
+    const id = Number.parseInt(c.req.param('id'), 10);
+    try {
+      const ds = getStandaloneDatasetRepository().getById(id);
+      if (!ds) return c.json({ error: 'DataSet not found' }, 404);
+      const auth = await ensureDatasetAuthorizedForCurrentStore(c, id);
+      if (auth) return auth;
+
+      const { stackIds } = c.req.valid('json');
+      const dismissed = new StandaloneStackRepository().dismissNearDuplicates(id, stackIds);
+      return c.json({ success: true, dismissed });
+    } catch (error: unknown) {
+      console.error('Failed to dismiss near duplicates:', error);
+      return c.json({ error: 'Failed to dismiss near duplicates' }, 500);
     }
+  }
+);
 
-    return c.json({
-      message: forceRegenerate
-        ? '全体リフレッシュ（再生成）を完了しました'
-        : '全体リフレッシュを完了しました',
-      datasetId: id,
-      totalStacks: stackIds.length,
-      scheduled: {
-        thumbnails: thumbnailRegenerated,
-        previews: previewRegenerated,
-        colors: colorStackIds.length,
-        actualMediaTypes: actualMediaTypeResult.total,
-        autotags: autotagUpdated,
-        autotagPredictions: autotagPredictionResult.predictedAssets,
-        embeddings: 0,
-      },
-      totals: {
-        thumbnailCandidates: thumbnailEligible,
-        thumbnailFailures,
-        previewCandidates: previewEligible,
-        previewFailures,
-        actualMediaTypeCandidates: actualMediaTypeResult.total,
-        autotagCandidates: autotagPredictionResult.candidateAssets,
-        autotagFailures: autotagPredictionResult.failedAssets,
-        embeddings: 0,
-      },
-    });
+// 未計算のアセットの知覚ハッシュをジョブで計算する
+app.post('/:id/near-duplicates/scan', async (c) => {
+  const id = Number.parseInt(c.req.param('id'), 10);
+  try {
+    const ds = getStandaloneDatasetRepository().getById(id);
+    if (!ds) return c.json({ error: 'DataSet not found' }, 404);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, id);
+    if (auth) return auth;
+
+    const job = jobQueue.enqueue(
+      JOB_TYPES.computePerceptualHashes,
+      { dataSetId: id },
+      { dataSetId: id }
+    );
+    return c.json({ job }, 202);
   } catch (error: unknown) {
-    console.error('Failed to run dataset refresh-all:', error);
-    return c.json({ error: 'Failed to run dataset refresh-all' }, 500);
+    console.error('Failed to scan near duplicates:', error);
+    return c.json({ error: 'Failed to scan near duplicates' }, 500);
+  }
+});
+
+const DetectScenesSchema = z.object({
+  stackIds: z.array(z.number().int().positive()).optional(),
+  sensitivity: z.number().min(0).max(1).optional(),
+});
+
+// 動画アセットのシーン検出をジョブでまとめて行う（stackIds 省略時はライブラリ全体）
+app.post('/:id/scenes/detect', zValidator('json', DetectScenesSchema), async (c) => {
+  const id = Number.parseInt(c.req.param('id'), 10);
+  try {
+    const ds = getStandaloneDatasetRepository().getById(id);
+    if (!ds) return c.json({ error: 'DataSet not found' }, 404);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, id);
+    if (auth) return auth;
+
+    const { stackIds, sensitivity } = c.req.valid('json');
+    const job = jobQueue.enqueue(
+      JOB_TYPES.detectScenes,
+      { dataSetId: id, stackIds, sensitivity },
+      { dataSetId: id }
+    );
+    return c.json({ job }, 202);
+  } catch (error: unknown) {
+    console.error('Failed to start scene detection:', error);
+    return c.json({ error: 'Failed to start scene detection' }, 500);
   }
 });
@@ -0,0 +1,162 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { z } from 'zod';
+import { JOB_TYPES, jobQueue } from '../jobs';
+import {
+  ensureDatasetAuthorizedForCurrentStore,
+  getLockedDatasetIdsForCurrentStore,
+  isDatasetAuthorizedForCurrentStore,
+} from '../repositories/sqlite/auth';
+import {
+  FINISHED_JOB_STATUSES,
+  type StandaloneJob,
+  StandaloneJobRepository,
+} from '../repositories/sqlite/job-repository';
+
+export const jobsRoute = new Hono();
+const jobRepository = new StandaloneJobRepository();
+
+const SSE_KEEPALIVE_MS = 15000;
+
+const JobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed', 'cancelled']);
+
+const JobListQuerySchema = z.object({
+  dataSetId: z.coerce.number().int().positive().optional(),
+  type: z.enum(Object.values(JOB_TYPES) as [string, ...string[]]).optional(),
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').filter(Boolean) : undefined))
+    .pipe(z.array(JobStatusSchema).optional()),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const JobEventsQuerySchema = z.object({
+  dataSetId: z.coerce.number().int().positive().optional(),
+});
+
+const JobIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const RetryJobSchema = z.object({
+  failedOnly: z.boolean().optional(),
+});
+
+const isFinished = (job: StandaloneJob) => FINISHED_JOB_STATUSES.includes(job.status);
+
+// List jobs (newest first)
+jobsRoute.get('/', zValidator('query', JobListQuerySchema), async (c) => {
+  const { dataSetId, type, status, limit, offset } = c.req.valid('query');
+  if (dataSetId) {
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+  }
+  // 指定が無いときは、開けない保護ライブラリのジョブを一覧に含めない
+  const excludeDataSetIds = dataSetId ? undefined : await getLockedDatasetIdsForCurrentStore(c);
+  return c.json(jobRepository.list({ dataSetId, excludeDataSetIds, type, status, limit, offset }));
+});
+
+// Progress stream for all jobs (optionally limited to one dataset)
+jobsRoute.get('/events', zValidator('query', JobEventsQuerySchema), async (c) => {
+  const { dataSetId } = c.req.valid('query');
+  if (dataSetId) {
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+  }
+
+  return streamSSE(c, async (stream) => {
+    const unsubscribe = jobQueue.subscribe((job) => {
+      if (dataSetId && job.dataSetId !== dataSetId) return;
+      void (async () => {
+        // 配信中にロックされることもあるので、ライブラリの権限はイベントごとに確かめる
+        if (job.dataSetId && !(await isDatasetAuthorizedForCurrentStore(c, job.dataSetId))) return;
+        await stream.writeSSE({ event: 'job', id: String(job.id), data: JSON.stringify(job) });
+      })();
+    });
+    stream.onAbort(unsubscribe);
+
+    while (!stream.aborted) {
+      await stream.writeSSE({ event: 'ping', data: '' });
+      await stream.sleep(SSE_KEEPALIVE_MS);
+    }
+    unsubscribe();
+  });
+});
+
+jobsRoute.get('/:id{[0-9]+}', zValidator('param', JobIdParamSchema), async (c) => {
+  const { id } = c.req.valid('param');
+  const job = jobRepository.getById(id);
+  if (!job) return c.json({ error: 'Job not found' }, 404);
+  if (job.dataSetId) {
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, job.dataSetId);
+    if (auth) return auth;
+  }
+  return c.json({ ...job, failures: jobRepository.getFailures(id) });
+});
+
+// Progress stream for a single job; closes once the job has finished
+jobsRoute.get('/:id{[0-9]+}/events', zValidator('param', JobIdParamSchema), async (c) => {
+  const { id } = c.req.valid('param');
+  const job = jobRepository.getById(id);
+  if (!job) return c.json({ error: 'Job not found' }, 404);
+  if (job.dataSetId) {
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, job.dataSetId);
+    if (auth) return auth;
+  }
+
+  return streamSSE(c, async (stream) => {
+    let finished = false;
+    const unsubscribe = jobQueue.subscribe((update) => {
+      if (update.id !== id) return;
+      finished = isFinished(update);
+      void stream.writeSSE({ event: 'job', id: String(update.id), data: JSON.stringify(update) });
+    });
+    stream.onAbort(unsubscribe);
+
+    // 購読前に終了していた場合に備えて最新状態を送る
+    const current = jobRepository.getById(id);
+    if (current) {
+      finished = finished || isFinished(current);
+      await stream.writeSSE({ event: 'job', id: String(id), data: JSON.stringify(current) });
+    }
+
+    while (!finished && !stream.aborted) {
+      await stream.sleep(1000);
+    }
+    unsubscribe();
+  });
+});
+
+jobsRoute.post('/:id{[0-9]+}/cancel', zValidator('param', JobIdParamSchema), async (c) => {
+  const { id } = c.req.valid('param');
+  const existing = jobRepository.getById(id);
+  if (!existing) return c.json({ error: 'Job not found' }, 404);
+  if (existing.dataSetId) {
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, existing.dataSetId);
+    if (auth) return auth;
+  }
+  if (isFinished(existing)) return c.json({ error: 'Job has already finished' }, 409);
+  return c.json(jobQueue.cancel(id));
+});
+
+// Re-run a finished job as a new job; failedOnly limits it to the items that failed
+jobsRoute.post('/:id{[0-9]+}/retry', zValidator('param', JobIdParamSchema), async (c) => {
+  const { id } = c.req.valid('param');
+  const parse = RetryJobSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
+
+  const existing = jobRepository.getById(id);
+  if (!existing) return c.json({ error: 'Job not found' }, 404);
+  if (existing.dataSetId) {
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, existing.dataSetId);
+    if (auth) return auth;
+  }
+  if (!isFinished(existing)) return c.json({ error: 'Job is still running' }, 409);
+
+  const job = jobQueue.retry(id, { failedOnly: parse.data.failedOnly });
+  if (!job) return c.json({ error: 'Failed to retry job' }, 500);
+  return c.json(job, 202);
+});
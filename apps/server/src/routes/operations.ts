@@ -0,0 +1,45 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { RestoreConflictError } from '../errors/RestoreConflictError';
+import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
+import {
+  OPERATION_LOG_LIMIT,
+  StandaloneOperationLogRepository,
+} from '../repositories/sqlite/operation-log-repository';
+
+export const operationsRoute = new Hono();
+const operationLogRepository = new StandaloneOperationLogRepository();
+
+const DataSetQuerySchema = z.object({
+  dataSetId: z.coerce.number().int().positive(),
+});
+
+// GET /operations?dataSetId=1
+operationsRoute.get('/', async (c) => {
+  const parse = DataSetQuerySchema.safeParse(c.req.query());
+  if (!parse.success) return c.json({ error: 'Invalid query', details: parse.error }, 400);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, parse.data.dataSetId);
+  if (auth) return auth;
+  return c.json({
+    operations: operationLogRepository.list(parse.data.dataSetId),
+    limit: OPERATION_LOG_LIMIT,
+  });
+});
+
+// POST /operations/:id/undo
+operationsRoute.post('/:id{[0-9]+}/undo', async (c) => {
+  const id = Number.parseInt(c.req.param('id'), 10);
+  const entry = operationLogRepository.getById(id);
+  if (!entry) return c.json({ error: 'Operation not found' }, 404);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, entry.dataSetId);
+  if (auth) return auth;
+  try {
+    const result = await operationLogRepository.undo(id);
+    return c.json({ success: true, operation: result.entry, stackIds: result.stackIds });
+  } catch (error) {
+    if (error instanceof RestoreConflictError) {
+      return c.json({ error: error.message, code: error.code }, 409);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,89 @@
+import { zValidator } from '@hono/zod-validator';
+import type { Context } from 'hono';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { requireRole } from '../middlewares/session-auth';
+import { CreateShareLinkSchema, ShareLinkQuerySchema } from '../models/ShareLinkModel.js';
+import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
+import { StandaloneShareLinkRepository } from '../repositories/sqlite/share-link-repository';
+import { useResponse } from '../utils/useResponse.js';
+
+const app = new Hono();
+const shareLinkRepository = new StandaloneShareLinkRepository();
+
+const ensureAuthorized = async (c: Context, dataSetId: number) => {
+  return ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+};
+
+// 共有リンク一覧取得
+app.get('/', zValidator('query', ShareLinkQuerySchema), async (c) => {
+  try {
+    const { dataSetId } = c.req.valid('query');
+    if (dataSetId) {
+      const auth = await ensureAuthorized(c, dataSetId);
+      if (auth) return auth;
+    }
+    return useResponse(c, shareLinkRepository.list(dataSetId));
+  } catch (error) {
+    console.error('共有リンク一覧取得エラー:', error);
+    return useResponse(c, { error: '共有リンク一覧の取得に失敗しました' }, 500);
+  }
+});
+
+// 共有リンク作成。保護されたライブラリは解錠済みの場合だけ共有できる
+app.post('/', requireRole('super'), zValidator('json', CreateShareLinkSchema), async (c) => {
+  try {
+    const data = c.req.valid('json');
+    const dataSetId = shareLinkRepository.getTargetDatasetId(data.targetType, data.targetId);
+    if (!dataSetId) return useResponse(c, { error: '共有する対象が見つかりません' }, 404);
+    const auth = await ensureAuthorized(c, dataSetId);
+    if (auth) return auth;
+    return useResponse(c, shareLinkRepository.create({ ...data, dataSetId }), 201);
+  } catch (error) {
+    console.error('共有リンク作成エラー:', error);
+    return useResponse(c, { error: '共有リンクの作成に失敗しました' }, 500);
+  }
+});
+
+// 共有リンクの失効
+app.post(
+  '/:id/revoke',
+  requireRole('super'),
+  zValidator('param', z.object({ id: z.coerce.number() })),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const current = shareLinkRepository.getById(id);
+      if (!current) return useResponse(c, { error: '共有リンクが見つかりません' }, 404);
+      const auth = await ensureAuthorized(c, current.dataSetId);
+      if (auth) return auth;
+      return useResponse(c, shareLinkRepository.revoke(id));
+    } catch (error) {
+      console.error('共有リンク失効エラー:', error);
+      return useResponse(c, { error: '共有リンクの失効に失敗しました' }, 500);
+    }
+  }
+);
+
+// 共有リンク削除
+app.delete(
+  '/:id',
+  requireRole('super'),
+  zValidator('param', z.object({ id: z.coerce.number() })),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const current = shareLinkRepository.getById(id);
+      if (!current) return useResponse(c, { error: '共有リンクが見つかりません' }, 404);
+      const auth = await ensureAuthorized(c, current.dataSetId);
+      if (auth) return auth;
+      shareLinkRepository.delete(id);
+      return useResponse(c, { success: true });
+    } catch (error) {
+      console.error('共有リンク削除エラー:', error);
+      return useResponse(c, { error: '共有リンクの削除に失敗しました' }, 500);
+    }
+  }
+);
+
+export { app as shareLinksRoute };
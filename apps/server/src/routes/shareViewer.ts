@@ -0,0 +1,221 @@
+import { zValidator } from '@hono/zod-validator';
+import type { Context } from 'hono';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { serveStorageFile } from '../middlewares/files';
+import {
+  matchesShareLinkPassword,
+  type ShareLink,
+  StandaloneShareLinkRepository,
+} from '../repositories/sqlite/share-link-repository';
+import {
+  isShareLinkUnlocked,
+  setShareLinkAuthCookie,
+  signShareFilePath,
+  verifyShareFilePath,
+} from '../utils/dataset-protection';
+import { toStorageRelativePath } from '../utils/file-access';
+import {
+  getShareViewerCopy,
+  renderShareGridPage,
+  renderSharePasswordPage,
+  renderShareStackPage,
+  renderShareUnavailablePage,
+  type ShareAssetItem,
+} from '../utils/shareViewerPage';
+
+const app = new Hono();
+const shareLinkRepository = new StandaloneShareLinkRepository();
+
+const PAGE_SIZE = 60;
+
+// トークンが URL に含まれるため、検索エンジンや遷移先に漏らさない
+const PAGE_HEADERS = {
+  'Cache-Control': 'no-store',
+  'Referrer-Policy': 'no-referrer',
+  'X-Robots-Tag': 'noindex, nofollow',
+};
+
+type SharedStack = NonNullable<ReturnType<StandaloneShareLinkRepository['getSharedStack']>>;
+
+const isVideo = (fileType: string | null | undefined, file: string) =>
+  /^video\//.test(fileType ?? '') || /\.(mp4|webm|mov|m4v)$/i.test(toStorageRelativePath(file));
+
+/** /files 配下の公開パスを、共有トークンで署名した URL にする */
+const toShareFileUrl = (token: string, publicPath: string | null | undefined) => {
+  if (!publicPath) return '';
+  if (/^https?:\/\//i.test(publicPath)) return publicPath;
+  // 保護されたライブラリの署名は外し、共有トークンの署名に付け替える
+  const rel = toStorageRelativePath(publicPath);
+  const encoded = rel.split('/').map(encodeURIComponent).join('/');
+  return `/share/${token}/files/${encoded}?sig=${signShareFilePath(token, rel)}`;
+};
+
+const toShareAssets = (link: ShareLink, stack: SharedStack): ShareAssetItem[] =>
+  stack.assets.map((asset) => {
+    const thumbnail = toShareFileUrl(link.token, asset.thumbnail);
+    const original = link.allowOriginals ? toShareFileUrl(link.token, asset.file) : undefined;
+    if (isVideo(asset.fileType, asset.file)) {
+      // 動画はオリジナルを許可したときだけ再生できる
+      return original
+        ? { kind: 'video', src: original, poster: thumbnail, originalHref: original }
+        : { kind: 'image', src: thumbnail };
+    }
+    const preview = asset.preview ? toShareFileUrl(link.token, asset.preview) : undefined;
+    return { kind: 'image', src: preview ?? original ?? thumbnail, originalHref: original };
+  });
+
+/** 有効なリンクならリンクを、そうでなければ表示するページを返す */
+const resolveLink = (c: Context, token: string) => {
+  const copy = getShareViewerCopy();
+  const resolved = shareLinkRepository.resolve(token);
+  if (resolved.status !== 'active') {
+    const status = resolved.status === 'not-found' ? 404 : 410;
+    return {
+      response: c.html(renderShareUnavailablePage(copy, resolved.status), status, PAGE_HEADERS),
+    };
+  }
+  if (!isShareLinkUnlocked(c, resolved.link.id, resolved.passwordHash)) {
+    return {
+      response: c.html(
+        renderSharePasswordPage(copy, { action: `/share/${token}/unlock` }),
+        401,
+        PAGE_HEADERS
+      ),
+    };
+  }
+  return { link: resolved.link };
+};
+
+const renderStack = (c: Context, link: ShareLink, stack: SharedStack, backHref?: string) =>
+  c.html(
+    renderShareStackPage(getShareViewerCopy(), {
+      title: stack.name,
+      author: stack.author?.name,
+      backHref,
+      assets: toShareAssets(link, stack),
+    }),
+    200,
+    PAGE_HEADERS
+  );
+
+// 共有トップ。コレクションはスタックの一覧、スタックはそのまま中身を表示する
+app.get(
+  '/:token',
+  zValidator('query', z.object({ page: z.coerce.number().int().min(1).default(1) })),
+  (c) => {
+    const token = c.req.param('token');
+    const { page } = c.req.valid('query');
+    const { link, response } = resolveLink(c, token);
+    if (!link) return response;
+    if (page === 1) shareLinkRepository.recordView(link.id);
+
+    if (link.targetType === 'stack') {
+      const stack = shareLinkRepository.getSharedStack(link, link.targetId);
+      if (!stack) {
+        return c.html(
+          renderShareUnavailablePage(getShareViewerCopy(), 'not-found'),
+          404,
+          PAGE_HEADERS
+        );
+      }
+      return renderStack(c, link, stack);
+    }
+
+    const { stacks, total } = shareLinkRepository.getSharedStacks(
+      link,
+      PAGE_SIZE,
+      (page - 1) * PAGE_SIZE
+    );
+    return c.html(
+      renderShareGridPage(getShareViewerCopy(), {
+        title: link.targetName ?? '',
+        total,
+        items: stacks.map((stack) => ({
+          href: `/share/${token}/stacks/${stack.id}`,
+          thumbnail: toShareFileUrl(token, stack.thumbnail),
+          name: stack.name,
+        })),
+        previousHref: page > 1 ? `/share/${token}?page=${page - 1}` : undefined,
+        nextHref: page * PAGE_SIZE < total ? `/share/${token}?page=${page + 1}` : undefined,
+      }),
+      200,
+      PAGE_HEADERS
+    );
+  }
+);
+
+// パスワードの確認。成功したらリンクごとの Cookie を発行する
+app.post('/:token/unlock', async (c) => {
+  const token = c.req.param('token');
+  const resolved = shareLinkRepository.resolve(token);
+  if (resolved.status !== 'active') {
+    const status = resolved.status === 'not-found' ? 404 : 410;
+    return c.html(
+      renderShareUnavailablePage(getShareViewerCopy(), resolved.status),
+      status,
+      PAGE_HEADERS
+    );
+  }
+  if (!resolved.passwordHash) return c.redirect(`/share/${token}`, 303);
+
+  const body = await c.req.parseBody();
+  const password = typeof body.password === 'string' ? body.password : '';
+  if (!matchesShareLinkPassword(password, resolved.passwordHash)) {
+    return c.html(
+      renderSharePasswordPage(getShareViewerCopy(), {
+        action: `/share/${token}/unlock`,
+        failed: true,
+      }),
+      401,
+      PAGE_HEADERS
+    );
+  }
+  setShareLinkAuthCookie(c, resolved.link.id, token, resolved.passwordHash);
+  return c.redirect(`/share/${token}`, 303);
+});
+
+app.get(
+  '/:token/stacks/:stackId',
+  zValidator('param', z.object({ token: z.string(), stackId: z.coerce.number() })),
+  (c) => {
+    const { token, stackId } = c.req.valid('param');
+    const { link, response } = resolveLink(c, token);
+    if (!link) return response;
+    const stack = shareLinkRepository.getSharedStack(link, stackId);
+    if (!stack) {
+      return c.html(
+        renderShareUnavailablePage(getShareViewerCopy(), 'not-found'),
+        404,
+        PAGE_HEADERS
+      );
+    }
+    return renderStack(c, link, stack, `/share/${token}`);
+  }
+);
+
+// 共有ページが署名付きで出力したファイルだけを配信する
+app.get('/:token/files/*', async (c) => {
+  const token = c.req.param('token');
+  const { link } = resolveLink(c, token);
+  if (!link) return c.text('Not found', 404);
+
+  const prefix = `/share/${token}/files/`;
+  const pathname = new URL(c.req.url).pathname;
+  if (!pathname.startsWith(prefix)) return c.text('Not found', 404);
+  let rel: string;
+  try {
+    rel = pathname.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+  } catch {
+    return c.text('Not found', 404);
+  }
+  if (!verifyShareFilePath(token, rel, c.req.query('sig'))) return c.text('Not found', 404);
+
+  const response = await serveStorageFile(c, rel);
+  // 失効したリンクのファイルが共有キャッシュに残らないようにする
+  response.headers.set('Cache-Control', 'private, max-age=3600');
+  response.headers.set('Referrer-Policy', 'no-referrer');
+  return response;
+});
+
+export { app as shareViewerRoute };
@@ -1,18 +1,29 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { compileSearchQuery, SearchQuerySyntaxError } from '@caramelboard/search-query';
 import { type Context, Hono } from 'hono';
 import { z } from 'zod';
+import { ComicArchiveError } from '../errors/ComicArchiveError';
 import { DuplicateAssetError } from '../errors/DuplicateAssetError';
+import { JOB_TYPES, jobQueue } from '../jobs';
 import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
 import { StandaloneAutoTagRepository } from '../repositories/sqlite/auto-tag-repository';
 import { StandaloneColorRepository } from '../repositories/sqlite/color-repository';
 import { StandaloneLibraryRepository } from '../repositories/sqlite/library-repository';
 import {
+  type OperationType,
+  StandaloneOperationLogRepository,
+} from '../repositories/sqlite/operation-log-repository';
+import {
+  type AssetSourceInput,
   type StandaloneStackListParams,
   StandaloneStackRepository,
 } from '../repositories/sqlite/stack-repository';
 import { useDataStorage } from '../shared/di';
+import { exportComic } from '../utils/comicExport';
+import { readStoredFile } from '../utils/dataset-encryption';
+import { getAttachmentDisposition } from '../utils/functions';
+import { inferMediaTypeFromMime } from '../utils/urlImport';
 import { createZipArchive } from '../utils/zip';
 
 export const stacksRoute = new Hono();
@@ -27,13 +38,6 @@ const ActualMediaTypesQuerySchema = z
     if (value === undefined) return undefined;
     return Array.isArray(value) ? value : [value];
   });
-type ImportedFile = {
-  path: string;
-  originalname: string;
-  mimetype: string;
-  size: number;
-};
-
 interface UploadedFile {
   name: string;
   type: string;
@@ -41,10 +45,25 @@ interface UploadedFile {
   arrayBuffer: () => Promise<ArrayBuffer>;
 }
 
+const NEAR_DUPLICATE_WARNING_LIMIT = 5;
+
 const stackRepository = new StandaloneStackRepository();
 const libraryRepository = new StandaloneLibraryRepository();
 const autoTagRepository = new StandaloneAutoTagRepository();
 const colorRepository = new StandaloneColorRepository();
+const operationLogRepository = new StandaloneOperationLogRepository();
+
+// 取り消し用の状態を操作ログへ残し、クライアントの「元に戻す」に使う id を返す
+const recordStackOperation = (
+  stackIds: number[],
+  operation: OperationType,
+  undo: unknown,
+  itemCount = stackIds.length
+) => {
+  const dataSetId = operationLogRepository.getDatasetIdOfStacks(stackIds);
+  if (dataSetId === null) return null;
+  return operationLogRepository.record(dataSetId, operation, itemCount, undo);
+};
 
 const PaginatedQuerySchema = z.object({
   dataSetId: z.coerce.number().int().positive(),
@@ -55,6 +74,7 @@ const PaginatedQuerySchema = z.object({
   author: z.union([z.array(z.string()), z.string()]).optional(),
   fav: z.enum(['0', '1']).optional(),
   liked: z.enum(['0', '1']).optional(),
+  reading: z.enum(['unread', 'in-progress', 'read']).optional(),
   hasNoTags: z.coerce.boolean().optional(),
   hasNoAuthor: z.coerce.boolean().optional(),
   search: z.string().optional(),
@@ -68,7 +88,7 @@ const PaginatedQuerySchema = z.object({
     .regex(/^#[0-9A-Fa-f]{6}$/)
     .optional(),
   sort: z
-    .enum(['recommended', 'dateAdded', 'name', 'likes', 'updated', 'id'])
+    .enum(['recommended', 'relevance', 'dateAdded', 'name', 'likes', 'updated', 'id'])
     .optional()
     .default('recommended'),
   order: z.enum(['asc', 'desc']).optional().default('desc'),
@@ -88,6 +108,11 @@ const DownloadOriginalsQuerySchema = z.object({
   assetIds: z.union([z.string(), z.array(z.string())]).optional(),
 });
 
+const ComicExportQuerySchema = z.object({
+  format: z.enum(['cbz', 'pdf']).default('cbz'),
+  maxSize: z.coerce.number().int().min(256).max(10000).optional(),
+});
+
 const AutoTagSearchQuerySchema = z.object({
   dataSetId: z.coerce.number().int().positive(),
   autoTag: z.union([z.array(z.string()), z.string()]),
@@ -120,6 +145,10 @@ const BulkFavoriteSchema = z.object({
   stackIds: z.array(z.number().int().positive()),
   favorited: z.boolean(),
 });
+const RefreshAutoTagsSchema = z.object({
+  threshold: z.number().min(0).max(1).optional(),
+  forceRegenerate: z.boolean().optional(),
+});
 const BulkRefreshThumbsSchema = z.object({ stackIds: z.array(z.number().int().positive()) });
 const BulkRemoveSchema = z.object({ stackIds: z.array(z.number().int().positive()) });
 const SetThumbnailSourceSchema = z.object({
@@ -135,15 +164,38 @@ const MergeStacksSchema = z.object({
 });
 
 const ImportFromUrlsSchema = z.object({
-  urls: z.array(z.string().url()).min(1).max(20),
+  urls: z.array(z.string().url()).min(1).max(100),
   dataSetId: z.number().int().positive().optional(),
   stackId: z.number().int().positive().optional(),
   mediaType: MediaCategorySchema.optional(),
   collectionId: z.number().int().positive().optional(),
   author: z.string().min(1).max(200).optional(),
   tags: z.array(z.string().min(1)).optional(),
+  pageUrl: z.string().url().optional(),
+  referrer: z.string().url().optional(),
+  channel: z.enum(['url-import', 'clipper']).optional(),
+  singleStack: z.boolean().optional(),
+});
+
+const ImportedUrlsSchema = z.object({
+  dataSetId: z.number().int().positive(),
+  urls: z.array(z.string().url()).min(1).max(500),
 });
 
+// アップロードの取り込み元。クリッパーはページとメディアの URL も送ってくる
+const readUploadSource = (formData: FormData): AssetSourceInput => {
+  const text = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  };
+  return {
+    channel: text('importChannel') === 'clipper' ? 'clipper' : 'upload',
+    pageUrl: text('sourcePageUrl'),
+    mediaUrl: text('sourceMediaUrl'),
+    referrer: text('sourceReferrer'),
+  };
+};
+
 const normalizeStringArray = (value: string | string[] | undefined) => {
   if (value === undefined) return undefined;
   return Array.isArray(value) ? value : [value];
@@ -223,15 +275,6 @@ const getStandaloneColorStackIds = (options: {
   });
 };
 
-const getAttachmentDisposition = (filename: string) => {
-  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
-  const encoded = encodeURIComponent(filename).replace(
-    /['()*]/g,
-    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
-  );
-  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
-};
-
 const getContentType = (filename: string, fileType?: string | null) => {
   if (fileType?.startsWith('image/')) return fileType;
   const ext = path.extname(filename).toLowerCase();
@@ -304,180 +347,26 @@ const resolveStoredFilePath = (
   return null;
 };
 
-const sanitizeFileNameForStorage = (name: string) => {
-  const withoutControl = Array.from(name)
-    .filter((char) => {
-      const code = char.charCodeAt(0);
-      return code >= 0x20 && code !== 0x7f;
-    })
-    .join('');
-  const sanitized = withoutControl.replace(/[\\/:*?"<>|]+/g, '_').trim();
-  if (sanitized.length > 0) {
-    return sanitized.length > 200 ? sanitized.slice(-200) : sanitized;
-  }
-  return `remote-${Date.now()}`;
-};
-
-const resolveFileNameFromHeaders = (urlString: string, contentDisposition: string | null) => {
-  if (contentDisposition) {
-    const encodedMatch = contentDisposition.match(/filename\*=UTF-8''([^;]+)/i);
-    if (encodedMatch?.[1]) {
-      try {
-        return decodeURIComponent(encodedMatch[1]);
-      } catch {}
-    }
-    const quotedMatch = contentDisposition.match(/filename="?([^";]+)"?/i);
-    if (quotedMatch?.[1]) {
-      try {
-        return decodeURIComponent(quotedMatch[1]);
-      } catch {
-        return quotedMatch[1];
-      }
-    }
-  }
-
-  try {
-    const target = new URL(urlString);
-    const base = target.pathname.split('/').filter(Boolean).pop() ?? '';
-    return base || `remote-${Date.now()}`;
-  } catch {
-    return `remote-${Date.now()}`;
-  }
-};
-
-const inferMediaTypeFromMime = (
-  mime: string | null | undefined,
-  originalName: string
-): MediaCategory => {
-  const ext = path.extname(originalName).toLowerCase();
-  if (ext === '.ai' || ext === '.svg' || ext === '.svgz') return 'image';
-  if (ext === '.pdf') return 'comic';
-  if (['.mp4', '.mov', '.avi', '.mkv', '.webm', '.mpeg', '.mpg'].includes(ext)) return 'video';
-  if (mime?.startsWith('video/')) return 'video';
-  if (mime === 'application/pdf') return 'comic';
-  return 'image';
-};
-
-const lookupMimeFromExtension = (originalName: string): string | null => {
-  const ext = path.extname(originalName).toLowerCase();
-  if (!ext) return null;
-  const mapping: Record<string, string> = {
-    '.jpg': 'image/jpeg',
-    '.jpeg': 'image/jpeg',
-    '.png': 'image/png',
-    '.gif': 'image/gif',
-    '.webp': 'image/webp',
-    '.svg': 'image/svg+xml',
-    '.svgz': 'image/svg+xml',
-    '.bmp': 'image/bmp',
-    '.avif': 'image/avif',
-    '.heic': 'image/heic',
-    '.dng': 'image/x-adobe-dng',
-    '.mp4': 'video/mp4',
-    '.mov': 'video/quicktime',
-    '.webm': 'video/webm',
-    '.mkv': 'video/x-matroska',
-    '.avi': 'video/x-msvideo',
-    '.mpeg': 'video/mpeg',
-    '.mpg': 'video/mpeg',
-    '.pdf': 'application/pdf',
-    '.ai': 'application/pdf',
-  };
-  return mapping[ext] ?? null;
-};
-
-const downloadRemoteAsset = async (url: string, tmpDir: string): Promise<ImportedFile> => {
-  const targetUrl = new URL(url);
-  const headers: Record<string, string> = {
-    'User-Agent':
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/118 Safari/537.36',
-  };
-
-  if (targetUrl.hostname.endsWith('pximg.net')) {
-    headers.Referer = 'https://www.pixiv.net/';
-  }
-
-  const response = await fetch(url, { headers });
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}で取得に失敗しました`);
-  }
-
-  const buffer = Buffer.from(await response.arrayBuffer());
-  if (buffer.length === 0) {
-    throw new Error('空のファイルが返却されました');
-  }
-
-  const rawName = resolveFileNameFromHeaders(url, response.headers.get('content-disposition'));
-  const sanitizedName = sanitizeFileNameForStorage(rawName.split('?')[0] ?? rawName);
-  const tmpPath = path.join(
-    tmpDir,
-    `${Date.now()}-${Math.random().toString(36).slice(2, 10)}-${sanitizedName}`
-  );
-  fs.writeFileSync(tmpPath, buffer);
-
-  const headerMime = response.headers.get('content-type');
-  const lookedUp = lookupMimeFromExtension(sanitizedName);
-  const mimetype =
-    headerMime && headerMime !== 'application/octet-stream'
-      ? headerMime
-      : (lookedUp ?? 'application/octet-stream');
-
-  return {
-    path: tmpPath,
-    originalname: sanitizedName,
-    mimetype,
-    size: buffer.length,
-  };
-};
-
-const copyLocalAssetFromFileUrl = (url: string, tmpDir: string): ImportedFile => {
-  const sourcePath = fileURLToPath(new URL(url));
-  let stat: fs.Stats;
-  try {
-    stat = fs.statSync(sourcePath);
-  } catch {
-    throw new Error('ローカルファイルが見つかりません');
-  }
-
-  if (!stat.isFile()) {
-    throw new Error('ローカルファイルのみドロップできます');
-  }
-
-  const originalname = sanitizeFileNameForStorage(path.basename(sourcePath));
-  const tmpPath = path.join(
-    tmpDir,
-    `${Date.now()}-${Math.random().toString(36).slice(2, 10)}-${originalname}`
-  );
-  fs.copyFileSync(sourcePath, tmpPath);
-
-  return {
-    path: tmpPath,
-    originalname,
-    mimetype: lookupMimeFromExtension(originalname) ?? 'application/octet-stream',
-    size: stat.size,
-  };
-};
-
-const importAssetFromUrl = async (url: string, tmpDir: string) => {
-  const targetUrl = new URL(url);
-
-  if (targetUrl.protocol === 'file:') {
-    return copyLocalAssetFromFileUrl(url, tmpDir);
-  }
-
-  if (targetUrl.protocol !== 'http:' && targetUrl.protocol !== 'https:') {
-    throw new Error('未対応のURLスキームです');
-  }
-
-  return downloadRemoteAsset(url, tmpDir);
+// アップロード時の警告用。バイト一致ではないが見た目がほぼ同じ既存スタックを返す
+const getUploadNearDuplicates = (asset: { id?: number } | null | undefined) => {
+  const assetId = Number(asset?.id ?? 0);
+  if (!assetId) return [];
+  return stackRepository.findNearDuplicatesOfAsset(assetId).slice(0, NEAR_DUPLICATE_WARNING_LIMIT);
 };
 
 const scheduleStandaloneAutoTagPrediction = (asset: { id?: number } | null) => {
   const assetId = Number(asset?.id ?? 0);
   if (!assetId) return;
-  void autoTagRepository.predictAssetTags(assetId, 0.4).catch((error) => {
-    console.error(`Failed to predict standalone AutoTags for asset ${assetId}:`, error);
-  });
+  void autoTagRepository
+    .predictAssetTags(assetId, 0.4)
+    .catch((error) => {
+      console.error(`Failed to predict standalone AutoTags for asset ${assetId}:`, error);
+    })
+    // 類似検索用の画像埋め込みは AutoTag の後に同じ JoyTag で計算する
+    .then(() => autoTagRepository.embedAsset(assetId))
+    .catch((error) => {
+      console.error(`Failed to embed asset ${assetId}:`, error);
+    });
 };
 
 stacksRoute.get('/download-originals', async (c) => {
@@ -512,7 +401,7 @@ stacksRoute.get('/download-originals', async (c) => {
   if (downloadableAssets.length === 1) {
     const asset = downloadableAssets[0];
     const filename = getDownloadFilename(asset.originalName, asset.file);
-    const data = fs.readFileSync(asset.filePath);
+    const data = readStoredFile(asset.filePath);
     return new Response(toResponseBody(data), {
       headers: {
         'Content-Type': getContentType(filename, asset.fileType),
@@ -526,7 +415,7 @@ stacksRoute.get('/download-originals', async (c) => {
   const usedNames = new Map<string, number>();
   const zipEntries = downloadableAssets.map((asset) => ({
     name: getUniqueFilename(getDownloadFilename(asset.originalName, asset.file), usedNames),
-    data: fs.readFileSync(asset.filePath),
+    data: readStoredFile(asset.filePath),
   }));
   const zip = createZipArchive(zipEntries);
   const zipFilename =
@@ -544,6 +433,50 @@ stacksRoute.get('/download-originals', async (c) => {
   });
 });
 
+stacksRoute.get('/:id{[0-9]+}/export', async (c) => {
+  const stackId = Number.parseInt(c.req.param('id'), 10);
+  const parse = ComicExportQuerySchema.safeParse(getQueryObject(c));
+  if (!parse.success) return c.json({ error: 'Invalid query', details: parse.error }, 400);
+
+  const stack = stackRepository.getById(stackId);
+  if (!stack) return c.json({ error: 'Stack not found' }, 404);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, stack.dataSetId);
+  if (auth) return auth;
+
+  const dataStorage = useDataStorage(c);
+  const pagePaths: string[] = [];
+  for (const file of stackRepository.getPageFiles(stackId)) {
+    const filePath = resolveStoredFilePath(file, dataStorage);
+    if (!filePath) return c.json({ error: 'Original file missing', file }, 404);
+    pagePaths.push(filePath);
+  }
+  if (pagePaths.length === 0) return c.json({ error: 'No pages to export' }, 404);
+
+  const reading = stack.meta.reading as { openingDirection?: unknown } | undefined;
+  const { format, maxSize } = parse.data;
+  const exported = await exportComic(
+    {
+      name: stack.name,
+      author: stack.author?.name ?? null,
+      tags: (stack.tags ?? []).map((tag) => tag.title),
+      openingDirection:
+        reading?.openingDirection === 'left-opening' ? 'left-opening' : 'right-opening',
+    },
+    pagePaths,
+    { format, maxSize }
+  );
+  const filename = `${getDownloadFilename(stack.name, `stack-${stackId}`)}.${format}`;
+
+  return new Response(toResponseBody(exported.data), {
+    headers: {
+      'Content-Type': exported.mimeType,
+      'Content-Disposition': getAttachmentDisposition(filename),
+      'Content-Length': exported.data.length.toString(),
+      'Cache-Control': 'no-store',
+    },
+  });
+});
+
 stacksRoute.get('/paginated', async (c) => {
   const parse = PaginatedQuerySchema.safeParse(getQueryObject(c));
   if (!parse.success) return c.json({ error: 'Invalid query', details: parse.error }, 400);
@@ -558,6 +491,7 @@ stacksRoute.get('/paginated', async (c) => {
     author: query.author,
     fav: query.fav,
     liked: query.liked,
+    reading: query.reading,
     hasNoTags: query.hasNoTags,
     hasNoAuthor: query.hasNoAuthor,
     search: query.search,
@@ -570,21 +504,29 @@ stacksRoute.get('/paginated', async (c) => {
   const auth = await ensureDatasetAuthorizedForCurrentStore(c, stackListParams.dataSetId);
   if (auth) return auth;
 
-  const stackIds = getStandaloneColorStackIds({
-    dataSetId: stackListParams.dataSetId,
-    mediaCategory: stackListParams.mediaCategory,
-    hueCategories: query.hueCategories,
-    toneSaturation: query.toneSaturation,
-    toneLightness: query.toneLightness,
-    toneTolerance: query.toneTolerance,
-    similarityThreshold: query.similarityThreshold,
-    customColor: query.customColor,
-  });
-  const result = stackRepository.getPaginated({
-    ...stackListParams,
-    stackIds,
-  });
-  return c.json(result);
+  try {
+    const compiled = compileSearchQuery(query.search);
+    const stackIds = getStandaloneColorStackIds({
+      dataSetId: stackListParams.dataSetId,
+      mediaCategory: stackListParams.mediaCategory,
+      hueCategories: query.hueCategories,
+      toneSaturation: query.toneSaturation,
+      toneLightness: query.toneLightness,
+      toneTolerance: query.toneTolerance,
+      similarityThreshold: query.similarityThreshold,
+      customColor: query.customColor ?? compiled.filters.color?.hex,
+    });
+    const result = stackRepository.getPaginated({
+      ...stackListParams,
+      stackIds,
+    });
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) {
+      return c.json({ error: error.message, code: error.code, details: error.details }, 400);
+    }
+    throw error;
+  }
 });
 
 stacksRoute.get('/favorites/list', async (c) => {
@@ -623,25 +565,32 @@ stacksRoute.get('/search/autotag', async (c) => {
   if (auth) return auth;
   const tags = Array.isArray(autoTag) ? autoTag : [autoTag];
   const stackIds = autoTagRepository.getMatchingStackIds(dataSetId, tags);
-  return c.json(
-    stackRepository.getPaginated({
-      dataSetId,
-      stackIds,
-      limit,
-      offset,
-      search,
-      mediaCategory,
-      mediaTypes,
-      author,
-      tag,
-      fav,
-      liked,
-      hasNoTags,
-      hasNoAuthor,
-      sort: 'id',
-      order: 'desc',
-    })
-  );
+  try {
+    return c.json(
+      stackRepository.getPaginated({
+        dataSetId,
+        stackIds,
+        limit,
+        offset,
+        search,
+        mediaCategory,
+        mediaTypes,
+        author,
+        tag,
+        fav,
+        liked,
+        hasNoTags,
+        hasNoAuthor,
+        sort: 'id',
+        order: 'desc',
+      })
+    );
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) {
+      return c.json({ error: error.message, code: error.code, details: error.details }, 400);
+    }
+    throw error;
+  }
 });
 
 stacksRoute.post('/:id{[0-9]+}/like', async (c) => {
@@ -715,11 +664,20 @@ stacksRoute.post('/:id{[0-9]+}/aggregate-tags', async (c) => {
 stacksRoute.post('/:id{[0-9]+}/refresh-autotags', async (c) => {
   const id = Number.parseInt(c.req.param('id'), 10);
   try {
-    const result = await autoTagRepository.refreshStackTags(id, {
-      threshold: 0.4,
-      forceRegenerate: true,
-    });
-    return c.json(result);
+    const parse = RefreshAutoTagsSchema.safeParse(await c.req.json().catch(() => ({})));
+    if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
+    const stack = stackRepository.getById(id);
+    if (!stack) return c.json({ error: 'Stack not found' }, 404);
+    const job = jobQueue.enqueue(
+      JOB_TYPES.refreshAutoTags,
+      {
+        stackIds: [id],
+        threshold: parse.data.threshold ?? 0.4,
+        forceRegenerate: parse.data.forceRegenerate ?? true,
+      },
+      { dataSetId: stack.dataSetId }
+    );
+    return c.json({ job }, 202);
   } catch (error) {
     console.error('Error refreshing AutoTags:', error);
     return c.json({ error: 'Failed to refresh AutoTags' }, 500);
@@ -764,18 +722,25 @@ stacksRoute.post('/:id{[0-9]+}/assets', async (c) => {
   fs.writeFileSync(tmpPath, new Uint8Array(await file.arrayBuffer()));
 
   try {
-    const asset = await stackRepository.addAssetWithFile(stackId, {
-      path: tmpPath,
-      originalname: file.name,
-      mimetype: file.type,
-      size: file.size,
-    });
+    const asset = await stackRepository.addAssetWithFile(
+      stackId,
+      {
+        path: tmpPath,
+        originalname: file.name,
+        mimetype: file.type,
+        size: file.size,
+      },
+      { source: readUploadSource(formData) }
+    );
     scheduleStandaloneAutoTagPrediction(asset);
-    return c.json(asset, 201);
+    return c.json({ ...asset, nearDuplicates: getUploadNearDuplicates(asset) }, 201);
   } catch (error) {
     if (error instanceof DuplicateAssetError) {
       return c.json({ error: error.message, code: error.code, details: error.details }, 409);
     }
+    if (error instanceof ComicArchiveError) {
+      return c.json({ error: error.message, code: error.code }, 400);
+    }
     const pdfErrorMessage = getPdfProcessingErrorMessage(error);
     if (pdfErrorMessage) return c.json({ error: pdfErrorMessage }, 400);
     throw error;
@@ -790,22 +755,31 @@ stacksRoute.get('/:id{[0-9]+}/collections', async (c) => {
 stacksRoute.post('/bulk/tags', async (c) => {
   const parse = BulkTagsSchema.safeParse(await c.req.json().catch(() => ({})));
   if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
-  const updated = stackRepository.bulkAddTags(parse.data.stackIds, parse.data.tags);
-  return c.json({ success: true, updated });
+  const { stackIds, tags } = parse.data;
+  const before = operationLogRepository.captureStackTags(stackIds);
+  const updated = stackRepository.bulkAddTags(stackIds, tags);
+  const undo = operationLogRepository.diffStackTags(stackIds, before);
+  const operationId =
+    undo.added.length > 0 ? recordStackOperation(stackIds, 'stacks.bulk-tags', undo) : null;
+  return c.json({ success: true, updated, operationId });
 });
 
 stacksRoute.put('/bulk/author', async (c) => {
   const parse = BulkAuthorSchema.safeParse(await c.req.json().catch(() => ({})));
   if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
+  const undo = operationLogRepository.captureStackAuthors(parse.data.stackIds);
   const updated = stackRepository.bulkSetAuthor(parse.data.stackIds, parse.data.author);
-  return c.json({ success: true, updated });
+  const operationId = recordStackOperation(parse.data.stackIds, 'stacks.bulk-author', undo);
+  return c.json({ success: true, updated, operationId });
 });
 
 stacksRoute.put('/bulk/media-type', async (c) => {
   const parse = BulkMediaTypeSchema.safeParse(await c.req.json().catch(() => ({})));
   if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
+  const undo = operationLogRepository.captureStackMediaTypes(parse.data.stackIds);
   const updated = stackRepository.bulkSetMediaType(parse.data.stackIds, parse.data.mediaType);
-  return c.json({ success: true, updated });
+  const operationId = recordStackOperation(parse.data.stackIds, 'stacks.bulk-media-type', undo);
+  return c.json({ success: true, updated, operationId });
 });
 
 stacksRoute.put('/bulk/favorite', async (c) => {
@@ -818,60 +792,50 @@ stacksRoute.put('/bulk/favorite', async (c) => {
 stacksRoute.post('/bulk/refresh-thumbnails', async (c) => {
   const parse = BulkRefreshThumbsSchema.safeParse(await c.req.json().catch(() => ({})));
   if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
-  const updated = await stackRepository.bulkRefreshThumbnails(parse.data.stackIds);
-  let previewEligible = 0;
-  let previewRegenerated = 0;
-  let previewFailures = 0;
-
-  for (const stackId of parse.data.stackIds) {
-    try {
-      const stack = stackRepository.getById(stackId);
-      const dataSetId = Number(stack?.dataSetId ?? stack?.datasetId);
-      if (!stack || !Number.isFinite(dataSetId)) {
-        previewFailures++;
-        continue;
-      }
-      const result = await stackRepository.regeneratePreviews(stackId, dataSetId, { force: true });
-      previewEligible += result?.eligible ?? 0;
-      previewRegenerated += result?.regenerated ?? 0;
-      previewFailures += result?.failed?.length ?? 0;
-    } catch (error) {
-      previewFailures++;
-      console.error(`Failed to regenerate previews for stack ${stackId}:`, error);
-    }
-  }
-
-  return c.json({
-    success: updated.success && previewFailures === 0,
-    updated,
-    previews: {
-      eligible: previewEligible,
-      regenerated: previewRegenerated,
-      failures: previewFailures,
-    },
-  });
+  if (parse.data.stackIds.length === 0) return c.json({ error: 'stackIds is required' }, 400);
+  const firstStack = stackRepository.getById(parse.data.stackIds[0]);
+  const job = jobQueue.enqueue(
+    JOB_TYPES.refreshThumbnails,
+    { stackIds: parse.data.stackIds },
+    { dataSetId: firstStack?.dataSetId ?? null }
+  );
+  return c.json({ job }, 202);
 });
 
 stacksRoute.post('/merge', async (c) => {
   const parse = MergeStacksSchema.safeParse(await c.req.json().catch(() => ({})));
   if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
-  const stack = stackRepository.mergeStacks(parse.data.targetId, parse.data.sourceIds);
+  const { targetId, sourceIds } = parse.data;
+  const undo = operationLogRepository.captureStackMerge(targetId, sourceIds);
+  const stack = stackRepository.mergeStacks(targetId, sourceIds);
   if (!stack) return c.json({ error: 'Stack not found' }, 404);
-  return c.json(stack);
+  const operationId = recordStackOperation([targetId], 'stacks.merge', undo, sourceIds.length);
+  return c.json({ ...stack, operationId });
 });
 
 stacksRoute.delete('/bulk/remove', async (c) => {
   const parse = BulkRemoveSchema.safeParse(await c.req.json().catch(() => ({})));
   if (!parse.success) return c.json({ error: 'Invalid body', details: parse.error }, 400);
+  const dataSetId = operationLogRepository.getDatasetIdOfStacks(parse.data.stackIds);
   const deleted = stackRepository.bulkRemoveStacks(parse.data.stackIds);
-  return c.json({ success: true, deleted });
+  const operationId =
+    dataSetId !== null && deleted.trashItemIds.length > 0
+      ? operationLogRepository.record(dataSetId, 'stacks.remove', deleted.removed, {
+          trashItemIds: deleted.trashItemIds,
+        })
+      : null;
+  return c.json({ success: true, deleted, operationId });
 });
 
 stacksRoute.delete('/:id{[0-9]+}', async (c) => {
   const id = Number.parseInt(c.req.param('id'), 10);
-  const ok = stackRepository.deleteStack(id);
-  if (!ok) return c.json({ error: 'Stack not found' }, 404);
-  return c.json({ success: true });
+  const dataSetId = operationLogRepository.getDatasetIdOfStacks([id]);
+  const trashItemId = stackRepository.deleteStack(id);
+  if (!trashItemId) return c.json({ error: 'Stack not found' }, 404);
+  const operationId = operationLogRepository.record(dataSetId, 'stacks.remove', 1, {
+    trashItemIds: [trashItemId],
+  });
+  return c.json({ success: true, operationId });
 });
 
 stacksRoute.put('/:id{[0-9]+}/author', async (c) => {
@@ -956,6 +920,7 @@ stacksRoute.post('/', async (c) => {
       mediaType,
       tags: tags.length ? tags : undefined,
       author: typeof authorValue === 'string' ? authorValue : undefined,
+      source: readUploadSource(formData),
       file: {
         path: tmpPath,
         originalname: file.name,
@@ -968,11 +933,14 @@ stacksRoute.post('/', async (c) => {
       libraryRepository.addStackToCollection(collectionId, Number(stack.id));
     }
     scheduleStandaloneAutoTagPrediction(stack.assets?.[0] ?? null);
-    return c.json(stack, 201);
+    return c.json({ ...stack, nearDuplicates: getUploadNearDuplicates(stack.assets?.[0]) }, 201);
   } catch (error) {
     if (error instanceof DuplicateAssetError) {
       return c.json({ error: error.message, code: error.code, details: error.details }, 409);
     }
+    if (error instanceof ComicArchiveError) {
+      return c.json({ error: error.message, code: error.code }, 400);
+    }
     const pdfErrorMessage = getPdfProcessingErrorMessage(error);
     if (pdfErrorMessage) return c.json({ error: pdfErrorMessage }, 400);
     console.error('Error creating stack with file:', error);
@@ -980,13 +948,43 @@ stacksRoute.post('/', async (c) => {
   }
 });
 
+// 取り込み前に、既に取り込んだメディア URL を調べる（クリッパーの一括取り込みで使う）
+stacksRoute.post('/imported-urls', async (c) => {
+  const parse = ImportedUrlsSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parse.success) {
+    return c.json({ error: 'Invalid body', details: parse.error }, 400);
+  }
+
+  const { dataSetId, urls } = parse.data;
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+  if (auth) return auth;
+
+  const imported = urls.flatMap((url) => {
+    const existing = stackRepository.findAssetBySourceUrl(dataSetId, url);
+    return existing ? [{ url, ...existing }] : [];
+  });
+  return c.json({ imported });
+});
+
 stacksRoute.post('/import-from-urls', async (c) => {
   const parse = ImportFromUrlsSchema.safeParse(await c.req.json().catch(() => null));
   if (!parse.success) {
     return c.json({ error: 'Invalid body', details: parse.error }, 400);
   }
 
-  const { urls, dataSetId, stackId, mediaType, collectionId, author, tags } = parse.data;
+  const {
+    urls,
+    dataSetId,
+    stackId,
+    mediaType,
+    collectionId,
+    author,
+    tags,
+    pageUrl,
+    referrer,
+    channel,
+    singleStack,
+  } = parse.data;
   if (!stackId && !dataSetId) {
     return c.json({ error: 'stackId or dataSetId is required' }, 400);
   }
@@ -1018,89 +1016,24 @@ stacksRoute.post('/import-from-urls', async (c) => {
       }
     }
 
-    const storageRoot = process.env.FILES_STORAGE || path.resolve('./data');
-    const tmpDir = path.join(storageRoot, 'tmp');
-    if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true });
-
-    const results: Array<{
-      url: string;
-      status: 'created' | 'added' | 'skipped' | 'error';
-      stackId?: number;
-      assetId?: number;
-      message?: string;
-    }> = [];
-
-    for (const url of urls) {
-      let downloaded: ImportedFile | null = null;
-      try {
-        downloaded = await importAssetFromUrl(url, tmpDir);
-
-        if (stackId) {
-          const asset = await stackRepository.addAssetWithFile(stackId, downloaded);
-          results.push({
-            url,
-            status: 'added',
-            stackId,
-            assetId: asset ? Number(asset.id) : undefined,
-          });
-          scheduleStandaloneAutoTagPrediction(asset);
-          continue;
-        }
-
-        const createdStack = await stackRepository.createStackWithFile({
-          dataSetId: effectiveDatasetId,
-          name: downloaded.originalname,
-          mediaType:
-            mediaType ?? inferMediaTypeFromMime(downloaded.mimetype, downloaded.originalname),
-          tags,
-          author,
-          file: downloaded,
-        });
-        const createdStackId = Number(createdStack?.id ?? 0);
-        const firstAssetId = Number(createdStack?.assets?.[0]?.id ?? 0);
-
-        if (collectionId && createdStackId) {
-          libraryRepository.addStackToCollection(collectionId, createdStackId);
-        }
-
-        results.push({
-          url,
-          status: 'created',
-          stackId: createdStackId || undefined,
-          assetId: firstAssetId || undefined,
-        });
-        scheduleStandaloneAutoTagPrediction(createdStack?.assets?.[0] ?? null);
-      } catch (error) {
-        if (downloaded) {
-          try {
-            fs.rmSync(downloaded.path, { force: true });
-          } catch (cleanupError) {
-            console.warn('Failed to clean up temp file after URL import error', cleanupError);
-          }
-        }
-
-        let message = 'URLの取得に失敗しました';
-        if (error instanceof DuplicateAssetError) {
-          message = error.message;
-          results.push({
-            url,
-            status: 'skipped',
-            stackId: error.details?.stackId,
-            assetId: error.details?.assetId,
-            message,
-          });
-          continue;
-        }
-
-        if (error instanceof Error) {
-          message = error.message;
-        }
-
-        results.push({ url, status: 'error', message });
-      }
-    }
-
-    return c.json({ results });
+    const job = jobQueue.enqueue(
+      JOB_TYPES.importUrls,
+      {
+        urls,
+        dataSetId: effectiveDatasetId,
+        stackId,
+        mediaType,
+        collectionId,
+        author,
+        tags,
+        pageUrl,
+        referrer,
+        channel,
+        singleStack,
+      },
+      { dataSetId: effectiveDatasetId }
+    );
+    return c.json({ job }, 202);
   } catch (error) {
     console.error('Error importing URLs:', error);
     return c.json({ error: 'Failed to import URLs' }, 500);
@@ -1,18 +1,27 @@
 import { zValidator } from '@hono/zod-validator';
 import type { Context } from 'hono';
 import { Hono } from 'hono';
+import { z } from 'zod';
+import { TagRuleError } from '../errors/TagRuleError';
 import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
 import { StandaloneMetadataRepository } from '../repositories/sqlite/metadata-repository';
+import { StandaloneOperationLogRepository } from '../repositories/sqlite/operation-log-repository';
 import {
+  CreateTagAliasSchema,
+  CreateTagCategorySchema,
+  CreateTagImplicationSchema,
   CreateTagSchema,
   IdParamSchema,
   ManagementPaginationSchema,
   PaginationSchema,
+  SetTagCategorySchema,
   TagStackSchema,
+  UpdateTagCategorySchema,
 } from '../schemas/index.js';
 
 export const tagsRoute = new Hono();
 const metadataRepository = new StandaloneMetadataRepository();
+const operationLogRepository = new StandaloneOperationLogRepository();
 
 function getDataSetIdFromQuery(c: Context): number | null {
   const ds = c.req.query('dataSetId');
@@ -26,6 +35,18 @@ function rejectMissingDataSetId(c: Context) {
   return c.json({ error: 'dataSetId is required' }, 400);
 }
 
+function rejectTagRuleError(c: Context, error: unknown) {
+  if (error instanceof TagRuleError) {
+    return c.json({ error: error.message, code: error.code }, 400);
+  }
+  return null;
+}
+
+const TagRuleParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  ruleId: z.coerce.number().int().positive(),
+});
+
 // Get all tags
 tagsRoute.get('/', zValidator('query', PaginationSchema), async (c) => {
   try {
@@ -130,6 +151,8 @@ tagsRoute.put('/:id/rename', zValidator('param', IdParamSchema), async (c) => {
     if (!tag) return c.json({ error: 'Tag not found' }, 404);
     return c.json(tag);
   } catch (error) {
+    const ruleError = rejectTagRuleError(c, error);
+    if (ruleError) return ruleError;
     console.error('Error renaming tag:', error);
     return c.json({ error: 'Failed to rename tag' }, 500);
   }
@@ -152,8 +175,15 @@ tagsRoute.post('/merge', async (c) => {
     if (dataSetId === null) return rejectMissingDataSetId(c);
     const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
     if (auth) return auth;
+    const undo = operationLogRepository.captureTagMerge(dataSetId, sourceTagIds, targetTagId);
     const result = metadataRepository.mergeTags(dataSetId, sourceTagIds, targetTagId);
-    return c.json(result);
+    const operationId = operationLogRepository.record(
+      dataSetId,
+      'tags.merge',
+      sourceTagIds.length,
+      undo
+    );
+    return c.json({ ...result, operationId });
   } catch (error) {
     console.error('Error merging tags:', error);
     return c.json({ error: 'Failed to merge tags' }, 500);
@@ -197,3 +227,185 @@ tagsRoute.delete('/:id', zValidator('param', IdParamSchema), async (c) => {
     return c.json({ error: 'Failed to delete tag' }, 500);
   }
 });
+
+// List tag categories
+tagsRoute.get('/categories', async (c) => {
+  try {
+    const dataSetId = getDataSetIdFromQuery(c);
+    if (dataSetId === null) return rejectMissingDataSetId(c);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+    return c.json({ categories: metadataRepository.getTagCategories(dataSetId) });
+  } catch (error) {
+    console.error('Error getting tag categories:', error);
+    return c.json({ error: 'Failed to get tag categories' }, 500);
+  }
+});
+
+// Create tag category
+tagsRoute.post('/categories', zValidator('json', CreateTagCategorySchema), async (c) => {
+  try {
+    const dataSetId = getDataSetIdFromQuery(c);
+    if (dataSetId === null) return rejectMissingDataSetId(c);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+    return c.json(metadataRepository.createTagCategory(dataSetId, c.req.valid('json')), 201);
+  } catch (error) {
+    const ruleError = rejectTagRuleError(c, error);
+    if (ruleError) return ruleError;
+    console.error('Error creating tag category:', error);
+    return c.json({ error: 'Failed to create tag category' }, 500);
+  }
+});
+
+// Update tag category
+tagsRoute.put(
+  '/categories/:id',
+  zValidator('param', IdParamSchema),
+  zValidator('json', UpdateTagCategorySchema),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const dataSetId = getDataSetIdFromQuery(c);
+      if (dataSetId === null) return rejectMissingDataSetId(c);
+      const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+      if (auth) return auth;
+      const category = metadataRepository.updateTagCategory(id, dataSetId, c.req.valid('json'));
+      if (!category) return c.json({ error: 'Tag category not found' }, 404);
+      return c.json(category);
+    } catch (error) {
+      const ruleError = rejectTagRuleError(c, error);
+      if (ruleError) return ruleError;
+      console.error('Error updating tag category:', error);
+      return c.json({ error: 'Failed to update tag category' }, 500);
+    }
+  }
+);
+
+// Delete tag category (tags keep existing without a category)
+tagsRoute.delete('/categories/:id', zValidator('param', IdParamSchema), async (c) => {
+  try {
+    const { id } = c.req.valid('param');
+    const dataSetId = getDataSetIdFromQuery(c);
+    if (dataSetId === null) return rejectMissingDataSetId(c);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+    const ok = metadataRepository.deleteTagCategory(id, dataSetId);
+    if (!ok) return c.json({ error: 'Tag category not found' }, 404);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting tag category:', error);
+    return c.json({ error: 'Failed to delete tag category' }, 500);
+  }
+});
+
+// Set tag category
+tagsRoute.put(
+  '/:id/category',
+  zValidator('param', IdParamSchema),
+  zValidator('json', SetTagCategorySchema),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const { categoryId } = c.req.valid('json');
+      const dataSetId = getDataSetIdFromQuery(c);
+      if (dataSetId === null) return rejectMissingDataSetId(c);
+      const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+      if (auth) return auth;
+      const ok = metadataRepository.setTagCategory(id, dataSetId, categoryId);
+      if (!ok) return c.json({ error: 'Tag not found' }, 404);
+      return c.json({ success: true });
+    } catch (error) {
+      const ruleError = rejectTagRuleError(c, error);
+      if (ruleError) return ruleError;
+      console.error('Error setting tag category:', error);
+      return c.json({ error: 'Failed to set tag category' }, 500);
+    }
+  }
+);
+
+// Add tag alias
+tagsRoute.post(
+  '/:id/aliases',
+  zValidator('param', IdParamSchema),
+  zValidator('json', CreateTagAliasSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const dataSetId = getDataSetIdFromQuery(c);
+      if (dataSetId === null) return rejectMissingDataSetId(c);
+      const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+      if (auth) return auth;
+      const alias = metadataRepository.addTagAlias(id, dataSetId, c.req.valid('json').alias);
+      if (!alias) return c.json({ error: 'Tag not found' }, 404);
+      return c.json(alias, 201);
+    } catch (error) {
+      const ruleError = rejectTagRuleError(c, error);
+      if (ruleError) return ruleError;
+      console.error('Error adding tag alias:', error);
+      return c.json({ error: 'Failed to add tag alias' }, 500);
+    }
+  }
+);
+
+// Remove tag alias
+tagsRoute.delete('/:id/aliases/:ruleId', zValidator('param', TagRuleParamSchema), async (c) => {
+  try {
+    const { id, ruleId } = c.req.valid('param');
+    const dataSetId = getDataSetIdFromQuery(c);
+    if (dataSetId === null) return rejectMissingDataSetId(c);
+    const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+    if (auth) return auth;
+    const ok = metadataRepository.removeTagAlias(id, dataSetId, ruleId);
+    if (!ok) return c.json({ error: 'Tag alias not found' }, 404);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error removing tag alias:', error);
+    return c.json({ error: 'Failed to remove tag alias' }, 500);
+  }
+});
+
+// Add implication (applied retroactively to stacks that already have the tag)
+tagsRoute.post(
+  '/:id/implications',
+  zValidator('param', IdParamSchema),
+  zValidator('json', CreateTagImplicationSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const dataSetId = getDataSetIdFromQuery(c);
+      if (dataSetId === null) return rejectMissingDataSetId(c);
+      const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+      if (auth) return auth;
+      const result = metadataRepository.addTagImplication(id, dataSetId, c.req.valid('json'));
+      if (!result) return c.json({ error: 'Tag not found' }, 404);
+      return c.json(result, 201);
+    } catch (error) {
+      const ruleError = rejectTagRuleError(c, error);
+      if (ruleError) return ruleError;
+      console.error('Error adding tag implication:', error);
+      return c.json({ error: 'Failed to add tag implication' }, 500);
+    }
+  }
+);
+
+// Remove implication
+tagsRoute.delete(
+  '/:id/implications/:ruleId',
+  zValidator('param', TagRuleParamSchema),
+  async (c) => {
+    try {
+      const { id, ruleId } = c.req.valid('param');
+      const dataSetId = getDataSetIdFromQuery(c);
+      if (dataSetId === null) return rejectMissingDataSetId(c);
+      const auth = await ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+      if (auth) return auth;
+      const ok = metadataRepository.removeTagImplication(id, dataSetId, ruleId);
+      if (!ok) return c.json({ error: 'Tag implication not found' }, 404);
+      return c.json({ success: true });
+    } catch (error) {
+      console.error('Error removing tag implication:', error);
+      return c.json({ error: 'Failed to remove tag implication' }, 500);
+    }
+  }
+);
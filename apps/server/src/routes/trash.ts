@@ -0,0 +1,64 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { RestoreConflictError } from '../errors/RestoreConflictError';
+import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
+import { getTrashRetentionDays } from '../repositories/sqlite/stack/trash-service';
+import { StandaloneStackRepository } from '../repositories/sqlite/stack-repository';
+
+export const trashRoute = new Hono();
+const stackRepository = new StandaloneStackRepository();
+
+const DataSetQuerySchema = z.object({
+  dataSetId: z.coerce.number().int().positive(),
+});
+
+// GET /trash?dataSetId=1
+trashRoute.get('/', async (c) => {
+  const parse = DataSetQuerySchema.safeParse(c.req.query());
+  if (!parse.success) return c.json({ error: 'Invalid query', details: parse.error }, 400);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, parse.data.dataSetId);
+  if (auth) return auth;
+  return c.json({
+    items: stackRepository.getTrashItems(parse.data.dataSetId),
+    retentionDays: getTrashRetentionDays(),
+  });
+});
+
+// POST /trash/:id/restore
+trashRoute.post('/:id{[0-9]+}/restore', async (c) => {
+  const id = Number.parseInt(c.req.param('id'), 10);
+  const item = stackRepository.getTrashItem(id);
+  if (!item) return c.json({ error: 'Trash item not found' }, 404);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, item.dataSetId);
+  if (auth) return auth;
+  try {
+    const restored = stackRepository.restoreTrashItem(id);
+    return c.json({ success: true, stackId: restored?.stackId ?? null });
+  } catch (error) {
+    if (error instanceof RestoreConflictError) {
+      return c.json({ error: error.message, code: error.code }, 409);
+    }
+    throw error;
+  }
+});
+
+// DELETE /trash/:id（完全に削除）
+trashRoute.delete('/:id{[0-9]+}', async (c) => {
+  const id = Number.parseInt(c.req.param('id'), 10);
+  const item = stackRepository.getTrashItem(id);
+  if (!item) return c.json({ error: 'Trash item not found' }, 404);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, item.dataSetId);
+  if (auth) return auth;
+  stackRepository.purgeTrashItem(id);
+  return c.json({ success: true });
+});
+
+// DELETE /trash?dataSetId=1（ゴミ箱を空にする）
+trashRoute.delete('/', async (c) => {
+  const parse = DataSetQuerySchema.safeParse(c.req.query());
+  if (!parse.success) return c.json({ error: 'Invalid query', details: parse.error }, 400);
+  const auth = await ensureDatasetAuthorizedForCurrentStore(c, parse.data.dataSetId);
+  if (auth) return auth;
+  const purged = stackRepository.emptyTrash(parse.data.dataSetId);
+  return c.json({ success: true, purged });
+});
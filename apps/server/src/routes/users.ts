@@ -0,0 +1,81 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { requireRole } from '../middlewares/session-auth';
+import { CreateUserSchema, UpdateUserSchema } from '../models/UserModel.js';
+import { StandaloneUserRepository } from '../repositories/sqlite/user-repository';
+
+const app = new Hono();
+const userRepository = new StandaloneUserRepository();
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Error && error.message.includes('UNIQUE constraint failed');
+
+// ユーザー管理は管理者のみ。アカウント未設定の間は /auth/setup で最初の管理者を作る
+app.use('*', requireRole('super'));
+app.use('*', async (c, next) => {
+  if (!c.get('currentUser')) {
+    return c.json({ error: 'Create the first administrator account first' }, 403);
+  }
+  return await next();
+});
+
+app.get('/', (c) => c.json({ users: userRepository.list() }));
+
+app.post('/', zValidator('json', CreateUserSchema), (c) => {
+  try {
+    const user = userRepository.create(c.req.valid('json'));
+    return c.json(user, 201);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return c.json({ error: 'A user with the same name or email already exists' }, 400);
+    }
+    console.error('Failed to create user:', error);
+    return c.json({ error: 'Failed to create user' }, 500);
+  }
+});
+
+app.put(
+  '/:id',
+  zValidator('param', z.object({ id: z.coerce.number() })),
+  zValidator('json', UpdateUserSchema),
+  (c) => {
+    const { id } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const current = userRepository.getById(id);
+    if (!current) return c.json({ error: 'User not found' }, 404);
+
+    // 最後の管理者を降格・無効化するとユーザー管理ができなくなる
+    const losesAdmin = (data.role && data.role !== 'super') || data.disabled === true;
+    if (current.role === 'super' && losesAdmin && userRepository.countActiveAdmins(id) === 0) {
+      return c.json({ error: 'At least one administrator is required' }, 400);
+    }
+
+    try {
+      return c.json(userRepository.update(id, data));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return c.json({ error: 'A user with the same name or email already exists' }, 400);
+      }
+      console.error('Failed to update user:', error);
+      return c.json({ error: 'Failed to update user' }, 500);
+    }
+  }
+);
+
+// ユーザーを削除すると、そのユーザーのお気に入り・ピンも削除される
+app.delete('/:id', zValidator('param', z.object({ id: z.coerce.number() })), (c) => {
+  const { id } = c.req.valid('param');
+  if (id === c.get('currentUser').id) {
+    return c.json({ error: 'You cannot delete your own account' }, 400);
+  }
+  const current = userRepository.getById(id);
+  if (!current) return c.json({ error: 'User not found' }, 404);
+  if (current.role === 'super' && userRepository.countActiveAdmins(id) === 0) {
+    return c.json({ error: 'At least one administrator is required' }, 400);
+  }
+  userRepository.delete(id);
+  return c.json({ success: true });
+});
+
+export { app as usersRoute };
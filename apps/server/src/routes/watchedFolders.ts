@@ -0,0 +1,137 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { zValidator } from '@hono/zod-validator';
+import type { Context } from 'hono';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { folderWatcher } from '../jobs';
+import { requireRole } from '../middlewares/session-auth';
+import {
+  CreateWatchedFolderSchema,
+  UpdateWatchedFolderSchema,
+  WatchedFolderQuerySchema,
+} from '../models/WatchedFolderModel.js';
+import { ensureDatasetAuthorizedForCurrentStore } from '../repositories/sqlite/auth';
+import { StandaloneWatchedFolderRepository } from '../repositories/sqlite/watched-folder-repository';
+import { useResponse } from '../utils/useResponse.js';
+
+const app = new Hono();
+const watchedFolderRepository = new StandaloneWatchedFolderRepository();
+
+const ensureAuthorized = async (c: Context, dataSetId: number) => {
+  return ensureDatasetAuthorizedForCurrentStore(c, dataSetId);
+};
+
+// サーバー上の任意のフォルダを読み書きするため、アカウントが有効なときは管理者に限定する
+app.use('*', requireRole('super'));
+
+const isDirectory = (target: string) => {
+  try {
+    return fs.statSync(target).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Error && error.message.includes('UNIQUE constraint failed');
+
+// 監視フォルダ一覧取得
+app.get('/', zValidator('query', WatchedFolderQuerySchema), async (c) => {
+  try {
+    const { dataSetId } = c.req.valid('query');
+    if (dataSetId) {
+      const auth = await ensureAuthorized(c, dataSetId);
+      if (auth) return auth;
+    }
+    return useResponse(c, watchedFolderRepository.list(dataSetId));
+  } catch (error) {
+    console.error('監視フォルダ一覧取得エラー:', error);
+    return useResponse(c, { error: '監視フォルダ一覧の取得に失敗しました' }, 500);
+  }
+});
+
+// 監視フォルダ作成
+app.post('/', zValidator('json', CreateWatchedFolderSchema), async (c) => {
+  try {
+    const data = c.req.valid('json');
+    const auth = await ensureAuthorized(c, data.dataSetId);
+    if (auth) return auth;
+    const folderPath = path.resolve(data.path);
+    if (!isDirectory(folderPath)) {
+      return useResponse(c, { error: 'フォルダが見つかりません' }, 400);
+    }
+    const folder = watchedFolderRepository.create({ ...data, path: folderPath });
+    return useResponse(c, folder, 201);
+  } catch (error) {
+    console.error('監視フォルダ作成エラー:', error);
+    if (isUniqueViolation(error)) {
+      return useResponse(c, { error: 'このフォルダは既に監視されています' }, 400);
+    }
+    return useResponse(c, { error: '監視フォルダの作成に失敗しました' }, 500);
+  }
+});
+
+// 監視フォルダ更新
+app.put(
+  '/:id',
+  zValidator('param', z.object({ id: z.coerce.number() })),
+  zValidator('json', UpdateWatchedFolderSchema),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const data = c.req.valid('json');
+      const current = watchedFolderRepository.getById(id);
+      if (!current) return useResponse(c, { error: '監視フォルダが見つかりません' }, 404);
+      const auth = await ensureAuthorized(c, current.dataSetId);
+      if (auth) return auth;
+      if (data.path !== undefined) {
+        data.path = path.resolve(data.path);
+        if (!isDirectory(data.path)) {
+          return useResponse(c, { error: 'フォルダが見つかりません' }, 400);
+        }
+      }
+      return useResponse(c, watchedFolderRepository.update(id, data));
+    } catch (error) {
+      console.error('監視フォルダ更新エラー:', error);
+      if (isUniqueViolation(error)) {
+        return useResponse(c, { error: 'このフォルダは既に監視されています' }, 400);
+      }
+      return useResponse(c, { error: '監視フォルダの更新に失敗しました' }, 500);
+    }
+  }
+);
+
+// 監視フォルダ削除（取り込み済みのファイルはそのまま残す）
+app.delete('/:id', zValidator('param', z.object({ id: z.coerce.number() })), async (c) => {
+  try {
+    const { id } = c.req.valid('param');
+    const current = watchedFolderRepository.getById(id);
+    if (!current) return useResponse(c, { error: '監視フォルダが見つかりません' }, 404);
+    const auth = await ensureAuthorized(c, current.dataSetId);
+    if (auth) return auth;
+    watchedFolderRepository.delete(id);
+    return useResponse(c, { success: true });
+  } catch (error) {
+    console.error('監視フォルダ削除エラー:', error);
+    return useResponse(c, { error: '監視フォルダの削除に失敗しました' }, 500);
+  }
+});
+
+// 定期走査を待たずに今すぐ走査する
+app.post('/:id/scan', zValidator('param', z.object({ id: z.coerce.number() })), async (c) => {
+  try {
+    const { id } = c.req.valid('param');
+    const current = watchedFolderRepository.getById(id);
+    if (!current) return useResponse(c, { error: '監視フォルダが見つかりません' }, 404);
+    const auth = await ensureAuthorized(c, current.dataSetId);
+    if (auth) return auth;
+    folderWatcher.scanFolder(current);
+    return useResponse(c, watchedFolderRepository.getById(id));
+  } catch (error) {
+    console.error('監視フォルダ走査エラー:', error);
+    return useResponse(c, { error: '監視フォルダの走査に失敗しました' }, 500);
+  }
+});
+
+export { app as watchedFoldersRoute };
@@ -157,6 +157,32 @@ export const TagStackSchema = z.object({
   tagIds: z.array(z.number().int().positive()),
 });
 
+const TagCategoryColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+export const CreateTagCategorySchema = z.object({
+  name: z.string().trim().min(1),
+  color: TagCategoryColorSchema,
+});
+
+export const UpdateTagCategorySchema = CreateTagCategorySchema.partial();
+
+export const SetTagCategorySchema = z.object({
+  categoryId: z.number().int().positive().nullable(),
+});
+
+export const CreateTagAliasSchema = z.object({
+  alias: z.string().trim().min(1),
+});
+
+export const CreateTagImplicationSchema = z
+  .object({
+    impliedTagId: z.number().int().positive().optional(),
+    title: z.string().trim().min(1).optional(),
+  })
+  .refine((value) => value.impliedTagId !== undefined || value.title !== undefined, {
+    message: 'impliedTagId or title is required',
+  });
+
 // AutoTag schemas
 export const AutoTagPredictSchema = z.object({
   threshold: z.number().min(0).max(1).optional().default(0.4),
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+// ライブラリのアーカイブ（tar）に含める manifest.json の形式
+export const LIBRARY_ARCHIVE_FORMAT = 'caramelboard-library';
+export const LIBRARY_ARCHIVE_VERSION = 1;
+export const LIBRARY_ARCHIVE_MANIFEST_NAME = 'manifest.json';
+
+const JsonObjectSchema = z.record(z.unknown());
+
+const ArchiveAuthorLinkSchema = z.object({
+  provider: z.string().nullable(),
+  label: z.string(),
+  url: z.string(),
+  externalId: z.string().nullable(),
+  sortOrder: z.number().int(),
+});
+
+const ArchiveAuthorSchema = z.object({
+  id: z.number().int(),
+  name: z.string().min(1),
+  links: z.array(ArchiveAuthorLinkSchema).default([]),
+});
+
+const ArchiveTagSchema = z.object({
+  id: z.number().int(),
+  title: z.string().min(1),
+});
+
+const ArchiveStackSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  authorId: z.number().int().nullable(),
+  mediaType: z.enum(['image', 'comic', 'video']),
+  liked: z.number().int().min(0).default(0),
+  meta: JsonObjectSchema.default({}),
+  tagIds: z.array(z.number().int()).default([]),
+  favorited: z.boolean().default(false),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const ArchiveAssetSchema = z.object({
+  id: z.number().int(),
+  stackId: z.number().int(),
+  /** アーカイブ内のオリジナルファイルのパス。元ファイルが見つからなかった場合は null */
+  path: z.string().nullable(),
+  /** 展開先のファイル名に使うので、拡張子として妥当な文字列だけ受け付ける */
+  fileType: z.string().regex(/^[a-z0-9]{1,10}$/i),
+  originalName: z.string(),
+  hash: z.string(),
+  orderInStack: z.number().int(),
+  meta: JsonObjectSchema.default({}),
+  favorited: z.boolean().default(false),
+  createdAt: z.string(),
+});
+
+const ArchiveCollectionFolderSchema = z.object({
+  id: z.number().int(),
+  parentId: z.number().int().nullable(),
+  name: z.string().min(1),
+  icon: z.string(),
+  description: z.string().nullable(),
+  sortOrder: z.number().int(),
+});
+
+const ArchiveCollectionSchema = z.object({
+  id: z.number().int(),
+  folderId: z.number().int().nullable(),
+  name: z.string().min(1),
+  icon: z.string(),
+  description: z.string().nullable(),
+  type: z.enum(['SMART', 'MANUAL', 'SCRATCH']),
+  filterConfig: JsonObjectSchema.nullable(),
+  stackIds: z.array(z.number().int()).default([]),
+});
+
+const ArchiveAutoTagMappingSchema = z.object({
+  autoTagKey: z.string().min(1),
+  displayName: z.string(),
+  description: z.string().nullable(),
+  tagId: z.number().int().nullable(),
+  isActive: z.boolean(),
+  isStop: z.boolean(),
+});
+
+const ArchiveLikeSchema = z.object({
+  stackId: z.number().int(),
+  assetId: z.number().int().nullable(),
+  createdAt: z.string(),
+});
+
+export const LibraryArchiveManifestSchema = z.object({
+  format: z.literal(LIBRARY_ARCHIVE_FORMAT),
+  version: z.literal(LIBRARY_ARCHIVE_VERSION),
+  exportedAt: z.string(),
+  dataset: z.object({
+    name: z.string().min(1),
+    icon: z.string().nullable(),
+    themeColor: z.string().nullable(),
+    description: z.string().nullable(),
+    settings: JsonObjectSchema.default({}),
+  }),
+  authors: z.array(ArchiveAuthorSchema).default([]),
+  tags: z.array(ArchiveTagSchema).default([]),
+  stacks: z.array(ArchiveStackSchema).default([]),
+  assets: z.array(ArchiveAssetSchema).default([]),
+  collectionFolders: z.array(ArchiveCollectionFolderSchema).default([]),
+  collections: z.array(ArchiveCollectionSchema).default([]),
+  autoTagMappings: z.array(ArchiveAutoTagMappingSchema).default([]),
+  likes: z.array(ArchiveLikeSchema).default([]),
+});
+
+export type LibraryArchiveManifest = z.infer<typeof LibraryArchiveManifestSchema>;
+export type LibraryArchiveStack = z.infer<typeof ArchiveStackSchema>;
+export type LibraryArchiveAsset = z.infer<typeof ArchiveAssetSchema>;
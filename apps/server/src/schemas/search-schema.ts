@@ -2,6 +2,9 @@ import { z } from 'zod';
 
 // 検索モード
 export const SearchModeSchema = z.enum(['all', 'similar', 'unified']);
+
+// 類似検索のスコアリング方式（タグ / 画像埋め込み / 両方）
+export const SimilarModeSchema = z.enum(['tags', 'visual', 'hybrid']);
 const ActualMediaTypeSchema = z.enum(['image', 'video', 'multipleImages']);
 
 // 作者フィルタ
@@ -51,22 +54,76 @@ export const ColorFilterSchema = z
   })
   .optional();
 
+// 追加日フィルタ（from 以上 to 未満の ISO 8601 文字列）
+export const AddedAtFilterSchema = z
+  .object({
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  })
+  .optional();
+
+// 自動タグフィルタ（スコアが minScore 以上のタグだけを見る）
+export const AutoTagFilterSchema = z
+  .object({
+    include: z.array(z.string()).optional(),
+    includeAny: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+    minScore: z.number().min(0).max(1).optional(),
+  })
+  .optional();
+
+// アセット数フィルタ（min 以上 max 以下）
+export const AssetCountFilterSchema = z
+  .object({
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional(),
+  })
+  .optional();
+
+// 埋め込みメタデータのフィルタ（撮影日は from 以上 to 未満、カメラとプロンプトは部分一致）
+export const EmbeddedMetadataFilterSchema = z
+  .object({
+    capturedAt: AddedAtFilterSchema,
+    camera: z.array(z.string()).optional(),
+    keywords: z.array(z.string()).optional(),
+    prompt: z.array(z.string()).optional(),
+  })
+  .optional();
+
+// 取り込み元フィルタ（URL はページ / メディア URL の部分一致、経路はいずれか）
+export const SourceFilterSchema = z
+  .object({
+    urls: z.array(z.string()).optional(),
+    channels: z.array(z.enum(['upload', 'clipper', 'url-import', 'watched-folder'])).optional(),
+  })
+  .optional();
+
 // 検索フィルタ
 export const SearchFiltersSchema = z.object({
   author: AuthorFilterSchema,
   tags: TagFilterSchema,
   favorites: z.enum(['is-fav', 'not-fav']).optional(),
   likes: z.enum(['is-liked', 'not-liked']).optional(),
+  reading: z.enum(['unread', 'in-progress', 'read']).optional(),
   color: ColorFilterSchema,
   mediaCategory: z.enum(['all', 'image', 'comic', 'video']).optional(),
   mediaTypes: z.array(ActualMediaTypeSchema).optional(),
   collectionId: z.number().int().positive().optional(),
   includeAutoTags: z.boolean().optional(),
+  autoTags: AutoTagFilterSchema,
+  assetCount: AssetCountFilterSchema,
+  addedAt: AddedAtFilterSchema,
+  metadata: EmbeddedMetadataFilterSchema,
+  source: SourceFilterSchema,
 });
 
+export type SearchFilters = z.infer<typeof SearchFiltersSchema>;
+
 // ソートオプション
 export const SortOptionsSchema = z.object({
-  by: z.enum(['recommended', 'dateAdded', 'name', 'likes', 'updated']).default('recommended'),
+  by: z
+    .enum(['recommended', 'relevance', 'dateAdded', 'name', 'likes', 'updated'])
+    .default('recommended'),
   order: z.enum(['asc', 'desc']).default('desc'),
 });
 
@@ -83,6 +140,7 @@ export const SearchQuerySchema = z.object({
 
   // モード別パラメータ
   referenceStackId: z.coerce.number().int().positive().optional(),
+  similarMode: SimilarModeSchema.optional(),
   query: z.string().optional(),
 
   // フィルタ（JSON文字列またはオブジェクト）
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type AuthorProviderRequest,
+  fetchAuthorProfile,
+  fetchAuthorWorks,
+} from './author-providers';
+
+const stubFetcher = (responses: Record<string, unknown>) => {
+  const requests: AuthorProviderRequest[] = [];
+  const fetcher = async (request: AuthorProviderRequest) => {
+    requests.push(request);
+    return responses[request.resource];
+  };
+  return { fetcher, requests };
+};
+
+describe('fetchAuthorWorks', () => {
+  it('builds canonical work URLs from provider ids', async () => {
+    const { fetcher, requests } = stubFetcher({
+      works: {
+        works: [
+          { id: 123, title: ' First ', mediaUrls: ['https://i.example.com/123.png'] },
+          { id: '456', url: 'https://www.pixiv.net/artworks/456?from=feed' },
+          { id: 123, title: 'Duplicate' },
+        ],
+      },
+    });
+
+    const works = await fetchAuthorWorks(
+      { provider: 'pixiv', url: 'https://www.pixiv.net/users/42', externalId: '42' },
+      fetcher
+    );
+
+    expect(requests).toEqual([
+      {
+        provider: 'pixiv',
+        resource: 'works',
+        accountId: '42',
+        url: 'https://www.pixiv.net/users/42',
+      },
+    ]);
+    expect(works).toEqual([
+      {
+        externalId: '123',
+        title: 'First',
+        url: 'https://www.pixiv.net/artworks/123',
+        thumbnailUrl: null,
+        mediaUrls: ['https://i.example.com/123.png'],
+        publishedAt: null,
+      },
+      {
+        externalId: '456',
+        title: null,
+        url: 'https://www.pixiv.net/artworks/456?from=feed',
+        thumbnailUrl: null,
+        mediaUrls: [],
+        publishedAt: null,
+      },
+    ]);
+  });
+
+  it('uses the handle from the link for providers that need it', async () => {
+    const { fetcher } = stubFetcher({ works: [{ id: '1800' }] });
+
+    const works = await fetchAuthorWorks(
+      { provider: 'fanbox', url: 'https://creator.fanbox.cc/', externalId: null },
+      fetcher
+    );
+
+    expect(works.map((work) => work.url)).toEqual(['https://creator.fanbox.cc/posts/1800']);
+  });
+
+  it('drops custom-link works that come back without a URL', async () => {
+    const { fetcher } = stubFetcher({
+      works: [{ id: 'a' }, { id: 'b', url: 'https://example.com/b' }],
+    });
+
+    const works = await fetchAuthorWorks(
+      { provider: 'custom', url: 'https://example.com/', externalId: null },
+      fetcher
+    );
+
+    expect(works.map((work) => work.externalId)).toEqual(['b']);
+  });
+
+  it('rejects work URLs that are not http(s)', async () => {
+    const link = {
+      provider: 'pixiv' as const,
+      url: 'https://www.pixiv.net/users/42',
+      externalId: '42',
+    };
+    for (const work of [
+      { id: '1', url: 'javascript:alert(1)' },
+      { id: '2', thumbnailUrl: 'data:image/png;base64,AAAA' },
+      { id: '3', mediaUrls: ['file:///etc/passwd'] },
+    ]) {
+      await expect(fetchAuthorWorks(link, async () => [work])).rejects.toThrow();
+    }
+  });
+});
+
+describe('fetchAuthorProfile', () => {
+  it('falls back to the link URL and rejects malformed responses', async () => {
+    const { fetcher } = stubFetcher({ profile: { name: 'Jane', description: '' } });
+
+    await expect(
+      fetchAuthorProfile({ provider: 'x', url: 'https://x.com/jane', externalId: 'jane' }, fetcher)
+    ).resolves.toEqual({
+      name: 'Jane',
+      avatarUrl: null,
+      description: null,
+      url: 'https://x.com/jane',
+    });
+
+    await expect(
+      fetchAuthorProfile(
+        { provider: 'x', url: 'https://x.com/jane', externalId: 'jane' },
+        async () => ({ name: 42 })
+      )
+    ).rejects.toThrow();
+    await expect(
+      fetchAuthorProfile(
+        { provider: 'x', url: 'https://x.com/jane', externalId: 'jane' },
+        async () => ({ name: 'Jane', avatarUrl: 'javascript:alert(1)' })
+      )
+    ).rejects.toThrow();
+  });
+});
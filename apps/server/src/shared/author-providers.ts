@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { type AuthorLinkProvider, detectAuthorLink } from './author-links';
+
+export interface AuthorProfile {
+  name: string | null;
+  avatarUrl: string | null;
+  description: string | null;
+  url: string | null;
+}
+
+export interface AuthorWork {
+  externalId: string;
+  title: string | null;
+  url: string;
+  thumbnailUrl: string | null;
+  /** 取り込みに使うメディアの URL。空なら作品ページの URL を取り込む */
+  mediaUrls: string[];
+  publishedAt: string | null;
+}
+
+export interface AuthorProviderRequest {
+  provider: AuthorLinkProvider;
+  resource: 'profile' | 'works';
+  accountId: string;
+  url: string;
+}
+
+/**
+ * プロバイダーの公開情報を取ってくる部分。
+ * スクレイピングや API 呼び出しはこの外側（ブリッジサーバーやテスト用のスタブ）に任せる
+ */
+export type AuthorProviderFetcher = (request: AuthorProviderRequest) => Promise<unknown>;
+
+export interface AuthorProviderAdapter {
+  provider: AuthorLinkProvider;
+  /** リンクからプロバイダー上のアカウント ID を取り出す。取れないリンクは対象外 */
+  resolveAccountId: (link: { url: string; externalId: string | null }) => string | null;
+  /** 作品 ID から作品ページの URL を組み立てる。組み立てられないなら null */
+  buildWorkUrl: (accountId: string, workId: string) => string | null;
+}
+
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((value) => value?.trim() || null);
+
+// 画面のリンクや取り込みに使うので http(s) の URL だけ受け付ける
+const httpUrl = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), 'Expected an http(s) URL');
+
+const optionalHttpUrl = optionalText.pipe(httpUrl.nullable());
+
+const ProfileResponseSchema = z.object({
+  name: optionalText,
+  avatarUrl: optionalHttpUrl,
+  description: optionalText,
+  url: optionalHttpUrl,
+});
+
+const WorkResponseSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]).transform(String),
+  title: optionalText,
+  url: optionalHttpUrl,
+  thumbnailUrl: optionalHttpUrl,
+  mediaUrls: z.array(httpUrl).optional().default([]),
+  publishedAt: optionalText,
+});
+
+const WorksResponseSchema = z.union([
+  z.array(WorkResponseSchema),
+  z.object({ works: z.array(WorkResponseSchema) }).transform((body) => body.works),
+]);
+
+const fromExternalId: AuthorProviderAdapter['resolveAccountId'] = (link) =>
+  link.externalId ?? detectAuthorLink(link.url).externalId;
+
+const adapters = new Map<AuthorLinkProvider, AuthorProviderAdapter>();
+
+export function registerAuthorProviderAdapter(adapter: AuthorProviderAdapter) {
+  adapters.set(adapter.provider, adapter);
+}
+
+export function getAuthorProviderAdapter(provider: AuthorLinkProvider) {
+  return adapters.get(provider) ?? null;
+}
+
+registerAuthorProviderAdapter({
+  provider: 'pixiv',
+  resolveAccountId: fromExternalId,
+  buildWorkUrl: (_accountId, workId) => `https://www.pixiv.net/artworks/${workId}`,
+});
+registerAuthorProviderAdapter({
+  provider: 'x',
+  resolveAccountId: fromExternalId,
+  buildWorkUrl: (accountId, workId) => `https://x.com/${accountId}/status/${workId}`,
+});
+registerAuthorProviderAdapter({
+  provider: 'fanbox',
+  resolveAccountId: fromExternalId,
+  buildWorkUrl: (accountId, workId) => `https://${accountId}.fanbox.cc/posts/${workId}`,
+});
+registerAuthorProviderAdapter({
+  provider: 'youtube',
+  resolveAccountId: fromExternalId,
+  buildWorkUrl: (_accountId, workId) => `https://www.youtube.com/watch?v=${workId}`,
+});
+registerAuthorProviderAdapter({
+  provider: 'niconico',
+  resolveAccountId: fromExternalId,
+  buildWorkUrl: (_accountId, workId) => `https://www.nicovideo.jp/watch/${workId}`,
+});
+// 任意のリンクはページ URL をそのまま渡し、作品 URL はフェッチャー側に返してもらう
+registerAuthorProviderAdapter({
+  provider: 'custom',
+  resolveAccountId: (link) => link.url,
+  buildWorkUrl: () => null,
+});
+
+const toRequest = (
+  link: { provider: AuthorLinkProvider; url: string; externalId: string | null },
+  resource: AuthorProviderRequest['resource']
+) => {
+  const adapter = getAuthorProviderAdapter(link.provider);
+  const accountId = adapter?.resolveAccountId(link);
+  if (!adapter || !accountId) return null;
+  return { adapter, request: { provider: link.provider, resource, accountId, url: link.url } };
+};
+
+export async function fetchAuthorProfile(
+  link: { provider: AuthorLinkProvider; url: string; externalId: string | null },
+  fetcher: AuthorProviderFetcher
+): Promise<AuthorProfile | null> {
+  const resolved = toRequest(link, 'profile');
+  if (!resolved) return null;
+  const profile = ProfileResponseSchema.parse(await fetcher(resolved.request));
+  return {
+    name: profile.name ?? null,
+    avatarUrl: profile.avatarUrl ?? null,
+    description: profile.description ?? null,
+    url: profile.url ?? link.url,
+  };
+}
+
+export async function fetchAuthorWorks(
+  link: { provider: AuthorLinkProvider; url: string; externalId: string | null },
+  fetcher: AuthorProviderFetcher
+): Promise<AuthorWork[]> {
+  const resolved = toRequest(link, 'works');
+  if (!resolved) return [];
+  const { adapter, request } = resolved;
+  const works = WorksResponseSchema.parse(await fetcher(request));
+  const seen = new Set<string>();
+  const result: AuthorWork[] = [];
+  for (const work of works) {
+    const url = work.url ?? adapter.buildWorkUrl(request.accountId, work.id);
+    if (!url || seen.has(work.id)) continue;
+    seen.add(work.id);
+    result.push({
+      externalId: work.id,
+      title: work.title ?? null,
+      url,
+      thumbnailUrl: work.thumbnailUrl ?? null,
+      mediaUrls: work.mediaUrls ?? [],
+      publishedAt: work.publishedAt ?? null,
+    });
+  }
+  return result;
+}
+
+/**
+ * `GET {baseUrl}/{provider}/{profile|works}?id=...&url=...` で JSON を返すサーバーを呼ぶフェッチャー。
+ * 手元で試すときは scripts/author-provider-fixture.mjs を立てて向ける
+ */
+export function createHttpAuthorProviderFetcher(
+  baseUrl: string,
+  timeoutMs = 15000
+): AuthorProviderFetcher {
+  const base = baseUrl.replace(/\/+$/, '');
+  return async ({ provider, resource, accountId, url }) => {
+    const requestUrl = new URL(`${base}/${provider}/${resource}`);
+    requestUrl.searchParams.set('id', accountId);
+    requestUrl.searchParams.set('url', url);
+    const response = await fetch(requestUrl, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`Author provider request failed: ${response.status} ${requestUrl.pathname}`);
+    }
+    return response.json();
+  };
+}
+
+let configuredFetcher: AuthorProviderFetcher | null | undefined;
+
+/** CARAMEL_AUTHOR_PROVIDER_URL が無ければ null（作者情報の取得は無効） */
+export function getAuthorProviderFetcher(): AuthorProviderFetcher | null {
+  if (configuredFetcher !== undefined) return configuredFetcher;
+  const baseUrl = process.env.CARAMEL_AUTHOR_PROVIDER_URL?.trim();
+  return baseUrl ? createHttpAuthorProviderFetcher(baseUrl) : null;
+}
+
+/** テストや組み込み用にフェッチャーを差し替える。undefined で環境変数の設定に戻す */
+export function setAuthorProviderFetcher(fetcher: AuthorProviderFetcher | null | undefined) {
+  configuredFetcher = fetcher;
+}
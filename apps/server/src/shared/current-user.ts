@@ -0,0 +1,22 @@
+// ----------------------------------------------------------------------------
+//  @/shared/current-user.ts
+//  リクエスト単位のログインユーザー。リポジトリはモジュール単位で共有されているため、
+//  Context を引き回さずに AsyncLocalStorage 経由で参照する。
+// ----------------------------------------------------------------------------
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { UserRole } from '../models/UserModel';
+
+export interface CurrentUser {
+  id: number;
+  name: string;
+  role: UserRole;
+}
+
+const storage = new AsyncLocalStorage<CurrentUser | null>();
+
+export const runWithCurrentUser = <T>(user: CurrentUser | null, fn: () => T) =>
+  storage.run(user, fn);
+
+/** ログインしていない（アカウント未設定・バックグラウンドジョブ）場合は null */
+export const getCurrentUser = () => storage.getStore() ?? null;
@@ -7,6 +7,7 @@ import type { Context } from 'hono';
 import { createFactory } from 'hono/factory';
 import { type AutoTagClient, getAutoTagClient } from '../lib/AutoTagClient';
 import type { StandaloneDataset } from '../repositories/sqlite/dataset-repository';
+import type { CurrentUser } from './current-user';
 import { createDataStorageService, type DataStorageService } from './services/DataStorageService';
 
 type VarKeys = 'stacksAI' | 'dataStorage';
@@ -18,6 +19,7 @@ declare module 'hono' {
     dataStorage: DataStorageService;
     dataSetId: number;
     dataSet: StandaloneDataset;
+    currentUser: CurrentUser;
   }
 }
 
@@ -0,0 +1,68 @@
+import { compileSearchQuery } from '@caramelboard/search-query';
+import { describe, expect, it } from 'vitest';
+import { applySearchFilters } from './search-query';
+
+describe('applySearchFilters', () => {
+  it('maps filters onto stack list params', () => {
+    const params = applySearchFilters(
+      { dataSetId: 1, author: ['A', 'B'], limit: 10, offset: 0 },
+      compileSearchQuery('tag:x (tag:y OR tag:z) -author:C author:B is:untagged added:<2025')
+        .filters
+    );
+
+    expect(params).toMatchObject({
+      tagGroups: [['x'], ['y', 'z']],
+      author: ['B'],
+      excludeAuthors: ['C'],
+      hasNoTags: true,
+      createdTo: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('maps metadata, reading and source filters compiled from a query', () => {
+    const compiled = compileSearchQuery(
+      'taken:2024 camera:X100V keyword:sunset prompt:1girl is:unread source:pixiv.net via:url'
+    );
+
+    expect(
+      applySearchFilters({ dataSetId: 1, limit: 10, offset: 0 }, compiled.filters)
+    ).toMatchObject({
+      capturedFrom: '2024-01-01T00:00:00.000Z',
+      capturedTo: '2025-01-01T00:00:00.000Z',
+      cameras: ['X100V'],
+      keywords: ['sunset'],
+      prompts: ['1girl'],
+      reading: 'unread',
+      sourceUrls: ['pixiv.net'],
+      importChannels: ['url-import'],
+    });
+  });
+
+  it('maps auto-tag and asset count filters', () => {
+    const params = applySearchFilters(
+      { dataSetId: 1, limit: 10, offset: 0 },
+      {
+        includeAutoTags: true,
+        autoTags: { include: ['sky'], exclude: ['people'], minScore: 0.6 },
+        assetCount: { min: 2, max: 8 },
+      }
+    );
+
+    expect(params).toMatchObject({
+      includeAutoTags: true,
+      autoTagGroups: [['sky']],
+      excludeAutoTags: ['people'],
+      autoTagMinScore: 0.6,
+      minAssetCount: 2,
+      maxAssetCount: 8,
+    });
+  });
+
+  it('returns no stacks when the query contradicts the selected filters', () => {
+    const params = applySearchFilters(
+      { dataSetId: 1, mediaCategory: 'comic', limit: 10, offset: 0 },
+      compileSearchQuery('media:video').filters
+    );
+    expect(params.stackIds).toEqual([]);
+  });
+});
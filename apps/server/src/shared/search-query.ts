@@ -0,0 +1,128 @@
+import type { StandaloneStackListParams } from '../repositories/sqlite/stack/types';
+import { type SearchFilters, SortOptionsSchema } from '../schemas/search-schema';
+
+const narrowValues = <T extends string>(current: T[] | undefined, values: T[]) =>
+  current && current.length > 0 ? current.filter((value) => values.includes(value)) : values;
+
+const toList = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value : value ? [value] : []).filter((item) => item.trim().length > 0);
+
+/**
+ * SearchFiltersSchema のフィルタを StandaloneStackListParams に重ねる。
+ * 既存の条件と両立しない場合は結果が空になるよう stackIds を空にする。
+ */
+export const applySearchFilters = (
+  params: StandaloneStackListParams,
+  filters: SearchFilters
+): StandaloneStackListParams => {
+  const next: StandaloneStackListParams = { ...params };
+  const noMatch = () => {
+    next.stackIds = [];
+  };
+
+  if (filters.tags) {
+    const groups = [...(next.tagGroups ?? [])];
+    for (const tag of filters.tags.include ?? []) groups.push([tag]);
+    if (filters.tags.includeAny?.length) groups.push(filters.tags.includeAny);
+    if (groups.length > 0) next.tagGroups = groups;
+    if (filters.tags.exclude?.length) {
+      next.excludeTags = [...(next.excludeTags ?? []), ...filters.tags.exclude];
+    }
+    if (filters.tags.includeNotSet) next.hasNoTags = true;
+  }
+
+  if (filters.includeAutoTags) next.includeAutoTags = true;
+
+  if (filters.autoTags) {
+    const groups = [...(next.autoTagGroups ?? [])];
+    for (const tag of filters.autoTags.include ?? []) groups.push([tag]);
+    if (filters.autoTags.includeAny?.length) groups.push(filters.autoTags.includeAny);
+    if (groups.length > 0) next.autoTagGroups = groups;
+    if (filters.autoTags.exclude?.length) {
+      next.excludeAutoTags = [...(next.excludeAutoTags ?? []), ...filters.autoTags.exclude];
+    }
+    if (filters.autoTags.minScore !== undefined) next.autoTagMinScore = filters.autoTags.minScore;
+  }
+
+  if (filters.author) {
+    let authors = toList(next.author);
+    for (const values of [filters.author.include, filters.author.includeAny]) {
+      if (!values?.length) continue;
+      authors = narrowValues(authors, values);
+      if (authors.length === 0) noMatch();
+    }
+    if (authors.length > 0) next.author = authors;
+    if (filters.author.exclude?.length) {
+      next.excludeAuthors = [...(next.excludeAuthors ?? []), ...filters.author.exclude];
+    }
+    if (filters.author.includeNotSet) next.hasNoAuthor = true;
+  }
+
+  if (filters.favorites) next.fav = filters.favorites === 'is-fav' ? '1' : '0';
+  if (filters.likes) next.liked = filters.likes === 'is-liked' ? '1' : '0';
+  if (filters.reading) next.reading = filters.reading;
+
+  if (filters.mediaCategory && filters.mediaCategory !== 'all') {
+    if (next.mediaCategory && next.mediaCategory !== filters.mediaCategory) noMatch();
+    next.mediaCategory = filters.mediaCategory;
+  }
+  if (filters.mediaTypes?.length) {
+    const mediaTypes = narrowValues(next.mediaTypes, filters.mediaTypes);
+    if (mediaTypes.length === 0) noMatch();
+    else next.mediaTypes = mediaTypes;
+  }
+
+  if (filters.collectionId && !next.collection) next.collection = filters.collectionId;
+
+  if (filters.addedAt?.from) {
+    next.createdFrom =
+      next.createdFrom && next.createdFrom > filters.addedAt.from
+        ? next.createdFrom
+        : filters.addedAt.from;
+  }
+  if (filters.addedAt?.to) {
+    next.createdTo =
+      next.createdTo && next.createdTo < filters.addedAt.to ? next.createdTo : filters.addedAt.to;
+  }
+
+  if (filters.assetCount?.min !== undefined) {
+    next.minAssetCount = Math.max(next.minAssetCount ?? 0, filters.assetCount.min);
+  }
+  if (filters.assetCount?.max !== undefined) {
+    next.maxAssetCount =
+      next.maxAssetCount !== undefined
+        ? Math.min(next.maxAssetCount, filters.assetCount.max)
+        : filters.assetCount.max;
+  }
+
+  if (filters.metadata) {
+    const { capturedAt, camera, keywords, prompt } = filters.metadata;
+    if (capturedAt?.from) next.capturedFrom = capturedAt.from;
+    if (capturedAt?.to) next.capturedTo = capturedAt.to;
+    if (camera?.length) next.cameras = [...(next.cameras ?? []), ...camera];
+    if (keywords?.length) next.keywords = [...(next.keywords ?? []), ...keywords];
+    if (prompt?.length) next.prompts = [...(next.prompts ?? []), ...prompt];
+  }
+
+  if (filters.source?.urls?.length) {
+    next.sourceUrls = [...(next.sourceUrls ?? []), ...filters.source.urls];
+  }
+  if (filters.source?.channels?.length) {
+    const channels = narrowValues(next.importChannels, filters.source.channels);
+    if (channels.length === 0) noMatch();
+    else next.importChannels = channels;
+  }
+
+  return next;
+};
+
+/** SortOptionsSchema のソートを StandaloneStackListParams の sort / order にする。 */
+export const toStackListSort = (
+  sort: { by?: string; order?: string } | undefined
+): Pick<StandaloneStackListParams, 'sort' | 'order'> => {
+  const by = SortOptionsSchema.shape.by.safeParse(sort?.by);
+  return {
+    sort: by.success ? by.data : 'recommended',
+    order: sort?.order === 'asc' ? 'asc' : 'desc',
+  };
+};
@@ -0,0 +1,76 @@
+import { compileSearchQuery } from '@caramelboard/search-query';
+import { type SmartCollectionConfig, SmartCollectionConfigSchema } from '../models/CollectionModel';
+import type { SearchFilters } from '../schemas/search-schema';
+
+const MEDIA_CATEGORIES = ['image', 'comic', 'video'] as const;
+const MEDIA_TYPES = ['image', 'video', 'multipleImages'] as const;
+const READING_STATES = ['unread', 'in-progress', 'read'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toStringList = (value: unknown) =>
+  Array.isArray(value) ? value.map((entry) => String(entry)).filter(Boolean) : [];
+
+const pick = <T extends string>(values: readonly T[], value: unknown) =>
+  values.find((candidate) => candidate === value);
+
+/**
+ * 旧形式（tagIds / authorNames / favorited などのフラットなキー）を読み替える。
+ * 旧形式のタグと作者はいずれかに一致すればよい条件だった。
+ */
+const fromLegacyConfig = (raw: Record<string, unknown>) => {
+  const filters: SearchFilters = {};
+  const tags = toStringList(raw.tagIds);
+  if (tags.length > 0 || raw.hasNoTags === true) {
+    filters.tags = {
+      includeAny: tags.length > 0 ? tags : undefined,
+      includeNotSet: raw.hasNoTags === true || undefined,
+    };
+  }
+  const authors = toStringList(raw.authorNames);
+  if (authors.length > 0 || raw.hasNoAuthor === true) {
+    filters.author = {
+      includeAny: authors.length > 0 ? authors : undefined,
+      includeNotSet: raw.hasNoAuthor === true || undefined,
+    };
+  }
+  if (typeof raw.favorited === 'boolean') filters.favorites = raw.favorited ? 'is-fav' : 'not-fav';
+  if (typeof raw.liked === 'boolean') filters.likes = raw.liked ? 'is-liked' : 'not-liked';
+  filters.reading = pick(READING_STATES, raw.reading);
+  filters.mediaCategory = pick(MEDIA_CATEGORIES, raw.mediaCategory);
+  const mediaTypes = MEDIA_TYPES.filter((mediaType) =>
+    toStringList(raw.mediaTypes).includes(mediaType)
+  );
+  if (mediaTypes.length > 0) filters.mediaTypes = mediaTypes;
+
+  return {
+    query: typeof raw.search === 'string' && raw.search.trim() ? raw.search : undefined,
+    filters,
+    colorFilter: isRecord(raw.colorFilter) ? raw.colorFilter : undefined,
+  };
+};
+
+/**
+ * filter_config_json を SmartCollectionConfig として検証する。
+ * filters を持たない設定は旧形式として読み替える。クエリの構文エラーは SearchQuerySyntaxError。
+ */
+export const parseSmartCollectionConfig = (raw: Record<string, unknown>) => {
+  const parsed = SmartCollectionConfigSchema.safeParse(
+    isRecord(raw.filters) ? raw : fromLegacyConfig(raw)
+  );
+  if (parsed.success) compileSearchQuery(parsed.data.query);
+  return parsed;
+};
+
+/** 保存済みの設定を読む。壊れた設定は null */
+export const readSmartCollectionConfig = (
+  raw: Record<string, unknown>
+): SmartCollectionConfig | null => {
+  try {
+    const parsed = parseSmartCollectionConfig(raw);
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
@@ -14,10 +14,9 @@ const shouldSwapByOrientation = (orientation: number | undefined) =>
 
 export async function readAssetDimensions(fileKey: string): Promise<AssetDimensions> {
   try {
-    const metadata = await sharp(DataStorage.getPath(fileKey), {
-      failOnError: false,
-      sequentialRead: true,
-    }).metadata();
+    const metadata = await DataStorage.withReadablePath(fileKey, (filePath) =>
+      sharp(filePath, { failOnError: false, sequentialRead: true }).metadata()
+    );
     const rawWidth = normalizeDimension(metadata.width);
     const rawHeight = normalizeDimension(metadata.height);
     if (rawWidth === null || rawHeight === null) {
@@ -1,4 +1,5 @@
 import { createHash } from 'node:crypto';
+import { signPublicFilePath } from './file-access';
 
 const HASH_PREFIX_LENGTH = 2;
 const STORAGE_ROOT = 'library';
@@ -61,6 +62,11 @@ export const buildPreviewKey = (dataSetId: number, hash: string, options?: Previ
   return `${STORAGE_ROOT}/${dataSetId}/preview/${prefix}/${normalizeHash(hash)}${suffix}.${ext}`;
 };
 
+export const buildSceneStripKey = (dataSetId: number, hash: string) => {
+  const prefix = hashPrefix(hash);
+  return `${STORAGE_ROOT}/${dataSetId}/preview/${prefix}/${normalizeHash(hash)}.scenes.jpg`;
+};
+
 export const buildOriginalKey = (dataSetId: number, hash: string, ext: string) => {
   const prefix = hashPrefix(hash);
   const extension = sanitizeExtension(ext);
@@ -74,10 +80,7 @@ export const splitHashForDirectory = (hash: string) => ({
 
 const isAbsoluteUrl = (value: string) => /^https?:\/\//i.test(value);
 
-export const toPublicAssetPath = (value: string | null | undefined, dataSetId?: number): string => {
-  if (!value) return '';
-  if (isAbsoluteUrl(value)) return value;
-
+const toUnsignedPublicPath = (value: string, dataSetId?: number): string => {
   let normalized = value.startsWith('/') ? value.slice(1) : value;
 
   if (normalized.startsWith('files/')) {
@@ -102,6 +105,13 @@ export const toPublicAssetPath = (value: string | null | undefined, dataSetId?:
   return `/files/${normalized}`;
 };
 
+/** 保護されたライブラリのファイルは署名付き URL で返す */
+export const toPublicAssetPath = (value: string | null | undefined, dataSetId?: number): string => {
+  if (!value) return '';
+  if (isAbsoluteUrl(value)) return value;
+  return signPublicFilePath(toUnsignedPublicPath(value, dataSetId));
+};
+
 export const withPublicAssetPaths = <
   T extends {
     file?: string | null;
@@ -0,0 +1,594 @@
+import { execFile } from 'node:child_process';
+import { createHash, randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { ComicArchiveError } from '../errors/ComicArchiveError';
+import { DataStorage } from '../lib/DataStorage';
+import { buildOriginalKey } from './assetPath';
+import { getHash } from './functions';
+import { readZipDirectory, readZipEntryData, type ZipDirectoryEntry } from './zip';
+
+const execFileAsync = promisify(execFile);
+
+export type ComicArchiveFormat = 'cbz' | 'cbr' | 'cb7' | 'epub';
+export type ComicArchiveOpeningDirection = 'right-opening' | 'left-opening';
+
+interface FileInput {
+  path: string;
+  originalname: string;
+  mimetype?: string;
+  size?: number;
+}
+
+export interface ComicArchiveOriginalMeta {
+  file: string;
+  originalName: string;
+  size: number;
+  hash: string;
+  mimeType: string;
+  sourceFormat: ComicArchiveFormat;
+  originalExtension: ComicArchiveFormat;
+  pageCount: number;
+  importId: string;
+  createdAt: string;
+}
+
+/** ComicInfo.xml または EPUB の OPF から読み取った作品情報 */
+export interface ComicArchiveInfo {
+  title?: string;
+  author?: string;
+  tags: string[];
+  openingDirection?: ComicArchiveOpeningDirection;
+}
+
+export interface ComicArchivePage {
+  pageNumber: number;
+  path: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+  storageHash: string;
+}
+
+export interface PreparedComicArchiveImport {
+  original: ComicArchiveOriginalMeta;
+  info: ComicArchiveInfo;
+  pages: ComicArchivePage[];
+  cleanup: () => void;
+}
+
+interface ArchiveImage {
+  name: string;
+  read: () => Promise<Buffer>;
+}
+
+// 圧縮率の高い ZIP でメモリやディスクを使い切らないよう、展開後のサイズに上限を設ける
+const MAX_PAGE_BYTES = 256 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 8 * 1024 * 1024;
+const EPUB_DOCUMENT_PATTERN = /\.(?:xml|opf|xhtml|html?)$/i;
+
+const ARCHIVE_EXTENSIONS: Record<string, ComicArchiveFormat> = {
+  '.cbz': 'cbz',
+  '.cbr': 'cbr',
+  '.cb7': 'cb7',
+  '.epub': 'epub',
+};
+
+const ARCHIVE_MIME_TYPES: Record<string, ComicArchiveFormat> = {
+  'application/vnd.comicbook+zip': 'cbz',
+  'application/x-cbz': 'cbz',
+  'application/vnd.comicbook-rar': 'cbr',
+  'application/x-cbr': 'cbr',
+  'application/x-cb7': 'cb7',
+  'application/epub+zip': 'epub',
+};
+
+const DEFAULT_MIME_TYPES: Record<ComicArchiveFormat, string> = {
+  cbz: 'application/vnd.comicbook+zip',
+  cbr: 'application/vnd.comicbook-rar',
+  cb7: 'application/x-cb7',
+  epub: 'application/epub+zip',
+};
+
+const PAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.bmp': 'image/bmp',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getErrorCode = (error: unknown): string | undefined => {
+  if (!isRecord(error)) return undefined;
+  return typeof error.code === 'string' ? error.code : undefined;
+};
+
+const getErrorText = (error: unknown): string => {
+  if (!isRecord(error)) return error instanceof Error ? error.message : String(error);
+  const stderr = typeof error.stderr === 'string' ? error.stderr.trim() : '';
+  if (stderr) return stderr;
+  return error instanceof Error ? error.message : String(error);
+};
+
+/** 拡張子または Content-Type からコミックアーカイブの種類を判定する */
+export const detectComicArchiveFormat = (
+  file: Pick<FileInput, 'originalname' | 'mimetype'>
+): ComicArchiveFormat | null => {
+  const extension = path.extname(file.originalname).toLowerCase();
+  if (ARCHIVE_EXTENSIONS[extension]) return ARCHIVE_EXTENSIONS[extension];
+  const mimeType = file.mimetype?.trim().toLowerCase() ?? '';
+  return ARCHIVE_MIME_TYPES[mimeType] ?? null;
+};
+
+export const isComicArchiveFileInput = (file: Pick<FileInput, 'originalname' | 'mimetype'>) =>
+  detectComicArchiveFormat(file) !== null;
+
+/** 「page2」が「page10」より前に来るファイル名順 */
+export const compareNaturalFilenames = (left: string, right: string) =>
+  left.localeCompare(right, undefined, { numeric: true, sensitivity: 'base' });
+
+const isPageImage = (entryName: string) => {
+  const normalized = entryName.replace(/\\/g, '/');
+  const segments = normalized.split('/');
+  if (segments.some((segment) => segment === '__MACOSX' || segment.startsWith('.'))) {
+    return false;
+  }
+  return Boolean(PAGE_MIME_TYPES[path.extname(normalized).toLowerCase()]);
+};
+
+const decodeXmlEntities = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number.parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const readXmlElements = (xml: string, name: string) => {
+  const pattern = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'gi');
+  return Array.from(xml.matchAll(pattern), (match) => decodeXmlEntities(match[1]).trim()).filter(
+    Boolean
+  );
+};
+
+const readXmlAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+const splitList = (value: string | undefined) =>
+  (value ?? '')
+    .split(/[,;]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const uniqueStrings = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** ComicInfo.xml (ComicRack 形式) からタイトル・作者・タグ・読む向きを取り出す */
+export const parseComicInfo = (xml: string): ComicArchiveInfo => {
+  const first = (name: string) => readXmlElements(xml, name)[0];
+  const series = first('Series');
+  const number = first('Number');
+  const title = first('Title') || (series ? [series, number].filter(Boolean).join(' ') : undefined);
+  const author = splitList(first('Writer'))[0] || splitList(first('Penciller'))[0];
+  const manga = first('Manga')?.toLowerCase();
+
+  return {
+    title: title || undefined,
+    author: author || undefined,
+    tags: uniqueStrings([...splitList(first('Tags')), ...splitList(first('Genre'))]),
+    openingDirection:
+      manga === 'yesandrighttoleft' ? 'right-opening' : manga === 'no' ? 'left-opening' : undefined,
+  };
+};
+
+const resolveZipPath = (baseFile: string, href: string) => {
+  const decoded = (() => {
+    try {
+      return decodeURIComponent(href.split('#')[0]);
+    } catch {
+      return href.split('#')[0];
+    }
+  })();
+  return path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), decoded));
+};
+
+/** EPUB の spine 順にページ画像を並べる。XHTML から画像が見つからなければ manifest の画像を使う */
+export const readEpubPages = (
+  files: Map<string, Buffer>,
+  names: ReadonlySet<string> = new Set(files.keys())
+): { imageNames: string[]; info: ComicArchiveInfo } => {
+  const container = files.get('META-INF/container.xml')?.toString('utf8') ?? '';
+  const rootfileTag = container.match(/<rootfile\b[^>]*>/i)?.[0] ?? '';
+  const opfPath = readXmlAttributes(rootfileTag)['full-path'];
+  const opf = opfPath ? files.get(opfPath)?.toString('utf8') : undefined;
+  if (!opfPath || !opf) {
+    throw new ComicArchiveError('EPUBのパッケージ文書 (OPF) が見つかりません');
+  }
+
+  const manifest = new Map<string, { path: string; mediaType: string }>();
+  for (const match of opf.matchAll(/<item\b[^>]*>/gi)) {
+    const attributes = readXmlAttributes(match[0]);
+    if (!attributes.id || !attributes.href) continue;
+    manifest.set(attributes.id, {
+      path: resolveZipPath(opfPath, attributes.href),
+      mediaType: (attributes['media-type'] ?? '').toLowerCase(),
+    });
+  }
+
+  const imageNames: string[] = [];
+  const pushImage = (name: string) => {
+    if (names.has(name) && isPageImage(name) && !imageNames.includes(name)) imageNames.push(name);
+  };
+  for (const match of opf.matchAll(/<itemref\b[^>]*>/gi)) {
+    const item = manifest.get(readXmlAttributes(match[0]).idref ?? '');
+    if (!item) continue;
+    if (item.mediaType.startsWith('image/')) {
+      pushImage(item.path);
+      continue;
+    }
+    const document = files.get(item.path)?.toString('utf8') ?? '';
+    for (const tag of document.matchAll(/<(?:img|image)\b[^>]*>/gi)) {
+      const attributes = readXmlAttributes(tag[0]);
+      const href = attributes.src ?? attributes['xlink:href'] ?? attributes.href;
+      if (href) pushImage(resolveZipPath(item.path, href));
+    }
+  }
+  if (imageNames.length === 0) {
+    const manifestImages = Array.from(manifest.values())
+      .filter((item) => item.mediaType.startsWith('image/'))
+      .map((item) => item.path)
+      .sort(compareNaturalFilenames);
+    for (const name of manifestImages) pushImage(name);
+  }
+
+  const spineTag = opf.match(/<spine\b[^>]*>/i)?.[0] ?? '';
+  const direction = readXmlAttributes(spineTag)['page-progression-direction'];
+  return {
+    imageNames,
+    info: {
+      title: readXmlElements(opf, 'dc:title')[0],
+      author: readXmlElements(opf, 'dc:creator')[0],
+      tags: uniqueStrings(readXmlElements(opf, 'dc:subject')),
+      openingDirection:
+        direction === 'rtl' ? 'right-opening' : direction === 'ltr' ? 'left-opening' : undefined,
+    },
+  };
+};
+
+const getMaxExtractedBytes = () =>
+  Number.parseInt(process.env.COMIC_ARCHIVE_MAX_EXTRACTED_BYTES ?? '', 10) || 4 * 1024 ** 3;
+
+/** 中央ディレクトリだけを読み、ページは read() のたびに 1 件ずつ展開する */
+const readZipArchive = async (file: FileHandle, format: ComicArchiveFormat) => {
+  const entries = new Map<string, ZipDirectoryEntry>();
+  try {
+    for (const entry of await readZipDirectory(file)) {
+      entries.set(entry.name.replace(/\\/g, '/'), entry);
+    }
+  } catch (error) {
+    throw new ComicArchiveError(`アーカイブを展開できませんでした: ${getErrorText(error)}`);
+  }
+
+  // 中央ディレクトリのサイズは展開時に照合するので、合計はここで先に判定できる
+  const assertTotalSize = (names: string[]) => {
+    const total = names.reduce((sum, name) => sum + (entries.get(name)?.size ?? 0), 0);
+    if (total > getMaxExtractedBytes()) {
+      throw new ComicArchiveError('アーカイブの展開後のサイズが上限を超えています');
+    }
+  };
+  const readEntry = async (name: string, maxSize: number) => {
+    try {
+      return await readZipEntryData(file, entries.get(name) as ZipDirectoryEntry, maxSize);
+    } catch (error) {
+      throw new ComicArchiveError(`アーカイブを展開できませんでした: ${getErrorText(error)}`);
+    }
+  };
+  const toImages = (names: string[]): ArchiveImage[] => {
+    assertTotalSize(names);
+    return names.map((name) => ({ name, read: () => readEntry(name, MAX_PAGE_BYTES) }));
+  };
+
+  if (format === 'epub') {
+    const documentNames = Array.from(entries.keys()).filter((name) =>
+      EPUB_DOCUMENT_PATTERN.test(name)
+    );
+    assertTotalSize(documentNames);
+    const documents = new Map<string, Buffer>();
+    for (const name of documentNames) {
+      documents.set(name, await readEntry(name, MAX_DOCUMENT_BYTES));
+    }
+    const { imageNames, info } = readEpubPages(documents, new Set(entries.keys()));
+    return { images: toImages(imageNames), info };
+  }
+
+  const comicInfo = Array.from(entries.keys()).find(
+    (name) => path.posix.basename(name).toLowerCase() === 'comicinfo.xml'
+  );
+  return {
+    images: toImages(Array.from(entries.keys()).filter(isPageImage).sort(compareNaturalFilenames)),
+    info: comicInfo
+      ? parseComicInfo((await readEntry(comicInfo, MAX_DOCUMENT_BYTES)).toString('utf8'))
+      : { tags: [] },
+  };
+};
+
+const getExtractorCandidates = (format: ComicArchiveFormat) => {
+  const candidates = [process.env.COMIC_ARCHIVE_EXTRACTOR_PATH, '7zz', '7z', 'bsdtar', 'unar'];
+  if (format === 'cbr') candidates.push('unrar');
+
+  if (process.platform === 'win32') {
+    candidates.push(
+      'C:\\Program Files\\7-Zip\\7z.exe',
+      'C:\\Program Files (x86)\\7-Zip\\7z.exe',
+      'C:\\Program Files\\WinRAR\\UnRAR.exe'
+    );
+  } else {
+    candidates.push(
+      '/opt/homebrew/bin/7zz',
+      '/opt/homebrew/bin/7z',
+      '/usr/local/bin/7zz',
+      '/usr/local/bin/7z',
+      '/usr/bin/7z',
+      '/usr/bin/bsdtar'
+    );
+  }
+
+  return Array.from(
+    new Set(candidates.filter((candidate): candidate is string => Boolean(candidate?.trim())))
+  );
+};
+
+/** 展開ツールごとの引数。パスの basename で 7-Zip / bsdtar / unar / unrar を見分ける */
+const buildExtractorArgs = (command: string, archivePath: string, outputDir: string) => {
+  const name = path
+    .basename(command)
+    .toLowerCase()
+    .replace(/\.exe$/, '');
+  if (name === 'bsdtar' || name === 'tar') return ['-xf', archivePath, '-C', outputDir];
+  if (name === 'unar') return ['-q', '-f', '-D', '-o', outputDir, archivePath];
+  if (name === 'unrar') return ['x', '-y', '-o+', archivePath, `${outputDir}${path.sep}`];
+  return ['x', '-y', `-o${outputDir}`, archivePath];
+};
+
+const runExtractor = async (archivePath: string, outputDir: string, format: ComicArchiveFormat) => {
+  const timeout =
+    Number.parseInt(process.env.COMIC_ARCHIVE_EXTRACTOR_TIMEOUT_MS ?? '', 10) || 10 * 60_000;
+  let lastError: unknown = null;
+
+  for (const candidate of getExtractorCandidates(format)) {
+    try {
+      await execFileAsync(candidate, buildExtractorArgs(candidate, archivePath, outputDir), {
+        timeout,
+        windowsHide: true,
+        maxBuffer: 1024 * 1024,
+      });
+      return;
+    } catch (error) {
+      lastError = error;
+      if (getErrorCode(error) === 'ENOENT') {
+        continue;
+      }
+      throw new ComicArchiveError(`アーカイブの展開に失敗しました: ${getErrorText(error)}`);
+    }
+  }
+
+  throw new ComicArchiveError(
+    `${format.toUpperCase()} の展開には 7-Zip / bsdtar / unar などの展開ツールが必要です。COMIC_ARCHIVE_EXTRACTOR_PATH を設定するか、PATHに追加してください。${lastError ? ` (${getErrorText(lastError)})` : ''}`
+  );
+};
+
+const listFilesRecursive = (root: string, current = root): string[] =>
+  fs.readdirSync(current, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(current, entry.name);
+    if (entry.isDirectory()) return listFilesRecursive(root, fullPath);
+    return entry.isFile() ? [path.relative(root, fullPath).split(path.sep).join('/')] : [];
+  });
+
+const readExtractedArchive = async (
+  archivePath: string,
+  format: ComicArchiveFormat,
+  workDir: string
+) => {
+  const extractDir = path.join(workDir, 'extracted');
+  fs.mkdirSync(extractDir, { recursive: true });
+  await runExtractor(archivePath, extractDir, format);
+  const files = listFilesRecursive(extractDir);
+  const comicInfo = files.find(
+    (name) => path.posix.basename(name).toLowerCase() === 'comicinfo.xml'
+  );
+  return {
+    images: files
+      .filter(isPageImage)
+      .sort(compareNaturalFilenames)
+      .map((name) => ({ name, read: () => fs.promises.readFile(path.join(extractDir, name)) })),
+    info: comicInfo
+      ? parseComicInfo(fs.readFileSync(path.join(extractDir, comicInfo), 'utf8'))
+      : { tags: [] },
+  };
+};
+
+const createTempDir = () => {
+  const storageRoot = process.env.FILES_STORAGE || path.resolve('./data');
+  const tmpRoot = path.join(storageRoot, 'tmp', 'comic-pages');
+  fs.mkdirSync(tmpRoot, { recursive: true });
+  return fs.mkdtempSync(path.join(tmpRoot, 'archive-'));
+};
+
+const createPageStorageHash = (archiveHash: string, importId: string, pageNumber: number) =>
+  createHash('sha256').update(`${archiveHash}:${importId}:${pageNumber}`).digest('hex');
+
+const isComicArchiveOriginalMeta = (value: unknown): value is ComicArchiveOriginalMeta => {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.file === 'string' &&
+    typeof value.originalName === 'string' &&
+    typeof value.hash === 'string' &&
+    typeof value.importId === 'string' &&
+    typeof value.size === 'number' &&
+    typeof value.pageCount === 'number'
+  );
+};
+
+export const appendComicArchiveOriginalMeta = (
+  meta: unknown,
+  original: ComicArchiveOriginalMeta
+): Record<string, unknown> => {
+  const base = isRecord(meta) ? { ...meta } : {};
+  const existing = extractComicArchiveOriginalsFromMeta(base).filter(
+    (entry) => entry.file !== original.file
+  );
+  return {
+    ...base,
+    sourceType: original.sourceFormat,
+    sourceArchive: original,
+    sourceArchives: [...existing, original],
+  };
+};
+
+export const extractComicArchiveOriginalsFromMeta = (meta: unknown): ComicArchiveOriginalMeta[] => {
+  if (!isRecord(meta)) return [];
+  const entries: ComicArchiveOriginalMeta[] = [];
+
+  if (isComicArchiveOriginalMeta(meta.sourceArchive)) {
+    entries.push(meta.sourceArchive);
+  }
+
+  if (Array.isArray(meta.sourceArchives)) {
+    for (const entry of meta.sourceArchives) {
+      if (isComicArchiveOriginalMeta(entry)) {
+        entries.push(entry);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    if (seen.has(entry.file)) return false;
+    seen.add(entry.file);
+    return true;
+  });
+};
+
+export const prepareComicArchiveImport = async (
+  file: FileInput,
+  dataSetId: number,
+  options: { sourceHash?: string } = {}
+): Promise<PreparedComicArchiveImport> => {
+  const format = detectComicArchiveFormat(file);
+  if (!format) throw new ComicArchiveError('対応していないアーカイブ形式です');
+  const archiveHash = options.sourceHash ?? (await getHash(file.path));
+  const importId = randomUUID();
+  const originalKey = buildOriginalKey(dataSetId, archiveHash, format);
+  const originalPath = DataStorage.getPath(originalKey);
+  fs.mkdirSync(path.dirname(originalPath), { recursive: true });
+  let copiedOriginal = false;
+  if (!fs.existsSync(originalPath)) {
+    fs.copyFileSync(file.path, originalPath);
+    copiedOriginal = true;
+    DataStorage.seal(originalKey);
+  }
+
+  const workDir = createTempDir();
+  const removeWorkFiles = () => {
+    try {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    } catch {}
+    try {
+      fs.rmSync(file.path, { force: true });
+    } catch {}
+  };
+
+  try {
+    const baseName = path.basename(file.originalname, path.extname(file.originalname)) || 'comic';
+    const { info, pages } = await DataStorage.withReadablePath(
+      originalKey,
+      async (readablePath) => {
+        const zipFile =
+          format === 'cbz' || format === 'epub' ? await fs.promises.open(readablePath, 'r') : null;
+        try {
+          const archive: { images: ArchiveImage[]; info: ComicArchiveInfo } = zipFile
+            ? await readZipArchive(zipFile, format)
+            : await readExtractedArchive(readablePath, format, workDir);
+          if (archive.images.length === 0) {
+            throw new ComicArchiveError('アーカイブにページ画像が含まれていません');
+          }
+
+          const pageDir = path.join(workDir, 'pages');
+          fs.mkdirSync(pageDir, { recursive: true });
+          const pages: ComicArchivePage[] = [];
+          for (const [index, image] of archive.images.entries()) {
+            const pageNumber = index + 1;
+            const extension = path.extname(image.name).toLowerCase();
+            const pagePath = path.join(pageDir, `page-${pageNumber}${extension}`);
+            fs.writeFileSync(pagePath, await image.read());
+            pages.push({
+              pageNumber,
+              path: pagePath,
+              originalname: `${baseName}-p${String(pageNumber).padStart(3, '0')}${extension}`,
+              mimetype: PAGE_MIME_TYPES[extension],
+              size: fs.statSync(pagePath).size,
+              storageHash: createPageStorageHash(archiveHash, importId, pageNumber),
+            });
+          }
+          return { info: archive.info, pages };
+        } finally {
+          await zipFile?.close();
+        }
+      }
+    );
+
+    const mimeType = file.mimetype?.trim().toLowerCase();
+    return {
+      original: {
+        file: originalKey,
+        originalName: file.originalname,
+        size: file.size ?? fs.statSync(file.path).size,
+        hash: archiveHash,
+        mimeType:
+          mimeType && mimeType !== 'application/octet-stream'
+            ? mimeType
+            : DEFAULT_MIME_TYPES[format],
+        sourceFormat: format,
+        originalExtension: format,
+        pageCount: pages.length,
+        importId,
+        createdAt: new Date().toISOString(),
+      },
+      info,
+      pages,
+      cleanup: removeWorkFiles,
+    };
+  } catch (error) {
+    removeWorkFiles();
+    if (copiedOriginal) {
+      try {
+        fs.rmSync(originalPath, { force: true });
+      } catch {}
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,209 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import sharp from 'sharp';
+import { withReadableFilePath } from './dataset-encryption';
+import { createZipArchive } from './zip';
+
+export type ComicExportFormat = 'cbz' | 'pdf';
+
+export interface ComicExportStack {
+  name: string;
+  author?: string | null;
+  tags: string[];
+  openingDirection: 'right-opening' | 'left-opening';
+}
+
+export interface ComicExportOptions {
+  format: ComicExportFormat;
+  /** 長辺の上限 (px)。省略時は元の大きさのまま */
+  maxSize?: number;
+}
+
+interface ComicExportPage {
+  data: Buffer;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+// CBZ リーダーがそのまま表示できる形式。それ以外は JPEG にする
+const PASSTHROUGH_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'gif', 'webp']);
+// PDF のページ寸法を決める解像度
+const PDF_PAGE_DPI = 150;
+const JPEG_QUALITY = 90;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** ComicRack 形式の ComicInfo.xml。右開きは Manga=YesAndRightToLeft で表す */
+export const buildComicInfoXml = (stack: ComicExportStack, pageCount: number) => {
+  const fields: Array<[string, string | undefined]> = [
+    ['Title', stack.name],
+    ['Writer', stack.author ?? undefined],
+    ['Tags', stack.tags.length > 0 ? stack.tags.join(', ') : undefined],
+    ['PageCount', String(pageCount)],
+    ['Manga', stack.openingDirection === 'right-opening' ? 'YesAndRightToLeft' : 'No'],
+  ];
+  const body = fields
+    .filter((field): field is [string, string] => Boolean(field[1]))
+    .map(([name, value]) => `  <${name}>${escapeXml(value)}</${name}>`)
+    .join('\n');
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+${body}
+</ComicInfo>
+`;
+};
+
+const toPdfTextString = (value: string) => {
+  const utf16 = Buffer.from(value, 'utf16le');
+  utf16.swap16();
+  return `<FEFF${utf16.toString('hex').toUpperCase()}>`;
+};
+
+/** JPEG を 1 ページ 1 枚で並べた PDF を組み立てる（DCTDecode でそのまま埋め込む） */
+export const createPdfFromJpegPages = (
+  pages: Array<{ data: Buffer; width: number; height: number }>,
+  options: { title?: string; rightToLeft?: boolean } = {}
+) => {
+  const objects: Buffer[] = [];
+  const addObject = (content: Buffer | string) => {
+    objects.push(typeof content === 'string' ? Buffer.from(content, 'latin1') : content);
+    return objects.length;
+  };
+
+  // 1: Catalog, 2: Pages, 3: Info を先に確保してから各ページを追加する
+  addObject('');
+  addObject('');
+  addObject(options.title ? `<< /Title ${toPdfTextString(options.title)} >>` : '<< >>');
+
+  const pageIds: number[] = [];
+  for (const [index, page] of pages.entries()) {
+    const pageWidth = ((page.width * 72) / PDF_PAGE_DPI).toFixed(2);
+    const pageHeight = ((page.height * 72) / PDF_PAGE_DPI).toFixed(2);
+    const imageId = addObject(
+      Buffer.concat([
+        Buffer.from(
+          `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.data.length} >>\nstream\n`,
+          'latin1'
+        ),
+        page.data,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+    const drawing = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im${index} Do Q`;
+    const contentId = addObject(`<< /Length ${drawing.length} >>\nstream\n${drawing}\nendstream`);
+    pageIds.push(
+      addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im${index} ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      )
+    );
+  }
+
+  const viewerPreferences = options.rightToLeft ? ' /ViewerPreferences << /Direction /R2L >>' : '';
+  objects[0] = Buffer.from(`<< /Type /Catalog /Pages 2 0 R${viewerPreferences} >>`, 'latin1');
+  objects[1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    'latin1'
+  );
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  for (const [index, object] of objects.entries()) {
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      object,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(offset);
+    parts.push(chunk);
+    offset += chunk.length;
+  }
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(Buffer.from(`${xref}\n`, 'latin1'));
+  return Buffer.concat(parts);
+};
+
+const preparePage = async (
+  filePath: string,
+  options: ComicExportOptions
+): Promise<ComicExportPage> => {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  let image = sharp(filePath, { animated: false, limitInputPixels: false }).rotate();
+  if (options.maxSize) {
+    image = image.resize({
+      width: options.maxSize,
+      height: options.maxSize,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+  }
+
+  const keepFormat = options.format === 'cbz' && PASSTHROUGH_EXTENSIONS.has(extension);
+  // CBZ は縮小しないならファイルをそのまま入れる（寸法は PDF でしか使わない）
+  if (keepFormat && !options.maxSize) {
+    return { data: fs.readFileSync(filePath), extension, width: 0, height: 0 };
+  }
+
+  const output = keepFormat
+    ? image.toFormat(extension === 'jpg' ? 'jpeg' : (extension as keyof sharp.FormatEnum))
+    : image
+        .flatten({ background: '#ffffff' })
+        .toColourspace('srgb')
+        .jpeg({ quality: JPEG_QUALITY, mozjpeg: true });
+  const { data, info } = await output.toBuffer({ resolveWithObject: true });
+  return {
+    data,
+    extension: keepFormat ? extension : 'jpg',
+    width: info.width,
+    height: info.height,
+  };
+};
+
+/** スタックのページ画像を order_in_stack 順に CBZ または PDF にまとめる */
+export const exportComic = async (
+  stack: ComicExportStack,
+  pagePaths: string[],
+  options: ComicExportOptions
+) => {
+  const pages: ComicExportPage[] = [];
+  for (const pagePath of pagePaths) {
+    pages.push(
+      await withReadableFilePath(pagePath, (readablePath) => preparePage(readablePath, options))
+    );
+  }
+
+  if (options.format === 'pdf') {
+    return {
+      data: createPdfFromJpegPages(pages, {
+        title: stack.name,
+        rightToLeft: stack.openingDirection === 'right-opening',
+      }),
+      mimeType: 'application/pdf',
+    };
+  }
+
+  const digits = Math.max(3, String(pages.length).length);
+  return {
+    data: createZipArchive([
+      ...pages.map((page, index) => ({
+        name: `${String(index + 1).padStart(digits, '0')}.${page.extension}`,
+        data: page.data,
+      })),
+      { name: 'ComicInfo.xml', data: Buffer.from(buildComicInfoXml(stack, pages.length), 'utf8') },
+    ]),
+    mimeType: 'application/vnd.comicbook+zip',
+  };
+};
@@ -0,0 +1,170 @@
+import crypto, { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { LibraryLockedError } from '../errors/LibraryLockedError';
+import { getDatasetFileProtection } from './file-access';
+import {
+  decryptFile,
+  encryptFileInPlace,
+  getDecryptedSize,
+  readDecryptedRange,
+  readEncryptedFileHeader,
+} from './file-encryption';
+
+const KEY_BYTES = 32;
+
+// ファイルの暗号鍵はランダムに作り、ライブラリのパスワードから導出した鍵で包んで DB に保存する
+const deriveWrappingKey = (password: string, salt: string) =>
+  crypto.scryptSync(password, salt, KEY_BYTES);
+
+export const createDatasetEncryptionKey = (password: string) => {
+  const key = crypto.randomBytes(KEY_BYTES);
+  const salt = crypto.randomBytes(16).toString('hex');
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveWrappingKey(password, salt), iv);
+  const wrapped = Buffer.concat([cipher.update(key), cipher.final()]);
+  return {
+    key,
+    salt,
+    wrappedKey: [iv, cipher.getAuthTag(), wrapped].map((part) => part.toString('hex')).join(':'),
+  };
+};
+
+/** パスワードが違う場合は null */
+export const unwrapDatasetEncryptionKey = (
+  password: string,
+  salt: string,
+  wrappedKey: string
+): Buffer | null => {
+  const [iv, tag, wrapped] = wrappedKey.split(':').map((part) => Buffer.from(part, 'hex'));
+  if (!iv || !tag || !wrapped) return null;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', deriveWrappingKey(password, salt), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(wrapped), decipher.final()]);
+  } catch {
+    return null;
+  }
+};
+
+// 解錠したライブラリの鍵はメモリにだけ置く。サーバーを再起動したらパスワードの入力が必要になる
+const unlockedKeys = new Map<number, Buffer>();
+
+export const rememberDatasetKey = (dataSetId: number, key: Buffer) => {
+  unlockedKeys.set(dataSetId, key);
+};
+
+export const forgetDatasetKey = (dataSetId: number) => {
+  unlockedKeys.delete(dataSetId);
+};
+
+export const isDatasetKeyLoaded = (dataSetId: number) => unlockedKeys.has(dataSetId);
+
+/** 解錠済みのライブラリの鍵。未解錠なら LibraryLockedError */
+export const requireDatasetKey = (dataSetId: number) => {
+  const key = unlockedKeys.get(dataSetId);
+  if (!key) throw new LibraryLockedError(dataSetId);
+  return key;
+};
+
+/** 暗号化が有効なライブラリなら、書き込んだファイルをその場で暗号化する */
+export const sealStoredFile = (filePath: string, dataSetId: number | null) => {
+  if (!dataSetId || !getDatasetFileProtection(dataSetId).encryptionEnabled) return;
+  if (!fs.existsSync(filePath) || readEncryptedFileHeader(filePath)) return;
+  encryptFileInPlace(filePath, dataSetId, requireDatasetKey(dataSetId));
+};
+
+export interface DecryptedFileReader {
+  size: number;
+  /** start〜end バイト目（end を含む）を復号して返す */
+  read: (start: number, end: number) => Buffer;
+}
+
+/** 暗号化されたファイルを少しずつ読むためのリーダー。平文のファイルなら null */
+export const openDecryptedFile = (filePath: string): DecryptedFileReader | null => {
+  const header = readEncryptedFileHeader(filePath);
+  if (!header) return null;
+  const key = requireDatasetKey(header.dataSetId);
+  return {
+    size: getDecryptedSize(fs.statSync(filePath).size),
+    read: (start, end) => readDecryptedRange(filePath, key, start, end),
+  };
+};
+
+const STREAM_CHUNK_BYTES = 1024 * 1024;
+
+/** 暗号化されたファイルも復号した内容で返す */
+export const readStoredFile = (filePath: string): Buffer => {
+  const reader = openDecryptedFile(filePath);
+  return reader ? reader.read(0, reader.size - 1) : fs.readFileSync(filePath);
+};
+
+/** 復号後のサイズ */
+export const getStoredFileSize = (filePath: string) =>
+  openDecryptedFile(filePath)?.size ?? fs.statSync(filePath).size;
+
+/** 暗号化されたファイルは少しずつ復号しながら流す */
+export const createStoredFileStream = (filePath: string): Readable => {
+  const reader = openDecryptedFile(filePath);
+  if (!reader) return fs.createReadStream(filePath);
+  return Readable.from(
+    (function* () {
+      for (let start = 0; start < reader.size; start += STREAM_CHUNK_BYTES) {
+        yield reader.read(start, start + STREAM_CHUNK_BYTES - 1);
+      }
+    })()
+  );
+};
+
+// sharp や ffmpeg にはパスで渡すので、暗号化されたファイルはストレージ内の作業ディレクトリへ復号したコピーを渡す。
+// 平文のコピーは呼び出しが終わったらすぐに消す
+const DECRYPTED_DIRECTORY_PREFIX = 'caramel-decrypted-';
+let decryptedDirectory: string | null = null;
+
+const getDecryptedRoot = () =>
+  path.join(process.env.FILES_STORAGE || path.resolve('./data'), 'tmp');
+
+const getDecryptedDirectory = () => {
+  if (!decryptedDirectory || !fs.existsSync(decryptedDirectory)) {
+    const root = getDecryptedRoot();
+    fs.mkdirSync(root, { recursive: true });
+    const directory = fs.mkdtempSync(path.join(root, DECRYPTED_DIRECTORY_PREFIX));
+    process.once('exit', () => fs.rmSync(directory, { recursive: true, force: true }));
+    decryptedDirectory = directory;
+  }
+  return decryptedDirectory;
+};
+
+/** 前回までの起動で消し損ねた復号コピーを削除する */
+export const clearStaleDecryptedCopies = () => {
+  const root = getDecryptedRoot();
+  if (!fs.existsSync(root)) return;
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    const directory = path.join(root, entry.name);
+    if (
+      entry.isDirectory() &&
+      entry.name.startsWith(DECRYPTED_DIRECTORY_PREFIX) &&
+      directory !== decryptedDirectory
+    ) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+};
+
+/** 平文のファイルはそのまま、暗号化されたファイルは復号した一時コピーのパスを fn に渡す。コピーは fn が終わったら消す */
+export const withReadableFilePath = async <T>(
+  filePath: string,
+  fn: (readablePath: string) => T | Promise<T>
+): Promise<T> => {
+  const header = readEncryptedFileHeader(filePath);
+  if (!header) return fn(filePath);
+
+  const copyPath = path.join(getDecryptedDirectory(), `${randomUUID()}${path.extname(filePath)}`);
+  try {
+    decryptFile(filePath, copyPath, requireDatasetKey(header.dataSetId));
+    return await fn(copyPath);
+  } finally {
+    fs.rmSync(copyPath, { force: true });
+  }
+};
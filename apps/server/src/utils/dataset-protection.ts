@@ -52,3 +52,101 @@ export function setDatasetAuthCookie(c: Context, datasetId: number, passwordHash
     maxAge: 60 * 60 * 12, // 12 hours
   });
 }
+
+// 共有リンクのパスワードを入力済みかどうかは、リンクごとの Cookie で判定する
+const SHARE_TOKEN_PREFIX = 'share_auth_';
+
+function signShareLinkToken(linkId: number, passwordHash: string): string {
+  const h = crypto.createHmac('sha256', getSecret());
+  h.update(`share:${linkId}:${passwordHash}`);
+  return h.digest('hex');
+}
+
+export function isShareLinkUnlocked(
+  c: Context,
+  linkId: number,
+  passwordHash: string | null
+): boolean {
+  if (!passwordHash) return true;
+  const token = getCookie(c, `${SHARE_TOKEN_PREFIX}${linkId}`);
+  if (!token) return false;
+  const expected = signShareLinkToken(linkId, passwordHash);
+  if (token.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+}
+
+export function setShareLinkAuthCookie(
+  c: Context,
+  linkId: number,
+  shareToken: string,
+  passwordHash: string
+) {
+  setCookie(c, `${SHARE_TOKEN_PREFIX}${linkId}`, signShareLinkToken(linkId, passwordHash), {
+    httpOnly: true,
+    sameSite: 'Lax',
+    path: `/share/${shareToken}`,
+    maxAge: 60 * 60 * 12, // 12 hours
+  });
+}
+
+/** 共有ページが出力したファイル URL だけを配信するための署名 */
+export function signShareFilePath(shareToken: string, relativePath: string): string {
+  const h = crypto.createHmac('sha256', getSecret());
+  h.update(`share-file:${shareToken}:${relativePath}`);
+  return h.digest('hex');
+}
+
+export function verifyShareFilePath(
+  shareToken: string,
+  relativePath: string,
+  signature: string | undefined
+): boolean {
+  if (!signature) return false;
+  const expected = signShareFilePath(shareToken, relativePath);
+  if (signature.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+// 保護されたライブラリの /files URL に付ける署名。パスワードハッシュも鍵に含めるので、
+// パスワードを変えると発行済みの URL は使えなくなる
+const FILE_URL_TTL_SECONDS = 60 * 60 * 12;
+// 有効期限を 1 時間単位に丸め、同じ時間帯は同じ URL にしてブラウザのキャッシュを効かせる
+const FILE_URL_WINDOW_SECONDS = 60 * 60;
+
+function signFileToken(
+  datasetId: number,
+  passwordHash: string,
+  relativePath: string,
+  expires: number
+): string {
+  const h = crypto.createHmac('sha256', getSecret());
+  h.update(`file:${datasetId}:${passwordHash}:${relativePath}:${expires}`);
+  return h.digest('hex');
+}
+
+export function createSignedFileQuery(
+  datasetId: number,
+  passwordHash: string,
+  relativePath: string,
+  now = Date.now()
+): string {
+  const nowSeconds = Math.floor(now / 1000);
+  const expires =
+    Math.ceil((nowSeconds + FILE_URL_TTL_SECONDS) / FILE_URL_WINDOW_SECONDS) *
+    FILE_URL_WINDOW_SECONDS;
+  return `exp=${expires}&sig=${signFileToken(datasetId, passwordHash, relativePath, expires)}`;
+}
+
+export function verifySignedFileQuery(
+  datasetId: number,
+  passwordHash: string,
+  relativePath: string,
+  query: { exp?: string; sig?: string },
+  now = Date.now()
+): boolean {
+  const expires = Number(query.exp);
+  if (!query.sig || !Number.isInteger(expires) || expires * 1000 <= now) return false;
+  const expected = signFileToken(datasetId, passwordHash, relativePath, expires);
+  if (query.sig.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(query.sig), Buffer.from(expected));
+}
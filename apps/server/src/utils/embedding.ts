@@ -0,0 +1,44 @@
+// 画像埋め込みは Float32 のリトルエンディアン BLOB として保存する
+
+export function encodeEmbedding(values: ArrayLike<number>): Uint8Array {
+  const vector = Float32Array.from(values);
+  return new Uint8Array(vector.buffer);
+}
+
+export function decodeEmbedding(blob: Uint8Array): Float32Array {
+  const copy = new Uint8Array(blob.byteLength);
+  copy.set(blob);
+  return new Float32Array(copy.buffer, 0, Math.floor(copy.byteLength / 4));
+}
+
+export function normalizeEmbedding(vector: Float32Array): Float32Array {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  const norm = Math.sqrt(sum);
+  if (!norm) return vector;
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) normalized[i] = vector[i] / norm;
+  return normalized;
+}
+
+/** 正規化済みベクトル同士のコサイン類似度（次元が異なる場合は null） */
+export function cosineSimilarity(left: Float32Array, right: Float32Array): number | null {
+  if (left.length === 0 || left.length !== right.length) return null;
+  let dot = 0;
+  for (let i = 0; i < left.length; i++) dot += left[i] * right[i];
+  return dot;
+}
+
+/** 複数のベクトルの平均を正規化して返す（スタックやコレクションの代表ベクトル） */
+export function averageEmbeddings(vectors: Float32Array[]): Float32Array | null {
+  const dimensions = vectors[0]?.length ?? 0;
+  if (!dimensions) return null;
+  const sum = new Float32Array(dimensions);
+  let count = 0;
+  for (const vector of vectors) {
+    if (vector.length !== dimensions) continue;
+    for (let i = 0; i < dimensions; i++) sum[i] += vector[i];
+    count++;
+  }
+  return count > 0 ? normalizeEmbedding(sum) : null;
+}
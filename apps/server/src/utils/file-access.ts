@@ -0,0 +1,80 @@
+import path from 'node:path';
+import { getStandaloneSqlite, getStandaloneSqlitePath } from '../repositories/sqlite/sqlite';
+import { createSignedFileQuery } from './dataset-protection';
+
+export interface DatasetFileProtection {
+  isProtected: boolean;
+  passwordHash: string | null;
+  /** 新しく書き込むファイルを暗号化するか */
+  encryptionEnabled: boolean;
+}
+
+const UNPROTECTED: DatasetFileProtection = {
+  isProtected: false,
+  passwordHash: null,
+  encryptionEnabled: false,
+};
+
+// パス生成とファイル配信のたびに参照するので、保護状態は短時間だけ覚えておく
+const CACHE_TTL_MS = 5000;
+const protectionCache = new Map<number, DatasetFileProtection & { expiresAt: number }>();
+
+export const getDatasetFileProtection = (dataSetId: number): DatasetFileProtection => {
+  const cached = protectionCache.get(dataSetId);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+  // DB を持たない単体テストなどでは保護なしとして扱う
+  if (!getStandaloneSqlitePath()) return UNPROTECTED;
+
+  const row = getStandaloneSqlite()
+    .prepare('SELECT is_protected, password_hash, encryption_enabled FROM datasets WHERE id = ?')
+    .get(dataSetId) as
+    | { is_protected: number; password_hash: string | null; encryption_enabled: number }
+    | undefined;
+  const protection = {
+    isProtected: row?.is_protected === 1,
+    passwordHash: row?.password_hash ?? null,
+    encryptionEnabled: row?.encryption_enabled === 1,
+  };
+  protectionCache.set(dataSetId, { ...protection, expiresAt: Date.now() + CACHE_TTL_MS });
+  return protection;
+};
+
+/** 保護や暗号化の設定・解除の直後に呼び、古い状態で配信しないようにする */
+export const forgetDatasetFileProtection = (dataSetId: number) => {
+  protectionCache.delete(dataSetId);
+};
+
+/** /files 以下の相対パスが属するライブラリ。ライブラリに属さないパスは null */
+export const getFileDatasetId = (relativePath: string): number | null => {
+  const normalized = path.posix.normalize(relativePath.replace(/^\/+/, ''));
+  const match = normalized.match(/^(?:(?:files|library)\/)*(\d+)\//);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * 実際に配信するファイルが属するライブラリ。URL ではなく解決後のパスをストレージのルートからの
+ * 相対パスにして判定する（どのルートの外にあるファイルもライブラリには属さない）
+ */
+export const getStoredFileDatasetId = (fullPath: string, roots: string[]): number | null => {
+  for (const root of roots) {
+    const relative = path.relative(root, fullPath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+    return getFileDatasetId(relative.split(path.sep).join('/'));
+  }
+  return null;
+};
+
+/** 保護されたライブラリのファイルなら、Cookie なしでも開ける署名付き URL にする */
+export const signPublicFilePath = (publicPath: string): string => {
+  if (!publicPath.startsWith('/files/') || publicPath.includes('?')) return publicPath;
+  const relativePath = publicPath.slice('/files/'.length);
+  const dataSetId = getFileDatasetId(relativePath);
+  if (!dataSetId) return publicPath;
+  const { isProtected, passwordHash } = getDatasetFileProtection(dataSetId);
+  if (!isProtected || !passwordHash) return publicPath;
+  return `${publicPath}?${createSignedFileQuery(dataSetId, passwordHash, relativePath)}`;
+};
+
+/** 署名付き URL からクエリを外し、ストレージ上の相対パスに戻す */
+export const toStorageRelativePath = (publicPath: string) =>
+  publicPath.replace(/[?#].*$/, '').replace(/^\/?files\//, '');
@@ -0,0 +1,214 @@
+import crypto, { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+
+// 暗号化したファイルの形式:
+//   ヘッダー "CBE1" | ライブラリ ID (uint32 BE) | nonce (12 bytes)
+//   本文     64 KiB ごとのチャンクを AES-256-GCM で暗号化し、末尾に 16 bytes のタグを付けたもの
+// チャンク単位で復号できるので、動画の Range リクエストでもファイル全体を読まずに済む
+const MAGIC = Buffer.from('CBE1');
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + 4 + NONCE_BYTES;
+const CHUNK_BYTES = 64 * 1024;
+const SEALED_CHUNK_BYTES = CHUNK_BYTES + TAG_BYTES;
+
+interface EncryptedHeader {
+  dataSetId: number;
+  nonce: Buffer;
+  raw: Buffer;
+}
+
+const createHeader = (dataSetId: number): EncryptedHeader => {
+  const raw = Buffer.alloc(HEADER_BYTES);
+  MAGIC.copy(raw, 0);
+  raw.writeUInt32BE(dataSetId, MAGIC.length);
+  crypto.randomBytes(NONCE_BYTES).copy(raw, MAGIC.length + 4);
+  return { dataSetId, nonce: raw.subarray(MAGIC.length + 4), raw };
+};
+
+const readHeader = (fd: number): EncryptedHeader | null => {
+  const raw = Buffer.alloc(HEADER_BYTES);
+  if (fs.readSync(fd, raw, 0, HEADER_BYTES, 0) !== HEADER_BYTES) return null;
+  if (!raw.subarray(0, MAGIC.length).equals(MAGIC)) return null;
+  return { dataSetId: raw.readUInt32BE(MAGIC.length), nonce: raw.subarray(MAGIC.length + 4), raw };
+};
+
+// チャンクごとに nonce を変え、順番の入れ替えや末尾の切り詰めはタグの検証で弾く
+const chunkNonce = (header: EncryptedHeader, index: number) => {
+  const nonce = Buffer.from(header.nonce);
+  nonce.writeUInt32BE((nonce.readUInt32BE(NONCE_BYTES - 4) ^ index) >>> 0, NONCE_BYTES - 4);
+  return nonce;
+};
+
+const chunkAad = (header: EncryptedHeader, index: number, last: boolean) => {
+  const suffix = Buffer.alloc(5);
+  suffix.writeUInt32BE(index, 0);
+  suffix.writeUInt8(last ? 1 : 0, 4);
+  return Buffer.concat([header.raw, suffix]);
+};
+
+const sealChunk = (
+  key: Buffer,
+  header: EncryptedHeader,
+  index: number,
+  last: boolean,
+  plain: Buffer
+) => {
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, chunkNonce(header, index));
+  cipher.setAAD(chunkAad(header, index, last));
+  return Buffer.concat([cipher.update(plain), cipher.final(), cipher.getAuthTag()]);
+};
+
+const openChunk = (
+  key: Buffer,
+  header: EncryptedHeader,
+  index: number,
+  last: boolean,
+  sealed: Buffer
+) => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, chunkNonce(header, index));
+  decipher.setAAD(chunkAad(header, index, last));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)),
+    decipher.final(),
+  ]);
+};
+
+const countChunks = (plainSize: number) => Math.max(1, Math.ceil(plainSize / CHUNK_BYTES));
+
+/** 暗号化前のファイルサイズ */
+export const getDecryptedSize = (encryptedSize: number) => {
+  const body = encryptedSize - HEADER_BYTES;
+  const fullChunks = Math.floor(body / SEALED_CHUNK_BYTES);
+  const rest = body % SEALED_CHUNK_BYTES;
+  return fullChunks * CHUNK_BYTES + (rest > 0 ? rest - TAG_BYTES : 0);
+};
+
+/** 暗号化されたファイルならヘッダーに記録したライブラリ ID を返す。平文や存在しないファイルは null */
+export const readEncryptedFileHeader = (filePath: string): { dataSetId: number } | null => {
+  let fd: number;
+  try {
+    fd = fs.openSync(filePath, 'r');
+  } catch {
+    return null;
+  }
+  try {
+    const header = readHeader(fd);
+    return header ? { dataSetId: header.dataSetId } : null;
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+const withFile = <T>(filePath: string, run: (fd: number, size: number) => T): T => {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    return run(fd, fs.fstatSync(fd).size);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+const requireHeader = (fd: number, filePath: string) => {
+  const header = readHeader(fd);
+  if (!header) throw new Error(`暗号化されたファイルではありません: ${filePath}`);
+  return header;
+};
+
+/** 復号した内容のうち start〜end バイト目（end を含む）を返す */
+export const readDecryptedRange = (filePath: string, key: Buffer, start: number, end: number) =>
+  withFile(filePath, (fd, encryptedSize) => {
+    const header = requireHeader(fd, filePath);
+    const plainSize = getDecryptedSize(encryptedSize);
+    const last = Math.min(end, plainSize - 1);
+    if (start > last) return Buffer.alloc(0);
+
+    const lastIndex = countChunks(plainSize) - 1;
+    const firstChunk = Math.floor(start / CHUNK_BYTES);
+    const lastChunk = Math.floor(last / CHUNK_BYTES);
+    const parts: Buffer[] = [];
+    const sealed = Buffer.alloc(SEALED_CHUNK_BYTES);
+    for (let index = firstChunk; index <= lastChunk; index++) {
+      const bytesRead = fs.readSync(
+        fd,
+        sealed,
+        0,
+        SEALED_CHUNK_BYTES,
+        HEADER_BYTES + index * SEALED_CHUNK_BYTES
+      );
+      parts.push(openChunk(key, header, index, index === lastIndex, sealed.subarray(0, bytesRead)));
+    }
+    const offset = start - firstChunk * CHUNK_BYTES;
+    return Buffer.concat(parts).subarray(offset, offset + last - start + 1);
+  });
+
+/** 平文のファイルを暗号化して targetPath に書き出す */
+export const encryptFile = (
+  sourcePath: string,
+  targetPath: string,
+  dataSetId: number,
+  key: Buffer
+) =>
+  withFile(sourcePath, (sourceFd, plainSize) => {
+    const header = createHeader(dataSetId);
+    const targetFd = fs.openSync(targetPath, 'w');
+    try {
+      fs.writeSync(targetFd, header.raw);
+      const buffer = Buffer.alloc(CHUNK_BYTES);
+      const chunks = countChunks(plainSize);
+      for (let index = 0; index < chunks; index++) {
+        const bytesRead = fs.readSync(sourceFd, buffer, 0, CHUNK_BYTES, index * CHUNK_BYTES);
+        fs.writeSync(
+          targetFd,
+          sealChunk(key, header, index, index === chunks - 1, buffer.subarray(0, bytesRead))
+        );
+      }
+    } finally {
+      fs.closeSync(targetFd);
+    }
+  });
+
+/** 暗号化されたファイルを復号して targetPath に書き出す */
+export const decryptFile = (sourcePath: string, targetPath: string, key: Buffer) =>
+  withFile(sourcePath, (sourceFd, encryptedSize) => {
+    const header = requireHeader(sourceFd, sourcePath);
+    const chunks = countChunks(getDecryptedSize(encryptedSize));
+    const targetFd = fs.openSync(targetPath, 'w');
+    try {
+      const sealed = Buffer.alloc(SEALED_CHUNK_BYTES);
+      for (let index = 0; index < chunks; index++) {
+        const bytesRead = fs.readSync(
+          sourceFd,
+          sealed,
+          0,
+          SEALED_CHUNK_BYTES,
+          HEADER_BYTES + index * SEALED_CHUNK_BYTES
+        );
+        fs.writeSync(
+          targetFd,
+          openChunk(key, header, index, index === chunks - 1, sealed.subarray(0, bytesRead))
+        );
+      }
+    } finally {
+      fs.closeSync(targetFd);
+    }
+  });
+
+// 書き込み途中で失敗しても元のファイルが壊れないよう、一時ファイルに書いてから置き換える
+const replaceFile = (filePath: string, write: (tempPath: string) => void) => {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    write(tempPath);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+};
+
+export const encryptFileInPlace = (filePath: string, dataSetId: number, key: Buffer) =>
+  replaceFile(filePath, (tempPath) => encryptFile(filePath, tempPath, dataSetId, key));
+
+export const decryptFileInPlace = (filePath: string, key: Buffer) =>
+  replaceFile(filePath, (tempPath) => decryptFile(filePath, tempPath, key));
@@ -60,27 +60,29 @@ const generateImagePreview = async (
     return previewKey;
   }
 
-  const inputPath = DataStorage.getPath(fileKey);
   mkdirpSync(path.dirname(previewPath));
 
   try {
-    await sharp(inputPath, {
-      density: IMAGE_PREVIEW_DENSITY,
-      failOnError: false,
-      sequentialRead: true,
-    })
-      .rotate()
-      .flatten({ background: '#ffffff' })
-      .resize(IMAGE_PREVIEW_MAX_SIZE, IMAGE_PREVIEW_MAX_SIZE, {
-        fit: 'inside',
-        withoutEnlargement: false,
+    await DataStorage.withReadablePath(fileKey, (inputPath) =>
+      sharp(inputPath, {
+        density: IMAGE_PREVIEW_DENSITY,
+        failOnError: false,
+        sequentialRead: true,
       })
-      .png({ compressionLevel: 9 })
-      .toFile(previewPath);
+        .rotate()
+        .flatten({ background: '#ffffff' })
+        .resize(IMAGE_PREVIEW_MAX_SIZE, IMAGE_PREVIEW_MAX_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: false,
+        })
+        .png({ compressionLevel: 9 })
+        .toFile(previewPath)
+    );
 
     if (!fs.existsSync(previewPath)) {
       return null;
     }
+    DataStorage.seal(previewKey);
     return previewKey;
   } catch (error) {
     console.error('Failed to generate image preview via sharp', error);
@@ -114,46 +116,51 @@ export const generateMediaPreview = async (
     return previewKey;
   }
 
-  const inputPath = DataStorage.getPath(fileKey);
   const ffmpeg = getFFMPEGPath();
 
   mkdirpSync(path.dirname(previewPath));
 
-  const args = [
-    '-y',
-    '-hide_banner',
-    '-loglevel',
-    'error',
-    '-i',
-    inputPath,
-    '-c:v',
-    'libx264',
-    '-preset',
-    'veryfast',
-    '-pix_fmt',
-    'yuv420p',
-    '-movflags',
-    'faststart',
-    '-force_key_frames',
-    'expr:gte(t,n_forced*0.5)',
-    '-vf',
-    ensureEvenScale,
-  ];
-
-  const hasAudio = normalizedExt !== 'gif' && probeHasAudioStream(inputPath);
-  if (hasAudio) {
-    args.push('-c:a', 'aac', '-ac', '2', '-ar', '48000', '-b:a', '128k');
-  } else {
-    args.push('-an');
-  }
+  const buildArgs = (inputPath: string) => {
+    const args = [
+      '-y',
+      '-hide_banner',
+      '-loglevel',
+      'error',
+      '-i',
+      inputPath,
+      '-c:v',
+      'libx264',
+      '-preset',
+      'veryfast',
+      '-pix_fmt',
+      'yuv420p',
+      '-movflags',
+      'faststart',
+      '-force_key_frames',
+      'expr:gte(t,n_forced*0.5)',
+      '-vf',
+      ensureEvenScale,
+    ];
+
+    const hasAudio = normalizedExt !== 'gif' && probeHasAudioStream(inputPath);
+    if (hasAudio) {
+      args.push('-c:a', 'aac', '-ac', '2', '-ar', '48000', '-b:a', '128k');
+    } else {
+      args.push('-an');
+    }
 
-  args.push(previewPath);
+    args.push(previewPath);
+    return args;
+  };
 
   try {
-    execFileSync(ffmpeg, args, { stdio: 'ignore' });
+    await DataStorage.withReadablePath(fileKey, (inputPath) => {
+      execFileSync(ffmpeg, buildArgs(inputPath), { stdio: 'ignore' });
+    });
     if (!fs.existsSync(previewPath)) {
       return null;
     }
+    DataStorage.seal(previewKey);
     return previewKey;
   } catch (error) {
     console.error('Failed to generate media preview via ffmpeg', error);
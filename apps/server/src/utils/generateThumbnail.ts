@@ -48,115 +48,117 @@ export async function generateThumbnail(
     // 出力ディレクトリを確実に作成
     mkdirpSync(path.dirname(outputPath));
 
-    const inputPath = DataStorage.getPath(fileKey);
-    try {
-      await sharp(inputPath, { failOnError: false, sequentialRead: true })
-        .rotate() // EXIF Orientation 対応
-        .flatten({ background: '#ffffff' }) // 透過を白で潰す（ある場合）
-        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
-        .jpeg({ quality: THUMBNAIL_QUALITY })
-        .toFile(outputPath);
-    } catch (e) {
-      console.warn(
-        'sharp failed; falling back via ffmpeg transcode',
-        e instanceof Error ? e.message : e
-      );
-      // 破損JPEGなどの救済: ffmpeg でJPEGにデコードしてから sharp でサムネ生成
-      const tmpKey = `${key}.fallback.jpg`;
-      const tmpPath = DataStorage.getPath(tmpKey);
-      mkdirpSync(path.dirname(tmpPath));
-      const ff = getFFMPEGPath();
-      const args = [
-        '-hide_banner',
-        '-loglevel',
-        'error',
-        '-i',
-        inputPath,
-        '-frames:v',
-        '1',
-        tmpPath,
-      ];
+    await DataStorage.withReadablePath(fileKey, async (inputPath) => {
       try {
-        execFileSync(ff, args, { stdio: 'ignore' });
-        await sharp(tmpPath)
+        await sharp(inputPath, { failOnError: false, sequentialRead: true })
+          .rotate() // EXIF Orientation 対応
+          .flatten({ background: '#ffffff' }) // 透過を白で潰す（ある場合）
           .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
           .jpeg({ quality: THUMBNAIL_QUALITY })
           .toFile(outputPath);
-      } finally {
+      } catch (e) {
+        console.warn(
+          'sharp failed; falling back via ffmpeg transcode',
+          e instanceof Error ? e.message : e
+        );
+        // 破損JPEGなどの救済: ffmpeg でJPEGにデコードしてから sharp でサムネ生成
+        const tmpKey = `${key}.fallback.jpg`;
+        const tmpPath = DataStorage.getPath(tmpKey);
+        mkdirpSync(path.dirname(tmpPath));
+        const ff = getFFMPEGPath();
+        const args = [
+          '-hide_banner',
+          '-loglevel',
+          'error',
+          '-i',
+          inputPath,
+          '-frames:v',
+          '1',
+          tmpPath,
+        ];
         try {
-          await DataStorage.delete(tmpKey, dataSetId);
-        } catch {}
+          execFileSync(ff, args, { stdio: 'ignore' });
+          await sharp(tmpPath)
+            .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+            .jpeg({ quality: THUMBNAIL_QUALITY })
+            .toFile(outputPath);
+        } finally {
+          try {
+            await DataStorage.delete(tmpKey, dataSetId);
+          } catch {}
+        }
       }
-    }
+    });
   } else if (type === 'movie') {
     console.log('thumbnail: movie');
     const frameKey = `${key}.frame.jpg`;
     const framePath = DataStorage.getPath(frameKey);
-    const inputPath = DataStorage.getPath(fileKey);
     mkdirpSync(path.dirname(framePath));
 
-    // 1秒以上の動画は t=1s のフレーム、それ未満は2フレーム目を抽出
-    const duration = probeDurationSec(inputPath);
-    const isShort = duration !== null ? duration < 1 : false;
-    const hasRequestedTime = options.videoTimeSeconds !== undefined;
+    await DataStorage.withReadablePath(fileKey, (inputPath) => {
+      // 1秒以上の動画は t=1s のフレーム、それ未満は2フレーム目を抽出
+      const duration = probeDurationSec(inputPath);
+      const isShort = duration !== null ? duration < 1 : false;
+      const hasRequestedTime = options.videoTimeSeconds !== undefined;
 
-    const args = hasRequestedTime
-      ? [
-          '-hide_banner',
-          '-loglevel',
-          'error',
-          '-i',
-          inputPath,
-          '-ss',
-          formatVideoSeekTime(options.videoTimeSeconds ?? 0, duration),
-          '-frames:v',
-          '1',
-          framePath,
-        ]
-      : isShort
+      const args = hasRequestedTime
         ? [
-            '-hide_banner',
-            '-loglevel',
-            'error',
-            '-i',
-            inputPath,
-            '-vf',
-            'select=eq(n,1)',
-            '-frames:v',
-            '1',
-            framePath,
-          ]
-        : [
             '-hide_banner',
             '-loglevel',
             'error',
             '-i',
             inputPath,
             '-ss',
-            '1',
+            formatVideoSeekTime(options.videoTimeSeconds ?? 0, duration),
             '-frames:v',
             '1',
             framePath,
-          ];
+          ]
+        : isShort
+          ? [
+              '-hide_banner',
+              '-loglevel',
+              'error',
+              '-i',
+              inputPath,
+              '-vf',
+              'select=eq(n,1)',
+              '-frames:v',
+              '1',
+              framePath,
+            ]
+          : [
+              '-hide_banner',
+              '-loglevel',
+              'error',
+              '-i',
+              inputPath,
+              '-ss',
+              '1',
+              '-frames:v',
+              '1',
+              framePath,
+            ];
 
-    const ff = getFFMPEGPath();
-    console.log(ff, args.join(' '));
-    try {
-      execFileSync(ff, args, { stdio: 'ignore' });
-    } catch (_error) {
-      // 失敗時に候補パスでもう一度だけ試行
-      const candidates = ['/opt/homebrew/bin/ffmpeg', '/usr/local/bin/ffmpeg', '/usr/bin/ffmpeg'];
-      for (const c of candidates) {
-        if (c === ff) continue;
-        try {
-          execFileSync(c, args, { stdio: 'ignore' });
-          console.log('ffmpeg fallback succeeded with', c);
-          break;
-        } catch {
-          // continue
+      const ff = getFFMPEGPath();
+      console.log(ff, args.join(' '));
+      try {
+        execFileSync(ff, args, { stdio: 'ignore' });
+      } catch (_error) {
+        // 失敗時に候補パスでもう一度だけ試行
+        const candidates = ['/opt/homebrew/bin/ffmpeg', '/usr/local/bin/ffmpeg', '/usr/bin/ffmpeg'];
+        for (const c of candidates) {
+          if (c === ff) continue;
+          try {
+            execFileSync(c, args, { stdio: 'ignore' });
+            console.log('ffmpeg fallback succeeded with', c);
+            break;
+          } catch {
+            // continue
+          }
         }
       }
-    }
+    });
     const outputPath = DataStorage.getPath(key);
     // 出力ディレクトリを確実に作成
     mkdirpSync(path.dirname(outputPath));
@@ -168,5 +170,6 @@ export async function generateThumbnail(
       .toFile(outputPath);
     await DataStorage.delete(frameKey, dataSetId);
   }
+  DataStorage.seal(key);
   return key;
 }
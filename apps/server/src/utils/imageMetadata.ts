@@ -0,0 +1,530 @@
+import fs from 'node:fs';
+import { inflateSync } from 'node:zlib';
+import sharp from 'sharp';
+
+/**
+ * 画像に埋め込まれたメタデータ（EXIF / XMP / IPTC / PNG テキストチャンク）。
+ * 取り込み時に抽出して asset_metadata に保存する。
+ */
+export interface EmbeddedImageMetadata {
+  capturedAt: string | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  lensModel: string | null;
+  software: string | null;
+  artist: string | null;
+  title: string | null;
+  description: string | null;
+  exposureTime: string | null;
+  fNumber: number | null;
+  iso: number | null;
+  focalLength: number | null;
+  gps: { latitude: number; longitude: number; altitude: number | null } | null;
+  keywords: string[];
+  prompt: string | null;
+  /** PNG の tEXt / zTXt / iTXt チャンク（キーワード → テキスト） */
+  textChunks: Record<string, string>;
+}
+
+type Rational = [number, number];
+type IfdValue = string | number | number[] | Rational[] | Buffer;
+
+const MAX_TEXT_CHUNK_LENGTH = 64 * 1024;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const XMP_CHUNK_KEYWORD = 'XML:com.adobe.xmp';
+
+const EXIF_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  7: 1,
+  9: 4,
+  10: 8,
+};
+
+const cleanText = (value: string | null | undefined) => {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: EXIF の ASCII 値は NUL 終端
+  const trimmed = value?.replace(/\u0000+$/g, '').trim();
+  return trimmed ? trimmed : null;
+};
+
+const toNumber = (value: IfdValue | undefined): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const first = value[0];
+  if (typeof first === 'number') return first;
+  return first[1] === 0 ? null : first[0] / first[1];
+};
+
+const roundTo = (value: number | null, digits: number) =>
+  value === null ? null : Number(value.toFixed(digits));
+
+/** "2024:05:01 12:34:56" 形式の日時を ISO 8601 (UTC) にする。時差が無ければ UTC とみなす。 */
+export const parseExifDateTime = (value: string | null, offset?: string | null) => {
+  const match = /^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(
+    value?.trim() ?? ''
+  );
+  if (!match) return null;
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  if (year === '0000' || month === '00' || day === '00') return null;
+  const zone = /^[+-]\d{2}:\d{2}$/.test(offset ?? '') ? offset : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const readIfdValue = (tiff: Buffer, entry: number, little: boolean): IfdValue | undefined => {
+  const readUInt16 = (offset: number) =>
+    little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const readUInt32 = (offset: number) =>
+    little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+  const readInt32 = (offset: number) =>
+    little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset);
+
+  const type = readUInt16(entry + 2);
+  const count = readUInt32(entry + 4);
+  const size = EXIF_TYPE_SIZES[type];
+  if (!size) return undefined;
+  const length = size * count;
+  const start = length <= 4 ? entry + 8 : readUInt32(entry + 8);
+  if (start + length > tiff.length) return undefined;
+
+  switch (type) {
+    case 2:
+      return tiff.toString('latin1', start, start + length);
+    case 7:
+      return tiff.subarray(start, start + length);
+    case 1:
+      return Array.from(tiff.subarray(start, start + count));
+    case 3:
+      return Array.from({ length: count }, (_, index) => readUInt16(start + index * 2));
+    case 4:
+      return Array.from({ length: count }, (_, index) => readUInt32(start + index * 4));
+    case 9:
+      return Array.from({ length: count }, (_, index) => readInt32(start + index * 4));
+    case 5:
+    case 10: {
+      const read = type === 5 ? readUInt32 : readInt32;
+      return Array.from(
+        { length: count },
+        (_, index) => [read(start + index * 8), read(start + index * 8 + 4)] as Rational
+      );
+    }
+  }
+  return undefined;
+};
+
+const readIfd = (tiff: Buffer, offset: number, little: boolean) => {
+  const values = new Map<number, IfdValue>();
+  if (offset <= 0 || offset + 2 > tiff.length) return values;
+  const count = little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  for (let index = 0; index < count; index++) {
+    const entry = offset + 2 + index * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = little ? tiff.readUInt16LE(entry) : tiff.readUInt16BE(entry);
+    const value = readIfdValue(tiff, entry, little);
+    if (value !== undefined) values.set(tag, value);
+  }
+  return values;
+};
+
+/** EXIF の UserComment は先頭 8 バイトで文字コードを示す */
+const decodeUserComment = (value: IfdValue | undefined) => {
+  if (!Buffer.isBuffer(value) || value.length <= 8) return null;
+  const prefix = value.toString('latin1', 0, 8).replace(/\0/g, '').trim().toUpperCase();
+  const body = value.subarray(8);
+  if (prefix === 'UNICODE') {
+    // バイト順の指定が無いため、先頭が 0x00 なら BE とみなす
+    const bigEndian = body.length >= 2 && body[0] === 0 && body[1] !== 0;
+    const bytes = bigEndian ? Buffer.from(body).swap16() : body;
+    return cleanText(bytes.subarray(0, bytes.length - (bytes.length % 2)).toString('utf16le'));
+  }
+  return cleanText(body.toString('utf8'));
+};
+
+const formatExposureTime = (value: IfdValue | undefined) => {
+  if (!Array.isArray(value) || value.length === 0 || typeof value[0] === 'number') return null;
+  const [numerator, denominator] = value[0] as Rational;
+  if (!numerator || !denominator) return null;
+  if (numerator >= denominator) return `${roundTo(numerator / denominator, 1)}`;
+  return `1/${Math.round(denominator / numerator)}`;
+};
+
+const toCoordinate = (value: IfdValue | undefined, ref: IfdValue | undefined) => {
+  if (!Array.isArray(value) || value.length < 3 || typeof value[0] === 'number') return null;
+  const [degrees, minutes, seconds] = (value as Rational[]).map(([n, d]) => (d === 0 ? 0 : n / d));
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  const sign = typeof ref === 'string' && /^[SW]/i.test(ref.trim()) ? -1 : 1;
+  return roundTo(decimal * sign, 6);
+};
+
+export interface ExifFields {
+  capturedAt: string | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  lensModel: string | null;
+  software: string | null;
+  artist: string | null;
+  description: string | null;
+  exposureTime: string | null;
+  fNumber: number | null;
+  iso: number | null;
+  focalLength: number | null;
+  gps: EmbeddedImageMetadata['gps'];
+  userComment: string | null;
+}
+
+/** EXIF（"Exif\0\0" 付きでも TIFF ヘッダーからでも可）を読む */
+export const parseExif = (buffer: Buffer | undefined): ExifFields | null => {
+  if (!buffer || buffer.length < 8) return null;
+  const tiff = buffer.toString('latin1', 0, 6) === 'Exif\0\0' ? buffer.subarray(6) : buffer;
+  const order = tiff.toString('latin1', 0, 2);
+  if (order !== 'II' && order !== 'MM') return null;
+  const little = order === 'II';
+
+  try {
+    const ifd0 = readIfd(tiff, little ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4), little);
+    const exif = readIfd(tiff, toNumber(ifd0.get(0x8769)) ?? 0, little);
+    const gpsIfd = readIfd(tiff, toNumber(ifd0.get(0x8825)) ?? 0, little);
+    const text = (value: IfdValue | undefined) =>
+      typeof value === 'string' ? cleanText(value) : null;
+
+    const latitude = toCoordinate(gpsIfd.get(2), gpsIfd.get(1));
+    const longitude = toCoordinate(gpsIfd.get(4), gpsIfd.get(3));
+    const altitude = toNumber(gpsIfd.get(6));
+    const altitudeRef = toNumber(gpsIfd.get(5));
+
+    return {
+      capturedAt:
+        parseExifDateTime(text(exif.get(0x9003)), text(exif.get(0x9011))) ??
+        parseExifDateTime(text(exif.get(0x9004)), text(exif.get(0x9012))) ??
+        parseExifDateTime(text(ifd0.get(0x0132)), text(exif.get(0x9010))),
+      cameraMake: text(ifd0.get(0x010f)),
+      cameraModel: text(ifd0.get(0x0110)),
+      lensModel: text(exif.get(0xa434)),
+      software: text(ifd0.get(0x0131)),
+      artist: text(ifd0.get(0x013b)),
+      description: text(ifd0.get(0x010e)),
+      exposureTime: formatExposureTime(exif.get(0x829a)),
+      fNumber: roundTo(toNumber(exif.get(0x829d)), 1),
+      iso: toNumber(exif.get(0x8827)),
+      focalLength: roundTo(toNumber(exif.get(0x920a)), 1),
+      gps:
+        latitude !== null && longitude !== null
+          ? {
+              latitude,
+              longitude,
+              altitude: altitude === null ? null : roundTo(altitude * (altitudeRef ? -1 : 1), 1),
+            }
+          : null,
+      userComment: decodeUserComment(exif.get(0x9286)),
+    };
+  } catch {
+    return null;
+  }
+};
+
+const decodeXmlEntities = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** XMP の値は属性・単純要素・rdf:Bag / Seq / Alt のいずれでも書けるため、すべて配列で返す */
+const readXmpValues = (xml: string, name: string) => {
+  const escaped = escapeRegExp(name);
+  const attribute = new RegExp(`\\s${escaped}="([^"]*)"`).exec(xml);
+  if (attribute) return [decodeXmlEntities(attribute[1])];
+
+  const element = new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`).exec(xml);
+  if (!element) return [];
+  const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)].map(
+    (match) => match[1]
+  );
+  return (items.length > 0 ? items : [element[1]])
+    .map((item) => decodeXmlEntities(item).trim())
+    .filter((item) => item.length > 0);
+};
+
+export interface XmpFields {
+  capturedAt: string | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  lensModel: string | null;
+  software: string | null;
+  artist: string | null;
+  title: string | null;
+  description: string | null;
+  keywords: string[];
+}
+
+export const parseXmp = (buffer: Buffer | string | undefined): XmpFields | null => {
+  if (!buffer) return null;
+  const xml = typeof buffer === 'string' ? buffer : buffer.toString('utf8');
+  if (!xml.includes('<x:xmpmeta') && !xml.includes('<rdf:RDF')) return null;
+  const first = (...names: string[]) => {
+    for (const name of names) {
+      const value = cleanText(readXmpValues(xml, name)[0]);
+      if (value) return value;
+    }
+    return null;
+  };
+
+  const date = first('exif:DateTimeOriginal', 'photoshop:DateCreated', 'xmp:CreateDate');
+  return {
+    capturedAt: date
+      ? Number.isNaN(Date.parse(date))
+        ? null
+        : new Date(date).toISOString()
+      : null,
+    cameraMake: first('tiff:Make'),
+    cameraModel: first('tiff:Model'),
+    lensModel: first('exifEX:LensModel', 'aux:Lens'),
+    software: first('xmp:CreatorTool'),
+    artist: first('dc:creator'),
+    title: first('dc:title'),
+    description: first('dc:description'),
+    keywords: readXmpValues(xml, 'dc:subject'),
+  };
+};
+
+export interface IptcFields {
+  capturedAt: string | null;
+  artist: string | null;
+  title: string | null;
+  description: string | null;
+  keywords: string[];
+}
+
+/** IPTC-IIM のデータセット（record 2）を読む。Photoshop の 8BIM リソースに包まれていてもよい */
+const readIimDatasets = (buffer: Buffer) => {
+  const datasets: Array<{ dataset: number; value: string }> = [];
+  let offset = 0;
+  while (offset + 5 <= buffer.length) {
+    if (buffer[offset] !== 0x1c) {
+      offset++;
+      continue;
+    }
+    const record = buffer[offset + 1];
+    const dataset = buffer[offset + 2];
+    const size = buffer.readUInt16BE(offset + 3);
+    // 拡張長（最上位ビット）は巨大なデータセットにしか使われないので読まない
+    if (size & 0x8000) break;
+    const start = offset + 5;
+    if (start + size > buffer.length) break;
+    if (record === 2)
+      datasets.push({ dataset, value: buffer.toString('utf8', start, start + size) });
+    offset = start + size;
+  }
+  return datasets;
+};
+
+const findIptcResource = (buffer: Buffer) => {
+  let offset = buffer.indexOf('8BIM', 0, 'latin1');
+  while (offset !== -1 && offset + 12 <= buffer.length) {
+    const id = buffer.readUInt16BE(offset + 4);
+    const nameLength = buffer[offset + 6];
+    const nameSize = nameLength + 1 + ((nameLength + 1) % 2);
+    const sizeOffset = offset + 6 + nameSize;
+    if (sizeOffset + 4 > buffer.length) return null;
+    const size = buffer.readUInt32BE(sizeOffset);
+    const start = sizeOffset + 4;
+    if (id === 0x0404) return buffer.subarray(start, Math.min(start + size, buffer.length));
+    offset = buffer.indexOf('8BIM', start + size + (size % 2), 'latin1');
+  }
+  return null;
+};
+
+export const parseIptc = (buffer: Buffer | undefined): IptcFields | null => {
+  if (!buffer || buffer.length < 5) return null;
+  const iim = buffer[0] === 0x1c ? buffer : findIptcResource(buffer);
+  if (!iim) return null;
+  const datasets = readIimDatasets(iim);
+  if (datasets.length === 0) return null;
+  const first = (dataset: number) =>
+    cleanText(datasets.find((item) => item.dataset === dataset)?.value);
+
+  const date = /^(\d{4})(\d{2})(\d{2})$/.exec(first(55) ?? '');
+  const time = /^(\d{2})(\d{2})(\d{2})([+-]\d{2})?(\d{2})?/.exec(first(60) ?? '');
+  return {
+    capturedAt: date
+      ? parseExifDateTime(
+          `${date[1]}:${date[2]}:${date[3]} ${time ? `${time[1]}:${time[2]}:${time[3]}` : ''}`,
+          time?.[4] ? `${time[4]}:${time[5] ?? '00'}` : null
+        )
+      : null,
+    artist: first(80),
+    title: first(5),
+    description: first(120),
+    keywords: datasets
+      .filter((item) => item.dataset === 25)
+      .map((item) => item.value.trim())
+      .filter((item) => item.length > 0),
+  };
+};
+
+/** PNG の tEXt / zTXt / iTXt チャンクを読む。IDAT は読み飛ばす */
+export const readPngTextChunks = (filePath: string) => {
+  const chunks: Record<string, string> = {};
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const { size } = fs.fstatSync(fd);
+    const header = Buffer.alloc(8);
+    if (fs.readSync(fd, header, 0, 8, 0) !== 8 || !header.equals(PNG_SIGNATURE)) return chunks;
+
+    let position = 8;
+    while (position + 8 <= size) {
+      fs.readSync(fd, header, 0, 8, position);
+      const length = header.readUInt32BE(0);
+      const type = header.toString('latin1', 4, 8);
+      const dataStart = position + 8;
+      position = dataStart + length + 4;
+      if (type === 'IEND' || position > size) break;
+      if (type !== 'tEXt' && type !== 'zTXt' && type !== 'iTXt') continue;
+
+      const data = Buffer.alloc(length);
+      fs.readSync(fd, data, 0, length, dataStart);
+      const parsed = parsePngTextChunk(type, data);
+      if (parsed && !(parsed.keyword in chunks)) {
+        chunks[parsed.keyword] = parsed.text.slice(0, MAX_TEXT_CHUNK_LENGTH);
+      }
+    }
+  } catch {
+    // 壊れたチャンクがあってもそこまでに読めた分は返す
+  } finally {
+    fs.closeSync(fd);
+  }
+  return chunks;
+};
+
+const parsePngTextChunk = (type: string, data: Buffer) => {
+  const separator = data.indexOf(0);
+  if (separator <= 0) return null;
+  const keyword = data.toString('latin1', 0, separator);
+  try {
+    if (type === 'tEXt') return { keyword, text: data.toString('latin1', separator + 1) };
+    if (type === 'zTXt') {
+      return { keyword, text: inflateSync(data.subarray(separator + 2)).toString('latin1') };
+    }
+    const compressed = data[separator + 1] === 1;
+    const languageEnd = data.indexOf(0, separator + 3);
+    const translatedEnd = languageEnd === -1 ? -1 : data.indexOf(0, languageEnd + 1);
+    if (translatedEnd === -1) return null;
+    const body = data.subarray(translatedEnd + 1);
+    return { keyword, text: (compressed ? inflateSync(body) : body).toString('utf8') };
+  } catch {
+    return null;
+  }
+};
+
+/** ComfyUI の prompt チャンク（ノードグラフの JSON）からテキスト入力を集める */
+const readComfyPrompt = (value: string | undefined) => {
+  if (!value) return null;
+  try {
+    const graph = JSON.parse(value) as Record<string, { inputs?: Record<string, unknown> }>;
+    const texts = Object.values(graph)
+      .flatMap((node) => Object.values(node?.inputs ?? {}))
+      .filter((input): input is string => typeof input === 'string' && /\s/.test(input.trim()));
+    return texts.length > 0 ? texts.join('\n') : null;
+  } catch {
+    return null;
+  }
+};
+
+/** NovelAI は Comment チャンクに JSON で prompt を入れる */
+const readJsonPrompt = (value: string | undefined) => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as { prompt?: unknown };
+    return typeof parsed.prompt === 'string' ? cleanText(parsed.prompt) : null;
+  } catch {
+    return null;
+  }
+};
+
+const looksLikeGenerationParameters = (value: string | null) =>
+  Boolean(value && /(?:^|\n)(?:Negative prompt:|Steps: \d+)/.test(value));
+
+/** 生成パラメータ（A1111 / ComfyUI / NovelAI）からプロンプト文字列を決める */
+export const resolveGenerationPrompt = (
+  textChunks: Record<string, string>,
+  userComment: string | null
+) =>
+  cleanText(textChunks.parameters) ??
+  readComfyPrompt(textChunks.prompt) ??
+  readJsonPrompt(textChunks.Comment) ??
+  (textChunks.Software?.includes('NovelAI') ? cleanText(textChunks.Description) : null) ??
+  (looksLikeGenerationParameters(userComment) ? userComment : null);
+
+const uniqueKeywords = (...lists: string[][]) => {
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+  for (const keyword of lists.flat()) {
+    const key = keyword.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    keywords.push(keyword);
+  }
+  return keywords;
+};
+
+export const hasEmbeddedMetadata = (metadata: EmbeddedImageMetadata) =>
+  Object.entries(metadata).some(([, value]) =>
+    Array.isArray(value)
+      ? value.length > 0
+      : value && typeof value === 'object'
+        ? Object.keys(value).length > 0
+        : value !== null
+  );
+
+/**
+ * 画像ファイルから埋め込みメタデータを読む。読めない形式や壊れたファイルは null。
+ * EXIF / XMP / IPTC は sharp から、PNG のテキストチャンクはファイルから直接読む。
+ */
+export async function readEmbeddedImageMetadata(
+  filePath: string
+): Promise<EmbeddedImageMetadata | null> {
+  let sharpMetadata: sharp.Metadata;
+  try {
+    sharpMetadata = await sharp(filePath, { failOnError: false, sequentialRead: true }).metadata();
+  } catch {
+    return null;
+  }
+
+  const textChunks = sharpMetadata.format === 'png' ? readPngTextChunks(filePath) : {};
+  const xmpText = textChunks[XMP_CHUNK_KEYWORD];
+  delete textChunks[XMP_CHUNK_KEYWORD];
+
+  const exif = parseExif(sharpMetadata.exif);
+  const xmp = parseXmp(sharpMetadata.xmp ?? xmpText);
+  const iptc = parseIptc(sharpMetadata.iptc);
+
+  const metadata: EmbeddedImageMetadata = {
+    capturedAt: exif?.capturedAt ?? xmp?.capturedAt ?? iptc?.capturedAt ?? null,
+    cameraMake: exif?.cameraMake ?? xmp?.cameraMake ?? null,
+    cameraModel: exif?.cameraModel ?? xmp?.cameraModel ?? null,
+    lensModel: exif?.lensModel ?? xmp?.lensModel ?? null,
+    software: exif?.software ?? xmp?.software ?? cleanText(textChunks.Software) ?? null,
+    artist: exif?.artist ?? xmp?.artist ?? iptc?.artist ?? cleanText(textChunks.Author) ?? null,
+    title: xmp?.title ?? iptc?.title ?? cleanText(textChunks.Title) ?? null,
+    description: exif?.description ?? xmp?.description ?? iptc?.description ?? null,
+    exposureTime: exif?.exposureTime ?? null,
+    fNumber: exif?.fNumber ?? null,
+    iso: exif?.iso ?? null,
+    focalLength: exif?.focalLength ?? null,
+    gps: exif?.gps ?? null,
+    keywords: uniqueKeywords(iptc?.keywords ?? [], xmp?.keywords ?? []),
+    prompt: resolveGenerationPrompt(textChunks, exif?.userComment ?? null),
+    textChunks,
+  };
+  return hasEmbeddedMetadata(metadata) ? metadata : null;
+}
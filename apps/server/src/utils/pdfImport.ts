@@ -264,11 +264,14 @@ export const preparePdfImport = async (
   if (!fs.existsSync(originalPath)) {
     fs.copyFileSync(file.path, originalPath);
     copiedOriginal = true;
+    DataStorage.seal(originalKey);
   }
 
   const outputDir = createTempDir();
   try {
-    await runPdftocairo(originalPath, outputDir, dpi);
+    await DataStorage.withReadablePath(originalKey, (readablePath) =>
+      runPdftocairo(readablePath, outputDir, dpi)
+    );
     const rasterizedPages = collectRasterizedPages(outputDir);
     if (rasterizedPages.length === 0) {
       throw new Error('PDFからページ画像を生成できませんでした');
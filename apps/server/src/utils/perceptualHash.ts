@@ -0,0 +1,49 @@
+import sharp from 'sharp';
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * 64bit の dHash（隣接ピクセルの輝度差）を 16 桁の16進文字列で返す。
+ * 再エンコードや縮小されたコピーでもほぼ同じ値になる。
+ */
+export async function computeDifferenceHash(filePath: string): Promise<string> {
+  const pixels = await sharp(filePath, { failOnError: false, sequentialRead: true })
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+const popcount32 = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+};
+
+export interface ParsedHash {
+  high: number;
+  low: number;
+}
+
+export const parseHash = (hash: string): ParsedHash => ({
+  high: Number.parseInt(hash.slice(0, 8), 16) | 0,
+  low: Number.parseInt(hash.slice(8, 16), 16) | 0,
+});
+
+export const hammingDistance = (a: ParsedHash, b: ParsedHash) =>
+  popcount32(a.high ^ b.high) + popcount32(a.low ^ b.low);
@@ -0,0 +1,172 @@
+import { execFile } from 'node:child_process';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { mkdirpSync } from 'fs-extra';
+import sharp from 'sharp';
+import { getFFMPEGPath } from './ffmpeg';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_SCENE_SENSITIVITY = 0.5;
+// これより短いシーンは直前のシーンにまとめる（フラッシュ等での誤検出対策）
+const MIN_SCENE_DURATION_SEC = 1;
+const STRIP_FRAME_WIDTH = 160;
+const STRIP_FRAME_HEIGHT = 90;
+const MAX_STRIP_FRAMES = 200;
+
+export interface SceneStripInfo {
+  frameWidth: number;
+  frameHeight: number;
+  /** ストリップの各コマに対応する秒数（左から順） */
+  times: number[];
+}
+
+/**
+ * 感度 (0〜1) を ffmpeg の scene スコアの閾値へ変換する。
+ * 感度が高いほど閾値が下がり、細かい切り替わりも拾う。
+ */
+export const sceneThresholdFromSensitivity = (sensitivity: number) => {
+  const clamped = Number.isFinite(sensitivity) ? Math.min(1, Math.max(0, sensitivity)) : 0.5;
+  return Number((0.6 - clamped * 0.5).toFixed(3));
+};
+
+/** showinfo フィルタのログから、選ばれたフレームの pts_time を取り出す */
+export const parseSceneChangeTimes = (log: string): number[] => {
+  const times: number[] = [];
+  for (const line of log.split(/\r?\n/)) {
+    if (!line.includes('Parsed_showinfo')) continue;
+    const match = line.match(/pts_time:\s*(-?\d+(?:\.\d+)?)/);
+    if (!match) continue;
+    const time = Number.parseFloat(match[1]);
+    if (Number.isFinite(time) && time >= 0) times.push(time);
+  }
+  return times.sort((a, b) => a - b);
+};
+
+/** 先頭 (0 秒) を含むシーン開始位置の一覧にし、短すぎるシーンを間引く */
+export const toSceneStartTimes = (
+  changeTimes: number[],
+  minSceneDuration = MIN_SCENE_DURATION_SEC
+): number[] => {
+  const starts = [0];
+  for (const time of changeTimes) {
+    const rounded = Math.round(time * 1000) / 1000;
+    if (rounded - starts[starts.length - 1] >= minSceneDuration) starts.push(rounded);
+  }
+  return starts;
+};
+
+/**
+ * 既存マーカーのうち自動検出したシーンマーカーだけを差し替える。
+ * 手で置いたマーカーはそのまま残す。
+ */
+export const mergeSceneMarkers = (existing: unknown, sceneTimes: number[]) => {
+  const kept = (Array.isArray(existing) ? existing : []).filter(
+    (marker) =>
+      typeof marker === 'object' &&
+      marker !== null &&
+      (marker as { type?: unknown }).type !== 'scene'
+  ) as Array<{ time: number }>;
+  const scenes = sceneTimes
+    .filter((time) => time > 0)
+    .map((time) => ({ time, color: 'light-gray', label: '', type: 'scene' }));
+  return [...kept, ...scenes].sort((a, b) => Number(a.time) - Number(b.time));
+};
+
+export const detectSceneStartTimes = async (
+  inputPath: string,
+  sensitivity = DEFAULT_SCENE_SENSITIVITY
+): Promise<number[]> => {
+  const threshold = sceneThresholdFromSensitivity(sensitivity);
+  const { stderr } = await execFileAsync(
+    getFFMPEGPath(),
+    [
+      '-hide_banner',
+      '-nostats',
+      '-i',
+      inputPath,
+      '-an',
+      '-vf',
+      `select='gt(scene,${threshold})',showinfo`,
+      '-f',
+      'null',
+      '-',
+    ],
+    { maxBuffer: 64 * 1024 * 1024 }
+  );
+  return toSceneStartTimes(parseSceneChangeTimes(String(stderr)));
+};
+
+const extractFrameAt = async (inputPath: string, time: number) => {
+  const { stdout } = await execFileAsync(
+    getFFMPEGPath(),
+    [
+      '-hide_banner',
+      '-loglevel',
+      'error',
+      '-ss',
+      time.toFixed(3),
+      '-i',
+      inputPath,
+      '-frames:v',
+      '1',
+      '-f',
+      'image2pipe',
+      '-vcodec',
+      'png',
+      'pipe:1',
+    ],
+    { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024 }
+  );
+  return stdout;
+};
+
+/** シーン数が多いときはストリップのコマを均等に間引く */
+const pickStripTimes = (sceneTimes: number[]) => {
+  if (sceneTimes.length <= MAX_STRIP_FRAMES) return sceneTimes;
+  const step = sceneTimes.length / MAX_STRIP_FRAMES;
+  return Array.from({ length: MAX_STRIP_FRAMES }, (_, i) => sceneTimes[Math.floor(i * step)]);
+};
+
+/**
+ * シーンごとのキーフレームを横一列に並べた JPEG を書き出す。
+ * 取り出せなかったコマは黒で埋める。
+ */
+export const generateSceneStrip = async (
+  inputPath: string,
+  sceneTimes: number[],
+  outputPath: string
+): Promise<SceneStripInfo | null> => {
+  const times = pickStripTimes(sceneTimes);
+  if (times.length === 0) return null;
+
+  const composites: sharp.OverlayOptions[] = [];
+  for (const [index, time] of times.entries()) {
+    try {
+      const frame = await extractFrameAt(inputPath, time);
+      if (frame.length === 0) continue;
+      const input = await sharp(frame)
+        .resize(STRIP_FRAME_WIDTH, STRIP_FRAME_HEIGHT, { fit: 'cover' })
+        .toBuffer();
+      composites.push({ input, left: index * STRIP_FRAME_WIDTH, top: 0 });
+    } catch (error) {
+      console.error(`Failed to extract scene frame at ${time}s`, error);
+    }
+  }
+  if (composites.length === 0) return null;
+
+  mkdirpSync(path.dirname(outputPath));
+  await sharp({
+    create: {
+      width: STRIP_FRAME_WIDTH * times.length,
+      height: STRIP_FRAME_HEIGHT,
+      channels: 3,
+      background: '#000000',
+    },
+  })
+    .composite(composites)
+    .jpeg({ quality: 80 })
+    .toFile(outputPath);
+
+  return { frameWidth: STRIP_FRAME_WIDTH, frameHeight: STRIP_FRAME_HEIGHT, times };
+};
@@ -0,0 +1,188 @@
+// 共有リンクの閲覧ページ。アカウントを持たない相手向けなので、SPA を使わず最小限の HTML を返す
+
+type Language = 'en' | 'ja';
+
+const COPY = {
+  en: {
+    passwordTitle: 'This link is password protected',
+    passwordLabel: 'Password',
+    passwordSubmit: 'View',
+    passwordError: 'The password is incorrect.',
+    notFound: 'This link does not exist.',
+    expired: 'This link has expired.',
+    revoked: 'This link is no longer available.',
+    items: (count: number) => `${count} ${count === 1 ? 'item' : 'items'}`,
+    pages: (count: number) => `${count} ${count === 1 ? 'page' : 'pages'}`,
+    previous: 'Previous',
+    next: 'Next',
+    back: 'Back',
+    downloadOriginal: 'Download original',
+    sharedWith: 'Shared from Caramel Board',
+  },
+  ja: {
+    passwordTitle: 'このリンクはパスワードで保護されています',
+    passwordLabel: 'パスワード',
+    passwordSubmit: '表示',
+    passwordError: 'パスワードが違います。',
+    notFound: 'このリンクは存在しません。',
+    expired: 'このリンクは有効期限が切れています。',
+    revoked: 'このリンクは無効になりました。',
+    items: (count: number) => `${count} 件`,
+    pages: (count: number) => `${count} ページ`,
+    previous: '前へ',
+    next: '次へ',
+    back: '戻る',
+    downloadOriginal: 'オリジナルをダウンロード',
+    sharedWith: 'Caramel Board で共有',
+  },
+};
+
+export type ShareViewerCopy = (typeof COPY)[Language];
+
+export const getShareViewerCopy = (): ShareViewerCopy =>
+  COPY[process.env.CARAMEL_UI_LANGUAGE === 'ja' ? 'ja' : 'en'];
+
+export const escapeHtml = (value: string) =>
+  value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+
+const STYLE = `
+  :root { color-scheme: light dark; font-family: system-ui, sans-serif; }
+  body { margin: 0; background: #f8f8f7; color: #1f1f1f; }
+  @media (prefers-color-scheme: dark) { body { background: #151515; color: #eee; } }
+  header { padding: 24px 24px 8px; }
+  h1 { margin: 0; font-size: 1.5rem; }
+  .meta { margin-top: 4px; font-size: 0.875rem; opacity: 0.6; }
+  main { padding: 16px 24px 40px; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 12px; }
+  .card { display: block; color: inherit; text-decoration: none; }
+  .card img { width: 100%; aspect-ratio: 1; object-fit: cover; border-radius: 8px; background: #8882; }
+  .card span { display: block; margin-top: 4px; font-size: 0.8125rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .assets { display: flex; flex-direction: column; align-items: center; gap: 24px; }
+  .asset img, .asset video { display: block; max-width: 100%; max-height: 90vh; margin: 0 auto; border-radius: 4px; }
+  .asset a { display: inline-block; margin-top: 6px; font-size: 0.8125rem; color: inherit; opacity: 0.7; }
+  nav.pager { display: flex; justify-content: center; gap: 16px; margin-top: 24px; }
+  nav.pager a, .back { color: inherit; }
+  .notice { max-width: 360px; margin: 20vh auto 0; padding: 0 24px; text-align: center; }
+  .notice input { width: 100%; box-sizing: border-box; padding: 8px; margin: 12px 0 8px; font-size: 1rem; }
+  .notice button { padding: 8px 20px; font-size: 1rem; }
+  .error { color: #c0392b; font-size: 0.875rem; }
+  footer { padding: 0 24px 24px; font-size: 0.75rem; opacity: 0.5; text-align: center; }
+`;
+
+const layout = (title: string, body: string, copy: ShareViewerCopy) => `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+<footer>${escapeHtml(copy.sharedWith)}</footer>
+</body>
+</html>`;
+
+export const renderSharePasswordPage = (
+  copy: ShareViewerCopy,
+  options: { action: string; failed?: boolean }
+) =>
+  layout(
+    copy.passwordTitle,
+    `<form class="notice" method="post" action="${escapeHtml(options.action)}">
+  <p>${escapeHtml(copy.passwordTitle)}</p>
+  <input type="password" name="password" aria-label="${escapeHtml(copy.passwordLabel)}" placeholder="${escapeHtml(copy.passwordLabel)}" autofocus required>
+  ${options.failed ? `<p class="error">${escapeHtml(copy.passwordError)}</p>` : ''}
+  <button type="submit">${escapeHtml(copy.passwordSubmit)}</button>
+</form>`,
+    copy
+  );
+
+export const renderShareUnavailablePage = (
+  copy: ShareViewerCopy,
+  status: 'not-found' | 'expired' | 'revoked'
+) => {
+  const message =
+    status === 'expired' ? copy.expired : status === 'revoked' ? copy.revoked : copy.notFound;
+  return layout(message, `<div class="notice"><p>${escapeHtml(message)}</p></div>`, copy);
+};
+
+export interface ShareGridItem {
+  href: string;
+  thumbnail: string;
+  name: string;
+}
+
+export const renderShareGridPage = (
+  copy: ShareViewerCopy,
+  options: {
+    title: string;
+    total: number;
+    items: ShareGridItem[];
+    previousHref?: string;
+    nextHref?: string;
+  }
+) => {
+  const cards = options.items
+    .map(
+      (item) => `<a class="card" href="${escapeHtml(item.href)}">
+  <img src="${escapeHtml(item.thumbnail)}" alt="" loading="lazy">
+  <span>${escapeHtml(item.name)}</span>
+</a>`
+    )
+    .join('\n');
+  const pager =
+    options.previousHref || options.nextHref
+      ? `<nav class="pager">
+  ${options.previousHref ? `<a href="${escapeHtml(options.previousHref)}">${escapeHtml(copy.previous)}</a>` : ''}
+  ${options.nextHref ? `<a href="${escapeHtml(options.nextHref)}">${escapeHtml(copy.next)}</a>` : ''}
+</nav>`
+      : '';
+  return layout(
+    options.title,
+    `<header><h1>${escapeHtml(options.title)}</h1><div class="meta">${escapeHtml(copy.items(options.total))}</div></header>
+<main><div class="grid">${cards}</div>${pager}</main>`,
+    copy
+  );
+};
+
+export interface ShareAssetItem {
+  kind: 'image' | 'video';
+  src: string;
+  poster?: string;
+  originalHref?: string;
+}
+
+export const renderShareStackPage = (
+  copy: ShareViewerCopy,
+  options: { title: string; author?: string | null; backHref?: string; assets: ShareAssetItem[] }
+) => {
+  const assets = options.assets
+    .map((asset) => {
+      const media =
+        asset.kind === 'video'
+          ? `<video src="${escapeHtml(asset.src)}"${asset.poster ? ` poster="${escapeHtml(asset.poster)}"` : ''} controls preload="metadata"></video>`
+          : `<img src="${escapeHtml(asset.src)}" alt="" loading="lazy">`;
+      const download = asset.originalHref
+        ? `<a href="${escapeHtml(asset.originalHref)}" download>${escapeHtml(copy.downloadOriginal)}</a>`
+        : '';
+      return `<div class="asset">${media}${download}</div>`;
+    })
+    .join('\n');
+  const meta = [options.author, copy.pages(options.assets.length)].filter(Boolean).join(' · ');
+  const back = options.backHref
+    ? `<a class="back" href="${escapeHtml(options.backHref)}">← ${escapeHtml(copy.back)}</a>`
+    : '';
+  return layout(
+    options.title,
+    `<header>${back}<h1>${escapeHtml(options.title)}</h1><div class="meta">${escapeHtml(meta)}</div></header>
+<main><div class="assets">${assets}</div></main>`,
+    copy
+  );
+};
@@ -0,0 +1,212 @@
+import fs from 'node:fs';
+import { Readable } from 'node:stream';
+
+// ライブラリのアーカイブ用の最小限の tar (ustar + pax) 実装。
+// 書き出しはストリーミング、読み込みはいったんファイルに保存してから行う。
+
+const BLOCK_SIZE = 512;
+const MAX_USTAR_NAME_BYTES = 100;
+const MAX_USTAR_SIZE = 0o77777777777;
+
+export interface TarEntry {
+  name: string;
+  size: number;
+  mtime?: Date;
+  source: () => Readable | Buffer;
+}
+
+export interface TarFileEntry {
+  name: string;
+  size: number;
+  offset: number;
+}
+
+const writeString = (block: Buffer, value: string, offset: number, length: number) => {
+  block.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+};
+
+const writeOctal = (block: Buffer, value: number, offset: number, length: number) => {
+  writeString(block, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length);
+};
+
+const buildHeader = (name: string, size: number, mtime: Date, typeflag: string) => {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  writeString(block, name, 0, MAX_USTAR_NAME_BYTES);
+  writeOctal(block, 0o644, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  writeOctal(block, Math.min(size, MAX_USTAR_SIZE), 124, 12);
+  writeOctal(block, Math.floor(mtime.getTime() / 1000), 136, 12);
+  block.fill(0x20, 148, 156);
+  writeString(block, typeflag, 156, 1);
+  writeString(block, 'ustar\u000000', 257, 8);
+
+  let checksum = 0;
+  for (const byte of block) checksum += byte;
+  writeString(block, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+  return block;
+};
+
+const paxRecord = (key: string, value: string) => {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  // 長さの桁数自体がレコード長に含まれるため、収束するまで計算する
+  while (Buffer.byteLength(`${length}${body}`) !== length) {
+    length = Buffer.byteLength(`${length}${body}`);
+  }
+  return `${length}${body}`;
+};
+
+const padding = (size: number) => Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+
+function* entryHeaders(entry: TarEntry) {
+  const mtime = entry.mtime ?? new Date();
+  const records: string[] = [];
+  if (Buffer.byteLength(entry.name) > MAX_USTAR_NAME_BYTES)
+    records.push(paxRecord('path', entry.name));
+  if (entry.size > MAX_USTAR_SIZE) records.push(paxRecord('size', String(entry.size)));
+  if (records.length > 0) {
+    const pax = Buffer.from(records.join(''), 'utf8');
+    yield buildHeader('PaxHeader', pax.length, mtime, 'x');
+    yield pax;
+    yield padding(pax.length);
+  }
+  yield buildHeader(entry.name, entry.size, mtime, '0');
+}
+
+async function* generateTar(entries: AsyncIterable<TarEntry> | Iterable<TarEntry>) {
+  for await (const entry of entries) {
+    yield* entryHeaders(entry);
+    const source = entry.source();
+    let written = 0;
+    if (Buffer.isBuffer(source)) {
+      written = source.length;
+      yield source;
+    } else {
+      for await (const chunk of source) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        written += buffer.length;
+        yield buffer;
+      }
+    }
+    if (written !== entry.size) {
+      throw new Error(`Archive entry size changed while reading: ${entry.name}`);
+    }
+    yield padding(entry.size);
+  }
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+export function createTarStream(entries: AsyncIterable<TarEntry> | Iterable<TarEntry>): Readable {
+  return Readable.from(generateTar(entries), { objectMode: false });
+}
+
+const readString = (block: Buffer, offset: number, length: number) => {
+  const raw = block.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf8');
+};
+
+const readOctal = (block: Buffer, offset: number, length: number) => {
+  const value = readString(block, offset, length).trim();
+  return value ? Number.parseInt(value, 8) : 0;
+};
+
+const parsePaxRecords = (data: Buffer) => {
+  const values = new Map<string, string>();
+  let position = 0;
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    if (space === -1) break;
+    const length = Number.parseInt(data.subarray(position, space).toString('utf8'), 10);
+    if (!Number.isFinite(length) || length <= 0) break;
+    const record = data.subarray(space + 1, position + length - 1).toString('utf8');
+    const separator = record.indexOf('=');
+    if (separator > 0) values.set(record.slice(0, separator), record.slice(separator + 1));
+    position += length;
+  }
+  return values;
+};
+
+const isZeroBlock = (block: Buffer) => block.every((byte) => byte === 0);
+
+const verifyChecksum = (block: Buffer) => {
+  let checksum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    checksum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return checksum === readOctal(block, 148, 8);
+};
+
+/** tar ファイル内の通常ファイルの一覧（名前・サイズ・データ位置）を返す */
+export function readTarEntries(filePath: string): TarFileEntry[] {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const entries: TarFileEntry[] = [];
+    const header = Buffer.alloc(BLOCK_SIZE);
+    let position = 0;
+    let pending = new Map<string, string>();
+
+    while (position + BLOCK_SIZE <= fileSize) {
+      fs.readSync(fd, header, 0, BLOCK_SIZE, position);
+      if (isZeroBlock(header)) break;
+      if (!verifyChecksum(header)) {
+        throw new Error('Invalid archive: header checksum mismatch');
+      }
+
+      const typeflag = readString(header, 156, 1) || '0';
+      const prefix = readString(header, 345, 155);
+      const baseName = readString(header, 0, MAX_USTAR_NAME_BYTES);
+      const size = Number(pending.get('size') ?? readOctal(header, 124, 12));
+      const name = pending.get('path') ?? (prefix ? `${prefix}/${baseName}` : baseName);
+      const offset = position + BLOCK_SIZE;
+      if (offset + size > fileSize) {
+        throw new Error('Invalid archive: entry exceeds file size');
+      }
+
+      if (typeflag === 'x' || typeflag === 'L') {
+        const data = Buffer.alloc(size);
+        fs.readSync(fd, data, 0, size, offset);
+        pending =
+          typeflag === 'x'
+            ? parsePaxRecords(data)
+            : new Map([['path', readString(data, 0, data.length)]]);
+      } else {
+        if (typeflag === '0' || typeflag === '7') {
+          entries.push({ name, size, offset });
+        }
+        pending = new Map();
+      }
+      position = offset + size + ((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+    }
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export function readTarEntryBuffer(filePath: string, entry: TarFileEntry): Buffer {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const data = Buffer.alloc(entry.size);
+    fs.readSync(fd, data, 0, entry.size, entry.offset);
+    return data;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export async function extractTarEntry(filePath: string, entry: TarFileEntry, targetPath: string) {
+  if (entry.size === 0) {
+    fs.writeFileSync(targetPath, '');
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    fs.createReadStream(filePath, { start: entry.offset, end: entry.offset + entry.size - 1 })
+      .on('error', reject)
+      .pipe(fs.createWriteStream(targetPath))
+      .on('error', reject)
+      .on('finish', () => resolve());
+  });
+}
@@ -0,0 +1,187 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { StackMediaCategory } from '../repositories/sqlite/stack/types';
+import { isComicArchiveFileInput } from './comicArchiveImport';
+
+export type ImportedFile = {
+  path: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+};
+
+const sanitizeFileNameForStorage = (name: string) => {
+  const withoutControl = Array.from(name)
+    .filter((char) => {
+      const code = char.charCodeAt(0);
+      return code >= 0x20 && code !== 0x7f;
+    })
+    .join('');
+  const sanitized = withoutControl.replace(/[\\/:*?"<>|]+/g, '_').trim();
+  if (sanitized.length > 0) {
+    return sanitized.length > 200 ? sanitized.slice(-200) : sanitized;
+  }
+  return `remote-${Date.now()}`;
+};
+
+const resolveFileNameFromHeaders = (urlString: string, contentDisposition: string | null) => {
+  if (contentDisposition) {
+    const encodedMatch = contentDisposition.match(/filename\*=UTF-8''([^;]+)/i);
+    if (encodedMatch?.[1]) {
+      try {
+        return decodeURIComponent(encodedMatch[1]);
+      } catch {}
+    }
+    const quotedMatch = contentDisposition.match(/filename="?([^";]+)"?/i);
+    if (quotedMatch?.[1]) {
+      try {
+        return decodeURIComponent(quotedMatch[1]);
+      } catch {
+        return quotedMatch[1];
+      }
+    }
+  }
+
+  try {
+    const target = new URL(urlString);
+    const base = target.pathname.split('/').filter(Boolean).pop() ?? '';
+    return base || `remote-${Date.now()}`;
+  } catch {
+    return `remote-${Date.now()}`;
+  }
+};
+
+export const inferMediaTypeFromMime = (
+  mime: string | null | undefined,
+  originalName: string
+): StackMediaCategory => {
+  const ext = path.extname(originalName).toLowerCase();
+  if (ext === '.ai' || ext === '.svg' || ext === '.svgz') return 'image';
+  if (ext === '.pdf') return 'comic';
+  if (isComicArchiveFileInput({ originalname: originalName, mimetype: mime ?? undefined })) {
+    return 'comic';
+  }
+  if (['.mp4', '.mov', '.avi', '.mkv', '.webm', '.mpeg', '.mpg'].includes(ext)) return 'video';
+  if (mime?.startsWith('video/')) return 'video';
+  if (mime === 'application/pdf') return 'comic';
+  return 'image';
+};
+
+const lookupMimeFromExtension = (originalName: string): string | null => {
+  const ext = path.extname(originalName).toLowerCase();
+  if (!ext) return null;
+  const mapping: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.svgz': 'image/svg+xml',
+    '.bmp': 'image/bmp',
+    '.avif': 'image/avif',
+    '.heic': 'image/heic',
+    '.dng': 'image/x-adobe-dng',
+    '.mp4': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+    '.mkv': 'video/x-matroska',
+    '.avi': 'video/x-msvideo',
+    '.mpeg': 'video/mpeg',
+    '.mpg': 'video/mpeg',
+    '.pdf': 'application/pdf',
+    '.ai': 'application/pdf',
+    '.cbz': 'application/vnd.comicbook+zip',
+    '.cbr': 'application/vnd.comicbook-rar',
+    '.cb7': 'application/x-cb7',
+    '.epub': 'application/epub+zip',
+  };
+  return mapping[ext] ?? null;
+};
+
+const downloadRemoteAsset = async (url: string, tmpDir: string): Promise<ImportedFile> => {
+  const targetUrl = new URL(url);
+  const headers: Record<string, string> = {
+    'User-Agent':
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/118 Safari/537.36',
+  };
+
+  if (targetUrl.hostname.endsWith('pximg.net')) {
+    headers.Referer = 'https://www.pixiv.net/';
+  }
+
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}で取得に失敗しました`);
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length === 0) {
+    throw new Error('空のファイルが返却されました');
+  }
+
+  const rawName = resolveFileNameFromHeaders(url, response.headers.get('content-disposition'));
+  const sanitizedName = sanitizeFileNameForStorage(rawName.split('?')[0] ?? rawName);
+  const tmpPath = path.join(
+    tmpDir,
+    `${Date.now()}-${Math.random().toString(36).slice(2, 10)}-${sanitizedName}`
+  );
+  fs.writeFileSync(tmpPath, buffer);
+
+  const headerMime = response.headers.get('content-type');
+  const lookedUp = lookupMimeFromExtension(sanitizedName);
+  const mimetype =
+    headerMime && headerMime !== 'application/octet-stream'
+      ? headerMime
+      : (lookedUp ?? 'application/octet-stream');
+
+  return {
+    path: tmpPath,
+    originalname: sanitizedName,
+    mimetype,
+    size: buffer.length,
+  };
+};
+
+const copyLocalAssetFromFileUrl = (url: string, tmpDir: string): ImportedFile => {
+  const sourcePath = fileURLToPath(new URL(url));
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(sourcePath);
+  } catch {
+    throw new Error('ローカルファイルが見つかりません');
+  }
+
+  if (!stat.isFile()) {
+    throw new Error('ローカルファイルのみドロップできます');
+  }
+
+  const originalname = sanitizeFileNameForStorage(path.basename(sourcePath));
+  const tmpPath = path.join(
+    tmpDir,
+    `${Date.now()}-${Math.random().toString(36).slice(2, 10)}-${originalname}`
+  );
+  fs.copyFileSync(sourcePath, tmpPath);
+
+  return {
+    path: tmpPath,
+    originalname,
+    mimetype: lookupMimeFromExtension(originalname) ?? 'application/octet-stream',
+    size: stat.size,
+  };
+};
+
+export const importAssetFromUrl = async (url: string, tmpDir: string) => {
+  const targetUrl = new URL(url);
+
+  if (targetUrl.protocol === 'file:') {
+    return copyLocalAssetFromFileUrl(url, tmpDir);
+  }
+
+  if (targetUrl.protocol !== 'http:' && targetUrl.protocol !== 'https:') {
+    throw new Error('未対応のURLスキームです');
+  }
+
+  return downloadRemoteAsset(url, tmpDir);
+};
@@ -0,0 +1,19 @@
+import type { Context } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+
+const SESSION_COOKIE_NAME = 'cb_session';
+
+export const getSessionToken = (c: Context) => getCookie(c, SESSION_COOKIE_NAME) || null;
+
+export function setSessionCookie(c: Context, token: string, expiresAt: string) {
+  setCookie(c, SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: 'Lax',
+    path: '/',
+    expires: new Date(expiresAt),
+  });
+}
+
+export function clearSessionCookie(c: Context) {
+  deleteCookie(c, SESSION_COOKIE_NAME, { path: '/' });
+}
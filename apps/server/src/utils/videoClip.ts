@@ -0,0 +1,149 @@
+import { execFile } from 'node:child_process';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { mkdirpSync } from 'fs-extra';
+import { getFFMPEGPath, probeHasAudioStream } from './ffmpeg';
+
+const execFileAsync = promisify(execFile);
+
+export type ClipFormat = 'mp4' | 'webp' | 'gif';
+
+export const CLIP_MIME_TYPES: Record<ClipFormat, string> = {
+  mp4: 'video/mp4',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+export interface ClipOptions {
+  start: number;
+  end: number;
+  format: ClipFormat;
+  /** 省略時は元動画のまま（GIF/WebP は 15fps） */
+  fps?: number;
+  /** 横幅 (px)。高さは縦横比を保って決める */
+  width?: number;
+}
+
+const DEFAULT_LOOP_FPS = 15;
+
+/** ffmpeg の -vf に渡すフィルタ。GIF は 2 パス相当のパレット生成を 1 つのグラフで行う */
+export const buildClipFilter = (options: ClipOptions) => {
+  const fps = options.fps ?? (options.format === 'mp4' ? undefined : DEFAULT_LOOP_FPS);
+  const filters: string[] = [];
+  if (fps) filters.push(`fps=${fps}`);
+  if (options.width) {
+    // mp4 (yuv420p) は縦横とも偶数でないとエンコードできない
+    filters.push(
+      options.format === 'mp4'
+        ? `scale=${options.width}:-2:flags=lanczos`
+        : `scale=${options.width}:-1:flags=lanczos`
+    );
+  } else if (options.format === 'mp4') {
+    filters.push('scale=trunc(iw/2)*2:trunc(ih/2)*2');
+  }
+  const base = filters.join(',');
+  if (options.format === 'gif') {
+    const prefix = base ? `${base},` : '';
+    return `${prefix}split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer`;
+  }
+  return base;
+};
+
+export const buildClipArgs = (
+  inputPath: string,
+  outputPath: string,
+  options: ClipOptions,
+  hasAudio: boolean
+) => {
+  const args = [
+    '-y',
+    '-hide_banner',
+    '-loglevel',
+    'error',
+    '-ss',
+    options.start.toFixed(3),
+    '-t',
+    (options.end - options.start).toFixed(3),
+    '-i',
+    inputPath,
+  ];
+  const filter = buildClipFilter(options);
+  if (filter) args.push(options.format === 'gif' ? '-filter_complex' : '-vf', filter);
+
+  switch (options.format) {
+    case 'mp4':
+      args.push(
+        '-c:v',
+        'libx264',
+        '-preset',
+        'veryfast',
+        '-pix_fmt',
+        'yuv420p',
+        '-movflags',
+        'faststart'
+      );
+      if (hasAudio) args.push('-c:a', 'aac', '-b:a', '128k');
+      else args.push('-an');
+      break;
+    case 'webp':
+      args.push('-c:v', 'libwebp', '-lossless', '0', '-q:v', '75', '-loop', '0', '-an');
+      break;
+    case 'gif':
+      args.push('-loop', '0', '-an');
+      break;
+  }
+
+  args.push(outputPath);
+  return args;
+};
+
+/** 動画の指定範囲を MP4 / アニメーション WebP / GIF として書き出す */
+export const exportVideoClip = async (
+  inputPath: string,
+  outputPath: string,
+  options: ClipOptions
+) => {
+  mkdirpSync(path.dirname(outputPath));
+  const hasAudio = options.format === 'mp4' && probeHasAudioStream(inputPath);
+  await execFileAsync(getFFMPEGPath(), buildClipArgs(inputPath, outputPath, options, hasAudio), {
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return outputPath;
+};
+
+export interface ClipRangeInput {
+  start?: number;
+  end?: number;
+  /** asset meta の markers の添字。start/end より優先する */
+  startMarker?: number;
+  endMarker?: number;
+}
+
+/**
+ * 秒数またはマーカーの組から書き出し範囲を決める。
+ * 範囲が不正なら理由を返す（duration が分からない場合は終端を検証しない）。
+ */
+export const resolveClipRange = (
+  input: ClipRangeInput,
+  markers: unknown,
+  duration: number | null
+): { start: number; end: number } | { error: string } => {
+  const markerTimes = (Array.isArray(markers) ? markers : []).map((marker) =>
+    typeof marker === 'object' && marker !== null
+      ? Number((marker as { time?: unknown }).time)
+      : NaN
+  );
+  const pick = (index: number | undefined, fallback: number | undefined) => {
+    if (index === undefined) return fallback;
+    const time = markerTimes[index];
+    return Number.isFinite(time) ? time : null;
+  };
+
+  const start = pick(input.startMarker, input.start ?? 0);
+  const end = pick(input.endMarker, input.end ?? duration ?? undefined);
+  if (start === null || end === null) return { error: 'Marker not found' };
+  if (end === undefined) return { error: 'End time is required' };
+  const clampedEnd = duration !== null ? Math.min(end, duration) : end;
+  if (start < 0 || clampedEnd - start < 0.1) return { error: 'Clip range is too short' };
+  return { start, end: clampedEnd };
+};
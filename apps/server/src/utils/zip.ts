@@ -1,3 +1,7 @@
+import type { FileHandle } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { inflateRaw, inflateRawSync } from 'node:zlib';
+
 export interface ZipEntry {
   name: string;
   data: Buffer;
@@ -102,3 +106,152 @@ export const createZipArchive = (entries: ZipEntry[]): Buffer => {
 
   return Buffer.concat([...localParts, centralDirectory, endOfCentralDirectory]);
 };
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const EOCD_SIZE = 22;
+const LOCAL_HEADER_SIZE = 30;
+
+/** 中央ディレクトリの 1 件。中身はまだ読まない */
+export interface ZipDirectoryEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  /** 中央ディレクトリに書かれた展開後のサイズ */
+  size: number;
+  localOffset: number;
+}
+
+const inflateRawAsync = promisify(inflateRaw);
+
+const findEndOfCentralDirectory = (buffer: Buffer) => {
+  // 末尾のコメントは最大 65535 バイト
+  const lowerBound = Math.max(0, buffer.length - EOCD_SIZE - 0xffff);
+  for (let offset = buffer.length - EOCD_SIZE; offset >= lowerBound; offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+};
+
+/** 終端レコードから中央ディレクトリの位置を読む */
+const readDirectoryLocation = (tail: Buffer, tailStart: number, totalSize: number) => {
+  const eocd = tail.length >= EOCD_SIZE ? findEndOfCentralDirectory(tail) : -1;
+  if (eocd < 0) throw new Error('ZIPの終端レコードが見つかりません');
+  const count = tail.readUInt16LE(eocd + 10);
+  const size = tail.readUInt32LE(eocd + 12);
+  const offset = tail.readUInt32LE(eocd + 16);
+  if (offset + size > tailStart + eocd || offset + size > totalSize) {
+    throw new Error('ZIPの中央ディレクトリが壊れています');
+  }
+  return { count, size, offset };
+};
+
+const parseCentralDirectory = (directory: Buffer, count: number): ZipDirectoryEntry[] => {
+  const entries: ZipDirectoryEntry[] = [];
+  let offset = 0;
+  for (let index = 0; index < count; index += 1) {
+    if (
+      offset + 46 > directory.length ||
+      directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new Error('ZIPの中央ディレクトリが壊れています');
+    }
+    const flags = directory.readUInt16LE(offset + 8);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const rawName = directory.subarray(offset + 46, offset + 46 + nameLength);
+    const name = rawName.toString(flags & 0x0800 ? 'utf8' : 'latin1');
+    entries.push({
+      name,
+      flags,
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localOffset: directory.readUInt32LE(offset + 42),
+    });
+    offset +=
+      46 + nameLength + directory.readUInt16LE(offset + 30) + directory.readUInt16LE(offset + 32);
+  }
+  return entries.filter((entry) => !entry.name.endsWith('/'));
+};
+
+const assertReadableEntry = (entry: ZipDirectoryEntry, maxSize: number) => {
+  if (entry.flags & 0x0001) throw new Error(`暗号化されたZIPは展開できません: ${entry.name}`);
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`未対応のZIP圧縮方式です (${entry.method}): ${entry.name}`);
+  }
+  if (entry.size > maxSize) {
+    throw new Error(`ZIP内のファイルが大きすぎます: ${entry.name}`);
+  }
+};
+
+const localDataStart = (header: Buffer, entry: ZipDirectoryEntry) => {
+  if (header.length < LOCAL_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new Error(`ZIPのローカルヘッダが壊れています: ${entry.name}`);
+  }
+  return entry.localOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+};
+
+// 展開後のサイズは中央ディレクトリの値を上限にし、食い違えば壊れているとみなす
+const checkInflatedSize = (data: Buffer, entry: ZipDirectoryEntry) => {
+  if (data.length !== entry.size) {
+    throw new Error(`ZIP内のファイルサイズが一致しません: ${entry.name}`);
+  }
+  return data;
+};
+
+/** メモリ上の ZIP を展開する（無圧縮と deflate のみ。ZIP64 は非対応） */
+export const readZipEntries = (
+  buffer: Buffer,
+  // deflate の圧縮率は最大でおよそ 1032 倍
+  maxEntrySize = buffer.length * 1032
+): ZipEntry[] => {
+  const location = readDirectoryLocation(buffer, 0, buffer.length);
+  const directory = buffer.subarray(location.offset, location.offset + location.size);
+
+  return parseCentralDirectory(directory, location.count).map((entry) => {
+    assertReadableEntry(entry, maxEntrySize);
+    const header = buffer.subarray(entry.localOffset, entry.localOffset + LOCAL_HEADER_SIZE);
+    const dataStart = localDataStart(header, entry);
+    const raw = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+    if (entry.method === 0) return { name: entry.name, data: Buffer.from(raw) };
+    if (entry.size === 0) return { name: entry.name, data: Buffer.alloc(0) };
+    return {
+      name: entry.name,
+      data: checkInflatedSize(inflateRawSync(raw, { maxOutputLength: entry.size }), entry),
+    };
+  });
+};
+
+/** ZIP ファイルの末尾と中央ディレクトリだけを読み、エントリの一覧を返す */
+export const readZipDirectory = async (file: FileHandle): Promise<ZipDirectoryEntry[]> => {
+  const { size } = await file.stat();
+  const tailStart = Math.max(0, size - EOCD_SIZE - 0xffff);
+  const tail = Buffer.alloc(size - tailStart);
+  await file.read(tail, 0, tail.length, tailStart);
+  const location = readDirectoryLocation(tail, tailStart, size);
+
+  const directory = Buffer.alloc(location.size);
+  await file.read(directory, 0, directory.length, location.offset);
+  return parseCentralDirectory(directory, location.count);
+};
+
+/** エントリを 1 件だけ読んで展開する。展開後のサイズが maxSize を超えるものは読まない */
+export const readZipEntryData = async (
+  file: FileHandle,
+  entry: ZipDirectoryEntry,
+  maxSize: number
+): Promise<Buffer> => {
+  assertReadableEntry(entry, maxSize);
+  const header = Buffer.alloc(LOCAL_HEADER_SIZE);
+  const { bytesRead } = await file.read(header, 0, LOCAL_HEADER_SIZE, entry.localOffset);
+  const dataStart = localDataStart(header.subarray(0, bytesRead), entry);
+
+  const raw = Buffer.alloc(entry.compressedSize);
+  const { bytesRead: rawRead } = await file.read(raw, 0, raw.length, dataStart);
+  if (rawRead !== raw.length) throw new Error(`ZIPのデータが途中で切れています: ${entry.name}`);
+  if (entry.method === 0) return checkInflatedSize(raw, entry);
+  if (entry.size === 0) return Buffer.alloc(0);
+  return checkInflatedSize(await inflateRawAsync(raw, { maxOutputLength: entry.size }), entry);
+};
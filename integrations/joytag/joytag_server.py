@@ -1,6 +1,6 @@
 #!/usr/bin/env python3
 # CaramelBoard JoyTag Server Bridge
-# - Keeps a stable HTTP API for CaramelBoard: /health and /api/v1/tag
+# - Keeps a stable HTTP API for CaramelBoard: /health, /api/v1/tag and /api/v1/embed
 # - Runs JoyTag/PyTorch inside a short-lived worker process so idle unload can
 #   release CUDA/PyTorch runtime resources by exiting that worker.
 
@@ -250,6 +250,40 @@ class JoyTagWorker:
 
         raise ValueError("missing file_key, image_url, or image_bytes")
 
+    def _embed_tensor(self, tensor: Any):
+        # The pooled features that feed the tag head are used as the image embedding.
+        captured: dict[str, Any] = {}
+
+        def capture(_module: Any, inputs: Any, _output: Any) -> None:
+            captured["features"] = inputs[0]
+
+        handle = self.model.head.register_forward_hook(capture)
+        try:
+            self._predict_tensor(tensor)
+        finally:
+            handle.remove()
+        features = captured.get("features")
+        if features is None:
+            raise RuntimeError("JoyTag model did not expose embedding features")
+        vector = features[0].float().cpu()
+        return vector / vector.norm().clamp(min=1e-12)
+
+    def embed(self, message: dict[str, Any]) -> dict[str, Any]:
+        self.load()
+        image = self._image_from_message(message)
+
+        with self.torch.no_grad():
+            vector = self._embed_tensor(self._prepare_image(image, self.model.image_size))
+
+        embedding = [float(value) for value in vector.tolist()]
+        return {
+            "embedding": embedding,
+            "dimensions": len(embedding),
+            "model": "joytag",
+            "_model_tag_count": len(self.top_tags),
+            "_device": self.device,
+        }
+
     def predict(self, message: dict[str, Any]) -> dict[str, Any]:
         self.load()
         threshold = float(message.get("threshold", THRESHOLD_DEFAULT))
@@ -305,13 +339,14 @@ def _worker_main(command_queue: Any, response_queue: Any, config: dict[str, Any]
                     logger.exception("JoyTag preload failed")
                     break
                 continue
-            if message.get("type") != "tag":
+            message_type = message.get("type")
+            if message_type not in {"tag", "embed"}:
                 continue
 
             request_id = message.get("id")
             started_at = time.time()
             try:
-                payload = worker.predict(message)
+                payload = worker.embed(message) if message_type == "embed" else worker.predict(message)
                 payload["processing_time_ms"] = int((time.time() - started_at) * 1000)
                 last_used = time.time()
                 response_queue.put({"id": request_id, "ok": True, "payload": payload, "status_code": 200})
@@ -320,7 +355,7 @@ def _worker_main(command_queue: Any, response_queue: Any, config: dict[str, Any]
                 response_queue.put({"id": request_id, "ok": False, "error": str(exc), "status_code": 400})
             except Exception as exc:  # pragma: no cover
                 last_used = time.time()
-                logger.exception("/api/v1/tag worker failed")
+                logger.exception(f"/api/v1/{message_type} worker failed")
                 response_queue.put({"id": request_id, "ok": False, "error": str(exc), "status_code": 500})
                 if worker.model is None:
                     break
@@ -418,6 +453,20 @@ def _wait_worker_response(response_queue: Any, process: Optional[mp.Process], re
     raise TimeoutError("JoyTag model load timed out")
 
 
+def _image_message_from_request() -> tuple[dict[str, Any] | None, tuple[Any, int] | None]:
+    if request.is_json:
+        data = request.get_json() or {}
+        if "file_key" in data:
+            return {"file_key": data["file_key"]}, None
+        if "image_url" in data:
+            return {"image_url": data["image_url"]}, None
+        return None, (jsonify({"error": "missing file_key or image_url"}), 400)
+
+    if "image" not in request.files:
+        return None, (jsonify({"error": "no image file provided"}), 400)
+    return {"image_bytes": request.files["image"].read()}, None
+
+
 def _tag_message_from_request(threshold: float) -> tuple[dict[str, Any] | None, tuple[Any, int] | None]:
     if request.is_json:
         data = request.get_json() or {}
@@ -459,7 +508,7 @@ def health():
             "services": {"joytag": services_status},
             "device": os.environ.get("JOYTAG_DEVICE", "auto").strip().lower() or "auto",
             "tags": _model_tag_count if services_status == "ready" else 0,
-            "version": "cb-joytag-bridge-2",
+            "version": "cb-joytag-bridge-3",
             "model_state": services_status,
             "worker_pid": _worker_process.pid if _worker_process is not None and _worker_process.is_alive() else None,
             "idle_unload_seconds": IDLE_UNLOAD_SECONDS,
@@ -478,24 +527,14 @@ def health():
         return jsonify(payload)
 
 
-@app.post("/api/v1/tag")
-def api_tag():
+def _run_worker_request(message_type: str, message: dict[str, Any]):
     global _worker_state, _worker_error, _worker_ready_at, _model_tag_count
 
-    prediction_started = False
+    begin_prediction()
     try:
-        message, early_response = _tag_message_from_request(THRESHOLD_DEFAULT)
-        if early_response is not None:
-            return early_response
-        if message is None:
-            return jsonify({"error": "no image resolved"}), 400
-
-        begin_prediction()
-        prediction_started = True
-
         with _request_lock:
             command_queue, response_queue, process, request_id = _ensure_worker_started()
-            command_queue.put({"type": "tag", "id": request_id, **message})
+            command_queue.put({"type": message_type, "id": request_id, **message})
             response = _wait_worker_response(response_queue, process, request_id)
 
         if not response.get("ok"):
@@ -521,12 +560,36 @@ def api_tag():
         return jsonify(payload)
     except TimeoutError as exc:
         return jsonify({"error": str(exc), "status": "loading"}), 503
+    finally:
+        end_prediction()
+
+
+@app.post("/api/v1/tag")
+def api_tag():
+    try:
+        message, early_response = _tag_message_from_request(THRESHOLD_DEFAULT)
+        if early_response is not None:
+            return early_response
+        if message is None:
+            return jsonify({"error": "no image resolved"}), 400
+        return _run_worker_request("tag", message)
     except Exception as exc:  # pragma: no cover
         logger.exception("/api/v1/tag failed")
         return jsonify({"error": str(exc)}), 500
-    finally:
-        if prediction_started:
-            end_prediction()
+
+
+@app.post("/api/v1/embed")
+def api_embed():
+    try:
+        message, early_response = _image_message_from_request()
+        if early_response is not None:
+            return early_response
+        if message is None:
+            return jsonify({"error": "no image resolved"}), 400
+        return _run_worker_request("embed", message)
+    except Exception as exc:  # pragma: no cover
+        logger.exception("/api/v1/embed failed")
+        return jsonify({"error": str(exc)}), 500
 
 
 def start_idle_monitor() -> None: